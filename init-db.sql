@@ -2,3 +2,7 @@ DROP DATABASE IF EXISTS hyperdrip_test;
 CREATE DATABASE hyperdrip_test;
 
 CREATE EXTENSION IF NOT EXISTS pgmq;
+
+-- The SQL queue backend (QUEUE_BACKEND=sql) needs pgmq in the test database too
+\c hyperdrip_test
+CREATE EXTENSION IF NOT EXISTS pgmq;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "Channel" AS ENUM ('EMAIL', 'SMS');
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "lastDeliveryError" TEXT,
+ADD COLUMN     "lastDeliveryStatus" "DeliveryStatus",
+ADD COLUMN     "lastProviderMessageId" TEXT;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stepNumber" INTEGER NOT NULL,
+    "channel" "Channel" NOT NULL DEFAULT 'EMAIL',
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_stepNumber_channel_key" ON "message_templates"("stepNumber", "channel");
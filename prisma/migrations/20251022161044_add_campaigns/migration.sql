@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "campaignId" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaigns" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "dailyCap" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "campaign_steps" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "stepNumber" INTEGER NOT NULL,
+    "delayDays" INTEGER NOT NULL,
+    "channel" "Channel" NOT NULL DEFAULT 'EMAIL',
+    "templateId" TEXT,
+
+    CONSTRAINT "campaign_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leads_campaignId_lastSentAt_idx" ON "leads"("campaignId", "lastSentAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaigns_name_key" ON "campaigns"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_steps_campaignId_stepNumber_key" ON "campaign_steps"("campaignId", "stepNumber");
+
+-- AddForeignKey
+ALTER TABLE "leads" ADD CONSTRAINT "leads_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_steps" ADD CONSTRAINT "campaign_steps_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_steps" ADD CONSTRAINT "campaign_steps_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "message_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "scheduled_messages" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "messageNumber" INTEGER NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "msgId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_leadId_messageNumber_idx" ON "scheduled_messages"("leadId", "messageNumber");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "SuppressionType" AS ENUM ('EMAIL', 'PHONE');
+
+-- AlterEnum
+ALTER TYPE "LeadStatus" ADD VALUE 'UNSUBSCRIBED';
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "unsubscribedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "suppressions" (
+    "id" TEXT NOT NULL,
+    "type" "SuppressionType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressions_type_value_key" ON "suppressions"("type", "value");
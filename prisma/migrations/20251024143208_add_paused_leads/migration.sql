@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LeadStatus" ADD VALUE 'PAUSED';
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "pausedAt" TIMESTAMP(3);
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ScheduledMessageStatus" AS ENUM ('SCHEDULED', 'SENT', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "scheduled_messages" ADD COLUMN     "sentAt" TIMESTAMP(3),
+ADD COLUMN     "status" "ScheduledMessageStatus" NOT NULL DEFAULT 'SCHEDULED';
+
+-- CreateTable
+CREATE TABLE "scheduled_slots" (
+    "day" DATE NOT NULL,
+    "scope" TEXT NOT NULL,
+    "reserved" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "scheduled_slots_pkey" PRIMARY KEY ("day","scope")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_queueName_msgId_idx" ON "scheduled_messages"("queueName", "msgId");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_sentAt_idx" ON "scheduled_messages"("status", "sentAt");
+
+-- Backfill today's and future counters from messages already queued
+INSERT INTO "scheduled_slots" ("day", "scope", "reserved")
+SELECT date_trunc('day', "scheduledFor")::date, 'global', COUNT(*)
+FROM "scheduled_messages"
+WHERE "scheduledFor" >= date_trunc('day', CURRENT_TIMESTAMP)
+GROUP BY 1;
+
+INSERT INTO "scheduled_slots" ("day", "scope", "reserved")
+SELECT date_trunc('day', sm."scheduledFor")::date, 'campaign:' || l."campaignId", COUNT(*)
+FROM "scheduled_messages" sm
+JOIN "leads" l ON l."id" = sm."leadId"
+WHERE l."campaignId" IS NOT NULL
+  AND sm."scheduledFor" >= date_trunc('day', CURRENT_TIMESTAMP)
+GROUP BY 1, 2;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN     "sendDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "sendWindowEnd" TEXT,
+ADD COLUMN     "sendWindowStart" TEXT;
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "timezone" TEXT;
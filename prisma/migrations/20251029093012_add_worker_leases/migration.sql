@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "worker_leases" (
+    "name" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "worker_leases_pkey" PRIMARY KEY ("name")
+);
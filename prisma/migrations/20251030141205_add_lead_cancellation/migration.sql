@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "LeadStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "scheduled_messages" ADD COLUMN     "providerMessageId" TEXT;
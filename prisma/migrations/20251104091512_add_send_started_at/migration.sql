@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "scheduled_messages" ADD COLUMN     "sendStartedAt" TIMESTAMP(3);
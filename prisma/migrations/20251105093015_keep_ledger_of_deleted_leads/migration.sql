@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "scheduled_messages" DROP CONSTRAINT "scheduled_messages_leadId_fkey";
+
+-- AlterTable
+ALTER TABLE "scheduled_messages" ALTER COLUMN "leadId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
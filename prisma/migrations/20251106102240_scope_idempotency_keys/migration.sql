@@ -0,0 +1,8 @@
+-- Keys stored before this belonged to no one in particular; they expire
+-- within IDEMPOTENCY_KEY_TTL anyway, so they are dropped rather than guessed at
+DELETE FROM "idempotency_keys";
+
+-- AlterTable
+ALTER TABLE "idempotency_keys" DROP CONSTRAINT "idempotency_keys_pkey",
+ADD COLUMN     "scope" TEXT NOT NULL,
+ADD CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("scope", "key");
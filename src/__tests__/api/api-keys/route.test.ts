@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { GET as list, POST as create } from '../../../app/api/api-keys/route';
+import { DELETE as revoke } from '../../../app/api/api-keys/[id]/route';
+import { authenticateApiKey, hashApiKey } from '../../../lib/api-keys';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockUrlRequest,
+  createRouteParams,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('API Key Management Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createKey = async (body: object = { name: 'CRM sync', scopes: ['leads:read'] }) => {
+    const response = await create(createMockUrlRequest('/api/api-keys', 'POST', body));
+    return { response, data: await response.json() };
+  };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  describe('POST /api/api-keys', () => {
+    it('should create a key and only store its hash', async () => {
+      const { response, data } = await createKey();
+
+      expect(response.status).toBe(201);
+      expect(data.data).toEqual(
+        expect.objectContaining({
+          name: 'CRM sync',
+          scopes: ['leads:read'],
+          key: expect.stringMatching(/^hd_/),
+          revokedAt: null,
+        })
+      );
+      expect(data.data.prefix).toBe(data.data.key.slice(0, 11));
+      expect(data.data).not.toHaveProperty('keyHash');
+
+      const stored = await testPrisma.apiKey.findUniqueOrThrow({ where: { id: data.data.id } });
+      expect(stored.keyHash).toBe(hashApiKey(data.data.key));
+      expect(await authenticateApiKey(data.data.key)).toEqual({
+        id: data.data.id,
+        name: 'CRM sync',
+        scopes: ['leads:read'],
+      });
+    });
+
+    it('should reject unknown or missing scopes', async () => {
+      const unknown = await createKey({ name: 'CRM sync', scopes: ['leads:delete'] });
+      await expectErrorResponse(unknown.response, 400, 'Validation failed');
+
+      const missing = await createKey({ name: 'CRM sync', scopes: [] });
+      await expectErrorResponse(missing.response, 400, 'Validation failed');
+    });
+  });
+
+  describe('GET /api/api-keys', () => {
+    it('should list keys without their secrets', async () => {
+      await createKey();
+
+      const response = await list();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toHaveLength(1);
+      expect(data.data[0]).not.toHaveProperty('keyHash');
+      expect(data.data[0]).not.toHaveProperty('key');
+    });
+  });
+
+  describe('DELETE /api/api-keys/[id]', () => {
+    it('should revoke a key so it no longer authenticates', async () => {
+      const { data } = await createKey();
+
+      const response = await revoke(
+        createMockUrlRequest(`/api/api-keys/${data.data.id}`, 'DELETE'),
+        createRouteParams({ id: data.data.id })
+      );
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.data.revokedAt).not.toBeNull();
+      expect(await authenticateApiKey(data.data.key)).toBeNull();
+    });
+
+    it('should return 404 for keys that do not exist', async () => {
+      const response = await revoke(
+        createMockUrlRequest('/api/api-keys/missing', 'DELETE'),
+        createRouteParams({ id: 'missing' })
+      );
+
+      await expectErrorResponse(response, 404, 'API key not found');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { GET, POST } from '../../../app/api/campaigns/route';
+import { cleanupDatabase, closeTestDatabase } from '../../setup/test-db';
+import { createMockRequest, expectErrorResponse } from '../../setup/test-helpers';
+
+const createCampaignData = (overrides: Partial<any> = {}) => ({
+  name: 'webinar',
+  dailyCap: 25,
+  steps: [
+    { delayDays: 0 },
+    { delayDays: 2, channel: 'SMS' },
+    { delayDays: 7 },
+  ],
+  ...overrides,
+});
+
+describe('Campaigns API Tests', () => {
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  describe('POST /api/campaigns', () => {
+    it('should create a campaign with numbered steps', async () => {
+      const response = await POST(createMockRequest(createCampaignData()));
+
+      expect(response.status).toBe(201);
+      const data = await response.json();
+      expect(data.data).toMatchObject({ name: 'webinar', dailyCap: 25 });
+      expect(data.data.steps.map((step: any) => [step.stepNumber, step.delayDays, step.channel])).toEqual([
+        [1, 0, 'EMAIL'],
+        [2, 2, 'SMS'],
+        [3, 7, 'EMAIL'],
+      ]);
+    });
+
+    it('should reject delays that are not increasing', async () => {
+      const response = await POST(createMockRequest(createCampaignData({
+        steps: [{ delayDays: 2 }, { delayDays: 2 }],
+      })));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject campaigns without steps', async () => {
+      const response = await POST(createMockRequest(createCampaignData({ steps: [] })));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject the reserved default name', async () => {
+      const response = await POST(createMockRequest(createCampaignData({ name: 'default' })));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should store a send window', async () => {
+      const response = await POST(createMockRequest(createCampaignData({
+        sendWindowStart: '09:00',
+        sendWindowEnd: '17:30',
+        sendDays: [1, 2, 3, 4, 5],
+      })));
+
+      expect(response.status).toBe(201);
+      const data = await response.json();
+      expect(data.data).toMatchObject({
+        sendWindowStart: '09:00',
+        sendWindowEnd: '17:30',
+        sendDays: [1, 2, 3, 4, 5],
+      });
+    });
+
+    it('should reject send windows that end before they start', async () => {
+      const response = await POST(createMockRequest(createCampaignData({
+        sendWindowStart: '17:00',
+        sendWindowEnd: '09:00',
+      })));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject malformed send window times and days', async () => {
+      const badTime = await POST(createMockRequest(createCampaignData({ sendWindowStart: '9am' })));
+      const badDay = await POST(createMockRequest(createCampaignData({ sendDays: [7] })));
+
+      await expectErrorResponse(badTime, 400, 'Validation failed');
+      await expectErrorResponse(badDay, 400, 'Validation failed');
+    });
+
+    it('should reject duplicate names', async () => {
+      await POST(createMockRequest(createCampaignData()));
+      const response = await POST(createMockRequest(createCampaignData()));
+
+      await expectErrorResponse(response, 422, 'A campaign with this name already exists');
+    });
+
+    it('should reject steps whose template does not exist', async () => {
+      const response = await POST(createMockRequest(createCampaignData({
+        steps: [
+          { delayDays: 0 },
+          { delayDays: 2, templateId: 'missing-template' },
+        ],
+      })));
+
+      await expectErrorResponse(response, 422, 'Template "missing-template" for step 2 does not exist');
+    });
+  });
+
+  describe('GET /api/campaigns', () => {
+    it('should list campaigns with their steps', async () => {
+      await POST(createMockRequest(createCampaignData()));
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.data).toHaveLength(1);
+      expect(data.data[0].steps).toHaveLength(3);
+    });
+  });
+});
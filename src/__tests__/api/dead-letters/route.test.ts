@@ -0,0 +1,255 @@
+// Mock the queue functions BEFORE importing the API routes
+const mockCreateQueue = jest.fn() as jest.MockedFunction<any>;
+const mockSendMessage = jest.fn() as jest.MockedFunction<any>;
+const mockPeekMessages = jest.fn() as jest.MockedFunction<any>;
+const mockCreateQueueMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  ...(jest.requireActual('../../../lib/queue') as object),
+  createQueue: mockCreateQueue,
+  sendMessage: mockSendMessage,
+  peekMessages: mockPeekMessages,
+  createQueueMessage: mockCreateQueueMessage,
+  deleteMessage: mockDeleteMessage,
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { GET as list } from '../../../app/api/dead-letters/route';
+import { GET as inspect, DELETE as discard } from '../../../app/api/dead-letters/[id]/route';
+import { POST as requeue } from '../../../app/api/dead-letters/[id]/requeue/route';
+import { QueueNotFoundError, UnsupportedQueueOperationError } from '../../../lib/queue';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockUrlRequest,
+  createRouteParams,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('Dead Letter API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const deadLetterFor = (leadId: string, id: string = '7') => ({
+    msgId: id,
+    readCount: 1,
+    enqueuedAt: '2025-10-27T10:00:00Z',
+    vt: '2025-10-27T10:00:00Z',
+    message: {
+      leadId,
+      email: 'john@example.com',
+      messageNumber: 2,
+      scheduledDate: '2025-10-27',
+      sourceQueue: 'test-drip-messages-2025-10-27',
+      sourceMsgId: '3',
+      readCount: 5,
+      error: 'Mailbox unavailable',
+      failedAt: '2025-10-27T10:00:00Z',
+    },
+    headers: {},
+  });
+
+  // Serve the entries the way a peek would: after the given ID, up to the limit
+  const withDeadLetters = (...entries: ReturnType<typeof deadLetterFor>[]) =>
+    mockPeekMessages.mockImplementation(async (_queueName: string, limit: number, after?: string) =>
+      entries.filter((entry) => Number(entry.msgId) > Number(after ?? 0)).slice(0, limit)
+    );
+
+  const createFailedLead = () =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        messageCount: 1,
+        status: 'FAILED',
+        failureReason: 'Message #2 failed after 5 attempts: Mailbox unavailable',
+      }
+    });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+
+    let nextMsgId = 100;
+    mockCreateQueue.mockResolvedValue(true);
+    mockSendMessage.mockImplementation(async () => nextMsgId++);
+    mockDeleteMessage.mockResolvedValue(true);
+    mockPeekMessages.mockResolvedValue([]);
+    mockCreateQueueMessage.mockImplementation((leadId: string, email: string, messageNumber: number, scheduledDate: string) => ({
+      leadId,
+      email,
+      messageNumber,
+      scheduledDate,
+    }));
+  });
+
+  describe('GET /api/dead-letters', () => {
+    it('should list dead letters without reading them', async () => {
+      withDeadLetters(deadLetterFor('lead-1'));
+
+      const response = await list(createMockUrlRequest('/api/dead-letters?limit=10'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockPeekMessages).toHaveBeenCalledWith('test-drip-messages-dlq', 10, undefined);
+      expect(data.data).toEqual([
+        expect.objectContaining({
+          id: '7',
+          message: expect.objectContaining({ leadId: 'lead-1', error: 'Mailbox unavailable' }),
+        }),
+      ]);
+    });
+
+    it('should page through entries after a given ID', async () => {
+      withDeadLetters(deadLetterFor('lead-1', '7'), deadLetterFor('lead-2', '8'), deadLetterFor('lead-3', '9'));
+
+      const response = await list(createMockUrlRequest('/api/dead-letters?limit=1&after=7'));
+      const data = await response.json();
+
+      expect(data.data.map((deadLetter: { id: string }) => deadLetter.id)).toEqual(['8']);
+    });
+
+    it('should return an empty list before anything is dead-lettered', async () => {
+      mockPeekMessages.mockRejectedValue(new QueueNotFoundError('test-drip-messages-dlq'));
+
+      const response = await list(createMockUrlRequest('/api/dead-letters'));
+      const data = await response.json();
+
+      expect(data.data).toEqual([]);
+    });
+
+    it('should reject invalid limits', async () => {
+      const response = await list(createMockUrlRequest('/api/dead-letters?limit=0'));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should return 501 when the queue backend cannot peek', async () => {
+      mockPeekMessages.mockRejectedValue(new UnsupportedQueueOperationError('pgmq-rest cannot peek'));
+
+      const response = await list(createMockUrlRequest('/api/dead-letters'));
+
+      await expectErrorResponse(response, 501, 'pgmq-rest cannot peek');
+    });
+  });
+
+  describe('GET /api/dead-letters/[id]', () => {
+    it('should return a single dead letter', async () => {
+      withDeadLetters(deadLetterFor('lead-1', '7'), deadLetterFor('lead-2', '8'));
+
+      const response = await inspect(createMockUrlRequest('/api/dead-letters/8'), createRouteParams({ id: '8' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.message.leadId).toBe('lead-2');
+    });
+
+    it('should find entries beyond the first page', async () => {
+      withDeadLetters(...Array.from({ length: 150 }, (_, index) => deadLetterFor(`lead-${index}`, String(index + 1))));
+
+      const response = await inspect(createMockUrlRequest('/api/dead-letters/150'), createRouteParams({ id: '150' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.message.leadId).toBe('lead-149');
+    });
+
+    it('should return 404 for unknown entries', async () => {
+      withDeadLetters(deadLetterFor('lead-1', '7'), deadLetterFor('lead-2', '100'));
+
+      const response = await inspect(createMockUrlRequest('/api/dead-letters/99'), createRouteParams({ id: '99' }));
+
+      await expectErrorResponse(response, 404, 'Dead letter not found');
+    });
+  });
+
+  describe('POST /api/dead-letters/[id]/requeue', () => {
+    it('should reactivate the lead and reschedule its remaining steps', async () => {
+      const lead = await createFailedLead();
+      withDeadLetters(deadLetterFor(lead.id));
+
+      const response = await requeue(
+        createMockUrlRequest('/api/dead-letters/7/requeue', 'POST'),
+        createRouteParams({ id: '7' })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.status).toBe('ACTIVE');
+      expect(data.data.failureReason).toBeNull();
+      expect(mockDeleteMessage).toHaveBeenCalledWith('test-drip-messages-dlq', '7');
+
+      // Steps 2-5 of the default campaign
+      const scheduled = await testPrisma.scheduledMessage.findMany({
+        where: { leadId: lead.id },
+        orderBy: { messageNumber: 'asc' },
+      });
+      expect(scheduled.map((message) => message.messageNumber)).toEqual([2, 3, 4, 5]);
+    });
+
+    it('should keep the rescheduling for a retry when the queue is down', async () => {
+      const lead = await createFailedLead();
+      withDeadLetters(deadLetterFor(lead.id));
+      mockSendMessage.mockRejectedValue(new Error('queue unavailable'));
+
+      const response = await requeue(
+        createMockUrlRequest('/api/dead-letters/7/requeue', 'POST'),
+        createRouteParams({ id: '7' })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.status).toBe('ACTIVE');
+
+      const [event] = await testPrisma.outboxEvent.findMany({ where: { leadId: lead.id } });
+      expect(event.status).toBe('PENDING');
+      expect(event.lastError).toBe('queue unavailable');
+    });
+
+    it('should refuse to requeue leads that are not failed', async () => {
+      const lead = await createFailedLead();
+      await testPrisma.lead.update({ where: { id: lead.id }, data: { status: 'UNSUBSCRIBED' } });
+      withDeadLetters(deadLetterFor(lead.id));
+
+      const response = await requeue(
+        createMockUrlRequest('/api/dead-letters/7/requeue', 'POST'),
+        createRouteParams({ id: '7' })
+      );
+
+      await expectErrorResponse(response, 422, 'Only failed leads can be requeued (lead is UNSUBSCRIBED)');
+      expect(mockDeleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown entries', async () => {
+      const response = await requeue(
+        createMockUrlRequest('/api/dead-letters/99/requeue', 'POST'),
+        createRouteParams({ id: '99' })
+      );
+
+      await expectErrorResponse(response, 404, 'Dead letter not found');
+    });
+  });
+
+  describe('DELETE /api/dead-letters/[id]', () => {
+    it('should discard the entry', async () => {
+      withDeadLetters(deadLetterFor('lead-1'));
+
+      const response = await discard(
+        createMockUrlRequest('/api/dead-letters/7', 'DELETE'),
+        createRouteParams({ id: '7' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockDeleteMessage).toHaveBeenCalledWith('test-drip-messages-dlq', '7');
+    });
+  });
+});
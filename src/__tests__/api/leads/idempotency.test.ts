@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST } from '../../../app/api/leads/route';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { createValidLeadData, expectErrorResponse } from '../../setup/test-helpers';
+
+describe('Lead Idempotency Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const submit = (body: object, idempotencyKey?: string, headers: Record<string, string> = {}) =>
+    POST(
+      new NextRequest('http://localhost:3000/api/leads', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          ...headers,
+        },
+      })
+    );
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  it('should replay the first response when a request is retried with the same key', async () => {
+    const first = await submit(createValidLeadData(), 'retry-1');
+    const firstData = await first.json();
+
+    const retry = await submit(createValidLeadData(), 'retry-1');
+    const retryData = await retry.json();
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(retryData).toEqual(firstData);
+    expect(await testPrisma.lead.count()).toBe(1);
+  });
+
+  it('should return 409 when a key is reused with a different body', async () => {
+    await submit(createValidLeadData(), 'retry-1');
+
+    const response = await submit(createValidLeadData({ notes: 'Something else' }), 'retry-1');
+
+    await expectErrorResponse(response, 409, 'This Idempotency-Key was already used with a different request');
+  });
+
+  it('should return 409 while the first request is still being handled', async () => {
+    const [first, second] = await Promise.all([
+      submit(createValidLeadData(), 'retry-1'),
+      submit(createValidLeadData(), 'retry-1'),
+    ]);
+
+    const statuses = [first.status, second.status].sort();
+    expect(statuses[0]).toBe(201);
+    expect([201, 409]).toContain(statuses[1]);
+    expect(await testPrisma.lead.count()).toBe(1);
+  });
+
+  it('should not keep the key of a failed request', async () => {
+    const invalid = await submit(createValidLeadData({ email: 'not-an-email' }), 'retry-1');
+    expect(invalid.status).toBe(400);
+    expect(await testPrisma.idempotencyKey.count()).toBe(0);
+
+    // The corrected request can reuse the key
+    const fixed = await submit(createValidLeadData(), 'retry-1');
+    expect(fixed.status).toBe(201);
+  });
+
+  it('should handle the request again once the key has expired', async () => {
+    await submit(createValidLeadData(), 'retry-1');
+    await testPrisma.idempotencyKey.updateMany({
+      where: { key: 'retry-1' },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const response = await submit(createValidLeadData(), 'retry-1');
+
+    // Handled again, so the duplicate email is caught
+    expect(response.status).toBe(422);
+    expect(response.headers.get('idempotent-replayed')).toBeNull();
+  });
+
+  it('should keep the keys of different API keys apart', async () => {
+    await submit(createValidLeadData(), 'retry-1', { 'X-API-Key': 'hd_first' });
+
+    const response = await submit(
+      createValidLeadData({ email: 'other@example.com', phone: '+12025550199' }),
+      'retry-1',
+      { 'X-API-Key': 'hd_second' }
+    );
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('idempotent-replayed')).toBeNull();
+    expect(await testPrisma.lead.count()).toBe(2);
+  });
+
+  it('should not replay the response of an API caller to a public submission', async () => {
+    const first = await submit(createValidLeadData(), 'retry-1', { 'X-API-Key': 'hd_first' });
+    const firstData = await first.json();
+
+    const response = await submit(createValidLeadData(), 'retry-1', { 'X-Public-Submission': 'true' });
+
+    // Handled, not replayed, so the duplicate email is caught
+    expect(response.status).toBe(422);
+    expect(JSON.stringify(await response.json())).not.toContain(firstData.data.id);
+  });
+
+  it('should behave as before without a key', async () => {
+    await submit(createValidLeadData());
+
+    const response = await submit(createValidLeadData());
+
+    await expectErrorResponse(response, 422, 'The email address is already in use.');
+  });
+});
@@ -0,0 +1,201 @@
+// Mock the queue functions BEFORE importing the API routes
+const mockCreateQueue = jest.fn() as jest.MockedFunction<any>;
+const mockSendMessage = jest.fn() as jest.MockedFunction<any>;
+const mockSendBatchMessages = jest.fn() as jest.MockedFunction<any>;
+const mockCreateQueueMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  createQueue: mockCreateQueue,
+  sendMessage: mockSendMessage,
+  sendBatchMessages: mockSendBatchMessages,
+  createQueueMessage: mockCreateQueueMessage,
+  deleteMessage: mockDeleteMessage,
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST } from '../../../app/api/leads/import/route';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { expectErrorResponse } from '../../setup/test-helpers';
+
+const createImportRequest = (body: string, contentType: string = 'text/csv'): NextRequest =>
+  new NextRequest('http://localhost:3000/api/leads/import', {
+    method: 'POST',
+    body,
+    headers: {
+      'Content-Type': contentType,
+    },
+  });
+
+describe('Lead Import API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+
+    let nextMsgId = 1;
+    mockCreateQueue.mockResolvedValue(true);
+    mockSendBatchMessages.mockImplementation(async (_queueName: string, messages: unknown[]) =>
+      messages.map(() => nextMsgId++)
+    );
+    mockCreateQueueMessage.mockImplementation((leadId: string, email: string, messageNumber: number, scheduledDate: string) => ({
+      leadId,
+      email,
+      messageNumber,
+      scheduledDate,
+    }));
+  });
+
+  it('should create leads from CSV and report each row', async () => {
+    const csv = [
+      'name,email,phone,notes',
+      'John Doe,john@example.com,2025550123,From the expo',
+      'Jane Doe,jane@example.com,2025550188,',
+    ].join('\n');
+
+    const response = await POST(createImportRequest(csv));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.summary).toEqual({ created: 2, duplicate: 0, invalid: 0, suppressed: 0 });
+    expect(data.data.rows).toEqual([
+      { line: 2, status: 'created', id: expect.any(String) },
+      { line: 3, status: 'created', id: expect.any(String) },
+    ]);
+
+    const leads = await testPrisma.lead.findMany({ orderBy: { email: 'asc' } });
+    expect(leads.map((lead) => lead.email)).toEqual(['jane@example.com', 'john@example.com']);
+    expect(leads[1].notes).toBe('From the expo');
+  });
+
+  it('should queue the batch with sendBatchMessages', async () => {
+    const ndjson = [
+      JSON.stringify({ name: 'John Doe', email: 'john@example.com', phone: '2025550123' }),
+      JSON.stringify({ name: 'Jane Doe', email: 'jane@example.com', phone: '2025550188' }),
+    ].join('\n');
+
+    await POST(createImportRequest(ndjson, 'application/x-ndjson'));
+
+    expect(mockSendMessage).not.toHaveBeenCalled();
+    expect(mockSendBatchMessages).toHaveBeenCalled();
+
+    // Both leads' first step goes out today, in a single batch
+    const [queueName, messages] = mockSendBatchMessages.mock.calls[0] as [string, any[]];
+    expect(queueName).toMatch(/^test-drip-messages-/);
+    expect(messages).toHaveLength(2);
+
+    const leads = await testPrisma.lead.findMany();
+    const scheduled = await testPrisma.scheduledMessage.findMany();
+    expect(scheduled).toHaveLength(leads.reduce((total, lead) => total + lead.maxMessages, 0));
+    expect(leads.every((lead) => lead.nextScheduledFor !== null)).toBe(true);
+
+    const events = await testPrisma.outboxEvent.findMany();
+    expect(events.map((event) => event.status)).toEqual(['DONE', 'DONE']);
+  });
+
+  it('should keep the scheduling of each lead for a retry when the batch fails', async () => {
+    const ndjson = [
+      JSON.stringify({ name: 'John Doe', email: 'john@example.com', phone: '2025550123' }),
+      JSON.stringify({ name: 'Jane Doe', email: 'jane@example.com', phone: '2025550188' }),
+    ].join('\n');
+    mockSendBatchMessages.mockRejectedValue(new Error('queue unavailable'));
+
+    const response = await POST(createImportRequest(ndjson, 'application/x-ndjson'));
+    const data = await response.json();
+
+    expect(data.data.summary.created).toBe(2);
+
+    const events = await testPrisma.outboxEvent.findMany();
+    expect(events).toHaveLength(2);
+    expect(events.every((event) => event.type === 'SCHEDULE_LEAD' && event.status === 'PENDING')).toBe(true);
+    expect(events.every((event) => event.lastError === 'queue unavailable')).toBe(true);
+  });
+
+  it('should report invalid rows with their validation issues', async () => {
+    const csv = [
+      'name,email,phone',
+      'John Doe,not-an-email,2025550123',
+      'Jane Doe,jane@example.com,2025550188',
+    ].join('\n');
+
+    const response = await POST(createImportRequest(csv));
+    const data = await response.json();
+
+    expect(data.data.summary).toMatchObject({ created: 1, invalid: 1 });
+    expect(data.data.rows[0]).toMatchObject({
+      line: 2,
+      status: 'invalid',
+      errors: [expect.objectContaining({ path: ['email'], message: 'Invalid email format' })],
+    });
+  });
+
+  it('should report rows for unknown campaigns as invalid', async () => {
+    const csv = 'name,email,phone,campaign\nJohn Doe,john@example.com,2025550123,missing';
+
+    const response = await POST(createImportRequest(csv));
+    const data = await response.json();
+
+    expect(data.data.rows[0]).toMatchObject({
+      status: 'invalid',
+      errors: [expect.objectContaining({ path: ['campaign'], message: 'Campaign "missing" does not exist' })],
+    });
+  });
+
+  it('should skip duplicates of existing leads and within the upload', async () => {
+    await testPrisma.lead.create({
+      data: { name: 'Existing', email: 'john@example.com', phone: '5555555555' },
+    });
+
+    const csv = [
+      'name,email,phone',
+      'John Doe,john@example.com,2025550123',
+      'Jane Doe,jane@example.com,2025550188',
+      'Jane Again,jane.again@example.com,2025550188',
+    ].join('\n');
+
+    const response = await POST(createImportRequest(csv));
+    const data = await response.json();
+
+    expect(data.data.summary).toEqual({ created: 1, duplicate: 2, invalid: 0, suppressed: 0 });
+    expect(data.data.rows).toEqual([
+      { line: 2, status: 'duplicate', field: 'email' },
+      { line: 3, status: 'created', id: expect.any(String) },
+      { line: 4, status: 'duplicate', field: 'phone' },
+    ]);
+  });
+
+  it('should not import suppressed contacts', async () => {
+    await testPrisma.suppression.create({
+      data: { type: 'EMAIL', value: 'john@example.com', reason: 'unsubscribed' },
+    });
+
+    const response = await POST(createImportRequest('name,email,phone\nJohn Doe,john@example.com,2025550123'));
+    const data = await response.json();
+
+    expect(data.data.rows).toEqual([{ line: 2, status: 'suppressed' }]);
+    expect(await testPrisma.lead.count()).toBe(0);
+  });
+
+  it('should reject unsupported content types', async () => {
+    const response = await POST(createImportRequest('{}', 'application/json'));
+
+    await expectErrorResponse(response, 415);
+  });
+
+  it('should reject empty imports', async () => {
+    const response = await POST(createImportRequest('name,email,phone\n'));
+
+    await expectErrorResponse(response, 400, 'The import contains no leads');
+  });
+});
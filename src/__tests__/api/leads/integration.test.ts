@@ -205,17 +205,17 @@ describe('Leads API Integration Tests', () => {
         createValidLeadData({
           name: 'Alice Smith',
           email: 'alice@example.com',
-          phone: '1111111111'
+          phone: '+12025550101'
         }),
         createValidLeadData({
           name: 'Bob Johnson',
           email: 'bob@example.com',
-          phone: '2222222222'
+          phone: '+12025550102'
         }),
         createValidLeadData({
           name: 'Carol Williams',
           email: 'carol@example.com',
-          phone: '3333333333'
+          phone: '+12025550103'
         }),
       ];
 
@@ -0,0 +1,226 @@
+// Mock the queue functions BEFORE importing the API route
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  deleteMessage: mockDeleteMessage,
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { GET, PATCH, DELETE } from '../../../app/api/leads/[id]/route';
+import { GET as getMessages } from '../../../app/api/leads/[id]/messages/route';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockUrlRequest,
+  createRouteParams,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('Lead Detail API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createLead = (overrides: Partial<any> = {}) =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        notes: 'Test lead',
+        ...overrides,
+      }
+    });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+    mockDeleteMessage.mockResolvedValue(true);
+  });
+
+  describe('GET /api/leads/[id]', () => {
+    it('should return the lead', async () => {
+      const lead = await createLead();
+
+      const response = await GET(createMockUrlRequest(`/api/leads/${lead.id}`), createRouteParams({ id: lead.id }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ id: lead.id, email: 'john@example.com' });
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await GET(createMockUrlRequest('/api/leads/missing'), createRouteParams({ id: 'missing' }));
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('GET /api/leads/[id]/messages', () => {
+    it('should list each campaign step with its scheduled messages', async () => {
+      const lead = await createLead({ messageCount: 1 });
+      await testPrisma.scheduledMessage.createMany({
+        data: [
+          { leadId: lead.id, messageNumber: 1, queueName: 'test-queue', msgId: '1', scheduledFor: new Date('2025-10-20'), status: 'SENT', sentAt: new Date(), providerMessageId: 'provider-1' },
+          { leadId: lead.id, messageNumber: 2, queueName: 'test-queue', msgId: '2', scheduledFor: new Date('2025-10-21'), status: 'CANCELLED' },
+          { leadId: lead.id, messageNumber: 2, queueName: 'test-queue', msgId: '3', scheduledFor: new Date('2025-10-22') },
+        ]
+      });
+
+      const response = await getMessages(createMockUrlRequest(`/api/leads/${lead.id}/messages`), createRouteParams({ id: lead.id }));
+      const { data } = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.campaign.name).toBe('default');
+      expect(data.steps).toHaveLength(5);
+      expect(data.steps[0]).toMatchObject({
+        stepNumber: 1,
+        sent: true,
+        messages: [{ status: 'SENT', providerMessageId: 'provider-1' }],
+      });
+      expect(data.steps[1].sent).toBe(false);
+      expect(data.steps[1].messages.map((message: any) => message.status)).toEqual(['CANCELLED', 'SCHEDULED']);
+      expect(data.steps[2].messages).toEqual([]);
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await getMessages(createMockUrlRequest('/api/leads/missing/messages'), createRouteParams({ id: 'missing' }));
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('PATCH /api/leads/[id]', () => {
+    it('should update the given fields', async () => {
+      const lead = await createLead();
+
+      const response = await PATCH(
+        createMockUrlRequest(`/api/leads/${lead.id}`, 'PATCH', { name: 'Jane Doe', notes: null }),
+        createRouteParams({ id: lead.id })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ name: 'Jane Doe', notes: null, email: 'john@example.com' });
+    });
+
+    it('should validate fields with the lead schema', async () => {
+      const lead = await createLead();
+
+      const response = await PATCH(
+        createMockUrlRequest(`/api/leads/${lead.id}`, 'PATCH', { email: 'not-an-email' }),
+        createRouteParams({ id: lead.id })
+      );
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject an empty update', async () => {
+      const lead = await createLead();
+
+      const response = await PATCH(
+        createMockUrlRequest(`/api/leads/${lead.id}`, 'PATCH', {}),
+        createRouteParams({ id: lead.id })
+      );
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should return 422 when the email belongs to another lead', async () => {
+      await createLead({ email: 'taken@example.com', phone: '0987654321' });
+      const lead = await createLead();
+
+      const response = await PATCH(
+        createMockUrlRequest(`/api/leads/${lead.id}`, 'PATCH', { email: 'taken@example.com' }),
+        createRouteParams({ id: lead.id })
+      );
+
+      await expectErrorResponse(response, 422, 'The email address is already in use.');
+    });
+
+    it('should return 422 when the new contact has unsubscribed', async () => {
+      await testPrisma.suppression.create({ data: { type: 'EMAIL', value: 'gone@example.com' } });
+      const lead = await createLead();
+
+      const response = await PATCH(
+        createMockUrlRequest(`/api/leads/${lead.id}`, 'PATCH', { email: 'gone@example.com' }),
+        createRouteParams({ id: lead.id })
+      );
+
+      await expectErrorResponse(response, 422, 'This contact has unsubscribed and cannot be enrolled');
+      const unchanged = await testPrisma.lead.findUniqueOrThrow({ where: { id: lead.id } });
+      expect(unchanged.email).toBe('john@example.com');
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await PATCH(
+        createMockUrlRequest('/api/leads/missing', 'PATCH', { name: 'Nobody' }),
+        createRouteParams({ id: 'missing' })
+      );
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('DELETE /api/leads/[id]', () => {
+    it('should delete the lead and cancel its pending messages', async () => {
+      const lead = await createLead({ messageCount: 2 });
+      await testPrisma.scheduledMessage.createMany({
+        data: [1, 2, 3, 4, 5].map((messageNumber) => ({
+          leadId: lead.id,
+          messageNumber,
+          queueName: `test-drip-messages-2025-01-0${messageNumber}`,
+          msgId: String(100 + messageNumber),
+          scheduledFor: new Date(Date.UTC(2025, 0, messageNumber)),
+        })),
+      });
+
+      const response = await DELETE(createMockUrlRequest(`/api/leads/${lead.id}`, 'DELETE'), createRouteParams({ id: lead.id }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ id: lead.id, cancelledMessages: 3 });
+      expect(mockDeleteMessage.mock.calls).toEqual([
+        ['test-drip-messages-2025-01-03', '103'],
+        ['test-drip-messages-2025-01-04', '104'],
+        ['test-drip-messages-2025-01-05', '105'],
+      ]);
+
+      expect(await testPrisma.lead.findUnique({ where: { id: lead.id } })).toBeNull();
+      expect(await testPrisma.scheduledMessage.count({ where: { leadId: lead.id } })).toBe(0);
+    });
+
+    it('should still delete the lead when a queue is unavailable', async () => {
+      const lead = await createLead();
+      await testPrisma.scheduledMessage.create({
+        data: {
+          leadId: lead.id,
+          messageNumber: 1,
+          queueName: 'test-drip-messages-2025-01-01',
+          msgId: '1',
+          scheduledFor: new Date(),
+        }
+      });
+      mockDeleteMessage.mockRejectedValueOnce(new Error('HTTP error! status: 500'));
+
+      const response = await DELETE(createMockUrlRequest(`/api/leads/${lead.id}`, 'DELETE'), createRouteParams({ id: lead.id }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.cancelledMessages).toBe(0);
+      expect(await testPrisma.lead.findUnique({ where: { id: lead.id } })).toBeNull();
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await DELETE(createMockUrlRequest('/api/leads/missing', 'DELETE'), createRouteParams({ id: 'missing' }));
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { GET } from '../../../app/api/leads/route';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { createMockUrlRequest, expectErrorResponse } from '../../setup/test-helpers';
+
+describe('Leads API List Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createLeads = async (count: number, overrides: (index: number) => Partial<any> = () => ({})) => {
+    for (let i = 0; i < count; i++) {
+      await testPrisma.lead.create({
+        data: {
+          name: `Lead ${i}`,
+          email: `lead${i}@example.com`,
+          phone: `555000${String(i).padStart(4, '0')}`,
+          createdAt: new Date(Date.UTC(2025, 0, i + 1)),
+          ...overrides(i),
+        }
+      });
+    }
+  };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  it('should list leads newest first', async () => {
+    await createLeads(3);
+
+    const response = await GET(createMockUrlRequest('/api/leads'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.map((lead: any) => lead.name)).toEqual(['Lead 2', 'Lead 1', 'Lead 0']);
+    expect(data.nextCursor).toBeNull();
+  });
+
+  it('should paginate with a cursor', async () => {
+    await createLeads(5);
+
+    const firstPage = await (await GET(createMockUrlRequest('/api/leads?limit=2'))).json();
+    expect(firstPage.data.map((lead: any) => lead.name)).toEqual(['Lead 4', 'Lead 3']);
+    expect(firstPage.nextCursor).toBe(firstPage.data[1].id);
+
+    const secondPage = await (await GET(createMockUrlRequest(`/api/leads?limit=2&cursor=${firstPage.nextCursor}`))).json();
+    expect(secondPage.data.map((lead: any) => lead.name)).toEqual(['Lead 2', 'Lead 1']);
+
+    const lastPage = await (await GET(createMockUrlRequest(`/api/leads?limit=2&cursor=${secondPage.nextCursor}`))).json();
+    expect(lastPage.data.map((lead: any) => lead.name)).toEqual(['Lead 0']);
+    expect(lastPage.nextCursor).toBeNull();
+  });
+
+  it('should filter by status', async () => {
+    await createLeads(3, (i) => ({ status: i === 1 ? 'COMPLETED' : 'ACTIVE' }));
+
+    const data = await (await GET(createMockUrlRequest('/api/leads?status=COMPLETED'))).json();
+
+    expect(data.data.map((lead: any) => lead.name)).toEqual(['Lead 1']);
+  });
+
+  it('should filter by createdAt range', async () => {
+    await createLeads(5);
+
+    const data = await (await GET(createMockUrlRequest(
+      '/api/leads?createdAfter=2025-01-02T00:00:00Z&createdBefore=2025-01-04T00:00:00Z'
+    ))).json();
+
+    expect(data.data.map((lead: any) => lead.name)).toEqual(['Lead 3', 'Lead 2', 'Lead 1']);
+  });
+
+  it('should search by email case-insensitively', async () => {
+    await createLeads(3, (i) => (i === 2 ? { email: 'Someone.Special@example.com' } : {}));
+
+    const data = await (await GET(createMockUrlRequest('/api/leads?email=special'))).json();
+
+    expect(data.data.map((lead: any) => lead.email)).toEqual(['Someone.Special@example.com']);
+  });
+
+  it('should reject invalid filters', async () => {
+    const response = await GET(createMockUrlRequest('/api/leads?status=UNKNOWN'));
+
+    await expectErrorResponse(response, 400, 'Validation failed');
+  });
+});
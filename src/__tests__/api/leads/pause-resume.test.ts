@@ -0,0 +1,207 @@
+// Mock the queue functions BEFORE importing the API routes
+const mockCreateQueue = jest.fn() as jest.MockedFunction<any>;
+const mockSendMessage = jest.fn() as jest.MockedFunction<any>;
+const mockCreateQueueMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  createQueue: mockCreateQueue,
+  sendMessage: mockSendMessage,
+  createQueueMessage: mockCreateQueueMessage,
+  deleteMessage: mockDeleteMessage,
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { POST as pause } from '../../../app/api/leads/[id]/pause/route';
+import { POST as resume } from '../../../app/api/leads/[id]/resume/route';
+import { POST as cancel } from '../../../app/api/leads/[id]/cancel/route';
+import { addDays, dayKeyToDate, getDayKey } from '../../../lib/dates';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockUrlRequest,
+  createRouteParams,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('Lead Pause/Resume/Cancel API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createLead = (overrides: Partial<any> = {}) =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        ...overrides,
+      }
+    });
+
+  const pauseLead = (id: string) =>
+    pause(createMockUrlRequest(`/api/leads/${id}/pause`, 'POST'), createRouteParams({ id }));
+
+  const resumeLead = (id: string) =>
+    resume(createMockUrlRequest(`/api/leads/${id}/resume`, 'POST'), createRouteParams({ id }));
+
+  const cancelLead = (id: string) =>
+    cancel(createMockUrlRequest(`/api/leads/${id}/cancel`, 'POST'), createRouteParams({ id }));
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+
+    let nextMsgId = 1;
+    mockCreateQueue.mockResolvedValue(true);
+    mockSendMessage.mockImplementation(async () => nextMsgId++);
+    mockDeleteMessage.mockResolvedValue(true);
+    mockCreateQueueMessage.mockImplementation((leadId: string, email: string, messageNumber: number, scheduledDate: string) => ({
+      leadId,
+      email,
+      messageNumber,
+      scheduledDate,
+    }));
+  });
+
+  describe('POST /api/leads/[id]/pause', () => {
+    it('should pause an active lead', async () => {
+      const lead = await createLead();
+
+      const response = await pauseLead(lead.id);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.status).toBe('PAUSED');
+      expect(data.data.pausedAt).not.toBeNull();
+    });
+
+    it('should leave queued messages in place', async () => {
+      const lead = await createLead();
+      await testPrisma.scheduledMessage.create({
+        data: { leadId: lead.id, messageNumber: 1, queueName: 'test-queue', msgId: '7', scheduledFor: new Date() }
+      });
+
+      await pauseLead(lead.id);
+
+      expect(mockDeleteMessage).not.toHaveBeenCalled();
+      expect(await testPrisma.scheduledMessage.count()).toBe(1);
+    });
+
+    it('should refuse to pause leads that are not active', async () => {
+      const lead = await createLead({ status: 'COMPLETED' });
+
+      const response = await pauseLead(lead.id);
+
+      await expectErrorResponse(response, 422, 'Only active leads can be paused (lead is COMPLETED)');
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await pauseLead('missing');
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('POST /api/leads/[id]/resume', () => {
+    it('should cancel stale messages and reschedule the remaining steps', async () => {
+      const lead = await createLead({ status: 'PAUSED', pausedAt: new Date(), messageCount: 2 });
+      for (const messageNumber of [3, 4, 5]) {
+        await testPrisma.scheduledMessage.create({
+          data: { leadId: lead.id, messageNumber, queueName: 'test-old-queue', msgId: `old-${messageNumber}`, scheduledFor: new Date() }
+        });
+      }
+
+      const response = await resumeLead(lead.id);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.status).toBe('ACTIVE');
+      expect(data.data.pausedAt).toBeNull();
+
+      expect(mockDeleteMessage).toHaveBeenCalledTimes(3);
+      expect(mockSendMessage.mock.calls.map((call: any[]) => call[1].messageNumber)).toEqual([3, 4, 5]);
+
+      const scheduled = await testPrisma.scheduledMessage.findMany({
+        where: { status: 'SCHEDULED' },
+        orderBy: { messageNumber: 'asc' }
+      });
+      expect(scheduled.map(message => message.queueName)).not.toContain('test-old-queue');
+
+      // The first remaining step goes out today, the rest keep one day apart
+      const today = getDayKey();
+      expect(scheduled.map(message => message.scheduledFor)).toEqual([0, 1, 2].map(days => dayKeyToDate(addDays(today, days))));
+    });
+
+    it('should keep the rescheduling for a retry when the queue is down', async () => {
+      const lead = await createLead({ status: 'PAUSED', pausedAt: new Date(), messageCount: 2 });
+      mockSendMessage.mockRejectedValue(new Error('queue unavailable'));
+
+      const response = await resumeLead(lead.id);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.status).toBe('ACTIVE');
+
+      const [event] = await testPrisma.outboxEvent.findMany({ where: { leadId: lead.id } });
+      expect(event.type).toBe('SCHEDULE_LEAD');
+      expect(event.status).toBe('PENDING');
+      expect(event.lastError).toBe('queue unavailable');
+    });
+
+    it('should refuse to resume leads that are not paused', async () => {
+      const lead = await createLead();
+
+      const response = await resumeLead(lead.id);
+
+      await expectErrorResponse(response, 422, 'Only paused leads can be resumed (lead is ACTIVE)');
+      expect(mockSendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await resumeLead('missing');
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('POST /api/leads/[id]/cancel', () => {
+    it('should cancel a lead and its queued messages', async () => {
+      const lead = await createLead({ status: 'PAUSED', pausedAt: new Date(), messageCount: 3 });
+      for (const messageNumber of [4, 5]) {
+        await testPrisma.scheduledMessage.create({
+          data: { leadId: lead.id, messageNumber, queueName: 'test-queue', msgId: `msg-${messageNumber}`, scheduledFor: new Date() }
+        });
+      }
+
+      const response = await cancelLead(lead.id);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toMatchObject({ status: 'CANCELLED', nextScheduledFor: null, cancelledMessages: 2 });
+      expect(data.data.cancelledAt).not.toBeNull();
+      expect(mockDeleteMessage).toHaveBeenCalledTimes(2);
+      expect(await testPrisma.scheduledMessage.count({ where: { status: 'SCHEDULED' } })).toBe(0);
+    });
+
+    it('should refuse to cancel leads that have already finished', async () => {
+      const lead = await createLead({ status: 'UNSUBSCRIBED' });
+
+      const response = await cancelLead(lead.id);
+
+      await expectErrorResponse(response, 422, 'Only active or paused leads can be cancelled (lead is UNSUBSCRIBED)');
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      const response = await cancelLead('missing');
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+});
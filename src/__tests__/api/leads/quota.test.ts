@@ -7,10 +7,12 @@ jest.mock('../../../lib/queue', () => ({
   createQueue: mockCreateQueue,
   sendMessage: mockSendMessage,
   createQueueMessage: mockCreateQueueMessage,
+  getQueueBackend: jest.fn(),
 }));
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
 import { POST } from '../../../app/api/leads/route';
+import { dayKeyToDate, getDayKey } from '../../../lib/dates';
 import { cleanupDatabase, cleanupQueues, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
 import {
   createMockRequest,
@@ -228,6 +230,115 @@ describe('Leads API Quota Tests', () => {
     });
   });
 
+  describe('Campaign Scheduling', () => {
+    const createCampaign = (overrides: Partial<any> = {}) =>
+      testPrisma.campaign.create({
+        data: {
+          name: 'webinar',
+          steps: {
+            create: [
+              { stepNumber: 1, delayDays: 0, channel: 'EMAIL' },
+              { stepNumber: 2, delayDays: 2, channel: 'SMS' },
+              { stepNumber: 3, delayDays: 7, channel: 'EMAIL' },
+            ],
+          },
+          ...overrides,
+        },
+      });
+
+    const dayOffset = (date: string) =>
+      Math.round((dayKeyToDate(date).getTime() - dayKeyToDate(getDayKey()).getTime()) / 86400000);
+
+    it('should enroll the lead into the named campaign', async () => {
+      const campaign = await createCampaign();
+      const leadData = createValidLeadData({ campaign: 'webinar' });
+
+      const response = await POST(createMockRequest(leadData));
+      const responseData = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(responseData.data).toHaveProperty('campaign', 'webinar');
+      expect(responseData.data).toHaveProperty('maxMessages', 3);
+
+      const lead = await testPrisma.lead.findUnique({
+        where: { email: leadData.email }
+      });
+      expect(lead?.campaignId).toBe(campaign.id);
+      expect(lead?.maxMessages).toBe(3);
+    });
+
+    it('should schedule each step using the campaign delays', async () => {
+      await createCampaign();
+
+      await POST(createMockRequest(createValidLeadData({ campaign: 'webinar' })));
+
+      const messageCalls = mockCreateQueueMessage.mock.calls;
+      expect(messageCalls.map((call: any[]) => call[2])).toEqual([1, 2, 3]);
+      expect(messageCalls.map((call: any[]) => dayOffset(call[3]))).toEqual([0, 2, 7]);
+    });
+
+    it('should push steps past days where the campaign cap is reached', async () => {
+      await createCampaign({ dailyCap: 1 });
+      await POST(createMockRequest(createValidLeadData({
+        email: 'first@example.com',
+        phone: '5555555555',
+        campaign: 'webinar'
+      })));
+      mockCreateQueueMessage.mockClear();
+
+      await POST(createMockRequest(createValidLeadData({ campaign: 'webinar' })));
+
+      const firstStepDate = mockCreateQueueMessage.mock.calls[0][3];
+      expect(dayOffset(firstStepDate)).toBe(1);
+    });
+
+    it('should not oversubscribe a campaign under concurrent enrollment', async () => {
+      await createCampaign({ dailyCap: 2 });
+
+      await Promise.all([1, 2, 3, 4].map(n => POST(createMockRequest(createValidLeadData({
+        email: `concurrent${n}@example.com`,
+        phone: `202555000${n}`,
+        campaign: 'webinar'
+      })))));
+
+      const firstSteps = mockCreateQueueMessage.mock.calls.filter((call: any[]) => call[2] === 1);
+      const offsets = firstSteps.map((call: any[]) => dayOffset(call[3])).sort();
+      expect(offsets).toEqual([0, 0, 1, 1]);
+    });
+
+    it('should reject unknown campaigns', async () => {
+      const response = await POST(createMockRequest(createValidLeadData({ campaign: 'missing' })));
+      const responseData = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(responseData.message).toBe('Campaign "missing" does not exist');
+      expect(mockSendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Send Ledger', () => {
+    it('should record every scheduled message and reserve its slot', async () => {
+      await POST(createMockRequest(createValidLeadData()));
+
+      const scheduled = await testPrisma.scheduledMessage.findMany();
+      expect(scheduled).toHaveLength(5);
+      expect(scheduled.every(message => message.status === 'SCHEDULED')).toBe(true);
+
+      const slots = await testPrisma.scheduledSlot.findMany();
+      expect(slots).toHaveLength(5);
+      expect(slots.every(slot => slot.scope === 'global' && slot.reserved === 1)).toBe(true);
+    });
+
+    it('should release the slot when queueing fails', async () => {
+      mockSendMessage.mockRejectedValueOnce(new Error('Message sending failed'));
+
+      await POST(createMockRequest(createValidLeadData()));
+
+      const reserved = await testPrisma.scheduledSlot.aggregate({ _sum: { reserved: true } });
+      expect(reserved._sum.reserved).toBe(0);
+    });
+  });
+
   describe('Concurrent Lead Creation', () => {
     it('should handle multiple leads being created simultaneously', async () => {
       const leadData1 = createValidLeadData({ email: 'test1@example.com' });
@@ -174,6 +174,22 @@ describe('Leads API Route Tests', () => {
       expect(response.status).toBe(422);
     });
 
+    it('should treat differently written contact details as duplicates', async () => {
+      await POST(createMockRequest(createValidLeadData()));
+
+      const emailResponse = await POST(createMockRequest(createValidLeadData({
+        email: ' John@Example.com ',
+        phone: '9876543210'
+      })));
+      const phoneResponse = await POST(createMockRequest(createValidLeadData({
+        email: 'different@example.com',
+        phone: '(202) 555-0123'
+      })));
+
+      expect(emailResponse.status).toBe(422);
+      expect(phoneResponse.status).toBe(422);
+    });
+
     it('should return 500 for server errors', async () => {
       const request = new Request('http://localhost:3000/api/leads', {
         method: 'POST',
@@ -273,6 +289,24 @@ describe('Leads API Route Tests', () => {
       expect(savedLead?.notes).toBe(validData.notes);
     });
 
+    it('should store the lead timezone', async () => {
+      const validData = createValidLeadData({ timezone: 'America/New_York' });
+
+      const response = await POST(createMockRequest(validData));
+
+      expect(response.status).toBe(201);
+      const savedLead = await testPrisma.lead.findUnique({
+        where: { email: validData.email }
+      });
+      expect(savedLead?.timezone).toBe('America/New_York');
+    });
+
+    it('should reject unknown timezones', async () => {
+      const response = await POST(createMockRequest(createValidLeadData({ timezone: 'Mars/Olympus_Mons' })));
+
+      expect(response.status).toBe(400);
+    });
+
     it('should handle database connection errors gracefully', async () => {
       // This test would require mocking the database connection
       // For now, we'll test that the function doesn't crash
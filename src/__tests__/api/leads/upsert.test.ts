@@ -0,0 +1,218 @@
+// Mock the queue functions BEFORE importing the API routes
+const mockCreateQueue = jest.fn() as jest.MockedFunction<any>;
+const mockSendMessage = jest.fn() as jest.MockedFunction<any>;
+const mockCreateQueueMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  createQueue: mockCreateQueue,
+  sendMessage: mockSendMessage,
+  createQueueMessage: mockCreateQueueMessage,
+  deleteMessage: mockDeleteMessage,
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { POST } from '../../../app/api/leads/route';
+import { appendNotes } from '../../../lib/duplicate-leads';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { createMockRequest, createValidLeadData, expectErrorResponse } from '../../setup/test-helpers';
+
+describe('Duplicate Lead Submission Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createLead = (overrides: Partial<any> = {}) =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '+12025550123',
+        notes: 'Test lead',
+        ...overrides,
+      }
+    });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+    mockSendMessage.mockImplementation(async () => '1');
+    process.env.DUPLICATE_LEADS = 'merge';
+    delete process.env.REENROLL_COMPLETED_LEADS;
+  });
+
+  afterEach(() => {
+    delete process.env.DUPLICATE_LEADS;
+    delete process.env.REENROLL_COMPLETED_LEADS;
+  });
+
+  it('should reject duplicates when DUPLICATE_LEADS is not merge', async () => {
+    delete process.env.DUPLICATE_LEADS;
+    await createLead();
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+
+    await expectErrorResponse(response, 422, 'The email address is already in use.');
+  });
+
+  it('should create new leads with existingLead false', async () => {
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.existingLead).toBe(false);
+    expect(data.reenrolled).toBe(false);
+  });
+
+  it('should merge a submission with the same email into the existing lead', async () => {
+    const existing = await createLead({ status: 'ACTIVE', messageCount: 2 });
+
+    const response = await POST(createMockRequest(createValidLeadData({
+      name: 'Johnny Doe',
+      phone: '2025550188',
+      notes: 'Interested again',
+      timezone: 'Europe/Berlin',
+    })));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(data.message).toBe('Existing lead updated');
+    expect(data.existingLead).toBe(true);
+    expect(data.reenrolled).toBe(false);
+    expect(data.data.id).toBe(existing.id);
+
+    const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    expect(lead.name).toBe('Johnny Doe');
+    expect(lead.phone).toBe('+12025550188');
+    expect(lead.timezone).toBe('Europe/Berlin');
+    expect(lead.notes).toMatch(/^Test lead\n\n\[\d{4}-\d{2}-\d{2}\] Interested again$/);
+    expect(lead.messageCount).toBe(2);
+    expect(await testPrisma.lead.count()).toBe(1);
+    expect(mockSendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should match an existing lead by phone', async () => {
+    const existing = await createLead();
+
+    const response = await POST(createMockRequest(createValidLeadData({ email: 'john.new@example.com' })));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.id).toBe(existing.id);
+    expect(data.data.email).toBe('john.new@example.com');
+  });
+
+  it('should return 422 when the email and phone belong to different leads', async () => {
+    await createLead();
+    await createLead({ email: 'jane@example.com', phone: '+15555555555' });
+
+    const response = await POST(createMockRequest(createValidLeadData({ phone: '5555555555' })));
+
+    await expectErrorResponse(response, 422, 'The email address and phone number belong to different leads');
+  });
+
+  it('should leave a completed lead completed unless re-enrollment is on', async () => {
+    const existing = await createLead({ status: 'COMPLETED', messageCount: 3, maxMessages: 3 });
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.reenrolled).toBe(false);
+
+    const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    expect(lead.status).toBe('COMPLETED');
+    expect(lead.messageCount).toBe(3);
+  });
+
+  it('should re-enroll a completed lead into a fresh sequence', async () => {
+    process.env.REENROLL_COMPLETED_LEADS = 'true';
+    const existing = await createLead({
+      status: 'COMPLETED',
+      messageCount: 3,
+      maxMessages: 3,
+      lastDeliveryStatus: 'SENT',
+    });
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe('Existing lead re-enrolled');
+    expect(data.existingLead).toBe(true);
+    expect(data.reenrolled).toBe(true);
+    expect(data.data.status).toBe('ACTIVE');
+
+    const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    expect(lead.status).toBe('ACTIVE');
+    expect(lead.messageCount).toBe(0);
+    expect(lead.lastDeliveryStatus).toBeNull();
+    expect(mockSendMessage).toHaveBeenCalledTimes(lead.maxMessages);
+  });
+
+  it('should re-enroll a completed lead on its own campaign unless one is given', async () => {
+    process.env.REENROLL_COMPLETED_LEADS = 'true';
+    const webinar = await testPrisma.campaign.create({
+      data: {
+        name: 'webinar',
+        steps: {
+          create: [
+            { stepNumber: 1, delayDays: 0, channel: 'EMAIL' },
+            { stepNumber: 2, delayDays: 2, channel: 'EMAIL' },
+          ],
+        },
+      },
+    });
+    const existing = await createLead({ status: 'COMPLETED', messageCount: 2, maxMessages: 2, campaignId: webinar.id });
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const data = await response.json();
+
+    expect(data.reenrolled).toBe(true);
+    expect(data.data.campaign).toBe('webinar');
+
+    const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    expect(lead.campaignId).toBe(webinar.id);
+    expect(lead.maxMessages).toBe(2);
+  });
+
+  it('should not re-enroll a lead that has not completed', async () => {
+    process.env.REENROLL_COMPLETED_LEADS = 'true';
+    const existing = await createLead({ status: 'PAUSED', messageCount: 1 });
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.reenrolled).toBe(false);
+
+    const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    expect(lead.status).toBe('PAUSED');
+    expect(mockSendMessage).not.toHaveBeenCalled();
+  });
+
+  describe('appendNotes', () => {
+    const now = new Date('2025-03-14T12:00:00.000Z');
+
+    it('should add dated notes after the existing ones', () => {
+      expect(appendNotes('First visit', 'Second visit', now)).toBe('First visit\n\n[2025-03-14] Second visit');
+    });
+
+    it('should keep the existing notes when nothing new is submitted', () => {
+      expect(appendNotes('First visit', undefined, now)).toBe('First visit');
+      expect(appendNotes('First visit', '  ', now)).toBe('First visit');
+    });
+
+    it('should start the history when the lead had no notes', () => {
+      expect(appendNotes(null, 'Second visit', now)).toBe('[2025-03-14] Second visit');
+    });
+  });
+});
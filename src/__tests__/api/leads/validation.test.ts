@@ -1,13 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { z } from 'zod';
-
-// Import the lead schema from the route file
-const leadSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.email("Invalid email format"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
-  notes: z.string().optional(),
-});
+import { leadFormSchema as leadSchema } from '../../../lib/validation';
 
 describe('Lead Validation Schema', () => {
   describe('Valid data', () => {
@@ -15,7 +7,7 @@ describe('Lead Validation Schema', () => {
       const validData = {
         name: 'John Doe',
         email: 'john@example.com',
-        phone: '1234567890',
+        phone: '+12025550123',
         notes: 'Interested in our services',
       };
 
@@ -30,7 +22,7 @@ describe('Lead Validation Schema', () => {
       const validData = {
         name: 'Jane Smith',
         email: 'jane@example.com',
-        phone: '0987654321',
+        phone: '+12025550188',
       };
 
       const result = leadSchema.safeParse(validData);
@@ -44,7 +36,7 @@ describe('Lead Validation Schema', () => {
       const validData = {
         name: 'Bob Johnson',
         email: 'bob@example.com',
-        phone: '5555555555',
+        phone: '+15555555555',
         notes: '',
       };
 
@@ -61,7 +53,7 @@ describe('Lead Validation Schema', () => {
       const invalidData = {
         name: '',
         email: 'test@example.com',
-        phone: '1234567890',
+        phone: '2025550123',
       };
 
       const result = leadSchema.safeParse(invalidData);
@@ -76,7 +68,7 @@ describe('Lead Validation Schema', () => {
     it('should reject missing name', () => {
       const invalidData = {
         email: 'test@example.com',
-        phone: '1234567890',
+        phone: '2025550123',
       };
 
       const result = leadSchema.safeParse(invalidData);
@@ -91,7 +83,7 @@ describe('Lead Validation Schema', () => {
       const invalidData = {
         name: 'Test User',
         email: 'invalid-email',
-        phone: '1234567890',
+        phone: '2025550123',
       };
 
       const result = leadSchema.safeParse(invalidData);
@@ -106,7 +98,7 @@ describe('Lead Validation Schema', () => {
     it('should reject missing email', () => {
       const invalidData = {
         name: 'Test User',
-        phone: '1234567890',
+        phone: '2025550123',
       };
 
       const result = leadSchema.safeParse(invalidData);
@@ -117,7 +109,7 @@ describe('Lead Validation Schema', () => {
       }
     });
 
-    it('should reject phone number less than 10 digits', () => {
+    it('should reject phone numbers that are too short', () => {
       const invalidData = {
         name: 'Test User',
         email: 'test@example.com',
@@ -129,7 +121,7 @@ describe('Lead Validation Schema', () => {
       if (!result.success) {
         expect(result.error.issues).toHaveLength(1);
         expect(result.error.issues[0].path).toEqual(['phone']);
-        expect(result.error.issues[0].message).toBe('Phone number must be at least 10 digits');
+        expect(result.error.issues[0].message).toBe('Invalid phone number');
       }
     });
 
@@ -209,26 +201,88 @@ describe('Lead Validation Schema', () => {
   });
 
   describe('Edge cases', () => {
-    it('should accept exactly 10 digit phone number', () => {
+    it('should store national numbers in E.164 form', () => {
       const validData = {
         name: 'Test User',
         email: 'test@example.com',
-        phone: '1234567890',
+        phone: '2025550123',
       };
 
       const result = leadSchema.safeParse(validData);
       expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.phone).toBe('+12025550123');
+      }
     });
 
-    it('should accept phone number with more than 10 digits', () => {
-      const validData = {
+    it('should normalize the same number written different ways to one value', () => {
+      const phones = ['(202) 555-0123', '202.555.0123', '1-202-555-0123', '+1 202 555 0123'];
+
+      const normalized = phones.map((phone) =>
+        leadSchema.parse({ name: 'Test User', email: 'test@example.com', phone }).phone
+      );
+
+      expect(new Set(normalized)).toEqual(new Set(['+12025550123']));
+    });
+
+    it('should accept numbers whose exchange starts with 0 or 1', () => {
+      const phones = ['(555) 123-4567', '5551234567'];
+
+      const normalized = phones.map((phone) =>
+        leadSchema.parse({ name: 'Test User', email: 'test@example.com', phone }).phone
+      );
+
+      expect(normalized).toEqual(['+15551234567', '+15551234567']);
+    });
+
+    it('should accept international numbers', () => {
+      const result = leadSchema.safeParse({
         name: 'Test User',
         email: 'test@example.com',
-        phone: '1234567890123',
-      };
+        phone: '+44 (0)20 7946 0958',
+      });
 
-      const result = leadSchema.safeParse(validData);
       expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.phone).toBe('+442079460958');
+      }
+    });
+
+    it('should reject phone numbers that are not numbers', () => {
+      const result = leadSchema.safeParse({
+        name: 'Test User',
+        email: 'test@example.com',
+        phone: 'abcdefghij',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['phone']);
+      }
+    });
+
+    it('should reject numbers that are invalid for their country', () => {
+      // US area codes can't start with 1
+      const result = leadSchema.safeParse({
+        name: 'Test User',
+        email: 'test@example.com',
+        phone: '1234567890',
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should trim and lowercase emails', () => {
+      const result = leadSchema.safeParse({
+        name: 'Test User',
+        email: '  John.Doe@Example.COM ',
+        phone: '2025550123',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.email).toBe('john.doe@example.com');
+      }
     });
 
     it('should accept various valid email formats', () => {
@@ -244,7 +298,7 @@ describe('Lead Validation Schema', () => {
         const validData = {
           name: 'Test User',
           email,
-          phone: '1234567890',
+          phone: '2025550123',
         };
 
         const result = leadSchema.safeParse(validData);
@@ -267,7 +321,7 @@ describe('Lead Validation Schema', () => {
         const invalidData = {
           name: 'Test User',
           email,
-          phone: '1234567890',
+          phone: '2025550123',
         };
 
         const result = leadSchema.safeParse(invalidData);
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST } from '../../../app/api/public/leads/route';
+import { LEAD_RATE_LIMIT_PER_EMAIL, LEAD_RATE_LIMIT_PER_IP } from '../../../lib/submission-guard';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { createValidLeadData, expectErrorResponse } from '../../setup/test-helpers';
+
+describe('Public Lead Submission Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  // A form opened a minute ago, with the honeypot left empty
+  const formData = (overrides: Partial<any> = {}) => ({
+    ...createValidLeadData(),
+    website: '',
+    formStartedAt: Date.now() - 60 * 1000,
+    ...overrides,
+  });
+
+  // Sent through one proxy, which appended ip; clientIp is whatever the client claimed
+  const submit = (body: object | string, ip: string = '203.0.113.7', clientIp: string = '198.51.100.250') =>
+    POST(
+      new NextRequest('http://localhost:3000/api/public/leads', {
+        method: 'POST',
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': `${clientIp}, ${ip}` },
+      })
+    );
+
+  // Distinct contact details for each submission
+  const contact = (index: number) => ({
+    email: `lead${index}@example.com`,
+    phone: `202555${String(index).padStart(4, '0')}`,
+  });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  it('should create leads from the contact form', async () => {
+    const response = await submit(formData());
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.data.email).toBe('john@example.com');
+    expect(await testPrisma.lead.count()).toBe(1);
+  });
+
+  it('should reject submissions with the honeypot filled in', async () => {
+    const response = await submit(formData({ website: 'https://spam.example.com' }));
+
+    await expectErrorResponse(response, 422, 'Submission rejected');
+    expect(await testPrisma.lead.count()).toBe(0);
+  });
+
+  it('should reject submissions sent too soon after the form was opened', async () => {
+    const tooFast = await submit(formData({ formStartedAt: Date.now() - 500 }));
+    await expectErrorResponse(tooFast, 422, 'Submission rejected');
+
+    const untimed = await submit(formData({ formStartedAt: undefined }));
+    await expectErrorResponse(untimed, 422, 'Submission rejected');
+
+    expect(await testPrisma.lead.count()).toBe(0);
+  });
+
+  it('should limit submissions per IP address', async () => {
+    for (let i = 0; i < LEAD_RATE_LIMIT_PER_IP; i++) {
+      expect((await submit(formData(contact(i)))).status).toBe(201);
+    }
+
+    const limited = await submit(formData(contact(LEAD_RATE_LIMIT_PER_IP)));
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    await expectErrorResponse(limited, 429, 'Too many submissions. Please try again later.');
+
+    // Other addresses aren't affected
+    expect((await submit(formData(contact(99)), '198.51.100.1')).status).toBe(201);
+  });
+
+  it('should not let clients pick their address with X-Forwarded-For', async () => {
+    const submitSpoofed = (index: number) => submit(formData(contact(index)), '203.0.113.7', `10.0.${index}.1`);
+
+    for (let i = 0; i < LEAD_RATE_LIMIT_PER_IP; i++) {
+      expect((await submitSpoofed(i)).status).toBe(201);
+    }
+
+    await expectErrorResponse(await submitSpoofed(LEAD_RATE_LIMIT_PER_IP), 429, 'Too many submissions. Please try again later.');
+  });
+
+  it('should limit submissions per email address', async () => {
+    for (let i = 0; i < LEAD_RATE_LIMIT_PER_EMAIL; i++) {
+      await submit(formData({ email: 'John@Example.com' }), `198.51.100.${i}`);
+    }
+
+    const limited = await submit(formData({ email: 'john@example.com' }), '198.51.100.200');
+
+    await expectErrorResponse(limited, 429, 'Too many submissions for this email. Please try again later.');
+  });
+
+  it('should only add notes when merging into an existing lead', async () => {
+    process.env.DUPLICATE_LEADS = 'merge';
+    try {
+      const existing = await testPrisma.lead.create({
+        data: { name: 'John Doe', email: 'john@example.com', phone: '+12025550123', notes: 'Test lead' },
+      });
+
+      const response = await submit(formData({ name: 'Someone Else', phone: '2025550188', notes: 'Call me' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.existingLead).toBe(true);
+      expect(data.data).toEqual({ id: existing.id, status: existing.status });
+
+      const lead = await testPrisma.lead.findUniqueOrThrow({ where: { id: existing.id } });
+      expect(lead.name).toBe('John Doe');
+      expect(lead.phone).toBe('+12025550123');
+      expect(lead.notes).toMatch(/^Test lead\n\n\[\d{4}-\d{2}-\d{2}\] Call me$/);
+    } finally {
+      delete process.env.DUPLICATE_LEADS;
+    }
+  });
+
+  it('should leave malformed bodies to the lead route', async () => {
+    const response = await submit('not json');
+
+    expect(response.status).toBeGreaterThanOrEqual(400);
+    expect(response.status).toBeLessThan(500);
+  });
+});
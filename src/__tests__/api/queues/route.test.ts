@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { GET as listQueues } from '../../../app/api/queues/route';
+import { GET as peek } from '../../../app/api/queues/[name]/messages/route';
+import { GET as calendar } from '../../../app/api/queues/calendar/route';
+import { PgmqClient, setQueueBackend, UnsupportedQueueOperationError } from '../../../lib/queue';
+import { MemoryQueueBackend } from '../../../lib/queue-memory';
+import { DAILY_MAX } from '../../../lib/quota';
+import { dayKeyToDate, getDayKey } from '../../../lib/dates';
+import { scheduleLeadMessages } from '../../../lib/scheduler';
+import { getDefaultCampaign } from '../../../lib/campaigns';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockUrlRequest,
+  createRouteParams,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('Queue Inspection API Tests', () => {
+  const testPrisma = getTestPrisma();
+  let queues: MemoryQueueBackend;
+
+  // Queue holding the lead's first step
+  const firstQueue = async (leadId: string) => {
+    const scheduled = await testPrisma.scheduledMessage.findFirstOrThrow({
+      where: { leadId, messageNumber: 1 },
+    });
+    return scheduled.queueName;
+  };
+
+  const createScheduledLead = async () => {
+    const lead = await testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        status: 'ACTIVE',
+      }
+    });
+    await scheduleLeadMessages(lead, getDefaultCampaign());
+    return lead;
+  };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    queues = new MemoryQueueBackend({ maxPollMs: 0 });
+    setQueueBackend(queues);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setQueueBackend(null);
+  });
+
+  describe('GET /api/queues', () => {
+    it('should list date queues with depth and sends', async () => {
+      const lead = await createScheduledLead();
+      await queues.createQueue('test-drip-messages-dlq');
+      await testPrisma.scheduledMessage.updateMany({
+        where: { leadId: lead.id, messageNumber: 1 },
+        data: { status: 'SENT', sentAt: new Date() },
+      });
+
+      const queueName = await firstQueue(lead.id);
+
+      const response = await listQueues();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toHaveLength(5);
+      expect(data.data.map((queue: { name: string }) => queue.name)).not.toContain('test-drip-messages-dlq');
+      expect(data.data[0]).toEqual({
+        name: queueName,
+        day: queueName.slice('test-drip-messages-'.length),
+        depth: 1,
+        oldestMessageAgeSec: expect.any(Number),
+        totalMessages: 1,
+        sent: 1,
+      });
+    });
+  });
+
+  describe('GET /api/queues/[name]/messages', () => {
+    it('should list messages without reading them', async () => {
+      const lead = await createScheduledLead();
+      const queueName = await firstQueue(lead.id);
+
+      const response = await peek(
+        createMockUrlRequest(`/api/queues/${queueName}/messages`),
+        createRouteParams({ name: queueName })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual([
+        expect.objectContaining({
+          readCount: 0,
+          message: expect.objectContaining({ leadId: lead.id, messageNumber: 1 }),
+        }),
+      ]);
+
+      // Still there for the worker
+      const records = await queues.read(queueName);
+      expect(records[0].readCount).toBe(1);
+    });
+
+    it('should list the visible messages through pgmq-rest and leave them visible', async () => {
+      const queueName = `test-drip-messages-${getDayKey()}`;
+      const message = { leadId: 'lead-1', email: 'john@example.com', messageNumber: 1, scheduledDate: getDayKey() };
+      const mockFetch = jest.fn(async (url: string | URL | Request, _init?: RequestInit) =>
+        ({
+          ok: true,
+          json: async () => String(url).endsWith('/read')
+            ? [[1, 1, '2025-10-27T10:00:00Z', '2025-10-27T10:00:30Z', message, null]]
+            : [1],
+        }) as Response
+      );
+      jest.spyOn(global, 'fetch').mockImplementation(mockFetch);
+      setQueueBackend(new PgmqClient({ baseUrl: 'http://pgmq.test/api/v1', retries: 0 }));
+
+      const response = await peek(
+        createMockUrlRequest(`/api/queues/${queueName}/messages`),
+        createRouteParams({ name: queueName })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual([expect.objectContaining({ msgId: '1', readCount: 0, message })]);
+      expect(mockFetch).toHaveBeenCalledWith('http://pgmq.test/api/v1/set_vt', expect.objectContaining({
+        body: JSON.stringify({ queue_name: queueName, msg_id: '1', vt: 0 }),
+      }));
+    });
+
+    it('should return 404 for queues that are not date queues or do not exist', async () => {
+      const notDateQueue = await peek(
+        createMockUrlRequest('/api/queues/test-drip-messages-dlq/messages'),
+        createRouteParams({ name: 'test-drip-messages-dlq' })
+      );
+      await expectErrorResponse(notDateQueue, 404, 'Queue not found');
+
+      const missing = await peek(
+        createMockUrlRequest('/api/queues/test-drip-messages-2099-01-01/messages'),
+        createRouteParams({ name: 'test-drip-messages-2099-01-01' })
+      );
+      await expectErrorResponse(missing, 404, 'Queue not found');
+    });
+
+    it('should reject limits out of range', async () => {
+      const queueName = `test-drip-messages-${getDayKey()}`;
+
+      const response = await peek(
+        createMockUrlRequest(`/api/queues/${queueName}/messages?limit=0`),
+        createRouteParams({ name: queueName })
+      );
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should return 501 when the backend cannot list messages', async () => {
+      const queueName = await firstQueue((await createScheduledLead()).id);
+      jest.spyOn(queues, 'peek').mockRejectedValue(new UnsupportedQueueOperationError('Not supported'));
+
+      const response = await peek(
+        createMockUrlRequest(`/api/queues/${queueName}/messages`),
+        createRouteParams({ name: queueName })
+      );
+
+      await expectErrorResponse(response, 501, 'Not supported');
+    });
+  });
+
+  describe('GET /api/queues/calendar', () => {
+    it('should report booked capacity per day starting today', async () => {
+      await testPrisma.scheduledSlot.create({
+        data: { day: dayKeyToDate(getDayKey()), scope: 'global', reserved: 3 },
+      });
+
+      const response = await calendar(createMockUrlRequest('/api/queues/calendar?days=7'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toHaveLength(7);
+      expect(data.data[0]).toEqual({
+        day: getDayKey(),
+        booked: 3,
+        dailyMax: DAILY_MAX,
+        available: DAILY_MAX - 3,
+      });
+      expect(data.data[1].booked).toBe(0);
+    });
+
+    it('should reject ranges longer than the limit', async () => {
+      const response = await calendar(createMockUrlRequest('/api/queues/calendar?days=1000'));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../../app/api/templates/route';
+import { POST as PREVIEW } from '../../../app/api/templates/[id]/preview/route';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import { createMockRequest, expectErrorResponse } from '../../setup/test-helpers';
+
+const createTemplateData = (overrides: Partial<any> = {}) => ({
+  name: 'Welcome',
+  stepNumber: 1,
+  channel: 'EMAIL' as const,
+  subject: 'Welcome {{name}}',
+  body: '<p>Thanks for reaching out about {{notes}}</p>',
+  ...overrides,
+});
+
+const createPreviewRequest = (templateId: string, body: any) =>
+  new NextRequest(`http://localhost:3000/api/templates/${templateId}/preview`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+describe('Templates API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  describe('POST /api/templates', () => {
+    it('should create a template', async () => {
+      const response = await POST(createMockRequest(createTemplateData()));
+
+      expect(response.status).toBe(201);
+      const data = await response.json();
+      expect(data.data).toMatchObject({ name: 'Welcome', stepNumber: 1, channel: 'EMAIL' });
+    });
+
+    it('should reject unknown placeholders', async () => {
+      const response = await POST(createMockRequest(createTemplateData({ body: 'Hi {{company}}' })));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject a second template for the same step and channel', async () => {
+      await POST(createMockRequest(createTemplateData()));
+      const response = await POST(createMockRequest(createTemplateData({ name: 'Duplicate' })));
+
+      await expectErrorResponse(response, 422);
+    });
+  });
+
+  describe('GET /api/templates', () => {
+    it('should list templates by step', async () => {
+      await POST(createMockRequest(createTemplateData({ stepNumber: 2 })));
+      await POST(createMockRequest(createTemplateData({ stepNumber: 1 })));
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(data.data.map((template: any) => template.stepNumber)).toEqual([1, 2]);
+    });
+  });
+
+  describe('POST /api/templates/[id]/preview', () => {
+    it('should render the template against a lead', async () => {
+      const template = await testPrisma.messageTemplate.create({ data: createTemplateData() });
+      const lead = await testPrisma.lead.create({
+        data: {
+          name: 'Jane <Doe>',
+          email: 'jane@example.com',
+          phone: '1234567890',
+          notes: 'pricing & plans',
+        }
+      });
+
+      const response = await PREVIEW(createPreviewRequest(template.id, { leadId: lead.id }), {
+        params: Promise.resolve({ id: template.id }),
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.data).toMatchObject({
+        subject: 'Welcome Jane <Doe>',
+        body: '<p>Thanks for reaching out about pricing &amp; plans</p>',
+        format: 'html',
+      });
+    });
+
+    it('should not change the lead when previewing', async () => {
+      const template = await testPrisma.messageTemplate.create({ data: createTemplateData() });
+      const lead = await testPrisma.lead.create({
+        data: { name: 'Jane', email: 'jane@example.com', phone: '1234567890' }
+      });
+
+      await PREVIEW(createPreviewRequest(template.id, { leadId: lead.id }), {
+        params: Promise.resolve({ id: template.id }),
+      });
+
+      const unchanged = await testPrisma.lead.findUnique({ where: { id: lead.id } });
+      expect(unchanged?.messageCount).toBe(0);
+      expect(unchanged?.lastSentAt).toBeNull();
+    });
+
+    it('should return 404 for an unknown lead', async () => {
+      const template = await testPrisma.messageTemplate.create({ data: createTemplateData() });
+
+      const response = await PREVIEW(createPreviewRequest(template.id, { leadId: 'missing' }), {
+        params: Promise.resolve({ id: template.id }),
+      });
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+
+    it('should return 404 for an unknown template', async () => {
+      const response = await PREVIEW(createPreviewRequest('missing', { leadId: 'missing' }), {
+        params: Promise.resolve({ id: 'missing' }),
+      });
+
+      await expectErrorResponse(response, 404, 'Template not found');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// Mock the queue functions BEFORE importing the API routes
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../lib/queue', () => ({
+  deleteMessage: mockDeleteMessage,
+  createQueue: jest.fn(),
+  sendMessage: jest.fn(),
+  createQueueMessage: jest.fn(),
+}));
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../../app/api/unsubscribe/route';
+import { POST as createLead } from '../../../app/api/leads/route';
+import { createUnsubscribeToken } from '../../../lib/unsubscribe';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../../setup/test-db';
+import {
+  createMockRequest,
+  createMockUrlRequest,
+  createValidLeadData,
+  expectErrorResponse
+} from '../../setup/test-helpers';
+
+describe('Unsubscribe API Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const seedLead = () =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'John@Example.com',
+        phone: '1234567890',
+      }
+    });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    jest.clearAllMocks();
+    mockDeleteMessage.mockResolvedValue(true);
+  });
+
+  describe('GET /api/unsubscribe', () => {
+    it('should redirect to the confirmation page without unsubscribing', async () => {
+      const lead = await seedLead();
+      const token = encodeURIComponent(createUnsubscribeToken(lead.id));
+
+      const response = await GET(createMockUrlRequest(`/api/unsubscribe?token=${token}`));
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get('location')).toBe(`http://localhost:3000/unsubscribe?token=${token}`);
+
+      const unchanged = await testPrisma.lead.findUnique({ where: { id: lead.id } });
+      expect(unchanged?.status).toBe('ACTIVE');
+      expect(await testPrisma.suppression.count()).toBe(0);
+    });
+  });
+
+  describe('POST /api/unsubscribe', () => {
+    const confirm = (token: string) =>
+      POST(createMockUrlRequest('/api/unsubscribe', 'POST', { token }));
+
+    it('should unsubscribe the lead and suppress its contact details', async () => {
+      const lead = await seedLead();
+
+      const response = await confirm(createUnsubscribeToken(lead.id));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ id: lead.id, status: 'UNSUBSCRIBED' });
+
+      const updated = await testPrisma.lead.findUnique({ where: { id: lead.id } });
+      expect(updated?.unsubscribedAt).toBeInstanceOf(Date);
+      expect(updated?.nextScheduledFor).toBeNull();
+
+      const suppressions = await testPrisma.suppression.findMany({ orderBy: { type: 'asc' } });
+      expect(suppressions.map(entry => [entry.type, entry.value, entry.reason])).toEqual([
+        ['EMAIL', 'john@example.com', 'unsubscribe link'],
+        ['PHONE', '1234567890', 'unsubscribe link'],
+      ]);
+    });
+
+    it('should accept RFC 8058 one-click posts', async () => {
+      const lead = await seedLead();
+      const token = encodeURIComponent(createUnsubscribeToken(lead.id));
+
+      const response = await POST(new NextRequest(`http://localhost:3000/api/unsubscribe?token=${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'List-Unsubscribe=One-Click',
+      }));
+
+      expect(response.status).toBe(200);
+      const suppression = await testPrisma.suppression.findFirst({ where: { type: 'EMAIL' } });
+      expect(suppression?.reason).toBe('one-click unsubscribe');
+    });
+
+    it('should be idempotent', async () => {
+      const lead = await seedLead();
+      const token = createUnsubscribeToken(lead.id);
+
+      await confirm(token);
+      const response = await confirm(token);
+
+      expect(response.status).toBe(200);
+      expect(await testPrisma.suppression.count()).toBe(2);
+    });
+
+    it('should reject forged tokens', async () => {
+      const lead = await seedLead();
+
+      const response = await confirm(`${lead.id}.forged`);
+
+      await expectErrorResponse(response, 400, 'Invalid unsubscribe link');
+      const unchanged = await testPrisma.lead.findUnique({ where: { id: lead.id } });
+      expect(unchanged?.status).toBe('ACTIVE');
+    });
+
+    it('should require a token', async () => {
+      const response = await POST(createMockUrlRequest('/api/unsubscribe', 'POST', {}));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should reject malformed JSON bodies', async () => {
+      const response = await POST(new NextRequest('http://localhost:3000/api/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"token":',
+      }));
+
+      await expectErrorResponse(response, 400, 'Validation failed');
+    });
+
+    it('should return 404 for deleted leads', async () => {
+      const response = await confirm(createUnsubscribeToken('missing'));
+
+      await expectErrorResponse(response, 404, 'Lead not found');
+    });
+  });
+
+  describe('Enrollment of suppressed contacts', () => {
+    it('should refuse to enroll an unsubscribed email address', async () => {
+      const lead = await seedLead();
+      await POST(createMockUrlRequest('/api/unsubscribe', 'POST', { token: createUnsubscribeToken(lead.id) }));
+      await testPrisma.lead.delete({ where: { id: lead.id } });
+
+      const response = await createLead(createMockRequest(createValidLeadData({
+        email: 'john@example.com',
+        phone: '5555555555',
+      })));
+
+      await expectErrorResponse(response, 422, 'This contact has unsubscribed and cannot be enrolled');
+      expect(await testPrisma.lead.count()).toBe(0);
+    });
+  });
+});
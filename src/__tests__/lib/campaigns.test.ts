@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  getDefaultCampaign,
+  getCampaignStep,
+  resolveCampaign,
+  getLeadCampaign,
+  DEFAULT_CAMPAIGN_NAME
+} from '../../lib/campaigns';
+
+describe('Campaign Definition Tests', () => {
+  const originalChannel = process.env.DELIVERY_CHANNEL;
+
+  afterEach(() => {
+    process.env.DELIVERY_CHANNEL = originalChannel;
+  });
+
+  describe('getDefaultCampaign', () => {
+    it('should send five messages on consecutive days', () => {
+      const campaign = getDefaultCampaign();
+
+      expect(campaign.id).toBeNull();
+      expect(campaign.name).toBe(DEFAULT_CAMPAIGN_NAME);
+      expect(campaign.dailyCap).toBeNull();
+      expect(campaign.steps.map(step => step.stepNumber)).toEqual([1, 2, 3, 4, 5]);
+      expect(campaign.steps.map(step => step.delayDays)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should use DELIVERY_CHANNEL for every step', () => {
+      process.env.DELIVERY_CHANNEL = 'SMS';
+
+      const campaign = getDefaultCampaign();
+
+      expect(campaign.steps.every(step => step.channel === 'SMS')).toBe(true);
+    });
+  });
+
+  describe('getCampaignStep', () => {
+    it('should find steps by message number', () => {
+      const campaign = getDefaultCampaign();
+
+      expect(getCampaignStep(campaign, 3)?.delayDays).toBe(2);
+      expect(getCampaignStep(campaign, 6)).toBeUndefined();
+    });
+  });
+
+  describe('resolveCampaign', () => {
+    it('should fall back to the default campaign without a name', async () => {
+      await expect(resolveCampaign(undefined)).resolves.toMatchObject({ name: DEFAULT_CAMPAIGN_NAME });
+      await expect(resolveCampaign(DEFAULT_CAMPAIGN_NAME)).resolves.toMatchObject({ id: null });
+    });
+  });
+
+  describe('getLeadCampaign', () => {
+    it('should use the default campaign for leads without one', async () => {
+      await expect(getLeadCampaign({ campaignId: null })).resolves.toMatchObject({ name: DEFAULT_CAMPAIGN_NAME });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { backfillContacts } from '../../lib/contact-backfill';
+import { isSuppressed } from '../../lib/unsubscribe';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+
+describe('Contact Backfill Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  const createLead = (email: string, phone: string) =>
+    testPrisma.lead.create({ data: { name: 'John Doe', email, phone } });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  it('should normalize the emails and phone numbers of old leads', async () => {
+    const lead = await createLead(' John@Example.com', '(555) 123-4567');
+
+    const report = await backfillContacts();
+
+    expect(report.leadsUpdated).toBe(1);
+    const updated = await testPrisma.lead.findUniqueOrThrow({ where: { id: lead.id } });
+    expect(updated.email).toBe('john@example.com');
+    expect(updated.phone).toBe('+15551234567');
+  });
+
+  it('should make old phone suppressions match new submissions', async () => {
+    await testPrisma.suppression.create({ data: { type: 'PHONE', value: '5551234567' } });
+
+    await backfillContacts();
+
+    expect(await isSuppressed({ email: 'someone@example.com', phone: '+15551234567' })).toBe(true);
+  });
+
+  it('should merge suppressions that turn out to be the same', async () => {
+    await testPrisma.suppression.createMany({
+      data: [
+        { type: 'PHONE', value: '+15551234567' },
+        { type: 'PHONE', value: '555.123.4567' },
+        { type: 'EMAIL', value: 'John@Example.com' },
+      ],
+    });
+
+    const report = await backfillContacts();
+
+    expect(report.suppressionsMerged).toBe(1);
+    expect(report.suppressionsUpdated).toBe(1);
+    const values = await testPrisma.suppression.findMany({ orderBy: { value: 'asc' } });
+    expect(values.map((suppression) => suppression.value)).toEqual(['+15551234567', 'john@example.com']);
+  });
+
+  it('should leave and report leads that would clash with another lead', async () => {
+    const kept = await createLead('john@example.com', '+15551234567');
+    const clashing = await createLead('JOHN@example.com', '555-123-4567');
+
+    const report = await backfillContacts();
+
+    expect(report.leadsUpdated).toBe(0);
+    expect(report.collisions).toEqual([
+      { leadId: clashing.id, field: 'email', value: 'john@example.com', otherLeadId: kept.id },
+      { leadId: clashing.id, field: 'phone', value: '+15551234567', otherLeadId: kept.id },
+    ]);
+    const unchanged = await testPrisma.lead.findUniqueOrThrow({ where: { id: clashing.id } });
+    expect(unchanged.email).toBe('JOHN@example.com');
+  });
+
+  it('should report phone numbers it cannot read', async () => {
+    const lead = await createLead('john@example.com', '555-3141');
+
+    const report = await backfillContacts();
+
+    expect(report.unreadablePhones).toEqual([{ table: 'leads', id: lead.id, value: '555-3141' }]);
+    expect((await testPrisma.lead.findUniqueOrThrow({ where: { id: lead.id } })).phone).toBe('555-3141');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  addDays,
+  getDayKey,
+  getBusinessTimeZone,
+  getNextWindowOpening,
+  getWeekday,
+  isSendDay,
+  isValidTimeZone,
+  parseTimeOfDay,
+  zonedTimeToInstant
+} from '../../lib/dates';
+
+describe('Date Helper Tests', () => {
+  const originalTimeZone = process.env.BUSINESS_TIMEZONE;
+
+  afterEach(() => {
+    process.env.BUSINESS_TIMEZONE = originalTimeZone;
+  });
+
+  describe('getDayKey', () => {
+    it('should use the business timezone for day boundaries', () => {
+      const lateEvening = new Date('2025-10-20T23:30:00Z');
+
+      process.env.BUSINESS_TIMEZONE = 'UTC';
+      expect(getDayKey(lateEvening)).toBe('2025-10-20');
+
+      process.env.BUSINESS_TIMEZONE = 'Europe/Berlin';
+      expect(getDayKey(lateEvening)).toBe('2025-10-21');
+    });
+
+    it('should default to UTC', () => {
+      delete process.env.BUSINESS_TIMEZONE;
+
+      expect(getBusinessTimeZone()).toBe('UTC');
+    });
+  });
+
+  describe('day arithmetic', () => {
+    it('should add days across month and year boundaries', () => {
+      expect(addDays('2025-10-31', 1)).toBe('2025-11-01');
+      expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+      expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+    });
+
+    it('should report weekdays', () => {
+      expect(getWeekday('2025-10-20')).toBe(1); // Monday
+      expect(getWeekday('2025-10-19')).toBe(0); // Sunday
+    });
+  });
+
+  describe('zonedTimeToInstant', () => {
+    it('should convert local wall-clock time to an instant', () => {
+      expect(zonedTimeToInstant('2025-07-01', 9 * 60, 'America/New_York').toISOString()).toBe('2025-07-01T13:00:00.000Z');
+      expect(zonedTimeToInstant('2025-12-01', 9 * 60, 'America/New_York').toISOString()).toBe('2025-12-01T14:00:00.000Z');
+    });
+
+    it('should handle the day of a DST change', () => {
+      // Clocks go back at 03:00 in Berlin on 2025-10-26
+      expect(zonedTimeToInstant('2025-10-26', 12 * 60, 'Europe/Berlin').toISOString()).toBe('2025-10-26T11:00:00.000Z');
+    });
+  });
+
+  describe('validation helpers', () => {
+    it('should recognise IANA timezones', () => {
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should parse HH:MM times', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(() => parseTimeOfDay('24:00')).toThrow('Invalid time of day');
+    });
+  });
+
+  describe('getNextWindowOpening', () => {
+    const businessHours = { sendWindowStart: '09:00', sendWindowEnd: '17:00', sendDays: [1, 2, 3, 4, 5] };
+
+    it('should return now inside the window', () => {
+      const now = new Date('2025-10-20T14:00:00Z'); // Monday 10:00 in New York
+
+      expect(getNextWindowOpening(businessHours, 'America/New_York', now)).toBe(now);
+    });
+
+    it('should wait for the window to open later the same day', () => {
+      const now = new Date('2025-10-20T11:00:00Z'); // Monday 07:00 in New York
+
+      expect(getNextWindowOpening(businessHours, 'America/New_York', now).toISOString()).toBe('2025-10-20T13:00:00.000Z');
+    });
+
+    it('should skip to the next send day after the window closes', () => {
+      const now = new Date('2025-10-24T22:00:00Z'); // Friday 18:00 in New York
+
+      expect(getNextWindowOpening(businessHours, 'America/New_York', now).toISOString()).toBe('2025-10-27T13:00:00.000Z');
+    });
+
+    it('should always be open without a window', () => {
+      const now = new Date('2025-10-25T03:00:00Z');
+
+      expect(getNextWindowOpening({ sendWindowStart: null, sendWindowEnd: null, sendDays: [] }, 'UTC', now)).toBe(now);
+    });
+
+    it('should check send days by calendar date', () => {
+      expect(isSendDay(businessHours, '2025-10-25')).toBe(false);
+      expect(isSendDay({ sendDays: [] }, '2025-10-25')).toBe(true);
+    });
+  });
+});
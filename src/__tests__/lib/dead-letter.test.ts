@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { discardDeadLetter, getDeadLetter, listDeadLetters } from '../../lib/dead-letter';
+import { PgmqClient, setQueueBackend } from '../../lib/queue';
+
+// The dead-letter queue as pgmq-rest would serve it
+interface StoredRow {
+  msgId: number;
+  readCount: number;
+  // Epoch ms when the row becomes visible again
+  vt: number;
+  message: Record<string, unknown>;
+}
+
+describe('Dead Letter Tests with pgmq-rest', () => {
+  let rows: StoredRow[];
+
+  const deadLetter = (msgId: number): StoredRow => ({
+    msgId,
+    readCount: 0,
+    vt: 0,
+    message: {
+      leadId: `lead-${msgId}`,
+      email: 'john@example.com',
+      messageNumber: 2,
+      scheduledDate: '2025-10-27',
+      sourceQueue: 'test-drip-messages-2025-10-27',
+      sourceMsgId: '3',
+      readCount: 5,
+      error: 'Mailbox unavailable',
+      failedAt: '2025-10-27T10:00:00Z',
+    },
+  });
+
+  const respond = (body: unknown) => ({ ok: true, json: async () => body }) as Response;
+
+  // A small pgmq-rest: read, set_vt and delete on one queue
+  const pgmqRest = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const path = String(url).split('/').pop();
+    const body = JSON.parse(String(init?.body));
+    const now = Date.now();
+
+    if (path === 'read') {
+      const read = rows.filter((row) => row.vt <= now).slice(0, body.qty);
+      for (const row of read) {
+        row.readCount++;
+        row.vt = now + body.vt * 1000;
+      }
+      return respond(read.map((row) => [row.msgId, row.readCount, '2025-10-27T10:00:00Z', new Date(row.vt).toISOString(), row.message, null]));
+    }
+    if (path === 'set_vt') {
+      const row = rows.find((candidate) => candidate.msgId === Number(body.msg_id));
+      if (row) {
+        row.vt = now + body.vt * 1000;
+      }
+      return respond(row ? [row.msgId] : []);
+    }
+    if (path === 'delete') {
+      const before = rows.length;
+      rows = rows.filter((row) => row.msgId !== Number(body.msg_id));
+      return respond(rows.length < before);
+    }
+    throw new Error(`Unexpected pgmq-rest call: ${path}`);
+  };
+
+  beforeEach(() => {
+    rows = [deadLetter(7), deadLetter(8), deadLetter(9)];
+    global.fetch = jest.fn(pgmqRest) as typeof fetch;
+    setQueueBackend(new PgmqClient({ baseUrl: 'http://pgmq.test/api/v1', retries: 0 }));
+  });
+
+  afterEach(() => {
+    setQueueBackend(null);
+  });
+
+  it('should list dead letters and leave them visible', async () => {
+    const deadLetters = await listDeadLetters();
+
+    expect(deadLetters.map((entry) => entry.id)).toEqual(['7', '8', '9']);
+    expect(deadLetters[0].message).toEqual(expect.objectContaining({ leadId: 'lead-7', error: 'Mailbox unavailable' }));
+    expect(rows.every((row) => row.vt <= Date.now())).toBe(true);
+  });
+
+  it('should page through dead letters', async () => {
+    const deadLetters = await listDeadLetters(1, '7');
+
+    expect(deadLetters.map((entry) => entry.id)).toEqual(['8']);
+  });
+
+  it('should find a dead letter by ID', async () => {
+    await expect(getDeadLetter('8')).resolves.toEqual(expect.objectContaining({ id: '8' }));
+    await expect(getDeadLetter('10')).resolves.toBeNull();
+  });
+
+  it('should discard a dead letter', async () => {
+    await expect(discardDeadLetter('8')).resolves.toBe(true);
+
+    expect(rows.map((row) => row.msgId)).toEqual([7, 9]);
+    expect((await listDeadLetters()).map((entry) => entry.id)).toEqual(['7', '9']);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { SMTPServer } from 'smtp-server';
+import {
+  SmtpEmailChannel,
+  HttpSmsChannel,
+  FileSinkChannel,
+  MemorySinkChannel,
+  DeliveryError,
+  getDeliveryChannel,
+  setDeliveryChannel,
+  recipientFor,
+  type OutgoingMessage
+} from '../../lib/delivery';
+
+const createOutgoingMessage = (overrides: Partial<OutgoingMessage> = {}): OutgoingMessage => ({
+  leadId: 'lead-123',
+  messageNumber: 1,
+  to: 'test@example.com',
+  subject: 'Hello',
+  body: 'Message body',
+  ...overrides,
+});
+
+describe('Delivery Channel Tests', () => {
+  describe('SmtpEmailChannel', () => {
+    let smtpServer: SMTPServer;
+    let smtpPort: number;
+    const received: Array<{ to: string[]; data: string }> = [];
+
+    beforeAll(async () => {
+      smtpServer = new SMTPServer({
+        authOptional: true,
+        disabledCommands: ['STARTTLS'],
+        onData(stream, session, callback) {
+          let data = '';
+          stream.on('data', (chunk) => { data += chunk.toString(); });
+          stream.on('end', () => {
+            received.push({
+              to: session.envelope.rcptTo.map((rcpt) => rcpt.address),
+              data,
+            });
+            callback();
+          });
+        },
+      });
+
+      await new Promise<void>((resolve) => smtpServer.listen(0, '127.0.0.1', resolve));
+      smtpPort = (smtpServer.server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => smtpServer.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      received.length = 0;
+    });
+
+    it('should deliver email to the SMTP server', async () => {
+      const channel = new SmtpEmailChannel({
+        host: '127.0.0.1',
+        port: smtpPort,
+        from: 'hyperdrip@example.com',
+      });
+
+      const result = await channel.send(createOutgoingMessage({ headers: { 'X-Lead-Id': 'lead-123' } }));
+
+      expect(result.transport).toBe('smtp');
+      expect(result.providerMessageId).toBeTruthy();
+      expect(received).toHaveLength(1);
+      expect(received[0].to).toEqual(['test@example.com']);
+      expect(received[0].data).toContain('Subject: Hello');
+      expect(received[0].data).toMatch(/X-Lead-Id: lead-123/i);
+      expect(received[0].data).toContain('Message body');
+    });
+
+    it('should use the idempotency key as the Message-ID', async () => {
+      const channel = new SmtpEmailChannel({
+        host: '127.0.0.1',
+        port: smtpPort,
+        from: 'Hyperdrip <hyperdrip@example.com>',
+      });
+
+      const result = await channel.send(createOutgoingMessage({ idempotencyKey: 'msg-123' }));
+
+      expect(result.providerMessageId).toBe('<msg-123@example.com>');
+      expect(received[0].data).toMatch(/Message-ID: <msg-123@example\.com>/i);
+    });
+
+    it('should raise DeliveryError when SMTP is unreachable', async () => {
+      const channel = new SmtpEmailChannel({
+        host: '127.0.0.1',
+        port: 1,
+        from: 'hyperdrip@example.com',
+      });
+
+      await expect(channel.send(createOutgoingMessage())).rejects.toBeInstanceOf(DeliveryError);
+    });
+  });
+
+  describe('HttpSmsChannel', () => {
+    let gateway: Server;
+    let gatewayUrl: string;
+    let gatewayStatus = 200;
+    const received: Array<{ auth?: string; idempotencyKey?: string; body: unknown }> = [];
+
+    beforeAll(async () => {
+      // Fake SMS gateway
+      gateway = createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+          received.push({
+            auth: req.headers.authorization,
+            idempotencyKey: req.headers['idempotency-key'] as string | undefined,
+            body: JSON.parse(raw),
+          });
+          res.writeHead(gatewayStatus, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ id: `sms-${received.length}` }));
+        });
+      });
+
+      await new Promise<void>((resolve) => gateway.listen(0, '127.0.0.1', resolve));
+      gatewayUrl = `http://127.0.0.1:${(gateway.address() as AddressInfo).port}/messages`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => gateway.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      received.length = 0;
+      gatewayStatus = 200;
+    });
+
+    it('should post the message to the gateway and return its id', async () => {
+      const channel = new HttpSmsChannel({ url: gatewayUrl, token: 'secret', from: '+15550000000' });
+
+      const result = await channel.send(createOutgoingMessage({ to: '+15551234567' }));
+
+      expect(result).toEqual({ providerMessageId: 'sms-1', transport: 'sms-gateway' });
+      expect(received[0].auth).toBe('Bearer secret');
+      expect(received[0].body).toEqual({
+        from: '+15550000000',
+        to: '+15551234567',
+        body: 'Message body',
+      });
+    });
+
+    it('should send the idempotency key to the gateway', async () => {
+      const channel = new HttpSmsChannel({ url: gatewayUrl, from: '+15550000000' });
+
+      await channel.send(createOutgoingMessage({ idempotencyKey: 'msg-123' }));
+
+      expect(received[0].idempotencyKey).toBe('msg-123');
+    });
+
+    it('should raise DeliveryError when the gateway rejects the message', async () => {
+      gatewayStatus = 503;
+      const channel = new HttpSmsChannel({ url: gatewayUrl, from: '+15550000000' });
+
+      await expect(channel.send(createOutgoingMessage())).rejects.toThrow('status 503');
+    });
+  });
+
+  describe('FileSinkChannel', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'hyperdrip-delivery-'));
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should append each message as a JSON line', async () => {
+      const filePath = path.join(dir, 'nested', 'deliveries.ndjson');
+      const channel = new FileSinkChannel(filePath);
+
+      const first = await channel.send(createOutgoingMessage());
+      await channel.send(createOutgoingMessage({ messageNumber: 2 }));
+
+      const lines = (await readFile(filePath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({ id: first.providerMessageId, leadId: 'lead-123', messageNumber: 1 });
+      expect(lines[1].messageNumber).toBe(2);
+    });
+  });
+
+  describe('MemorySinkChannel', () => {
+    it('should keep sent messages until cleared', async () => {
+      const channel = new MemorySinkChannel();
+
+      const result = await channel.send(createOutgoingMessage());
+
+      expect(channel.messages).toHaveLength(1);
+      expect(channel.messages[0].id).toBe(result.providerMessageId);
+
+      channel.clear();
+      expect(channel.messages).toHaveLength(0);
+    });
+
+    it('should keep a message sent again with the same idempotency key once', async () => {
+      const channel = new MemorySinkChannel();
+
+      const first = await channel.send(createOutgoingMessage({ idempotencyKey: 'msg-123' }));
+      const repeat = await channel.send(createOutgoingMessage({ idempotencyKey: 'msg-123' }));
+      await channel.send(createOutgoingMessage({ idempotencyKey: 'msg-456' }));
+
+      expect(repeat.providerMessageId).toBe(first.providerMessageId);
+      expect(channel.messages).toHaveLength(2);
+    });
+  });
+
+  describe('Channel registry', () => {
+    it('should use the memory sink in test mode', () => {
+      expect(getDeliveryChannel('EMAIL')).toBeInstanceOf(MemorySinkChannel);
+      expect(getDeliveryChannel('EMAIL')).toBe(getDeliveryChannel('EMAIL'));
+    });
+
+    it('should allow overriding a channel', () => {
+      const override = new MemorySinkChannel();
+
+      setDeliveryChannel('SMS', override);
+      expect(getDeliveryChannel('SMS')).toBe(override);
+
+      setDeliveryChannel('SMS', null);
+      expect(getDeliveryChannel('SMS')).not.toBe(override);
+    });
+
+    it('should pick the recipient address for each channel', () => {
+      const lead = { email: 'test@example.com', phone: '+15551234567' };
+
+      expect(recipientFor('EMAIL', lead)).toBe('test@example.com');
+      expect(recipientFor('SMS', lead)).toBe('+15551234567');
+    });
+  });
+});
@@ -1,17 +1,29 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
 import { startWorker, stopWorker, isWorkerRunning } from '../../lib/drip-worker';
 import { cleanupDatabase, cleanupQueues, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+import { getDeliveryChannel, setDeliveryChannel, MemorySinkChannel, DeliveryError } from '../../lib/delivery';
+import { addDays, dayKeyToDate, getDayKey } from '../../lib/dates';
+import { DAILY_MAX } from '../../lib/quota';
 
 // Mock the queue functions BEFORE importing the worker
 const mockReadMessagesWithPoll = jest.fn() as jest.MockedFunction<any>;
 const mockArchiveMessage = jest.fn() as jest.MockedFunction<any>;
+const mockSetVisibilityTimeout = jest.fn() as jest.MockedFunction<any>;
+const mockSendMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDeleteMessage = jest.fn() as jest.MockedFunction<any>;
+const mockDropQueue = jest.fn() as jest.MockedFunction<any>;
+const mockGetQueueLength = jest.fn() as jest.MockedFunction<any>;
 
 jest.mock('../../lib/queue', () => ({
+  ...(jest.requireActual('../../lib/queue') as object),
   readMessagesWithPoll: mockReadMessagesWithPoll,
   archiveMessage: mockArchiveMessage,
-  dropQueue: jest.fn(),
+  dropQueue: mockDropQueue,
+  getQueueLength: mockGetQueueLength,
   createQueue: jest.fn(),
-  sendMessage: jest.fn(),
+  sendMessage: mockSendMessage,
+  deleteMessage: mockDeleteMessage,
+  setVisibilityTimeout: mockSetVisibilityTimeout,
   sendBatchMessages: jest.fn(),
   readMessages: jest.fn(),
   getQueueMetrics: jest.fn(),
@@ -41,6 +53,7 @@ describe('Drip Worker Tests', () => {
     // Setup default mock implementations
     mockReadMessagesWithPoll.mockResolvedValue([]);
     mockArchiveMessage.mockResolvedValue(true);
+    mockGetQueueLength.mockRejectedValue(new Error('Queue not found'));
   });
 
   describe('Queue Name Generation', () => {
@@ -82,6 +95,64 @@ describe('Drip Worker Tests', () => {
       stopWorker();
     });
 
+    it('should leave cleanup to the worker holding the leader lease', async () => {
+      await testPrisma.workerLease.create({
+        data: { name: 'drip-worker-leader', holder: 'other-worker', expiresAt: new Date(Date.now() + 60_000) }
+      });
+
+      await startWorker();
+      await stopWorker();
+
+      expect(mockGetQueueLength).not.toHaveBeenCalled();
+      expect(mockDropQueue).not.toHaveBeenCalled();
+    });
+
+    it('should take over cleanup once the leader lease has expired', async () => {
+      await testPrisma.workerLease.create({
+        data: { name: 'drip-worker-leader', holder: 'other-worker', expiresAt: new Date(Date.now() - 1000) }
+      });
+
+      await startWorker();
+
+      const lease = await testPrisma.workerLease.findUnique({ where: { name: 'drip-worker-leader' } });
+      expect(lease?.holder).not.toBe('other-worker');
+      expect(mockGetQueueLength).toHaveBeenCalled();
+
+      await stopWorker();
+    });
+
+    it('should finish the messages in progress before stopping', async () => {
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-stopping',
+          name: 'Stopping User',
+          email: 'stopping@example.com',
+          phone: '555-1357',
+          status: 'ACTIVE'
+        }
+      });
+
+      // Stop while the worker is reading, i.e. with a message about to be processed
+      let stopping: Promise<void> | undefined;
+      mockReadMessagesWithPoll.mockImplementationOnce(async () => {
+        stopping = stopWorker();
+        return [
+          { msgId: 'msg-stopping', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: { leadId: 'test-lead-stopping', email: 'stopping@example.com', messageNumber: 1, scheduledDate: '2025-10-17' }, headers: {} }
+        ];
+      });
+
+      await startWorker();
+      while (!stopping) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await stopping;
+
+      expect(isWorkerRunning()).toBe(false);
+      expect(mockArchiveMessage).toHaveBeenCalledWith(expect.any(String), 'msg-stopping');
+      const lead = await testPrisma.lead.findUnique({ where: { id: 'test-lead-stopping' } });
+      expect(lead?.messageCount).toBe(1);
+    });
+
     it('should not stop worker if not running', () => {
       expect(isWorkerRunning()).toBe(false);
 
@@ -102,7 +173,7 @@ describe('Drip Worker Tests', () => {
 
       // Mock queue returning a message
       mockReadMessagesWithPoll.mockResolvedValueOnce([
-        ['msg-123', 1, '2025-10-17T10:00:00Z', '2025-10-17T10:30:00Z', mockMessage, {}]
+        { msgId: 'msg-123', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
       ]);
 
       // Create a test lead
@@ -144,7 +215,7 @@ describe('Drip Worker Tests', () => {
 
       // Mock queue returning a message
       mockReadMessagesWithPoll.mockResolvedValueOnce([
-        ['msg-456', 1, '2025-10-17T10:00:00Z', '2025-10-17T10:30:00Z', mockMessage, {}]
+        { msgId: 'msg-456', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
       ]);
 
       // Create a test lead with messageCount = 1 (expecting messageNumber = 2)
@@ -185,7 +256,7 @@ describe('Drip Worker Tests', () => {
 
       // Mock queue returning a message
       mockReadMessagesWithPoll.mockResolvedValueOnce([
-        ['msg-789', 1, '2025-10-17T10:00:00Z', '2025-10-17T10:30:00Z', mockMessage, {}]
+        { msgId: 'msg-789', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
       ]);
 
       // Create a test lead with messageCount = 1 (expecting messageNumber = 2, not 3)
@@ -226,7 +297,7 @@ describe('Drip Worker Tests', () => {
 
       // Mock queue returning a message
       mockReadMessagesWithPoll.mockResolvedValueOnce([
-        ['msg-complete', 1, '2025-10-17T10:00:00Z', '2025-10-17T10:30:00Z', mockMessage, {}]
+        { msgId: 'msg-complete', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
       ]);
 
       // Create a test lead with messageCount = 4 (expecting messageNumber = 5, final message)
@@ -260,6 +331,603 @@ describe('Drip Worker Tests', () => {
     });
   });
 
+  describe('Message Delivery', () => {
+    const emailChannel = new MemorySinkChannel();
+
+    beforeEach(() => {
+      emailChannel.clear();
+      setDeliveryChannel('EMAIL', emailChannel);
+    });
+
+    afterAll(() => {
+      setDeliveryChannel('EMAIL', null);
+    });
+
+    it('should deliver the message and record the provider message id', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-delivery',
+        email: 'delivery@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-delivery', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-delivery',
+          name: 'Delivery User',
+          email: 'delivery@example.com',
+          phone: '555-2468',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+      await testPrisma.scheduledMessage.create({
+        data: {
+          leadId: 'test-lead-delivery',
+          messageNumber: 1,
+          queueName: `test-drip-messages-${new Date().toISOString().split('T')[0]}`,
+          msgId: 'msg-delivery',
+          scheduledFor: new Date()
+        }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(1);
+      expect(emailChannel.messages[0].to).toBe('delivery@example.com');
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-delivery' }
+      });
+
+      expect(updatedLead?.lastProviderMessageId).toBe(emailChannel.messages[0].id);
+      expect(updatedLead?.lastDeliveryStatus).toBe('SENT');
+
+      const scheduled = await testPrisma.scheduledMessage.findFirst({
+        where: { leadId: 'test-lead-delivery' }
+      });
+      expect(scheduled?.status).toBe('SENT');
+      expect(scheduled?.sentAt).toBeInstanceOf(Date);
+      expect(scheduled?.sendStartedAt).toBeInstanceOf(Date);
+      expect(emailChannel.messages[0].idempotencyKey).toBe(scheduled?.id);
+
+      stopWorker();
+    });
+
+    it('should resend with the same idempotency key after an attempt stopped part way', async () => {
+      const queueName = `test-drip-messages-${new Date().toISOString().split('T')[0]}`;
+      const mockMessage = {
+        leadId: 'test-lead-resend',
+        email: 'resend@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-resend', readCount: 2, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-resend',
+          name: 'Resend User',
+          email: 'resend@example.com',
+          phone: '555-2468',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+      // The provider accepted the first attempt, but it was never recorded
+      const scheduled = await testPrisma.scheduledMessage.create({
+        data: {
+          leadId: 'test-lead-resend',
+          messageNumber: 1,
+          queueName,
+          msgId: 'msg-resend',
+          scheduledFor: new Date(),
+          sendStartedAt: new Date(Date.now() - 60_000)
+        }
+      });
+      const firstAttempt = await emailChannel.send({
+        leadId: 'test-lead-resend',
+        messageNumber: 1,
+        to: 'resend@example.com',
+        subject: 'Hello',
+        body: 'First attempt',
+        idempotencyKey: scheduled.id
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(1);
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-resend' }
+      });
+      expect(updatedLead?.messageCount).toBe(1);
+      expect(updatedLead?.lastProviderMessageId).toBe(firstAttempt.providerMessageId);
+      expect(mockArchiveMessage).toHaveBeenCalledWith(queueName, 'msg-resend');
+
+      stopWorker();
+    });
+
+    it('should record failed deliveries and leave the message for retry', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-undeliverable',
+        email: 'undeliverable@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-undeliverable', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      setDeliveryChannel('EMAIL', {
+        transport: 'memory',
+        send: async () => {
+          throw new DeliveryError('memory', 'Mailbox unavailable');
+        }
+      });
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-undeliverable',
+          name: 'Undeliverable User',
+          email: 'undeliverable@example.com',
+          phone: '555-1357',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-undeliverable' }
+      });
+
+      expect(updatedLead?.messageCount).toBe(0);
+      expect(updatedLead?.lastDeliveryStatus).toBe('FAILED');
+      expect(updatedLead?.lastDeliveryError).toBe('Mailbox unavailable');
+      expect(mockArchiveMessage).not.toHaveBeenCalled();
+      expect(getDeliveryChannel('EMAIL')).not.toBe(emailChannel);
+
+      stopWorker();
+    });
+
+    it('should dead-letter messages that keep failing and mark the lead failed', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-poison',
+        email: 'poison@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      // Fifth read of the same message
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-poison', readCount: 5, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+      mockSendMessage.mockResolvedValue(42);
+      mockDeleteMessage.mockResolvedValue(true);
+
+      setDeliveryChannel('EMAIL', {
+        transport: 'memory',
+        send: async () => {
+          throw new DeliveryError('memory', 'Mailbox unavailable');
+        }
+      });
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-poison',
+          name: 'Poison User',
+          email: 'poison@example.com',
+          phone: '555-9753',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const queueName = `test-drip-messages-${new Date().toISOString().split('T')[0]}`;
+      expect(mockSendMessage).toHaveBeenCalledWith('test-drip-messages-dlq', expect.objectContaining({
+        leadId: 'test-lead-poison',
+        messageNumber: 1,
+        sourceQueue: queueName,
+        sourceMsgId: 'msg-poison',
+        readCount: 5,
+        error: 'Mailbox unavailable'
+      }));
+      expect(mockDeleteMessage).toHaveBeenCalledWith(queueName, 'msg-poison');
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-poison' }
+      });
+
+      expect(updatedLead?.status).toBe('FAILED');
+      expect(updatedLead?.failureReason).toBe('Message #1 failed after 5 attempts: Mailbox unavailable');
+
+      stopWorker();
+    });
+
+    it('should add one-click unsubscribe headers to emails', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-headers',
+        email: 'headers@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-headers', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-headers',
+          name: 'Headers User',
+          email: 'headers@example.com',
+          phone: '555-8642',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(1);
+      expect(emailChannel.messages[0].headers?.['List-Unsubscribe']).toContain('/api/unsubscribe?token=test-lead-headers.');
+      expect(emailChannel.messages[0].headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+
+      stopWorker();
+    });
+
+    it('should not send to suppressed contacts', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-suppressed',
+        email: 'suppressed@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-suppressed', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-suppressed',
+          name: 'Suppressed User',
+          email: 'suppressed@example.com',
+          phone: '555-9753',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE'
+        }
+      });
+      await testPrisma.suppression.create({
+        data: { type: 'EMAIL', value: 'suppressed@example.com' }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-suppressed' }
+      });
+
+      expect(emailChannel.messages).toHaveLength(0);
+      expect(updatedLead?.status).toBe('UNSUBSCRIBED');
+      expect(updatedLead?.messageCount).toBe(0);
+      expect(mockArchiveMessage).toHaveBeenCalledWith(expect.any(String), 'msg-suppressed');
+
+      stopWorker();
+    });
+
+    it('should skip paused leads and leave the message in the queue', async () => {
+      const mockMessage = {
+        leadId: 'test-lead-paused',
+        email: 'paused@example.com',
+        messageNumber: 1,
+        scheduledDate: '2025-10-17'
+      };
+      const queueName = `test-drip-messages-${new Date().toISOString().split('T')[0]}`;
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-paused', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
+      ]);
+
+      await testPrisma.lead.create({
+        data: {
+          id: 'test-lead-paused',
+          name: 'Paused User',
+          email: 'paused@example.com',
+          phone: '555-3141',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'PAUSED',
+          pausedAt: new Date()
+        }
+      });
+      await testPrisma.scheduledMessage.create({
+        data: {
+          leadId: 'test-lead-paused',
+          messageNumber: 1,
+          queueName,
+          msgId: 'msg-paused',
+          scheduledFor: dayKeyToDate('2025-10-17')
+        }
+      });
+      await testPrisma.scheduledSlot.create({
+        data: { day: dayKeyToDate('2025-10-17'), scope: 'global', reserved: 1 }
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-paused' }
+      });
+
+      expect(emailChannel.messages).toHaveLength(0);
+      expect(updatedLead?.status).toBe('PAUSED');
+      expect(updatedLead?.messageCount).toBe(0);
+      expect(mockArchiveMessage).not.toHaveBeenCalled();
+      expect(mockSetVisibilityTimeout).toHaveBeenCalledWith(queueName, 'msg-paused', 3600);
+
+      // Still booked; resuming cancels it and gives back the slot
+      const scheduled = await testPrisma.scheduledMessage.findFirstOrThrow({ where: { msgId: 'msg-paused' } });
+      expect(scheduled.status).toBe('SCHEDULED');
+
+      const slot = await testPrisma.scheduledSlot.findFirstOrThrow({ where: { scope: 'global' } });
+      expect(slot.reserved).toBe(1);
+
+      stopWorker();
+    });
+  });
+
+  describe('Send Windows', () => {
+    const emailChannel = new MemorySinkChannel();
+
+    // Only fake the clock; the worker still needs real timers
+    const setNow = (now: string) => {
+      jest.useFakeTimers({
+        now: new Date(now),
+        doNotFake: [
+          'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate',
+          'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'
+        ]
+      });
+    };
+
+    const createWindowedLead = async (id: string) => {
+      const campaign = await testPrisma.campaign.create({
+        data: {
+          name: `business-hours-${id}`,
+          sendWindowStart: '09:00',
+          sendWindowEnd: '17:00',
+          sendDays: [1, 2, 3, 4, 5],
+          steps: { create: [{ stepNumber: 1, delayDays: 0, channel: 'EMAIL' }] }
+        }
+      });
+
+      await testPrisma.lead.create({
+        data: {
+          id,
+          name: 'Windowed User',
+          email: `${id}@example.com`,
+          phone: `555-${id.length}000`,
+          timezone: 'America/New_York',
+          campaignId: campaign.id
+        }
+      });
+    };
+
+    beforeEach(() => {
+      emailChannel.clear();
+      setDeliveryChannel('EMAIL', emailChannel);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    afterAll(() => {
+      setDeliveryChannel('EMAIL', null);
+    });
+
+    it('should hold messages until the window opens later today', async () => {
+      setNow('2025-10-20T11:00:00Z'); // Monday 07:00 in New York
+      await createWindowedLead('test-lead-early');
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-early', readCount: 1, enqueuedAt: '2025-10-20T10:00:00Z', vt: '2025-10-20T10:30:00Z', message: { leadId: 'test-lead-early', email: 'test-lead-early@example.com', messageNumber: 1, scheduledDate: '2025-10-20' }, headers: {} }
+      ]);
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(0);
+      expect(mockSetVisibilityTimeout).toHaveBeenCalledWith('test-drip-messages-2025-10-20', 'msg-early', 7200);
+      expect(mockArchiveMessage).not.toHaveBeenCalled();
+
+      stopWorker();
+    });
+
+    it('should move messages to the next send day once the window has closed', async () => {
+      setNow('2025-10-24T22:00:00Z'); // Friday 18:00 in New York
+      await createWindowedLead('test-lead-late');
+      mockSendMessage.mockResolvedValueOnce(42);
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-late', readCount: 1, enqueuedAt: '2025-10-24T10:00:00Z', vt: '2025-10-24T10:30:00Z', message: { leadId: 'test-lead-late', email: 'test-lead-late@example.com', messageNumber: 1, scheduledDate: '2025-10-24' }, headers: {} }
+      ]);
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(0);
+      expect(mockSendMessage.mock.calls[0][0]).toBe('test-drip-messages-2025-10-27');
+      expect(mockArchiveMessage).toHaveBeenCalledWith('test-drip-messages-2025-10-24', 'msg-late');
+
+      const scheduled = await testPrisma.scheduledMessage.findFirst({ where: { leadId: 'test-lead-late' } });
+      expect(scheduled).toMatchObject({ queueName: 'test-drip-messages-2025-10-27', msgId: '42', status: 'SCHEDULED' });
+
+      stopWorker();
+    });
+
+    it('should send inside the window', async () => {
+      setNow('2025-10-20T14:00:00Z'); // Monday 10:00 in New York
+      await createWindowedLead('test-lead-open');
+
+      mockReadMessagesWithPoll.mockResolvedValueOnce([
+        { msgId: 'msg-open', readCount: 1, enqueuedAt: '2025-10-20T10:00:00Z', vt: '2025-10-20T10:30:00Z', message: { leadId: 'test-lead-open', email: 'test-lead-open@example.com', messageNumber: 1, scheduledDate: '2025-10-20' }, headers: {} }
+      ]);
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emailChannel.messages).toHaveLength(1);
+      expect(mockSetVisibilityTimeout).not.toHaveBeenCalled();
+
+      stopWorker();
+    });
+  });
+
+  describe('Catch-up', () => {
+    const today = getDayKey();
+    const yesterday = addDays(today, -1);
+    const yesterdayQueue = `test-drip-messages-${yesterday}`;
+    const todayQueue = `test-drip-messages-${today}`;
+
+    const createCatchUpLead = () =>
+      testPrisma.lead.create({
+        data: {
+          id: 'test-lead-overdue',
+          name: 'Overdue User',
+          email: 'overdue@example.com',
+          phone: '555-2468',
+          maxMessages: 5,
+          messageCount: 0,
+          status: 'ACTIVE',
+          scheduledMessages: {
+            create: {
+              messageNumber: 1,
+              queueName: yesterdayQueue,
+              msgId: 'msg-overdue',
+              scheduledFor: dayKeyToDate(yesterday)
+            }
+          }
+        }
+      });
+
+    it('should drain overdue queues before today\'s queue', async () => {
+      await createCatchUpLead();
+
+      const mockMessage = {
+        leadId: 'test-lead-overdue',
+        email: 'overdue@example.com',
+        messageNumber: 1,
+        scheduledDate: yesterday
+      };
+      mockReadMessagesWithPoll.mockImplementation(async (queueName: string) =>
+        queueName === yesterdayQueue
+          ? [{ msgId: 'msg-overdue', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }]
+          : []
+      );
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(mockReadMessagesWithPoll.mock.calls[0][0]).toBe(yesterdayQueue);
+      expect(mockArchiveMessage).toHaveBeenCalledWith(yesterdayQueue, 'msg-overdue');
+
+      const updatedLead = await testPrisma.lead.findUnique({
+        where: { id: 'test-lead-overdue' }
+      });
+      expect(updatedLead?.messageCount).toBe(1);
+
+      stopWorker();
+    });
+
+    it('should only drop overdue queues once they are empty', async () => {
+      await createCatchUpLead();
+      mockGetQueueLength.mockImplementation(async (queueName: string) => (queueName === yesterdayQueue ? 1 : 0));
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(mockDropQueue).not.toHaveBeenCalledWith(yesterdayQueue);
+      expect(mockDropQueue).toHaveBeenCalledWith(`test-drip-messages-${addDays(today, -2)}`);
+
+      stopWorker();
+    });
+
+    it('should stop sending once the daily limit is reached', async () => {
+      const lead = await createCatchUpLead();
+      await testPrisma.scheduledMessage.createMany({
+        data: Array.from({ length: DAILY_MAX }, (_, index) => ({
+          leadId: lead.id,
+          messageNumber: 2,
+          queueName: todayQueue,
+          msgId: `msg-sent-${index}`,
+          scheduledFor: dayKeyToDate(today),
+          status: 'SENT' as const,
+          sentAt: new Date()
+        }))
+      });
+
+      await startWorker();
+
+      // Wait a bit for processing
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(mockReadMessagesWithPoll).not.toHaveBeenCalled();
+
+      stopWorker();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle queue read errors gracefully', async () => {
       // Mock queue read error
@@ -286,7 +954,7 @@ describe('Drip Worker Tests', () => {
 
       // Mock queue returning a message
       mockReadMessagesWithPoll.mockResolvedValueOnce([
-        ['msg-error', 1, '2025-10-17T10:00:00Z', '2025-10-17T10:30:00Z', mockMessage, {}]
+        { msgId: 'msg-error', readCount: 1, enqueuedAt: '2025-10-17T10:00:00Z', vt: '2025-10-17T10:30:00Z', message: mockMessage, headers: {} }
       ]);
 
       // Mock archive error
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { getImportFormat, parseCsvRows, parseLeadImport } from '../../lib/lead-import';
+
+describe('Lead Import Parsing Tests', () => {
+  describe('getImportFormat', () => {
+    it('should recognise CSV and NDJSON content types', () => {
+      expect(getImportFormat('text/csv')).toBe('csv');
+      expect(getImportFormat('text/csv; charset=utf-8')).toBe('csv');
+      expect(getImportFormat('application/x-ndjson')).toBe('ndjson');
+      expect(getImportFormat('application/jsonl')).toBe('ndjson');
+    });
+
+    it('should reject other content types', () => {
+      expect(getImportFormat('application/json')).toBeNull();
+      expect(getImportFormat(null)).toBeNull();
+    });
+  });
+
+  describe('parseCsvRows', () => {
+    it('should handle quoted fields with commas, quotes and newlines', () => {
+      const rows = parseCsvRows('a,"b, c","say ""hi""","multi\nline"\r\nd,e,f,g');
+
+      expect(rows).toEqual([
+        ['a', 'b, c', 'say "hi"', 'multi\nline'],
+        ['d', 'e', 'f', 'g'],
+      ]);
+    });
+
+    it('should not add an empty row for a trailing newline', () => {
+      expect(parseCsvRows('a,b\n')).toEqual([['a', 'b']]);
+    });
+  });
+
+  describe('parseLeadImport', () => {
+    it('should map CSV columns by header and number lines from the header', () => {
+      const records = parseLeadImport(
+        '\uFEFFName,Email,Phone,Notes\nJohn Doe,john@example.com,1234567890,\n\nJane Doe,jane@example.com,0987654321,VIP\n',
+        'csv'
+      );
+
+      expect(records).toEqual([
+        { line: 2, data: { name: 'John Doe', email: 'john@example.com', phone: '1234567890' } },
+        { line: 4, data: { name: 'Jane Doe', email: 'jane@example.com', phone: '0987654321', notes: 'VIP' } },
+      ]);
+    });
+
+    it('should keep empty required columns so validation reports them', () => {
+      const [record] = parseLeadImport('name,email,phone\nJohn Doe,,1234567890', 'csv');
+
+      expect(record.data).toEqual({ name: 'John Doe', email: '', phone: '1234567890' });
+    });
+
+    it('should parse NDJSON and report lines that are not objects', () => {
+      const records = parseLeadImport(
+        '{"name":"John Doe","email":"john@example.com","phone":"1234567890"}\n[1,2]\n{oops\n',
+        'ndjson'
+      );
+
+      expect(records[0]).toEqual({
+        line: 1,
+        data: { name: 'John Doe', email: 'john@example.com', phone: '1234567890' },
+      });
+      expect(records[1]).toEqual({ line: 2, data: null, parseError: 'Each line must be a JSON object' });
+      expect(records[2]).toEqual({ line: 3, data: null, parseError: 'Invalid JSON' });
+    });
+  });
+});
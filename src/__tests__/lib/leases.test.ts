@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { acquireLease, releaseLease } from '../../lib/leases';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+
+describe('Worker Lease Tests', () => {
+  const testPrisma = getTestPrisma();
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  it('should give a free lease to the first worker to ask', async () => {
+    expect(await acquireLease('cleanup', 60_000, 'worker-a')).toBe(true);
+    expect(await acquireLease('cleanup', 60_000, 'worker-b')).toBe(false);
+
+    const lease = await testPrisma.workerLease.findUniqueOrThrow({ where: { name: 'cleanup' } });
+    expect(lease.holder).toBe('worker-a');
+  });
+
+  it('should let the holder renew its lease', async () => {
+    await acquireLease('cleanup', 1000, 'worker-a');
+
+    expect(await acquireLease('cleanup', 60_000, 'worker-a')).toBe(true);
+
+    const lease = await testPrisma.workerLease.findUniqueOrThrow({ where: { name: 'cleanup' } });
+    expect(lease.expiresAt.getTime()).toBeGreaterThan(Date.now() + 30_000);
+  });
+
+  it('should hand an expired lease to another worker', async () => {
+    await acquireLease('cleanup', -1000, 'worker-a');
+
+    expect(await acquireLease('cleanup', 60_000, 'worker-b')).toBe(true);
+    expect(await acquireLease('cleanup', 60_000, 'worker-a')).toBe(false);
+  });
+
+  it('should give a lease to only one of several workers asking at once', async () => {
+    const results = await Promise.all(
+      ['worker-a', 'worker-b', 'worker-c'].map((holder) => acquireLease('cleanup', 60_000, holder))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should free a lease once its holder releases it', async () => {
+    await acquireLease('cleanup', 60_000, 'worker-a');
+
+    expect(await releaseLease('cleanup', 'worker-b')).toBe(false);
+    expect(await releaseLease('cleanup', 'worker-a')).toBe(true);
+    expect(await acquireLease('cleanup', 60_000, 'worker-b')).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { POST } from '../../app/api/leads/route';
+import { enqueueLeadScheduling, relayOutbox, relayOutboxEvent, OUTBOX_MAX_ATTEMPTS } from '../../lib/outbox';
+import { setQueueBackend, QueueMessage } from '../../lib/queue';
+import { MemoryQueueBackend } from '../../lib/queue-memory';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+import { createMockRequest, createValidLeadData } from '../setup/test-helpers';
+
+describe('Outbox Tests', () => {
+  const testPrisma = getTestPrisma();
+  let queues: MemoryQueueBackend;
+
+  const createActiveLead = () =>
+    testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        status: 'ACTIVE',
+      }
+    });
+
+  // Make an event due now, as if its retry delay had passed
+  const makeDue = (id: string) =>
+    testPrisma.outboxEvent.update({ where: { id }, data: { availableAt: new Date(Date.now() - 1000) } });
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    queues = new MemoryQueueBackend({ maxPollMs: 0 });
+    setQueueBackend(queues);
+  });
+
+  afterEach(() => {
+    setQueueBackend(null);
+  });
+
+  it('should schedule a new lead through the outbox', async () => {
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const { data } = await response.json();
+
+    const events = await testPrisma.outboxEvent.findMany({ where: { leadId: data.id } });
+    expect(events).toEqual([expect.objectContaining({ type: 'SCHEDULE_LEAD', status: 'DONE', attempts: 1 })]);
+    expect(await testPrisma.scheduledMessage.count({ where: { leadId: data.id } })).toBe(5);
+  });
+
+  it('should keep the event for a retry when scheduling fails', async () => {
+    jest.spyOn(queues, 'send').mockRejectedValueOnce(new Error('Queue unavailable'));
+
+    const response = await POST(createMockRequest(createValidLeadData()));
+    const { data } = await response.json();
+
+    expect(response.status).toBe(201);
+    const [event] = await testPrisma.outboxEvent.findMany({ where: { leadId: data.id } });
+    expect(event.status).toBe('PENDING');
+    expect(event.lastError).toBe('Queue unavailable');
+    expect(event.availableAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await relayOutbox()).toBe(0);
+
+    await makeDue(event.id);
+    expect(await relayOutbox()).toBe(1);
+
+    const scheduled = await testPrisma.scheduledMessage.findMany({ where: { leadId: data.id, status: 'SCHEDULED' } });
+    expect(scheduled).toHaveLength(5);
+  });
+
+  it('should cancel messages queued by an interrupted attempt before retrying', async () => {
+    const lead = await createActiveLead();
+    const event = await enqueueLeadScheduling(lead.id);
+
+    // Fail on the third step, after two messages were queued
+    const send = queues.send.bind(queues);
+    let sends = 0;
+    jest.spyOn(queues, 'send').mockImplementation(async (queueName: string, message: QueueMessage) => {
+      if (++sends === 3) {
+        throw new Error('Queue unavailable');
+      }
+      return send(queueName, message);
+    });
+    expect(await relayOutboxEvent(event.id)).toBe(false);
+
+    await makeDue(event.id);
+    expect(await relayOutboxEvent(event.id)).toBe(true);
+
+    const scheduled = await testPrisma.scheduledMessage.groupBy({
+      by: ['status'],
+      where: { leadId: lead.id },
+      _count: true,
+    });
+    expect(Object.fromEntries(scheduled.map((group) => [group.status, group._count]))).toEqual({
+      SCHEDULED: 5,
+      CANCELLED: 2,
+    });
+
+    const slots = await testPrisma.scheduledSlot.aggregate({ _sum: { reserved: true } });
+    expect(slots._sum.reserved).toBe(5);
+  });
+
+  it('should give up and fail the lead after the last attempt', async () => {
+    jest.spyOn(queues, 'send').mockRejectedValue(new Error('Queue unavailable'));
+    const lead = await createActiveLead();
+    const event = await enqueueLeadScheduling(lead.id);
+    await testPrisma.outboxEvent.update({ where: { id: event.id }, data: { attempts: OUTBOX_MAX_ATTEMPTS - 1 } });
+
+    await relayOutbox();
+
+    const failedEvent = await testPrisma.outboxEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(failedEvent.status).toBe('FAILED');
+
+    const failedLead = await testPrisma.lead.findUniqueOrThrow({ where: { id: lead.id } });
+    expect(failedLead.status).toBe('FAILED');
+    expect(failedLead.failureReason).toBe(
+      `Messages could not be scheduled after ${OUTBOX_MAX_ATTEMPTS} attempts: Queue unavailable`
+    );
+  });
+
+  it('should skip leads that are no longer active', async () => {
+    const lead = await createActiveLead();
+    const event = await enqueueLeadScheduling(lead.id);
+    await testPrisma.lead.update({ where: { id: lead.id }, data: { status: 'UNSUBSCRIBED' } });
+
+    expect(await relayOutbox()).toBe(1);
+
+    expect(await testPrisma.scheduledMessage.count()).toBe(0);
+    const doneEvent = await testPrisma.outboxEvent.findUniqueOrThrow({ where: { id: event.id } });
+    expect(doneEvent.status).toBe('DONE');
+  });
+
+  it('should pick up events whose claim has expired', async () => {
+    const lead = await createActiveLead();
+    const event = await enqueueLeadScheduling(lead.id);
+    await testPrisma.outboxEvent.update({
+      where: { id: event.id },
+      data: { status: 'PROCESSING', attempts: 1, availableAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await relayOutbox()).toBe(1);
+    expect(await testPrisma.scheduledMessage.count({ where: { leadId: lead.id } })).toBe(5);
+  });
+
+  it('should not relay an event another relay has claimed', async () => {
+    const lead = await createActiveLead();
+    const event = await enqueueLeadScheduling(lead.id);
+    await testPrisma.outboxEvent.update({
+      where: { id: event.id },
+      data: { status: 'PROCESSING', attempts: 1, availableAt: new Date(Date.now() + 60_000) },
+    });
+
+    expect(await relayOutboxEvent(event.id)).toBe(false);
+    expect(await testPrisma.scheduledMessage.count()).toBe(0);
+  });
+});
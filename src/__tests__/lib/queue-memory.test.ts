@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { MemoryQueueBackend } from '../../lib/queue-memory';
+import { QueueNotFoundError, QueueMessage } from '../../lib/queue';
+
+describe('MemoryQueueBackend', () => {
+  let backend: MemoryQueueBackend;
+
+  const messageFor = (leadId: string): QueueMessage => ({
+    leadId,
+    email: `${leadId}@example.com`,
+    messageNumber: 1,
+    scheduledDate: '2024-01-15'
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T10:00:00Z') });
+    backend = new MemoryQueueBackend({ maxPollMs: 0 });
+    await backend.createQueue('test-queue');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hand out increasing message ids', async () => {
+    const first = await backend.send('test-queue', messageFor('lead-1'));
+    const batch = await backend.sendBatch('test-queue', [messageFor('lead-2'), messageFor('lead-3')]);
+
+    expect(first).toBe(1);
+    expect(batch).toEqual([2, 3]);
+  });
+
+  it('should read messages in order and count reads', async () => {
+    await backend.sendBatch('test-queue', [messageFor('lead-1'), messageFor('lead-2')]);
+
+    const records = await backend.read('test-queue', 30, 5);
+
+    expect(records.map((record) => record.message.leadId)).toEqual(['lead-1', 'lead-2']);
+    expect(records[0]).toEqual({
+      msgId: '1',
+      readCount: 1,
+      enqueuedAt: '2024-01-15T10:00:00.000Z',
+      vt: '2024-01-15T10:00:30.000Z',
+      message: messageFor('lead-1'),
+      headers: null,
+    });
+  });
+
+  it('should hide read messages until their visibility timeout expires', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+    await backend.read('test-queue', 30, 1);
+
+    expect(await backend.read('test-queue', 30, 1)).toEqual([]);
+
+    jest.advanceTimersByTime(30_000);
+    const [record] = await backend.read('test-queue', 30, 1);
+
+    expect(record.readCount).toBe(2);
+  });
+
+  it('should peek at messages without reading them', async () => {
+    await backend.sendBatch('test-queue', [messageFor('lead-1'), messageFor('lead-2')]);
+    await backend.read('test-queue', 30, 1);
+
+    const records = await backend.peek('test-queue');
+
+    expect(records.map((record) => [record.message.leadId, record.readCount])).toEqual([
+      ['lead-1', 1],
+      ['lead-2', 0],
+    ]);
+    expect(await backend.read('test-queue', 30, 5)).toHaveLength(1);
+  });
+
+  it('should peek at messages after a given ID', async () => {
+    await backend.sendBatch('test-queue', [messageFor('lead-1'), messageFor('lead-2'), messageFor('lead-3')]);
+
+    const records = await backend.peek('test-queue', 1, '1');
+
+    expect(records.map((record) => record.msgId)).toEqual(['2']);
+  });
+
+  it('should let the visibility timeout be changed', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+    await backend.read('test-queue', 600, 1);
+
+    expect(await backend.setVisibilityTimeout('test-queue', '1', 0)).toBe(true);
+    expect(await backend.read('test-queue', 30, 1)).toHaveLength(1);
+    expect(await backend.setVisibilityTimeout('test-queue', '99', 0)).toBe(false);
+  });
+
+  it('should wait for messages when polling', async () => {
+    const polling = new MemoryQueueBackend({ maxPollMs: 1000, pollIntervalMs: 100 });
+    await polling.createQueue('test-queue');
+
+    const read = polling.readWithPoll('test-queue', 30, 1);
+    await polling.send('test-queue', messageFor('lead-1'));
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(await read).toHaveLength(1);
+  });
+
+  it('should move archived messages out of the queue', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+
+    expect(await backend.archive('test-queue', '1')).toBe(true);
+    expect(await backend.archive('test-queue', '1')).toBe(false);
+    expect(await backend.getQueueLength('test-queue')).toBe(0);
+    expect(backend.getArchived('test-queue').map((record) => record.msgId)).toEqual(['1']);
+  });
+
+  it('should delete messages without archiving them', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+
+    expect(await backend.delete('test-queue', '1')).toBe(true);
+    expect(backend.getArchived('test-queue')).toEqual([]);
+  });
+
+  it('should report metrics for every queue', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+    jest.advanceTimersByTime(5000);
+    await backend.send('test-queue', messageFor('lead-2'));
+    await backend.archive('test-queue', '2');
+
+    const metrics = await backend.getMetrics();
+
+    expect(metrics).toEqual([
+      expect.objectContaining({
+        queue_name: 'test-queue',
+        queue_length: 1,
+        newest_msg_age_sec: 5,
+        oldest_msg_age_sec: 5,
+        total_messages: 2,
+      }),
+    ]);
+  });
+
+  it('should report metrics for a single queue', async () => {
+    await backend.createQueue('other-queue');
+    await backend.send('test-queue', messageFor('lead-1'));
+
+    const metrics = await backend.getMetrics('test-queue');
+
+    expect(metrics).toEqual(expect.objectContaining({ queue_name: 'test-queue', queue_length: 1 }));
+    await expect(backend.getMetrics('missing-queue')).rejects.toThrow(QueueNotFoundError);
+  });
+
+  it('should purge and drop queues', async () => {
+    await backend.send('test-queue', messageFor('lead-1'));
+
+    await backend.purgeQueue('test-queue');
+    expect(await backend.getQueueLength('test-queue')).toBe(0);
+
+    expect(await backend.dropQueue('test-queue')).toBe(true);
+    expect(backend.listQueues()).toEqual([]);
+  });
+
+  it('should raise QueueNotFoundError for missing queues', async () => {
+    await expect(backend.read('missing-queue')).rejects.toThrow(QueueNotFoundError);
+    await expect(backend.send('missing-queue', messageFor('lead-1'))).rejects.toThrow('Queue missing-queue does not exist');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SqlQueueBackend } from '../../lib/queue-sql';
+import { PgmqUnavailableError, QueueNotFoundError, QueueMessage } from '../../lib/queue';
+import { Prisma } from '../../generated/prisma';
+
+const mockQueryRaw = jest.fn() as jest.MockedFunction<any>;
+const mockExecuteRaw = jest.fn() as jest.MockedFunction<any>;
+const mockQueryRawUnsafe = jest.fn() as jest.MockedFunction<any>;
+
+// Only the raw query methods are used by the backend
+const client = {
+  $queryRaw: mockQueryRaw,
+  $executeRaw: mockExecuteRaw,
+  $queryRawUnsafe: mockQueryRawUnsafe,
+} as unknown as Prisma.TransactionClient;
+
+// Rebuild the SQL text of a tagged template call
+const sqlOf = (mock: jest.MockedFunction<any>, call: number = 0): string =>
+  (mock.mock.calls[call][0] as string[]).join('?').replace(/\s+/g, ' ').trim();
+
+const valuesOf = (mock: jest.MockedFunction<any>, call: number = 0): unknown[] => mock.mock.calls[call].slice(1);
+
+describe('SqlQueueBackend', () => {
+  const backend = new SqlQueueBackend(client);
+
+  const message: QueueMessage = {
+    leadId: 'lead-123',
+    email: 'test@example.com',
+    messageNumber: 1,
+    scheduledDate: '2024-01-15'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create queues with pgmq.create', async () => {
+    mockExecuteRaw.mockResolvedValueOnce(1);
+
+    const result = await backend.createQueue('test-queue');
+
+    expect(result).toBe(true);
+    expect(sqlOf(mockExecuteRaw)).toBe('SELECT pgmq.create(?::text)');
+    expect(valuesOf(mockExecuteRaw)).toEqual(['test-queue']);
+  });
+
+  it('should send a message and return its id', async () => {
+    mockQueryRaw.mockResolvedValueOnce([{ msg_id: BigInt(42) }]);
+
+    const result = await backend.send('test-queue', message);
+
+    expect(result).toBe(42);
+    expect(sqlOf(mockQueryRaw)).toContain('pgmq.send(?::text, ?::jsonb)');
+    expect(valuesOf(mockQueryRaw)).toEqual(['test-queue', JSON.stringify(message)]);
+  });
+
+  it('should send batches as a jsonb array', async () => {
+    mockQueryRaw.mockResolvedValueOnce([{ msg_id: BigInt(1) }, { msg_id: BigInt(2) }]);
+
+    const result = await backend.sendBatch('test-queue', [message, { ...message, leadId: 'lead-456' }]);
+
+    expect(result).toEqual([1, 2]);
+    expect(sqlOf(mockQueryRaw)).toContain('pgmq.send_batch(?::text, ?::jsonb[])');
+    expect(valuesOf(mockQueryRaw)[1]).toHaveLength(2);
+  });
+
+  it('should map read rows to queue records', async () => {
+    mockQueryRaw.mockResolvedValueOnce([
+      {
+        msg_id: BigInt(7),
+        read_ct: 2,
+        enqueued_at: new Date('2024-01-15T10:00:00Z'),
+        vt: new Date('2024-01-15T10:00:30Z'),
+        message,
+        headers: null,
+      },
+    ]);
+
+    const result = await backend.read('test-queue', 30, 1);
+
+    expect(result).toEqual([
+      {
+        msgId: '7',
+        readCount: 2,
+        enqueuedAt: '2024-01-15T10:00:00.000Z',
+        vt: '2024-01-15T10:00:30.000Z',
+        message,
+        headers: null,
+      },
+    ]);
+    expect(valuesOf(mockQueryRaw)).toEqual(['test-queue', 30, 1]);
+  });
+
+  it('should peek at the queue table without reading messages', async () => {
+    mockQueryRawUnsafe.mockResolvedValueOnce([]);
+
+    await backend.peek('test-drip-messages-2024-01-15', 50);
+
+    expect(mockQueryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT * FROM pgmq."q_test-drip-messages-2024-01-15" ORDER BY msg_id LIMIT $1',
+      50
+    );
+    expect(mockQueryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should peek at messages after a given ID', async () => {
+    mockQueryRawUnsafe.mockResolvedValueOnce([]);
+
+    await backend.peek('test-queue', 50, '7');
+
+    expect(mockQueryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT * FROM pgmq."q_test-queue" WHERE msg_id > $2::bigint ORDER BY msg_id LIMIT $1',
+      50,
+      '7'
+    );
+  });
+
+  it('should report whether a message was archived', async () => {
+    mockQueryRaw.mockResolvedValueOnce([{ archived: true }]);
+
+    const result = await backend.archive('test-queue', '7');
+
+    expect(result).toBe(true);
+    expect(sqlOf(mockQueryRaw)).toContain('pgmq.archive(?::text, ?::bigint)');
+  });
+
+  it('should convert bigint metrics to numbers and the scrape time to a string', async () => {
+    mockQueryRaw.mockResolvedValueOnce([{
+      queue_name: 'test-queue',
+      queue_length: BigInt(3),
+      total_messages: BigInt(10),
+      scrape_time: new Date('2025-10-27T10:00:00Z'),
+    }]);
+
+    const metrics = await backend.getMetrics();
+
+    expect(metrics).toEqual([
+      { queue_name: 'test-queue', queue_length: 3, total_messages: 10, scrape_time: '2025-10-27T10:00:00.000Z' },
+    ]);
+  });
+
+  it('should read the metrics of a single queue with pgmq.metrics', async () => {
+    mockQueryRaw.mockResolvedValueOnce([{ queue_name: 'test-queue', queue_length: BigInt(3), total_messages: BigInt(10) }]);
+
+    const metrics = await backend.getMetrics('test-queue');
+
+    expect(metrics).toEqual({ queue_name: 'test-queue', queue_length: 3, total_messages: 10 });
+    expect(sqlOf(mockQueryRaw)).toBe('SELECT * FROM pgmq.metrics(?::text)');
+    expect(valuesOf(mockQueryRaw)).toEqual(['test-queue']);
+  });
+
+  it('should raise QueueNotFoundError for missing queue tables', async () => {
+    mockQueryRaw.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('relation "pgmq.q_missing" does not exist', {
+        code: 'P2010',
+        clientVersion: 'test',
+      })
+    );
+
+    await expect(backend.getQueueLength('missing')).rejects.toThrow(QueueNotFoundError);
+  });
+
+  it('should raise PgmqUnavailableError when the database is unreachable', async () => {
+    mockQueryRaw.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Can't reach database server", {
+        code: 'P1001',
+        clientVersion: 'test',
+      })
+    );
+
+    await expect(backend.read('test-queue')).rejects.toThrow(PgmqUnavailableError);
+  });
+});
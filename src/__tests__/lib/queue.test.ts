@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import {
   createQueue,
   sendMessage,
@@ -6,12 +6,27 @@ import {
   readMessages,
   readMessagesWithPoll,
   archiveMessage,
+  deleteMessage,
+  setVisibilityTimeout,
   getQueueMetrics,
+  getQueueLength,
   createQueueMessage,
   purgeQueue,
   dropQueue,
+  PgmqClient,
+  getQueueBackend,
+  setQueueBackend,
+  QueueBackend,
+  PgmqError,
+  PgmqUnavailableError,
+  QueueNotFoundError,
   QueueMessage
 } from '../../lib/queue';
+import { MemoryQueueBackend } from '../../lib/queue-memory';
+
+// These tests cover the REST client; fail fast, since retries are covered by the PgmqClient tests
+process.env.QUEUE_BACKEND = 'rest';
+process.env.PGMQ_RETRIES = '0';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -43,6 +58,7 @@ describe('Queue Utility Tests', () => {
           body: JSON.stringify({
             queue_name: 'test-queue',
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -53,13 +69,13 @@ describe('Queue Utility Tests', () => {
         status: 500,
       } as Response);
 
-      await expect(createQueue('test-queue')).rejects.toThrow('HTTP error! status: 500');
+      await expect(createQueue('test-queue')).rejects.toThrow(PgmqUnavailableError);
     });
 
     it('should handle network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      await expect(createQueue('test-queue')).rejects.toThrow('Network error');
+      await expect(createQueue('test-queue')).rejects.toThrow('Could not reach pgmq: Network error');
     });
   });
 
@@ -91,6 +107,7 @@ describe('Queue Utility Tests', () => {
             queue_name: 'test-queue',
             msg: message,
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -108,7 +125,7 @@ describe('Queue Utility Tests', () => {
         status: 400,
       } as Response);
 
-      await expect(sendMessage('test-queue', message)).rejects.toThrow('HTTP error! status: 400');
+      await expect(sendMessage('test-queue', message)).rejects.toThrow('pgmq send failed with status 400');
     });
   });
 
@@ -148,6 +165,7 @@ describe('Queue Utility Tests', () => {
             queue_name: 'test-queue',
             msgs: messages,
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -168,7 +186,16 @@ describe('Queue Utility Tests', () => {
 
       const result = await readMessages('test-queue', 30, 1);
 
-      expect(result).toEqual(mockMessages);
+      expect(result).toEqual([
+        {
+          msgId: '123',
+          readCount: 1,
+          enqueuedAt: '2024-01-15T10:00:00Z',
+          vt: '2024-01-15T10:30:00Z',
+          message: { leadId: 'lead-123', email: 'test@example.com', messageNumber: 1, scheduledDate: '2024-01-15' },
+          headers: null,
+        },
+      ]);
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:8080/api/v1/read',
         {
@@ -181,6 +208,7 @@ describe('Queue Utility Tests', () => {
             vt: 30,
             qty: 1,
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -205,6 +233,7 @@ describe('Queue Utility Tests', () => {
             vt: 30,
             qty: 1,
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -225,7 +254,9 @@ describe('Queue Utility Tests', () => {
 
       const result = await readMessagesWithPoll('test-queue', 30, 1);
 
-      expect(result).toEqual(mockMessages);
+      expect(result).toEqual([
+        expect.objectContaining({ msgId: '123', readCount: 1, message: expect.objectContaining({ leadId: 'lead-123' }) }),
+      ]);
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:8080/api/v1/read_with_poll',
         {
@@ -238,6 +269,7 @@ describe('Queue Utility Tests', () => {
             vt: 30,
             qty: 1,
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -264,6 +296,7 @@ describe('Queue Utility Tests', () => {
             queue_name: 'test-queue',
             msg_id: '123',
           }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -274,7 +307,91 @@ describe('Queue Utility Tests', () => {
         status: 404,
       } as Response);
 
-      await expect(archiveMessage('test-queue', '123')).rejects.toThrow('HTTP error! status: 404');
+      await expect(archiveMessage('test-queue', '123')).rejects.toThrow(QueueNotFoundError);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should delete a message successfully', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => true,
+      } as Response);
+
+      const result = await deleteMessage('test-queue', '123');
+
+      expect(result).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/api/v1/delete',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            queue_name: 'test-queue',
+            msg_id: '123',
+          }),
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should return false when the message no longer exists', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => false,
+      } as Response);
+
+      const result = await deleteMessage('test-queue', '123');
+
+      expect(result).toBe(false);
+    });
+
+    it('should handle delete message errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+      } as Response);
+
+      await expect(deleteMessage('test-queue', '123')).rejects.toThrow('Queue test-queue does not exist');
+    });
+  });
+
+  describe('setVisibilityTimeout', () => {
+    it('should set the visibility timeout', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ msg_id: 123 }],
+      } as Response);
+
+      const result = await setVisibilityTimeout('test-queue', '123', 600);
+
+      expect(result).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/api/v1/set_vt',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            queue_name: 'test-queue',
+            msg_id: '123',
+            vt: 600,
+          }),
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should handle set visibility timeout errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+      } as Response);
+
+      await expect(setVisibilityTimeout('test-queue', '123', 600)).rejects.toThrow('pgmq set_vt failed with status 500');
     });
   });
 
@@ -295,15 +412,85 @@ describe('Queue Utility Tests', () => {
       const result = await getQueueMetrics('test-queue');
 
       expect(result).toEqual(mockMetrics);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/api/v1/metrics',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            queue_name: 'test-queue',
+          }),
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should unwrap metrics returned in an array', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ queue_name: 'test-queue', queue_length: 2 }],
+      } as Response);
+
+      const result = await getQueueMetrics('test-queue');
+
+      expect(result).toEqual({ queue_name: 'test-queue', queue_length: 2 });
+    });
+
+    it('should fetch metrics for every queue from the backend when no queue is given', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ queue_name: 'test-queue', queue_length: 2 }],
+      } as Response);
+
+      await getQueueBackend().getMetrics();
+
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:8080/api/v1/metrics',
         {
           method: 'GET',
+          signal: expect.any(AbortSignal),
         }
       );
     });
   });
 
+  describe('getQueueLength', () => {
+    it('should return the length of the queue', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ queue_name: 'test-queue', queue_length: 3 }],
+      } as Response);
+
+      const result = await getQueueLength('test-queue');
+
+      expect(result).toBe(3);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/api/v1/metrics',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            queue_name: 'test-queue',
+          }),
+          signal: expect.any(AbortSignal),
+        }
+      );
+    });
+
+    it('should throw for queues that do not exist', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+      } as Response);
+
+      await expect(getQueueLength('missing-queue')).rejects.toThrow(QueueNotFoundError);
+    });
+  });
+
   describe('createQueueMessage', () => {
     it('should create a queue message with correct format', () => {
       const message = createQueueMessage(
@@ -350,7 +537,7 @@ describe('Queue Utility Tests', () => {
     it('should handle network timeouts', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Request timeout'));
 
-      await expect(createQueue('test-queue')).rejects.toThrow('Request timeout');
+      await expect(createQueue('test-queue')).rejects.toThrow(PgmqUnavailableError);
     });
   });
 
@@ -375,6 +562,7 @@ describe('Queue Utility Tests', () => {
             body: JSON.stringify({
               queue_name: 'test-queue',
             }),
+            signal: expect.any(AbortSignal),
           }
         );
       });
@@ -385,13 +573,13 @@ describe('Queue Utility Tests', () => {
           status: 404,
         });
 
-        await expect(purgeQueue('nonexistent-queue')).rejects.toThrow('HTTP error! status: 404');
+        await expect(purgeQueue('nonexistent-queue')).rejects.toThrow(QueueNotFoundError);
       });
 
       it('should handle network errors during purge', async () => {
         global.fetch = jest.fn().mockRejectedValueOnce(new Error('Network error'));
 
-        await expect(purgeQueue('test-queue')).rejects.toThrow('Network error');
+        await expect(purgeQueue('test-queue')).rejects.toThrow(PgmqUnavailableError);
       });
     });
 
@@ -415,6 +603,7 @@ describe('Queue Utility Tests', () => {
             body: JSON.stringify({
               queue_name: 'test-queue',
             }),
+            signal: expect.any(AbortSignal),
           }
         );
       });
@@ -425,14 +614,198 @@ describe('Queue Utility Tests', () => {
           status: 404,
         });
 
-        await expect(dropQueue('nonexistent-queue')).rejects.toThrow('HTTP error! status: 404');
+        await expect(dropQueue('nonexistent-queue')).rejects.toThrow(QueueNotFoundError);
       });
 
       it('should handle network errors during drop', async () => {
         global.fetch = jest.fn().mockRejectedValueOnce(new Error('Network error'));
 
-        await expect(dropQueue('test-queue')).rejects.toThrow('Network error');
+        await expect(dropQueue('test-queue')).rejects.toThrow(PgmqUnavailableError);
       });
     });
   });
+
+  describe('PgmqClient', () => {
+    const message: QueueMessage = {
+      leadId: 'lead-123',
+      email: 'test@example.com',
+      messageNumber: 1,
+      scheduledDate: '2024-01-15'
+    };
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+    });
+
+    it('should retry transient failures with backoff', async () => {
+      const client = new PgmqClient({ retries: 2, retryDelayMs: 0 });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 } as Response)
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce({ ok: true, json: async () => true } as Response);
+
+      const result = await client.archive('test-queue', '123');
+
+      expect(result).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up once the retries are used', async () => {
+      const client = new PgmqClient({ retries: 1, retryDelayMs: 0 });
+      mockFetch.mockResolvedValue({ ok: false, status: 503 } as Response);
+
+      await expect(client.read('test-queue')).rejects.toThrow('pgmq read failed with status 503');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry client errors', async () => {
+      const client = new PgmqClient({ retries: 3, retryDelayMs: 0 });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400 } as Response);
+
+      await expect(client.archive('test-queue', '123')).rejects.toThrow('pgmq archive failed with status 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry sends', async () => {
+      const client = new PgmqClient({ retries: 3, retryDelayMs: 0 });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response);
+
+      await expect(client.send('test-queue', message)).rejects.toThrow(PgmqUnavailableError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should peek by reading the visible messages and making them visible again', async () => {
+      const client = new PgmqClient();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [
+            ['1', 1, '2024-01-15T10:00:00Z', '2024-01-15T10:30:00Z', message, null],
+            ['2', 3, '2024-01-15T10:00:00Z', '2024-01-15T10:30:00Z', message, null],
+          ],
+        } as Response)
+        .mockResolvedValue({ ok: true, json: async () => [] } as Response);
+
+      const records = await client.peek('test-queue', 10, '1');
+
+      expect(records).toEqual([expect.objectContaining({ msgId: '2', readCount: 2, message })]);
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'http://localhost:8080/api/v1/read', expect.objectContaining({
+        body: JSON.stringify({ queue_name: 'test-queue', vt: 30, qty: 100 }),
+      }));
+      for (const msgId of ['1', '2']) {
+        expect(mockFetch).toHaveBeenCalledWith('http://localhost:8080/api/v1/set_vt', expect.objectContaining({
+          body: JSON.stringify({ queue_name: 'test-queue', msg_id: msgId, vt: 0 }),
+        }));
+      }
+    });
+
+    it('should keep reading until a peek has enough messages', async () => {
+      const client = new PgmqClient();
+      const rows = (from: number, count: number) =>
+        Array.from({ length: count }, (_, index) =>
+          [String(from + index), 1, '2024-01-15T10:00:00Z', '2024-01-15T10:30:00Z', message, null]
+        );
+      mockFetch.mockImplementation(async (url) => {
+        if (String(url).endsWith('/read')) {
+          const batch = mockFetch.mock.calls.filter(([calledUrl]) => String(calledUrl).endsWith('/read')).length;
+          return { ok: true, json: async () => rows((batch - 1) * 100 + 1, batch === 1 ? 100 : 50) } as Response;
+        }
+        return { ok: true, json: async () => [] } as Response;
+      });
+
+      const records = await client.peek('test-queue', 20, '90');
+
+      expect(records.map((record) => record.msgId)).toEqual(
+        Array.from({ length: 20 }, (_, index) => String(91 + index))
+      );
+      expect(mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/set_vt'))).toHaveLength(150);
+    });
+
+    it('should make the messages visible again when a peek fails part way', async () => {
+      const client = new PgmqClient();
+      const rows = Array.from({ length: 100 }, (_, index) =>
+        [String(index + 1), 1, '2024-01-15T10:00:00Z', '2024-01-15T10:30:00Z', message, null]
+      );
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => rows } as Response)
+        .mockResolvedValueOnce({ ok: false, status: 400 } as Response)
+        .mockResolvedValue({ ok: true, json: async () => [] } as Response);
+
+      await expect(client.peek('test-queue', 200)).rejects.toThrow(PgmqError);
+      expect(mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/set_vt'))).toHaveLength(100);
+    });
+
+    it('should say peeks leave out hidden messages', () => {
+      expect(new PgmqClient().peeksHiddenMessages).toBe(false);
+    });
+
+    it('should time out slow requests', async () => {
+      const client = new PgmqClient({ timeoutMs: 10, retries: 0 });
+      mockFetch.mockImplementationOnce((_url: string | URL | Request, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+        })
+      );
+
+      await expect(client.createQueue('test-queue')).rejects.toThrow('pgmq create timed out after 10ms');
+    });
+
+    it('should recognise missing queues reported as server errors', async () => {
+      const client = new PgmqClient({ retries: 3, retryDelayMs: 0 });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: async () => 'relation "pgmq.q_missing" does not exist',
+      } as Response);
+
+      const error = await client.read('missing').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(QueueNotFoundError);
+      expect((error as QueueNotFoundError).queueName).toBe('missing');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the configured base URL', async () => {
+      const client = new PgmqClient({ baseUrl: 'http://pgmq.internal/api/v1' });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] } as Response);
+
+      await client.read('test-queue');
+
+      expect(mockFetch).toHaveBeenCalledWith('http://pgmq.internal/api/v1/read', expect.anything());
+    });
+  });
+
+  describe('Queue backend selection', () => {
+    afterEach(() => {
+      setQueueBackend(null);
+      process.env.QUEUE_BACKEND = 'rest';
+    });
+
+    it('should use the REST client when configured', () => {
+      expect(getQueueBackend()).toBeInstanceOf(PgmqClient);
+    });
+
+    it('should default to the in-memory backend in test mode', () => {
+      delete process.env.QUEUE_BACKEND;
+
+      expect(getQueueBackend()).toBeInstanceOf(MemoryQueueBackend);
+    });
+
+    it('should route the queue functions through an injected backend', async () => {
+      const backend = { createQueue: jest.fn(async () => true) } as unknown as QueueBackend;
+      setQueueBackend(backend);
+
+      await createQueue('test-queue');
+
+      expect(backend.createQueue).toHaveBeenCalledWith('test-queue');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown backends', () => {
+      process.env.QUEUE_BACKEND = 'carrier-pigeon';
+
+      expect(() => getQueueBackend()).toThrow('Unknown QUEUE_BACKEND "carrier-pigeon" (expected rest, sql or memory)');
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import {
+  reserveSlot,
+  releaseSlot,
+  getReservedCount,
+  campaignScope,
+  DAILY_MAX
+} from '../../lib/quota';
+import { getTodayMessageCount } from '../../lib/scheduler';
+import { getDayKey } from '../../lib/dates';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+
+describe('Daily Quota Tests', () => {
+  const day = getDayKey();
+
+  const defaultCampaign = { id: null, dailyCap: null };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  describe('reserveSlot', () => {
+    it('should count reservations per day', async () => {
+      await expect(reserveSlot(day, defaultCampaign)).resolves.toBe(true);
+      await expect(reserveSlot(day, defaultCampaign)).resolves.toBe(true);
+
+      expect(await getReservedCount(day)).toBe(2);
+    });
+
+    it('should never exceed a cap under concurrent reservations', async () => {
+      const campaign = { id: 'campaign-1', dailyCap: 3 };
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => reserveSlot(day, campaign))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(3);
+      expect(await getReservedCount(day, campaignScope('campaign-1'))).toBe(3);
+      // Rejected campaign reservations must not leak into the global count
+      expect(await getReservedCount(day)).toBe(3);
+    });
+
+    it('should refuse reservations once DAILY_MAX is reached', async () => {
+      await Promise.all(
+        Array.from({ length: DAILY_MAX }, () => reserveSlot(day, defaultCampaign))
+      );
+
+      await expect(reserveSlot(day, defaultCampaign)).resolves.toBe(false);
+      expect(await getReservedCount(day)).toBe(DAILY_MAX);
+    });
+
+    it('should overbook when limits are not enforced', async () => {
+      const campaign = { id: 'campaign-1', dailyCap: 1 };
+
+      await reserveSlot(day, campaign);
+      await expect(reserveSlot(day, campaign, false)).resolves.toBe(true);
+
+      expect(await getReservedCount(day, campaignScope('campaign-1'))).toBe(2);
+    });
+  });
+
+  describe('releaseSlot', () => {
+    it('should free the slot for the day and campaign', async () => {
+      const campaign = { id: 'campaign-1', dailyCap: 1 };
+      await reserveSlot(day, campaign);
+
+      await releaseSlot(day, 'campaign-1');
+
+      expect(await getReservedCount(day)).toBe(0);
+      await expect(reserveSlot(day, campaign)).resolves.toBe(true);
+    });
+
+    it('should not go below zero', async () => {
+      await releaseSlot(day, null);
+
+      expect(await getReservedCount(day)).toBe(0);
+    });
+  });
+
+  describe('getTodayMessageCount', () => {
+    it('should keep counting messages sent to leads that were deleted since', async () => {
+      const testPrisma = getTestPrisma();
+      const lead = await testPrisma.lead.create({
+        data: { name: 'John Doe', email: 'john@example.com', phone: '+15551234567' },
+      });
+      await testPrisma.scheduledMessage.create({
+        data: {
+          leadId: lead.id,
+          messageNumber: 1,
+          queueName: 'drip-messages-test',
+          msgId: '1',
+          scheduledFor: new Date(),
+          status: 'SENT',
+          sentAt: new Date(),
+        },
+      });
+
+      await testPrisma.lead.delete({ where: { id: lead.id } });
+
+      expect(await getTodayMessageCount()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { consumeRateLimit, pruneRateLimitHits } from '../../lib/rate-limit';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+
+describe('Rate Limit Tests', () => {
+  const testPrisma = getTestPrisma();
+  const limit = { limit: 2, windowMs: 60 * 1000 };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow requests up to the limit and refuse the rest', async () => {
+    expect(await consumeRateLimit('test', limit)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(await consumeRateLimit('test', limit)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+
+    const refused = await consumeRateLimit('test', limit);
+
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterSeconds).toBeGreaterThan(0);
+    expect(refused.retryAfterSeconds).toBeLessThanOrEqual(60);
+    expect(await testPrisma.rateLimitHit.count({ where: { key: 'test' } })).toBe(2);
+  });
+
+  it('should count keys separately', async () => {
+    await consumeRateLimit('test', limit);
+    await consumeRateLimit('test', limit);
+
+    expect((await consumeRateLimit('other', limit)).allowed).toBe(true);
+  });
+
+  it('should allow requests again once hits leave the window', async () => {
+    await consumeRateLimit('test', limit);
+    await consumeRateLimit('test', limit);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+
+    expect((await consumeRateLimit('test', limit)).allowed).toBe(true);
+    expect(await testPrisma.rateLimitHit.count({ where: { key: 'test' } })).toBe(1);
+  });
+
+  it('should not let concurrent requests go over the limit', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => consumeRateLimit('test', limit)));
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(2);
+  });
+
+  it('should prune hits older than a window', async () => {
+    await testPrisma.rateLimitHit.create({ data: { key: 'old', createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) } });
+    await consumeRateLimit('test', limit);
+
+    expect(await pruneRateLimitHits(60 * 60 * 1000)).toBe(1);
+    expect(await testPrisma.rateLimitHit.count()).toBe(1);
+  });
+});
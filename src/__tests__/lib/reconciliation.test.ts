@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { reconcile, PEEK_PAGE_SIZE } from '../../lib/reconciliation';
+import { getQueueNameForDay, scheduleLeadMessages } from '../../lib/scheduler';
+import { getDayKey } from '../../lib/dates';
+import { getDefaultCampaign } from '../../lib/campaigns';
+import { createQueueMessage, setQueueBackend, UnsupportedQueueOperationError, type QueueBackend } from '../../lib/queue';
+import { MemoryQueueBackend } from '../../lib/queue-memory';
+import { cleanupDatabase, closeTestDatabase, getTestPrisma } from '../setup/test-db';
+
+describe('Reconciliation Tests', () => {
+  const testPrisma = getTestPrisma();
+  let queues: MemoryQueueBackend;
+
+  const createScheduledLead = async () => {
+    const lead = await testPrisma.lead.create({
+      data: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        phone: '1234567890',
+        status: 'ACTIVE',
+      }
+    });
+    await scheduleLeadMessages(lead, getDefaultCampaign());
+    return lead;
+  };
+
+  // Move the clock past the grace period for everything scheduled so far
+  const later = () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 60 * 1000);
+  };
+
+  const countQueued = async () => {
+    let total = 0;
+    for (const queueName of queues.listQueues()) {
+      total += await queues.getQueueLength(queueName);
+    }
+    return total;
+  };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+    queues = new MemoryQueueBackend({ maxPollMs: 0 });
+    setQueueBackend(queues);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setQueueBackend(null);
+  });
+
+  it('should report nothing when leads and queues agree', async () => {
+    await createScheduledLead();
+    later();
+
+    const report = await reconcile();
+
+    expect(report.contentsChecked).toBe(true);
+    expect(report.queues.length).toBeGreaterThan(0);
+    expect(report.missing).toEqual([]);
+    expect(report.orphaned).toEqual([]);
+  });
+
+  it('should report and requeue the steps of a lead whose queues were dropped', async () => {
+    const lead = await createScheduledLead();
+    queues.clear();
+    later();
+
+    const report = await reconcile();
+    expect(report.missing).toEqual([
+      expect.objectContaining({ leadId: lead.id, missingSteps: [1, 2, 3, 4, 5], requeued: false }),
+    ]);
+    expect(await countQueued()).toBe(0);
+
+    const repaired = await reconcile({ requeueMissing: true });
+    expect(repaired.missing[0].requeued).toBe(true);
+    expect(await countQueued()).toBe(5);
+    expect(await testPrisma.scheduledMessage.count({ where: { leadId: lead.id, status: 'SCHEDULED' } })).toBe(5);
+  });
+
+  it('should look at every message in queues longer than one peek', async () => {
+    // Fill today's queue so the lead's first step lands past the first page
+    const queueName = getQueueNameForDay(getDayKey());
+    await queues.createQueue(queueName);
+    await queues.sendBatch(
+      queueName,
+      Array.from({ length: PEEK_PAGE_SIZE }, (_, index) =>
+        createQueueMessage(`gone-${index}`, 'gone@example.com', 1, getDayKey())
+      )
+    );
+    const lead = await createScheduledLead();
+    later();
+
+    const report = await reconcile({ requeueMissing: true });
+
+    expect(report.missing.find((missing) => missing.leadId === lead.id)).toBeUndefined();
+    expect(await testPrisma.scheduledMessage.count({ where: { leadId: lead.id } })).toBe(5);
+  });
+
+  it('should only report steps the lead has not received yet', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.lead.update({ where: { id: lead.id }, data: { messageCount: 3 } });
+    queues.clear();
+    later();
+
+    const report = await reconcile();
+
+    expect(report.missing[0].missingSteps).toEqual([4, 5]);
+  });
+
+  it('should report and archive messages for deleted leads', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.lead.delete({ where: { id: lead.id } });
+    later();
+
+    const report = await reconcile();
+    expect(report.orphaned).toHaveLength(5);
+    expect(report.orphaned[0]).toEqual(
+      expect.objectContaining({ leadId: lead.id, reason: 'LEAD_DELETED', archived: false })
+    );
+    expect(await countQueued()).toBe(5);
+
+    const repaired = await reconcile({ archiveOrphans: true });
+    expect(repaired.orphaned.every((orphan) => orphan.archived)).toBe(true);
+    expect(await countQueued()).toBe(0);
+  });
+
+  it('should report messages the ledger no longer books', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.scheduledMessage.updateMany({
+      where: { leadId: lead.id, messageNumber: 5 },
+      data: { status: 'CANCELLED' },
+    });
+    later();
+
+    const report = await reconcile();
+
+    expect(report.orphaned).toEqual([
+      expect.objectContaining({ leadId: lead.id, messageNumber: 5, reason: 'NOT_SCHEDULED' }),
+    ]);
+    expect(report.missing).toEqual([expect.objectContaining({ leadId: lead.id, missingSteps: [5] })]);
+  });
+
+  it('should leave leads that were just scheduled alone', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.lead.delete({ where: { id: lead.id } });
+    await createScheduledLead();
+    queues.clear();
+
+    const report = await reconcile({ requeueMissing: true, archiveOrphans: true });
+
+    expect(report.missing).toEqual([]);
+    expect(report.orphaned).toEqual([]);
+  });
+
+  it('should only check which queues exist when the backend cannot list messages', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.lead.create({
+      data: { name: 'Jane Doe', email: 'jane@example.com', phone: '0987654321', status: 'ACTIVE' }
+    });
+    await testPrisma.lead.delete({ where: { id: lead.id } });
+    jest.spyOn(queues, 'peek').mockRejectedValue(new UnsupportedQueueOperationError('Not supported'));
+    later();
+
+    const report = await reconcile();
+
+    expect(report.contentsChecked).toBe(false);
+    expect(report.orphaned).toEqual([]);
+    expect(report.missing).toEqual([expect.objectContaining({ email: 'jane@example.com' })]);
+  });
+
+  it('should not compare contents when the backend only lists visible messages', async () => {
+    const lead = await createScheduledLead();
+    await testPrisma.lead.delete({ where: { id: lead.id } });
+    jest.replaceProperty<QueueBackend, 'peeksHiddenMessages'>(queues, 'peeksHiddenMessages', false);
+    later();
+
+    const report = await reconcile({ archiveOrphans: true });
+
+    expect(report.contentsChecked).toBe(false);
+    expect(report.orphaned).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  escapeHtml,
+  findTemplateVariables,
+  findUnknownVariables,
+  renderTemplateString,
+  renderTemplate,
+  renderDefaultMessage,
+  createTemplateContext
+} from '../../lib/templates';
+
+const lead = {
+  id: 'lead-123',
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '1234567890',
+  notes: 'Interested in <b>pricing</b> & demos',
+  maxMessages: 5,
+};
+
+describe('Template Rendering Tests', () => {
+  describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;'
+      );
+    });
+  });
+
+  describe('findTemplateVariables', () => {
+    it('should list each placeholder once', () => {
+      expect(findTemplateVariables('Hi {{name}}, {{ name }} - {{notes}}')).toEqual(['name', 'notes']);
+    });
+
+    it('should report unknown placeholders', () => {
+      expect(findUnknownVariables('Hi {{name}} from {{company}}')).toEqual(['company']);
+    });
+  });
+
+  describe('renderTemplateString', () => {
+    it('should interpolate values with optional whitespace', () => {
+      expect(renderTemplateString('Hi {{name}} / {{ email }}', { name: 'Jane', email: 'jane@example.com' }, false))
+        .toBe('Hi Jane / jane@example.com');
+    });
+
+    it('should render missing values as empty', () => {
+      expect(renderTemplateString('Notes: {{notes}}{{unknown}}', { notes: null }, false)).toBe('Notes: ');
+    });
+
+    it('should escape values when requested', () => {
+      expect(renderTemplateString('<p>{{notes}}</p>', { notes: '<script>alert(1)</script>' }, true))
+        .toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    });
+
+    it('should strip line breaks from values', () => {
+      expect(renderTemplateString('Hello {{name}}', { name: 'Eve\r\nBcc: attacker@example.com' }, false))
+        .toBe('Hello Eve Bcc: attacker@example.com');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should render email templates as escaped HTML', () => {
+      const rendered = renderTemplate(
+        {
+          channel: 'EMAIL',
+          subject: 'Step {{messageNumber}} for {{name}}',
+          body: '<p>You said: {{notes}}</p>',
+        },
+        createTemplateContext(lead, 3)
+      );
+
+      expect(rendered).toEqual({
+        subject: 'Step 3 for John Doe',
+        body: '<p>You said: Interested in &lt;b&gt;pricing&lt;/b&gt; &amp; demos</p>',
+        format: 'html',
+      });
+    });
+
+    it('should render SMS templates as plain text', () => {
+      const rendered = renderTemplate(
+        { channel: 'SMS', subject: null, body: 'Hi {{name}}: {{notes}}' },
+        createTemplateContext(lead, 1)
+      );
+
+      expect(rendered).toEqual({
+        subject: '',
+        body: 'Hi John Doe: Interested in <b>pricing</b> & demos',
+        format: 'text',
+      });
+    });
+  });
+
+  describe('renderDefaultMessage', () => {
+    it('should produce fallback content for steps without a template', () => {
+      const rendered = renderDefaultMessage(createTemplateContext(lead, 2));
+
+      expect(rendered.subject).toBe('Following up (2/5)');
+      expect(rendered.body).toMatch(/^Hi John Doe, this is message #2 of 5\./);
+      expect(rendered.body).toContain('/api/unsubscribe?token=lead-123.');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  getUnsubscribeUrl
+} from '../../lib/unsubscribe';
+
+describe('Unsubscribe Token Tests', () => {
+  const originalSecret = process.env.UNSUBSCRIBE_SECRET;
+
+  afterEach(() => {
+    process.env.UNSUBSCRIBE_SECRET = originalSecret;
+  });
+
+  it('should round-trip a lead ID', () => {
+    const token = createUnsubscribeToken('lead-123');
+
+    expect(token.startsWith('lead-123.')).toBe(true);
+    expect(verifyUnsubscribeToken(token)).toBe('lead-123');
+  });
+
+  it('should reject tokens signed for another lead', () => {
+    const [, signature] = createUnsubscribeToken('lead-123').split('.');
+
+    expect(verifyUnsubscribeToken(`lead-456.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyUnsubscribeToken('lead-123')).toBeNull();
+    expect(verifyUnsubscribeToken('.signature')).toBeNull();
+    expect(verifyUnsubscribeToken('lead-123.short')).toBeNull();
+  });
+
+  it('should reject tokens signed with a different secret', () => {
+    process.env.UNSUBSCRIBE_SECRET = 'first-secret';
+    const token = createUnsubscribeToken('lead-123');
+
+    process.env.UNSUBSCRIBE_SECRET = 'second-secret';
+
+    expect(verifyUnsubscribeToken(token)).toBeNull();
+  });
+
+  it('should build a link to the unsubscribe route', () => {
+    const url = new URL(getUnsubscribeUrl('lead-123'));
+
+    expect(url.pathname).toBe('/api/unsubscribe');
+    expect(verifyUnsubscribeToken(url.searchParams.get('token') ?? '')).toBe('lead-123');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { middleware } from '../middleware';
+import { createApiKey, type ApiKeyScope } from '../lib/api-keys';
+import { cleanupDatabase, closeTestDatabase } from './setup/test-db';
+import { createMockUrlRequest, expectErrorResponse } from './setup/test-helpers';
+
+describe('API Key Middleware Tests', () => {
+  const keyWith = async (...scopes: ApiKeyScope[]) => (await createApiKey('Test key', scopes)).key;
+
+  const requestWith = (url: string, method: string, headers: Record<string, string> = {}) => {
+    const request = createMockUrlRequest(url, method);
+    for (const [name, value] of Object.entries(headers)) {
+      request.headers.set(name, value);
+    }
+    return request;
+  };
+
+  // NextResponse.next() marks the request as passed on to the route
+  const expectAllowed = (response: Response) => {
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  };
+
+  beforeAll(async () => {
+    await cleanupDatabase();
+  });
+
+  afterAll(async () => {
+    await cleanupDatabase();
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupDatabase();
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  it('should leave the public form submission and unsubscribe links open', async () => {
+    expectAllowed(await middleware(requestWith('/api/public/leads', 'POST')));
+    expectAllowed(await middleware(requestWith('/api/unsubscribe?token=abc', 'GET')));
+  });
+
+  it('should reject requests without a valid key', async () => {
+    const missing = await middleware(requestWith('/api/leads', 'POST'));
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    await expectErrorResponse(missing, 401, 'Missing or invalid API key');
+
+    const invalid = await middleware(requestWith('/api/leads', 'POST', { authorization: 'Bearer hd_wrong' }));
+    await expectErrorResponse(invalid, 401, 'Missing or invalid API key');
+  });
+
+  it('should require leads:read to read leads and leads:write to change them', async () => {
+    const key = await keyWith('leads:read');
+
+    expectAllowed(await middleware(requestWith('/api/leads', 'GET', { authorization: `Bearer ${key}` })));
+    expectAllowed(await middleware(requestWith('/api/leads/lead_1/messages', 'GET', { 'x-api-key': key })));
+
+    const write = await middleware(requestWith('/api/leads/lead_1/pause', 'POST', { 'x-api-key': key }));
+    await expectErrorResponse(write, 403, 'This API key needs the leads:write scope');
+  });
+
+  it('should require admin for every other route', async () => {
+    const key = await keyWith('leads:read', 'leads:write');
+
+    const response = await middleware(requestWith('/api/campaigns', 'GET', { 'x-api-key': key }));
+    await expectErrorResponse(response, 403, 'This API key needs the admin scope');
+
+    const adminKey = await keyWith('admin');
+    expectAllowed(await middleware(requestWith('/api/campaigns', 'GET', { 'x-api-key': adminKey })));
+    expectAllowed(await middleware(requestWith('/api/leads', 'POST', { 'x-api-key': adminKey })));
+  });
+
+  it('should accept ADMIN_API_KEY as an admin key', async () => {
+    process.env.ADMIN_API_KEY = 'bootstrap-secret';
+
+    expectAllowed(
+      await middleware(requestWith('/api/api-keys', 'POST', { authorization: 'Bearer bootstrap-secret' }))
+    );
+  });
+});
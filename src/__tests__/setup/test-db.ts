@@ -1,5 +1,6 @@
 import { PrismaClient } from "../../generated/prisma";
-import { purgeQueue, dropQueue } from "../../lib/queue";
+import { purgeQueue, dropQueue, getQueueBackend } from "../../lib/queue";
+import { MemoryQueueBackend } from "../../lib/queue-memory";
 
 let prisma: PrismaClient;
 
@@ -15,10 +16,27 @@ export const cleanupDatabase = async () => {
 
   // Delete all leads in reverse order to avoid foreign key constraints
   await testPrisma.lead.deleteMany();
+  // The send ledger outlives deleted leads
+  await testPrisma.scheduledMessage.deleteMany();
+  await testPrisma.campaign.deleteMany();
+  await testPrisma.messageTemplate.deleteMany();
+  await testPrisma.suppression.deleteMany();
+  await testPrisma.scheduledSlot.deleteMany();
+  await testPrisma.workerLease.deleteMany();
+  await testPrisma.apiKey.deleteMany();
+  await testPrisma.rateLimitHit.deleteMany();
+  await testPrisma.idempotencyKey.deleteMany();
 };
 
 export const cleanupQueues = async () => {
   try {
+    // The in-memory backend knows all of its queues
+    const backend = getQueueBackend();
+    if (backend instanceof MemoryQueueBackend) {
+      backend.clear();
+      return;
+    }
+
     // Get today's date for queue names
     const today = new Date();
     const dateStr = today.toISOString().split('T')[0];
@@ -11,10 +11,24 @@ export const createMockRequest = (body: any, method: string = 'POST'): NextReque
   return request;
 };
 
+export const createMockUrlRequest = (url: string, method: string = 'GET', body?: any): NextRequest => {
+  return new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
+
+export const createRouteParams = <T extends Record<string, string>>(params: T) => ({
+  params: Promise.resolve(params),
+});
+
 export const createValidLeadData = (overrides: Partial<any> = {}) => ({
   name: 'John Doe',
   email: 'john@example.com',
-  phone: '1234567890',
+  phone: '+12025550123',
   notes: 'Test lead',
   ...overrides,
 });
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getAdminApiKey, setAdminApiKey } from "./api";
+
+export function ApiKeyForm() {
+  const [key, setKey] = useState("");
+
+  useEffect(() => {
+    setKey(getAdminApiKey());
+  }, []);
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        setAdminApiKey(key.trim());
+        // Reload so the page fetches again with the new key
+        window.location.reload();
+      }}
+      className="flex items-center gap-2"
+    >
+      <Label htmlFor="apiKey" className="label">
+        API key
+      </Label>
+      <Input
+        id="apiKey"
+        type="password"
+        value={key}
+        onChange={(event) => setKey(event.target.value)}
+        className="input w-64"
+        placeholder="hd_..."
+      />
+      <Button type="submit" className="button px-4">
+        Save
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * The admin pages call the API with a key the operator enters, kept for
+ * the browser session
+ */
+
+const STORAGE_KEY = "hyperdrip-admin-api-key";
+
+export function getAdminApiKey(): string {
+  return sessionStorage.getItem(STORAGE_KEY) ?? "";
+}
+
+export function setAdminApiKey(key: string): void {
+  if (key) {
+    sessionStorage.setItem(STORAGE_KEY, key);
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * fetch with the session's API key attached
+ */
+export function adminFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const key = getAdminApiKey();
+  if (key) headers.set("Authorization", `Bearer ${key}`);
+
+  return fetch(input, { ...init, headers });
+}
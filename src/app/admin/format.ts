@@ -0,0 +1,35 @@
+/**
+ * Display helpers shared by the admin pages
+ */
+
+/**
+ * Date and time in the browser's time zone, or a dash when missing
+ */
+export function formatDateTime(value: string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+/**
+ * Scheduled days are stored as midnight UTC, so show them as a plain date
+ */
+export function formatDay(value: string | null | undefined): string {
+  return value ? value.slice(0, 10) : "—";
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  ACTIVE: "border-green-600",
+  PAUSED: "border-yellow-500",
+  COMPLETED: "border-black",
+  FAILED: "border-red-600",
+  UNSUBSCRIBED: "border-gray-400",
+  CANCELLED: "border-gray-400",
+  SCHEDULED: "border-yellow-500",
+  SENT: "border-green-600",
+};
+
+/**
+ * Classes for a status badge
+ */
+export function statusClassName(status: string): string {
+  return `inline-block border-2 px-1 font-bold ${STATUS_COLORS[status] ?? "border-black"}`;
+}
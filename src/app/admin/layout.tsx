@@ -0,0 +1,30 @@
+import Link from "next/link";
+import { ApiKeyForm } from "./api-key-form";
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="min-h-screen bg-gray-100 p-4">
+      <div className="window max-w-6xl mx-auto p-6">
+        <h1 className="title mb-2">
+          <Link href="/admin">Hyperdrip Admin</Link>
+        </h1>
+        <nav className="mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex gap-4">
+            <Link href="/admin" className="underline">
+              Leads
+            </Link>
+            <Link href="/admin/queues" className="underline">
+              Queues
+            </Link>
+          </div>
+          <ApiKeyForm />
+        </nav>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { adminFetch } from "../../api";
+import { formatDateTime, formatDay, statusClassName } from "../../format";
+
+interface LeadDetail {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  notes: string | null;
+  status: string;
+  messageCount: number;
+  maxMessages: number;
+  lastSentAt: string | null;
+  nextScheduledFor: string | null;
+  lastDeliveryStatus: string | null;
+  lastDeliveryError: string | null;
+  failureReason: string | null;
+  timezone: string | null;
+  createdAt: string;
+  campaign: { id: string; name: string } | null;
+}
+
+interface StepMessage {
+  id: string;
+  scheduledFor: string;
+  status: string;
+  sentAt: string | null;
+  providerMessageId: string | null;
+}
+
+interface StepProgress {
+  stepNumber: number;
+  channel: string;
+  delayDays: number;
+  sent: boolean;
+  messages: StepMessage[];
+}
+
+type LeadAction = "pause" | "resume" | "cancel";
+
+const ACTIONS: { action: LeadAction; label: string; statuses: string[] }[] = [
+  { action: "pause", label: "Pause", statuses: ["ACTIVE"] },
+  { action: "resume", label: "Resume", statuses: ["PAUSED"] },
+  { action: "cancel", label: "Cancel", statuses: ["ACTIVE", "PAUSED"] },
+];
+
+/**
+ * What to show for a step's outcome: the provider's id once sent, or
+ * the last delivery error for the step due next
+ */
+function describeResult(
+  lead: LeadDetail,
+  step: StepProgress,
+  message: StepMessage
+): string {
+  if (message.status === "SENT") {
+    return message.providerMessageId
+      ? `Sent ${formatDateTime(message.sentAt)} (${message.providerMessageId})`
+      : `Sent ${formatDateTime(message.sentAt)}`;
+  }
+  if (
+    message.status === "SCHEDULED" &&
+    step.stepNumber === lead.messageCount + 1 &&
+    lead.lastDeliveryStatus === "FAILED"
+  ) {
+    return `Failed: ${lead.lastDeliveryError ?? "unknown error"}`;
+  }
+  return "—";
+}
+
+export default function AdminLeadDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [lead, setLead] = useState<LeadDetail | null>(null);
+  const [steps, setSteps] = useState<StepProgress[]>([]);
+  const [pendingAction, setPendingAction] = useState<LeadAction | null>(null);
+  const [status, setStatus] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  const loadLead = useCallback(async () => {
+    try {
+      const [leadResponse, stepsResponse] = await Promise.all([
+        adminFetch(`/api/leads/${id}`),
+        adminFetch(`/api/leads/${id}/messages`),
+      ]);
+      const [leadResult, stepsResult] = await Promise.all([
+        leadResponse.json(),
+        stepsResponse.json(),
+      ]);
+
+      if (!leadResponse.ok || !stepsResponse.ok) {
+        setStatus({
+          type: "error",
+          message:
+            leadResult.message || stepsResult.message || "Failed to load lead",
+        });
+        return;
+      }
+
+      setLead(leadResult.data);
+      setSteps(stepsResult.data.steps);
+    } catch (error) {
+      setStatus({ type: "error", message: "Network error. Please try again." });
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadLead();
+  }, [loadLead]);
+
+  const runAction = async (action: LeadAction) => {
+    if (
+      action === "cancel" &&
+      !window.confirm("Cancel this lead's remaining messages?")
+    ) {
+      return;
+    }
+
+    setPendingAction(action);
+    setStatus(null);
+
+    try {
+      const response = await adminFetch(`/api/leads/${id}/${action}`, {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      setStatus({
+        type: response.ok ? "success" : "error",
+        message: result.message,
+      });
+      await loadLead();
+    } catch (error) {
+      setStatus({ type: "error", message: "Network error. Please try again." });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link href="/admin" className="underline">
+        ← All leads
+      </Link>
+
+      {status && (
+        <div className={`${status.type} p-3 text-center`}>{status.message}</div>
+      )}
+
+      {lead && (
+        <>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+              <dt className="label">Name</dt>
+              <dd>{lead.name}</dd>
+              <dt className="label">Email</dt>
+              <dd>{lead.email}</dd>
+              <dt className="label">Phone</dt>
+              <dd>{lead.phone}</dd>
+              <dt className="label">Status</dt>
+              <dd>
+                <span className={statusClassName(lead.status)}>
+                  {lead.status}
+                </span>
+              </dd>
+              <dt className="label">Messages</dt>
+              <dd>
+                {lead.messageCount}/{lead.maxMessages}
+              </dd>
+              <dt className="label">Campaign</dt>
+              <dd>{lead.campaign?.name ?? "default"}</dd>
+              <dt className="label">Last sent</dt>
+              <dd>{formatDateTime(lead.lastSentAt)}</dd>
+              <dt className="label">Next scheduled</dt>
+              <dd>{formatDay(lead.nextScheduledFor)}</dd>
+              {lead.failureReason && (
+                <>
+                  <dt className="label">Failure</dt>
+                  <dd>{lead.failureReason}</dd>
+                </>
+              )}
+              {lead.notes && (
+                <>
+                  <dt className="label">Notes</dt>
+                  <dd>{lead.notes}</dd>
+                </>
+              )}
+            </dl>
+
+            <div className="flex gap-2">
+              {ACTIONS.filter(({ statuses }) =>
+                statuses.includes(lead.status)
+              ).map(({ action, label }) => (
+                <Button
+                  key={action}
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => runAction(action)}
+                  className="button px-4"
+                >
+                  {pendingAction === action ? `${label}...` : label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <table className="w-full border-2 border-black text-left">
+            <thead>
+              <tr className="label border-b-2 border-black">
+                <th className="p-2">Step</th>
+                <th className="p-2">Channel</th>
+                <th className="p-2">Scheduled for</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {steps.map((step) =>
+                step.messages.length === 0 ? (
+                  <tr
+                    key={step.stepNumber}
+                    className="border-b border-gray-300"
+                  >
+                    <td className="p-2">{step.stepNumber}</td>
+                    <td className="p-2">{step.channel}</td>
+                    <td className="p-2">—</td>
+                    <td className="p-2">
+                      {step.sent ? "SENT" : "NOT SCHEDULED"}
+                    </td>
+                    <td className="p-2">—</td>
+                  </tr>
+                ) : (
+                  step.messages.map((message) => (
+                    <tr key={message.id} className="border-b border-gray-300">
+                      <td className="p-2">{step.stepNumber}</td>
+                      <td className="p-2">{step.channel}</td>
+                      <td className="p-2">{formatDay(message.scheduledFor)}</td>
+                      <td className="p-2">
+                        <span className={statusClassName(message.status)}>
+                          {message.status}
+                        </span>
+                      </td>
+                      <td className="p-2">
+                        {describeResult(lead, step, message)}
+                      </td>
+                    </tr>
+                  ))
+                )
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LEAD_STATUSES } from "@/lib/validation";
+import { adminFetch } from "./api";
+import { formatDateTime, formatDay, statusClassName } from "./format";
+
+interface LeadRow {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  messageCount: number;
+  maxMessages: number;
+  lastSentAt: string | null;
+  nextScheduledFor: string | null;
+  createdAt: string;
+}
+
+interface Filters {
+  status: string;
+  email: string;
+  createdAfter: string;
+  createdBefore: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  status: "",
+  email: "",
+  createdAfter: "",
+  createdBefore: "",
+};
+
+function toSearchParams(filters: Filters, cursor?: string): URLSearchParams {
+  const params = new URLSearchParams({ limit: "50" });
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  if (cursor) params.set("cursor", cursor);
+
+  return params;
+}
+
+export default function AdminLeads() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [leads, setLeads] = useState<LeadRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadLeads = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      setError("");
+
+      try {
+        const response = await adminFetch(
+          `/api/leads?${toSearchParams(applied, cursor)}`
+        );
+        const result = await response.json();
+
+        if (!response.ok) {
+          setError(result.message || "Failed to load leads");
+          return;
+        }
+
+        setLeads((current) =>
+          cursor ? [...current, ...result.data] : result.data
+        );
+        setNextCursor(result.nextCursor);
+      } catch (error) {
+        setError("Network error. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [applied]
+  );
+
+  useEffect(() => {
+    loadLeads();
+  }, [loadLeads]);
+
+  const setFilter = (key: keyof Filters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          setApplied(filters);
+        }}
+        className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="status" className="label">
+            Status
+          </Label>
+          <select
+            id="status"
+            value={filters.status}
+            onChange={(event) => setFilter("status", event.target.value)}
+            className="input h-10 w-full px-2"
+          >
+            <option value="">All</option>
+            {LEAD_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email" className="label">
+            Email
+          </Label>
+          <Input
+            id="email"
+            value={filters.email}
+            onChange={(event) => setFilter("email", event.target.value)}
+            className="input"
+            placeholder="Contains..."
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="createdAfter" className="label">
+            Created after
+          </Label>
+          <Input
+            id="createdAfter"
+            type="date"
+            value={filters.createdAfter}
+            onChange={(event) => setFilter("createdAfter", event.target.value)}
+            className="input"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="createdBefore" className="label">
+            Created before
+          </Label>
+          <Input
+            id="createdBefore"
+            type="date"
+            value={filters.createdBefore}
+            onChange={(event) => setFilter("createdBefore", event.target.value)}
+            className="input"
+          />
+        </div>
+
+        <Button type="submit" disabled={isLoading} className="button py-3">
+          Filter
+        </Button>
+      </form>
+
+      {error && <div className="error p-3 text-center">{error}</div>}
+
+      <table className="w-full border-2 border-black text-left">
+        <thead>
+          <tr className="label border-b-2 border-black">
+            <th className="p-2">Lead</th>
+            <th className="p-2">Status</th>
+            <th className="p-2">Messages</th>
+            <th className="p-2">Last sent</th>
+            <th className="p-2">Next scheduled</th>
+            <th className="p-2">Created</th>
+          </tr>
+        </thead>
+        <tbody>
+          {leads.map((lead) => (
+            <tr key={lead.id} className="border-b border-gray-300">
+              <td className="p-2">
+                <Link href={`/admin/leads/${lead.id}`} className="underline">
+                  {lead.name}
+                </Link>
+                <div className="text-gray-600">{lead.email}</div>
+              </td>
+              <td className="p-2">
+                <span className={statusClassName(lead.status)}>
+                  {lead.status}
+                </span>
+              </td>
+              <td className="p-2">
+                {lead.messageCount}/{lead.maxMessages}
+              </td>
+              <td className="p-2">{formatDateTime(lead.lastSentAt)}</td>
+              <td className="p-2">{formatDay(lead.nextScheduledFor)}</td>
+              <td className="p-2">{formatDateTime(lead.createdAt)}</td>
+            </tr>
+          ))}
+          {leads.length === 0 && !isLoading && (
+            <tr>
+              <td colSpan={6} className="p-4 text-center">
+                No leads found
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {nextCursor && (
+        <Button
+          type="button"
+          disabled={isLoading}
+          onClick={() => loadLeads(nextCursor)}
+          className="button w-full py-3"
+        >
+          {isLoading ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
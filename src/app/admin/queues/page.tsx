@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { adminFetch } from "../api";
+import { formatDateTime } from "../format";
+
+interface CalendarDay {
+  day: string;
+  booked: number;
+  dailyMax: number;
+  available: number;
+}
+
+interface QueueSummary {
+  name: string;
+  day: string;
+  depth: number;
+  oldestMessageAgeSec: number | null;
+  totalMessages: number;
+  sent: number;
+}
+
+interface QueuedMessage {
+  msgId: string;
+  readCount: number;
+  enqueuedAt: string;
+  message: { leadId: string; email: string; messageNumber: number };
+}
+
+/**
+ * Seconds as the largest whole unit, e.g. "3h"
+ */
+function formatAge(seconds: number | null): string {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+export default function AdminQueues() {
+  const [calendar, setCalendar] = useState<CalendarDay[]>([]);
+  const [queues, setQueues] = useState<QueueSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [messages, setMessages] = useState<QueuedMessage[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [calendarResponse, queuesResponse] = await Promise.all([
+          adminFetch("/api/queues/calendar?days=30"),
+          adminFetch("/api/queues"),
+        ]);
+        const [calendarResult, queuesResult] = await Promise.all([
+          calendarResponse.json(),
+          queuesResponse.json(),
+        ]);
+
+        if (!calendarResponse.ok || !queuesResponse.ok) {
+          setError(
+            calendarResult.message ||
+              queuesResult.message ||
+              "Failed to load queues"
+          );
+          return;
+        }
+
+        setCalendar(calendarResult.data);
+        setQueues(queuesResult.data);
+      } catch (error) {
+        setError("Network error. Please try again.");
+      }
+    };
+
+    load();
+  }, []);
+
+  const showMessages = async (queueName: string) => {
+    setSelected(queueName);
+    setMessages([]);
+    setError("");
+
+    try {
+      const response = await adminFetch(`/api/queues/${queueName}/messages`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.message || "Failed to load messages");
+        return;
+      }
+
+      setMessages(result.data);
+    } catch (error) {
+      setError("Network error. Please try again.");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="error p-3 text-center">{error}</div>}
+
+      <section className="space-y-2">
+        <h2 className="label">Booked capacity, next 30 days</h2>
+        <table className="w-full border-2 border-black text-left">
+          <thead>
+            <tr className="label border-b-2 border-black">
+              <th className="p-2">Day</th>
+              <th className="p-2 w-1/2">Booked</th>
+              <th className="p-2">Available</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calendar.map((day) => (
+              <tr key={day.day} className="border-b border-gray-300">
+                <td className="p-2">{day.day}</td>
+                <td className="p-2">
+                  <div className="flex items-center gap-2">
+                    <div className="h-4 flex-1 border-2 border-black">
+                      <div
+                        className={`h-full ${day.booked >= day.dailyMax ? "bg-red-600" : "bg-black"}`}
+                        style={{
+                          width: `${Math.min(100, (day.booked / day.dailyMax) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                    <span>
+                      {day.booked}/{day.dailyMax}
+                    </span>
+                  </div>
+                </td>
+                <td className="p-2">{day.available}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="label">Date queues</h2>
+        <table className="w-full border-2 border-black text-left">
+          <thead>
+            <tr className="label border-b-2 border-black">
+              <th className="p-2">Queue</th>
+              <th className="p-2">Depth</th>
+              <th className="p-2">Oldest message</th>
+              <th className="p-2">Total queued</th>
+              <th className="p-2">Sent</th>
+            </tr>
+          </thead>
+          <tbody>
+            {queues.map((queue) => (
+              <tr key={queue.name} className="border-b border-gray-300">
+                <td className="p-2">
+                  <Button
+                    type="button"
+                    onClick={() => showMessages(queue.name)}
+                    className="underline p-0 h-auto"
+                    variant="link"
+                  >
+                    {queue.name}
+                  </Button>
+                </td>
+                <td className="p-2">{queue.depth}</td>
+                <td className="p-2">{formatAge(queue.oldestMessageAgeSec)}</td>
+                <td className="p-2">{queue.totalMessages}</td>
+                <td className="p-2">{queue.sent}</td>
+              </tr>
+            ))}
+            {queues.length === 0 && (
+              <tr>
+                <td colSpan={5} className="p-4 text-center">
+                  No date queues
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </section>
+
+      {selected && (
+        <section className="space-y-2">
+          <h2 className="label">Messages in {selected}</h2>
+          <table className="w-full border-2 border-black text-left">
+            <thead>
+              <tr className="label border-b-2 border-black">
+                <th className="p-2">Message</th>
+                <th className="p-2">Lead</th>
+                <th className="p-2">Step</th>
+                <th className="p-2">Reads</th>
+                <th className="p-2">Enqueued</th>
+              </tr>
+            </thead>
+            <tbody>
+              {messages.map((record) => (
+                <tr key={record.msgId} className="border-b border-gray-300">
+                  <td className="p-2">{record.msgId}</td>
+                  <td className="p-2">{record.message.email}</td>
+                  <td className="p-2">{record.message.messageNumber}</td>
+                  <td className="p-2">{record.readCount}</td>
+                  <td className="p-2">{formatDateTime(record.enqueuedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
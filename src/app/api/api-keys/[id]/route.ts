@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleNotFound, handleServerError } from "@/lib/api-errors";
+import { revokeApiKey } from "@/lib/api-keys";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Revoke an API key. It is kept, with revokedAt set, so it still shows
+ * up in the list.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const apiKey = await revokeApiKey(id);
+
+    if (!apiKey) {
+      return handleNotFound("API key not found");
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "API key revoked",
+      data: apiKey,
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleServerError, handleZodError } from "@/lib/api-errors";
+import { API_KEY_SCOPES, createApiKey, listApiKeys } from "@/lib/api-keys";
+
+const apiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, "At least one scope is required"),
+});
+
+/**
+ * List API keys, newest first, without their secrets
+ */
+export async function GET(): Promise<Response> {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listApiKeys(),
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+/**
+ * Create an API key. The key is only ever returned here.
+ * Body: name, scopes
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const { name, scopes } = apiKeySchema.parse(await request.json());
+    const { apiKey, key } = await createApiKey(name, scopes);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "API key created. Store it now; it won't be shown again.",
+        data: { ...apiKey, key },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
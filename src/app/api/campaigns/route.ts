@@ -0,0 +1,165 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  handleServerError,
+  handleZodError,
+  isUniqueConstraintError,
+} from "@/lib/api-errors";
+import { DEFAULT_CAMPAIGN_NAME } from "@/lib/campaigns";
+import { parseTimeOfDay } from "@/lib/dates";
+
+const campaignStepSchema = z.object({
+  delayDays: z.number().int().min(0, "Delay must be zero or more days"),
+  channel: z.enum(["EMAIL", "SMS"]).default("EMAIL"),
+  templateId: z.string().min(1).optional(),
+});
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour)");
+
+const campaignSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .refine((name) => name !== DEFAULT_CAMPAIGN_NAME, {
+        message: `"${DEFAULT_CAMPAIGN_NAME}" is reserved for the built-in campaign`,
+      }),
+    dailyCap: z
+      .number()
+      .int()
+      .min(1, "Daily cap must be at least 1")
+      .optional(),
+    sendWindowStart: timeOfDaySchema.optional(),
+    sendWindowEnd: timeOfDaySchema.optional(),
+    sendDays: z
+      .array(z.number().int().min(0).max(6))
+      .refine((days) => new Set(days).size === days.length, {
+        message: "Send days must not repeat",
+      })
+      .optional(),
+    steps: z
+      .array(campaignStepSchema)
+      .min(1, "A campaign needs at least one step")
+      .refine(
+        (steps) =>
+          steps.every(
+            (step, index) =>
+              index === 0 || step.delayDays > steps[index - 1].delayDays
+          ),
+        { message: "Step delays must be strictly increasing" }
+      ),
+  })
+  .refine(
+    (campaign) =>
+      !campaign.sendWindowStart ||
+      !campaign.sendWindowEnd ||
+      parseTimeOfDay(campaign.sendWindowStart) <
+        parseTimeOfDay(campaign.sendWindowEnd),
+    {
+      message: "Send window must start before it ends",
+      path: ["sendWindowEnd"],
+    }
+  );
+
+const campaignInclude = {
+  steps: { orderBy: { stepNumber: "asc" as const } },
+};
+
+/**
+ * The first step whose template doesn't exist, if any
+ */
+async function findMissingTemplate(
+  steps: z.infer<typeof campaignStepSchema>[]
+): Promise<{ stepNumber: number; templateId: string } | null> {
+  const templateIds = steps.flatMap((step) =>
+    step.templateId ? [step.templateId] : []
+  );
+  if (templateIds.length === 0) return null;
+
+  const templates = await prisma.messageTemplate.findMany({
+    where: { id: { in: templateIds } },
+    select: { id: true },
+  });
+  const existing = new Set(templates.map((template) => template.id));
+
+  const index = steps.findIndex(
+    (step) => step.templateId && !existing.has(step.templateId)
+  );
+  if (index === -1) return null;
+
+  return { stepNumber: index + 1, templateId: steps[index].templateId ?? "" };
+}
+
+export async function GET(): Promise<Response> {
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      include: campaignInclude,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ success: true, data: campaigns });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const body = await request.json();
+    const validatedData = campaignSchema.parse(body);
+
+    const missing = await findMissingTemplate(validatedData.steps);
+    if (missing) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Template "${missing.templateId}" for step ${missing.stepNumber} does not exist`,
+        },
+        { status: 422 }
+      );
+    }
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        name: validatedData.name,
+        dailyCap: validatedData.dailyCap,
+        sendWindowStart: validatedData.sendWindowStart,
+        sendWindowEnd: validatedData.sendWindowEnd,
+        sendDays: validatedData.sendDays,
+        steps: {
+          create: validatedData.steps.map((step, index) => ({
+            stepNumber: index + 1,
+            delayDays: step.delayDays,
+            channel: step.channel,
+            templateId: step.templateId,
+          })),
+        },
+      },
+      include: campaignInclude,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Campaign created successfully",
+        data: campaign,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "A campaign with this name already exists",
+        },
+        { status: 422 }
+      );
+    }
+    return handleServerError(error);
+  }
+}
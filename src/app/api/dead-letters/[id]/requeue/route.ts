@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  handleNotFound,
+  handleNotImplemented,
+  handleServerError,
+} from "@/lib/api-errors";
+import { DeadLetterRequeueError, requeueDeadLetter } from "@/lib/dead-letter";
+import { UnsupportedQueueOperationError } from "@/lib/queue";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Requeue a dead letter. Its lead becomes ACTIVE again and the steps it
+ * hasn't received, starting with the failed one, are rescheduled from today.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    const lead = await requeueDeadLetter(id);
+    if (!lead) return handleNotFound("Dead letter not found");
+
+    console.log(
+      `Requeued dead letter ${id} for ${lead.email} at message ${lead.messageCount + 1}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Dead letter requeued",
+      data: lead,
+    });
+  } catch (error) {
+    if (error instanceof DeadLetterRequeueError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+        },
+        { status: 422 }
+      );
+    }
+    if (error instanceof UnsupportedQueueOperationError) {
+      return handleNotImplemented(error.message);
+    }
+    return handleServerError(error);
+  }
+}
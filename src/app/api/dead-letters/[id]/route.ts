@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  handleNotFound,
+  handleNotImplemented,
+  handleServerError,
+} from "@/lib/api-errors";
+import { discardDeadLetter, getDeadLetter } from "@/lib/dead-letter";
+import { UnsupportedQueueOperationError } from "@/lib/queue";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Inspect a dead letter: the original message, the queue it came from and
+ * the error it last failed with
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    const deadLetter = await getDeadLetter(id);
+    if (!deadLetter) return handleNotFound("Dead letter not found");
+
+    return NextResponse.json({
+      success: true,
+      data: deadLetter,
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedQueueOperationError) {
+      return handleNotImplemented(error.message);
+    }
+    return handleServerError(error);
+  }
+}
+
+/**
+ * Discard a dead letter without requeueing it
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    if (!(await discardDeadLetter(id))) {
+      return handleNotFound("Dead letter not found");
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Dead letter discarded",
+      data: { id },
+    });
+  } catch (error) {
+    if (error instanceof UnsupportedQueueOperationError) {
+      return handleNotImplemented(error.message);
+    }
+    return handleServerError(error);
+  }
+}
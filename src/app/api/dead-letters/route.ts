@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  handleNotImplemented,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import { listDeadLetters, MAX_DEAD_LETTERS } from "@/lib/dead-letter";
+import { UnsupportedQueueOperationError } from "@/lib/queue";
+
+const deadLetterListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_DEAD_LETTERS).default(20),
+  after: z.string().regex(/^\d+$/, "after must be an entry ID").optional(),
+});
+
+/**
+ * List messages the worker gave up on, oldest first. Pass the ID of the
+ * last entry as `after` to get the next page.
+ * Query: limit, after
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { limit, after } = deadLetterListQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: await listDeadLetters(limit, after),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    if (error instanceof UnsupportedQueueOperationError) {
+      return handleNotImplemented(error.message);
+    }
+    return handleServerError(error);
+  }
+}
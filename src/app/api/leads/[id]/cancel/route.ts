@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleNotFound, handleServerError } from "@/lib/api-errors";
+import { cancelPendingMessages } from "@/lib/scheduler";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * End an active or paused lead's drip sequence for good. Its queued messages
+ * are cancelled; unlike deleting it, the lead and its history are kept.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    // Conditional update so a lead that just completed or unsubscribed keeps its status
+    const { count } = await prisma.lead.updateMany({
+      where: { id, status: { in: ["ACTIVE", "PAUSED"] } },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        nextScheduledFor: null,
+      },
+    });
+
+    const lead = await prisma.lead.findUnique({ where: { id } });
+    if (!lead) return handleNotFound("Lead not found");
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Only active or paused leads can be cancelled (lead is ${lead.status})`,
+        },
+        { status: 422 }
+      );
+    }
+
+    const cancelledMessages = await cancelPendingMessages(lead);
+    console.log(
+      `Cancelled drip sequence for ${lead.email} and ${cancelledMessages} queued messages`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Lead cancelled successfully",
+      data: { ...lead, cancelledMessages },
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
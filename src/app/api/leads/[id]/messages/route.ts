@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleNotFound, handleServerError } from "@/lib/api-errors";
+import { getLeadCampaign } from "@/lib/campaigns";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * A lead's progress through its campaign: each step with the days it was
+ * scheduled for, oldest first, and how each went (scheduled, sent with the
+ * provider's message id, or cancelled, e.g. when it was moved or rescheduled)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      include: {
+        scheduledMessages: {
+          orderBy: [{ messageNumber: "asc" }, { createdAt: "asc" }],
+        },
+      },
+    });
+
+    if (!lead) return handleNotFound("Lead not found");
+
+    const campaign = await getLeadCampaign(lead);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        campaign: { id: campaign.id, name: campaign.name },
+        steps: campaign.steps.map((step) => ({
+          stepNumber: step.stepNumber,
+          channel: step.channel,
+          delayDays: step.delayDays,
+          sent: step.stepNumber <= lead.messageCount,
+          messages: lead.scheduledMessages
+            .filter((scheduled) => scheduled.messageNumber === step.stepNumber)
+            .map((scheduled) => ({
+              id: scheduled.id,
+              scheduledFor: scheduled.scheduledFor,
+              status: scheduled.status,
+              sentAt: scheduled.sentAt,
+              providerMessageId: scheduled.providerMessageId,
+            })),
+        })),
+      },
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
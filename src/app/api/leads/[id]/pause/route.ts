@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleNotFound, handleServerError } from "@/lib/api-errors";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Hold a lead's drip sequence. Queued messages stay in place and are
+ * skipped by the worker until the lead is resumed.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    // Conditional update so a lead that just completed or unsubscribed isn't paused
+    const { count } = await prisma.lead.updateMany({
+      where: { id, status: "ACTIVE" },
+      data: { status: "PAUSED", pausedAt: new Date() },
+    });
+
+    const lead = await prisma.lead.findUnique({ where: { id } });
+    if (!lead) return handleNotFound("Lead not found");
+
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Only active leads can be paused (lead is ${lead.status})`,
+        },
+        { status: 422 }
+      );
+    }
+
+    console.log(`Paused drip sequence for ${lead.email}`);
+
+    return NextResponse.json({
+      success: true,
+      message: "Lead paused successfully",
+      data: lead,
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { handleNotFound, handleServerError } from "@/lib/api-errors";
+import { enqueueLeadScheduling, relayOutboxEvent } from "@/lib/outbox";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Resume a paused lead. The steps it hasn't received yet are rescheduled
+ * from today, subject to the usual daily capacity.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+
+    // Only one resume request gets to reschedule. The outbox event is
+    // written with the status change, so the rescheduling is retried if
+    // it fails now
+    const event = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.lead.updateMany({
+        where: { id, status: "PAUSED" },
+        data: { status: "ACTIVE", pausedAt: null },
+      });
+
+      return count === 1 ? enqueueLeadScheduling(id, tx) : null;
+    });
+
+    const lead = await prisma.lead.findUnique({ where: { id } });
+    if (!lead) return handleNotFound("Lead not found");
+
+    if (!event) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Only paused leads can be resumed (lead is ${lead.status})`,
+        },
+        { status: 422 }
+      );
+    }
+
+    try {
+      await relayOutboxEvent(event.id);
+    } catch (relayError) {
+      console.error("Error rescheduling messages:", relayError);
+    }
+
+    const resumed = await prisma.lead.findUnique({ where: { id } });
+    console.log(
+      `Resumed drip sequence for ${lead.email} at message ${lead.messageCount + 1}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Lead resumed successfully",
+      data: resumed,
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
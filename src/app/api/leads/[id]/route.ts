@@ -0,0 +1,111 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  handleDBError,
+  handleNotFound,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import { cancelPendingMessages } from "@/lib/scheduler";
+import { isSuppressed, SuppressedContactError } from "@/lib/unsubscribe";
+import { leadUpdateSchema } from "@/lib/validation";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      include: { campaign: { select: { id: true, name: true } } },
+    });
+
+    if (!lead) return handleNotFound("Lead not found");
+
+    return NextResponse.json({ success: true, data: lead });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const validatedData = leadUpdateSchema.parse(await request.json());
+
+    const existing = await prisma.lead.findUnique({ where: { id } });
+    if (!existing) return handleNotFound("Lead not found");
+
+    // A lead can't be moved onto a contact that has unsubscribed
+    if (
+      (validatedData.email !== undefined || validatedData.phone !== undefined) &&
+      (await isSuppressed({
+        email: validatedData.email ?? existing.email,
+        phone: validatedData.phone ?? existing.phone,
+      }))
+    ) {
+      throw new SuppressedContactError();
+    }
+
+    const lead = await prisma.lead.update({
+      where: { id },
+      data: validatedData,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Lead updated successfully",
+      data: lead,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    if (error instanceof SuppressedContactError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+        },
+        { status: 422 }
+      );
+    }
+    if (error instanceof Error) return handleDBError(error);
+    return handleServerError(error);
+  }
+}
+
+/**
+ * Delete a lead and cancel the messages still waiting in its queues
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const lead = await prisma.lead.findUnique({ where: { id } });
+
+    if (!lead) return handleNotFound("Lead not found");
+
+    const cancelledMessages = await cancelPendingMessages(lead);
+    await prisma.lead.delete({ where: { id } });
+
+    console.log(
+      `Deleted lead ${lead.email} and cancelled ${cancelledMessages} queued messages`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Lead deleted successfully",
+      data: { id, cancelledMessages },
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { handleServerError } from "@/lib/api-errors";
+import {
+  type CampaignDefinition,
+  CampaignNotFoundError,
+  resolveCampaign,
+} from "@/lib/campaigns";
+import {
+  getImportFormat,
+  MAX_IMPORT_ROWS,
+  parseLeadImport,
+} from "@/lib/lead-import";
+import { enqueueLeadBatchScheduling, relayLeadBatchEvents } from "@/lib/outbox";
+import { isSuppressed } from "@/lib/unsubscribe";
+import { leadSchema } from "@/lib/validation";
+
+type LeadInput = z.infer<typeof leadSchema>;
+
+type ImportRowStatus = "created" | "duplicate" | "invalid" | "suppressed";
+
+interface ImportRowResult {
+  line: number;
+  status: ImportRowStatus;
+  id?: string;
+  // Which unique field clashed, for duplicates
+  field?: "email" | "phone";
+  errors?: z.core.$ZodIssue[];
+}
+
+interface PendingRow {
+  line: number;
+  data: LeadInput;
+  campaign: CampaignDefinition;
+}
+
+function handleBadImport(message: string, status: number): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status }
+  );
+}
+
+function customIssue(message: string, path: string[] = []): z.core.$ZodIssue {
+  return { code: "custom", path, message, input: undefined };
+}
+
+/**
+ * Import leads in bulk from CSV (with a header row) or NDJSON.
+ * Each row is validated like POST /api/leads; rows that fail validation or
+ * clash with an existing lead are reported and skipped, the rest are created
+ * and scheduled together. Each created lead gets an outbox event, so the
+ * outbox relay retries its scheduling if it fails here.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const format = getImportFormat(request.headers.get("content-type"));
+    if (!format) {
+      return handleBadImport(
+        "Unsupported content type, send text/csv or application/x-ndjson",
+        415
+      );
+    }
+
+    const records = parseLeadImport(await request.text(), format);
+    if (records.length === 0) {
+      return handleBadImport("The import contains no leads", 400);
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return handleBadImport(
+        `Imports are limited to ${MAX_IMPORT_ROWS} leads, got ${records.length}`,
+        400
+      );
+    }
+
+    const results: ImportRowResult[] = [];
+    const pending: PendingRow[] = [];
+    const campaigns = new Map<string, Promise<CampaignDefinition>>();
+    const seenEmails = new Set<string>();
+    const seenPhones = new Set<string>();
+
+    for (const record of records) {
+      if (record.parseError) {
+        results.push({
+          line: record.line,
+          status: "invalid",
+          errors: [customIssue(record.parseError)],
+        });
+        continue;
+      }
+
+      const parsed = leadSchema.safeParse(record.data);
+      if (!parsed.success) {
+        results.push({
+          line: record.line,
+          status: "invalid",
+          errors: parsed.error.issues,
+        });
+        continue;
+      }
+
+      const data = parsed.data;
+      const campaignName = data.campaign ?? "";
+      let resolving = campaigns.get(campaignName);
+      if (!resolving) {
+        resolving = resolveCampaign(data.campaign);
+        campaigns.set(campaignName, resolving);
+      }
+
+      let campaign: CampaignDefinition;
+      try {
+        campaign = await resolving;
+      } catch (error) {
+        if (!(error instanceof CampaignNotFoundError)) throw error;
+        results.push({
+          line: record.line,
+          status: "invalid",
+          errors: [customIssue(error.message, ["campaign"])],
+        });
+        continue;
+      }
+
+      if (await isSuppressed(data)) {
+        results.push({ line: record.line, status: "suppressed" });
+        continue;
+      }
+
+      // Duplicates within the upload
+      const field = seenEmails.has(data.email)
+        ? "email"
+        : seenPhones.has(data.phone)
+          ? "phone"
+          : null;
+      if (field) {
+        results.push({ line: record.line, status: "duplicate", field });
+        continue;
+      }
+
+      seenEmails.add(data.email);
+      seenPhones.add(data.phone);
+      pending.push({ line: record.line, data, campaign });
+    }
+
+    // Duplicates of leads already in the database
+    const existing = await prisma.lead.findMany({
+      where: {
+        OR: [
+          { email: { in: pending.map((row) => row.data.email) } },
+          { phone: { in: pending.map((row) => row.data.phone) } },
+        ],
+      },
+      select: { email: true, phone: true },
+    });
+    const existingEmails = new Set(existing.map((lead) => lead.email));
+    const existingPhones = new Set(existing.map((lead) => lead.phone));
+
+    const rowsByCampaign = new Map<CampaignDefinition, PendingRow[]>();
+    for (const row of pending) {
+      const field = existingEmails.has(row.data.email)
+        ? "email"
+        : existingPhones.has(row.data.phone)
+          ? "phone"
+          : null;
+      if (field) {
+        results.push({ line: row.line, status: "duplicate", field });
+        continue;
+      }
+
+      const rows = rowsByCampaign.get(row.campaign) ?? [];
+      rows.push(row);
+      rowsByCampaign.set(row.campaign, rows);
+    }
+
+    for (const [campaign, rows] of rowsByCampaign) {
+      const { leads, events } = await prisma.$transaction(async (tx) => {
+        // skipDuplicates covers leads created since the check above
+        const leads = await tx.lead.createManyAndReturn({
+          data: rows.map(({ data }) => ({
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            notes: data.notes,
+            timezone: data.timezone,
+            campaignId: campaign.id,
+            maxMessages: campaign.steps.length,
+            messageCount: 0,
+            status: "ACTIVE",
+          })),
+          skipDuplicates: true,
+        });
+
+        const events = await enqueueLeadBatchScheduling(
+          leads.map((lead) => lead.id),
+          tx
+        );
+        return { leads, events };
+      });
+
+      const leadsByEmail = new Map(leads.map((lead) => [lead.email, lead]));
+      for (const row of rows) {
+        const lead = leadsByEmail.get(row.data.email);
+        results.push(
+          lead
+            ? { line: row.line, status: "created", id: lead.id }
+            : { line: row.line, status: "duplicate" }
+        );
+      }
+
+      // Schedule messages for the whole batch. If this fails the leads are
+      // still created, and the outbox relay retries each one
+      try {
+        const scheduled = await relayLeadBatchEvents(events, campaign);
+        console.log(
+          `Successfully scheduled messages for ${scheduled} imported leads`
+        );
+      } catch (relayError) {
+        console.error("Error scheduling imported leads:", relayError);
+      }
+    }
+
+    results.sort((a, b) => a.line - b.line);
+
+    const summary: Record<ImportRowStatus, number> = {
+      created: 0,
+      duplicate: 0,
+      invalid: 0,
+      suppressed: 0,
+    };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${summary.created} of ${records.length} leads`,
+      data: {
+        summary,
+        rows: results,
+      },
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
@@ -1,154 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { createQueue, sendMessage, createQueueMessage } from "@/lib/queue";
-
-const leadSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.email("Invalid email format"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
-  notes: z.string().optional(),
-});
-
-// Get daily max from environment variable
-const DAILY_MAX = parseInt(process.env.DAILY_MAX || "100");
-
-/**
- * Get the number of messages already sent today across all leads
- */
-async function getTodayMessageCount(): Promise<number> {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
-  const count = await prisma.lead.count({
-    where: {
-      lastSentAt: {
-        gte: today,
-        lt: tomorrow,
-      },
-    },
-  });
-
-  return count;
-}
-
-/**
- * Find the next available day with capacity for a message
- */
-async function findNextAvailableDay(startDate: Date = new Date()): Promise<Date> {
-  let currentDate = new Date(startDate);
-  currentDate.setHours(0, 0, 0, 0);
-
-  // Check up to 30 days in the future
-  for (let i = 0; i < 30; i++) {
-    const dayStart = new Date(currentDate);
-    const dayEnd = new Date(currentDate);
-    dayEnd.setDate(dayEnd.getDate() + 1);
-
-    const messageCount = await prisma.lead.count({
-      where: {
-        lastSentAt: {
-          gte: dayStart,
-          lt: dayEnd,
-        },
-      },
-    });
-
-    if (messageCount < DAILY_MAX) {
-      return currentDate;
-    }
-
-    // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-
-  // If no capacity found in 30 days, return the 30th day
-  return currentDate;
-}
-
-/**
- * Get queue name for a specific date
- * In test mode, prefix with "test-"
- */
-function getQueueNameForDate(date: Date): string {
-  const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD format
-  const queueName = `drip-messages-${dateStr}`;
-
-  // Prefix with "test-" when in test mode
-  if (process.env.NODE_ENV === 'test' || process.env.NEXT_PHASE === 'test') {
-    return `test-${queueName}`;
-  }
-
-  return queueName;
-}
-
-/**
- * Schedule lead messages across multiple days
- */
-async function scheduleLeadMessages(lead: any): Promise<void> {
-  const today = new Date();
-  const maxMessages = lead.maxMessages || 5;
-
-  // Schedule messages for each day
-  for (let messageNumber = 1; messageNumber <= maxMessages; messageNumber++) {
-    const scheduledDate = new Date(today);
-    scheduledDate.setDate(scheduledDate.getDate() + messageNumber - 1);
-
-    // Find next available day with capacity
-    const availableDate = await findNextAvailableDay(scheduledDate);
-    const queueName = getQueueNameForDate(availableDate);
-
-    // Ensure queue exists
-    await createQueue(queueName);
-
-    // Create message
-    const message = createQueueMessage(
-      lead.id,
-      lead.email,
-      messageNumber,
-      availableDate.toISOString().split('T')[0]
-    );
-
-    // Send message to queue
-    await sendMessage(queueName, message);
-
-    console.log(`Scheduled message ${messageNumber} for ${lead.email} on ${availableDate.toISOString().split('T')[0]}`);
-  }
-
-  // Update lead with next scheduled date
-  await prisma.lead.update({
-    where: { id: lead.id },
-    data: {
-      status: "ACTIVE",
-      nextScheduledFor: today,
-    },
-  });
-}
-
-function handleZodError(error: z.ZodError): Response {
-  return NextResponse.json(
-    {
-      success: false,
-      message: "Validation failed",
-      errors: error.issues,
-    },
-    { status: 400 }
-  );
-}
-
-function handleDBError(error: Error): Response {
-  let message = "There was an error saving this data";
-
-  if (error.message.includes("email")) {
-    if (error.message.includes("Unique constraint"))
-      message = "The email address is already in use.";
-  } else if (error.message.includes("phone")) {
-    if (error.message.includes("Unique constraint"))
-      message = "The phone number is already in use";
-  }
-
+import {
+  handleDBError,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import {
+  CampaignNotFoundError,
+  getLeadCampaign,
+  resolveCampaign,
+} from "@/lib/campaigns";
+import {
+  ConflictingLeadsError,
+  findDuplicateLead,
+  getDuplicateLeadMode,
+  mergeDuplicateLead,
+} from "@/lib/duplicate-leads";
+import { withIdempotency } from "@/lib/idempotency";
+import { enqueueLeadScheduling, relayOutboxEvent } from "@/lib/outbox";
+import { PUBLIC_SUBMISSION_HEADER } from "@/lib/submission-guard";
+import { isSuppressed, SuppressedContactError } from "@/lib/unsubscribe";
+import { leadListQuerySchema, leadSchema } from "@/lib/validation";
+import type { Lead, OutboxEvent, Prisma } from "@/generated/prisma";
+
+function handleUnprocessable({ message }: Error): Response {
   return NextResponse.json(
     {
       success: false,
@@ -171,6 +47,12 @@ function handleTeapot({ message }: Error): Response {
 function handleError(error: z.ZodError | Error): Response {
   console.error("Error processing lead:", error);
   if (error instanceof z.ZodError) return handleZodError(error);
+  if (
+    error instanceof CampaignNotFoundError ||
+    error instanceof SuppressedContactError ||
+    error instanceof ConflictingLeadsError
+  )
+    return handleUnprocessable(error);
   if (error instanceof Error) {
     if (error.message === "I'm a teapot. No coffee for you!")
       return handleTeapot(error);
@@ -186,9 +68,45 @@ function handleError(error: z.ZodError | Error): Response {
   );
 }
 
-export async function POST(request: NextRequest): Promise<Response> {
+/**
+ * Schedule a lead's messages now. If this fails the lead is still saved;
+ * the worker's outbox relay retries the scheduling.
+ */
+async function scheduleNow(lead: Lead, event: OutboxEvent): Promise<void> {
+  try {
+    if (await relayOutboxEvent(event.id)) {
+      console.log(`Successfully scheduled ${lead.maxMessages} messages for ${lead.email}`);
+    }
+  } catch (relayError) {
+    console.error("Error scheduling messages:", relayError);
+  }
+}
+
+function leadData(lead: Lead, campaignName: string) {
+  return {
+    id: lead.id,
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    notes: lead.notes,
+    timezone: lead.timezone,
+    maxMessages: lead.maxMessages,
+    campaign: campaignName,
+    status: lead.status,
+    createdAt: lead.createdAt,
+  };
+}
+
+/**
+ * Create a lead from a request body and schedule its messages. With
+ * DUPLICATE_LEADS=merge, a submission matching an existing lead updates
+ * that lead instead.
+ * @param isPublic - Whether the submission came through the public contact
+ * form, without an API key
+ */
+async function createLead(text: string, isPublic: boolean): Promise<Response> {
   try {
-    const body = await request.json();
+    const body = JSON.parse(text);
 
     // Validate the request body
     const validatedData = leadSchema.parse(body);
@@ -197,45 +115,74 @@ export async function POST(request: NextRequest): Promise<Response> {
       throw new Error("I'm a teapot. No coffee for you!");
     }
 
-    // Save to database
-    const lead = await prisma.lead.create({
-      data: {
-        name: validatedData.name,
-        email: validatedData.email,
-        phone: validatedData.phone,
-        notes: validatedData.notes,
-        maxMessages: 5, // Default to 5 messages
-        messageCount: 0,
-        status: "ACTIVE",
-      },
+    if (await isSuppressed(validatedData)) {
+      throw new SuppressedContactError();
+    }
+
+    const campaign = await resolveCampaign(validatedData.campaign);
+
+    if (getDuplicateLeadMode() === "merge") {
+      const existing = await findDuplicateLead(validatedData);
+      if (existing) {
+        // Without a campaign in the submission, a re-enrolled lead keeps its own
+        const { lead, reenrolled, event } = await mergeDuplicateLead(
+          existing,
+          validatedData,
+          validatedData.campaign ? campaign : null,
+          !isPublic
+        );
+        console.log("Existing lead updated:", lead);
+
+        if (event) {
+          await scheduleNow(lead, event);
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: reenrolled
+            ? "Existing lead re-enrolled"
+            : "Existing lead updated",
+          existingLead: true,
+          reenrolled,
+          // The stored details aren't shown to someone without an API key
+          data: isPublic
+            ? { id: lead.id, status: lead.status }
+            : leadData(lead, (await getLeadCampaign(lead)).name),
+        });
+      }
+    }
+
+    // Save to database, together with the outbox event that schedules its messages
+    const { lead, event } = await prisma.$transaction(async (tx) => {
+      const lead = await tx.lead.create({
+        data: {
+          name: validatedData.name,
+          email: validatedData.email,
+          phone: validatedData.phone,
+          notes: validatedData.notes,
+          timezone: validatedData.timezone,
+          campaignId: campaign.id,
+          maxMessages: campaign.steps.length,
+          messageCount: 0,
+          status: "ACTIVE",
+        },
+      });
+
+      return { lead, event: await enqueueLeadScheduling(lead.id, tx) };
     });
 
     console.log("New lead saved to database:", lead);
 
     // Schedule messages across multiple days
-    try {
-      await scheduleLeadMessages(lead);
-      console.log(`Successfully scheduled ${lead.maxMessages} messages for ${lead.email}`);
-    } catch (scheduleError) {
-      console.error("Error scheduling messages:", scheduleError);
-      // Don't fail the lead creation if scheduling fails
-      // The lead is still created and can be processed later
-    }
+    await scheduleNow(lead, event);
 
     return NextResponse.json(
       {
         success: true,
         message: "Lead submitted successfully",
-        data: {
-          id: lead.id,
-          name: lead.name,
-          email: lead.email,
-          phone: lead.phone,
-          notes: lead.notes,
-          maxMessages: lead.maxMessages,
-          status: lead.status,
-          createdAt: lead.createdAt,
-        },
+        existingLead: false,
+        reenrolled: false,
+        data: leadData(lead, campaign.name),
       },
       { status: 201 }
     );
@@ -243,3 +190,58 @@ export async function POST(request: NextRequest): Promise<Response> {
     return handleError(error);
   }
 }
+
+/**
+ * Create a lead. Requests with an Idempotency-Key header are handled once;
+ * retries with the same key and body get the first response back.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const isPublic = request.headers.has(PUBLIC_SUBMISSION_HEADER);
+    return await withIdempotency(request, (text) => createLead(text, isPublic));
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+/**
+ * List leads, newest first, with cursor pagination
+ * Query: cursor, limit, status, createdAfter, createdBefore, email (partial match)
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const query = leadListQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const where: Prisma.LeadWhereInput = {
+      status: query.status,
+      createdAt: {
+        gte: query.createdAfter,
+        lte: query.createdBefore,
+      },
+      email: query.email
+        ? { contains: query.email, mode: "insensitive" }
+        : undefined,
+    };
+
+    const leads = await prisma.lead.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = leads.length > query.limit;
+    const page = hasMore ? leads.slice(0, query.limit) : leads;
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { POST as createLead } from "@/app/api/leads/route";
+import { handleServerError } from "@/lib/api-errors";
+import { RateLimitedError } from "@/lib/rate-limit";
+import {
+  BotSubmissionError,
+  checkForBot,
+  enforceEmailLimit,
+  enforceIpLimit,
+  getClientIp,
+  HONEYPOT_FIELD,
+  PUBLIC_SUBMISSION_HEADER,
+  STARTED_AT_FIELD,
+} from "@/lib/submission-guard";
+
+function handleRateLimited({
+  message,
+  retryAfterSeconds,
+}: RateLimitedError): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+function handleUnprocessable({ message }: Error): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 422 }
+  );
+}
+
+function handleError(error: unknown): Response {
+  if (error instanceof RateLimitedError) return handleRateLimited(error);
+  if (error instanceof BotSubmissionError) return handleUnprocessable(error);
+  return handleServerError(error);
+}
+
+/**
+ * The request again with a different body, for POST /api/leads, marked as
+ * a public submission whatever headers the client sent
+ */
+function forward(request: NextRequest, body: string): NextRequest {
+  const headers = new Headers(request.headers);
+  headers.set(PUBLIC_SUBMISSION_HEADER, "true");
+
+  return new NextRequest(request.url, {
+    method: "POST",
+    headers,
+    body,
+  });
+}
+
+/**
+ * Lead submissions from the public contact form. Rate limited per IP and
+ * per email and screened for bots, then handled like POST /api/leads,
+ * on a path the API key middleware leaves open.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const text = await request.text();
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = null;
+    }
+
+    await enforceIpLimit(getClientIp(request.headers));
+
+    // Leave malformed bodies to POST /api/leads to reject
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      return createLead(forward(request, text));
+    }
+
+    const {
+      [HONEYPOT_FIELD]: _honeypot,
+      [STARTED_AT_FIELD]: _startedAt,
+      ...lead
+    } = body as Record<string, unknown>;
+
+    checkForBot(body as Record<string, unknown>);
+    if (typeof lead.email === "string") {
+      await enforceEmailLimit(lead.email);
+    }
+
+    return createLead(forward(request, JSON.stringify(lead)));
+  } catch (error) {
+    return handleError(error);
+  }
+}
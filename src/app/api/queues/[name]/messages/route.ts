@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  handleNotFound,
+  handleNotImplemented,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import {
+  peekMessages,
+  QueueNotFoundError,
+  UnsupportedQueueOperationError,
+} from "@/lib/queue";
+import { getQueueDay, MAX_PEEK_MESSAGES } from "@/lib/queue-inspection";
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+const peekQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PEEK_MESSAGES).default(100),
+});
+
+/**
+ * List the messages in a date queue without reading them, so the worker
+ * still sees them as they were
+ * Query: limit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  try {
+    const { name } = await params;
+    const { limit } = peekQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (getQueueDay(name) === null) {
+      return handleNotFound("Queue not found");
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await peekMessages(name, limit),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    if (error instanceof QueueNotFoundError) {
+      return handleNotFound("Queue not found");
+    }
+    if (error instanceof UnsupportedQueueOperationError) {
+      return handleNotImplemented(error.message);
+    }
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleServerError, handleZodError } from "@/lib/api-errors";
+import { getCapacityCalendar, MAX_CALENDAR_DAYS } from "@/lib/queue-inspection";
+
+const calendarQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_CALENDAR_DAYS).default(30),
+});
+
+/**
+ * Booked capacity per day against DAILY_MAX, starting today
+ * Query: days
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { days } = calendarQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: await getCapacityCalendar(days),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { handleServerError } from "@/lib/api-errors";
+import { listQueueSummaries } from "@/lib/queue-inspection";
+
+/**
+ * List the date queues with their depth, oldest message age and sends
+ */
+export async function GET(): Promise<Response> {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await listQueueSummaries(),
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
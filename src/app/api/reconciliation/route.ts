@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleServerError, handleZodError } from "@/lib/api-errors";
+import { reconcile } from "@/lib/reconciliation";
+
+const reconcileSchema = z.object({
+  requeueMissing: z.boolean().default(false),
+  archiveOrphans: z.boolean().default(false),
+});
+
+/**
+ * Report leads with missing queue messages and queued messages no lead is
+ * waiting for, without changing anything
+ */
+export async function GET(): Promise<Response> {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await reconcile(),
+    });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+/**
+ * Reconcile and repair what was found
+ * Body: requeueMissing, archiveOrphans
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const options = reconcileSchema.parse(await request.json());
+
+    return NextResponse.json({
+      success: true,
+      data: await reconcile(options),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  handleNotFound,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import { createTemplateContext, renderTemplate } from "@/lib/templates";
+
+const previewSchema = z.object({
+  leadId: z.string().min(1, "Lead ID is required"),
+});
+
+/**
+ * Render a template against a lead without sending anything
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  try {
+    const { id } = await params;
+    const { leadId } = previewSchema.parse(await request.json());
+
+    const template = await prisma.messageTemplate.findUnique({
+      where: { id },
+    });
+    if (!template) return handleNotFound("Template not found");
+
+    const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+    if (!lead) return handleNotFound("Lead not found");
+
+    const rendered = renderTemplate(
+      template,
+      createTemplateContext(lead, template.stepNumber)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        templateId: template.id,
+        leadId: lead.id,
+        channel: template.channel,
+        ...rendered,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  handleServerError,
+  handleZodError,
+  isUniqueConstraintError,
+} from "@/lib/api-errors";
+import { findUnknownVariables, TEMPLATE_VARIABLES } from "@/lib/templates";
+
+const knownVariables = (source: string | undefined) =>
+  !source || findUnknownVariables(source).length === 0;
+
+const unknownVariablesMessage = `Only these placeholders are allowed: ${TEMPLATE_VARIABLES.join(", ")}`;
+
+const templateSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  stepNumber: z.number().int().min(1, "Step number must be at least 1"),
+  channel: z.enum(["EMAIL", "SMS"]).default("EMAIL"),
+  subject: z
+    .string()
+    .optional()
+    .refine(knownVariables, unknownVariablesMessage),
+  body: z
+    .string()
+    .min(1, "Body is required")
+    .refine(knownVariables, unknownVariablesMessage),
+});
+
+export async function GET(): Promise<Response> {
+  try {
+    const templates = await prisma.messageTemplate.findMany({
+      orderBy: [{ stepNumber: "asc" }, { channel: "asc" }],
+    });
+
+    return NextResponse.json({ success: true, data: templates });
+  } catch (error) {
+    return handleServerError(error);
+  }
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const body = await request.json();
+    const validatedData = templateSchema.parse(body);
+
+    const template = await prisma.messageTemplate.create({
+      data: validatedData,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Template created successfully",
+        data: template,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "A template already exists for this step and channel",
+        },
+        { status: 422 }
+      );
+    }
+    return handleServerError(error);
+  }
+}
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  handleNotFound,
+  handleServerError,
+  handleZodError,
+} from "@/lib/api-errors";
+import { unsubscribeLead, verifyUnsubscribeToken } from "@/lib/unsubscribe";
+
+const unsubscribeSchema = z.object({
+  token: z.string().min(1, "Unsubscribe token is required"),
+});
+
+/**
+ * Read the token from the query string (RFC 8058 one-click posts) or from
+ * a JSON body (the confirmation page)
+ */
+async function readToken(request: NextRequest): Promise<string | undefined> {
+  const fromQuery = request.nextUrl.searchParams.get("token");
+  if (fromQuery) return fromQuery;
+
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    // A malformed body has no token, and fails validation like a missing one
+    try {
+      const body = await request.json();
+      return body?.token;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+async function handleUnsubscribe(
+  request: NextRequest,
+  reason: string
+): Promise<Response> {
+  try {
+    const { token } = unsubscribeSchema.parse({
+      token: await readToken(request),
+    });
+
+    const leadId = verifyUnsubscribeToken(token);
+    if (!leadId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Invalid unsubscribe link",
+        },
+        { status: 400 }
+      );
+    }
+
+    const lead = await unsubscribeLead(leadId, reason);
+    if (!lead) return handleNotFound("Lead not found");
+
+    return NextResponse.json({
+      success: true,
+      message: "You have been unsubscribed",
+      data: { id: lead.id, status: lead.status },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return handleZodError(error);
+    return handleServerError(error);
+  }
+}
+
+/**
+ * Unsubscribe link target. Only shows the confirmation page: mail scanners
+ * fetch links in messages, so opening the link must not opt anyone out.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const page = new URL("/unsubscribe", request.url);
+  page.search = request.nextUrl.search;
+  return NextResponse.redirect(page, 303);
+}
+
+/**
+ * Unsubscribe: one-click (RFC 8058) posts from mail clients, which send a
+ * List-Unsubscribe=One-Click form, or the confirmation page
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  const oneClick = request.headers
+    .get("content-type")
+    ?.includes("application/x-www-form-urlencoded");
+
+  return handleUnsubscribe(
+    request,
+    oneClick ? "one-click unsubscribe" : "unsubscribe link"
+  );
+}
@@ -1,22 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import type { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { leadFormSchema } from "@/lib/validation";
 
-const formSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.email("Invalid email format"),
-  phone: z.string().min(10, "Phone number must be at least 10 digits"),
-  notes: z.string().optional(),
-});
-
-type FormData = z.infer<typeof formSchema>;
+type FormData = z.infer<typeof leadFormSchema>;
 
 export default function Home() {
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -24,6 +18,13 @@ export default function Home() {
     "idle" | "success" | "error"
   >("idle");
   const [submitMessage, setSubmitMessage] = useState("");
+  // Bot checks: a field people can't see, and when the form was opened
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const startedAtRef = useRef(0);
+
+  useEffect(() => {
+    startedAtRef.current = Date.now();
+  }, []);
 
   const {
     register,
@@ -31,7 +32,7 @@ export default function Home() {
     formState: { errors },
     reset,
   } = useForm<FormData>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(leadFormSchema),
   });
 
   const onSubmit = async (data: FormData) => {
@@ -39,12 +40,16 @@ export default function Home() {
     setSubmitStatus("idle");
 
     try {
-      const response = await fetch("/api/leads", {
+      const response = await fetch("/api/public/leads", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          website: honeypotRef.current?.value ?? "",
+          formStartedAt: startedAtRef.current,
+        }),
       });
 
       const result = await response.json();
@@ -53,6 +58,7 @@ export default function Home() {
         setSubmitStatus("success");
         setSubmitMessage("Lead submitted successfully!");
         reset();
+        startedAtRef.current = Date.now();
       } else {
         setSubmitStatus("error");
         setSubmitMessage(result.message || "Failed to submit lead");
@@ -118,7 +124,7 @@ export default function Home() {
               required
               {...register("phone")}
               className="input"
-              placeholder="Enter your phone number"
+              placeholder="e.g. (202) 555-0123 or +44 20 7946 0958"
             />
             {errors.phone && (
               <p className="text-red-600 text-xs font-bold">
@@ -140,6 +146,19 @@ export default function Home() {
             />
           </div>
 
+          {/* Honeypot: hidden from people, so only bots fill it in */}
+          <div aria-hidden="true" className="absolute -left-[10000px]">
+            <label htmlFor="website">Website</label>
+            <input
+              id="website"
+              name="website"
+              type="text"
+              tabIndex={-1}
+              autoComplete="off"
+              ref={honeypotRef}
+            />
+          </div>
+
           {submitStatus === "success" && (
             <div className="success p-3 text-center">{submitMessage}</div>
           )}
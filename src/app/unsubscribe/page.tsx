@@ -0,0 +1,25 @@
+import { UnsubscribeForm } from "./unsubscribe-form";
+
+type PageProps = { searchParams: Promise<{ token?: string | string[] }> };
+
+/**
+ * Where unsubscribe links land. Nothing changes until the recipient
+ * confirms, so links fetched by mail scanners don't opt anyone out.
+ */
+export default async function UnsubscribePage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="window max-w-md w-full p-6">
+        <h1 className="title mb-6">Unsubscribe</h1>
+
+        {typeof token === "string" && token ? (
+          <UnsubscribeForm token={token} />
+        ) : (
+          <div className="error p-3 text-center">Invalid unsubscribe link</div>
+        )}
+      </div>
+    </div>
+  );
+}
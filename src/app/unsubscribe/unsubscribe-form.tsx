@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export function UnsubscribeForm({ token }: { token: string }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<"idle" | "success" | "error">("idle");
+  const [message, setMessage] = useState("");
+
+  const unsubscribe = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/unsubscribe", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setStatus("success");
+        setMessage(result.message);
+      } else {
+        setStatus("error");
+        setMessage(result.message || "Failed to unsubscribe");
+      }
+    } catch {
+      setStatus("error");
+      setMessage("Network error. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (status === "success") {
+    return <div className="success p-3 text-center">{message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p>Stop receiving messages from us? You won't be contacted again.</p>
+
+      {status === "error" && (
+        <div className="error p-3 text-center">{message}</div>
+      )}
+
+      <Button
+        type="button"
+        onClick={unsubscribe}
+        disabled={isSubmitting}
+        className="button w-full py-3"
+      >
+        {isSubmitting ? "Unsubscribing..." : "Unsubscribe"}
+      </Button>
+    </div>
+  );
+}
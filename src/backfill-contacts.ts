@@ -0,0 +1,29 @@
+/**
+ * Normalize contact details saved before emails and phone numbers were
+ * normalized: `npm run backfill:contacts`. Run it once after upgrading,
+ * with the same NEXT_PUBLIC_DEFAULT_PHONE_REGION as the app.
+ */
+
+import 'dotenv/config';
+import { backfillContacts } from './lib/contact-backfill';
+import { prisma } from './lib/prisma';
+
+backfillContacts()
+  .then((report) => {
+    console.log(
+      `Updated ${report.leadsUpdated} leads and ${report.suppressionsUpdated} suppressions, ` +
+        `merged ${report.suppressionsMerged} duplicate suppressions`
+    );
+
+    for (const { leadId, field, value, otherLeadId } of report.collisions) {
+      console.warn(`Lead ${leadId} left as it was: its ${field} normalizes to ${value}, which lead ${otherLeadId} has`);
+    }
+    for (const { table, id, value } of report.unreadablePhones) {
+      console.warn(`Phone number ${value} in ${table} ${id} isn't a valid number and was left as it was`);
+    }
+  })
+  .catch((error) => {
+    console.error('Contact backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -131,6 +131,119 @@ exports.Prisma.LeadScalarFieldEnum = {
   lastSentAt: 'lastSentAt',
   nextScheduledFor: 'nextScheduledFor',
   status: 'status',
+  lastProviderMessageId: 'lastProviderMessageId',
+  lastDeliveryStatus: 'lastDeliveryStatus',
+  lastDeliveryError: 'lastDeliveryError',
+  failureReason: 'failureReason',
+  unsubscribedAt: 'unsubscribedAt',
+  pausedAt: 'pausedAt',
+  cancelledAt: 'cancelledAt',
+  timezone: 'timezone',
+  campaignId: 'campaignId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MessageTemplateScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  stepNumber: 'stepNumber',
+  channel: 'channel',
+  subject: 'subject',
+  body: 'body',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CampaignScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  dailyCap: 'dailyCap',
+  sendWindowStart: 'sendWindowStart',
+  sendWindowEnd: 'sendWindowEnd',
+  sendDays: 'sendDays',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CampaignStepScalarFieldEnum = {
+  id: 'id',
+  campaignId: 'campaignId',
+  stepNumber: 'stepNumber',
+  delayDays: 'delayDays',
+  channel: 'channel',
+  templateId: 'templateId'
+};
+
+exports.Prisma.ScheduledMessageScalarFieldEnum = {
+  id: 'id',
+  leadId: 'leadId',
+  messageNumber: 'messageNumber',
+  queueName: 'queueName',
+  msgId: 'msgId',
+  scheduledFor: 'scheduledFor',
+  status: 'status',
+  sentAt: 'sentAt',
+  sendStartedAt: 'sendStartedAt',
+  providerMessageId: 'providerMessageId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OutboxEventScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  leadId: 'leadId',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  availableAt: 'availableAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WorkerLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ApiKeyScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  prefix: 'prefix',
+  keyHash: 'keyHash',
+  scopes: 'scopes',
+  lastUsedAt: 'lastUsedAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RateLimitHitScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.IdempotencyKeyScalarFieldEnum = {
+  scope: 'scope',
+  key: 'key',
+  requestHash: 'requestHash',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.ScheduledSlotScalarFieldEnum = {
+  day: 'day',
+  scope: 'scope',
+  reserved: 'reserved'
+};
+
+exports.Prisma.SuppressionScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  value: 'value',
+  reason: 'reason',
   createdAt: 'createdAt'
 };
 
@@ -139,6 +252,11 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -148,14 +266,66 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.LeadStatus = exports.$Enums.LeadStatus = {
   ACTIVE: 'ACTIVE',
   COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  UNSUBSCRIBED: 'UNSUBSCRIBED',
+  PAUSED: 'PAUSED',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.DeliveryStatus = exports.$Enums.DeliveryStatus = {
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+};
+
+exports.Channel = exports.$Enums.Channel = {
+  EMAIL: 'EMAIL',
+  SMS: 'SMS'
+};
+
+exports.ScheduledMessageStatus = exports.$Enums.ScheduledMessageStatus = {
+  SCHEDULED: 'SCHEDULED',
+  SENT: 'SENT',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.OutboxEventType = exports.$Enums.OutboxEventType = {
+  SCHEDULE_LEAD: 'SCHEDULE_LEAD'
+};
+
+exports.OutboxEventStatus = exports.$Enums.OutboxEventStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  DONE: 'DONE',
   FAILED: 'FAILED'
 };
 
+exports.SuppressionType = exports.$Enums.SuppressionType = {
+  EMAIL: 'EMAIL',
+  PHONE: 'PHONE'
+};
+
 exports.Prisma.ModelName = {
-  Lead: 'Lead'
+  Lead: 'Lead',
+  MessageTemplate: 'MessageTemplate',
+  Campaign: 'Campaign',
+  CampaignStep: 'CampaignStep',
+  ScheduledMessage: 'ScheduledMessage',
+  OutboxEvent: 'OutboxEvent',
+  WorkerLease: 'WorkerLease',
+  ApiKey: 'ApiKey',
+  RateLimitHit: 'RateLimitHit',
+  IdempotencyKey: 'IdempotencyKey',
+  ScheduledSlot: 'ScheduledSlot',
+  Suppression: 'Suppression'
 };
 
 /**
@@ -18,6 +18,61 @@ export type PrismaPromise<T> = $Public.PrismaPromise<T>
  * 
  */
 export type Lead = $Result.DefaultSelection<Prisma.$LeadPayload>
+/**
+ * Model MessageTemplate
+ * 
+ */
+export type MessageTemplate = $Result.DefaultSelection<Prisma.$MessageTemplatePayload>
+/**
+ * Model Campaign
+ * 
+ */
+export type Campaign = $Result.DefaultSelection<Prisma.$CampaignPayload>
+/**
+ * Model CampaignStep
+ * 
+ */
+export type CampaignStep = $Result.DefaultSelection<Prisma.$CampaignStepPayload>
+/**
+ * Model ScheduledMessage
+ * 
+ */
+export type ScheduledMessage = $Result.DefaultSelection<Prisma.$ScheduledMessagePayload>
+/**
+ * Model OutboxEvent
+ * 
+ */
+export type OutboxEvent = $Result.DefaultSelection<Prisma.$OutboxEventPayload>
+/**
+ * Model WorkerLease
+ * 
+ */
+export type WorkerLease = $Result.DefaultSelection<Prisma.$WorkerLeasePayload>
+/**
+ * Model ApiKey
+ * 
+ */
+export type ApiKey = $Result.DefaultSelection<Prisma.$ApiKeyPayload>
+/**
+ * Model RateLimitHit
+ * 
+ */
+export type RateLimitHit = $Result.DefaultSelection<Prisma.$RateLimitHitPayload>
+/**
+ * Model IdempotencyKey
+ * 
+ */
+export type IdempotencyKey = $Result.DefaultSelection<Prisma.$IdempotencyKeyPayload>
+/**
+ * Model ScheduledSlot
+ * 
+ */
+export type ScheduledSlot = $Result.DefaultSelection<Prisma.$ScheduledSlotPayload>
+/**
+ * Model Suppression
+ * 
+ */
+export type Suppression = $Result.DefaultSelection<Prisma.$SuppressionPayload>
 
 /**
  * Enums
@@ -26,17 +81,94 @@ export namespace $Enums {
   export const LeadStatus: {
   ACTIVE: 'ACTIVE',
   COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED'
+  FAILED: 'FAILED',
+  UNSUBSCRIBED: 'UNSUBSCRIBED',
+  PAUSED: 'PAUSED',
+  CANCELLED: 'CANCELLED'
 };
 
 export type LeadStatus = (typeof LeadStatus)[keyof typeof LeadStatus]
 
+
+export const Channel: {
+  EMAIL: 'EMAIL',
+  SMS: 'SMS'
+};
+
+export type Channel = (typeof Channel)[keyof typeof Channel]
+
+
+export const DeliveryStatus: {
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+};
+
+export type DeliveryStatus = (typeof DeliveryStatus)[keyof typeof DeliveryStatus]
+
+
+export const SuppressionType: {
+  EMAIL: 'EMAIL',
+  PHONE: 'PHONE'
+};
+
+export type SuppressionType = (typeof SuppressionType)[keyof typeof SuppressionType]
+
+
+export const ScheduledMessageStatus: {
+  SCHEDULED: 'SCHEDULED',
+  SENT: 'SENT',
+  CANCELLED: 'CANCELLED'
+};
+
+export type ScheduledMessageStatus = (typeof ScheduledMessageStatus)[keyof typeof ScheduledMessageStatus]
+
+
+export const OutboxEventType: {
+  SCHEDULE_LEAD: 'SCHEDULE_LEAD'
+};
+
+export type OutboxEventType = (typeof OutboxEventType)[keyof typeof OutboxEventType]
+
+
+export const OutboxEventStatus: {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  DONE: 'DONE',
+  FAILED: 'FAILED'
+};
+
+export type OutboxEventStatus = (typeof OutboxEventStatus)[keyof typeof OutboxEventStatus]
+
 }
 
 export type LeadStatus = $Enums.LeadStatus
 
 export const LeadStatus: typeof $Enums.LeadStatus
 
+export type Channel = $Enums.Channel
+
+export const Channel: typeof $Enums.Channel
+
+export type DeliveryStatus = $Enums.DeliveryStatus
+
+export const DeliveryStatus: typeof $Enums.DeliveryStatus
+
+export type SuppressionType = $Enums.SuppressionType
+
+export const SuppressionType: typeof $Enums.SuppressionType
+
+export type ScheduledMessageStatus = $Enums.ScheduledMessageStatus
+
+export const ScheduledMessageStatus: typeof $Enums.ScheduledMessageStatus
+
+export type OutboxEventType = $Enums.OutboxEventType
+
+export const OutboxEventType: typeof $Enums.OutboxEventType
+
+export type OutboxEventStatus = $Enums.OutboxEventStatus
+
+export const OutboxEventStatus: typeof $Enums.OutboxEventStatus
+
 /**
  * ##  Prisma Client ʲˢ
  *
@@ -164,6 +296,116 @@ export class PrismaClient<
     * ```
     */
   get lead(): Prisma.LeadDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.messageTemplate`: Exposes CRUD operations for the **MessageTemplate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MessageTemplates
+    * const messageTemplates = await prisma.messageTemplate.findMany()
+    * ```
+    */
+  get messageTemplate(): Prisma.MessageTemplateDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.campaign`: Exposes CRUD operations for the **Campaign** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Campaigns
+    * const campaigns = await prisma.campaign.findMany()
+    * ```
+    */
+  get campaign(): Prisma.CampaignDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.campaignStep`: Exposes CRUD operations for the **CampaignStep** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CampaignSteps
+    * const campaignSteps = await prisma.campaignStep.findMany()
+    * ```
+    */
+  get campaignStep(): Prisma.CampaignStepDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.scheduledMessage`: Exposes CRUD operations for the **ScheduledMessage** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ScheduledMessages
+    * const scheduledMessages = await prisma.scheduledMessage.findMany()
+    * ```
+    */
+  get scheduledMessage(): Prisma.ScheduledMessageDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.outboxEvent`: Exposes CRUD operations for the **OutboxEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OutboxEvents
+    * const outboxEvents = await prisma.outboxEvent.findMany()
+    * ```
+    */
+  get outboxEvent(): Prisma.OutboxEventDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.workerLease`: Exposes CRUD operations for the **WorkerLease** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkerLeases
+    * const workerLeases = await prisma.workerLease.findMany()
+    * ```
+    */
+  get workerLease(): Prisma.WorkerLeaseDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.apiKey`: Exposes CRUD operations for the **ApiKey** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ApiKeys
+    * const apiKeys = await prisma.apiKey.findMany()
+    * ```
+    */
+  get apiKey(): Prisma.ApiKeyDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.rateLimitHit`: Exposes CRUD operations for the **RateLimitHit** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RateLimitHits
+    * const rateLimitHits = await prisma.rateLimitHit.findMany()
+    * ```
+    */
+  get rateLimitHit(): Prisma.RateLimitHitDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.idempotencyKey`: Exposes CRUD operations for the **IdempotencyKey** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more IdempotencyKeys
+    * const idempotencyKeys = await prisma.idempotencyKey.findMany()
+    * ```
+    */
+  get idempotencyKey(): Prisma.IdempotencyKeyDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.scheduledSlot`: Exposes CRUD operations for the **ScheduledSlot** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ScheduledSlots
+    * const scheduledSlots = await prisma.scheduledSlot.findMany()
+    * ```
+    */
+  get scheduledSlot(): Prisma.ScheduledSlotDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.suppression`: Exposes CRUD operations for the **Suppression** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Suppressions
+    * const suppressions = await prisma.suppression.findMany()
+    * ```
+    */
+  get suppression(): Prisma.SuppressionDelegate<ExtArgs, ClientOptions>;
 }
 
 export namespace Prisma {
@@ -604,7 +846,18 @@ export namespace Prisma {
 
 
   export const ModelName: {
-    Lead: 'Lead'
+    Lead: 'Lead',
+    MessageTemplate: 'MessageTemplate',
+    Campaign: 'Campaign',
+    CampaignStep: 'CampaignStep',
+    ScheduledMessage: 'ScheduledMessage',
+    OutboxEvent: 'OutboxEvent',
+    WorkerLease: 'WorkerLease',
+    ApiKey: 'ApiKey',
+    RateLimitHit: 'RateLimitHit',
+    IdempotencyKey: 'IdempotencyKey',
+    ScheduledSlot: 'ScheduledSlot',
+    Suppression: 'Suppression'
   };
 
   export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -623,7 +876,7 @@ export namespace Prisma {
       omit: GlobalOmitOptions
     }
     meta: {
-      modelProps: "lead"
+      modelProps: "lead" | "messageTemplate" | "campaign" | "campaignStep" | "scheduledMessage" | "outboxEvent" | "workerLease" | "apiKey" | "rateLimitHit" | "idempotencyKey" | "scheduledSlot" | "suppression"
       txIsolationLevel: Prisma.TransactionIsolationLevel
     }
     model: {
@@ -701,1431 +954,18368 @@ export namespace Prisma {
           }
         }
       }
-    }
-  } & {
-    other: {
-      payload: any
-      operations: {
-        $executeRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
-        }
-        $executeRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
-        }
-        $queryRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
+      MessageTemplate: {
+        payload: Prisma.$MessageTemplatePayload<ExtArgs>
+        fields: Prisma.MessageTemplateFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.MessageTemplateFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.MessageTemplateFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          findFirst: {
+            args: Prisma.MessageTemplateFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.MessageTemplateFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          findMany: {
+            args: Prisma.MessageTemplateFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>[]
+          }
+          create: {
+            args: Prisma.MessageTemplateCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          createMany: {
+            args: Prisma.MessageTemplateCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.MessageTemplateCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>[]
+          }
+          delete: {
+            args: Prisma.MessageTemplateDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          update: {
+            args: Prisma.MessageTemplateUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          deleteMany: {
+            args: Prisma.MessageTemplateDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.MessageTemplateUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.MessageTemplateUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>[]
+          }
+          upsert: {
+            args: Prisma.MessageTemplateUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MessageTemplatePayload>
+          }
+          aggregate: {
+            args: Prisma.MessageTemplateAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateMessageTemplate>
+          }
+          groupBy: {
+            args: Prisma.MessageTemplateGroupByArgs<ExtArgs>
+            result: $Utils.Optional<MessageTemplateGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.MessageTemplateCountArgs<ExtArgs>
+            result: $Utils.Optional<MessageTemplateCountAggregateOutputType> | number
+          }
         }
-        $queryRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
+      }
+      Campaign: {
+        payload: Prisma.$CampaignPayload<ExtArgs>
+        fields: Prisma.CampaignFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.CampaignFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.CampaignFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          findFirst: {
+            args: Prisma.CampaignFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.CampaignFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          findMany: {
+            args: Prisma.CampaignFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>[]
+          }
+          create: {
+            args: Prisma.CampaignCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          createMany: {
+            args: Prisma.CampaignCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.CampaignCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>[]
+          }
+          delete: {
+            args: Prisma.CampaignDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          update: {
+            args: Prisma.CampaignUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          deleteMany: {
+            args: Prisma.CampaignDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.CampaignUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.CampaignUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>[]
+          }
+          upsert: {
+            args: Prisma.CampaignUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignPayload>
+          }
+          aggregate: {
+            args: Prisma.CampaignAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateCampaign>
+          }
+          groupBy: {
+            args: Prisma.CampaignGroupByArgs<ExtArgs>
+            result: $Utils.Optional<CampaignGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.CampaignCountArgs<ExtArgs>
+            result: $Utils.Optional<CampaignCountAggregateOutputType> | number
+          }
         }
       }
-    }
-  }
-  export const defineExtension: $Extensions.ExtendsHook<"define", Prisma.TypeMapCb, $Extensions.DefaultArgs>
-  export type DefaultPrismaClient = PrismaClient
-  export type ErrorFormat = 'pretty' | 'colorless' | 'minimal'
-  export interface PrismaClientOptions {
-    /**
-     * Overwrites the datasource url from your schema.prisma file
-     */
-    datasources?: Datasources
-    /**
-     * Overwrites the datasource url from your schema.prisma file
-     */
-    datasourceUrl?: string
-    /**
-     * @default "colorless"
-     */
-    errorFormat?: ErrorFormat
-    /**
-     * @example
-     * ```
-     * // Shorthand for `emit: 'stdout'`
+      CampaignStep: {
+        payload: Prisma.$CampaignStepPayload<ExtArgs>
+        fields: Prisma.CampaignStepFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.CampaignStepFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.CampaignStepFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          findFirst: {
+            args: Prisma.CampaignStepFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.CampaignStepFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          findMany: {
+            args: Prisma.CampaignStepFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>[]
+          }
+          create: {
+            args: Prisma.CampaignStepCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          createMany: {
+            args: Prisma.CampaignStepCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.CampaignStepCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>[]
+          }
+          delete: {
+            args: Prisma.CampaignStepDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          update: {
+            args: Prisma.CampaignStepUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          deleteMany: {
+            args: Prisma.CampaignStepDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.CampaignStepUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.CampaignStepUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>[]
+          }
+          upsert: {
+            args: Prisma.CampaignStepUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$CampaignStepPayload>
+          }
+          aggregate: {
+            args: Prisma.CampaignStepAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateCampaignStep>
+          }
+          groupBy: {
+            args: Prisma.CampaignStepGroupByArgs<ExtArgs>
+            result: $Utils.Optional<CampaignStepGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.CampaignStepCountArgs<ExtArgs>
+            result: $Utils.Optional<CampaignStepCountAggregateOutputType> | number
+          }
+        }
+      }
+      ScheduledMessage: {
+        payload: Prisma.$ScheduledMessagePayload<ExtArgs>
+        fields: Prisma.ScheduledMessageFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.ScheduledMessageFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.ScheduledMessageFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          findFirst: {
+            args: Prisma.ScheduledMessageFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.ScheduledMessageFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          findMany: {
+            args: Prisma.ScheduledMessageFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>[]
+          }
+          create: {
+            args: Prisma.ScheduledMessageCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          createMany: {
+            args: Prisma.ScheduledMessageCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.ScheduledMessageCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>[]
+          }
+          delete: {
+            args: Prisma.ScheduledMessageDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          update: {
+            args: Prisma.ScheduledMessageUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          deleteMany: {
+            args: Prisma.ScheduledMessageDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.ScheduledMessageUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.ScheduledMessageUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>[]
+          }
+          upsert: {
+            args: Prisma.ScheduledMessageUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledMessagePayload>
+          }
+          aggregate: {
+            args: Prisma.ScheduledMessageAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateScheduledMessage>
+          }
+          groupBy: {
+            args: Prisma.ScheduledMessageGroupByArgs<ExtArgs>
+            result: $Utils.Optional<ScheduledMessageGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.ScheduledMessageCountArgs<ExtArgs>
+            result: $Utils.Optional<ScheduledMessageCountAggregateOutputType> | number
+          }
+        }
+      }
+      OutboxEvent: {
+        payload: Prisma.$OutboxEventPayload<ExtArgs>
+        fields: Prisma.OutboxEventFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.OutboxEventFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.OutboxEventFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          findFirst: {
+            args: Prisma.OutboxEventFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.OutboxEventFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          findMany: {
+            args: Prisma.OutboxEventFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>[]
+          }
+          create: {
+            args: Prisma.OutboxEventCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          createMany: {
+            args: Prisma.OutboxEventCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.OutboxEventCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>[]
+          }
+          delete: {
+            args: Prisma.OutboxEventDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          update: {
+            args: Prisma.OutboxEventUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          deleteMany: {
+            args: Prisma.OutboxEventDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.OutboxEventUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.OutboxEventUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>[]
+          }
+          upsert: {
+            args: Prisma.OutboxEventUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$OutboxEventPayload>
+          }
+          aggregate: {
+            args: Prisma.OutboxEventAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateOutboxEvent>
+          }
+          groupBy: {
+            args: Prisma.OutboxEventGroupByArgs<ExtArgs>
+            result: $Utils.Optional<OutboxEventGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.OutboxEventCountArgs<ExtArgs>
+            result: $Utils.Optional<OutboxEventCountAggregateOutputType> | number
+          }
+        }
+      }
+      WorkerLease: {
+        payload: Prisma.$WorkerLeasePayload<ExtArgs>
+        fields: Prisma.WorkerLeaseFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.WorkerLeaseFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.WorkerLeaseFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          findFirst: {
+            args: Prisma.WorkerLeaseFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.WorkerLeaseFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          findMany: {
+            args: Prisma.WorkerLeaseFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>[]
+          }
+          create: {
+            args: Prisma.WorkerLeaseCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          createMany: {
+            args: Prisma.WorkerLeaseCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.WorkerLeaseCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>[]
+          }
+          delete: {
+            args: Prisma.WorkerLeaseDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          update: {
+            args: Prisma.WorkerLeaseUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          deleteMany: {
+            args: Prisma.WorkerLeaseDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.WorkerLeaseUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.WorkerLeaseUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>[]
+          }
+          upsert: {
+            args: Prisma.WorkerLeaseUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$WorkerLeasePayload>
+          }
+          aggregate: {
+            args: Prisma.WorkerLeaseAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateWorkerLease>
+          }
+          groupBy: {
+            args: Prisma.WorkerLeaseGroupByArgs<ExtArgs>
+            result: $Utils.Optional<WorkerLeaseGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.WorkerLeaseCountArgs<ExtArgs>
+            result: $Utils.Optional<WorkerLeaseCountAggregateOutputType> | number
+          }
+        }
+      }
+      ApiKey: {
+        payload: Prisma.$ApiKeyPayload<ExtArgs>
+        fields: Prisma.ApiKeyFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.ApiKeyFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.ApiKeyFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          findFirst: {
+            args: Prisma.ApiKeyFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.ApiKeyFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          findMany: {
+            args: Prisma.ApiKeyFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>[]
+          }
+          create: {
+            args: Prisma.ApiKeyCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          createMany: {
+            args: Prisma.ApiKeyCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.ApiKeyCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>[]
+          }
+          delete: {
+            args: Prisma.ApiKeyDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          update: {
+            args: Prisma.ApiKeyUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          deleteMany: {
+            args: Prisma.ApiKeyDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.ApiKeyUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.ApiKeyUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>[]
+          }
+          upsert: {
+            args: Prisma.ApiKeyUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ApiKeyPayload>
+          }
+          aggregate: {
+            args: Prisma.ApiKeyAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateApiKey>
+          }
+          groupBy: {
+            args: Prisma.ApiKeyGroupByArgs<ExtArgs>
+            result: $Utils.Optional<ApiKeyGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.ApiKeyCountArgs<ExtArgs>
+            result: $Utils.Optional<ApiKeyCountAggregateOutputType> | number
+          }
+        }
+      }
+      RateLimitHit: {
+        payload: Prisma.$RateLimitHitPayload<ExtArgs>
+        fields: Prisma.RateLimitHitFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.RateLimitHitFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.RateLimitHitFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          findFirst: {
+            args: Prisma.RateLimitHitFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.RateLimitHitFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          findMany: {
+            args: Prisma.RateLimitHitFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>[]
+          }
+          create: {
+            args: Prisma.RateLimitHitCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          createMany: {
+            args: Prisma.RateLimitHitCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.RateLimitHitCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>[]
+          }
+          delete: {
+            args: Prisma.RateLimitHitDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          update: {
+            args: Prisma.RateLimitHitUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          deleteMany: {
+            args: Prisma.RateLimitHitDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.RateLimitHitUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.RateLimitHitUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>[]
+          }
+          upsert: {
+            args: Prisma.RateLimitHitUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitHitPayload>
+          }
+          aggregate: {
+            args: Prisma.RateLimitHitAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateRateLimitHit>
+          }
+          groupBy: {
+            args: Prisma.RateLimitHitGroupByArgs<ExtArgs>
+            result: $Utils.Optional<RateLimitHitGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.RateLimitHitCountArgs<ExtArgs>
+            result: $Utils.Optional<RateLimitHitCountAggregateOutputType> | number
+          }
+        }
+      }
+      IdempotencyKey: {
+        payload: Prisma.$IdempotencyKeyPayload<ExtArgs>
+        fields: Prisma.IdempotencyKeyFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.IdempotencyKeyFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.IdempotencyKeyFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          findFirst: {
+            args: Prisma.IdempotencyKeyFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.IdempotencyKeyFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          findMany: {
+            args: Prisma.IdempotencyKeyFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>[]
+          }
+          create: {
+            args: Prisma.IdempotencyKeyCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          createMany: {
+            args: Prisma.IdempotencyKeyCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.IdempotencyKeyCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>[]
+          }
+          delete: {
+            args: Prisma.IdempotencyKeyDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          update: {
+            args: Prisma.IdempotencyKeyUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          deleteMany: {
+            args: Prisma.IdempotencyKeyDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.IdempotencyKeyUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.IdempotencyKeyUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>[]
+          }
+          upsert: {
+            args: Prisma.IdempotencyKeyUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$IdempotencyKeyPayload>
+          }
+          aggregate: {
+            args: Prisma.IdempotencyKeyAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateIdempotencyKey>
+          }
+          groupBy: {
+            args: Prisma.IdempotencyKeyGroupByArgs<ExtArgs>
+            result: $Utils.Optional<IdempotencyKeyGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.IdempotencyKeyCountArgs<ExtArgs>
+            result: $Utils.Optional<IdempotencyKeyCountAggregateOutputType> | number
+          }
+        }
+      }
+      ScheduledSlot: {
+        payload: Prisma.$ScheduledSlotPayload<ExtArgs>
+        fields: Prisma.ScheduledSlotFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.ScheduledSlotFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.ScheduledSlotFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          findFirst: {
+            args: Prisma.ScheduledSlotFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.ScheduledSlotFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          findMany: {
+            args: Prisma.ScheduledSlotFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>[]
+          }
+          create: {
+            args: Prisma.ScheduledSlotCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          createMany: {
+            args: Prisma.ScheduledSlotCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.ScheduledSlotCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>[]
+          }
+          delete: {
+            args: Prisma.ScheduledSlotDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          update: {
+            args: Prisma.ScheduledSlotUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          deleteMany: {
+            args: Prisma.ScheduledSlotDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.ScheduledSlotUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.ScheduledSlotUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>[]
+          }
+          upsert: {
+            args: Prisma.ScheduledSlotUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$ScheduledSlotPayload>
+          }
+          aggregate: {
+            args: Prisma.ScheduledSlotAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateScheduledSlot>
+          }
+          groupBy: {
+            args: Prisma.ScheduledSlotGroupByArgs<ExtArgs>
+            result: $Utils.Optional<ScheduledSlotGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.ScheduledSlotCountArgs<ExtArgs>
+            result: $Utils.Optional<ScheduledSlotCountAggregateOutputType> | number
+          }
+        }
+      }
+      Suppression: {
+        payload: Prisma.$SuppressionPayload<ExtArgs>
+        fields: Prisma.SuppressionFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.SuppressionFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.SuppressionFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          findFirst: {
+            args: Prisma.SuppressionFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.SuppressionFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          findMany: {
+            args: Prisma.SuppressionFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>[]
+          }
+          create: {
+            args: Prisma.SuppressionCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          createMany: {
+            args: Prisma.SuppressionCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.SuppressionCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>[]
+          }
+          delete: {
+            args: Prisma.SuppressionDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          update: {
+            args: Prisma.SuppressionUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          deleteMany: {
+            args: Prisma.SuppressionDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.SuppressionUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.SuppressionUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>[]
+          }
+          upsert: {
+            args: Prisma.SuppressionUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$SuppressionPayload>
+          }
+          aggregate: {
+            args: Prisma.SuppressionAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateSuppression>
+          }
+          groupBy: {
+            args: Prisma.SuppressionGroupByArgs<ExtArgs>
+            result: $Utils.Optional<SuppressionGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.SuppressionCountArgs<ExtArgs>
+            result: $Utils.Optional<SuppressionCountAggregateOutputType> | number
+          }
+        }
+      }
+    }
+  } & {
+    other: {
+      payload: any
+      operations: {
+        $executeRaw: {
+          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
+          result: any
+        }
+        $executeRawUnsafe: {
+          args: [query: string, ...values: any[]],
+          result: any
+        }
+        $queryRaw: {
+          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
+          result: any
+        }
+        $queryRawUnsafe: {
+          args: [query: string, ...values: any[]],
+          result: any
+        }
+      }
+    }
+  }
+  export const defineExtension: $Extensions.ExtendsHook<"define", Prisma.TypeMapCb, $Extensions.DefaultArgs>
+  export type DefaultPrismaClient = PrismaClient
+  export type ErrorFormat = 'pretty' | 'colorless' | 'minimal'
+  export interface PrismaClientOptions {
+    /**
+     * Overwrites the datasource url from your schema.prisma file
+     */
+    datasources?: Datasources
+    /**
+     * Overwrites the datasource url from your schema.prisma file
+     */
+    datasourceUrl?: string
+    /**
+     * @default "colorless"
+     */
+    errorFormat?: ErrorFormat
+    /**
+     * @example
+     * ```
+     * // Shorthand for `emit: 'stdout'`
      * log: ['query', 'info', 'warn', 'error']
      * 
-     * // Emit as events only
-     * log: [
-     *   { emit: 'event', level: 'query' },
-     *   { emit: 'event', level: 'info' },
-     *   { emit: 'event', level: 'warn' }
-     *   { emit: 'event', level: 'error' }
-     * ]
+     * // Emit as events only
+     * log: [
+     *   { emit: 'event', level: 'query' },
+     *   { emit: 'event', level: 'info' },
+     *   { emit: 'event', level: 'warn' }
+     *   { emit: 'event', level: 'error' }
+     * ]
+     * 
+     * / Emit as events and log to stdout
+     * og: [
+     *  { emit: 'stdout', level: 'query' },
+     *  { emit: 'stdout', level: 'info' },
+     *  { emit: 'stdout', level: 'warn' }
+     *  { emit: 'stdout', level: 'error' }
+     * 
+     * ```
+     * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
+     */
+    log?: (LogLevel | LogDefinition)[]
+    /**
+     * The default values for transactionOptions
+     * maxWait ?= 2000
+     * timeout ?= 5000
+     */
+    transactionOptions?: {
+      maxWait?: number
+      timeout?: number
+      isolationLevel?: Prisma.TransactionIsolationLevel
+    }
+    /**
+     * Instance of a Driver Adapter, e.g., like one provided by `@prisma/adapter-planetscale`
+     */
+    adapter?: runtime.SqlDriverAdapterFactory | null
+    /**
+     * Global configuration for omitting model fields by default.
+     * 
+     * @example
+     * ```
+     * const prisma = new PrismaClient({
+     *   omit: {
+     *     user: {
+     *       password: true
+     *     }
+     *   }
+     * })
+     * ```
+     */
+    omit?: Prisma.GlobalOmitConfig
+  }
+  export type GlobalOmitConfig = {
+    lead?: LeadOmit
+    messageTemplate?: MessageTemplateOmit
+    campaign?: CampaignOmit
+    campaignStep?: CampaignStepOmit
+    scheduledMessage?: ScheduledMessageOmit
+    outboxEvent?: OutboxEventOmit
+    workerLease?: WorkerLeaseOmit
+    apiKey?: ApiKeyOmit
+    rateLimitHit?: RateLimitHitOmit
+    idempotencyKey?: IdempotencyKeyOmit
+    scheduledSlot?: ScheduledSlotOmit
+    suppression?: SuppressionOmit
+  }
+
+  /* Types for Logging */
+  export type LogLevel = 'info' | 'query' | 'warn' | 'error'
+  export type LogDefinition = {
+    level: LogLevel
+    emit: 'stdout' | 'event'
+  }
+
+  export type CheckIsLogLevel<T> = T extends LogLevel ? T : never;
+
+  export type GetLogType<T> = CheckIsLogLevel<
+    T extends LogDefinition ? T['level'] : T
+  >;
+
+  export type GetEvents<T extends any[]> = T extends Array<LogLevel | LogDefinition>
+    ? GetLogType<T[number]>
+    : never;
+
+  export type QueryEvent = {
+    timestamp: Date
+    query: string
+    params: string
+    duration: number
+    target: string
+  }
+
+  export type LogEvent = {
+    timestamp: Date
+    message: string
+    target: string
+  }
+  /* End Types for Logging */
+
+
+  export type PrismaAction =
+    | 'findUnique'
+    | 'findUniqueOrThrow'
+    | 'findMany'
+    | 'findFirst'
+    | 'findFirstOrThrow'
+    | 'create'
+    | 'createMany'
+    | 'createManyAndReturn'
+    | 'update'
+    | 'updateMany'
+    | 'updateManyAndReturn'
+    | 'upsert'
+    | 'delete'
+    | 'deleteMany'
+    | 'executeRaw'
+    | 'queryRaw'
+    | 'aggregate'
+    | 'count'
+    | 'runCommandRaw'
+    | 'findRaw'
+    | 'groupBy'
+
+  // tested in getLogLevel.test.ts
+  export function getLogLevel(log: Array<LogLevel | LogDefinition>): LogLevel | undefined;
+
+  /**
+   * `PrismaClient` proxy available in interactive transactions.
+   */
+  export type TransactionClient = Omit<Prisma.DefaultPrismaClient, runtime.ITXClientDenyList>
+
+  export type Datasource = {
+    url?: string
+  }
+
+  /**
+   * Count Types
+   */
+
+
+  /**
+   * Count Type LeadCountOutputType
+   */
+
+  export type LeadCountOutputType = {
+    scheduledMessages: number
+    outboxEvents: number
+  }
+
+  export type LeadCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    scheduledMessages?: boolean | LeadCountOutputTypeCountScheduledMessagesArgs
+    outboxEvents?: boolean | LeadCountOutputTypeCountOutboxEventsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * LeadCountOutputType without action
+   */
+  export type LeadCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the LeadCountOutputType
+     */
+    select?: LeadCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * LeadCountOutputType without action
+   */
+  export type LeadCountOutputTypeCountScheduledMessagesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ScheduledMessageWhereInput
+  }
+
+  /**
+   * LeadCountOutputType without action
+   */
+  export type LeadCountOutputTypeCountOutboxEventsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: OutboxEventWhereInput
+  }
+
+
+  /**
+   * Count Type MessageTemplateCountOutputType
+   */
+
+  export type MessageTemplateCountOutputType = {
+    campaignSteps: number
+  }
+
+  export type MessageTemplateCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaignSteps?: boolean | MessageTemplateCountOutputTypeCountCampaignStepsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * MessageTemplateCountOutputType without action
+   */
+  export type MessageTemplateCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplateCountOutputType
+     */
+    select?: MessageTemplateCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * MessageTemplateCountOutputType without action
+   */
+  export type MessageTemplateCountOutputTypeCountCampaignStepsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: CampaignStepWhereInput
+  }
+
+
+  /**
+   * Count Type CampaignCountOutputType
+   */
+
+  export type CampaignCountOutputType = {
+    steps: number
+    leads: number
+  }
+
+  export type CampaignCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    steps?: boolean | CampaignCountOutputTypeCountStepsArgs
+    leads?: boolean | CampaignCountOutputTypeCountLeadsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * CampaignCountOutputType without action
+   */
+  export type CampaignCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignCountOutputType
+     */
+    select?: CampaignCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * CampaignCountOutputType without action
+   */
+  export type CampaignCountOutputTypeCountStepsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: CampaignStepWhereInput
+  }
+
+  /**
+   * CampaignCountOutputType without action
+   */
+  export type CampaignCountOutputTypeCountLeadsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: LeadWhereInput
+  }
+
+
+  /**
+   * Models
+   */
+
+  /**
+   * Model Lead
+   */
+
+  export type AggregateLead = {
+    _count: LeadCountAggregateOutputType | null
+    _avg: LeadAvgAggregateOutputType | null
+    _sum: LeadSumAggregateOutputType | null
+    _min: LeadMinAggregateOutputType | null
+    _max: LeadMaxAggregateOutputType | null
+  }
+
+  export type LeadAvgAggregateOutputType = {
+    maxMessages: number | null
+    messageCount: number | null
+  }
+
+  export type LeadSumAggregateOutputType = {
+    maxMessages: number | null
+    messageCount: number | null
+  }
+
+  export type LeadMinAggregateOutputType = {
+    id: string | null
+    name: string | null
+    email: string | null
+    phone: string | null
+    notes: string | null
+    maxMessages: number | null
+    messageCount: number | null
+    lastSentAt: Date | null
+    nextScheduledFor: Date | null
+    status: $Enums.LeadStatus | null
+    lastProviderMessageId: string | null
+    lastDeliveryStatus: $Enums.DeliveryStatus | null
+    lastDeliveryError: string | null
+    failureReason: string | null
+    unsubscribedAt: Date | null
+    pausedAt: Date | null
+    cancelledAt: Date | null
+    timezone: string | null
+    campaignId: string | null
+    createdAt: Date | null
+  }
+
+  export type LeadMaxAggregateOutputType = {
+    id: string | null
+    name: string | null
+    email: string | null
+    phone: string | null
+    notes: string | null
+    maxMessages: number | null
+    messageCount: number | null
+    lastSentAt: Date | null
+    nextScheduledFor: Date | null
+    status: $Enums.LeadStatus | null
+    lastProviderMessageId: string | null
+    lastDeliveryStatus: $Enums.DeliveryStatus | null
+    lastDeliveryError: string | null
+    failureReason: string | null
+    unsubscribedAt: Date | null
+    pausedAt: Date | null
+    cancelledAt: Date | null
+    timezone: string | null
+    campaignId: string | null
+    createdAt: Date | null
+  }
+
+  export type LeadCountAggregateOutputType = {
+    id: number
+    name: number
+    email: number
+    phone: number
+    notes: number
+    maxMessages: number
+    messageCount: number
+    lastSentAt: number
+    nextScheduledFor: number
+    status: number
+    lastProviderMessageId: number
+    lastDeliveryStatus: number
+    lastDeliveryError: number
+    failureReason: number
+    unsubscribedAt: number
+    pausedAt: number
+    cancelledAt: number
+    timezone: number
+    campaignId: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type LeadAvgAggregateInputType = {
+    maxMessages?: true
+    messageCount?: true
+  }
+
+  export type LeadSumAggregateInputType = {
+    maxMessages?: true
+    messageCount?: true
+  }
+
+  export type LeadMinAggregateInputType = {
+    id?: true
+    name?: true
+    email?: true
+    phone?: true
+    notes?: true
+    maxMessages?: true
+    messageCount?: true
+    lastSentAt?: true
+    nextScheduledFor?: true
+    status?: true
+    lastProviderMessageId?: true
+    lastDeliveryStatus?: true
+    lastDeliveryError?: true
+    failureReason?: true
+    unsubscribedAt?: true
+    pausedAt?: true
+    cancelledAt?: true
+    timezone?: true
+    campaignId?: true
+    createdAt?: true
+  }
+
+  export type LeadMaxAggregateInputType = {
+    id?: true
+    name?: true
+    email?: true
+    phone?: true
+    notes?: true
+    maxMessages?: true
+    messageCount?: true
+    lastSentAt?: true
+    nextScheduledFor?: true
+    status?: true
+    lastProviderMessageId?: true
+    lastDeliveryStatus?: true
+    lastDeliveryError?: true
+    failureReason?: true
+    unsubscribedAt?: true
+    pausedAt?: true
+    cancelledAt?: true
+    timezone?: true
+    campaignId?: true
+    createdAt?: true
+  }
+
+  export type LeadCountAggregateInputType = {
+    id?: true
+    name?: true
+    email?: true
+    phone?: true
+    notes?: true
+    maxMessages?: true
+    messageCount?: true
+    lastSentAt?: true
+    nextScheduledFor?: true
+    status?: true
+    lastProviderMessageId?: true
+    lastDeliveryStatus?: true
+    lastDeliveryError?: true
+    failureReason?: true
+    unsubscribedAt?: true
+    pausedAt?: true
+    cancelledAt?: true
+    timezone?: true
+    campaignId?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type LeadAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Lead to aggregate.
+     */
+    where?: LeadWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Leads to fetch.
+     */
+    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: LeadWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Leads from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Leads.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Leads
+    **/
+    _count?: true | LeadCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: LeadAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: LeadSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: LeadMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: LeadMaxAggregateInputType
+  }
+
+  export type GetLeadAggregateType<T extends LeadAggregateArgs> = {
+        [P in keyof T & keyof AggregateLead]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateLead[P]>
+      : GetScalarType<T[P], AggregateLead[P]>
+  }
+
+
+
+
+  export type LeadGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: LeadWhereInput
+    orderBy?: LeadOrderByWithAggregationInput | LeadOrderByWithAggregationInput[]
+    by: LeadScalarFieldEnum[] | LeadScalarFieldEnum
+    having?: LeadScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: LeadCountAggregateInputType | true
+    _avg?: LeadAvgAggregateInputType
+    _sum?: LeadSumAggregateInputType
+    _min?: LeadMinAggregateInputType
+    _max?: LeadMaxAggregateInputType
+  }
+
+  export type LeadGroupByOutputType = {
+    id: string
+    name: string
+    email: string
+    phone: string
+    notes: string | null
+    maxMessages: number
+    messageCount: number
+    lastSentAt: Date | null
+    nextScheduledFor: Date | null
+    status: $Enums.LeadStatus
+    lastProviderMessageId: string | null
+    lastDeliveryStatus: $Enums.DeliveryStatus | null
+    lastDeliveryError: string | null
+    failureReason: string | null
+    unsubscribedAt: Date | null
+    pausedAt: Date | null
+    cancelledAt: Date | null
+    timezone: string | null
+    campaignId: string | null
+    createdAt: Date
+    _count: LeadCountAggregateOutputType | null
+    _avg: LeadAvgAggregateOutputType | null
+    _sum: LeadSumAggregateOutputType | null
+    _min: LeadMinAggregateOutputType | null
+    _max: LeadMaxAggregateOutputType | null
+  }
+
+  type GetLeadGroupByPayload<T extends LeadGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<LeadGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof LeadGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], LeadGroupByOutputType[P]>
+            : GetScalarType<T[P], LeadGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type LeadSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    email?: boolean
+    phone?: boolean
+    notes?: boolean
+    maxMessages?: boolean
+    messageCount?: boolean
+    lastSentAt?: boolean
+    nextScheduledFor?: boolean
+    status?: boolean
+    lastProviderMessageId?: boolean
+    lastDeliveryStatus?: boolean
+    lastDeliveryError?: boolean
+    failureReason?: boolean
+    unsubscribedAt?: boolean
+    pausedAt?: boolean
+    cancelledAt?: boolean
+    timezone?: boolean
+    campaignId?: boolean
+    createdAt?: boolean
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+    scheduledMessages?: boolean | Lead$scheduledMessagesArgs<ExtArgs>
+    outboxEvents?: boolean | Lead$outboxEventsArgs<ExtArgs>
+    _count?: boolean | LeadCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["lead"]>
+
+  export type LeadSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    email?: boolean
+    phone?: boolean
+    notes?: boolean
+    maxMessages?: boolean
+    messageCount?: boolean
+    lastSentAt?: boolean
+    nextScheduledFor?: boolean
+    status?: boolean
+    lastProviderMessageId?: boolean
+    lastDeliveryStatus?: boolean
+    lastDeliveryError?: boolean
+    failureReason?: boolean
+    unsubscribedAt?: boolean
+    pausedAt?: boolean
+    cancelledAt?: boolean
+    timezone?: boolean
+    campaignId?: boolean
+    createdAt?: boolean
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+  }, ExtArgs["result"]["lead"]>
+
+  export type LeadSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    email?: boolean
+    phone?: boolean
+    notes?: boolean
+    maxMessages?: boolean
+    messageCount?: boolean
+    lastSentAt?: boolean
+    nextScheduledFor?: boolean
+    status?: boolean
+    lastProviderMessageId?: boolean
+    lastDeliveryStatus?: boolean
+    lastDeliveryError?: boolean
+    failureReason?: boolean
+    unsubscribedAt?: boolean
+    pausedAt?: boolean
+    cancelledAt?: boolean
+    timezone?: boolean
+    campaignId?: boolean
+    createdAt?: boolean
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+  }, ExtArgs["result"]["lead"]>
+
+  export type LeadSelectScalar = {
+    id?: boolean
+    name?: boolean
+    email?: boolean
+    phone?: boolean
+    notes?: boolean
+    maxMessages?: boolean
+    messageCount?: boolean
+    lastSentAt?: boolean
+    nextScheduledFor?: boolean
+    status?: boolean
+    lastProviderMessageId?: boolean
+    lastDeliveryStatus?: boolean
+    lastDeliveryError?: boolean
+    failureReason?: boolean
+    unsubscribedAt?: boolean
+    pausedAt?: boolean
+    cancelledAt?: boolean
+    timezone?: boolean
+    campaignId?: boolean
+    createdAt?: boolean
+  }
+
+  export type LeadOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "email" | "phone" | "notes" | "maxMessages" | "messageCount" | "lastSentAt" | "nextScheduledFor" | "status" | "lastProviderMessageId" | "lastDeliveryStatus" | "lastDeliveryError" | "failureReason" | "unsubscribedAt" | "pausedAt" | "cancelledAt" | "timezone" | "campaignId" | "createdAt", ExtArgs["result"]["lead"]>
+  export type LeadInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+    scheduledMessages?: boolean | Lead$scheduledMessagesArgs<ExtArgs>
+    outboxEvents?: boolean | Lead$outboxEventsArgs<ExtArgs>
+    _count?: boolean | LeadCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type LeadIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+  }
+  export type LeadIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | Lead$campaignArgs<ExtArgs>
+  }
+
+  export type $LeadPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Lead"
+    objects: {
+      campaign: Prisma.$CampaignPayload<ExtArgs> | null
+      scheduledMessages: Prisma.$ScheduledMessagePayload<ExtArgs>[]
+      outboxEvents: Prisma.$OutboxEventPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      name: string
+      email: string
+      phone: string
+      notes: string | null
+      maxMessages: number
+      messageCount: number
+      lastSentAt: Date | null
+      nextScheduledFor: Date | null
+      status: $Enums.LeadStatus
+      lastProviderMessageId: string | null
+      lastDeliveryStatus: $Enums.DeliveryStatus | null
+      lastDeliveryError: string | null
+      failureReason: string | null
+      unsubscribedAt: Date | null
+      pausedAt: Date | null
+      cancelledAt: Date | null
+      timezone: string | null
+      campaignId: string | null
+      createdAt: Date
+    }, ExtArgs["result"]["lead"]>
+    composites: {}
+  }
+
+  type LeadGetPayload<S extends boolean | null | undefined | LeadDefaultArgs> = $Result.GetResult<Prisma.$LeadPayload, S>
+
+  type LeadCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<LeadFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: LeadCountAggregateInputType | true
+    }
+
+  export interface LeadDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Lead'], meta: { name: 'Lead' } }
+    /**
+     * Find zero or one Lead that matches the filter.
+     * @param {LeadFindUniqueArgs} args - Arguments to find a Lead
+     * @example
+     * // Get one Lead
+     * const lead = await prisma.lead.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends LeadFindUniqueArgs>(args: SelectSubset<T, LeadFindUniqueArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Lead that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {LeadFindUniqueOrThrowArgs} args - Arguments to find a Lead
+     * @example
+     * // Get one Lead
+     * const lead = await prisma.lead.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends LeadFindUniqueOrThrowArgs>(args: SelectSubset<T, LeadFindUniqueOrThrowArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Lead that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadFindFirstArgs} args - Arguments to find a Lead
+     * @example
+     * // Get one Lead
+     * const lead = await prisma.lead.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends LeadFindFirstArgs>(args?: SelectSubset<T, LeadFindFirstArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Lead that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadFindFirstOrThrowArgs} args - Arguments to find a Lead
+     * @example
+     * // Get one Lead
+     * const lead = await prisma.lead.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends LeadFindFirstOrThrowArgs>(args?: SelectSubset<T, LeadFindFirstOrThrowArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Leads that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Leads
+     * const leads = await prisma.lead.findMany()
+     * 
+     * // Get first 10 Leads
+     * const leads = await prisma.lead.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const leadWithIdOnly = await prisma.lead.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends LeadFindManyArgs>(args?: SelectSubset<T, LeadFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Lead.
+     * @param {LeadCreateArgs} args - Arguments to create a Lead.
+     * @example
+     * // Create one Lead
+     * const Lead = await prisma.lead.create({
+     *   data: {
+     *     // ... data to create a Lead
+     *   }
+     * })
+     * 
+     */
+    create<T extends LeadCreateArgs>(args: SelectSubset<T, LeadCreateArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Leads.
+     * @param {LeadCreateManyArgs} args - Arguments to create many Leads.
+     * @example
+     * // Create many Leads
+     * const lead = await prisma.lead.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends LeadCreateManyArgs>(args?: SelectSubset<T, LeadCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Leads and returns the data saved in the database.
+     * @param {LeadCreateManyAndReturnArgs} args - Arguments to create many Leads.
+     * @example
+     * // Create many Leads
+     * const lead = await prisma.lead.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Leads and only return the `id`
+     * const leadWithIdOnly = await prisma.lead.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends LeadCreateManyAndReturnArgs>(args?: SelectSubset<T, LeadCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Lead.
+     * @param {LeadDeleteArgs} args - Arguments to delete one Lead.
+     * @example
+     * // Delete one Lead
+     * const Lead = await prisma.lead.delete({
+     *   where: {
+     *     // ... filter to delete one Lead
+     *   }
+     * })
+     * 
+     */
+    delete<T extends LeadDeleteArgs>(args: SelectSubset<T, LeadDeleteArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Lead.
+     * @param {LeadUpdateArgs} args - Arguments to update one Lead.
+     * @example
+     * // Update one Lead
+     * const lead = await prisma.lead.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends LeadUpdateArgs>(args: SelectSubset<T, LeadUpdateArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Leads.
+     * @param {LeadDeleteManyArgs} args - Arguments to filter Leads to delete.
+     * @example
+     * // Delete a few Leads
+     * const { count } = await prisma.lead.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends LeadDeleteManyArgs>(args?: SelectSubset<T, LeadDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Leads.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Leads
+     * const lead = await prisma.lead.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends LeadUpdateManyArgs>(args: SelectSubset<T, LeadUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Leads and returns the data updated in the database.
+     * @param {LeadUpdateManyAndReturnArgs} args - Arguments to update many Leads.
+     * @example
+     * // Update many Leads
+     * const lead = await prisma.lead.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Leads and only return the `id`
+     * const leadWithIdOnly = await prisma.lead.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends LeadUpdateManyAndReturnArgs>(args: SelectSubset<T, LeadUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Lead.
+     * @param {LeadUpsertArgs} args - Arguments to update or create a Lead.
+     * @example
+     * // Update or create a Lead
+     * const lead = await prisma.lead.upsert({
+     *   create: {
+     *     // ... data to create a Lead
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Lead we want to update
+     *   }
+     * })
+     */
+    upsert<T extends LeadUpsertArgs>(args: SelectSubset<T, LeadUpsertArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Leads.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadCountArgs} args - Arguments to filter Leads to count.
+     * @example
+     * // Count the number of Leads
+     * const count = await prisma.lead.count({
+     *   where: {
+     *     // ... the filter for the Leads we want to count
+     *   }
+     * })
+    **/
+    count<T extends LeadCountArgs>(
+      args?: Subset<T, LeadCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], LeadCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Lead.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends LeadAggregateArgs>(args: Subset<T, LeadAggregateArgs>): Prisma.PrismaPromise<GetLeadAggregateType<T>>
+
+    /**
+     * Group by Lead.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LeadGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends LeadGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: LeadGroupByArgs['orderBy'] }
+        : { orderBy?: LeadGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, LeadGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLeadGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Lead model
+   */
+  readonly fields: LeadFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Lead.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__LeadClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    campaign<T extends Lead$campaignArgs<ExtArgs> = {}>(args?: Subset<T, Lead$campaignArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    scheduledMessages<T extends Lead$scheduledMessagesArgs<ExtArgs> = {}>(args?: Subset<T, Lead$scheduledMessagesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    outboxEvents<T extends Lead$outboxEventsArgs<ExtArgs> = {}>(args?: Subset<T, Lead$outboxEventsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Lead model
+   */
+  interface LeadFieldRefs {
+    readonly id: FieldRef<"Lead", 'String'>
+    readonly name: FieldRef<"Lead", 'String'>
+    readonly email: FieldRef<"Lead", 'String'>
+    readonly phone: FieldRef<"Lead", 'String'>
+    readonly notes: FieldRef<"Lead", 'String'>
+    readonly maxMessages: FieldRef<"Lead", 'Int'>
+    readonly messageCount: FieldRef<"Lead", 'Int'>
+    readonly lastSentAt: FieldRef<"Lead", 'DateTime'>
+    readonly nextScheduledFor: FieldRef<"Lead", 'DateTime'>
+    readonly status: FieldRef<"Lead", 'LeadStatus'>
+    readonly lastProviderMessageId: FieldRef<"Lead", 'String'>
+    readonly lastDeliveryStatus: FieldRef<"Lead", 'DeliveryStatus'>
+    readonly lastDeliveryError: FieldRef<"Lead", 'String'>
+    readonly failureReason: FieldRef<"Lead", 'String'>
+    readonly unsubscribedAt: FieldRef<"Lead", 'DateTime'>
+    readonly pausedAt: FieldRef<"Lead", 'DateTime'>
+    readonly cancelledAt: FieldRef<"Lead", 'DateTime'>
+    readonly timezone: FieldRef<"Lead", 'String'>
+    readonly campaignId: FieldRef<"Lead", 'String'>
+    readonly createdAt: FieldRef<"Lead", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Lead findUnique
+   */
+  export type LeadFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter, which Lead to fetch.
+     */
+    where: LeadWhereUniqueInput
+  }
+
+  /**
+   * Lead findUniqueOrThrow
+   */
+  export type LeadFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter, which Lead to fetch.
+     */
+    where: LeadWhereUniqueInput
+  }
+
+  /**
+   * Lead findFirst
+   */
+  export type LeadFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter, which Lead to fetch.
+     */
+    where?: LeadWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Leads to fetch.
+     */
+    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Leads.
+     */
+    cursor?: LeadWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Leads from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Leads.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Leads.
+     */
+    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  }
+
+  /**
+   * Lead findFirstOrThrow
+   */
+  export type LeadFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter, which Lead to fetch.
+     */
+    where?: LeadWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Leads to fetch.
+     */
+    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Leads.
+     */
+    cursor?: LeadWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Leads from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Leads.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Leads.
+     */
+    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  }
+
+  /**
+   * Lead findMany
+   */
+  export type LeadFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter, which Leads to fetch.
+     */
+    where?: LeadWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Leads to fetch.
+     */
+    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Leads.
+     */
+    cursor?: LeadWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Leads from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Leads.
+     */
+    skip?: number
+    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  }
+
+  /**
+   * Lead create
+   */
+  export type LeadCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * The data needed to create a Lead.
+     */
+    data: XOR<LeadCreateInput, LeadUncheckedCreateInput>
+  }
+
+  /**
+   * Lead createMany
+   */
+  export type LeadCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Leads.
+     */
+    data: LeadCreateManyInput | LeadCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Lead createManyAndReturn
+   */
+  export type LeadCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * The data used to create many Leads.
+     */
+    data: LeadCreateManyInput | LeadCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * Lead update
+   */
+  export type LeadUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * The data needed to update a Lead.
+     */
+    data: XOR<LeadUpdateInput, LeadUncheckedUpdateInput>
+    /**
+     * Choose, which Lead to update.
+     */
+    where: LeadWhereUniqueInput
+  }
+
+  /**
+   * Lead updateMany
+   */
+  export type LeadUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Leads.
+     */
+    data: XOR<LeadUpdateManyMutationInput, LeadUncheckedUpdateManyInput>
+    /**
+     * Filter which Leads to update
+     */
+    where?: LeadWhereInput
+    /**
+     * Limit how many Leads to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Lead updateManyAndReturn
+   */
+  export type LeadUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * The data used to update Leads.
+     */
+    data: XOR<LeadUpdateManyMutationInput, LeadUncheckedUpdateManyInput>
+    /**
+     * Filter which Leads to update
+     */
+    where?: LeadWhereInput
+    /**
+     * Limit how many Leads to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * Lead upsert
+   */
+  export type LeadUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * The filter to search for the Lead to update in case it exists.
+     */
+    where: LeadWhereUniqueInput
+    /**
+     * In case the Lead found by the `where` argument doesn't exist, create a new Lead with this data.
+     */
+    create: XOR<LeadCreateInput, LeadUncheckedCreateInput>
+    /**
+     * In case the Lead was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<LeadUpdateInput, LeadUncheckedUpdateInput>
+  }
+
+  /**
+   * Lead delete
+   */
+  export type LeadDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    /**
+     * Filter which Lead to delete.
+     */
+    where: LeadWhereUniqueInput
+  }
+
+  /**
+   * Lead deleteMany
+   */
+  export type LeadDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Leads to delete
+     */
+    where?: LeadWhereInput
+    /**
+     * Limit how many Leads to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Lead.campaign
+   */
+  export type Lead$campaignArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    where?: CampaignWhereInput
+  }
+
+  /**
+   * Lead.scheduledMessages
+   */
+  export type Lead$scheduledMessagesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    where?: ScheduledMessageWhereInput
+    orderBy?: ScheduledMessageOrderByWithRelationInput | ScheduledMessageOrderByWithRelationInput[]
+    cursor?: ScheduledMessageWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ScheduledMessageScalarFieldEnum | ScheduledMessageScalarFieldEnum[]
+  }
+
+  /**
+   * Lead.outboxEvents
+   */
+  export type Lead$outboxEventsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    where?: OutboxEventWhereInput
+    orderBy?: OutboxEventOrderByWithRelationInput | OutboxEventOrderByWithRelationInput[]
+    cursor?: OutboxEventWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: OutboxEventScalarFieldEnum | OutboxEventScalarFieldEnum[]
+  }
+
+  /**
+   * Lead without action
+   */
+  export type LeadDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model MessageTemplate
+   */
+
+  export type AggregateMessageTemplate = {
+    _count: MessageTemplateCountAggregateOutputType | null
+    _avg: MessageTemplateAvgAggregateOutputType | null
+    _sum: MessageTemplateSumAggregateOutputType | null
+    _min: MessageTemplateMinAggregateOutputType | null
+    _max: MessageTemplateMaxAggregateOutputType | null
+  }
+
+  export type MessageTemplateAvgAggregateOutputType = {
+    stepNumber: number | null
+  }
+
+  export type MessageTemplateSumAggregateOutputType = {
+    stepNumber: number | null
+  }
+
+  export type MessageTemplateMinAggregateOutputType = {
+    id: string | null
+    name: string | null
+    stepNumber: number | null
+    channel: $Enums.Channel | null
+    subject: string | null
+    body: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type MessageTemplateMaxAggregateOutputType = {
+    id: string | null
+    name: string | null
+    stepNumber: number | null
+    channel: $Enums.Channel | null
+    subject: string | null
+    body: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type MessageTemplateCountAggregateOutputType = {
+    id: number
+    name: number
+    stepNumber: number
+    channel: number
+    subject: number
+    body: number
+    createdAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type MessageTemplateAvgAggregateInputType = {
+    stepNumber?: true
+  }
+
+  export type MessageTemplateSumAggregateInputType = {
+    stepNumber?: true
+  }
+
+  export type MessageTemplateMinAggregateInputType = {
+    id?: true
+    name?: true
+    stepNumber?: true
+    channel?: true
+    subject?: true
+    body?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type MessageTemplateMaxAggregateInputType = {
+    id?: true
+    name?: true
+    stepNumber?: true
+    channel?: true
+    subject?: true
+    body?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type MessageTemplateCountAggregateInputType = {
+    id?: true
+    name?: true
+    stepNumber?: true
+    channel?: true
+    subject?: true
+    body?: true
+    createdAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type MessageTemplateAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MessageTemplate to aggregate.
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MessageTemplates to fetch.
+     */
+    orderBy?: MessageTemplateOrderByWithRelationInput | MessageTemplateOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: MessageTemplateWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MessageTemplates from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MessageTemplates.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned MessageTemplates
+    **/
+    _count?: true | MessageTemplateCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: MessageTemplateAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: MessageTemplateSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: MessageTemplateMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: MessageTemplateMaxAggregateInputType
+  }
+
+  export type GetMessageTemplateAggregateType<T extends MessageTemplateAggregateArgs> = {
+        [P in keyof T & keyof AggregateMessageTemplate]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateMessageTemplate[P]>
+      : GetScalarType<T[P], AggregateMessageTemplate[P]>
+  }
+
+
+
+
+  export type MessageTemplateGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MessageTemplateWhereInput
+    orderBy?: MessageTemplateOrderByWithAggregationInput | MessageTemplateOrderByWithAggregationInput[]
+    by: MessageTemplateScalarFieldEnum[] | MessageTemplateScalarFieldEnum
+    having?: MessageTemplateScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: MessageTemplateCountAggregateInputType | true
+    _avg?: MessageTemplateAvgAggregateInputType
+    _sum?: MessageTemplateSumAggregateInputType
+    _min?: MessageTemplateMinAggregateInputType
+    _max?: MessageTemplateMaxAggregateInputType
+  }
+
+  export type MessageTemplateGroupByOutputType = {
+    id: string
+    name: string
+    stepNumber: number
+    channel: $Enums.Channel
+    subject: string | null
+    body: string
+    createdAt: Date
+    updatedAt: Date
+    _count: MessageTemplateCountAggregateOutputType | null
+    _avg: MessageTemplateAvgAggregateOutputType | null
+    _sum: MessageTemplateSumAggregateOutputType | null
+    _min: MessageTemplateMinAggregateOutputType | null
+    _max: MessageTemplateMaxAggregateOutputType | null
+  }
+
+  type GetMessageTemplateGroupByPayload<T extends MessageTemplateGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<MessageTemplateGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof MessageTemplateGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], MessageTemplateGroupByOutputType[P]>
+            : GetScalarType<T[P], MessageTemplateGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type MessageTemplateSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    stepNumber?: boolean
+    channel?: boolean
+    subject?: boolean
+    body?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    campaignSteps?: boolean | MessageTemplate$campaignStepsArgs<ExtArgs>
+    _count?: boolean | MessageTemplateCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["messageTemplate"]>
+
+  export type MessageTemplateSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    stepNumber?: boolean
+    channel?: boolean
+    subject?: boolean
+    body?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["messageTemplate"]>
+
+  export type MessageTemplateSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    stepNumber?: boolean
+    channel?: boolean
+    subject?: boolean
+    body?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["messageTemplate"]>
+
+  export type MessageTemplateSelectScalar = {
+    id?: boolean
+    name?: boolean
+    stepNumber?: boolean
+    channel?: boolean
+    subject?: boolean
+    body?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type MessageTemplateOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "stepNumber" | "channel" | "subject" | "body" | "createdAt" | "updatedAt", ExtArgs["result"]["messageTemplate"]>
+  export type MessageTemplateInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaignSteps?: boolean | MessageTemplate$campaignStepsArgs<ExtArgs>
+    _count?: boolean | MessageTemplateCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type MessageTemplateIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type MessageTemplateIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+
+  export type $MessageTemplatePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "MessageTemplate"
+    objects: {
+      campaignSteps: Prisma.$CampaignStepPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      name: string
+      stepNumber: number
+      channel: $Enums.Channel
+      subject: string | null
+      body: string
+      createdAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["messageTemplate"]>
+    composites: {}
+  }
+
+  type MessageTemplateGetPayload<S extends boolean | null | undefined | MessageTemplateDefaultArgs> = $Result.GetResult<Prisma.$MessageTemplatePayload, S>
+
+  type MessageTemplateCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<MessageTemplateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: MessageTemplateCountAggregateInputType | true
+    }
+
+  export interface MessageTemplateDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MessageTemplate'], meta: { name: 'MessageTemplate' } }
+    /**
+     * Find zero or one MessageTemplate that matches the filter.
+     * @param {MessageTemplateFindUniqueArgs} args - Arguments to find a MessageTemplate
+     * @example
+     * // Get one MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends MessageTemplateFindUniqueArgs>(args: SelectSubset<T, MessageTemplateFindUniqueArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one MessageTemplate that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {MessageTemplateFindUniqueOrThrowArgs} args - Arguments to find a MessageTemplate
+     * @example
+     * // Get one MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends MessageTemplateFindUniqueOrThrowArgs>(args: SelectSubset<T, MessageTemplateFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MessageTemplate that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateFindFirstArgs} args - Arguments to find a MessageTemplate
+     * @example
+     * // Get one MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends MessageTemplateFindFirstArgs>(args?: SelectSubset<T, MessageTemplateFindFirstArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MessageTemplate that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateFindFirstOrThrowArgs} args - Arguments to find a MessageTemplate
+     * @example
+     * // Get one MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends MessageTemplateFindFirstOrThrowArgs>(args?: SelectSubset<T, MessageTemplateFindFirstOrThrowArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more MessageTemplates that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all MessageTemplates
+     * const messageTemplates = await prisma.messageTemplate.findMany()
+     * 
+     * // Get first 10 MessageTemplates
+     * const messageTemplates = await prisma.messageTemplate.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const messageTemplateWithIdOnly = await prisma.messageTemplate.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends MessageTemplateFindManyArgs>(args?: SelectSubset<T, MessageTemplateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a MessageTemplate.
+     * @param {MessageTemplateCreateArgs} args - Arguments to create a MessageTemplate.
+     * @example
+     * // Create one MessageTemplate
+     * const MessageTemplate = await prisma.messageTemplate.create({
+     *   data: {
+     *     // ... data to create a MessageTemplate
+     *   }
+     * })
+     * 
+     */
+    create<T extends MessageTemplateCreateArgs>(args: SelectSubset<T, MessageTemplateCreateArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many MessageTemplates.
+     * @param {MessageTemplateCreateManyArgs} args - Arguments to create many MessageTemplates.
+     * @example
+     * // Create many MessageTemplates
+     * const messageTemplate = await prisma.messageTemplate.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends MessageTemplateCreateManyArgs>(args?: SelectSubset<T, MessageTemplateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many MessageTemplates and returns the data saved in the database.
+     * @param {MessageTemplateCreateManyAndReturnArgs} args - Arguments to create many MessageTemplates.
+     * @example
+     * // Create many MessageTemplates
+     * const messageTemplate = await prisma.messageTemplate.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many MessageTemplates and only return the `id`
+     * const messageTemplateWithIdOnly = await prisma.messageTemplate.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends MessageTemplateCreateManyAndReturnArgs>(args?: SelectSubset<T, MessageTemplateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a MessageTemplate.
+     * @param {MessageTemplateDeleteArgs} args - Arguments to delete one MessageTemplate.
+     * @example
+     * // Delete one MessageTemplate
+     * const MessageTemplate = await prisma.messageTemplate.delete({
+     *   where: {
+     *     // ... filter to delete one MessageTemplate
+     *   }
+     * })
+     * 
+     */
+    delete<T extends MessageTemplateDeleteArgs>(args: SelectSubset<T, MessageTemplateDeleteArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one MessageTemplate.
+     * @param {MessageTemplateUpdateArgs} args - Arguments to update one MessageTemplate.
+     * @example
+     * // Update one MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends MessageTemplateUpdateArgs>(args: SelectSubset<T, MessageTemplateUpdateArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more MessageTemplates.
+     * @param {MessageTemplateDeleteManyArgs} args - Arguments to filter MessageTemplates to delete.
+     * @example
+     * // Delete a few MessageTemplates
+     * const { count } = await prisma.messageTemplate.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends MessageTemplateDeleteManyArgs>(args?: SelectSubset<T, MessageTemplateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MessageTemplates.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many MessageTemplates
+     * const messageTemplate = await prisma.messageTemplate.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends MessageTemplateUpdateManyArgs>(args: SelectSubset<T, MessageTemplateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MessageTemplates and returns the data updated in the database.
+     * @param {MessageTemplateUpdateManyAndReturnArgs} args - Arguments to update many MessageTemplates.
+     * @example
+     * // Update many MessageTemplates
+     * const messageTemplate = await prisma.messageTemplate.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more MessageTemplates and only return the `id`
+     * const messageTemplateWithIdOnly = await prisma.messageTemplate.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends MessageTemplateUpdateManyAndReturnArgs>(args: SelectSubset<T, MessageTemplateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one MessageTemplate.
+     * @param {MessageTemplateUpsertArgs} args - Arguments to update or create a MessageTemplate.
+     * @example
+     * // Update or create a MessageTemplate
+     * const messageTemplate = await prisma.messageTemplate.upsert({
+     *   create: {
+     *     // ... data to create a MessageTemplate
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the MessageTemplate we want to update
+     *   }
+     * })
+     */
+    upsert<T extends MessageTemplateUpsertArgs>(args: SelectSubset<T, MessageTemplateUpsertArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of MessageTemplates.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateCountArgs} args - Arguments to filter MessageTemplates to count.
+     * @example
+     * // Count the number of MessageTemplates
+     * const count = await prisma.messageTemplate.count({
+     *   where: {
+     *     // ... the filter for the MessageTemplates we want to count
+     *   }
+     * })
+    **/
+    count<T extends MessageTemplateCountArgs>(
+      args?: Subset<T, MessageTemplateCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], MessageTemplateCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a MessageTemplate.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends MessageTemplateAggregateArgs>(args: Subset<T, MessageTemplateAggregateArgs>): Prisma.PrismaPromise<GetMessageTemplateAggregateType<T>>
+
+    /**
+     * Group by MessageTemplate.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MessageTemplateGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends MessageTemplateGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: MessageTemplateGroupByArgs['orderBy'] }
+        : { orderBy?: MessageTemplateGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, MessageTemplateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMessageTemplateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the MessageTemplate model
+   */
+  readonly fields: MessageTemplateFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for MessageTemplate.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__MessageTemplateClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    campaignSteps<T extends MessageTemplate$campaignStepsArgs<ExtArgs> = {}>(args?: Subset<T, MessageTemplate$campaignStepsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the MessageTemplate model
+   */
+  interface MessageTemplateFieldRefs {
+    readonly id: FieldRef<"MessageTemplate", 'String'>
+    readonly name: FieldRef<"MessageTemplate", 'String'>
+    readonly stepNumber: FieldRef<"MessageTemplate", 'Int'>
+    readonly channel: FieldRef<"MessageTemplate", 'Channel'>
+    readonly subject: FieldRef<"MessageTemplate", 'String'>
+    readonly body: FieldRef<"MessageTemplate", 'String'>
+    readonly createdAt: FieldRef<"MessageTemplate", 'DateTime'>
+    readonly updatedAt: FieldRef<"MessageTemplate", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * MessageTemplate findUnique
+   */
+  export type MessageTemplateFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter, which MessageTemplate to fetch.
+     */
+    where: MessageTemplateWhereUniqueInput
+  }
+
+  /**
+   * MessageTemplate findUniqueOrThrow
+   */
+  export type MessageTemplateFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter, which MessageTemplate to fetch.
+     */
+    where: MessageTemplateWhereUniqueInput
+  }
+
+  /**
+   * MessageTemplate findFirst
+   */
+  export type MessageTemplateFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter, which MessageTemplate to fetch.
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MessageTemplates to fetch.
+     */
+    orderBy?: MessageTemplateOrderByWithRelationInput | MessageTemplateOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MessageTemplates.
+     */
+    cursor?: MessageTemplateWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MessageTemplates from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MessageTemplates.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MessageTemplates.
+     */
+    distinct?: MessageTemplateScalarFieldEnum | MessageTemplateScalarFieldEnum[]
+  }
+
+  /**
+   * MessageTemplate findFirstOrThrow
+   */
+  export type MessageTemplateFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter, which MessageTemplate to fetch.
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MessageTemplates to fetch.
+     */
+    orderBy?: MessageTemplateOrderByWithRelationInput | MessageTemplateOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MessageTemplates.
+     */
+    cursor?: MessageTemplateWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MessageTemplates from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MessageTemplates.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MessageTemplates.
+     */
+    distinct?: MessageTemplateScalarFieldEnum | MessageTemplateScalarFieldEnum[]
+  }
+
+  /**
+   * MessageTemplate findMany
+   */
+  export type MessageTemplateFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter, which MessageTemplates to fetch.
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MessageTemplates to fetch.
+     */
+    orderBy?: MessageTemplateOrderByWithRelationInput | MessageTemplateOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing MessageTemplates.
+     */
+    cursor?: MessageTemplateWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MessageTemplates from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MessageTemplates.
+     */
+    skip?: number
+    distinct?: MessageTemplateScalarFieldEnum | MessageTemplateScalarFieldEnum[]
+  }
+
+  /**
+   * MessageTemplate create
+   */
+  export type MessageTemplateCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * The data needed to create a MessageTemplate.
+     */
+    data: XOR<MessageTemplateCreateInput, MessageTemplateUncheckedCreateInput>
+  }
+
+  /**
+   * MessageTemplate createMany
+   */
+  export type MessageTemplateCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many MessageTemplates.
+     */
+    data: MessageTemplateCreateManyInput | MessageTemplateCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * MessageTemplate createManyAndReturn
+   */
+  export type MessageTemplateCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * The data used to create many MessageTemplates.
+     */
+    data: MessageTemplateCreateManyInput | MessageTemplateCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * MessageTemplate update
+   */
+  export type MessageTemplateUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * The data needed to update a MessageTemplate.
+     */
+    data: XOR<MessageTemplateUpdateInput, MessageTemplateUncheckedUpdateInput>
+    /**
+     * Choose, which MessageTemplate to update.
+     */
+    where: MessageTemplateWhereUniqueInput
+  }
+
+  /**
+   * MessageTemplate updateMany
+   */
+  export type MessageTemplateUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update MessageTemplates.
+     */
+    data: XOR<MessageTemplateUpdateManyMutationInput, MessageTemplateUncheckedUpdateManyInput>
+    /**
+     * Filter which MessageTemplates to update
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * Limit how many MessageTemplates to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * MessageTemplate updateManyAndReturn
+   */
+  export type MessageTemplateUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * The data used to update MessageTemplates.
+     */
+    data: XOR<MessageTemplateUpdateManyMutationInput, MessageTemplateUncheckedUpdateManyInput>
+    /**
+     * Filter which MessageTemplates to update
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * Limit how many MessageTemplates to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * MessageTemplate upsert
+   */
+  export type MessageTemplateUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * The filter to search for the MessageTemplate to update in case it exists.
+     */
+    where: MessageTemplateWhereUniqueInput
+    /**
+     * In case the MessageTemplate found by the `where` argument doesn't exist, create a new MessageTemplate with this data.
+     */
+    create: XOR<MessageTemplateCreateInput, MessageTemplateUncheckedCreateInput>
+    /**
+     * In case the MessageTemplate was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<MessageTemplateUpdateInput, MessageTemplateUncheckedUpdateInput>
+  }
+
+  /**
+   * MessageTemplate delete
+   */
+  export type MessageTemplateDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    /**
+     * Filter which MessageTemplate to delete.
+     */
+    where: MessageTemplateWhereUniqueInput
+  }
+
+  /**
+   * MessageTemplate deleteMany
+   */
+  export type MessageTemplateDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MessageTemplates to delete
+     */
+    where?: MessageTemplateWhereInput
+    /**
+     * Limit how many MessageTemplates to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * MessageTemplate.campaignSteps
+   */
+  export type MessageTemplate$campaignStepsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    where?: CampaignStepWhereInput
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    cursor?: CampaignStepWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: CampaignStepScalarFieldEnum | CampaignStepScalarFieldEnum[]
+  }
+
+  /**
+   * MessageTemplate without action
+   */
+  export type MessageTemplateDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model Campaign
+   */
+
+  export type AggregateCampaign = {
+    _count: CampaignCountAggregateOutputType | null
+    _avg: CampaignAvgAggregateOutputType | null
+    _sum: CampaignSumAggregateOutputType | null
+    _min: CampaignMinAggregateOutputType | null
+    _max: CampaignMaxAggregateOutputType | null
+  }
+
+  export type CampaignAvgAggregateOutputType = {
+    dailyCap: number | null
+    sendDays: number | null
+  }
+
+  export type CampaignSumAggregateOutputType = {
+    dailyCap: number | null
+    sendDays: number[]
+  }
+
+  export type CampaignMinAggregateOutputType = {
+    id: string | null
+    name: string | null
+    dailyCap: number | null
+    sendWindowStart: string | null
+    sendWindowEnd: string | null
+    createdAt: Date | null
+  }
+
+  export type CampaignMaxAggregateOutputType = {
+    id: string | null
+    name: string | null
+    dailyCap: number | null
+    sendWindowStart: string | null
+    sendWindowEnd: string | null
+    createdAt: Date | null
+  }
+
+  export type CampaignCountAggregateOutputType = {
+    id: number
+    name: number
+    dailyCap: number
+    sendWindowStart: number
+    sendWindowEnd: number
+    sendDays: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type CampaignAvgAggregateInputType = {
+    dailyCap?: true
+    sendDays?: true
+  }
+
+  export type CampaignSumAggregateInputType = {
+    dailyCap?: true
+    sendDays?: true
+  }
+
+  export type CampaignMinAggregateInputType = {
+    id?: true
+    name?: true
+    dailyCap?: true
+    sendWindowStart?: true
+    sendWindowEnd?: true
+    createdAt?: true
+  }
+
+  export type CampaignMaxAggregateInputType = {
+    id?: true
+    name?: true
+    dailyCap?: true
+    sendWindowStart?: true
+    sendWindowEnd?: true
+    createdAt?: true
+  }
+
+  export type CampaignCountAggregateInputType = {
+    id?: true
+    name?: true
+    dailyCap?: true
+    sendWindowStart?: true
+    sendWindowEnd?: true
+    sendDays?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type CampaignAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Campaign to aggregate.
+     */
+    where?: CampaignWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Campaigns to fetch.
+     */
+    orderBy?: CampaignOrderByWithRelationInput | CampaignOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: CampaignWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Campaigns from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Campaigns.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Campaigns
+    **/
+    _count?: true | CampaignCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: CampaignAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: CampaignSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: CampaignMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: CampaignMaxAggregateInputType
+  }
+
+  export type GetCampaignAggregateType<T extends CampaignAggregateArgs> = {
+        [P in keyof T & keyof AggregateCampaign]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateCampaign[P]>
+      : GetScalarType<T[P], AggregateCampaign[P]>
+  }
+
+
+
+
+  export type CampaignGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: CampaignWhereInput
+    orderBy?: CampaignOrderByWithAggregationInput | CampaignOrderByWithAggregationInput[]
+    by: CampaignScalarFieldEnum[] | CampaignScalarFieldEnum
+    having?: CampaignScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: CampaignCountAggregateInputType | true
+    _avg?: CampaignAvgAggregateInputType
+    _sum?: CampaignSumAggregateInputType
+    _min?: CampaignMinAggregateInputType
+    _max?: CampaignMaxAggregateInputType
+  }
+
+  export type CampaignGroupByOutputType = {
+    id: string
+    name: string
+    dailyCap: number | null
+    sendWindowStart: string | null
+    sendWindowEnd: string | null
+    sendDays: number[]
+    createdAt: Date
+    _count: CampaignCountAggregateOutputType | null
+    _avg: CampaignAvgAggregateOutputType | null
+    _sum: CampaignSumAggregateOutputType | null
+    _min: CampaignMinAggregateOutputType | null
+    _max: CampaignMaxAggregateOutputType | null
+  }
+
+  type GetCampaignGroupByPayload<T extends CampaignGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<CampaignGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof CampaignGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], CampaignGroupByOutputType[P]>
+            : GetScalarType<T[P], CampaignGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type CampaignSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    dailyCap?: boolean
+    sendWindowStart?: boolean
+    sendWindowEnd?: boolean
+    sendDays?: boolean
+    createdAt?: boolean
+    steps?: boolean | Campaign$stepsArgs<ExtArgs>
+    leads?: boolean | Campaign$leadsArgs<ExtArgs>
+    _count?: boolean | CampaignCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["campaign"]>
+
+  export type CampaignSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    dailyCap?: boolean
+    sendWindowStart?: boolean
+    sendWindowEnd?: boolean
+    sendDays?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["campaign"]>
+
+  export type CampaignSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    dailyCap?: boolean
+    sendWindowStart?: boolean
+    sendWindowEnd?: boolean
+    sendDays?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["campaign"]>
+
+  export type CampaignSelectScalar = {
+    id?: boolean
+    name?: boolean
+    dailyCap?: boolean
+    sendWindowStart?: boolean
+    sendWindowEnd?: boolean
+    sendDays?: boolean
+    createdAt?: boolean
+  }
+
+  export type CampaignOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "dailyCap" | "sendWindowStart" | "sendWindowEnd" | "sendDays" | "createdAt", ExtArgs["result"]["campaign"]>
+  export type CampaignInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    steps?: boolean | Campaign$stepsArgs<ExtArgs>
+    leads?: boolean | Campaign$leadsArgs<ExtArgs>
+    _count?: boolean | CampaignCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type CampaignIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type CampaignIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+
+  export type $CampaignPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Campaign"
+    objects: {
+      steps: Prisma.$CampaignStepPayload<ExtArgs>[]
+      leads: Prisma.$LeadPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      name: string
+      dailyCap: number | null
+      sendWindowStart: string | null
+      sendWindowEnd: string | null
+      sendDays: number[]
+      createdAt: Date
+    }, ExtArgs["result"]["campaign"]>
+    composites: {}
+  }
+
+  type CampaignGetPayload<S extends boolean | null | undefined | CampaignDefaultArgs> = $Result.GetResult<Prisma.$CampaignPayload, S>
+
+  type CampaignCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<CampaignFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: CampaignCountAggregateInputType | true
+    }
+
+  export interface CampaignDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Campaign'], meta: { name: 'Campaign' } }
+    /**
+     * Find zero or one Campaign that matches the filter.
+     * @param {CampaignFindUniqueArgs} args - Arguments to find a Campaign
+     * @example
+     * // Get one Campaign
+     * const campaign = await prisma.campaign.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends CampaignFindUniqueArgs>(args: SelectSubset<T, CampaignFindUniqueArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Campaign that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {CampaignFindUniqueOrThrowArgs} args - Arguments to find a Campaign
+     * @example
+     * // Get one Campaign
+     * const campaign = await prisma.campaign.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends CampaignFindUniqueOrThrowArgs>(args: SelectSubset<T, CampaignFindUniqueOrThrowArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Campaign that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignFindFirstArgs} args - Arguments to find a Campaign
+     * @example
+     * // Get one Campaign
+     * const campaign = await prisma.campaign.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends CampaignFindFirstArgs>(args?: SelectSubset<T, CampaignFindFirstArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Campaign that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignFindFirstOrThrowArgs} args - Arguments to find a Campaign
+     * @example
+     * // Get one Campaign
+     * const campaign = await prisma.campaign.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends CampaignFindFirstOrThrowArgs>(args?: SelectSubset<T, CampaignFindFirstOrThrowArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Campaigns that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Campaigns
+     * const campaigns = await prisma.campaign.findMany()
+     * 
+     * // Get first 10 Campaigns
+     * const campaigns = await prisma.campaign.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const campaignWithIdOnly = await prisma.campaign.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends CampaignFindManyArgs>(args?: SelectSubset<T, CampaignFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Campaign.
+     * @param {CampaignCreateArgs} args - Arguments to create a Campaign.
+     * @example
+     * // Create one Campaign
+     * const Campaign = await prisma.campaign.create({
+     *   data: {
+     *     // ... data to create a Campaign
+     *   }
+     * })
+     * 
+     */
+    create<T extends CampaignCreateArgs>(args: SelectSubset<T, CampaignCreateArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Campaigns.
+     * @param {CampaignCreateManyArgs} args - Arguments to create many Campaigns.
+     * @example
+     * // Create many Campaigns
+     * const campaign = await prisma.campaign.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends CampaignCreateManyArgs>(args?: SelectSubset<T, CampaignCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Campaigns and returns the data saved in the database.
+     * @param {CampaignCreateManyAndReturnArgs} args - Arguments to create many Campaigns.
+     * @example
+     * // Create many Campaigns
+     * const campaign = await prisma.campaign.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Campaigns and only return the `id`
+     * const campaignWithIdOnly = await prisma.campaign.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends CampaignCreateManyAndReturnArgs>(args?: SelectSubset<T, CampaignCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Campaign.
+     * @param {CampaignDeleteArgs} args - Arguments to delete one Campaign.
+     * @example
+     * // Delete one Campaign
+     * const Campaign = await prisma.campaign.delete({
+     *   where: {
+     *     // ... filter to delete one Campaign
+     *   }
+     * })
+     * 
+     */
+    delete<T extends CampaignDeleteArgs>(args: SelectSubset<T, CampaignDeleteArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Campaign.
+     * @param {CampaignUpdateArgs} args - Arguments to update one Campaign.
+     * @example
+     * // Update one Campaign
+     * const campaign = await prisma.campaign.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends CampaignUpdateArgs>(args: SelectSubset<T, CampaignUpdateArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Campaigns.
+     * @param {CampaignDeleteManyArgs} args - Arguments to filter Campaigns to delete.
+     * @example
+     * // Delete a few Campaigns
+     * const { count } = await prisma.campaign.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends CampaignDeleteManyArgs>(args?: SelectSubset<T, CampaignDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Campaigns.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Campaigns
+     * const campaign = await prisma.campaign.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends CampaignUpdateManyArgs>(args: SelectSubset<T, CampaignUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Campaigns and returns the data updated in the database.
+     * @param {CampaignUpdateManyAndReturnArgs} args - Arguments to update many Campaigns.
+     * @example
+     * // Update many Campaigns
+     * const campaign = await prisma.campaign.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Campaigns and only return the `id`
+     * const campaignWithIdOnly = await prisma.campaign.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends CampaignUpdateManyAndReturnArgs>(args: SelectSubset<T, CampaignUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Campaign.
+     * @param {CampaignUpsertArgs} args - Arguments to update or create a Campaign.
+     * @example
+     * // Update or create a Campaign
+     * const campaign = await prisma.campaign.upsert({
+     *   create: {
+     *     // ... data to create a Campaign
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Campaign we want to update
+     *   }
+     * })
+     */
+    upsert<T extends CampaignUpsertArgs>(args: SelectSubset<T, CampaignUpsertArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Campaigns.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignCountArgs} args - Arguments to filter Campaigns to count.
+     * @example
+     * // Count the number of Campaigns
+     * const count = await prisma.campaign.count({
+     *   where: {
+     *     // ... the filter for the Campaigns we want to count
+     *   }
+     * })
+    **/
+    count<T extends CampaignCountArgs>(
+      args?: Subset<T, CampaignCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], CampaignCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Campaign.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends CampaignAggregateArgs>(args: Subset<T, CampaignAggregateArgs>): Prisma.PrismaPromise<GetCampaignAggregateType<T>>
+
+    /**
+     * Group by Campaign.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends CampaignGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: CampaignGroupByArgs['orderBy'] }
+        : { orderBy?: CampaignGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, CampaignGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCampaignGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Campaign model
+   */
+  readonly fields: CampaignFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Campaign.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__CampaignClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    steps<T extends Campaign$stepsArgs<ExtArgs> = {}>(args?: Subset<T, Campaign$stepsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    leads<T extends Campaign$leadsArgs<ExtArgs> = {}>(args?: Subset<T, Campaign$leadsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Campaign model
+   */
+  interface CampaignFieldRefs {
+    readonly id: FieldRef<"Campaign", 'String'>
+    readonly name: FieldRef<"Campaign", 'String'>
+    readonly dailyCap: FieldRef<"Campaign", 'Int'>
+    readonly sendWindowStart: FieldRef<"Campaign", 'String'>
+    readonly sendWindowEnd: FieldRef<"Campaign", 'String'>
+    readonly sendDays: FieldRef<"Campaign", 'Int[]'>
+    readonly createdAt: FieldRef<"Campaign", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Campaign findUnique
+   */
+  export type CampaignFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter, which Campaign to fetch.
+     */
+    where: CampaignWhereUniqueInput
+  }
+
+  /**
+   * Campaign findUniqueOrThrow
+   */
+  export type CampaignFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter, which Campaign to fetch.
+     */
+    where: CampaignWhereUniqueInput
+  }
+
+  /**
+   * Campaign findFirst
+   */
+  export type CampaignFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter, which Campaign to fetch.
+     */
+    where?: CampaignWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Campaigns to fetch.
+     */
+    orderBy?: CampaignOrderByWithRelationInput | CampaignOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Campaigns.
+     */
+    cursor?: CampaignWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Campaigns from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Campaigns.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Campaigns.
+     */
+    distinct?: CampaignScalarFieldEnum | CampaignScalarFieldEnum[]
+  }
+
+  /**
+   * Campaign findFirstOrThrow
+   */
+  export type CampaignFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter, which Campaign to fetch.
+     */
+    where?: CampaignWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Campaigns to fetch.
+     */
+    orderBy?: CampaignOrderByWithRelationInput | CampaignOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Campaigns.
+     */
+    cursor?: CampaignWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Campaigns from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Campaigns.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Campaigns.
+     */
+    distinct?: CampaignScalarFieldEnum | CampaignScalarFieldEnum[]
+  }
+
+  /**
+   * Campaign findMany
+   */
+  export type CampaignFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter, which Campaigns to fetch.
+     */
+    where?: CampaignWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Campaigns to fetch.
+     */
+    orderBy?: CampaignOrderByWithRelationInput | CampaignOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Campaigns.
+     */
+    cursor?: CampaignWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Campaigns from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Campaigns.
+     */
+    skip?: number
+    distinct?: CampaignScalarFieldEnum | CampaignScalarFieldEnum[]
+  }
+
+  /**
+   * Campaign create
+   */
+  export type CampaignCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * The data needed to create a Campaign.
+     */
+    data: XOR<CampaignCreateInput, CampaignUncheckedCreateInput>
+  }
+
+  /**
+   * Campaign createMany
+   */
+  export type CampaignCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Campaigns.
+     */
+    data: CampaignCreateManyInput | CampaignCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Campaign createManyAndReturn
+   */
+  export type CampaignCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * The data used to create many Campaigns.
+     */
+    data: CampaignCreateManyInput | CampaignCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Campaign update
+   */
+  export type CampaignUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * The data needed to update a Campaign.
+     */
+    data: XOR<CampaignUpdateInput, CampaignUncheckedUpdateInput>
+    /**
+     * Choose, which Campaign to update.
+     */
+    where: CampaignWhereUniqueInput
+  }
+
+  /**
+   * Campaign updateMany
+   */
+  export type CampaignUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Campaigns.
+     */
+    data: XOR<CampaignUpdateManyMutationInput, CampaignUncheckedUpdateManyInput>
+    /**
+     * Filter which Campaigns to update
+     */
+    where?: CampaignWhereInput
+    /**
+     * Limit how many Campaigns to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Campaign updateManyAndReturn
+   */
+  export type CampaignUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * The data used to update Campaigns.
+     */
+    data: XOR<CampaignUpdateManyMutationInput, CampaignUncheckedUpdateManyInput>
+    /**
+     * Filter which Campaigns to update
+     */
+    where?: CampaignWhereInput
+    /**
+     * Limit how many Campaigns to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Campaign upsert
+   */
+  export type CampaignUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * The filter to search for the Campaign to update in case it exists.
+     */
+    where: CampaignWhereUniqueInput
+    /**
+     * In case the Campaign found by the `where` argument doesn't exist, create a new Campaign with this data.
+     */
+    create: XOR<CampaignCreateInput, CampaignUncheckedCreateInput>
+    /**
+     * In case the Campaign was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<CampaignUpdateInput, CampaignUncheckedUpdateInput>
+  }
+
+  /**
+   * Campaign delete
+   */
+  export type CampaignDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+    /**
+     * Filter which Campaign to delete.
+     */
+    where: CampaignWhereUniqueInput
+  }
+
+  /**
+   * Campaign deleteMany
+   */
+  export type CampaignDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Campaigns to delete
+     */
+    where?: CampaignWhereInput
+    /**
+     * Limit how many Campaigns to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Campaign.steps
+   */
+  export type Campaign$stepsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    where?: CampaignStepWhereInput
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    cursor?: CampaignStepWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: CampaignStepScalarFieldEnum | CampaignStepScalarFieldEnum[]
+  }
+
+  /**
+   * Campaign.leads
+   */
+  export type Campaign$leadsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    where?: LeadWhereInput
+    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
+    cursor?: LeadWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  }
+
+  /**
+   * Campaign without action
+   */
+  export type CampaignDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Campaign
+     */
+    select?: CampaignSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Campaign
+     */
+    omit?: CampaignOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model CampaignStep
+   */
+
+  export type AggregateCampaignStep = {
+    _count: CampaignStepCountAggregateOutputType | null
+    _avg: CampaignStepAvgAggregateOutputType | null
+    _sum: CampaignStepSumAggregateOutputType | null
+    _min: CampaignStepMinAggregateOutputType | null
+    _max: CampaignStepMaxAggregateOutputType | null
+  }
+
+  export type CampaignStepAvgAggregateOutputType = {
+    stepNumber: number | null
+    delayDays: number | null
+  }
+
+  export type CampaignStepSumAggregateOutputType = {
+    stepNumber: number | null
+    delayDays: number | null
+  }
+
+  export type CampaignStepMinAggregateOutputType = {
+    id: string | null
+    campaignId: string | null
+    stepNumber: number | null
+    delayDays: number | null
+    channel: $Enums.Channel | null
+    templateId: string | null
+  }
+
+  export type CampaignStepMaxAggregateOutputType = {
+    id: string | null
+    campaignId: string | null
+    stepNumber: number | null
+    delayDays: number | null
+    channel: $Enums.Channel | null
+    templateId: string | null
+  }
+
+  export type CampaignStepCountAggregateOutputType = {
+    id: number
+    campaignId: number
+    stepNumber: number
+    delayDays: number
+    channel: number
+    templateId: number
+    _all: number
+  }
+
+
+  export type CampaignStepAvgAggregateInputType = {
+    stepNumber?: true
+    delayDays?: true
+  }
+
+  export type CampaignStepSumAggregateInputType = {
+    stepNumber?: true
+    delayDays?: true
+  }
+
+  export type CampaignStepMinAggregateInputType = {
+    id?: true
+    campaignId?: true
+    stepNumber?: true
+    delayDays?: true
+    channel?: true
+    templateId?: true
+  }
+
+  export type CampaignStepMaxAggregateInputType = {
+    id?: true
+    campaignId?: true
+    stepNumber?: true
+    delayDays?: true
+    channel?: true
+    templateId?: true
+  }
+
+  export type CampaignStepCountAggregateInputType = {
+    id?: true
+    campaignId?: true
+    stepNumber?: true
+    delayDays?: true
+    channel?: true
+    templateId?: true
+    _all?: true
+  }
+
+  export type CampaignStepAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which CampaignStep to aggregate.
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of CampaignSteps to fetch.
+     */
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: CampaignStepWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` CampaignSteps from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` CampaignSteps.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned CampaignSteps
+    **/
+    _count?: true | CampaignStepCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: CampaignStepAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: CampaignStepSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: CampaignStepMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: CampaignStepMaxAggregateInputType
+  }
+
+  export type GetCampaignStepAggregateType<T extends CampaignStepAggregateArgs> = {
+        [P in keyof T & keyof AggregateCampaignStep]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateCampaignStep[P]>
+      : GetScalarType<T[P], AggregateCampaignStep[P]>
+  }
+
+
+
+
+  export type CampaignStepGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: CampaignStepWhereInput
+    orderBy?: CampaignStepOrderByWithAggregationInput | CampaignStepOrderByWithAggregationInput[]
+    by: CampaignStepScalarFieldEnum[] | CampaignStepScalarFieldEnum
+    having?: CampaignStepScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: CampaignStepCountAggregateInputType | true
+    _avg?: CampaignStepAvgAggregateInputType
+    _sum?: CampaignStepSumAggregateInputType
+    _min?: CampaignStepMinAggregateInputType
+    _max?: CampaignStepMaxAggregateInputType
+  }
+
+  export type CampaignStepGroupByOutputType = {
+    id: string
+    campaignId: string
+    stepNumber: number
+    delayDays: number
+    channel: $Enums.Channel
+    templateId: string | null
+    _count: CampaignStepCountAggregateOutputType | null
+    _avg: CampaignStepAvgAggregateOutputType | null
+    _sum: CampaignStepSumAggregateOutputType | null
+    _min: CampaignStepMinAggregateOutputType | null
+    _max: CampaignStepMaxAggregateOutputType | null
+  }
+
+  type GetCampaignStepGroupByPayload<T extends CampaignStepGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<CampaignStepGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof CampaignStepGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], CampaignStepGroupByOutputType[P]>
+            : GetScalarType<T[P], CampaignStepGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type CampaignStepSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    campaignId?: boolean
+    stepNumber?: boolean
+    delayDays?: boolean
+    channel?: boolean
+    templateId?: boolean
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }, ExtArgs["result"]["campaignStep"]>
+
+  export type CampaignStepSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    campaignId?: boolean
+    stepNumber?: boolean
+    delayDays?: boolean
+    channel?: boolean
+    templateId?: boolean
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }, ExtArgs["result"]["campaignStep"]>
+
+  export type CampaignStepSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    campaignId?: boolean
+    stepNumber?: boolean
+    delayDays?: boolean
+    channel?: boolean
+    templateId?: boolean
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }, ExtArgs["result"]["campaignStep"]>
+
+  export type CampaignStepSelectScalar = {
+    id?: boolean
+    campaignId?: boolean
+    stepNumber?: boolean
+    delayDays?: boolean
+    channel?: boolean
+    templateId?: boolean
+  }
+
+  export type CampaignStepOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "campaignId" | "stepNumber" | "delayDays" | "channel" | "templateId", ExtArgs["result"]["campaignStep"]>
+  export type CampaignStepInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }
+  export type CampaignStepIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }
+  export type CampaignStepIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    campaign?: boolean | CampaignDefaultArgs<ExtArgs>
+    template?: boolean | CampaignStep$templateArgs<ExtArgs>
+  }
+
+  export type $CampaignStepPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "CampaignStep"
+    objects: {
+      campaign: Prisma.$CampaignPayload<ExtArgs>
+      template: Prisma.$MessageTemplatePayload<ExtArgs> | null
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      campaignId: string
+      stepNumber: number
+      delayDays: number
+      channel: $Enums.Channel
+      templateId: string | null
+    }, ExtArgs["result"]["campaignStep"]>
+    composites: {}
+  }
+
+  type CampaignStepGetPayload<S extends boolean | null | undefined | CampaignStepDefaultArgs> = $Result.GetResult<Prisma.$CampaignStepPayload, S>
+
+  type CampaignStepCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<CampaignStepFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: CampaignStepCountAggregateInputType | true
+    }
+
+  export interface CampaignStepDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CampaignStep'], meta: { name: 'CampaignStep' } }
+    /**
+     * Find zero or one CampaignStep that matches the filter.
+     * @param {CampaignStepFindUniqueArgs} args - Arguments to find a CampaignStep
+     * @example
+     * // Get one CampaignStep
+     * const campaignStep = await prisma.campaignStep.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends CampaignStepFindUniqueArgs>(args: SelectSubset<T, CampaignStepFindUniqueArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one CampaignStep that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {CampaignStepFindUniqueOrThrowArgs} args - Arguments to find a CampaignStep
+     * @example
+     * // Get one CampaignStep
+     * const campaignStep = await prisma.campaignStep.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends CampaignStepFindUniqueOrThrowArgs>(args: SelectSubset<T, CampaignStepFindUniqueOrThrowArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first CampaignStep that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepFindFirstArgs} args - Arguments to find a CampaignStep
+     * @example
+     * // Get one CampaignStep
+     * const campaignStep = await prisma.campaignStep.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends CampaignStepFindFirstArgs>(args?: SelectSubset<T, CampaignStepFindFirstArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first CampaignStep that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepFindFirstOrThrowArgs} args - Arguments to find a CampaignStep
+     * @example
+     * // Get one CampaignStep
+     * const campaignStep = await prisma.campaignStep.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends CampaignStepFindFirstOrThrowArgs>(args?: SelectSubset<T, CampaignStepFindFirstOrThrowArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more CampaignSteps that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all CampaignSteps
+     * const campaignSteps = await prisma.campaignStep.findMany()
+     * 
+     * // Get first 10 CampaignSteps
+     * const campaignSteps = await prisma.campaignStep.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const campaignStepWithIdOnly = await prisma.campaignStep.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends CampaignStepFindManyArgs>(args?: SelectSubset<T, CampaignStepFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a CampaignStep.
+     * @param {CampaignStepCreateArgs} args - Arguments to create a CampaignStep.
+     * @example
+     * // Create one CampaignStep
+     * const CampaignStep = await prisma.campaignStep.create({
+     *   data: {
+     *     // ... data to create a CampaignStep
+     *   }
+     * })
+     * 
+     */
+    create<T extends CampaignStepCreateArgs>(args: SelectSubset<T, CampaignStepCreateArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many CampaignSteps.
+     * @param {CampaignStepCreateManyArgs} args - Arguments to create many CampaignSteps.
+     * @example
+     * // Create many CampaignSteps
+     * const campaignStep = await prisma.campaignStep.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends CampaignStepCreateManyArgs>(args?: SelectSubset<T, CampaignStepCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many CampaignSteps and returns the data saved in the database.
+     * @param {CampaignStepCreateManyAndReturnArgs} args - Arguments to create many CampaignSteps.
+     * @example
+     * // Create many CampaignSteps
+     * const campaignStep = await prisma.campaignStep.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many CampaignSteps and only return the `id`
+     * const campaignStepWithIdOnly = await prisma.campaignStep.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends CampaignStepCreateManyAndReturnArgs>(args?: SelectSubset<T, CampaignStepCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a CampaignStep.
+     * @param {CampaignStepDeleteArgs} args - Arguments to delete one CampaignStep.
+     * @example
+     * // Delete one CampaignStep
+     * const CampaignStep = await prisma.campaignStep.delete({
+     *   where: {
+     *     // ... filter to delete one CampaignStep
+     *   }
+     * })
+     * 
+     */
+    delete<T extends CampaignStepDeleteArgs>(args: SelectSubset<T, CampaignStepDeleteArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one CampaignStep.
+     * @param {CampaignStepUpdateArgs} args - Arguments to update one CampaignStep.
+     * @example
+     * // Update one CampaignStep
+     * const campaignStep = await prisma.campaignStep.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends CampaignStepUpdateArgs>(args: SelectSubset<T, CampaignStepUpdateArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more CampaignSteps.
+     * @param {CampaignStepDeleteManyArgs} args - Arguments to filter CampaignSteps to delete.
+     * @example
+     * // Delete a few CampaignSteps
+     * const { count } = await prisma.campaignStep.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends CampaignStepDeleteManyArgs>(args?: SelectSubset<T, CampaignStepDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more CampaignSteps.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many CampaignSteps
+     * const campaignStep = await prisma.campaignStep.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends CampaignStepUpdateManyArgs>(args: SelectSubset<T, CampaignStepUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more CampaignSteps and returns the data updated in the database.
+     * @param {CampaignStepUpdateManyAndReturnArgs} args - Arguments to update many CampaignSteps.
+     * @example
+     * // Update many CampaignSteps
+     * const campaignStep = await prisma.campaignStep.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more CampaignSteps and only return the `id`
+     * const campaignStepWithIdOnly = await prisma.campaignStep.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends CampaignStepUpdateManyAndReturnArgs>(args: SelectSubset<T, CampaignStepUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one CampaignStep.
+     * @param {CampaignStepUpsertArgs} args - Arguments to update or create a CampaignStep.
+     * @example
+     * // Update or create a CampaignStep
+     * const campaignStep = await prisma.campaignStep.upsert({
+     *   create: {
+     *     // ... data to create a CampaignStep
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the CampaignStep we want to update
+     *   }
+     * })
+     */
+    upsert<T extends CampaignStepUpsertArgs>(args: SelectSubset<T, CampaignStepUpsertArgs<ExtArgs>>): Prisma__CampaignStepClient<$Result.GetResult<Prisma.$CampaignStepPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of CampaignSteps.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepCountArgs} args - Arguments to filter CampaignSteps to count.
+     * @example
+     * // Count the number of CampaignSteps
+     * const count = await prisma.campaignStep.count({
+     *   where: {
+     *     // ... the filter for the CampaignSteps we want to count
+     *   }
+     * })
+    **/
+    count<T extends CampaignStepCountArgs>(
+      args?: Subset<T, CampaignStepCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], CampaignStepCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a CampaignStep.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends CampaignStepAggregateArgs>(args: Subset<T, CampaignStepAggregateArgs>): Prisma.PrismaPromise<GetCampaignStepAggregateType<T>>
+
+    /**
+     * Group by CampaignStep.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {CampaignStepGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends CampaignStepGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: CampaignStepGroupByArgs['orderBy'] }
+        : { orderBy?: CampaignStepGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, CampaignStepGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCampaignStepGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the CampaignStep model
+   */
+  readonly fields: CampaignStepFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for CampaignStep.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__CampaignStepClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    campaign<T extends CampaignDefaultArgs<ExtArgs> = {}>(args?: Subset<T, CampaignDefaultArgs<ExtArgs>>): Prisma__CampaignClient<$Result.GetResult<Prisma.$CampaignPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    template<T extends CampaignStep$templateArgs<ExtArgs> = {}>(args?: Subset<T, CampaignStep$templateArgs<ExtArgs>>): Prisma__MessageTemplateClient<$Result.GetResult<Prisma.$MessageTemplatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the CampaignStep model
+   */
+  interface CampaignStepFieldRefs {
+    readonly id: FieldRef<"CampaignStep", 'String'>
+    readonly campaignId: FieldRef<"CampaignStep", 'String'>
+    readonly stepNumber: FieldRef<"CampaignStep", 'Int'>
+    readonly delayDays: FieldRef<"CampaignStep", 'Int'>
+    readonly channel: FieldRef<"CampaignStep", 'Channel'>
+    readonly templateId: FieldRef<"CampaignStep", 'String'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * CampaignStep findUnique
+   */
+  export type CampaignStepFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter, which CampaignStep to fetch.
+     */
+    where: CampaignStepWhereUniqueInput
+  }
+
+  /**
+   * CampaignStep findUniqueOrThrow
+   */
+  export type CampaignStepFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter, which CampaignStep to fetch.
+     */
+    where: CampaignStepWhereUniqueInput
+  }
+
+  /**
+   * CampaignStep findFirst
+   */
+  export type CampaignStepFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter, which CampaignStep to fetch.
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of CampaignSteps to fetch.
+     */
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for CampaignSteps.
+     */
+    cursor?: CampaignStepWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` CampaignSteps from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` CampaignSteps.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of CampaignSteps.
+     */
+    distinct?: CampaignStepScalarFieldEnum | CampaignStepScalarFieldEnum[]
+  }
+
+  /**
+   * CampaignStep findFirstOrThrow
+   */
+  export type CampaignStepFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter, which CampaignStep to fetch.
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of CampaignSteps to fetch.
+     */
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for CampaignSteps.
+     */
+    cursor?: CampaignStepWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` CampaignSteps from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` CampaignSteps.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of CampaignSteps.
+     */
+    distinct?: CampaignStepScalarFieldEnum | CampaignStepScalarFieldEnum[]
+  }
+
+  /**
+   * CampaignStep findMany
+   */
+  export type CampaignStepFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter, which CampaignSteps to fetch.
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of CampaignSteps to fetch.
+     */
+    orderBy?: CampaignStepOrderByWithRelationInput | CampaignStepOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing CampaignSteps.
+     */
+    cursor?: CampaignStepWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` CampaignSteps from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` CampaignSteps.
+     */
+    skip?: number
+    distinct?: CampaignStepScalarFieldEnum | CampaignStepScalarFieldEnum[]
+  }
+
+  /**
+   * CampaignStep create
+   */
+  export type CampaignStepCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * The data needed to create a CampaignStep.
+     */
+    data: XOR<CampaignStepCreateInput, CampaignStepUncheckedCreateInput>
+  }
+
+  /**
+   * CampaignStep createMany
+   */
+  export type CampaignStepCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many CampaignSteps.
+     */
+    data: CampaignStepCreateManyInput | CampaignStepCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * CampaignStep createManyAndReturn
+   */
+  export type CampaignStepCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * The data used to create many CampaignSteps.
+     */
+    data: CampaignStepCreateManyInput | CampaignStepCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * CampaignStep update
+   */
+  export type CampaignStepUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * The data needed to update a CampaignStep.
+     */
+    data: XOR<CampaignStepUpdateInput, CampaignStepUncheckedUpdateInput>
+    /**
+     * Choose, which CampaignStep to update.
+     */
+    where: CampaignStepWhereUniqueInput
+  }
+
+  /**
+   * CampaignStep updateMany
+   */
+  export type CampaignStepUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update CampaignSteps.
+     */
+    data: XOR<CampaignStepUpdateManyMutationInput, CampaignStepUncheckedUpdateManyInput>
+    /**
+     * Filter which CampaignSteps to update
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * Limit how many CampaignSteps to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * CampaignStep updateManyAndReturn
+   */
+  export type CampaignStepUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * The data used to update CampaignSteps.
+     */
+    data: XOR<CampaignStepUpdateManyMutationInput, CampaignStepUncheckedUpdateManyInput>
+    /**
+     * Filter which CampaignSteps to update
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * Limit how many CampaignSteps to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * CampaignStep upsert
+   */
+  export type CampaignStepUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * The filter to search for the CampaignStep to update in case it exists.
+     */
+    where: CampaignStepWhereUniqueInput
+    /**
+     * In case the CampaignStep found by the `where` argument doesn't exist, create a new CampaignStep with this data.
+     */
+    create: XOR<CampaignStepCreateInput, CampaignStepUncheckedCreateInput>
+    /**
+     * In case the CampaignStep was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<CampaignStepUpdateInput, CampaignStepUncheckedUpdateInput>
+  }
+
+  /**
+   * CampaignStep delete
+   */
+  export type CampaignStepDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+    /**
+     * Filter which CampaignStep to delete.
+     */
+    where: CampaignStepWhereUniqueInput
+  }
+
+  /**
+   * CampaignStep deleteMany
+   */
+  export type CampaignStepDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which CampaignSteps to delete
+     */
+    where?: CampaignStepWhereInput
+    /**
+     * Limit how many CampaignSteps to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * CampaignStep.template
+   */
+  export type CampaignStep$templateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MessageTemplate
+     */
+    select?: MessageTemplateSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MessageTemplate
+     */
+    omit?: MessageTemplateOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MessageTemplateInclude<ExtArgs> | null
+    where?: MessageTemplateWhereInput
+  }
+
+  /**
+   * CampaignStep without action
+   */
+  export type CampaignStepDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the CampaignStep
+     */
+    select?: CampaignStepSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the CampaignStep
+     */
+    omit?: CampaignStepOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: CampaignStepInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model ScheduledMessage
+   */
+
+  export type AggregateScheduledMessage = {
+    _count: ScheduledMessageCountAggregateOutputType | null
+    _avg: ScheduledMessageAvgAggregateOutputType | null
+    _sum: ScheduledMessageSumAggregateOutputType | null
+    _min: ScheduledMessageMinAggregateOutputType | null
+    _max: ScheduledMessageMaxAggregateOutputType | null
+  }
+
+  export type ScheduledMessageAvgAggregateOutputType = {
+    messageNumber: number | null
+  }
+
+  export type ScheduledMessageSumAggregateOutputType = {
+    messageNumber: number | null
+  }
+
+  export type ScheduledMessageMinAggregateOutputType = {
+    id: string | null
+    leadId: string | null
+    messageNumber: number | null
+    queueName: string | null
+    msgId: string | null
+    scheduledFor: Date | null
+    status: $Enums.ScheduledMessageStatus | null
+    sentAt: Date | null
+    sendStartedAt: Date | null
+    providerMessageId: string | null
+    createdAt: Date | null
+  }
+
+  export type ScheduledMessageMaxAggregateOutputType = {
+    id: string | null
+    leadId: string | null
+    messageNumber: number | null
+    queueName: string | null
+    msgId: string | null
+    scheduledFor: Date | null
+    status: $Enums.ScheduledMessageStatus | null
+    sentAt: Date | null
+    sendStartedAt: Date | null
+    providerMessageId: string | null
+    createdAt: Date | null
+  }
+
+  export type ScheduledMessageCountAggregateOutputType = {
+    id: number
+    leadId: number
+    messageNumber: number
+    queueName: number
+    msgId: number
+    scheduledFor: number
+    status: number
+    sentAt: number
+    sendStartedAt: number
+    providerMessageId: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type ScheduledMessageAvgAggregateInputType = {
+    messageNumber?: true
+  }
+
+  export type ScheduledMessageSumAggregateInputType = {
+    messageNumber?: true
+  }
+
+  export type ScheduledMessageMinAggregateInputType = {
+    id?: true
+    leadId?: true
+    messageNumber?: true
+    queueName?: true
+    msgId?: true
+    scheduledFor?: true
+    status?: true
+    sentAt?: true
+    sendStartedAt?: true
+    providerMessageId?: true
+    createdAt?: true
+  }
+
+  export type ScheduledMessageMaxAggregateInputType = {
+    id?: true
+    leadId?: true
+    messageNumber?: true
+    queueName?: true
+    msgId?: true
+    scheduledFor?: true
+    status?: true
+    sentAt?: true
+    sendStartedAt?: true
+    providerMessageId?: true
+    createdAt?: true
+  }
+
+  export type ScheduledMessageCountAggregateInputType = {
+    id?: true
+    leadId?: true
+    messageNumber?: true
+    queueName?: true
+    msgId?: true
+    scheduledFor?: true
+    status?: true
+    sentAt?: true
+    sendStartedAt?: true
+    providerMessageId?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type ScheduledMessageAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ScheduledMessage to aggregate.
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledMessages to fetch.
+     */
+    orderBy?: ScheduledMessageOrderByWithRelationInput | ScheduledMessageOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: ScheduledMessageWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledMessages from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledMessages.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned ScheduledMessages
+    **/
+    _count?: true | ScheduledMessageCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: ScheduledMessageAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: ScheduledMessageSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: ScheduledMessageMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: ScheduledMessageMaxAggregateInputType
+  }
+
+  export type GetScheduledMessageAggregateType<T extends ScheduledMessageAggregateArgs> = {
+        [P in keyof T & keyof AggregateScheduledMessage]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateScheduledMessage[P]>
+      : GetScalarType<T[P], AggregateScheduledMessage[P]>
+  }
+
+
+
+
+  export type ScheduledMessageGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ScheduledMessageWhereInput
+    orderBy?: ScheduledMessageOrderByWithAggregationInput | ScheduledMessageOrderByWithAggregationInput[]
+    by: ScheduledMessageScalarFieldEnum[] | ScheduledMessageScalarFieldEnum
+    having?: ScheduledMessageScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: ScheduledMessageCountAggregateInputType | true
+    _avg?: ScheduledMessageAvgAggregateInputType
+    _sum?: ScheduledMessageSumAggregateInputType
+    _min?: ScheduledMessageMinAggregateInputType
+    _max?: ScheduledMessageMaxAggregateInputType
+  }
+
+  export type ScheduledMessageGroupByOutputType = {
+    id: string
+    leadId: string | null
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date
+    status: $Enums.ScheduledMessageStatus
+    sentAt: Date | null
+    sendStartedAt: Date | null
+    providerMessageId: string | null
+    createdAt: Date
+    _count: ScheduledMessageCountAggregateOutputType | null
+    _avg: ScheduledMessageAvgAggregateOutputType | null
+    _sum: ScheduledMessageSumAggregateOutputType | null
+    _min: ScheduledMessageMinAggregateOutputType | null
+    _max: ScheduledMessageMaxAggregateOutputType | null
+  }
+
+  type GetScheduledMessageGroupByPayload<T extends ScheduledMessageGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<ScheduledMessageGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof ScheduledMessageGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], ScheduledMessageGroupByOutputType[P]>
+            : GetScalarType<T[P], ScheduledMessageGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type ScheduledMessageSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    leadId?: boolean
+    messageNumber?: boolean
+    queueName?: boolean
+    msgId?: boolean
+    scheduledFor?: boolean
+    status?: boolean
+    sentAt?: boolean
+    sendStartedAt?: boolean
+    providerMessageId?: boolean
+    createdAt?: boolean
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }, ExtArgs["result"]["scheduledMessage"]>
+
+  export type ScheduledMessageSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    leadId?: boolean
+    messageNumber?: boolean
+    queueName?: boolean
+    msgId?: boolean
+    scheduledFor?: boolean
+    status?: boolean
+    sentAt?: boolean
+    sendStartedAt?: boolean
+    providerMessageId?: boolean
+    createdAt?: boolean
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }, ExtArgs["result"]["scheduledMessage"]>
+
+  export type ScheduledMessageSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    leadId?: boolean
+    messageNumber?: boolean
+    queueName?: boolean
+    msgId?: boolean
+    scheduledFor?: boolean
+    status?: boolean
+    sentAt?: boolean
+    sendStartedAt?: boolean
+    providerMessageId?: boolean
+    createdAt?: boolean
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }, ExtArgs["result"]["scheduledMessage"]>
+
+  export type ScheduledMessageSelectScalar = {
+    id?: boolean
+    leadId?: boolean
+    messageNumber?: boolean
+    queueName?: boolean
+    msgId?: boolean
+    scheduledFor?: boolean
+    status?: boolean
+    sentAt?: boolean
+    sendStartedAt?: boolean
+    providerMessageId?: boolean
+    createdAt?: boolean
+  }
+
+  export type ScheduledMessageOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "leadId" | "messageNumber" | "queueName" | "msgId" | "scheduledFor" | "status" | "sentAt" | "sendStartedAt" | "providerMessageId" | "createdAt", ExtArgs["result"]["scheduledMessage"]>
+  export type ScheduledMessageInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }
+  export type ScheduledMessageIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }
+  export type ScheduledMessageIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | ScheduledMessage$leadArgs<ExtArgs>
+  }
+
+  export type $ScheduledMessagePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "ScheduledMessage"
+    objects: {
+      lead: Prisma.$LeadPayload<ExtArgs> | null
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      leadId: string | null
+      messageNumber: number
+      queueName: string
+      msgId: string
+      scheduledFor: Date
+      status: $Enums.ScheduledMessageStatus
+      sentAt: Date | null
+      sendStartedAt: Date | null
+      providerMessageId: string | null
+      createdAt: Date
+    }, ExtArgs["result"]["scheduledMessage"]>
+    composites: {}
+  }
+
+  type ScheduledMessageGetPayload<S extends boolean | null | undefined | ScheduledMessageDefaultArgs> = $Result.GetResult<Prisma.$ScheduledMessagePayload, S>
+
+  type ScheduledMessageCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<ScheduledMessageFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: ScheduledMessageCountAggregateInputType | true
+    }
+
+  export interface ScheduledMessageDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ScheduledMessage'], meta: { name: 'ScheduledMessage' } }
+    /**
+     * Find zero or one ScheduledMessage that matches the filter.
+     * @param {ScheduledMessageFindUniqueArgs} args - Arguments to find a ScheduledMessage
+     * @example
+     * // Get one ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends ScheduledMessageFindUniqueArgs>(args: SelectSubset<T, ScheduledMessageFindUniqueArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one ScheduledMessage that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {ScheduledMessageFindUniqueOrThrowArgs} args - Arguments to find a ScheduledMessage
+     * @example
+     * // Get one ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends ScheduledMessageFindUniqueOrThrowArgs>(args: SelectSubset<T, ScheduledMessageFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ScheduledMessage that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageFindFirstArgs} args - Arguments to find a ScheduledMessage
+     * @example
+     * // Get one ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends ScheduledMessageFindFirstArgs>(args?: SelectSubset<T, ScheduledMessageFindFirstArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ScheduledMessage that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageFindFirstOrThrowArgs} args - Arguments to find a ScheduledMessage
+     * @example
+     * // Get one ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends ScheduledMessageFindFirstOrThrowArgs>(args?: SelectSubset<T, ScheduledMessageFindFirstOrThrowArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more ScheduledMessages that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all ScheduledMessages
+     * const scheduledMessages = await prisma.scheduledMessage.findMany()
+     * 
+     * // Get first 10 ScheduledMessages
+     * const scheduledMessages = await prisma.scheduledMessage.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const scheduledMessageWithIdOnly = await prisma.scheduledMessage.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends ScheduledMessageFindManyArgs>(args?: SelectSubset<T, ScheduledMessageFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a ScheduledMessage.
+     * @param {ScheduledMessageCreateArgs} args - Arguments to create a ScheduledMessage.
+     * @example
+     * // Create one ScheduledMessage
+     * const ScheduledMessage = await prisma.scheduledMessage.create({
+     *   data: {
+     *     // ... data to create a ScheduledMessage
+     *   }
+     * })
+     * 
+     */
+    create<T extends ScheduledMessageCreateArgs>(args: SelectSubset<T, ScheduledMessageCreateArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many ScheduledMessages.
+     * @param {ScheduledMessageCreateManyArgs} args - Arguments to create many ScheduledMessages.
+     * @example
+     * // Create many ScheduledMessages
+     * const scheduledMessage = await prisma.scheduledMessage.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends ScheduledMessageCreateManyArgs>(args?: SelectSubset<T, ScheduledMessageCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many ScheduledMessages and returns the data saved in the database.
+     * @param {ScheduledMessageCreateManyAndReturnArgs} args - Arguments to create many ScheduledMessages.
+     * @example
+     * // Create many ScheduledMessages
+     * const scheduledMessage = await prisma.scheduledMessage.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many ScheduledMessages and only return the `id`
+     * const scheduledMessageWithIdOnly = await prisma.scheduledMessage.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends ScheduledMessageCreateManyAndReturnArgs>(args?: SelectSubset<T, ScheduledMessageCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a ScheduledMessage.
+     * @param {ScheduledMessageDeleteArgs} args - Arguments to delete one ScheduledMessage.
+     * @example
+     * // Delete one ScheduledMessage
+     * const ScheduledMessage = await prisma.scheduledMessage.delete({
+     *   where: {
+     *     // ... filter to delete one ScheduledMessage
+     *   }
+     * })
+     * 
+     */
+    delete<T extends ScheduledMessageDeleteArgs>(args: SelectSubset<T, ScheduledMessageDeleteArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one ScheduledMessage.
+     * @param {ScheduledMessageUpdateArgs} args - Arguments to update one ScheduledMessage.
+     * @example
+     * // Update one ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends ScheduledMessageUpdateArgs>(args: SelectSubset<T, ScheduledMessageUpdateArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more ScheduledMessages.
+     * @param {ScheduledMessageDeleteManyArgs} args - Arguments to filter ScheduledMessages to delete.
+     * @example
+     * // Delete a few ScheduledMessages
+     * const { count } = await prisma.scheduledMessage.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends ScheduledMessageDeleteManyArgs>(args?: SelectSubset<T, ScheduledMessageDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ScheduledMessages.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many ScheduledMessages
+     * const scheduledMessage = await prisma.scheduledMessage.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends ScheduledMessageUpdateManyArgs>(args: SelectSubset<T, ScheduledMessageUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ScheduledMessages and returns the data updated in the database.
+     * @param {ScheduledMessageUpdateManyAndReturnArgs} args - Arguments to update many ScheduledMessages.
+     * @example
+     * // Update many ScheduledMessages
+     * const scheduledMessage = await prisma.scheduledMessage.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more ScheduledMessages and only return the `id`
+     * const scheduledMessageWithIdOnly = await prisma.scheduledMessage.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends ScheduledMessageUpdateManyAndReturnArgs>(args: SelectSubset<T, ScheduledMessageUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one ScheduledMessage.
+     * @param {ScheduledMessageUpsertArgs} args - Arguments to update or create a ScheduledMessage.
+     * @example
+     * // Update or create a ScheduledMessage
+     * const scheduledMessage = await prisma.scheduledMessage.upsert({
+     *   create: {
+     *     // ... data to create a ScheduledMessage
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the ScheduledMessage we want to update
+     *   }
+     * })
+     */
+    upsert<T extends ScheduledMessageUpsertArgs>(args: SelectSubset<T, ScheduledMessageUpsertArgs<ExtArgs>>): Prisma__ScheduledMessageClient<$Result.GetResult<Prisma.$ScheduledMessagePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of ScheduledMessages.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageCountArgs} args - Arguments to filter ScheduledMessages to count.
+     * @example
+     * // Count the number of ScheduledMessages
+     * const count = await prisma.scheduledMessage.count({
+     *   where: {
+     *     // ... the filter for the ScheduledMessages we want to count
+     *   }
+     * })
+    **/
+    count<T extends ScheduledMessageCountArgs>(
+      args?: Subset<T, ScheduledMessageCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], ScheduledMessageCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a ScheduledMessage.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends ScheduledMessageAggregateArgs>(args: Subset<T, ScheduledMessageAggregateArgs>): Prisma.PrismaPromise<GetScheduledMessageAggregateType<T>>
+
+    /**
+     * Group by ScheduledMessage.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledMessageGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends ScheduledMessageGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: ScheduledMessageGroupByArgs['orderBy'] }
+        : { orderBy?: ScheduledMessageGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, ScheduledMessageGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetScheduledMessageGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the ScheduledMessage model
+   */
+  readonly fields: ScheduledMessageFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for ScheduledMessage.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__ScheduledMessageClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    lead<T extends ScheduledMessage$leadArgs<ExtArgs> = {}>(args?: Subset<T, ScheduledMessage$leadArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the ScheduledMessage model
+   */
+  interface ScheduledMessageFieldRefs {
+    readonly id: FieldRef<"ScheduledMessage", 'String'>
+    readonly leadId: FieldRef<"ScheduledMessage", 'String'>
+    readonly messageNumber: FieldRef<"ScheduledMessage", 'Int'>
+    readonly queueName: FieldRef<"ScheduledMessage", 'String'>
+    readonly msgId: FieldRef<"ScheduledMessage", 'String'>
+    readonly scheduledFor: FieldRef<"ScheduledMessage", 'DateTime'>
+    readonly status: FieldRef<"ScheduledMessage", 'ScheduledMessageStatus'>
+    readonly sentAt: FieldRef<"ScheduledMessage", 'DateTime'>
+    readonly sendStartedAt: FieldRef<"ScheduledMessage", 'DateTime'>
+    readonly providerMessageId: FieldRef<"ScheduledMessage", 'String'>
+    readonly createdAt: FieldRef<"ScheduledMessage", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * ScheduledMessage findUnique
+   */
+  export type ScheduledMessageFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter, which ScheduledMessage to fetch.
+     */
+    where: ScheduledMessageWhereUniqueInput
+  }
+
+  /**
+   * ScheduledMessage findUniqueOrThrow
+   */
+  export type ScheduledMessageFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter, which ScheduledMessage to fetch.
+     */
+    where: ScheduledMessageWhereUniqueInput
+  }
+
+  /**
+   * ScheduledMessage findFirst
+   */
+  export type ScheduledMessageFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter, which ScheduledMessage to fetch.
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledMessages to fetch.
+     */
+    orderBy?: ScheduledMessageOrderByWithRelationInput | ScheduledMessageOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ScheduledMessages.
+     */
+    cursor?: ScheduledMessageWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledMessages from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledMessages.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ScheduledMessages.
+     */
+    distinct?: ScheduledMessageScalarFieldEnum | ScheduledMessageScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledMessage findFirstOrThrow
+   */
+  export type ScheduledMessageFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter, which ScheduledMessage to fetch.
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledMessages to fetch.
+     */
+    orderBy?: ScheduledMessageOrderByWithRelationInput | ScheduledMessageOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ScheduledMessages.
+     */
+    cursor?: ScheduledMessageWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledMessages from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledMessages.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ScheduledMessages.
+     */
+    distinct?: ScheduledMessageScalarFieldEnum | ScheduledMessageScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledMessage findMany
+   */
+  export type ScheduledMessageFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter, which ScheduledMessages to fetch.
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledMessages to fetch.
+     */
+    orderBy?: ScheduledMessageOrderByWithRelationInput | ScheduledMessageOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing ScheduledMessages.
+     */
+    cursor?: ScheduledMessageWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledMessages from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledMessages.
+     */
+    skip?: number
+    distinct?: ScheduledMessageScalarFieldEnum | ScheduledMessageScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledMessage create
+   */
+  export type ScheduledMessageCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * The data needed to create a ScheduledMessage.
+     */
+    data: XOR<ScheduledMessageCreateInput, ScheduledMessageUncheckedCreateInput>
+  }
+
+  /**
+   * ScheduledMessage createMany
+   */
+  export type ScheduledMessageCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many ScheduledMessages.
+     */
+    data: ScheduledMessageCreateManyInput | ScheduledMessageCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ScheduledMessage createManyAndReturn
+   */
+  export type ScheduledMessageCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * The data used to create many ScheduledMessages.
+     */
+    data: ScheduledMessageCreateManyInput | ScheduledMessageCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ScheduledMessage update
+   */
+  export type ScheduledMessageUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * The data needed to update a ScheduledMessage.
+     */
+    data: XOR<ScheduledMessageUpdateInput, ScheduledMessageUncheckedUpdateInput>
+    /**
+     * Choose, which ScheduledMessage to update.
+     */
+    where: ScheduledMessageWhereUniqueInput
+  }
+
+  /**
+   * ScheduledMessage updateMany
+   */
+  export type ScheduledMessageUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update ScheduledMessages.
+     */
+    data: XOR<ScheduledMessageUpdateManyMutationInput, ScheduledMessageUncheckedUpdateManyInput>
+    /**
+     * Filter which ScheduledMessages to update
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * Limit how many ScheduledMessages to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ScheduledMessage updateManyAndReturn
+   */
+  export type ScheduledMessageUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * The data used to update ScheduledMessages.
+     */
+    data: XOR<ScheduledMessageUpdateManyMutationInput, ScheduledMessageUncheckedUpdateManyInput>
+    /**
+     * Filter which ScheduledMessages to update
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * Limit how many ScheduledMessages to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * ScheduledMessage upsert
+   */
+  export type ScheduledMessageUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * The filter to search for the ScheduledMessage to update in case it exists.
+     */
+    where: ScheduledMessageWhereUniqueInput
+    /**
+     * In case the ScheduledMessage found by the `where` argument doesn't exist, create a new ScheduledMessage with this data.
+     */
+    create: XOR<ScheduledMessageCreateInput, ScheduledMessageUncheckedCreateInput>
+    /**
+     * In case the ScheduledMessage was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<ScheduledMessageUpdateInput, ScheduledMessageUncheckedUpdateInput>
+  }
+
+  /**
+   * ScheduledMessage delete
+   */
+  export type ScheduledMessageDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+    /**
+     * Filter which ScheduledMessage to delete.
+     */
+    where: ScheduledMessageWhereUniqueInput
+  }
+
+  /**
+   * ScheduledMessage deleteMany
+   */
+  export type ScheduledMessageDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ScheduledMessages to delete
+     */
+    where?: ScheduledMessageWhereInput
+    /**
+     * Limit how many ScheduledMessages to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * ScheduledMessage.lead
+   */
+  export type ScheduledMessage$leadArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Lead
+     */
+    select?: LeadSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Lead
+     */
+    omit?: LeadOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LeadInclude<ExtArgs> | null
+    where?: LeadWhereInput
+  }
+
+  /**
+   * ScheduledMessage without action
+   */
+  export type ScheduledMessageDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledMessage
+     */
+    select?: ScheduledMessageSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledMessage
+     */
+    omit?: ScheduledMessageOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ScheduledMessageInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model OutboxEvent
+   */
+
+  export type AggregateOutboxEvent = {
+    _count: OutboxEventCountAggregateOutputType | null
+    _avg: OutboxEventAvgAggregateOutputType | null
+    _sum: OutboxEventSumAggregateOutputType | null
+    _min: OutboxEventMinAggregateOutputType | null
+    _max: OutboxEventMaxAggregateOutputType | null
+  }
+
+  export type OutboxEventAvgAggregateOutputType = {
+    attempts: number | null
+  }
+
+  export type OutboxEventSumAggregateOutputType = {
+    attempts: number | null
+  }
+
+  export type OutboxEventMinAggregateOutputType = {
+    id: string | null
+    type: $Enums.OutboxEventType | null
+    leadId: string | null
+    status: $Enums.OutboxEventStatus | null
+    attempts: number | null
+    lastError: string | null
+    availableAt: Date | null
+    processedAt: Date | null
+    createdAt: Date | null
+  }
+
+  export type OutboxEventMaxAggregateOutputType = {
+    id: string | null
+    type: $Enums.OutboxEventType | null
+    leadId: string | null
+    status: $Enums.OutboxEventStatus | null
+    attempts: number | null
+    lastError: string | null
+    availableAt: Date | null
+    processedAt: Date | null
+    createdAt: Date | null
+  }
+
+  export type OutboxEventCountAggregateOutputType = {
+    id: number
+    type: number
+    leadId: number
+    status: number
+    attempts: number
+    lastError: number
+    availableAt: number
+    processedAt: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type OutboxEventAvgAggregateInputType = {
+    attempts?: true
+  }
+
+  export type OutboxEventSumAggregateInputType = {
+    attempts?: true
+  }
+
+  export type OutboxEventMinAggregateInputType = {
+    id?: true
+    type?: true
+    leadId?: true
+    status?: true
+    attempts?: true
+    lastError?: true
+    availableAt?: true
+    processedAt?: true
+    createdAt?: true
+  }
+
+  export type OutboxEventMaxAggregateInputType = {
+    id?: true
+    type?: true
+    leadId?: true
+    status?: true
+    attempts?: true
+    lastError?: true
+    availableAt?: true
+    processedAt?: true
+    createdAt?: true
+  }
+
+  export type OutboxEventCountAggregateInputType = {
+    id?: true
+    type?: true
+    leadId?: true
+    status?: true
+    attempts?: true
+    lastError?: true
+    availableAt?: true
+    processedAt?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type OutboxEventAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which OutboxEvent to aggregate.
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of OutboxEvents to fetch.
+     */
+    orderBy?: OutboxEventOrderByWithRelationInput | OutboxEventOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: OutboxEventWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` OutboxEvents from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` OutboxEvents.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned OutboxEvents
+    **/
+    _count?: true | OutboxEventCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: OutboxEventAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: OutboxEventSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: OutboxEventMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: OutboxEventMaxAggregateInputType
+  }
+
+  export type GetOutboxEventAggregateType<T extends OutboxEventAggregateArgs> = {
+        [P in keyof T & keyof AggregateOutboxEvent]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateOutboxEvent[P]>
+      : GetScalarType<T[P], AggregateOutboxEvent[P]>
+  }
+
+
+
+
+  export type OutboxEventGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: OutboxEventWhereInput
+    orderBy?: OutboxEventOrderByWithAggregationInput | OutboxEventOrderByWithAggregationInput[]
+    by: OutboxEventScalarFieldEnum[] | OutboxEventScalarFieldEnum
+    having?: OutboxEventScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: OutboxEventCountAggregateInputType | true
+    _avg?: OutboxEventAvgAggregateInputType
+    _sum?: OutboxEventSumAggregateInputType
+    _min?: OutboxEventMinAggregateInputType
+    _max?: OutboxEventMaxAggregateInputType
+  }
+
+  export type OutboxEventGroupByOutputType = {
+    id: string
+    type: $Enums.OutboxEventType
+    leadId: string
+    status: $Enums.OutboxEventStatus
+    attempts: number
+    lastError: string | null
+    availableAt: Date
+    processedAt: Date | null
+    createdAt: Date
+    _count: OutboxEventCountAggregateOutputType | null
+    _avg: OutboxEventAvgAggregateOutputType | null
+    _sum: OutboxEventSumAggregateOutputType | null
+    _min: OutboxEventMinAggregateOutputType | null
+    _max: OutboxEventMaxAggregateOutputType | null
+  }
+
+  type GetOutboxEventGroupByPayload<T extends OutboxEventGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<OutboxEventGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof OutboxEventGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], OutboxEventGroupByOutputType[P]>
+            : GetScalarType<T[P], OutboxEventGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type OutboxEventSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    leadId?: boolean
+    status?: boolean
+    attempts?: boolean
+    lastError?: boolean
+    availableAt?: boolean
+    processedAt?: boolean
+    createdAt?: boolean
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["outboxEvent"]>
+
+  export type OutboxEventSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    leadId?: boolean
+    status?: boolean
+    attempts?: boolean
+    lastError?: boolean
+    availableAt?: boolean
+    processedAt?: boolean
+    createdAt?: boolean
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["outboxEvent"]>
+
+  export type OutboxEventSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    leadId?: boolean
+    status?: boolean
+    attempts?: boolean
+    lastError?: boolean
+    availableAt?: boolean
+    processedAt?: boolean
+    createdAt?: boolean
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["outboxEvent"]>
+
+  export type OutboxEventSelectScalar = {
+    id?: boolean
+    type?: boolean
+    leadId?: boolean
+    status?: boolean
+    attempts?: boolean
+    lastError?: boolean
+    availableAt?: boolean
+    processedAt?: boolean
+    createdAt?: boolean
+  }
+
+  export type OutboxEventOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "type" | "leadId" | "status" | "attempts" | "lastError" | "availableAt" | "processedAt" | "createdAt", ExtArgs["result"]["outboxEvent"]>
+  export type OutboxEventInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }
+  export type OutboxEventIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }
+  export type OutboxEventIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    lead?: boolean | LeadDefaultArgs<ExtArgs>
+  }
+
+  export type $OutboxEventPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "OutboxEvent"
+    objects: {
+      lead: Prisma.$LeadPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      type: $Enums.OutboxEventType
+      leadId: string
+      status: $Enums.OutboxEventStatus
+      attempts: number
+      lastError: string | null
+      availableAt: Date
+      processedAt: Date | null
+      createdAt: Date
+    }, ExtArgs["result"]["outboxEvent"]>
+    composites: {}
+  }
+
+  type OutboxEventGetPayload<S extends boolean | null | undefined | OutboxEventDefaultArgs> = $Result.GetResult<Prisma.$OutboxEventPayload, S>
+
+  type OutboxEventCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<OutboxEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: OutboxEventCountAggregateInputType | true
+    }
+
+  export interface OutboxEventDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OutboxEvent'], meta: { name: 'OutboxEvent' } }
+    /**
+     * Find zero or one OutboxEvent that matches the filter.
+     * @param {OutboxEventFindUniqueArgs} args - Arguments to find a OutboxEvent
+     * @example
+     * // Get one OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends OutboxEventFindUniqueArgs>(args: SelectSubset<T, OutboxEventFindUniqueArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one OutboxEvent that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {OutboxEventFindUniqueOrThrowArgs} args - Arguments to find a OutboxEvent
+     * @example
+     * // Get one OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends OutboxEventFindUniqueOrThrowArgs>(args: SelectSubset<T, OutboxEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first OutboxEvent that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventFindFirstArgs} args - Arguments to find a OutboxEvent
+     * @example
+     * // Get one OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends OutboxEventFindFirstArgs>(args?: SelectSubset<T, OutboxEventFindFirstArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first OutboxEvent that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventFindFirstOrThrowArgs} args - Arguments to find a OutboxEvent
+     * @example
+     * // Get one OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends OutboxEventFindFirstOrThrowArgs>(args?: SelectSubset<T, OutboxEventFindFirstOrThrowArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more OutboxEvents that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all OutboxEvents
+     * const outboxEvents = await prisma.outboxEvent.findMany()
+     * 
+     * // Get first 10 OutboxEvents
+     * const outboxEvents = await prisma.outboxEvent.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const outboxEventWithIdOnly = await prisma.outboxEvent.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends OutboxEventFindManyArgs>(args?: SelectSubset<T, OutboxEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a OutboxEvent.
+     * @param {OutboxEventCreateArgs} args - Arguments to create a OutboxEvent.
+     * @example
+     * // Create one OutboxEvent
+     * const OutboxEvent = await prisma.outboxEvent.create({
+     *   data: {
+     *     // ... data to create a OutboxEvent
+     *   }
+     * })
+     * 
+     */
+    create<T extends OutboxEventCreateArgs>(args: SelectSubset<T, OutboxEventCreateArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many OutboxEvents.
+     * @param {OutboxEventCreateManyArgs} args - Arguments to create many OutboxEvents.
+     * @example
+     * // Create many OutboxEvents
+     * const outboxEvent = await prisma.outboxEvent.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends OutboxEventCreateManyArgs>(args?: SelectSubset<T, OutboxEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many OutboxEvents and returns the data saved in the database.
+     * @param {OutboxEventCreateManyAndReturnArgs} args - Arguments to create many OutboxEvents.
+     * @example
+     * // Create many OutboxEvents
+     * const outboxEvent = await prisma.outboxEvent.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many OutboxEvents and only return the `id`
+     * const outboxEventWithIdOnly = await prisma.outboxEvent.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends OutboxEventCreateManyAndReturnArgs>(args?: SelectSubset<T, OutboxEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a OutboxEvent.
+     * @param {OutboxEventDeleteArgs} args - Arguments to delete one OutboxEvent.
+     * @example
+     * // Delete one OutboxEvent
+     * const OutboxEvent = await prisma.outboxEvent.delete({
+     *   where: {
+     *     // ... filter to delete one OutboxEvent
+     *   }
+     * })
+     * 
+     */
+    delete<T extends OutboxEventDeleteArgs>(args: SelectSubset<T, OutboxEventDeleteArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one OutboxEvent.
+     * @param {OutboxEventUpdateArgs} args - Arguments to update one OutboxEvent.
+     * @example
+     * // Update one OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends OutboxEventUpdateArgs>(args: SelectSubset<T, OutboxEventUpdateArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more OutboxEvents.
+     * @param {OutboxEventDeleteManyArgs} args - Arguments to filter OutboxEvents to delete.
+     * @example
+     * // Delete a few OutboxEvents
+     * const { count } = await prisma.outboxEvent.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends OutboxEventDeleteManyArgs>(args?: SelectSubset<T, OutboxEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more OutboxEvents.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many OutboxEvents
+     * const outboxEvent = await prisma.outboxEvent.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends OutboxEventUpdateManyArgs>(args: SelectSubset<T, OutboxEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more OutboxEvents and returns the data updated in the database.
+     * @param {OutboxEventUpdateManyAndReturnArgs} args - Arguments to update many OutboxEvents.
+     * @example
+     * // Update many OutboxEvents
+     * const outboxEvent = await prisma.outboxEvent.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more OutboxEvents and only return the `id`
+     * const outboxEventWithIdOnly = await prisma.outboxEvent.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends OutboxEventUpdateManyAndReturnArgs>(args: SelectSubset<T, OutboxEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one OutboxEvent.
+     * @param {OutboxEventUpsertArgs} args - Arguments to update or create a OutboxEvent.
+     * @example
+     * // Update or create a OutboxEvent
+     * const outboxEvent = await prisma.outboxEvent.upsert({
+     *   create: {
+     *     // ... data to create a OutboxEvent
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the OutboxEvent we want to update
+     *   }
+     * })
+     */
+    upsert<T extends OutboxEventUpsertArgs>(args: SelectSubset<T, OutboxEventUpsertArgs<ExtArgs>>): Prisma__OutboxEventClient<$Result.GetResult<Prisma.$OutboxEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of OutboxEvents.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventCountArgs} args - Arguments to filter OutboxEvents to count.
+     * @example
+     * // Count the number of OutboxEvents
+     * const count = await prisma.outboxEvent.count({
+     *   where: {
+     *     // ... the filter for the OutboxEvents we want to count
+     *   }
+     * })
+    **/
+    count<T extends OutboxEventCountArgs>(
+      args?: Subset<T, OutboxEventCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], OutboxEventCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a OutboxEvent.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends OutboxEventAggregateArgs>(args: Subset<T, OutboxEventAggregateArgs>): Prisma.PrismaPromise<GetOutboxEventAggregateType<T>>
+
+    /**
+     * Group by OutboxEvent.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {OutboxEventGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends OutboxEventGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: OutboxEventGroupByArgs['orderBy'] }
+        : { orderBy?: OutboxEventGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, OutboxEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOutboxEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the OutboxEvent model
+   */
+  readonly fields: OutboxEventFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for OutboxEvent.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__OutboxEventClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    lead<T extends LeadDefaultArgs<ExtArgs> = {}>(args?: Subset<T, LeadDefaultArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the OutboxEvent model
+   */
+  interface OutboxEventFieldRefs {
+    readonly id: FieldRef<"OutboxEvent", 'String'>
+    readonly type: FieldRef<"OutboxEvent", 'OutboxEventType'>
+    readonly leadId: FieldRef<"OutboxEvent", 'String'>
+    readonly status: FieldRef<"OutboxEvent", 'OutboxEventStatus'>
+    readonly attempts: FieldRef<"OutboxEvent", 'Int'>
+    readonly lastError: FieldRef<"OutboxEvent", 'String'>
+    readonly availableAt: FieldRef<"OutboxEvent", 'DateTime'>
+    readonly processedAt: FieldRef<"OutboxEvent", 'DateTime'>
+    readonly createdAt: FieldRef<"OutboxEvent", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * OutboxEvent findUnique
+   */
+  export type OutboxEventFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter, which OutboxEvent to fetch.
+     */
+    where: OutboxEventWhereUniqueInput
+  }
+
+  /**
+   * OutboxEvent findUniqueOrThrow
+   */
+  export type OutboxEventFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter, which OutboxEvent to fetch.
+     */
+    where: OutboxEventWhereUniqueInput
+  }
+
+  /**
+   * OutboxEvent findFirst
+   */
+  export type OutboxEventFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter, which OutboxEvent to fetch.
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of OutboxEvents to fetch.
+     */
+    orderBy?: OutboxEventOrderByWithRelationInput | OutboxEventOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for OutboxEvents.
+     */
+    cursor?: OutboxEventWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` OutboxEvents from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` OutboxEvents.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of OutboxEvents.
+     */
+    distinct?: OutboxEventScalarFieldEnum | OutboxEventScalarFieldEnum[]
+  }
+
+  /**
+   * OutboxEvent findFirstOrThrow
+   */
+  export type OutboxEventFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter, which OutboxEvent to fetch.
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of OutboxEvents to fetch.
+     */
+    orderBy?: OutboxEventOrderByWithRelationInput | OutboxEventOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for OutboxEvents.
+     */
+    cursor?: OutboxEventWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` OutboxEvents from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` OutboxEvents.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of OutboxEvents.
+     */
+    distinct?: OutboxEventScalarFieldEnum | OutboxEventScalarFieldEnum[]
+  }
+
+  /**
+   * OutboxEvent findMany
+   */
+  export type OutboxEventFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter, which OutboxEvents to fetch.
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of OutboxEvents to fetch.
+     */
+    orderBy?: OutboxEventOrderByWithRelationInput | OutboxEventOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing OutboxEvents.
+     */
+    cursor?: OutboxEventWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` OutboxEvents from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` OutboxEvents.
+     */
+    skip?: number
+    distinct?: OutboxEventScalarFieldEnum | OutboxEventScalarFieldEnum[]
+  }
+
+  /**
+   * OutboxEvent create
+   */
+  export type OutboxEventCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * The data needed to create a OutboxEvent.
+     */
+    data: XOR<OutboxEventCreateInput, OutboxEventUncheckedCreateInput>
+  }
+
+  /**
+   * OutboxEvent createMany
+   */
+  export type OutboxEventCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many OutboxEvents.
+     */
+    data: OutboxEventCreateManyInput | OutboxEventCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * OutboxEvent createManyAndReturn
+   */
+  export type OutboxEventCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * The data used to create many OutboxEvents.
+     */
+    data: OutboxEventCreateManyInput | OutboxEventCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * OutboxEvent update
+   */
+  export type OutboxEventUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * The data needed to update a OutboxEvent.
+     */
+    data: XOR<OutboxEventUpdateInput, OutboxEventUncheckedUpdateInput>
+    /**
+     * Choose, which OutboxEvent to update.
+     */
+    where: OutboxEventWhereUniqueInput
+  }
+
+  /**
+   * OutboxEvent updateMany
+   */
+  export type OutboxEventUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update OutboxEvents.
+     */
+    data: XOR<OutboxEventUpdateManyMutationInput, OutboxEventUncheckedUpdateManyInput>
+    /**
+     * Filter which OutboxEvents to update
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * Limit how many OutboxEvents to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * OutboxEvent updateManyAndReturn
+   */
+  export type OutboxEventUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * The data used to update OutboxEvents.
+     */
+    data: XOR<OutboxEventUpdateManyMutationInput, OutboxEventUncheckedUpdateManyInput>
+    /**
+     * Filter which OutboxEvents to update
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * Limit how many OutboxEvents to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * OutboxEvent upsert
+   */
+  export type OutboxEventUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * The filter to search for the OutboxEvent to update in case it exists.
+     */
+    where: OutboxEventWhereUniqueInput
+    /**
+     * In case the OutboxEvent found by the `where` argument doesn't exist, create a new OutboxEvent with this data.
+     */
+    create: XOR<OutboxEventCreateInput, OutboxEventUncheckedCreateInput>
+    /**
+     * In case the OutboxEvent was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<OutboxEventUpdateInput, OutboxEventUncheckedUpdateInput>
+  }
+
+  /**
+   * OutboxEvent delete
+   */
+  export type OutboxEventDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+    /**
+     * Filter which OutboxEvent to delete.
+     */
+    where: OutboxEventWhereUniqueInput
+  }
+
+  /**
+   * OutboxEvent deleteMany
+   */
+  export type OutboxEventDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which OutboxEvents to delete
+     */
+    where?: OutboxEventWhereInput
+    /**
+     * Limit how many OutboxEvents to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * OutboxEvent without action
+   */
+  export type OutboxEventDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the OutboxEvent
+     */
+    select?: OutboxEventSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the OutboxEvent
+     */
+    omit?: OutboxEventOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: OutboxEventInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model WorkerLease
+   */
+
+  export type AggregateWorkerLease = {
+    _count: WorkerLeaseCountAggregateOutputType | null
+    _min: WorkerLeaseMinAggregateOutputType | null
+    _max: WorkerLeaseMaxAggregateOutputType | null
+  }
+
+  export type WorkerLeaseMinAggregateOutputType = {
+    name: string | null
+    holder: string | null
+    expiresAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type WorkerLeaseMaxAggregateOutputType = {
+    name: string | null
+    holder: string | null
+    expiresAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type WorkerLeaseCountAggregateOutputType = {
+    name: number
+    holder: number
+    expiresAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type WorkerLeaseMinAggregateInputType = {
+    name?: true
+    holder?: true
+    expiresAt?: true
+    updatedAt?: true
+  }
+
+  export type WorkerLeaseMaxAggregateInputType = {
+    name?: true
+    holder?: true
+    expiresAt?: true
+    updatedAt?: true
+  }
+
+  export type WorkerLeaseCountAggregateInputType = {
+    name?: true
+    holder?: true
+    expiresAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type WorkerLeaseAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which WorkerLease to aggregate.
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of WorkerLeases to fetch.
+     */
+    orderBy?: WorkerLeaseOrderByWithRelationInput | WorkerLeaseOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: WorkerLeaseWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` WorkerLeases from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` WorkerLeases.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned WorkerLeases
+    **/
+    _count?: true | WorkerLeaseCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: WorkerLeaseMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: WorkerLeaseMaxAggregateInputType
+  }
+
+  export type GetWorkerLeaseAggregateType<T extends WorkerLeaseAggregateArgs> = {
+        [P in keyof T & keyof AggregateWorkerLease]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateWorkerLease[P]>
+      : GetScalarType<T[P], AggregateWorkerLease[P]>
+  }
+
+
+
+
+  export type WorkerLeaseGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: WorkerLeaseWhereInput
+    orderBy?: WorkerLeaseOrderByWithAggregationInput | WorkerLeaseOrderByWithAggregationInput[]
+    by: WorkerLeaseScalarFieldEnum[] | WorkerLeaseScalarFieldEnum
+    having?: WorkerLeaseScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: WorkerLeaseCountAggregateInputType | true
+    _min?: WorkerLeaseMinAggregateInputType
+    _max?: WorkerLeaseMaxAggregateInputType
+  }
+
+  export type WorkerLeaseGroupByOutputType = {
+    name: string
+    holder: string
+    expiresAt: Date
+    updatedAt: Date
+    _count: WorkerLeaseCountAggregateOutputType | null
+    _min: WorkerLeaseMinAggregateOutputType | null
+    _max: WorkerLeaseMaxAggregateOutputType | null
+  }
+
+  type GetWorkerLeaseGroupByPayload<T extends WorkerLeaseGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<WorkerLeaseGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof WorkerLeaseGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], WorkerLeaseGroupByOutputType[P]>
+            : GetScalarType<T[P], WorkerLeaseGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type WorkerLeaseSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    name?: boolean
+    holder?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["workerLease"]>
+
+  export type WorkerLeaseSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    name?: boolean
+    holder?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["workerLease"]>
+
+  export type WorkerLeaseSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    name?: boolean
+    holder?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["workerLease"]>
+
+  export type WorkerLeaseSelectScalar = {
+    name?: boolean
+    holder?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type WorkerLeaseOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"name" | "holder" | "expiresAt" | "updatedAt", ExtArgs["result"]["workerLease"]>
+
+  export type $WorkerLeasePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "WorkerLease"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      name: string
+      holder: string
+      expiresAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["workerLease"]>
+    composites: {}
+  }
+
+  type WorkerLeaseGetPayload<S extends boolean | null | undefined | WorkerLeaseDefaultArgs> = $Result.GetResult<Prisma.$WorkerLeasePayload, S>
+
+  type WorkerLeaseCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<WorkerLeaseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: WorkerLeaseCountAggregateInputType | true
+    }
+
+  export interface WorkerLeaseDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkerLease'], meta: { name: 'WorkerLease' } }
+    /**
+     * Find zero or one WorkerLease that matches the filter.
+     * @param {WorkerLeaseFindUniqueArgs} args - Arguments to find a WorkerLease
+     * @example
+     * // Get one WorkerLease
+     * const workerLease = await prisma.workerLease.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends WorkerLeaseFindUniqueArgs>(args: SelectSubset<T, WorkerLeaseFindUniqueArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one WorkerLease that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {WorkerLeaseFindUniqueOrThrowArgs} args - Arguments to find a WorkerLease
+     * @example
+     * // Get one WorkerLease
+     * const workerLease = await prisma.workerLease.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends WorkerLeaseFindUniqueOrThrowArgs>(args: SelectSubset<T, WorkerLeaseFindUniqueOrThrowArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first WorkerLease that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseFindFirstArgs} args - Arguments to find a WorkerLease
+     * @example
+     * // Get one WorkerLease
+     * const workerLease = await prisma.workerLease.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends WorkerLeaseFindFirstArgs>(args?: SelectSubset<T, WorkerLeaseFindFirstArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first WorkerLease that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseFindFirstOrThrowArgs} args - Arguments to find a WorkerLease
+     * @example
+     * // Get one WorkerLease
+     * const workerLease = await prisma.workerLease.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends WorkerLeaseFindFirstOrThrowArgs>(args?: SelectSubset<T, WorkerLeaseFindFirstOrThrowArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more WorkerLeases that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all WorkerLeases
+     * const workerLeases = await prisma.workerLease.findMany()
+     * 
+     * // Get first 10 WorkerLeases
+     * const workerLeases = await prisma.workerLease.findMany({ take: 10 })
+     * 
+     * // Only select the `name`
+     * const workerLeaseWithNameOnly = await prisma.workerLease.findMany({ select: { name: true } })
+     * 
+     */
+    findMany<T extends WorkerLeaseFindManyArgs>(args?: SelectSubset<T, WorkerLeaseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a WorkerLease.
+     * @param {WorkerLeaseCreateArgs} args - Arguments to create a WorkerLease.
+     * @example
+     * // Create one WorkerLease
+     * const WorkerLease = await prisma.workerLease.create({
+     *   data: {
+     *     // ... data to create a WorkerLease
+     *   }
+     * })
+     * 
+     */
+    create<T extends WorkerLeaseCreateArgs>(args: SelectSubset<T, WorkerLeaseCreateArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many WorkerLeases.
+     * @param {WorkerLeaseCreateManyArgs} args - Arguments to create many WorkerLeases.
+     * @example
+     * // Create many WorkerLeases
+     * const workerLease = await prisma.workerLease.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends WorkerLeaseCreateManyArgs>(args?: SelectSubset<T, WorkerLeaseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many WorkerLeases and returns the data saved in the database.
+     * @param {WorkerLeaseCreateManyAndReturnArgs} args - Arguments to create many WorkerLeases.
+     * @example
+     * // Create many WorkerLeases
+     * const workerLease = await prisma.workerLease.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many WorkerLeases and only return the `name`
+     * const workerLeaseWithNameOnly = await prisma.workerLease.createManyAndReturn({
+     *   select: { name: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends WorkerLeaseCreateManyAndReturnArgs>(args?: SelectSubset<T, WorkerLeaseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a WorkerLease.
+     * @param {WorkerLeaseDeleteArgs} args - Arguments to delete one WorkerLease.
+     * @example
+     * // Delete one WorkerLease
+     * const WorkerLease = await prisma.workerLease.delete({
+     *   where: {
+     *     // ... filter to delete one WorkerLease
+     *   }
+     * })
+     * 
+     */
+    delete<T extends WorkerLeaseDeleteArgs>(args: SelectSubset<T, WorkerLeaseDeleteArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one WorkerLease.
+     * @param {WorkerLeaseUpdateArgs} args - Arguments to update one WorkerLease.
+     * @example
+     * // Update one WorkerLease
+     * const workerLease = await prisma.workerLease.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends WorkerLeaseUpdateArgs>(args: SelectSubset<T, WorkerLeaseUpdateArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more WorkerLeases.
+     * @param {WorkerLeaseDeleteManyArgs} args - Arguments to filter WorkerLeases to delete.
+     * @example
+     * // Delete a few WorkerLeases
+     * const { count } = await prisma.workerLease.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends WorkerLeaseDeleteManyArgs>(args?: SelectSubset<T, WorkerLeaseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more WorkerLeases.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many WorkerLeases
+     * const workerLease = await prisma.workerLease.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends WorkerLeaseUpdateManyArgs>(args: SelectSubset<T, WorkerLeaseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more WorkerLeases and returns the data updated in the database.
+     * @param {WorkerLeaseUpdateManyAndReturnArgs} args - Arguments to update many WorkerLeases.
+     * @example
+     * // Update many WorkerLeases
+     * const workerLease = await prisma.workerLease.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more WorkerLeases and only return the `name`
+     * const workerLeaseWithNameOnly = await prisma.workerLease.updateManyAndReturn({
+     *   select: { name: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends WorkerLeaseUpdateManyAndReturnArgs>(args: SelectSubset<T, WorkerLeaseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one WorkerLease.
+     * @param {WorkerLeaseUpsertArgs} args - Arguments to update or create a WorkerLease.
+     * @example
+     * // Update or create a WorkerLease
+     * const workerLease = await prisma.workerLease.upsert({
+     *   create: {
+     *     // ... data to create a WorkerLease
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the WorkerLease we want to update
+     *   }
+     * })
+     */
+    upsert<T extends WorkerLeaseUpsertArgs>(args: SelectSubset<T, WorkerLeaseUpsertArgs<ExtArgs>>): Prisma__WorkerLeaseClient<$Result.GetResult<Prisma.$WorkerLeasePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of WorkerLeases.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseCountArgs} args - Arguments to filter WorkerLeases to count.
+     * @example
+     * // Count the number of WorkerLeases
+     * const count = await prisma.workerLease.count({
+     *   where: {
+     *     // ... the filter for the WorkerLeases we want to count
+     *   }
+     * })
+    **/
+    count<T extends WorkerLeaseCountArgs>(
+      args?: Subset<T, WorkerLeaseCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], WorkerLeaseCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a WorkerLease.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends WorkerLeaseAggregateArgs>(args: Subset<T, WorkerLeaseAggregateArgs>): Prisma.PrismaPromise<GetWorkerLeaseAggregateType<T>>
+
+    /**
+     * Group by WorkerLease.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {WorkerLeaseGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends WorkerLeaseGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: WorkerLeaseGroupByArgs['orderBy'] }
+        : { orderBy?: WorkerLeaseGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, WorkerLeaseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkerLeaseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the WorkerLease model
+   */
+  readonly fields: WorkerLeaseFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for WorkerLease.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__WorkerLeaseClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the WorkerLease model
+   */
+  interface WorkerLeaseFieldRefs {
+    readonly name: FieldRef<"WorkerLease", 'String'>
+    readonly holder: FieldRef<"WorkerLease", 'String'>
+    readonly expiresAt: FieldRef<"WorkerLease", 'DateTime'>
+    readonly updatedAt: FieldRef<"WorkerLease", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * WorkerLease findUnique
+   */
+  export type WorkerLeaseFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter, which WorkerLease to fetch.
+     */
+    where: WorkerLeaseWhereUniqueInput
+  }
+
+  /**
+   * WorkerLease findUniqueOrThrow
+   */
+  export type WorkerLeaseFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter, which WorkerLease to fetch.
+     */
+    where: WorkerLeaseWhereUniqueInput
+  }
+
+  /**
+   * WorkerLease findFirst
+   */
+  export type WorkerLeaseFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter, which WorkerLease to fetch.
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of WorkerLeases to fetch.
+     */
+    orderBy?: WorkerLeaseOrderByWithRelationInput | WorkerLeaseOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for WorkerLeases.
+     */
+    cursor?: WorkerLeaseWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` WorkerLeases from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` WorkerLeases.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of WorkerLeases.
+     */
+    distinct?: WorkerLeaseScalarFieldEnum | WorkerLeaseScalarFieldEnum[]
+  }
+
+  /**
+   * WorkerLease findFirstOrThrow
+   */
+  export type WorkerLeaseFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter, which WorkerLease to fetch.
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of WorkerLeases to fetch.
+     */
+    orderBy?: WorkerLeaseOrderByWithRelationInput | WorkerLeaseOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for WorkerLeases.
+     */
+    cursor?: WorkerLeaseWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` WorkerLeases from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` WorkerLeases.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of WorkerLeases.
+     */
+    distinct?: WorkerLeaseScalarFieldEnum | WorkerLeaseScalarFieldEnum[]
+  }
+
+  /**
+   * WorkerLease findMany
+   */
+  export type WorkerLeaseFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter, which WorkerLeases to fetch.
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of WorkerLeases to fetch.
+     */
+    orderBy?: WorkerLeaseOrderByWithRelationInput | WorkerLeaseOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing WorkerLeases.
+     */
+    cursor?: WorkerLeaseWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` WorkerLeases from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` WorkerLeases.
+     */
+    skip?: number
+    distinct?: WorkerLeaseScalarFieldEnum | WorkerLeaseScalarFieldEnum[]
+  }
+
+  /**
+   * WorkerLease create
+   */
+  export type WorkerLeaseCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * The data needed to create a WorkerLease.
+     */
+    data: XOR<WorkerLeaseCreateInput, WorkerLeaseUncheckedCreateInput>
+  }
+
+  /**
+   * WorkerLease createMany
+   */
+  export type WorkerLeaseCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many WorkerLeases.
+     */
+    data: WorkerLeaseCreateManyInput | WorkerLeaseCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * WorkerLease createManyAndReturn
+   */
+  export type WorkerLeaseCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * The data used to create many WorkerLeases.
+     */
+    data: WorkerLeaseCreateManyInput | WorkerLeaseCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * WorkerLease update
+   */
+  export type WorkerLeaseUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * The data needed to update a WorkerLease.
+     */
+    data: XOR<WorkerLeaseUpdateInput, WorkerLeaseUncheckedUpdateInput>
+    /**
+     * Choose, which WorkerLease to update.
+     */
+    where: WorkerLeaseWhereUniqueInput
+  }
+
+  /**
+   * WorkerLease updateMany
+   */
+  export type WorkerLeaseUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update WorkerLeases.
+     */
+    data: XOR<WorkerLeaseUpdateManyMutationInput, WorkerLeaseUncheckedUpdateManyInput>
+    /**
+     * Filter which WorkerLeases to update
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * Limit how many WorkerLeases to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * WorkerLease updateManyAndReturn
+   */
+  export type WorkerLeaseUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * The data used to update WorkerLeases.
+     */
+    data: XOR<WorkerLeaseUpdateManyMutationInput, WorkerLeaseUncheckedUpdateManyInput>
+    /**
+     * Filter which WorkerLeases to update
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * Limit how many WorkerLeases to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * WorkerLease upsert
+   */
+  export type WorkerLeaseUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * The filter to search for the WorkerLease to update in case it exists.
+     */
+    where: WorkerLeaseWhereUniqueInput
+    /**
+     * In case the WorkerLease found by the `where` argument doesn't exist, create a new WorkerLease with this data.
+     */
+    create: XOR<WorkerLeaseCreateInput, WorkerLeaseUncheckedCreateInput>
+    /**
+     * In case the WorkerLease was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<WorkerLeaseUpdateInput, WorkerLeaseUncheckedUpdateInput>
+  }
+
+  /**
+   * WorkerLease delete
+   */
+  export type WorkerLeaseDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+    /**
+     * Filter which WorkerLease to delete.
+     */
+    where: WorkerLeaseWhereUniqueInput
+  }
+
+  /**
+   * WorkerLease deleteMany
+   */
+  export type WorkerLeaseDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which WorkerLeases to delete
+     */
+    where?: WorkerLeaseWhereInput
+    /**
+     * Limit how many WorkerLeases to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * WorkerLease without action
+   */
+  export type WorkerLeaseDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the WorkerLease
+     */
+    select?: WorkerLeaseSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the WorkerLease
+     */
+    omit?: WorkerLeaseOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model ApiKey
+   */
+
+  export type AggregateApiKey = {
+    _count: ApiKeyCountAggregateOutputType | null
+    _min: ApiKeyMinAggregateOutputType | null
+    _max: ApiKeyMaxAggregateOutputType | null
+  }
+
+  export type ApiKeyMinAggregateOutputType = {
+    id: string | null
+    name: string | null
+    prefix: string | null
+    keyHash: string | null
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date | null
+  }
+
+  export type ApiKeyMaxAggregateOutputType = {
+    id: string | null
+    name: string | null
+    prefix: string | null
+    keyHash: string | null
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date | null
+  }
+
+  export type ApiKeyCountAggregateOutputType = {
+    id: number
+    name: number
+    prefix: number
+    keyHash: number
+    scopes: number
+    lastUsedAt: number
+    revokedAt: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type ApiKeyMinAggregateInputType = {
+    id?: true
+    name?: true
+    prefix?: true
+    keyHash?: true
+    lastUsedAt?: true
+    revokedAt?: true
+    createdAt?: true
+  }
+
+  export type ApiKeyMaxAggregateInputType = {
+    id?: true
+    name?: true
+    prefix?: true
+    keyHash?: true
+    lastUsedAt?: true
+    revokedAt?: true
+    createdAt?: true
+  }
+
+  export type ApiKeyCountAggregateInputType = {
+    id?: true
+    name?: true
+    prefix?: true
+    keyHash?: true
+    scopes?: true
+    lastUsedAt?: true
+    revokedAt?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type ApiKeyAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ApiKey to aggregate.
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ApiKeys to fetch.
+     */
+    orderBy?: ApiKeyOrderByWithRelationInput | ApiKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: ApiKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ApiKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ApiKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned ApiKeys
+    **/
+    _count?: true | ApiKeyCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: ApiKeyMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: ApiKeyMaxAggregateInputType
+  }
+
+  export type GetApiKeyAggregateType<T extends ApiKeyAggregateArgs> = {
+        [P in keyof T & keyof AggregateApiKey]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateApiKey[P]>
+      : GetScalarType<T[P], AggregateApiKey[P]>
+  }
+
+
+
+
+  export type ApiKeyGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ApiKeyWhereInput
+    orderBy?: ApiKeyOrderByWithAggregationInput | ApiKeyOrderByWithAggregationInput[]
+    by: ApiKeyScalarFieldEnum[] | ApiKeyScalarFieldEnum
+    having?: ApiKeyScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: ApiKeyCountAggregateInputType | true
+    _min?: ApiKeyMinAggregateInputType
+    _max?: ApiKeyMaxAggregateInputType
+  }
+
+  export type ApiKeyGroupByOutputType = {
+    id: string
+    name: string
+    prefix: string
+    keyHash: string
+    scopes: string[]
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date
+    _count: ApiKeyCountAggregateOutputType | null
+    _min: ApiKeyMinAggregateOutputType | null
+    _max: ApiKeyMaxAggregateOutputType | null
+  }
+
+  type GetApiKeyGroupByPayload<T extends ApiKeyGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<ApiKeyGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof ApiKeyGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], ApiKeyGroupByOutputType[P]>
+            : GetScalarType<T[P], ApiKeyGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type ApiKeySelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    prefix?: boolean
+    keyHash?: boolean
+    scopes?: boolean
+    lastUsedAt?: boolean
+    revokedAt?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["apiKey"]>
+
+  export type ApiKeySelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    prefix?: boolean
+    keyHash?: boolean
+    scopes?: boolean
+    lastUsedAt?: boolean
+    revokedAt?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["apiKey"]>
+
+  export type ApiKeySelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    name?: boolean
+    prefix?: boolean
+    keyHash?: boolean
+    scopes?: boolean
+    lastUsedAt?: boolean
+    revokedAt?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["apiKey"]>
+
+  export type ApiKeySelectScalar = {
+    id?: boolean
+    name?: boolean
+    prefix?: boolean
+    keyHash?: boolean
+    scopes?: boolean
+    lastUsedAt?: boolean
+    revokedAt?: boolean
+    createdAt?: boolean
+  }
+
+  export type ApiKeyOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "prefix" | "keyHash" | "scopes" | "lastUsedAt" | "revokedAt" | "createdAt", ExtArgs["result"]["apiKey"]>
+
+  export type $ApiKeyPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "ApiKey"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      name: string
+      prefix: string
+      keyHash: string
+      scopes: string[]
+      lastUsedAt: Date | null
+      revokedAt: Date | null
+      createdAt: Date
+    }, ExtArgs["result"]["apiKey"]>
+    composites: {}
+  }
+
+  type ApiKeyGetPayload<S extends boolean | null | undefined | ApiKeyDefaultArgs> = $Result.GetResult<Prisma.$ApiKeyPayload, S>
+
+  type ApiKeyCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<ApiKeyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: ApiKeyCountAggregateInputType | true
+    }
+
+  export interface ApiKeyDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ApiKey'], meta: { name: 'ApiKey' } }
+    /**
+     * Find zero or one ApiKey that matches the filter.
+     * @param {ApiKeyFindUniqueArgs} args - Arguments to find a ApiKey
+     * @example
+     * // Get one ApiKey
+     * const apiKey = await prisma.apiKey.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends ApiKeyFindUniqueArgs>(args: SelectSubset<T, ApiKeyFindUniqueArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one ApiKey that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {ApiKeyFindUniqueOrThrowArgs} args - Arguments to find a ApiKey
+     * @example
+     * // Get one ApiKey
+     * const apiKey = await prisma.apiKey.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends ApiKeyFindUniqueOrThrowArgs>(args: SelectSubset<T, ApiKeyFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ApiKey that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyFindFirstArgs} args - Arguments to find a ApiKey
+     * @example
+     * // Get one ApiKey
+     * const apiKey = await prisma.apiKey.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends ApiKeyFindFirstArgs>(args?: SelectSubset<T, ApiKeyFindFirstArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ApiKey that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyFindFirstOrThrowArgs} args - Arguments to find a ApiKey
+     * @example
+     * // Get one ApiKey
+     * const apiKey = await prisma.apiKey.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends ApiKeyFindFirstOrThrowArgs>(args?: SelectSubset<T, ApiKeyFindFirstOrThrowArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more ApiKeys that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all ApiKeys
+     * const apiKeys = await prisma.apiKey.findMany()
+     * 
+     * // Get first 10 ApiKeys
+     * const apiKeys = await prisma.apiKey.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const apiKeyWithIdOnly = await prisma.apiKey.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends ApiKeyFindManyArgs>(args?: SelectSubset<T, ApiKeyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a ApiKey.
+     * @param {ApiKeyCreateArgs} args - Arguments to create a ApiKey.
+     * @example
+     * // Create one ApiKey
+     * const ApiKey = await prisma.apiKey.create({
+     *   data: {
+     *     // ... data to create a ApiKey
+     *   }
+     * })
+     * 
+     */
+    create<T extends ApiKeyCreateArgs>(args: SelectSubset<T, ApiKeyCreateArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many ApiKeys.
+     * @param {ApiKeyCreateManyArgs} args - Arguments to create many ApiKeys.
+     * @example
+     * // Create many ApiKeys
+     * const apiKey = await prisma.apiKey.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends ApiKeyCreateManyArgs>(args?: SelectSubset<T, ApiKeyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many ApiKeys and returns the data saved in the database.
+     * @param {ApiKeyCreateManyAndReturnArgs} args - Arguments to create many ApiKeys.
+     * @example
+     * // Create many ApiKeys
+     * const apiKey = await prisma.apiKey.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many ApiKeys and only return the `id`
+     * const apiKeyWithIdOnly = await prisma.apiKey.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends ApiKeyCreateManyAndReturnArgs>(args?: SelectSubset<T, ApiKeyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a ApiKey.
+     * @param {ApiKeyDeleteArgs} args - Arguments to delete one ApiKey.
+     * @example
+     * // Delete one ApiKey
+     * const ApiKey = await prisma.apiKey.delete({
+     *   where: {
+     *     // ... filter to delete one ApiKey
+     *   }
+     * })
+     * 
+     */
+    delete<T extends ApiKeyDeleteArgs>(args: SelectSubset<T, ApiKeyDeleteArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one ApiKey.
+     * @param {ApiKeyUpdateArgs} args - Arguments to update one ApiKey.
+     * @example
+     * // Update one ApiKey
+     * const apiKey = await prisma.apiKey.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends ApiKeyUpdateArgs>(args: SelectSubset<T, ApiKeyUpdateArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more ApiKeys.
+     * @param {ApiKeyDeleteManyArgs} args - Arguments to filter ApiKeys to delete.
+     * @example
+     * // Delete a few ApiKeys
+     * const { count } = await prisma.apiKey.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends ApiKeyDeleteManyArgs>(args?: SelectSubset<T, ApiKeyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ApiKeys.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many ApiKeys
+     * const apiKey = await prisma.apiKey.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends ApiKeyUpdateManyArgs>(args: SelectSubset<T, ApiKeyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ApiKeys and returns the data updated in the database.
+     * @param {ApiKeyUpdateManyAndReturnArgs} args - Arguments to update many ApiKeys.
+     * @example
+     * // Update many ApiKeys
+     * const apiKey = await prisma.apiKey.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more ApiKeys and only return the `id`
+     * const apiKeyWithIdOnly = await prisma.apiKey.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends ApiKeyUpdateManyAndReturnArgs>(args: SelectSubset<T, ApiKeyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one ApiKey.
+     * @param {ApiKeyUpsertArgs} args - Arguments to update or create a ApiKey.
+     * @example
+     * // Update or create a ApiKey
+     * const apiKey = await prisma.apiKey.upsert({
+     *   create: {
+     *     // ... data to create a ApiKey
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the ApiKey we want to update
+     *   }
+     * })
+     */
+    upsert<T extends ApiKeyUpsertArgs>(args: SelectSubset<T, ApiKeyUpsertArgs<ExtArgs>>): Prisma__ApiKeyClient<$Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of ApiKeys.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyCountArgs} args - Arguments to filter ApiKeys to count.
+     * @example
+     * // Count the number of ApiKeys
+     * const count = await prisma.apiKey.count({
+     *   where: {
+     *     // ... the filter for the ApiKeys we want to count
+     *   }
+     * })
+    **/
+    count<T extends ApiKeyCountArgs>(
+      args?: Subset<T, ApiKeyCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], ApiKeyCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a ApiKey.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends ApiKeyAggregateArgs>(args: Subset<T, ApiKeyAggregateArgs>): Prisma.PrismaPromise<GetApiKeyAggregateType<T>>
+
+    /**
+     * Group by ApiKey.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ApiKeyGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends ApiKeyGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: ApiKeyGroupByArgs['orderBy'] }
+        : { orderBy?: ApiKeyGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, ApiKeyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetApiKeyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the ApiKey model
+   */
+  readonly fields: ApiKeyFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for ApiKey.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__ApiKeyClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the ApiKey model
+   */
+  interface ApiKeyFieldRefs {
+    readonly id: FieldRef<"ApiKey", 'String'>
+    readonly name: FieldRef<"ApiKey", 'String'>
+    readonly prefix: FieldRef<"ApiKey", 'String'>
+    readonly keyHash: FieldRef<"ApiKey", 'String'>
+    readonly scopes: FieldRef<"ApiKey", 'String[]'>
+    readonly lastUsedAt: FieldRef<"ApiKey", 'DateTime'>
+    readonly revokedAt: FieldRef<"ApiKey", 'DateTime'>
+    readonly createdAt: FieldRef<"ApiKey", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * ApiKey findUnique
+   */
+  export type ApiKeyFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which ApiKey to fetch.
+     */
+    where: ApiKeyWhereUniqueInput
+  }
+
+  /**
+   * ApiKey findUniqueOrThrow
+   */
+  export type ApiKeyFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which ApiKey to fetch.
+     */
+    where: ApiKeyWhereUniqueInput
+  }
+
+  /**
+   * ApiKey findFirst
+   */
+  export type ApiKeyFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which ApiKey to fetch.
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ApiKeys to fetch.
+     */
+    orderBy?: ApiKeyOrderByWithRelationInput | ApiKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ApiKeys.
+     */
+    cursor?: ApiKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ApiKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ApiKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ApiKeys.
+     */
+    distinct?: ApiKeyScalarFieldEnum | ApiKeyScalarFieldEnum[]
+  }
+
+  /**
+   * ApiKey findFirstOrThrow
+   */
+  export type ApiKeyFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which ApiKey to fetch.
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ApiKeys to fetch.
+     */
+    orderBy?: ApiKeyOrderByWithRelationInput | ApiKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ApiKeys.
+     */
+    cursor?: ApiKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ApiKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ApiKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ApiKeys.
+     */
+    distinct?: ApiKeyScalarFieldEnum | ApiKeyScalarFieldEnum[]
+  }
+
+  /**
+   * ApiKey findMany
+   */
+  export type ApiKeyFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which ApiKeys to fetch.
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ApiKeys to fetch.
+     */
+    orderBy?: ApiKeyOrderByWithRelationInput | ApiKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing ApiKeys.
+     */
+    cursor?: ApiKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ApiKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ApiKeys.
+     */
+    skip?: number
+    distinct?: ApiKeyScalarFieldEnum | ApiKeyScalarFieldEnum[]
+  }
+
+  /**
+   * ApiKey create
+   */
+  export type ApiKeyCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * The data needed to create a ApiKey.
+     */
+    data: XOR<ApiKeyCreateInput, ApiKeyUncheckedCreateInput>
+  }
+
+  /**
+   * ApiKey createMany
+   */
+  export type ApiKeyCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many ApiKeys.
+     */
+    data: ApiKeyCreateManyInput | ApiKeyCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ApiKey createManyAndReturn
+   */
+  export type ApiKeyCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * The data used to create many ApiKeys.
+     */
+    data: ApiKeyCreateManyInput | ApiKeyCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ApiKey update
+   */
+  export type ApiKeyUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * The data needed to update a ApiKey.
+     */
+    data: XOR<ApiKeyUpdateInput, ApiKeyUncheckedUpdateInput>
+    /**
+     * Choose, which ApiKey to update.
+     */
+    where: ApiKeyWhereUniqueInput
+  }
+
+  /**
+   * ApiKey updateMany
+   */
+  export type ApiKeyUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update ApiKeys.
+     */
+    data: XOR<ApiKeyUpdateManyMutationInput, ApiKeyUncheckedUpdateManyInput>
+    /**
+     * Filter which ApiKeys to update
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * Limit how many ApiKeys to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ApiKey updateManyAndReturn
+   */
+  export type ApiKeyUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * The data used to update ApiKeys.
+     */
+    data: XOR<ApiKeyUpdateManyMutationInput, ApiKeyUncheckedUpdateManyInput>
+    /**
+     * Filter which ApiKeys to update
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * Limit how many ApiKeys to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ApiKey upsert
+   */
+  export type ApiKeyUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * The filter to search for the ApiKey to update in case it exists.
+     */
+    where: ApiKeyWhereUniqueInput
+    /**
+     * In case the ApiKey found by the `where` argument doesn't exist, create a new ApiKey with this data.
+     */
+    create: XOR<ApiKeyCreateInput, ApiKeyUncheckedCreateInput>
+    /**
+     * In case the ApiKey was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<ApiKeyUpdateInput, ApiKeyUncheckedUpdateInput>
+  }
+
+  /**
+   * ApiKey delete
+   */
+  export type ApiKeyDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+    /**
+     * Filter which ApiKey to delete.
+     */
+    where: ApiKeyWhereUniqueInput
+  }
+
+  /**
+   * ApiKey deleteMany
+   */
+  export type ApiKeyDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ApiKeys to delete
+     */
+    where?: ApiKeyWhereInput
+    /**
+     * Limit how many ApiKeys to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * ApiKey without action
+   */
+  export type ApiKeyDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ApiKey
+     */
+    select?: ApiKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ApiKey
+     */
+    omit?: ApiKeyOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model RateLimitHit
+   */
+
+  export type AggregateRateLimitHit = {
+    _count: RateLimitHitCountAggregateOutputType | null
+    _min: RateLimitHitMinAggregateOutputType | null
+    _max: RateLimitHitMaxAggregateOutputType | null
+  }
+
+  export type RateLimitHitMinAggregateOutputType = {
+    id: string | null
+    key: string | null
+    createdAt: Date | null
+  }
+
+  export type RateLimitHitMaxAggregateOutputType = {
+    id: string | null
+    key: string | null
+    createdAt: Date | null
+  }
+
+  export type RateLimitHitCountAggregateOutputType = {
+    id: number
+    key: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type RateLimitHitMinAggregateInputType = {
+    id?: true
+    key?: true
+    createdAt?: true
+  }
+
+  export type RateLimitHitMaxAggregateInputType = {
+    id?: true
+    key?: true
+    createdAt?: true
+  }
+
+  export type RateLimitHitCountAggregateInputType = {
+    id?: true
+    key?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type RateLimitHitAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which RateLimitHit to aggregate.
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimitHits to fetch.
+     */
+    orderBy?: RateLimitHitOrderByWithRelationInput | RateLimitHitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: RateLimitHitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimitHits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimitHits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned RateLimitHits
+    **/
+    _count?: true | RateLimitHitCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: RateLimitHitMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: RateLimitHitMaxAggregateInputType
+  }
+
+  export type GetRateLimitHitAggregateType<T extends RateLimitHitAggregateArgs> = {
+        [P in keyof T & keyof AggregateRateLimitHit]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateRateLimitHit[P]>
+      : GetScalarType<T[P], AggregateRateLimitHit[P]>
+  }
+
+
+
+
+  export type RateLimitHitGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: RateLimitHitWhereInput
+    orderBy?: RateLimitHitOrderByWithAggregationInput | RateLimitHitOrderByWithAggregationInput[]
+    by: RateLimitHitScalarFieldEnum[] | RateLimitHitScalarFieldEnum
+    having?: RateLimitHitScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: RateLimitHitCountAggregateInputType | true
+    _min?: RateLimitHitMinAggregateInputType
+    _max?: RateLimitHitMaxAggregateInputType
+  }
+
+  export type RateLimitHitGroupByOutputType = {
+    id: string
+    key: string
+    createdAt: Date
+    _count: RateLimitHitCountAggregateOutputType | null
+    _min: RateLimitHitMinAggregateOutputType | null
+    _max: RateLimitHitMaxAggregateOutputType | null
+  }
+
+  type GetRateLimitHitGroupByPayload<T extends RateLimitHitGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<RateLimitHitGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof RateLimitHitGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], RateLimitHitGroupByOutputType[P]>
+            : GetScalarType<T[P], RateLimitHitGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type RateLimitHitSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    key?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["rateLimitHit"]>
+
+  export type RateLimitHitSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    key?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["rateLimitHit"]>
+
+  export type RateLimitHitSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    key?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["rateLimitHit"]>
+
+  export type RateLimitHitSelectScalar = {
+    id?: boolean
+    key?: boolean
+    createdAt?: boolean
+  }
+
+  export type RateLimitHitOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "key" | "createdAt", ExtArgs["result"]["rateLimitHit"]>
+
+  export type $RateLimitHitPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "RateLimitHit"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      key: string
+      createdAt: Date
+    }, ExtArgs["result"]["rateLimitHit"]>
+    composites: {}
+  }
+
+  type RateLimitHitGetPayload<S extends boolean | null | undefined | RateLimitHitDefaultArgs> = $Result.GetResult<Prisma.$RateLimitHitPayload, S>
+
+  type RateLimitHitCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<RateLimitHitFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: RateLimitHitCountAggregateInputType | true
+    }
+
+  export interface RateLimitHitDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RateLimitHit'], meta: { name: 'RateLimitHit' } }
+    /**
+     * Find zero or one RateLimitHit that matches the filter.
+     * @param {RateLimitHitFindUniqueArgs} args - Arguments to find a RateLimitHit
+     * @example
+     * // Get one RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends RateLimitHitFindUniqueArgs>(args: SelectSubset<T, RateLimitHitFindUniqueArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one RateLimitHit that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {RateLimitHitFindUniqueOrThrowArgs} args - Arguments to find a RateLimitHit
+     * @example
+     * // Get one RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends RateLimitHitFindUniqueOrThrowArgs>(args: SelectSubset<T, RateLimitHitFindUniqueOrThrowArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first RateLimitHit that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitFindFirstArgs} args - Arguments to find a RateLimitHit
+     * @example
+     * // Get one RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends RateLimitHitFindFirstArgs>(args?: SelectSubset<T, RateLimitHitFindFirstArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first RateLimitHit that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitFindFirstOrThrowArgs} args - Arguments to find a RateLimitHit
+     * @example
+     * // Get one RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends RateLimitHitFindFirstOrThrowArgs>(args?: SelectSubset<T, RateLimitHitFindFirstOrThrowArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more RateLimitHits that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all RateLimitHits
+     * const rateLimitHits = await prisma.rateLimitHit.findMany()
+     * 
+     * // Get first 10 RateLimitHits
+     * const rateLimitHits = await prisma.rateLimitHit.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const rateLimitHitWithIdOnly = await prisma.rateLimitHit.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends RateLimitHitFindManyArgs>(args?: SelectSubset<T, RateLimitHitFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a RateLimitHit.
+     * @param {RateLimitHitCreateArgs} args - Arguments to create a RateLimitHit.
+     * @example
+     * // Create one RateLimitHit
+     * const RateLimitHit = await prisma.rateLimitHit.create({
+     *   data: {
+     *     // ... data to create a RateLimitHit
+     *   }
+     * })
+     * 
+     */
+    create<T extends RateLimitHitCreateArgs>(args: SelectSubset<T, RateLimitHitCreateArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many RateLimitHits.
+     * @param {RateLimitHitCreateManyArgs} args - Arguments to create many RateLimitHits.
+     * @example
+     * // Create many RateLimitHits
+     * const rateLimitHit = await prisma.rateLimitHit.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends RateLimitHitCreateManyArgs>(args?: SelectSubset<T, RateLimitHitCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many RateLimitHits and returns the data saved in the database.
+     * @param {RateLimitHitCreateManyAndReturnArgs} args - Arguments to create many RateLimitHits.
+     * @example
+     * // Create many RateLimitHits
+     * const rateLimitHit = await prisma.rateLimitHit.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many RateLimitHits and only return the `id`
+     * const rateLimitHitWithIdOnly = await prisma.rateLimitHit.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends RateLimitHitCreateManyAndReturnArgs>(args?: SelectSubset<T, RateLimitHitCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a RateLimitHit.
+     * @param {RateLimitHitDeleteArgs} args - Arguments to delete one RateLimitHit.
+     * @example
+     * // Delete one RateLimitHit
+     * const RateLimitHit = await prisma.rateLimitHit.delete({
+     *   where: {
+     *     // ... filter to delete one RateLimitHit
+     *   }
+     * })
+     * 
+     */
+    delete<T extends RateLimitHitDeleteArgs>(args: SelectSubset<T, RateLimitHitDeleteArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one RateLimitHit.
+     * @param {RateLimitHitUpdateArgs} args - Arguments to update one RateLimitHit.
+     * @example
+     * // Update one RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends RateLimitHitUpdateArgs>(args: SelectSubset<T, RateLimitHitUpdateArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more RateLimitHits.
+     * @param {RateLimitHitDeleteManyArgs} args - Arguments to filter RateLimitHits to delete.
+     * @example
+     * // Delete a few RateLimitHits
+     * const { count } = await prisma.rateLimitHit.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends RateLimitHitDeleteManyArgs>(args?: SelectSubset<T, RateLimitHitDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more RateLimitHits.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many RateLimitHits
+     * const rateLimitHit = await prisma.rateLimitHit.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends RateLimitHitUpdateManyArgs>(args: SelectSubset<T, RateLimitHitUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more RateLimitHits and returns the data updated in the database.
+     * @param {RateLimitHitUpdateManyAndReturnArgs} args - Arguments to update many RateLimitHits.
+     * @example
+     * // Update many RateLimitHits
+     * const rateLimitHit = await prisma.rateLimitHit.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more RateLimitHits and only return the `id`
+     * const rateLimitHitWithIdOnly = await prisma.rateLimitHit.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends RateLimitHitUpdateManyAndReturnArgs>(args: SelectSubset<T, RateLimitHitUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one RateLimitHit.
+     * @param {RateLimitHitUpsertArgs} args - Arguments to update or create a RateLimitHit.
+     * @example
+     * // Update or create a RateLimitHit
+     * const rateLimitHit = await prisma.rateLimitHit.upsert({
+     *   create: {
+     *     // ... data to create a RateLimitHit
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the RateLimitHit we want to update
+     *   }
+     * })
+     */
+    upsert<T extends RateLimitHitUpsertArgs>(args: SelectSubset<T, RateLimitHitUpsertArgs<ExtArgs>>): Prisma__RateLimitHitClient<$Result.GetResult<Prisma.$RateLimitHitPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of RateLimitHits.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitCountArgs} args - Arguments to filter RateLimitHits to count.
+     * @example
+     * // Count the number of RateLimitHits
+     * const count = await prisma.rateLimitHit.count({
+     *   where: {
+     *     // ... the filter for the RateLimitHits we want to count
+     *   }
+     * })
+    **/
+    count<T extends RateLimitHitCountArgs>(
+      args?: Subset<T, RateLimitHitCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], RateLimitHitCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a RateLimitHit.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends RateLimitHitAggregateArgs>(args: Subset<T, RateLimitHitAggregateArgs>): Prisma.PrismaPromise<GetRateLimitHitAggregateType<T>>
+
+    /**
+     * Group by RateLimitHit.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitHitGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends RateLimitHitGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: RateLimitHitGroupByArgs['orderBy'] }
+        : { orderBy?: RateLimitHitGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, RateLimitHitGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRateLimitHitGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the RateLimitHit model
+   */
+  readonly fields: RateLimitHitFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for RateLimitHit.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__RateLimitHitClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the RateLimitHit model
+   */
+  interface RateLimitHitFieldRefs {
+    readonly id: FieldRef<"RateLimitHit", 'String'>
+    readonly key: FieldRef<"RateLimitHit", 'String'>
+    readonly createdAt: FieldRef<"RateLimitHit", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * RateLimitHit findUnique
+   */
+  export type RateLimitHitFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimitHit to fetch.
+     */
+    where: RateLimitHitWhereUniqueInput
+  }
+
+  /**
+   * RateLimitHit findUniqueOrThrow
+   */
+  export type RateLimitHitFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimitHit to fetch.
+     */
+    where: RateLimitHitWhereUniqueInput
+  }
+
+  /**
+   * RateLimitHit findFirst
+   */
+  export type RateLimitHitFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimitHit to fetch.
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimitHits to fetch.
+     */
+    orderBy?: RateLimitHitOrderByWithRelationInput | RateLimitHitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for RateLimitHits.
+     */
+    cursor?: RateLimitHitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimitHits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimitHits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of RateLimitHits.
+     */
+    distinct?: RateLimitHitScalarFieldEnum | RateLimitHitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimitHit findFirstOrThrow
+   */
+  export type RateLimitHitFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimitHit to fetch.
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimitHits to fetch.
+     */
+    orderBy?: RateLimitHitOrderByWithRelationInput | RateLimitHitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for RateLimitHits.
+     */
+    cursor?: RateLimitHitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimitHits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimitHits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of RateLimitHits.
+     */
+    distinct?: RateLimitHitScalarFieldEnum | RateLimitHitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimitHit findMany
+   */
+  export type RateLimitHitFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimitHits to fetch.
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimitHits to fetch.
+     */
+    orderBy?: RateLimitHitOrderByWithRelationInput | RateLimitHitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing RateLimitHits.
+     */
+    cursor?: RateLimitHitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimitHits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimitHits.
+     */
+    skip?: number
+    distinct?: RateLimitHitScalarFieldEnum | RateLimitHitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimitHit create
+   */
+  export type RateLimitHitCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * The data needed to create a RateLimitHit.
+     */
+    data: XOR<RateLimitHitCreateInput, RateLimitHitUncheckedCreateInput>
+  }
+
+  /**
+   * RateLimitHit createMany
+   */
+  export type RateLimitHitCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many RateLimitHits.
+     */
+    data: RateLimitHitCreateManyInput | RateLimitHitCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * RateLimitHit createManyAndReturn
+   */
+  export type RateLimitHitCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * The data used to create many RateLimitHits.
+     */
+    data: RateLimitHitCreateManyInput | RateLimitHitCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * RateLimitHit update
+   */
+  export type RateLimitHitUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * The data needed to update a RateLimitHit.
+     */
+    data: XOR<RateLimitHitUpdateInput, RateLimitHitUncheckedUpdateInput>
+    /**
+     * Choose, which RateLimitHit to update.
+     */
+    where: RateLimitHitWhereUniqueInput
+  }
+
+  /**
+   * RateLimitHit updateMany
+   */
+  export type RateLimitHitUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update RateLimitHits.
+     */
+    data: XOR<RateLimitHitUpdateManyMutationInput, RateLimitHitUncheckedUpdateManyInput>
+    /**
+     * Filter which RateLimitHits to update
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * Limit how many RateLimitHits to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimitHit updateManyAndReturn
+   */
+  export type RateLimitHitUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * The data used to update RateLimitHits.
+     */
+    data: XOR<RateLimitHitUpdateManyMutationInput, RateLimitHitUncheckedUpdateManyInput>
+    /**
+     * Filter which RateLimitHits to update
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * Limit how many RateLimitHits to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimitHit upsert
+   */
+  export type RateLimitHitUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * The filter to search for the RateLimitHit to update in case it exists.
+     */
+    where: RateLimitHitWhereUniqueInput
+    /**
+     * In case the RateLimitHit found by the `where` argument doesn't exist, create a new RateLimitHit with this data.
+     */
+    create: XOR<RateLimitHitCreateInput, RateLimitHitUncheckedCreateInput>
+    /**
+     * In case the RateLimitHit was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<RateLimitHitUpdateInput, RateLimitHitUncheckedUpdateInput>
+  }
+
+  /**
+   * RateLimitHit delete
+   */
+  export type RateLimitHitDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+    /**
+     * Filter which RateLimitHit to delete.
+     */
+    where: RateLimitHitWhereUniqueInput
+  }
+
+  /**
+   * RateLimitHit deleteMany
+   */
+  export type RateLimitHitDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which RateLimitHits to delete
+     */
+    where?: RateLimitHitWhereInput
+    /**
+     * Limit how many RateLimitHits to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimitHit without action
+   */
+  export type RateLimitHitDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimitHit
+     */
+    select?: RateLimitHitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimitHit
+     */
+    omit?: RateLimitHitOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model IdempotencyKey
+   */
+
+  export type AggregateIdempotencyKey = {
+    _count: IdempotencyKeyCountAggregateOutputType | null
+    _avg: IdempotencyKeyAvgAggregateOutputType | null
+    _sum: IdempotencyKeySumAggregateOutputType | null
+    _min: IdempotencyKeyMinAggregateOutputType | null
+    _max: IdempotencyKeyMaxAggregateOutputType | null
+  }
+
+  export type IdempotencyKeyAvgAggregateOutputType = {
+    responseStatus: number | null
+  }
+
+  export type IdempotencyKeySumAggregateOutputType = {
+    responseStatus: number | null
+  }
+
+  export type IdempotencyKeyMinAggregateOutputType = {
+    scope: string | null
+    key: string | null
+    requestHash: string | null
+    responseStatus: number | null
+    createdAt: Date | null
+    expiresAt: Date | null
+  }
+
+  export type IdempotencyKeyMaxAggregateOutputType = {
+    scope: string | null
+    key: string | null
+    requestHash: string | null
+    responseStatus: number | null
+    createdAt: Date | null
+    expiresAt: Date | null
+  }
+
+  export type IdempotencyKeyCountAggregateOutputType = {
+    scope: number
+    key: number
+    requestHash: number
+    responseStatus: number
+    responseBody: number
+    createdAt: number
+    expiresAt: number
+    _all: number
+  }
+
+
+  export type IdempotencyKeyAvgAggregateInputType = {
+    responseStatus?: true
+  }
+
+  export type IdempotencyKeySumAggregateInputType = {
+    responseStatus?: true
+  }
+
+  export type IdempotencyKeyMinAggregateInputType = {
+    scope?: true
+    key?: true
+    requestHash?: true
+    responseStatus?: true
+    createdAt?: true
+    expiresAt?: true
+  }
+
+  export type IdempotencyKeyMaxAggregateInputType = {
+    scope?: true
+    key?: true
+    requestHash?: true
+    responseStatus?: true
+    createdAt?: true
+    expiresAt?: true
+  }
+
+  export type IdempotencyKeyCountAggregateInputType = {
+    scope?: true
+    key?: true
+    requestHash?: true
+    responseStatus?: true
+    responseBody?: true
+    createdAt?: true
+    expiresAt?: true
+    _all?: true
+  }
+
+  export type IdempotencyKeyAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which IdempotencyKey to aggregate.
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of IdempotencyKeys to fetch.
+     */
+    orderBy?: IdempotencyKeyOrderByWithRelationInput | IdempotencyKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: IdempotencyKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` IdempotencyKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` IdempotencyKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned IdempotencyKeys
+    **/
+    _count?: true | IdempotencyKeyCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: IdempotencyKeyAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: IdempotencyKeySumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: IdempotencyKeyMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: IdempotencyKeyMaxAggregateInputType
+  }
+
+  export type GetIdempotencyKeyAggregateType<T extends IdempotencyKeyAggregateArgs> = {
+        [P in keyof T & keyof AggregateIdempotencyKey]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateIdempotencyKey[P]>
+      : GetScalarType<T[P], AggregateIdempotencyKey[P]>
+  }
+
+
+
+
+  export type IdempotencyKeyGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: IdempotencyKeyWhereInput
+    orderBy?: IdempotencyKeyOrderByWithAggregationInput | IdempotencyKeyOrderByWithAggregationInput[]
+    by: IdempotencyKeyScalarFieldEnum[] | IdempotencyKeyScalarFieldEnum
+    having?: IdempotencyKeyScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: IdempotencyKeyCountAggregateInputType | true
+    _avg?: IdempotencyKeyAvgAggregateInputType
+    _sum?: IdempotencyKeySumAggregateInputType
+    _min?: IdempotencyKeyMinAggregateInputType
+    _max?: IdempotencyKeyMaxAggregateInputType
+  }
+
+  export type IdempotencyKeyGroupByOutputType = {
+    scope: string
+    key: string
+    requestHash: string
+    responseStatus: number | null
+    responseBody: JsonValue | null
+    createdAt: Date
+    expiresAt: Date
+    _count: IdempotencyKeyCountAggregateOutputType | null
+    _avg: IdempotencyKeyAvgAggregateOutputType | null
+    _sum: IdempotencyKeySumAggregateOutputType | null
+    _min: IdempotencyKeyMinAggregateOutputType | null
+    _max: IdempotencyKeyMaxAggregateOutputType | null
+  }
+
+  type GetIdempotencyKeyGroupByPayload<T extends IdempotencyKeyGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<IdempotencyKeyGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof IdempotencyKeyGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], IdempotencyKeyGroupByOutputType[P]>
+            : GetScalarType<T[P], IdempotencyKeyGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type IdempotencyKeySelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    scope?: boolean
+    key?: boolean
+    requestHash?: boolean
+    responseStatus?: boolean
+    responseBody?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  }, ExtArgs["result"]["idempotencyKey"]>
+
+  export type IdempotencyKeySelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    scope?: boolean
+    key?: boolean
+    requestHash?: boolean
+    responseStatus?: boolean
+    responseBody?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  }, ExtArgs["result"]["idempotencyKey"]>
+
+  export type IdempotencyKeySelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    scope?: boolean
+    key?: boolean
+    requestHash?: boolean
+    responseStatus?: boolean
+    responseBody?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  }, ExtArgs["result"]["idempotencyKey"]>
+
+  export type IdempotencyKeySelectScalar = {
+    scope?: boolean
+    key?: boolean
+    requestHash?: boolean
+    responseStatus?: boolean
+    responseBody?: boolean
+    createdAt?: boolean
+    expiresAt?: boolean
+  }
+
+  export type IdempotencyKeyOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"scope" | "key" | "requestHash" | "responseStatus" | "responseBody" | "createdAt" | "expiresAt", ExtArgs["result"]["idempotencyKey"]>
+
+  export type $IdempotencyKeyPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "IdempotencyKey"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      scope: string
+      key: string
+      requestHash: string
+      responseStatus: number | null
+      responseBody: Prisma.JsonValue | null
+      createdAt: Date
+      expiresAt: Date
+    }, ExtArgs["result"]["idempotencyKey"]>
+    composites: {}
+  }
+
+  type IdempotencyKeyGetPayload<S extends boolean | null | undefined | IdempotencyKeyDefaultArgs> = $Result.GetResult<Prisma.$IdempotencyKeyPayload, S>
+
+  type IdempotencyKeyCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<IdempotencyKeyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: IdempotencyKeyCountAggregateInputType | true
+    }
+
+  export interface IdempotencyKeyDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['IdempotencyKey'], meta: { name: 'IdempotencyKey' } }
+    /**
+     * Find zero or one IdempotencyKey that matches the filter.
+     * @param {IdempotencyKeyFindUniqueArgs} args - Arguments to find a IdempotencyKey
+     * @example
+     * // Get one IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends IdempotencyKeyFindUniqueArgs>(args: SelectSubset<T, IdempotencyKeyFindUniqueArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one IdempotencyKey that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {IdempotencyKeyFindUniqueOrThrowArgs} args - Arguments to find a IdempotencyKey
+     * @example
+     * // Get one IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends IdempotencyKeyFindUniqueOrThrowArgs>(args: SelectSubset<T, IdempotencyKeyFindUniqueOrThrowArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first IdempotencyKey that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyFindFirstArgs} args - Arguments to find a IdempotencyKey
+     * @example
+     * // Get one IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends IdempotencyKeyFindFirstArgs>(args?: SelectSubset<T, IdempotencyKeyFindFirstArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first IdempotencyKey that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyFindFirstOrThrowArgs} args - Arguments to find a IdempotencyKey
+     * @example
+     * // Get one IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends IdempotencyKeyFindFirstOrThrowArgs>(args?: SelectSubset<T, IdempotencyKeyFindFirstOrThrowArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more IdempotencyKeys that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all IdempotencyKeys
+     * const idempotencyKeys = await prisma.idempotencyKey.findMany()
+     * 
+     * // Get first 10 IdempotencyKeys
+     * const idempotencyKeys = await prisma.idempotencyKey.findMany({ take: 10 })
+     * 
+     * // Only select the `scope`
+     * const idempotencyKeyWithScopeOnly = await prisma.idempotencyKey.findMany({ select: { scope: true } })
+     * 
+     */
+    findMany<T extends IdempotencyKeyFindManyArgs>(args?: SelectSubset<T, IdempotencyKeyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a IdempotencyKey.
+     * @param {IdempotencyKeyCreateArgs} args - Arguments to create a IdempotencyKey.
+     * @example
+     * // Create one IdempotencyKey
+     * const IdempotencyKey = await prisma.idempotencyKey.create({
+     *   data: {
+     *     // ... data to create a IdempotencyKey
+     *   }
+     * })
+     * 
+     */
+    create<T extends IdempotencyKeyCreateArgs>(args: SelectSubset<T, IdempotencyKeyCreateArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many IdempotencyKeys.
+     * @param {IdempotencyKeyCreateManyArgs} args - Arguments to create many IdempotencyKeys.
+     * @example
+     * // Create many IdempotencyKeys
+     * const idempotencyKey = await prisma.idempotencyKey.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends IdempotencyKeyCreateManyArgs>(args?: SelectSubset<T, IdempotencyKeyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many IdempotencyKeys and returns the data saved in the database.
+     * @param {IdempotencyKeyCreateManyAndReturnArgs} args - Arguments to create many IdempotencyKeys.
+     * @example
+     * // Create many IdempotencyKeys
+     * const idempotencyKey = await prisma.idempotencyKey.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many IdempotencyKeys and only return the `scope`
+     * const idempotencyKeyWithScopeOnly = await prisma.idempotencyKey.createManyAndReturn({
+     *   select: { scope: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends IdempotencyKeyCreateManyAndReturnArgs>(args?: SelectSubset<T, IdempotencyKeyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a IdempotencyKey.
+     * @param {IdempotencyKeyDeleteArgs} args - Arguments to delete one IdempotencyKey.
+     * @example
+     * // Delete one IdempotencyKey
+     * const IdempotencyKey = await prisma.idempotencyKey.delete({
+     *   where: {
+     *     // ... filter to delete one IdempotencyKey
+     *   }
+     * })
+     * 
+     */
+    delete<T extends IdempotencyKeyDeleteArgs>(args: SelectSubset<T, IdempotencyKeyDeleteArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one IdempotencyKey.
+     * @param {IdempotencyKeyUpdateArgs} args - Arguments to update one IdempotencyKey.
+     * @example
+     * // Update one IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends IdempotencyKeyUpdateArgs>(args: SelectSubset<T, IdempotencyKeyUpdateArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more IdempotencyKeys.
+     * @param {IdempotencyKeyDeleteManyArgs} args - Arguments to filter IdempotencyKeys to delete.
+     * @example
+     * // Delete a few IdempotencyKeys
+     * const { count } = await prisma.idempotencyKey.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends IdempotencyKeyDeleteManyArgs>(args?: SelectSubset<T, IdempotencyKeyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more IdempotencyKeys.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many IdempotencyKeys
+     * const idempotencyKey = await prisma.idempotencyKey.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends IdempotencyKeyUpdateManyArgs>(args: SelectSubset<T, IdempotencyKeyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more IdempotencyKeys and returns the data updated in the database.
+     * @param {IdempotencyKeyUpdateManyAndReturnArgs} args - Arguments to update many IdempotencyKeys.
+     * @example
+     * // Update many IdempotencyKeys
+     * const idempotencyKey = await prisma.idempotencyKey.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more IdempotencyKeys and only return the `scope`
+     * const idempotencyKeyWithScopeOnly = await prisma.idempotencyKey.updateManyAndReturn({
+     *   select: { scope: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends IdempotencyKeyUpdateManyAndReturnArgs>(args: SelectSubset<T, IdempotencyKeyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one IdempotencyKey.
+     * @param {IdempotencyKeyUpsertArgs} args - Arguments to update or create a IdempotencyKey.
+     * @example
+     * // Update or create a IdempotencyKey
+     * const idempotencyKey = await prisma.idempotencyKey.upsert({
+     *   create: {
+     *     // ... data to create a IdempotencyKey
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the IdempotencyKey we want to update
+     *   }
+     * })
+     */
+    upsert<T extends IdempotencyKeyUpsertArgs>(args: SelectSubset<T, IdempotencyKeyUpsertArgs<ExtArgs>>): Prisma__IdempotencyKeyClient<$Result.GetResult<Prisma.$IdempotencyKeyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of IdempotencyKeys.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyCountArgs} args - Arguments to filter IdempotencyKeys to count.
+     * @example
+     * // Count the number of IdempotencyKeys
+     * const count = await prisma.idempotencyKey.count({
+     *   where: {
+     *     // ... the filter for the IdempotencyKeys we want to count
+     *   }
+     * })
+    **/
+    count<T extends IdempotencyKeyCountArgs>(
+      args?: Subset<T, IdempotencyKeyCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], IdempotencyKeyCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a IdempotencyKey.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends IdempotencyKeyAggregateArgs>(args: Subset<T, IdempotencyKeyAggregateArgs>): Prisma.PrismaPromise<GetIdempotencyKeyAggregateType<T>>
+
+    /**
+     * Group by IdempotencyKey.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {IdempotencyKeyGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends IdempotencyKeyGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: IdempotencyKeyGroupByArgs['orderBy'] }
+        : { orderBy?: IdempotencyKeyGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, IdempotencyKeyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetIdempotencyKeyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the IdempotencyKey model
+   */
+  readonly fields: IdempotencyKeyFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for IdempotencyKey.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__IdempotencyKeyClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the IdempotencyKey model
+   */
+  interface IdempotencyKeyFieldRefs {
+    readonly scope: FieldRef<"IdempotencyKey", 'String'>
+    readonly key: FieldRef<"IdempotencyKey", 'String'>
+    readonly requestHash: FieldRef<"IdempotencyKey", 'String'>
+    readonly responseStatus: FieldRef<"IdempotencyKey", 'Int'>
+    readonly responseBody: FieldRef<"IdempotencyKey", 'Json'>
+    readonly createdAt: FieldRef<"IdempotencyKey", 'DateTime'>
+    readonly expiresAt: FieldRef<"IdempotencyKey", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * IdempotencyKey findUnique
+   */
+  export type IdempotencyKeyFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which IdempotencyKey to fetch.
+     */
+    where: IdempotencyKeyWhereUniqueInput
+  }
+
+  /**
+   * IdempotencyKey findUniqueOrThrow
+   */
+  export type IdempotencyKeyFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which IdempotencyKey to fetch.
+     */
+    where: IdempotencyKeyWhereUniqueInput
+  }
+
+  /**
+   * IdempotencyKey findFirst
+   */
+  export type IdempotencyKeyFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which IdempotencyKey to fetch.
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of IdempotencyKeys to fetch.
+     */
+    orderBy?: IdempotencyKeyOrderByWithRelationInput | IdempotencyKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for IdempotencyKeys.
+     */
+    cursor?: IdempotencyKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` IdempotencyKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` IdempotencyKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of IdempotencyKeys.
+     */
+    distinct?: IdempotencyKeyScalarFieldEnum | IdempotencyKeyScalarFieldEnum[]
+  }
+
+  /**
+   * IdempotencyKey findFirstOrThrow
+   */
+  export type IdempotencyKeyFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which IdempotencyKey to fetch.
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of IdempotencyKeys to fetch.
+     */
+    orderBy?: IdempotencyKeyOrderByWithRelationInput | IdempotencyKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for IdempotencyKeys.
+     */
+    cursor?: IdempotencyKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` IdempotencyKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` IdempotencyKeys.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of IdempotencyKeys.
+     */
+    distinct?: IdempotencyKeyScalarFieldEnum | IdempotencyKeyScalarFieldEnum[]
+  }
+
+  /**
+   * IdempotencyKey findMany
+   */
+  export type IdempotencyKeyFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter, which IdempotencyKeys to fetch.
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of IdempotencyKeys to fetch.
+     */
+    orderBy?: IdempotencyKeyOrderByWithRelationInput | IdempotencyKeyOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing IdempotencyKeys.
+     */
+    cursor?: IdempotencyKeyWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` IdempotencyKeys from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` IdempotencyKeys.
+     */
+    skip?: number
+    distinct?: IdempotencyKeyScalarFieldEnum | IdempotencyKeyScalarFieldEnum[]
+  }
+
+  /**
+   * IdempotencyKey create
+   */
+  export type IdempotencyKeyCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * The data needed to create a IdempotencyKey.
+     */
+    data: XOR<IdempotencyKeyCreateInput, IdempotencyKeyUncheckedCreateInput>
+  }
+
+  /**
+   * IdempotencyKey createMany
+   */
+  export type IdempotencyKeyCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many IdempotencyKeys.
+     */
+    data: IdempotencyKeyCreateManyInput | IdempotencyKeyCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * IdempotencyKey createManyAndReturn
+   */
+  export type IdempotencyKeyCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * The data used to create many IdempotencyKeys.
+     */
+    data: IdempotencyKeyCreateManyInput | IdempotencyKeyCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * IdempotencyKey update
+   */
+  export type IdempotencyKeyUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * The data needed to update a IdempotencyKey.
+     */
+    data: XOR<IdempotencyKeyUpdateInput, IdempotencyKeyUncheckedUpdateInput>
+    /**
+     * Choose, which IdempotencyKey to update.
+     */
+    where: IdempotencyKeyWhereUniqueInput
+  }
+
+  /**
+   * IdempotencyKey updateMany
+   */
+  export type IdempotencyKeyUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update IdempotencyKeys.
+     */
+    data: XOR<IdempotencyKeyUpdateManyMutationInput, IdempotencyKeyUncheckedUpdateManyInput>
+    /**
+     * Filter which IdempotencyKeys to update
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * Limit how many IdempotencyKeys to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * IdempotencyKey updateManyAndReturn
+   */
+  export type IdempotencyKeyUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * The data used to update IdempotencyKeys.
+     */
+    data: XOR<IdempotencyKeyUpdateManyMutationInput, IdempotencyKeyUncheckedUpdateManyInput>
+    /**
+     * Filter which IdempotencyKeys to update
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * Limit how many IdempotencyKeys to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * IdempotencyKey upsert
+   */
+  export type IdempotencyKeyUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * The filter to search for the IdempotencyKey to update in case it exists.
+     */
+    where: IdempotencyKeyWhereUniqueInput
+    /**
+     * In case the IdempotencyKey found by the `where` argument doesn't exist, create a new IdempotencyKey with this data.
+     */
+    create: XOR<IdempotencyKeyCreateInput, IdempotencyKeyUncheckedCreateInput>
+    /**
+     * In case the IdempotencyKey was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<IdempotencyKeyUpdateInput, IdempotencyKeyUncheckedUpdateInput>
+  }
+
+  /**
+   * IdempotencyKey delete
+   */
+  export type IdempotencyKeyDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+    /**
+     * Filter which IdempotencyKey to delete.
+     */
+    where: IdempotencyKeyWhereUniqueInput
+  }
+
+  /**
+   * IdempotencyKey deleteMany
+   */
+  export type IdempotencyKeyDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which IdempotencyKeys to delete
+     */
+    where?: IdempotencyKeyWhereInput
+    /**
+     * Limit how many IdempotencyKeys to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * IdempotencyKey without action
+   */
+  export type IdempotencyKeyDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the IdempotencyKey
+     */
+    select?: IdempotencyKeySelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the IdempotencyKey
+     */
+    omit?: IdempotencyKeyOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model ScheduledSlot
+   */
+
+  export type AggregateScheduledSlot = {
+    _count: ScheduledSlotCountAggregateOutputType | null
+    _avg: ScheduledSlotAvgAggregateOutputType | null
+    _sum: ScheduledSlotSumAggregateOutputType | null
+    _min: ScheduledSlotMinAggregateOutputType | null
+    _max: ScheduledSlotMaxAggregateOutputType | null
+  }
+
+  export type ScheduledSlotAvgAggregateOutputType = {
+    reserved: number | null
+  }
+
+  export type ScheduledSlotSumAggregateOutputType = {
+    reserved: number | null
+  }
+
+  export type ScheduledSlotMinAggregateOutputType = {
+    day: Date | null
+    scope: string | null
+    reserved: number | null
+  }
+
+  export type ScheduledSlotMaxAggregateOutputType = {
+    day: Date | null
+    scope: string | null
+    reserved: number | null
+  }
+
+  export type ScheduledSlotCountAggregateOutputType = {
+    day: number
+    scope: number
+    reserved: number
+    _all: number
+  }
+
+
+  export type ScheduledSlotAvgAggregateInputType = {
+    reserved?: true
+  }
+
+  export type ScheduledSlotSumAggregateInputType = {
+    reserved?: true
+  }
+
+  export type ScheduledSlotMinAggregateInputType = {
+    day?: true
+    scope?: true
+    reserved?: true
+  }
+
+  export type ScheduledSlotMaxAggregateInputType = {
+    day?: true
+    scope?: true
+    reserved?: true
+  }
+
+  export type ScheduledSlotCountAggregateInputType = {
+    day?: true
+    scope?: true
+    reserved?: true
+    _all?: true
+  }
+
+  export type ScheduledSlotAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ScheduledSlot to aggregate.
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledSlots to fetch.
+     */
+    orderBy?: ScheduledSlotOrderByWithRelationInput | ScheduledSlotOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: ScheduledSlotWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledSlots from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledSlots.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned ScheduledSlots
+    **/
+    _count?: true | ScheduledSlotCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: ScheduledSlotAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: ScheduledSlotSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: ScheduledSlotMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: ScheduledSlotMaxAggregateInputType
+  }
+
+  export type GetScheduledSlotAggregateType<T extends ScheduledSlotAggregateArgs> = {
+        [P in keyof T & keyof AggregateScheduledSlot]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateScheduledSlot[P]>
+      : GetScalarType<T[P], AggregateScheduledSlot[P]>
+  }
+
+
+
+
+  export type ScheduledSlotGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ScheduledSlotWhereInput
+    orderBy?: ScheduledSlotOrderByWithAggregationInput | ScheduledSlotOrderByWithAggregationInput[]
+    by: ScheduledSlotScalarFieldEnum[] | ScheduledSlotScalarFieldEnum
+    having?: ScheduledSlotScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: ScheduledSlotCountAggregateInputType | true
+    _avg?: ScheduledSlotAvgAggregateInputType
+    _sum?: ScheduledSlotSumAggregateInputType
+    _min?: ScheduledSlotMinAggregateInputType
+    _max?: ScheduledSlotMaxAggregateInputType
+  }
+
+  export type ScheduledSlotGroupByOutputType = {
+    day: Date
+    scope: string
+    reserved: number
+    _count: ScheduledSlotCountAggregateOutputType | null
+    _avg: ScheduledSlotAvgAggregateOutputType | null
+    _sum: ScheduledSlotSumAggregateOutputType | null
+    _min: ScheduledSlotMinAggregateOutputType | null
+    _max: ScheduledSlotMaxAggregateOutputType | null
+  }
+
+  type GetScheduledSlotGroupByPayload<T extends ScheduledSlotGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<ScheduledSlotGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof ScheduledSlotGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], ScheduledSlotGroupByOutputType[P]>
+            : GetScalarType<T[P], ScheduledSlotGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type ScheduledSlotSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    day?: boolean
+    scope?: boolean
+    reserved?: boolean
+  }, ExtArgs["result"]["scheduledSlot"]>
+
+  export type ScheduledSlotSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    day?: boolean
+    scope?: boolean
+    reserved?: boolean
+  }, ExtArgs["result"]["scheduledSlot"]>
+
+  export type ScheduledSlotSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    day?: boolean
+    scope?: boolean
+    reserved?: boolean
+  }, ExtArgs["result"]["scheduledSlot"]>
+
+  export type ScheduledSlotSelectScalar = {
+    day?: boolean
+    scope?: boolean
+    reserved?: boolean
+  }
+
+  export type ScheduledSlotOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"day" | "scope" | "reserved", ExtArgs["result"]["scheduledSlot"]>
+
+  export type $ScheduledSlotPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "ScheduledSlot"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      day: Date
+      scope: string
+      reserved: number
+    }, ExtArgs["result"]["scheduledSlot"]>
+    composites: {}
+  }
+
+  type ScheduledSlotGetPayload<S extends boolean | null | undefined | ScheduledSlotDefaultArgs> = $Result.GetResult<Prisma.$ScheduledSlotPayload, S>
+
+  type ScheduledSlotCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<ScheduledSlotFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: ScheduledSlotCountAggregateInputType | true
+    }
+
+  export interface ScheduledSlotDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ScheduledSlot'], meta: { name: 'ScheduledSlot' } }
+    /**
+     * Find zero or one ScheduledSlot that matches the filter.
+     * @param {ScheduledSlotFindUniqueArgs} args - Arguments to find a ScheduledSlot
+     * @example
+     * // Get one ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends ScheduledSlotFindUniqueArgs>(args: SelectSubset<T, ScheduledSlotFindUniqueArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one ScheduledSlot that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {ScheduledSlotFindUniqueOrThrowArgs} args - Arguments to find a ScheduledSlot
+     * @example
+     * // Get one ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends ScheduledSlotFindUniqueOrThrowArgs>(args: SelectSubset<T, ScheduledSlotFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ScheduledSlot that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotFindFirstArgs} args - Arguments to find a ScheduledSlot
+     * @example
+     * // Get one ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends ScheduledSlotFindFirstArgs>(args?: SelectSubset<T, ScheduledSlotFindFirstArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first ScheduledSlot that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotFindFirstOrThrowArgs} args - Arguments to find a ScheduledSlot
+     * @example
+     * // Get one ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends ScheduledSlotFindFirstOrThrowArgs>(args?: SelectSubset<T, ScheduledSlotFindFirstOrThrowArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more ScheduledSlots that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all ScheduledSlots
+     * const scheduledSlots = await prisma.scheduledSlot.findMany()
+     * 
+     * // Get first 10 ScheduledSlots
+     * const scheduledSlots = await prisma.scheduledSlot.findMany({ take: 10 })
+     * 
+     * // Only select the `day`
+     * const scheduledSlotWithDayOnly = await prisma.scheduledSlot.findMany({ select: { day: true } })
+     * 
+     */
+    findMany<T extends ScheduledSlotFindManyArgs>(args?: SelectSubset<T, ScheduledSlotFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a ScheduledSlot.
+     * @param {ScheduledSlotCreateArgs} args - Arguments to create a ScheduledSlot.
+     * @example
+     * // Create one ScheduledSlot
+     * const ScheduledSlot = await prisma.scheduledSlot.create({
+     *   data: {
+     *     // ... data to create a ScheduledSlot
+     *   }
+     * })
+     * 
+     */
+    create<T extends ScheduledSlotCreateArgs>(args: SelectSubset<T, ScheduledSlotCreateArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many ScheduledSlots.
+     * @param {ScheduledSlotCreateManyArgs} args - Arguments to create many ScheduledSlots.
+     * @example
+     * // Create many ScheduledSlots
+     * const scheduledSlot = await prisma.scheduledSlot.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends ScheduledSlotCreateManyArgs>(args?: SelectSubset<T, ScheduledSlotCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many ScheduledSlots and returns the data saved in the database.
+     * @param {ScheduledSlotCreateManyAndReturnArgs} args - Arguments to create many ScheduledSlots.
+     * @example
+     * // Create many ScheduledSlots
+     * const scheduledSlot = await prisma.scheduledSlot.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many ScheduledSlots and only return the `day`
+     * const scheduledSlotWithDayOnly = await prisma.scheduledSlot.createManyAndReturn({
+     *   select: { day: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends ScheduledSlotCreateManyAndReturnArgs>(args?: SelectSubset<T, ScheduledSlotCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a ScheduledSlot.
+     * @param {ScheduledSlotDeleteArgs} args - Arguments to delete one ScheduledSlot.
+     * @example
+     * // Delete one ScheduledSlot
+     * const ScheduledSlot = await prisma.scheduledSlot.delete({
+     *   where: {
+     *     // ... filter to delete one ScheduledSlot
+     *   }
+     * })
+     * 
+     */
+    delete<T extends ScheduledSlotDeleteArgs>(args: SelectSubset<T, ScheduledSlotDeleteArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one ScheduledSlot.
+     * @param {ScheduledSlotUpdateArgs} args - Arguments to update one ScheduledSlot.
+     * @example
+     * // Update one ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends ScheduledSlotUpdateArgs>(args: SelectSubset<T, ScheduledSlotUpdateArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more ScheduledSlots.
+     * @param {ScheduledSlotDeleteManyArgs} args - Arguments to filter ScheduledSlots to delete.
+     * @example
+     * // Delete a few ScheduledSlots
+     * const { count } = await prisma.scheduledSlot.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends ScheduledSlotDeleteManyArgs>(args?: SelectSubset<T, ScheduledSlotDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ScheduledSlots.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many ScheduledSlots
+     * const scheduledSlot = await prisma.scheduledSlot.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends ScheduledSlotUpdateManyArgs>(args: SelectSubset<T, ScheduledSlotUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more ScheduledSlots and returns the data updated in the database.
+     * @param {ScheduledSlotUpdateManyAndReturnArgs} args - Arguments to update many ScheduledSlots.
+     * @example
+     * // Update many ScheduledSlots
+     * const scheduledSlot = await prisma.scheduledSlot.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more ScheduledSlots and only return the `day`
+     * const scheduledSlotWithDayOnly = await prisma.scheduledSlot.updateManyAndReturn({
+     *   select: { day: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends ScheduledSlotUpdateManyAndReturnArgs>(args: SelectSubset<T, ScheduledSlotUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one ScheduledSlot.
+     * @param {ScheduledSlotUpsertArgs} args - Arguments to update or create a ScheduledSlot.
+     * @example
+     * // Update or create a ScheduledSlot
+     * const scheduledSlot = await prisma.scheduledSlot.upsert({
+     *   create: {
+     *     // ... data to create a ScheduledSlot
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the ScheduledSlot we want to update
+     *   }
+     * })
+     */
+    upsert<T extends ScheduledSlotUpsertArgs>(args: SelectSubset<T, ScheduledSlotUpsertArgs<ExtArgs>>): Prisma__ScheduledSlotClient<$Result.GetResult<Prisma.$ScheduledSlotPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of ScheduledSlots.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotCountArgs} args - Arguments to filter ScheduledSlots to count.
+     * @example
+     * // Count the number of ScheduledSlots
+     * const count = await prisma.scheduledSlot.count({
+     *   where: {
+     *     // ... the filter for the ScheduledSlots we want to count
+     *   }
+     * })
+    **/
+    count<T extends ScheduledSlotCountArgs>(
+      args?: Subset<T, ScheduledSlotCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], ScheduledSlotCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a ScheduledSlot.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends ScheduledSlotAggregateArgs>(args: Subset<T, ScheduledSlotAggregateArgs>): Prisma.PrismaPromise<GetScheduledSlotAggregateType<T>>
+
+    /**
+     * Group by ScheduledSlot.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {ScheduledSlotGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends ScheduledSlotGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: ScheduledSlotGroupByArgs['orderBy'] }
+        : { orderBy?: ScheduledSlotGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, ScheduledSlotGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetScheduledSlotGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the ScheduledSlot model
+   */
+  readonly fields: ScheduledSlotFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for ScheduledSlot.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__ScheduledSlotClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the ScheduledSlot model
+   */
+  interface ScheduledSlotFieldRefs {
+    readonly day: FieldRef<"ScheduledSlot", 'DateTime'>
+    readonly scope: FieldRef<"ScheduledSlot", 'String'>
+    readonly reserved: FieldRef<"ScheduledSlot", 'Int'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * ScheduledSlot findUnique
+   */
+  export type ScheduledSlotFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter, which ScheduledSlot to fetch.
+     */
+    where: ScheduledSlotWhereUniqueInput
+  }
+
+  /**
+   * ScheduledSlot findUniqueOrThrow
+   */
+  export type ScheduledSlotFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter, which ScheduledSlot to fetch.
+     */
+    where: ScheduledSlotWhereUniqueInput
+  }
+
+  /**
+   * ScheduledSlot findFirst
+   */
+  export type ScheduledSlotFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter, which ScheduledSlot to fetch.
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledSlots to fetch.
+     */
+    orderBy?: ScheduledSlotOrderByWithRelationInput | ScheduledSlotOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ScheduledSlots.
+     */
+    cursor?: ScheduledSlotWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledSlots from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledSlots.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ScheduledSlots.
+     */
+    distinct?: ScheduledSlotScalarFieldEnum | ScheduledSlotScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledSlot findFirstOrThrow
+   */
+  export type ScheduledSlotFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter, which ScheduledSlot to fetch.
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledSlots to fetch.
+     */
+    orderBy?: ScheduledSlotOrderByWithRelationInput | ScheduledSlotOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for ScheduledSlots.
+     */
+    cursor?: ScheduledSlotWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledSlots from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledSlots.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of ScheduledSlots.
+     */
+    distinct?: ScheduledSlotScalarFieldEnum | ScheduledSlotScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledSlot findMany
+   */
+  export type ScheduledSlotFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter, which ScheduledSlots to fetch.
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of ScheduledSlots to fetch.
+     */
+    orderBy?: ScheduledSlotOrderByWithRelationInput | ScheduledSlotOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing ScheduledSlots.
+     */
+    cursor?: ScheduledSlotWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` ScheduledSlots from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` ScheduledSlots.
+     */
+    skip?: number
+    distinct?: ScheduledSlotScalarFieldEnum | ScheduledSlotScalarFieldEnum[]
+  }
+
+  /**
+   * ScheduledSlot create
+   */
+  export type ScheduledSlotCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * The data needed to create a ScheduledSlot.
+     */
+    data: XOR<ScheduledSlotCreateInput, ScheduledSlotUncheckedCreateInput>
+  }
+
+  /**
+   * ScheduledSlot createMany
+   */
+  export type ScheduledSlotCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many ScheduledSlots.
+     */
+    data: ScheduledSlotCreateManyInput | ScheduledSlotCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ScheduledSlot createManyAndReturn
+   */
+  export type ScheduledSlotCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * The data used to create many ScheduledSlots.
+     */
+    data: ScheduledSlotCreateManyInput | ScheduledSlotCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * ScheduledSlot update
+   */
+  export type ScheduledSlotUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * The data needed to update a ScheduledSlot.
+     */
+    data: XOR<ScheduledSlotUpdateInput, ScheduledSlotUncheckedUpdateInput>
+    /**
+     * Choose, which ScheduledSlot to update.
+     */
+    where: ScheduledSlotWhereUniqueInput
+  }
+
+  /**
+   * ScheduledSlot updateMany
+   */
+  export type ScheduledSlotUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update ScheduledSlots.
+     */
+    data: XOR<ScheduledSlotUpdateManyMutationInput, ScheduledSlotUncheckedUpdateManyInput>
+    /**
+     * Filter which ScheduledSlots to update
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * Limit how many ScheduledSlots to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ScheduledSlot updateManyAndReturn
+   */
+  export type ScheduledSlotUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * The data used to update ScheduledSlots.
+     */
+    data: XOR<ScheduledSlotUpdateManyMutationInput, ScheduledSlotUncheckedUpdateManyInput>
+    /**
+     * Filter which ScheduledSlots to update
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * Limit how many ScheduledSlots to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * ScheduledSlot upsert
+   */
+  export type ScheduledSlotUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * The filter to search for the ScheduledSlot to update in case it exists.
+     */
+    where: ScheduledSlotWhereUniqueInput
+    /**
+     * In case the ScheduledSlot found by the `where` argument doesn't exist, create a new ScheduledSlot with this data.
+     */
+    create: XOR<ScheduledSlotCreateInput, ScheduledSlotUncheckedCreateInput>
+    /**
+     * In case the ScheduledSlot was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<ScheduledSlotUpdateInput, ScheduledSlotUncheckedUpdateInput>
+  }
+
+  /**
+   * ScheduledSlot delete
+   */
+  export type ScheduledSlotDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+    /**
+     * Filter which ScheduledSlot to delete.
+     */
+    where: ScheduledSlotWhereUniqueInput
+  }
+
+  /**
+   * ScheduledSlot deleteMany
+   */
+  export type ScheduledSlotDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which ScheduledSlots to delete
+     */
+    where?: ScheduledSlotWhereInput
+    /**
+     * Limit how many ScheduledSlots to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * ScheduledSlot without action
+   */
+  export type ScheduledSlotDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ScheduledSlot
+     */
+    select?: ScheduledSlotSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the ScheduledSlot
+     */
+    omit?: ScheduledSlotOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model Suppression
+   */
+
+  export type AggregateSuppression = {
+    _count: SuppressionCountAggregateOutputType | null
+    _min: SuppressionMinAggregateOutputType | null
+    _max: SuppressionMaxAggregateOutputType | null
+  }
+
+  export type SuppressionMinAggregateOutputType = {
+    id: string | null
+    type: $Enums.SuppressionType | null
+    value: string | null
+    reason: string | null
+    createdAt: Date | null
+  }
+
+  export type SuppressionMaxAggregateOutputType = {
+    id: string | null
+    type: $Enums.SuppressionType | null
+    value: string | null
+    reason: string | null
+    createdAt: Date | null
+  }
+
+  export type SuppressionCountAggregateOutputType = {
+    id: number
+    type: number
+    value: number
+    reason: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type SuppressionMinAggregateInputType = {
+    id?: true
+    type?: true
+    value?: true
+    reason?: true
+    createdAt?: true
+  }
+
+  export type SuppressionMaxAggregateInputType = {
+    id?: true
+    type?: true
+    value?: true
+    reason?: true
+    createdAt?: true
+  }
+
+  export type SuppressionCountAggregateInputType = {
+    id?: true
+    type?: true
+    value?: true
+    reason?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type SuppressionAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Suppression to aggregate.
+     */
+    where?: SuppressionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Suppressions to fetch.
+     */
+    orderBy?: SuppressionOrderByWithRelationInput | SuppressionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: SuppressionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Suppressions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Suppressions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Suppressions
+    **/
+    _count?: true | SuppressionCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: SuppressionMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: SuppressionMaxAggregateInputType
+  }
+
+  export type GetSuppressionAggregateType<T extends SuppressionAggregateArgs> = {
+        [P in keyof T & keyof AggregateSuppression]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateSuppression[P]>
+      : GetScalarType<T[P], AggregateSuppression[P]>
+  }
+
+
+
+
+  export type SuppressionGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: SuppressionWhereInput
+    orderBy?: SuppressionOrderByWithAggregationInput | SuppressionOrderByWithAggregationInput[]
+    by: SuppressionScalarFieldEnum[] | SuppressionScalarFieldEnum
+    having?: SuppressionScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: SuppressionCountAggregateInputType | true
+    _min?: SuppressionMinAggregateInputType
+    _max?: SuppressionMaxAggregateInputType
+  }
+
+  export type SuppressionGroupByOutputType = {
+    id: string
+    type: $Enums.SuppressionType
+    value: string
+    reason: string | null
+    createdAt: Date
+    _count: SuppressionCountAggregateOutputType | null
+    _min: SuppressionMinAggregateOutputType | null
+    _max: SuppressionMaxAggregateOutputType | null
+  }
+
+  type GetSuppressionGroupByPayload<T extends SuppressionGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<SuppressionGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof SuppressionGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], SuppressionGroupByOutputType[P]>
+            : GetScalarType<T[P], SuppressionGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type SuppressionSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    value?: boolean
+    reason?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["suppression"]>
+
+  export type SuppressionSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    value?: boolean
+    reason?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["suppression"]>
+
+  export type SuppressionSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    type?: boolean
+    value?: boolean
+    reason?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["suppression"]>
+
+  export type SuppressionSelectScalar = {
+    id?: boolean
+    type?: boolean
+    value?: boolean
+    reason?: boolean
+    createdAt?: boolean
+  }
+
+  export type SuppressionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "type" | "value" | "reason" | "createdAt", ExtArgs["result"]["suppression"]>
+
+  export type $SuppressionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Suppression"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      type: $Enums.SuppressionType
+      value: string
+      reason: string | null
+      createdAt: Date
+    }, ExtArgs["result"]["suppression"]>
+    composites: {}
+  }
+
+  type SuppressionGetPayload<S extends boolean | null | undefined | SuppressionDefaultArgs> = $Result.GetResult<Prisma.$SuppressionPayload, S>
+
+  type SuppressionCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<SuppressionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: SuppressionCountAggregateInputType | true
+    }
+
+  export interface SuppressionDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Suppression'], meta: { name: 'Suppression' } }
+    /**
+     * Find zero or one Suppression that matches the filter.
+     * @param {SuppressionFindUniqueArgs} args - Arguments to find a Suppression
+     * @example
+     * // Get one Suppression
+     * const suppression = await prisma.suppression.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends SuppressionFindUniqueArgs>(args: SelectSubset<T, SuppressionFindUniqueArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Suppression that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {SuppressionFindUniqueOrThrowArgs} args - Arguments to find a Suppression
+     * @example
+     * // Get one Suppression
+     * const suppression = await prisma.suppression.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends SuppressionFindUniqueOrThrowArgs>(args: SelectSubset<T, SuppressionFindUniqueOrThrowArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Suppression that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionFindFirstArgs} args - Arguments to find a Suppression
+     * @example
+     * // Get one Suppression
+     * const suppression = await prisma.suppression.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends SuppressionFindFirstArgs>(args?: SelectSubset<T, SuppressionFindFirstArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Suppression that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionFindFirstOrThrowArgs} args - Arguments to find a Suppression
+     * @example
+     * // Get one Suppression
+     * const suppression = await prisma.suppression.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends SuppressionFindFirstOrThrowArgs>(args?: SelectSubset<T, SuppressionFindFirstOrThrowArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Suppressions that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Suppressions
+     * const suppressions = await prisma.suppression.findMany()
+     * 
+     * // Get first 10 Suppressions
+     * const suppressions = await prisma.suppression.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const suppressionWithIdOnly = await prisma.suppression.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends SuppressionFindManyArgs>(args?: SelectSubset<T, SuppressionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Suppression.
+     * @param {SuppressionCreateArgs} args - Arguments to create a Suppression.
+     * @example
+     * // Create one Suppression
+     * const Suppression = await prisma.suppression.create({
+     *   data: {
+     *     // ... data to create a Suppression
+     *   }
+     * })
+     * 
+     */
+    create<T extends SuppressionCreateArgs>(args: SelectSubset<T, SuppressionCreateArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Suppressions.
+     * @param {SuppressionCreateManyArgs} args - Arguments to create many Suppressions.
+     * @example
+     * // Create many Suppressions
+     * const suppression = await prisma.suppression.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends SuppressionCreateManyArgs>(args?: SelectSubset<T, SuppressionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Suppressions and returns the data saved in the database.
+     * @param {SuppressionCreateManyAndReturnArgs} args - Arguments to create many Suppressions.
+     * @example
+     * // Create many Suppressions
+     * const suppression = await prisma.suppression.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Suppressions and only return the `id`
+     * const suppressionWithIdOnly = await prisma.suppression.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends SuppressionCreateManyAndReturnArgs>(args?: SelectSubset<T, SuppressionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Suppression.
+     * @param {SuppressionDeleteArgs} args - Arguments to delete one Suppression.
+     * @example
+     * // Delete one Suppression
+     * const Suppression = await prisma.suppression.delete({
+     *   where: {
+     *     // ... filter to delete one Suppression
+     *   }
+     * })
+     * 
+     */
+    delete<T extends SuppressionDeleteArgs>(args: SelectSubset<T, SuppressionDeleteArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Suppression.
+     * @param {SuppressionUpdateArgs} args - Arguments to update one Suppression.
+     * @example
+     * // Update one Suppression
+     * const suppression = await prisma.suppression.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends SuppressionUpdateArgs>(args: SelectSubset<T, SuppressionUpdateArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Suppressions.
+     * @param {SuppressionDeleteManyArgs} args - Arguments to filter Suppressions to delete.
+     * @example
+     * // Delete a few Suppressions
+     * const { count } = await prisma.suppression.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends SuppressionDeleteManyArgs>(args?: SelectSubset<T, SuppressionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Suppressions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Suppressions
+     * const suppression = await prisma.suppression.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends SuppressionUpdateManyArgs>(args: SelectSubset<T, SuppressionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Suppressions and returns the data updated in the database.
+     * @param {SuppressionUpdateManyAndReturnArgs} args - Arguments to update many Suppressions.
+     * @example
+     * // Update many Suppressions
+     * const suppression = await prisma.suppression.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Suppressions and only return the `id`
+     * const suppressionWithIdOnly = await prisma.suppression.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends SuppressionUpdateManyAndReturnArgs>(args: SelectSubset<T, SuppressionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Suppression.
+     * @param {SuppressionUpsertArgs} args - Arguments to update or create a Suppression.
+     * @example
+     * // Update or create a Suppression
+     * const suppression = await prisma.suppression.upsert({
+     *   create: {
+     *     // ... data to create a Suppression
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Suppression we want to update
+     *   }
+     * })
+     */
+    upsert<T extends SuppressionUpsertArgs>(args: SelectSubset<T, SuppressionUpsertArgs<ExtArgs>>): Prisma__SuppressionClient<$Result.GetResult<Prisma.$SuppressionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Suppressions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionCountArgs} args - Arguments to filter Suppressions to count.
+     * @example
+     * // Count the number of Suppressions
+     * const count = await prisma.suppression.count({
+     *   where: {
+     *     // ... the filter for the Suppressions we want to count
+     *   }
+     * })
+    **/
+    count<T extends SuppressionCountArgs>(
+      args?: Subset<T, SuppressionCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], SuppressionCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Suppression.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends SuppressionAggregateArgs>(args: Subset<T, SuppressionAggregateArgs>): Prisma.PrismaPromise<GetSuppressionAggregateType<T>>
+
+    /**
+     * Group by Suppression.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SuppressionGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends SuppressionGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: SuppressionGroupByArgs['orderBy'] }
+        : { orderBy?: SuppressionGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, SuppressionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSuppressionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Suppression model
+   */
+  readonly fields: SuppressionFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Suppression.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__SuppressionClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Suppression model
+   */
+  interface SuppressionFieldRefs {
+    readonly id: FieldRef<"Suppression", 'String'>
+    readonly type: FieldRef<"Suppression", 'SuppressionType'>
+    readonly value: FieldRef<"Suppression", 'String'>
+    readonly reason: FieldRef<"Suppression", 'String'>
+    readonly createdAt: FieldRef<"Suppression", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Suppression findUnique
+   */
+  export type SuppressionFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter, which Suppression to fetch.
+     */
+    where: SuppressionWhereUniqueInput
+  }
+
+  /**
+   * Suppression findUniqueOrThrow
+   */
+  export type SuppressionFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter, which Suppression to fetch.
+     */
+    where: SuppressionWhereUniqueInput
+  }
+
+  /**
+   * Suppression findFirst
+   */
+  export type SuppressionFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter, which Suppression to fetch.
+     */
+    where?: SuppressionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
      * 
-     * / Emit as events and log to stdout
-     * og: [
-     *  { emit: 'stdout', level: 'query' },
-     *  { emit: 'stdout', level: 'info' },
-     *  { emit: 'stdout', level: 'warn' }
-     *  { emit: 'stdout', level: 'error' }
+     * Determine the order of Suppressions to fetch.
+     */
+    orderBy?: SuppressionOrderByWithRelationInput | SuppressionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
      * 
-     * ```
-     * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
+     * Sets the position for searching for Suppressions.
+     */
+    cursor?: SuppressionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Suppressions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Suppressions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Suppressions.
+     */
+    distinct?: SuppressionScalarFieldEnum | SuppressionScalarFieldEnum[]
+  }
+
+  /**
+   * Suppression findFirstOrThrow
+   */
+  export type SuppressionFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter, which Suppression to fetch.
+     */
+    where?: SuppressionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Suppressions to fetch.
+     */
+    orderBy?: SuppressionOrderByWithRelationInput | SuppressionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Suppressions.
+     */
+    cursor?: SuppressionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Suppressions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Suppressions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Suppressions.
+     */
+    distinct?: SuppressionScalarFieldEnum | SuppressionScalarFieldEnum[]
+  }
+
+  /**
+   * Suppression findMany
+   */
+  export type SuppressionFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter, which Suppressions to fetch.
+     */
+    where?: SuppressionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Suppressions to fetch.
+     */
+    orderBy?: SuppressionOrderByWithRelationInput | SuppressionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Suppressions.
+     */
+    cursor?: SuppressionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Suppressions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Suppressions.
+     */
+    skip?: number
+    distinct?: SuppressionScalarFieldEnum | SuppressionScalarFieldEnum[]
+  }
+
+  /**
+   * Suppression create
+   */
+  export type SuppressionCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * The data needed to create a Suppression.
+     */
+    data: XOR<SuppressionCreateInput, SuppressionUncheckedCreateInput>
+  }
+
+  /**
+   * Suppression createMany
+   */
+  export type SuppressionCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Suppressions.
+     */
+    data: SuppressionCreateManyInput | SuppressionCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Suppression createManyAndReturn
+   */
+  export type SuppressionCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * The data used to create many Suppressions.
+     */
+    data: SuppressionCreateManyInput | SuppressionCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * Suppression update
+   */
+  export type SuppressionUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
      */
-    log?: (LogLevel | LogDefinition)[]
+    select?: SuppressionSelect<ExtArgs> | null
     /**
-     * The default values for transactionOptions
-     * maxWait ?= 2000
-     * timeout ?= 5000
+     * Omit specific fields from the Suppression
      */
-    transactionOptions?: {
-      maxWait?: number
-      timeout?: number
-      isolationLevel?: Prisma.TransactionIsolationLevel
-    }
+    omit?: SuppressionOmit<ExtArgs> | null
     /**
-     * Instance of a Driver Adapter, e.g., like one provided by `@prisma/adapter-planetscale`
+     * The data needed to update a Suppression.
      */
-    adapter?: runtime.SqlDriverAdapterFactory | null
+    data: XOR<SuppressionUpdateInput, SuppressionUncheckedUpdateInput>
     /**
-     * Global configuration for omitting model fields by default.
-     * 
-     * @example
-     * ```
-     * const prisma = new PrismaClient({
-     *   omit: {
-     *     user: {
-     *       password: true
-     *     }
-     *   }
-     * })
-     * ```
+     * Choose, which Suppression to update.
      */
-    omit?: Prisma.GlobalOmitConfig
+    where: SuppressionWhereUniqueInput
+  }
+
+  /**
+   * Suppression updateMany
+   */
+  export type SuppressionUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Suppressions.
+     */
+    data: XOR<SuppressionUpdateManyMutationInput, SuppressionUncheckedUpdateManyInput>
+    /**
+     * Filter which Suppressions to update
+     */
+    where?: SuppressionWhereInput
+    /**
+     * Limit how many Suppressions to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Suppression updateManyAndReturn
+   */
+  export type SuppressionUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * The data used to update Suppressions.
+     */
+    data: XOR<SuppressionUpdateManyMutationInput, SuppressionUncheckedUpdateManyInput>
+    /**
+     * Filter which Suppressions to update
+     */
+    where?: SuppressionWhereInput
+    /**
+     * Limit how many Suppressions to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Suppression upsert
+   */
+  export type SuppressionUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * The filter to search for the Suppression to update in case it exists.
+     */
+    where: SuppressionWhereUniqueInput
+    /**
+     * In case the Suppression found by the `where` argument doesn't exist, create a new Suppression with this data.
+     */
+    create: XOR<SuppressionCreateInput, SuppressionUncheckedCreateInput>
+    /**
+     * In case the Suppression was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<SuppressionUpdateInput, SuppressionUncheckedUpdateInput>
+  }
+
+  /**
+   * Suppression delete
+   */
+  export type SuppressionDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+    /**
+     * Filter which Suppression to delete.
+     */
+    where: SuppressionWhereUniqueInput
+  }
+
+  /**
+   * Suppression deleteMany
+   */
+  export type SuppressionDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Suppressions to delete
+     */
+    where?: SuppressionWhereInput
+    /**
+     * Limit how many Suppressions to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Suppression without action
+   */
+  export type SuppressionDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Suppression
+     */
+    select?: SuppressionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Suppression
+     */
+    omit?: SuppressionOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Enums
+   */
+
+  export const TransactionIsolationLevel: {
+    ReadUncommitted: 'ReadUncommitted',
+    ReadCommitted: 'ReadCommitted',
+    RepeatableRead: 'RepeatableRead',
+    Serializable: 'Serializable'
+  };
+
+  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+
+
+  export const LeadScalarFieldEnum: {
+    id: 'id',
+    name: 'name',
+    email: 'email',
+    phone: 'phone',
+    notes: 'notes',
+    maxMessages: 'maxMessages',
+    messageCount: 'messageCount',
+    lastSentAt: 'lastSentAt',
+    nextScheduledFor: 'nextScheduledFor',
+    status: 'status',
+    lastProviderMessageId: 'lastProviderMessageId',
+    lastDeliveryStatus: 'lastDeliveryStatus',
+    lastDeliveryError: 'lastDeliveryError',
+    failureReason: 'failureReason',
+    unsubscribedAt: 'unsubscribedAt',
+    pausedAt: 'pausedAt',
+    cancelledAt: 'cancelledAt',
+    timezone: 'timezone',
+    campaignId: 'campaignId',
+    createdAt: 'createdAt'
+  };
+
+  export type LeadScalarFieldEnum = (typeof LeadScalarFieldEnum)[keyof typeof LeadScalarFieldEnum]
+
+
+  export const MessageTemplateScalarFieldEnum: {
+    id: 'id',
+    name: 'name',
+    stepNumber: 'stepNumber',
+    channel: 'channel',
+    subject: 'subject',
+    body: 'body',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type MessageTemplateScalarFieldEnum = (typeof MessageTemplateScalarFieldEnum)[keyof typeof MessageTemplateScalarFieldEnum]
+
+
+  export const CampaignScalarFieldEnum: {
+    id: 'id',
+    name: 'name',
+    dailyCap: 'dailyCap',
+    sendWindowStart: 'sendWindowStart',
+    sendWindowEnd: 'sendWindowEnd',
+    sendDays: 'sendDays',
+    createdAt: 'createdAt'
+  };
+
+  export type CampaignScalarFieldEnum = (typeof CampaignScalarFieldEnum)[keyof typeof CampaignScalarFieldEnum]
+
+
+  export const CampaignStepScalarFieldEnum: {
+    id: 'id',
+    campaignId: 'campaignId',
+    stepNumber: 'stepNumber',
+    delayDays: 'delayDays',
+    channel: 'channel',
+    templateId: 'templateId'
+  };
+
+  export type CampaignStepScalarFieldEnum = (typeof CampaignStepScalarFieldEnum)[keyof typeof CampaignStepScalarFieldEnum]
+
+
+  export const ScheduledMessageScalarFieldEnum: {
+    id: 'id',
+    leadId: 'leadId',
+    messageNumber: 'messageNumber',
+    queueName: 'queueName',
+    msgId: 'msgId',
+    scheduledFor: 'scheduledFor',
+    status: 'status',
+    sentAt: 'sentAt',
+    sendStartedAt: 'sendStartedAt',
+    providerMessageId: 'providerMessageId',
+    createdAt: 'createdAt'
+  };
+
+  export type ScheduledMessageScalarFieldEnum = (typeof ScheduledMessageScalarFieldEnum)[keyof typeof ScheduledMessageScalarFieldEnum]
+
+
+  export const OutboxEventScalarFieldEnum: {
+    id: 'id',
+    type: 'type',
+    leadId: 'leadId',
+    status: 'status',
+    attempts: 'attempts',
+    lastError: 'lastError',
+    availableAt: 'availableAt',
+    processedAt: 'processedAt',
+    createdAt: 'createdAt'
+  };
+
+  export type OutboxEventScalarFieldEnum = (typeof OutboxEventScalarFieldEnum)[keyof typeof OutboxEventScalarFieldEnum]
+
+
+  export const WorkerLeaseScalarFieldEnum: {
+    name: 'name',
+    holder: 'holder',
+    expiresAt: 'expiresAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type WorkerLeaseScalarFieldEnum = (typeof WorkerLeaseScalarFieldEnum)[keyof typeof WorkerLeaseScalarFieldEnum]
+
+
+  export const ApiKeyScalarFieldEnum: {
+    id: 'id',
+    name: 'name',
+    prefix: 'prefix',
+    keyHash: 'keyHash',
+    scopes: 'scopes',
+    lastUsedAt: 'lastUsedAt',
+    revokedAt: 'revokedAt',
+    createdAt: 'createdAt'
+  };
+
+  export type ApiKeyScalarFieldEnum = (typeof ApiKeyScalarFieldEnum)[keyof typeof ApiKeyScalarFieldEnum]
+
+
+  export const RateLimitHitScalarFieldEnum: {
+    id: 'id',
+    key: 'key',
+    createdAt: 'createdAt'
+  };
+
+  export type RateLimitHitScalarFieldEnum = (typeof RateLimitHitScalarFieldEnum)[keyof typeof RateLimitHitScalarFieldEnum]
+
+
+  export const IdempotencyKeyScalarFieldEnum: {
+    scope: 'scope',
+    key: 'key',
+    requestHash: 'requestHash',
+    responseStatus: 'responseStatus',
+    responseBody: 'responseBody',
+    createdAt: 'createdAt',
+    expiresAt: 'expiresAt'
+  };
+
+  export type IdempotencyKeyScalarFieldEnum = (typeof IdempotencyKeyScalarFieldEnum)[keyof typeof IdempotencyKeyScalarFieldEnum]
+
+
+  export const ScheduledSlotScalarFieldEnum: {
+    day: 'day',
+    scope: 'scope',
+    reserved: 'reserved'
+  };
+
+  export type ScheduledSlotScalarFieldEnum = (typeof ScheduledSlotScalarFieldEnum)[keyof typeof ScheduledSlotScalarFieldEnum]
+
+
+  export const SuppressionScalarFieldEnum: {
+    id: 'id',
+    type: 'type',
+    value: 'value',
+    reason: 'reason',
+    createdAt: 'createdAt'
+  };
+
+  export type SuppressionScalarFieldEnum = (typeof SuppressionScalarFieldEnum)[keyof typeof SuppressionScalarFieldEnum]
+
+
+  export const SortOrder: {
+    asc: 'asc',
+    desc: 'desc'
+  };
+
+  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+
+
+  export const NullableJsonNullValueInput: {
+    DbNull: typeof DbNull,
+    JsonNull: typeof JsonNull
+  };
+
+  export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+  export const QueryMode: {
+    default: 'default',
+    insensitive: 'insensitive'
+  };
+
+  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
+
+
+  export const NullsOrder: {
+    first: 'first',
+    last: 'last'
+  };
+
+  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
+  export const JsonNullValueFilter: {
+    DbNull: typeof DbNull,
+    JsonNull: typeof JsonNull,
+    AnyNull: typeof AnyNull
+  };
+
+  export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
+
+  /**
+   * Field references
+   */
+
+
+  /**
+   * Reference to a field of type 'String'
+   */
+  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
+    
+
+
+  /**
+   * Reference to a field of type 'String[]'
+   */
+  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Int'
+   */
+  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+    
+
+
+  /**
+   * Reference to a field of type 'Int[]'
+   */
+  export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'DateTime'
+   */
+  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
+    
+
+
+  /**
+   * Reference to a field of type 'DateTime[]'
+   */
+  export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'LeadStatus'
+   */
+  export type EnumLeadStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LeadStatus'>
+    
+
+
+  /**
+   * Reference to a field of type 'LeadStatus[]'
+   */
+  export type ListEnumLeadStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LeadStatus[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'DeliveryStatus'
+   */
+  export type EnumDeliveryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DeliveryStatus'>
+    
+
+
+  /**
+   * Reference to a field of type 'DeliveryStatus[]'
+   */
+  export type ListEnumDeliveryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DeliveryStatus[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Channel'
+   */
+  export type EnumChannelFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Channel'>
+    
+
+
+  /**
+   * Reference to a field of type 'Channel[]'
+   */
+  export type ListEnumChannelFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Channel[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'ScheduledMessageStatus'
+   */
+  export type EnumScheduledMessageStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduledMessageStatus'>
+    
+
+
+  /**
+   * Reference to a field of type 'ScheduledMessageStatus[]'
+   */
+  export type ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduledMessageStatus[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'OutboxEventType'
+   */
+  export type EnumOutboxEventTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OutboxEventType'>
+    
+
+
+  /**
+   * Reference to a field of type 'OutboxEventType[]'
+   */
+  export type ListEnumOutboxEventTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OutboxEventType[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'OutboxEventStatus'
+   */
+  export type EnumOutboxEventStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OutboxEventStatus'>
+    
+
+
+  /**
+   * Reference to a field of type 'OutboxEventStatus[]'
+   */
+  export type ListEnumOutboxEventStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OutboxEventStatus[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Json'
+   */
+  export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+  /**
+   * Reference to a field of type 'QueryMode'
+   */
+  export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+    
+
+
+  /**
+   * Reference to a field of type 'SuppressionType'
+   */
+  export type EnumSuppressionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SuppressionType'>
+    
+
+
+  /**
+   * Reference to a field of type 'SuppressionType[]'
+   */
+  export type ListEnumSuppressionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SuppressionType[]'>
+    
+
+
+  /**
+   * Reference to a field of type 'Float'
+   */
+  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+    
+
+
+  /**
+   * Reference to a field of type 'Float[]'
+   */
+  export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
+    
+  /**
+   * Deep Input Types
+   */
+
+
+  export type LeadWhereInput = {
+    AND?: LeadWhereInput | LeadWhereInput[]
+    OR?: LeadWhereInput[]
+    NOT?: LeadWhereInput | LeadWhereInput[]
+    id?: StringFilter<"Lead"> | string
+    name?: StringFilter<"Lead"> | string
+    email?: StringFilter<"Lead"> | string
+    phone?: StringFilter<"Lead"> | string
+    notes?: StringNullableFilter<"Lead"> | string | null
+    maxMessages?: IntFilter<"Lead"> | number
+    messageCount?: IntFilter<"Lead"> | number
+    lastSentAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    nextScheduledFor?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    status?: EnumLeadStatusFilter<"Lead"> | $Enums.LeadStatus
+    lastProviderMessageId?: StringNullableFilter<"Lead"> | string | null
+    lastDeliveryStatus?: EnumDeliveryStatusNullableFilter<"Lead"> | $Enums.DeliveryStatus | null
+    lastDeliveryError?: StringNullableFilter<"Lead"> | string | null
+    failureReason?: StringNullableFilter<"Lead"> | string | null
+    unsubscribedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    pausedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    cancelledAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    timezone?: StringNullableFilter<"Lead"> | string | null
+    campaignId?: StringNullableFilter<"Lead"> | string | null
+    createdAt?: DateTimeFilter<"Lead"> | Date | string
+    campaign?: XOR<CampaignNullableScalarRelationFilter, CampaignWhereInput> | null
+    scheduledMessages?: ScheduledMessageListRelationFilter
+    outboxEvents?: OutboxEventListRelationFilter
+  }
+
+  export type LeadOrderByWithRelationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    email?: SortOrder
+    phone?: SortOrder
+    notes?: SortOrderInput | SortOrder
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+    lastSentAt?: SortOrderInput | SortOrder
+    nextScheduledFor?: SortOrderInput | SortOrder
+    status?: SortOrder
+    lastProviderMessageId?: SortOrderInput | SortOrder
+    lastDeliveryStatus?: SortOrderInput | SortOrder
+    lastDeliveryError?: SortOrderInput | SortOrder
+    failureReason?: SortOrderInput | SortOrder
+    unsubscribedAt?: SortOrderInput | SortOrder
+    pausedAt?: SortOrderInput | SortOrder
+    cancelledAt?: SortOrderInput | SortOrder
+    timezone?: SortOrderInput | SortOrder
+    campaignId?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    campaign?: CampaignOrderByWithRelationInput
+    scheduledMessages?: ScheduledMessageOrderByRelationAggregateInput
+    outboxEvents?: OutboxEventOrderByRelationAggregateInput
+  }
+
+  export type LeadWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    email?: string
+    phone?: string
+    AND?: LeadWhereInput | LeadWhereInput[]
+    OR?: LeadWhereInput[]
+    NOT?: LeadWhereInput | LeadWhereInput[]
+    name?: StringFilter<"Lead"> | string
+    notes?: StringNullableFilter<"Lead"> | string | null
+    maxMessages?: IntFilter<"Lead"> | number
+    messageCount?: IntFilter<"Lead"> | number
+    lastSentAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    nextScheduledFor?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    status?: EnumLeadStatusFilter<"Lead"> | $Enums.LeadStatus
+    lastProviderMessageId?: StringNullableFilter<"Lead"> | string | null
+    lastDeliveryStatus?: EnumDeliveryStatusNullableFilter<"Lead"> | $Enums.DeliveryStatus | null
+    lastDeliveryError?: StringNullableFilter<"Lead"> | string | null
+    failureReason?: StringNullableFilter<"Lead"> | string | null
+    unsubscribedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    pausedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    cancelledAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    timezone?: StringNullableFilter<"Lead"> | string | null
+    campaignId?: StringNullableFilter<"Lead"> | string | null
+    createdAt?: DateTimeFilter<"Lead"> | Date | string
+    campaign?: XOR<CampaignNullableScalarRelationFilter, CampaignWhereInput> | null
+    scheduledMessages?: ScheduledMessageListRelationFilter
+    outboxEvents?: OutboxEventListRelationFilter
+  }, "id" | "email" | "phone">
+
+  export type LeadOrderByWithAggregationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    email?: SortOrder
+    phone?: SortOrder
+    notes?: SortOrderInput | SortOrder
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+    lastSentAt?: SortOrderInput | SortOrder
+    nextScheduledFor?: SortOrderInput | SortOrder
+    status?: SortOrder
+    lastProviderMessageId?: SortOrderInput | SortOrder
+    lastDeliveryStatus?: SortOrderInput | SortOrder
+    lastDeliveryError?: SortOrderInput | SortOrder
+    failureReason?: SortOrderInput | SortOrder
+    unsubscribedAt?: SortOrderInput | SortOrder
+    pausedAt?: SortOrderInput | SortOrder
+    cancelledAt?: SortOrderInput | SortOrder
+    timezone?: SortOrderInput | SortOrder
+    campaignId?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: LeadCountOrderByAggregateInput
+    _avg?: LeadAvgOrderByAggregateInput
+    _max?: LeadMaxOrderByAggregateInput
+    _min?: LeadMinOrderByAggregateInput
+    _sum?: LeadSumOrderByAggregateInput
+  }
+
+  export type LeadScalarWhereWithAggregatesInput = {
+    AND?: LeadScalarWhereWithAggregatesInput | LeadScalarWhereWithAggregatesInput[]
+    OR?: LeadScalarWhereWithAggregatesInput[]
+    NOT?: LeadScalarWhereWithAggregatesInput | LeadScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Lead"> | string
+    name?: StringWithAggregatesFilter<"Lead"> | string
+    email?: StringWithAggregatesFilter<"Lead"> | string
+    phone?: StringWithAggregatesFilter<"Lead"> | string
+    notes?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    maxMessages?: IntWithAggregatesFilter<"Lead"> | number
+    messageCount?: IntWithAggregatesFilter<"Lead"> | number
+    lastSentAt?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
+    nextScheduledFor?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
+    status?: EnumLeadStatusWithAggregatesFilter<"Lead"> | $Enums.LeadStatus
+    lastProviderMessageId?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    lastDeliveryStatus?: EnumDeliveryStatusNullableWithAggregatesFilter<"Lead"> | $Enums.DeliveryStatus | null
+    lastDeliveryError?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    failureReason?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    unsubscribedAt?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
+    pausedAt?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
+    cancelledAt?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
+    timezone?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    campaignId?: StringNullableWithAggregatesFilter<"Lead"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"Lead"> | Date | string
+  }
+
+  export type MessageTemplateWhereInput = {
+    AND?: MessageTemplateWhereInput | MessageTemplateWhereInput[]
+    OR?: MessageTemplateWhereInput[]
+    NOT?: MessageTemplateWhereInput | MessageTemplateWhereInput[]
+    id?: StringFilter<"MessageTemplate"> | string
+    name?: StringFilter<"MessageTemplate"> | string
+    stepNumber?: IntFilter<"MessageTemplate"> | number
+    channel?: EnumChannelFilter<"MessageTemplate"> | $Enums.Channel
+    subject?: StringNullableFilter<"MessageTemplate"> | string | null
+    body?: StringFilter<"MessageTemplate"> | string
+    createdAt?: DateTimeFilter<"MessageTemplate"> | Date | string
+    updatedAt?: DateTimeFilter<"MessageTemplate"> | Date | string
+    campaignSteps?: CampaignStepListRelationFilter
+  }
+
+  export type MessageTemplateOrderByWithRelationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    stepNumber?: SortOrder
+    channel?: SortOrder
+    subject?: SortOrderInput | SortOrder
+    body?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    campaignSteps?: CampaignStepOrderByRelationAggregateInput
+  }
+
+  export type MessageTemplateWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    stepNumber_channel?: MessageTemplateStepNumberChannelCompoundUniqueInput
+    AND?: MessageTemplateWhereInput | MessageTemplateWhereInput[]
+    OR?: MessageTemplateWhereInput[]
+    NOT?: MessageTemplateWhereInput | MessageTemplateWhereInput[]
+    name?: StringFilter<"MessageTemplate"> | string
+    stepNumber?: IntFilter<"MessageTemplate"> | number
+    channel?: EnumChannelFilter<"MessageTemplate"> | $Enums.Channel
+    subject?: StringNullableFilter<"MessageTemplate"> | string | null
+    body?: StringFilter<"MessageTemplate"> | string
+    createdAt?: DateTimeFilter<"MessageTemplate"> | Date | string
+    updatedAt?: DateTimeFilter<"MessageTemplate"> | Date | string
+    campaignSteps?: CampaignStepListRelationFilter
+  }, "id" | "stepNumber_channel">
+
+  export type MessageTemplateOrderByWithAggregationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    stepNumber?: SortOrder
+    channel?: SortOrder
+    subject?: SortOrderInput | SortOrder
+    body?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: MessageTemplateCountOrderByAggregateInput
+    _avg?: MessageTemplateAvgOrderByAggregateInput
+    _max?: MessageTemplateMaxOrderByAggregateInput
+    _min?: MessageTemplateMinOrderByAggregateInput
+    _sum?: MessageTemplateSumOrderByAggregateInput
+  }
+
+  export type MessageTemplateScalarWhereWithAggregatesInput = {
+    AND?: MessageTemplateScalarWhereWithAggregatesInput | MessageTemplateScalarWhereWithAggregatesInput[]
+    OR?: MessageTemplateScalarWhereWithAggregatesInput[]
+    NOT?: MessageTemplateScalarWhereWithAggregatesInput | MessageTemplateScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"MessageTemplate"> | string
+    name?: StringWithAggregatesFilter<"MessageTemplate"> | string
+    stepNumber?: IntWithAggregatesFilter<"MessageTemplate"> | number
+    channel?: EnumChannelWithAggregatesFilter<"MessageTemplate"> | $Enums.Channel
+    subject?: StringNullableWithAggregatesFilter<"MessageTemplate"> | string | null
+    body?: StringWithAggregatesFilter<"MessageTemplate"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"MessageTemplate"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"MessageTemplate"> | Date | string
+  }
+
+  export type CampaignWhereInput = {
+    AND?: CampaignWhereInput | CampaignWhereInput[]
+    OR?: CampaignWhereInput[]
+    NOT?: CampaignWhereInput | CampaignWhereInput[]
+    id?: StringFilter<"Campaign"> | string
+    name?: StringFilter<"Campaign"> | string
+    dailyCap?: IntNullableFilter<"Campaign"> | number | null
+    sendWindowStart?: StringNullableFilter<"Campaign"> | string | null
+    sendWindowEnd?: StringNullableFilter<"Campaign"> | string | null
+    sendDays?: IntNullableListFilter<"Campaign">
+    createdAt?: DateTimeFilter<"Campaign"> | Date | string
+    steps?: CampaignStepListRelationFilter
+    leads?: LeadListRelationFilter
+  }
+
+  export type CampaignOrderByWithRelationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    dailyCap?: SortOrderInput | SortOrder
+    sendWindowStart?: SortOrderInput | SortOrder
+    sendWindowEnd?: SortOrderInput | SortOrder
+    sendDays?: SortOrder
+    createdAt?: SortOrder
+    steps?: CampaignStepOrderByRelationAggregateInput
+    leads?: LeadOrderByRelationAggregateInput
+  }
+
+  export type CampaignWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    name?: string
+    AND?: CampaignWhereInput | CampaignWhereInput[]
+    OR?: CampaignWhereInput[]
+    NOT?: CampaignWhereInput | CampaignWhereInput[]
+    dailyCap?: IntNullableFilter<"Campaign"> | number | null
+    sendWindowStart?: StringNullableFilter<"Campaign"> | string | null
+    sendWindowEnd?: StringNullableFilter<"Campaign"> | string | null
+    sendDays?: IntNullableListFilter<"Campaign">
+    createdAt?: DateTimeFilter<"Campaign"> | Date | string
+    steps?: CampaignStepListRelationFilter
+    leads?: LeadListRelationFilter
+  }, "id" | "name">
+
+  export type CampaignOrderByWithAggregationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    dailyCap?: SortOrderInput | SortOrder
+    sendWindowStart?: SortOrderInput | SortOrder
+    sendWindowEnd?: SortOrderInput | SortOrder
+    sendDays?: SortOrder
+    createdAt?: SortOrder
+    _count?: CampaignCountOrderByAggregateInput
+    _avg?: CampaignAvgOrderByAggregateInput
+    _max?: CampaignMaxOrderByAggregateInput
+    _min?: CampaignMinOrderByAggregateInput
+    _sum?: CampaignSumOrderByAggregateInput
+  }
+
+  export type CampaignScalarWhereWithAggregatesInput = {
+    AND?: CampaignScalarWhereWithAggregatesInput | CampaignScalarWhereWithAggregatesInput[]
+    OR?: CampaignScalarWhereWithAggregatesInput[]
+    NOT?: CampaignScalarWhereWithAggregatesInput | CampaignScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Campaign"> | string
+    name?: StringWithAggregatesFilter<"Campaign"> | string
+    dailyCap?: IntNullableWithAggregatesFilter<"Campaign"> | number | null
+    sendWindowStart?: StringNullableWithAggregatesFilter<"Campaign"> | string | null
+    sendWindowEnd?: StringNullableWithAggregatesFilter<"Campaign"> | string | null
+    sendDays?: IntNullableListFilter<"Campaign">
+    createdAt?: DateTimeWithAggregatesFilter<"Campaign"> | Date | string
+  }
+
+  export type CampaignStepWhereInput = {
+    AND?: CampaignStepWhereInput | CampaignStepWhereInput[]
+    OR?: CampaignStepWhereInput[]
+    NOT?: CampaignStepWhereInput | CampaignStepWhereInput[]
+    id?: StringFilter<"CampaignStep"> | string
+    campaignId?: StringFilter<"CampaignStep"> | string
+    stepNumber?: IntFilter<"CampaignStep"> | number
+    delayDays?: IntFilter<"CampaignStep"> | number
+    channel?: EnumChannelFilter<"CampaignStep"> | $Enums.Channel
+    templateId?: StringNullableFilter<"CampaignStep"> | string | null
+    campaign?: XOR<CampaignScalarRelationFilter, CampaignWhereInput>
+    template?: XOR<MessageTemplateNullableScalarRelationFilter, MessageTemplateWhereInput> | null
+  }
+
+  export type CampaignStepOrderByWithRelationInput = {
+    id?: SortOrder
+    campaignId?: SortOrder
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+    channel?: SortOrder
+    templateId?: SortOrderInput | SortOrder
+    campaign?: CampaignOrderByWithRelationInput
+    template?: MessageTemplateOrderByWithRelationInput
+  }
+
+  export type CampaignStepWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    campaignId_stepNumber?: CampaignStepCampaignIdStepNumberCompoundUniqueInput
+    AND?: CampaignStepWhereInput | CampaignStepWhereInput[]
+    OR?: CampaignStepWhereInput[]
+    NOT?: CampaignStepWhereInput | CampaignStepWhereInput[]
+    campaignId?: StringFilter<"CampaignStep"> | string
+    stepNumber?: IntFilter<"CampaignStep"> | number
+    delayDays?: IntFilter<"CampaignStep"> | number
+    channel?: EnumChannelFilter<"CampaignStep"> | $Enums.Channel
+    templateId?: StringNullableFilter<"CampaignStep"> | string | null
+    campaign?: XOR<CampaignScalarRelationFilter, CampaignWhereInput>
+    template?: XOR<MessageTemplateNullableScalarRelationFilter, MessageTemplateWhereInput> | null
+  }, "id" | "campaignId_stepNumber">
+
+  export type CampaignStepOrderByWithAggregationInput = {
+    id?: SortOrder
+    campaignId?: SortOrder
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+    channel?: SortOrder
+    templateId?: SortOrderInput | SortOrder
+    _count?: CampaignStepCountOrderByAggregateInput
+    _avg?: CampaignStepAvgOrderByAggregateInput
+    _max?: CampaignStepMaxOrderByAggregateInput
+    _min?: CampaignStepMinOrderByAggregateInput
+    _sum?: CampaignStepSumOrderByAggregateInput
+  }
+
+  export type CampaignStepScalarWhereWithAggregatesInput = {
+    AND?: CampaignStepScalarWhereWithAggregatesInput | CampaignStepScalarWhereWithAggregatesInput[]
+    OR?: CampaignStepScalarWhereWithAggregatesInput[]
+    NOT?: CampaignStepScalarWhereWithAggregatesInput | CampaignStepScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"CampaignStep"> | string
+    campaignId?: StringWithAggregatesFilter<"CampaignStep"> | string
+    stepNumber?: IntWithAggregatesFilter<"CampaignStep"> | number
+    delayDays?: IntWithAggregatesFilter<"CampaignStep"> | number
+    channel?: EnumChannelWithAggregatesFilter<"CampaignStep"> | $Enums.Channel
+    templateId?: StringNullableWithAggregatesFilter<"CampaignStep"> | string | null
+  }
+
+  export type ScheduledMessageWhereInput = {
+    AND?: ScheduledMessageWhereInput | ScheduledMessageWhereInput[]
+    OR?: ScheduledMessageWhereInput[]
+    NOT?: ScheduledMessageWhereInput | ScheduledMessageWhereInput[]
+    id?: StringFilter<"ScheduledMessage"> | string
+    leadId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    messageNumber?: IntFilter<"ScheduledMessage"> | number
+    queueName?: StringFilter<"ScheduledMessage"> | string
+    msgId?: StringFilter<"ScheduledMessage"> | string
+    scheduledFor?: DateTimeFilter<"ScheduledMessage"> | Date | string
+    status?: EnumScheduledMessageStatusFilter<"ScheduledMessage"> | $Enums.ScheduledMessageStatus
+    sentAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    sendStartedAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    providerMessageId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    createdAt?: DateTimeFilter<"ScheduledMessage"> | Date | string
+    lead?: XOR<LeadNullableScalarRelationFilter, LeadWhereInput> | null
+  }
+
+  export type ScheduledMessageOrderByWithRelationInput = {
+    id?: SortOrder
+    leadId?: SortOrderInput | SortOrder
+    messageNumber?: SortOrder
+    queueName?: SortOrder
+    msgId?: SortOrder
+    scheduledFor?: SortOrder
+    status?: SortOrder
+    sentAt?: SortOrderInput | SortOrder
+    sendStartedAt?: SortOrderInput | SortOrder
+    providerMessageId?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    lead?: LeadOrderByWithRelationInput
+  }
+
+  export type ScheduledMessageWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: ScheduledMessageWhereInput | ScheduledMessageWhereInput[]
+    OR?: ScheduledMessageWhereInput[]
+    NOT?: ScheduledMessageWhereInput | ScheduledMessageWhereInput[]
+    leadId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    messageNumber?: IntFilter<"ScheduledMessage"> | number
+    queueName?: StringFilter<"ScheduledMessage"> | string
+    msgId?: StringFilter<"ScheduledMessage"> | string
+    scheduledFor?: DateTimeFilter<"ScheduledMessage"> | Date | string
+    status?: EnumScheduledMessageStatusFilter<"ScheduledMessage"> | $Enums.ScheduledMessageStatus
+    sentAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    sendStartedAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    providerMessageId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    createdAt?: DateTimeFilter<"ScheduledMessage"> | Date | string
+    lead?: XOR<LeadNullableScalarRelationFilter, LeadWhereInput> | null
+  }, "id">
+
+  export type ScheduledMessageOrderByWithAggregationInput = {
+    id?: SortOrder
+    leadId?: SortOrderInput | SortOrder
+    messageNumber?: SortOrder
+    queueName?: SortOrder
+    msgId?: SortOrder
+    scheduledFor?: SortOrder
+    status?: SortOrder
+    sentAt?: SortOrderInput | SortOrder
+    sendStartedAt?: SortOrderInput | SortOrder
+    providerMessageId?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: ScheduledMessageCountOrderByAggregateInput
+    _avg?: ScheduledMessageAvgOrderByAggregateInput
+    _max?: ScheduledMessageMaxOrderByAggregateInput
+    _min?: ScheduledMessageMinOrderByAggregateInput
+    _sum?: ScheduledMessageSumOrderByAggregateInput
+  }
+
+  export type ScheduledMessageScalarWhereWithAggregatesInput = {
+    AND?: ScheduledMessageScalarWhereWithAggregatesInput | ScheduledMessageScalarWhereWithAggregatesInput[]
+    OR?: ScheduledMessageScalarWhereWithAggregatesInput[]
+    NOT?: ScheduledMessageScalarWhereWithAggregatesInput | ScheduledMessageScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"ScheduledMessage"> | string
+    leadId?: StringNullableWithAggregatesFilter<"ScheduledMessage"> | string | null
+    messageNumber?: IntWithAggregatesFilter<"ScheduledMessage"> | number
+    queueName?: StringWithAggregatesFilter<"ScheduledMessage"> | string
+    msgId?: StringWithAggregatesFilter<"ScheduledMessage"> | string
+    scheduledFor?: DateTimeWithAggregatesFilter<"ScheduledMessage"> | Date | string
+    status?: EnumScheduledMessageStatusWithAggregatesFilter<"ScheduledMessage"> | $Enums.ScheduledMessageStatus
+    sentAt?: DateTimeNullableWithAggregatesFilter<"ScheduledMessage"> | Date | string | null
+    sendStartedAt?: DateTimeNullableWithAggregatesFilter<"ScheduledMessage"> | Date | string | null
+    providerMessageId?: StringNullableWithAggregatesFilter<"ScheduledMessage"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"ScheduledMessage"> | Date | string
+  }
+
+  export type OutboxEventWhereInput = {
+    AND?: OutboxEventWhereInput | OutboxEventWhereInput[]
+    OR?: OutboxEventWhereInput[]
+    NOT?: OutboxEventWhereInput | OutboxEventWhereInput[]
+    id?: StringFilter<"OutboxEvent"> | string
+    type?: EnumOutboxEventTypeFilter<"OutboxEvent"> | $Enums.OutboxEventType
+    leadId?: StringFilter<"OutboxEvent"> | string
+    status?: EnumOutboxEventStatusFilter<"OutboxEvent"> | $Enums.OutboxEventStatus
+    attempts?: IntFilter<"OutboxEvent"> | number
+    lastError?: StringNullableFilter<"OutboxEvent"> | string | null
+    availableAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+    processedAt?: DateTimeNullableFilter<"OutboxEvent"> | Date | string | null
+    createdAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+    lead?: XOR<LeadScalarRelationFilter, LeadWhereInput>
+  }
+
+  export type OutboxEventOrderByWithRelationInput = {
+    id?: SortOrder
+    type?: SortOrder
+    leadId?: SortOrder
+    status?: SortOrder
+    attempts?: SortOrder
+    lastError?: SortOrderInput | SortOrder
+    availableAt?: SortOrder
+    processedAt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    lead?: LeadOrderByWithRelationInput
+  }
+
+  export type OutboxEventWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: OutboxEventWhereInput | OutboxEventWhereInput[]
+    OR?: OutboxEventWhereInput[]
+    NOT?: OutboxEventWhereInput | OutboxEventWhereInput[]
+    type?: EnumOutboxEventTypeFilter<"OutboxEvent"> | $Enums.OutboxEventType
+    leadId?: StringFilter<"OutboxEvent"> | string
+    status?: EnumOutboxEventStatusFilter<"OutboxEvent"> | $Enums.OutboxEventStatus
+    attempts?: IntFilter<"OutboxEvent"> | number
+    lastError?: StringNullableFilter<"OutboxEvent"> | string | null
+    availableAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+    processedAt?: DateTimeNullableFilter<"OutboxEvent"> | Date | string | null
+    createdAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+    lead?: XOR<LeadScalarRelationFilter, LeadWhereInput>
+  }, "id">
+
+  export type OutboxEventOrderByWithAggregationInput = {
+    id?: SortOrder
+    type?: SortOrder
+    leadId?: SortOrder
+    status?: SortOrder
+    attempts?: SortOrder
+    lastError?: SortOrderInput | SortOrder
+    availableAt?: SortOrder
+    processedAt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: OutboxEventCountOrderByAggregateInput
+    _avg?: OutboxEventAvgOrderByAggregateInput
+    _max?: OutboxEventMaxOrderByAggregateInput
+    _min?: OutboxEventMinOrderByAggregateInput
+    _sum?: OutboxEventSumOrderByAggregateInput
+  }
+
+  export type OutboxEventScalarWhereWithAggregatesInput = {
+    AND?: OutboxEventScalarWhereWithAggregatesInput | OutboxEventScalarWhereWithAggregatesInput[]
+    OR?: OutboxEventScalarWhereWithAggregatesInput[]
+    NOT?: OutboxEventScalarWhereWithAggregatesInput | OutboxEventScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"OutboxEvent"> | string
+    type?: EnumOutboxEventTypeWithAggregatesFilter<"OutboxEvent"> | $Enums.OutboxEventType
+    leadId?: StringWithAggregatesFilter<"OutboxEvent"> | string
+    status?: EnumOutboxEventStatusWithAggregatesFilter<"OutboxEvent"> | $Enums.OutboxEventStatus
+    attempts?: IntWithAggregatesFilter<"OutboxEvent"> | number
+    lastError?: StringNullableWithAggregatesFilter<"OutboxEvent"> | string | null
+    availableAt?: DateTimeWithAggregatesFilter<"OutboxEvent"> | Date | string
+    processedAt?: DateTimeNullableWithAggregatesFilter<"OutboxEvent"> | Date | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"OutboxEvent"> | Date | string
+  }
+
+  export type WorkerLeaseWhereInput = {
+    AND?: WorkerLeaseWhereInput | WorkerLeaseWhereInput[]
+    OR?: WorkerLeaseWhereInput[]
+    NOT?: WorkerLeaseWhereInput | WorkerLeaseWhereInput[]
+    name?: StringFilter<"WorkerLease"> | string
+    holder?: StringFilter<"WorkerLease"> | string
+    expiresAt?: DateTimeFilter<"WorkerLease"> | Date | string
+    updatedAt?: DateTimeFilter<"WorkerLease"> | Date | string
+  }
+
+  export type WorkerLeaseOrderByWithRelationInput = {
+    name?: SortOrder
+    holder?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type WorkerLeaseWhereUniqueInput = Prisma.AtLeast<{
+    name?: string
+    AND?: WorkerLeaseWhereInput | WorkerLeaseWhereInput[]
+    OR?: WorkerLeaseWhereInput[]
+    NOT?: WorkerLeaseWhereInput | WorkerLeaseWhereInput[]
+    holder?: StringFilter<"WorkerLease"> | string
+    expiresAt?: DateTimeFilter<"WorkerLease"> | Date | string
+    updatedAt?: DateTimeFilter<"WorkerLease"> | Date | string
+  }, "name">
+
+  export type WorkerLeaseOrderByWithAggregationInput = {
+    name?: SortOrder
+    holder?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: WorkerLeaseCountOrderByAggregateInput
+    _max?: WorkerLeaseMaxOrderByAggregateInput
+    _min?: WorkerLeaseMinOrderByAggregateInput
+  }
+
+  export type WorkerLeaseScalarWhereWithAggregatesInput = {
+    AND?: WorkerLeaseScalarWhereWithAggregatesInput | WorkerLeaseScalarWhereWithAggregatesInput[]
+    OR?: WorkerLeaseScalarWhereWithAggregatesInput[]
+    NOT?: WorkerLeaseScalarWhereWithAggregatesInput | WorkerLeaseScalarWhereWithAggregatesInput[]
+    name?: StringWithAggregatesFilter<"WorkerLease"> | string
+    holder?: StringWithAggregatesFilter<"WorkerLease"> | string
+    expiresAt?: DateTimeWithAggregatesFilter<"WorkerLease"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"WorkerLease"> | Date | string
+  }
+
+  export type ApiKeyWhereInput = {
+    AND?: ApiKeyWhereInput | ApiKeyWhereInput[]
+    OR?: ApiKeyWhereInput[]
+    NOT?: ApiKeyWhereInput | ApiKeyWhereInput[]
+    id?: StringFilter<"ApiKey"> | string
+    name?: StringFilter<"ApiKey"> | string
+    prefix?: StringFilter<"ApiKey"> | string
+    keyHash?: StringFilter<"ApiKey"> | string
+    scopes?: StringNullableListFilter<"ApiKey">
+    lastUsedAt?: DateTimeNullableFilter<"ApiKey"> | Date | string | null
+    revokedAt?: DateTimeNullableFilter<"ApiKey"> | Date | string | null
+    createdAt?: DateTimeFilter<"ApiKey"> | Date | string
+  }
+
+  export type ApiKeyOrderByWithRelationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    prefix?: SortOrder
+    keyHash?: SortOrder
+    scopes?: SortOrder
+    lastUsedAt?: SortOrderInput | SortOrder
+    revokedAt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type ApiKeyWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    keyHash?: string
+    AND?: ApiKeyWhereInput | ApiKeyWhereInput[]
+    OR?: ApiKeyWhereInput[]
+    NOT?: ApiKeyWhereInput | ApiKeyWhereInput[]
+    name?: StringFilter<"ApiKey"> | string
+    prefix?: StringFilter<"ApiKey"> | string
+    scopes?: StringNullableListFilter<"ApiKey">
+    lastUsedAt?: DateTimeNullableFilter<"ApiKey"> | Date | string | null
+    revokedAt?: DateTimeNullableFilter<"ApiKey"> | Date | string | null
+    createdAt?: DateTimeFilter<"ApiKey"> | Date | string
+  }, "id" | "keyHash">
+
+  export type ApiKeyOrderByWithAggregationInput = {
+    id?: SortOrder
+    name?: SortOrder
+    prefix?: SortOrder
+    keyHash?: SortOrder
+    scopes?: SortOrder
+    lastUsedAt?: SortOrderInput | SortOrder
+    revokedAt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: ApiKeyCountOrderByAggregateInput
+    _max?: ApiKeyMaxOrderByAggregateInput
+    _min?: ApiKeyMinOrderByAggregateInput
+  }
+
+  export type ApiKeyScalarWhereWithAggregatesInput = {
+    AND?: ApiKeyScalarWhereWithAggregatesInput | ApiKeyScalarWhereWithAggregatesInput[]
+    OR?: ApiKeyScalarWhereWithAggregatesInput[]
+    NOT?: ApiKeyScalarWhereWithAggregatesInput | ApiKeyScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"ApiKey"> | string
+    name?: StringWithAggregatesFilter<"ApiKey"> | string
+    prefix?: StringWithAggregatesFilter<"ApiKey"> | string
+    keyHash?: StringWithAggregatesFilter<"ApiKey"> | string
+    scopes?: StringNullableListFilter<"ApiKey">
+    lastUsedAt?: DateTimeNullableWithAggregatesFilter<"ApiKey"> | Date | string | null
+    revokedAt?: DateTimeNullableWithAggregatesFilter<"ApiKey"> | Date | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"ApiKey"> | Date | string
+  }
+
+  export type RateLimitHitWhereInput = {
+    AND?: RateLimitHitWhereInput | RateLimitHitWhereInput[]
+    OR?: RateLimitHitWhereInput[]
+    NOT?: RateLimitHitWhereInput | RateLimitHitWhereInput[]
+    id?: StringFilter<"RateLimitHit"> | string
+    key?: StringFilter<"RateLimitHit"> | string
+    createdAt?: DateTimeFilter<"RateLimitHit"> | Date | string
+  }
+
+  export type RateLimitHitOrderByWithRelationInput = {
+    id?: SortOrder
+    key?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type RateLimitHitWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: RateLimitHitWhereInput | RateLimitHitWhereInput[]
+    OR?: RateLimitHitWhereInput[]
+    NOT?: RateLimitHitWhereInput | RateLimitHitWhereInput[]
+    key?: StringFilter<"RateLimitHit"> | string
+    createdAt?: DateTimeFilter<"RateLimitHit"> | Date | string
+  }, "id">
+
+  export type RateLimitHitOrderByWithAggregationInput = {
+    id?: SortOrder
+    key?: SortOrder
+    createdAt?: SortOrder
+    _count?: RateLimitHitCountOrderByAggregateInput
+    _max?: RateLimitHitMaxOrderByAggregateInput
+    _min?: RateLimitHitMinOrderByAggregateInput
+  }
+
+  export type RateLimitHitScalarWhereWithAggregatesInput = {
+    AND?: RateLimitHitScalarWhereWithAggregatesInput | RateLimitHitScalarWhereWithAggregatesInput[]
+    OR?: RateLimitHitScalarWhereWithAggregatesInput[]
+    NOT?: RateLimitHitScalarWhereWithAggregatesInput | RateLimitHitScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"RateLimitHit"> | string
+    key?: StringWithAggregatesFilter<"RateLimitHit"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"RateLimitHit"> | Date | string
+  }
+
+  export type IdempotencyKeyWhereInput = {
+    AND?: IdempotencyKeyWhereInput | IdempotencyKeyWhereInput[]
+    OR?: IdempotencyKeyWhereInput[]
+    NOT?: IdempotencyKeyWhereInput | IdempotencyKeyWhereInput[]
+    scope?: StringFilter<"IdempotencyKey"> | string
+    key?: StringFilter<"IdempotencyKey"> | string
+    requestHash?: StringFilter<"IdempotencyKey"> | string
+    responseStatus?: IntNullableFilter<"IdempotencyKey"> | number | null
+    responseBody?: JsonNullableFilter<"IdempotencyKey">
+    createdAt?: DateTimeFilter<"IdempotencyKey"> | Date | string
+    expiresAt?: DateTimeFilter<"IdempotencyKey"> | Date | string
+  }
+
+  export type IdempotencyKeyOrderByWithRelationInput = {
+    scope?: SortOrder
+    key?: SortOrder
+    requestHash?: SortOrder
+    responseStatus?: SortOrderInput | SortOrder
+    responseBody?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    expiresAt?: SortOrder
+  }
+
+  export type IdempotencyKeyWhereUniqueInput = Prisma.AtLeast<{
+    scope_key?: IdempotencyKeyScopeKeyCompoundUniqueInput
+    AND?: IdempotencyKeyWhereInput | IdempotencyKeyWhereInput[]
+    OR?: IdempotencyKeyWhereInput[]
+    NOT?: IdempotencyKeyWhereInput | IdempotencyKeyWhereInput[]
+    scope?: StringFilter<"IdempotencyKey"> | string
+    key?: StringFilter<"IdempotencyKey"> | string
+    requestHash?: StringFilter<"IdempotencyKey"> | string
+    responseStatus?: IntNullableFilter<"IdempotencyKey"> | number | null
+    responseBody?: JsonNullableFilter<"IdempotencyKey">
+    createdAt?: DateTimeFilter<"IdempotencyKey"> | Date | string
+    expiresAt?: DateTimeFilter<"IdempotencyKey"> | Date | string
+  }, "scope_key">
+
+  export type IdempotencyKeyOrderByWithAggregationInput = {
+    scope?: SortOrder
+    key?: SortOrder
+    requestHash?: SortOrder
+    responseStatus?: SortOrderInput | SortOrder
+    responseBody?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    expiresAt?: SortOrder
+    _count?: IdempotencyKeyCountOrderByAggregateInput
+    _avg?: IdempotencyKeyAvgOrderByAggregateInput
+    _max?: IdempotencyKeyMaxOrderByAggregateInput
+    _min?: IdempotencyKeyMinOrderByAggregateInput
+    _sum?: IdempotencyKeySumOrderByAggregateInput
+  }
+
+  export type IdempotencyKeyScalarWhereWithAggregatesInput = {
+    AND?: IdempotencyKeyScalarWhereWithAggregatesInput | IdempotencyKeyScalarWhereWithAggregatesInput[]
+    OR?: IdempotencyKeyScalarWhereWithAggregatesInput[]
+    NOT?: IdempotencyKeyScalarWhereWithAggregatesInput | IdempotencyKeyScalarWhereWithAggregatesInput[]
+    scope?: StringWithAggregatesFilter<"IdempotencyKey"> | string
+    key?: StringWithAggregatesFilter<"IdempotencyKey"> | string
+    requestHash?: StringWithAggregatesFilter<"IdempotencyKey"> | string
+    responseStatus?: IntNullableWithAggregatesFilter<"IdempotencyKey"> | number | null
+    responseBody?: JsonNullableWithAggregatesFilter<"IdempotencyKey">
+    createdAt?: DateTimeWithAggregatesFilter<"IdempotencyKey"> | Date | string
+    expiresAt?: DateTimeWithAggregatesFilter<"IdempotencyKey"> | Date | string
+  }
+
+  export type ScheduledSlotWhereInput = {
+    AND?: ScheduledSlotWhereInput | ScheduledSlotWhereInput[]
+    OR?: ScheduledSlotWhereInput[]
+    NOT?: ScheduledSlotWhereInput | ScheduledSlotWhereInput[]
+    day?: DateTimeFilter<"ScheduledSlot"> | Date | string
+    scope?: StringFilter<"ScheduledSlot"> | string
+    reserved?: IntFilter<"ScheduledSlot"> | number
+  }
+
+  export type ScheduledSlotOrderByWithRelationInput = {
+    day?: SortOrder
+    scope?: SortOrder
+    reserved?: SortOrder
+  }
+
+  export type ScheduledSlotWhereUniqueInput = Prisma.AtLeast<{
+    day_scope?: ScheduledSlotDayScopeCompoundUniqueInput
+    AND?: ScheduledSlotWhereInput | ScheduledSlotWhereInput[]
+    OR?: ScheduledSlotWhereInput[]
+    NOT?: ScheduledSlotWhereInput | ScheduledSlotWhereInput[]
+    day?: DateTimeFilter<"ScheduledSlot"> | Date | string
+    scope?: StringFilter<"ScheduledSlot"> | string
+    reserved?: IntFilter<"ScheduledSlot"> | number
+  }, "day_scope">
+
+  export type ScheduledSlotOrderByWithAggregationInput = {
+    day?: SortOrder
+    scope?: SortOrder
+    reserved?: SortOrder
+    _count?: ScheduledSlotCountOrderByAggregateInput
+    _avg?: ScheduledSlotAvgOrderByAggregateInput
+    _max?: ScheduledSlotMaxOrderByAggregateInput
+    _min?: ScheduledSlotMinOrderByAggregateInput
+    _sum?: ScheduledSlotSumOrderByAggregateInput
+  }
+
+  export type ScheduledSlotScalarWhereWithAggregatesInput = {
+    AND?: ScheduledSlotScalarWhereWithAggregatesInput | ScheduledSlotScalarWhereWithAggregatesInput[]
+    OR?: ScheduledSlotScalarWhereWithAggregatesInput[]
+    NOT?: ScheduledSlotScalarWhereWithAggregatesInput | ScheduledSlotScalarWhereWithAggregatesInput[]
+    day?: DateTimeWithAggregatesFilter<"ScheduledSlot"> | Date | string
+    scope?: StringWithAggregatesFilter<"ScheduledSlot"> | string
+    reserved?: IntWithAggregatesFilter<"ScheduledSlot"> | number
+  }
+
+  export type SuppressionWhereInput = {
+    AND?: SuppressionWhereInput | SuppressionWhereInput[]
+    OR?: SuppressionWhereInput[]
+    NOT?: SuppressionWhereInput | SuppressionWhereInput[]
+    id?: StringFilter<"Suppression"> | string
+    type?: EnumSuppressionTypeFilter<"Suppression"> | $Enums.SuppressionType
+    value?: StringFilter<"Suppression"> | string
+    reason?: StringNullableFilter<"Suppression"> | string | null
+    createdAt?: DateTimeFilter<"Suppression"> | Date | string
+  }
+
+  export type SuppressionOrderByWithRelationInput = {
+    id?: SortOrder
+    type?: SortOrder
+    value?: SortOrder
+    reason?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type SuppressionWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    type_value?: SuppressionTypeValueCompoundUniqueInput
+    AND?: SuppressionWhereInput | SuppressionWhereInput[]
+    OR?: SuppressionWhereInput[]
+    NOT?: SuppressionWhereInput | SuppressionWhereInput[]
+    type?: EnumSuppressionTypeFilter<"Suppression"> | $Enums.SuppressionType
+    value?: StringFilter<"Suppression"> | string
+    reason?: StringNullableFilter<"Suppression"> | string | null
+    createdAt?: DateTimeFilter<"Suppression"> | Date | string
+  }, "id" | "type_value">
+
+  export type SuppressionOrderByWithAggregationInput = {
+    id?: SortOrder
+    type?: SortOrder
+    value?: SortOrder
+    reason?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: SuppressionCountOrderByAggregateInput
+    _max?: SuppressionMaxOrderByAggregateInput
+    _min?: SuppressionMinOrderByAggregateInput
+  }
+
+  export type SuppressionScalarWhereWithAggregatesInput = {
+    AND?: SuppressionScalarWhereWithAggregatesInput | SuppressionScalarWhereWithAggregatesInput[]
+    OR?: SuppressionScalarWhereWithAggregatesInput[]
+    NOT?: SuppressionScalarWhereWithAggregatesInput | SuppressionScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Suppression"> | string
+    type?: EnumSuppressionTypeWithAggregatesFilter<"Suppression"> | $Enums.SuppressionType
+    value?: StringWithAggregatesFilter<"Suppression"> | string
+    reason?: StringNullableWithAggregatesFilter<"Suppression"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"Suppression"> | Date | string
+  }
+
+  export type LeadCreateInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
+    campaign?: CampaignCreateNestedOneWithoutLeadsInput
+    scheduledMessages?: ScheduledMessageCreateNestedManyWithoutLeadInput
+    outboxEvents?: OutboxEventCreateNestedManyWithoutLeadInput
+  }
+
+  export type LeadUncheckedCreateInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    campaignId?: string | null
+    createdAt?: Date | string
+    scheduledMessages?: ScheduledMessageUncheckedCreateNestedManyWithoutLeadInput
+    outboxEvents?: OutboxEventUncheckedCreateNestedManyWithoutLeadInput
+  }
+
+  export type LeadUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    campaign?: CampaignUpdateOneWithoutLeadsNestedInput
+    scheduledMessages?: ScheduledMessageUpdateManyWithoutLeadNestedInput
+    outboxEvents?: OutboxEventUpdateManyWithoutLeadNestedInput
+  }
+
+  export type LeadUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    campaignId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    scheduledMessages?: ScheduledMessageUncheckedUpdateManyWithoutLeadNestedInput
+    outboxEvents?: OutboxEventUncheckedUpdateManyWithoutLeadNestedInput
+  }
+
+  export type LeadCreateManyInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    campaignId?: string | null
+    createdAt?: Date | string
+  }
+
+  export type LeadUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type LeadUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    campaignId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MessageTemplateCreateInput = {
+    id?: string
+    name: string
+    stepNumber: number
+    channel?: $Enums.Channel
+    subject?: string | null
+    body: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    campaignSteps?: CampaignStepCreateNestedManyWithoutTemplateInput
+  }
+
+  export type MessageTemplateUncheckedCreateInput = {
+    id?: string
+    name: string
+    stepNumber: number
+    channel?: $Enums.Channel
+    subject?: string | null
+    body: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    campaignSteps?: CampaignStepUncheckedCreateNestedManyWithoutTemplateInput
+  }
+
+  export type MessageTemplateUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    campaignSteps?: CampaignStepUpdateManyWithoutTemplateNestedInput
+  }
+
+  export type MessageTemplateUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    campaignSteps?: CampaignStepUncheckedUpdateManyWithoutTemplateNestedInput
+  }
+
+  export type MessageTemplateCreateManyInput = {
+    id?: string
+    name: string
+    stepNumber: number
+    channel?: $Enums.Channel
+    subject?: string | null
+    body: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type MessageTemplateUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MessageTemplateUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type CampaignCreateInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    steps?: CampaignStepCreateNestedManyWithoutCampaignInput
+    leads?: LeadCreateNestedManyWithoutCampaignInput
+  }
+
+  export type CampaignUncheckedCreateInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    steps?: CampaignStepUncheckedCreateNestedManyWithoutCampaignInput
+    leads?: LeadUncheckedCreateNestedManyWithoutCampaignInput
+  }
+
+  export type CampaignUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    steps?: CampaignStepUpdateManyWithoutCampaignNestedInput
+    leads?: LeadUpdateManyWithoutCampaignNestedInput
+  }
+
+  export type CampaignUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    steps?: CampaignStepUncheckedUpdateManyWithoutCampaignNestedInput
+    leads?: LeadUncheckedUpdateManyWithoutCampaignNestedInput
+  }
+
+  export type CampaignCreateManyInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+  }
+
+  export type CampaignUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type CampaignUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type CampaignStepCreateInput = {
+    id?: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    campaign: CampaignCreateNestedOneWithoutStepsInput
+    template?: MessageTemplateCreateNestedOneWithoutCampaignStepsInput
+  }
+
+  export type CampaignStepUncheckedCreateInput = {
+    id?: string
+    campaignId: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    templateId?: string | null
+  }
+
+  export type CampaignStepUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    campaign?: CampaignUpdateOneRequiredWithoutStepsNestedInput
+    template?: MessageTemplateUpdateOneWithoutCampaignStepsNestedInput
+  }
+
+  export type CampaignStepUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    campaignId?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    templateId?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type CampaignStepCreateManyInput = {
+    id?: string
+    campaignId: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    templateId?: string | null
+  }
+
+  export type CampaignStepUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+  }
+
+  export type CampaignStepUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    campaignId?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    templateId?: NullableStringFieldUpdateOperationsInput | string | null
+  }
+
+  export type ScheduledMessageCreateInput = {
+    id?: string
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
+    lead?: LeadCreateNestedOneWithoutScheduledMessagesInput
+  }
+
+  export type ScheduledMessageUncheckedCreateInput = {
+    id?: string
+    leadId?: string | null
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
+  }
+
+  export type ScheduledMessageUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lead?: LeadUpdateOneWithoutScheduledMessagesNestedInput
+  }
+
+  export type ScheduledMessageUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    leadId?: NullableStringFieldUpdateOperationsInput | string | null
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ScheduledMessageCreateManyInput = {
+    id?: string
+    leadId?: string | null
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
+  }
+
+  export type ScheduledMessageUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ScheduledMessageUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    leadId?: NullableStringFieldUpdateOperationsInput | string | null
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type OutboxEventCreateInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
+    lead: LeadCreateNestedOneWithoutOutboxEventsInput
+  }
+
+  export type OutboxEventUncheckedCreateInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    leadId: string
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type OutboxEventUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lead?: LeadUpdateOneRequiredWithoutOutboxEventsNestedInput
+  }
+
+  export type OutboxEventUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    leadId?: StringFieldUpdateOperationsInput | string
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type OutboxEventCreateManyInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    leadId: string
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type OutboxEventUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type OutboxEventUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    leadId?: StringFieldUpdateOperationsInput | string
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type WorkerLeaseCreateInput = {
+    name: string
+    holder: string
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type WorkerLeaseUncheckedCreateInput = {
+    name: string
+    holder: string
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type WorkerLeaseUpdateInput = {
+    name?: StringFieldUpdateOperationsInput | string
+    holder?: StringFieldUpdateOperationsInput | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type WorkerLeaseUncheckedUpdateInput = {
+    name?: StringFieldUpdateOperationsInput | string
+    holder?: StringFieldUpdateOperationsInput | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type WorkerLeaseCreateManyInput = {
+    name: string
+    holder: string
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type WorkerLeaseUpdateManyMutationInput = {
+    name?: StringFieldUpdateOperationsInput | string
+    holder?: StringFieldUpdateOperationsInput | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type WorkerLeaseUncheckedUpdateManyInput = {
+    name?: StringFieldUpdateOperationsInput | string
+    holder?: StringFieldUpdateOperationsInput | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ApiKeyCreateInput = {
+    id?: string
+    name: string
+    prefix: string
+    keyHash: string
+    scopes?: ApiKeyCreatescopesInput | string[]
+    lastUsedAt?: Date | string | null
+    revokedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type ApiKeyUncheckedCreateInput = {
+    id?: string
+    name: string
+    prefix: string
+    keyHash: string
+    scopes?: ApiKeyCreatescopesInput | string[]
+    lastUsedAt?: Date | string | null
+    revokedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type ApiKeyUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    prefix?: StringFieldUpdateOperationsInput | string
+    keyHash?: StringFieldUpdateOperationsInput | string
+    scopes?: ApiKeyUpdatescopesInput | string[]
+    lastUsedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    revokedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ApiKeyUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    prefix?: StringFieldUpdateOperationsInput | string
+    keyHash?: StringFieldUpdateOperationsInput | string
+    scopes?: ApiKeyUpdatescopesInput | string[]
+    lastUsedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    revokedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ApiKeyCreateManyInput = {
+    id?: string
+    name: string
+    prefix: string
+    keyHash: string
+    scopes?: ApiKeyCreatescopesInput | string[]
+    lastUsedAt?: Date | string | null
+    revokedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type ApiKeyUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    prefix?: StringFieldUpdateOperationsInput | string
+    keyHash?: StringFieldUpdateOperationsInput | string
+    scopes?: ApiKeyUpdatescopesInput | string[]
+    lastUsedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    revokedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ApiKeyUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    prefix?: StringFieldUpdateOperationsInput | string
+    keyHash?: StringFieldUpdateOperationsInput | string
+    scopes?: ApiKeyUpdatescopesInput | string[]
+    lastUsedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    revokedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitHitCreateInput = {
+    id?: string
+    key: string
+    createdAt?: Date | string
+  }
+
+  export type RateLimitHitUncheckedCreateInput = {
+    id?: string
+    key: string
+    createdAt?: Date | string
+  }
+
+  export type RateLimitHitUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitHitUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitHitCreateManyInput = {
+    id?: string
+    key: string
+    createdAt?: Date | string
+  }
+
+  export type RateLimitHitUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitHitUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type IdempotencyKeyCreateInput = {
+    scope: string
+    key: string
+    requestHash: string
+    responseStatus?: number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    expiresAt: Date | string
+  }
+
+  export type IdempotencyKeyUncheckedCreateInput = {
+    scope: string
+    key: string
+    requestHash: string
+    responseStatus?: number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    expiresAt: Date | string
+  }
+
+  export type IdempotencyKeyUpdateInput = {
+    scope?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    requestHash?: StringFieldUpdateOperationsInput | string
+    responseStatus?: NullableIntFieldUpdateOperationsInput | number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type IdempotencyKeyUncheckedUpdateInput = {
+    scope?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    requestHash?: StringFieldUpdateOperationsInput | string
+    responseStatus?: NullableIntFieldUpdateOperationsInput | number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type IdempotencyKeyCreateManyInput = {
+    scope: string
+    key: string
+    requestHash: string
+    responseStatus?: number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    expiresAt: Date | string
+  }
+
+  export type IdempotencyKeyUpdateManyMutationInput = {
+    scope?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    requestHash?: StringFieldUpdateOperationsInput | string
+    responseStatus?: NullableIntFieldUpdateOperationsInput | number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type IdempotencyKeyUncheckedUpdateManyInput = {
+    scope?: StringFieldUpdateOperationsInput | string
+    key?: StringFieldUpdateOperationsInput | string
+    requestHash?: StringFieldUpdateOperationsInput | string
+    responseStatus?: NullableIntFieldUpdateOperationsInput | number | null
+    responseBody?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ScheduledSlotCreateInput = {
+    day: Date | string
+    scope: string
+    reserved?: number
+  }
+
+  export type ScheduledSlotUncheckedCreateInput = {
+    day: Date | string
+    scope: string
+    reserved?: number
+  }
+
+  export type ScheduledSlotUpdateInput = {
+    day?: DateTimeFieldUpdateOperationsInput | Date | string
+    scope?: StringFieldUpdateOperationsInput | string
+    reserved?: IntFieldUpdateOperationsInput | number
+  }
+
+  export type ScheduledSlotUncheckedUpdateInput = {
+    day?: DateTimeFieldUpdateOperationsInput | Date | string
+    scope?: StringFieldUpdateOperationsInput | string
+    reserved?: IntFieldUpdateOperationsInput | number
+  }
+
+  export type ScheduledSlotCreateManyInput = {
+    day: Date | string
+    scope: string
+    reserved?: number
+  }
+
+  export type ScheduledSlotUpdateManyMutationInput = {
+    day?: DateTimeFieldUpdateOperationsInput | Date | string
+    scope?: StringFieldUpdateOperationsInput | string
+    reserved?: IntFieldUpdateOperationsInput | number
+  }
+
+  export type ScheduledSlotUncheckedUpdateManyInput = {
+    day?: DateTimeFieldUpdateOperationsInput | Date | string
+    scope?: StringFieldUpdateOperationsInput | string
+    reserved?: IntFieldUpdateOperationsInput | number
+  }
+
+  export type SuppressionCreateInput = {
+    id?: string
+    type: $Enums.SuppressionType
+    value: string
+    reason?: string | null
+    createdAt?: Date | string
+  }
+
+  export type SuppressionUncheckedCreateInput = {
+    id?: string
+    type: $Enums.SuppressionType
+    value: string
+    reason?: string | null
+    createdAt?: Date | string
+  }
+
+  export type SuppressionUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumSuppressionTypeFieldUpdateOperationsInput | $Enums.SuppressionType
+    value?: StringFieldUpdateOperationsInput | string
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type SuppressionUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumSuppressionTypeFieldUpdateOperationsInput | $Enums.SuppressionType
+    value?: StringFieldUpdateOperationsInput | string
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type SuppressionCreateManyInput = {
+    id?: string
+    type: $Enums.SuppressionType
+    value: string
+    reason?: string | null
+    createdAt?: Date | string
+  }
+
+  export type SuppressionUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumSuppressionTypeFieldUpdateOperationsInput | $Enums.SuppressionType
+    value?: StringFieldUpdateOperationsInput | string
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type SuppressionUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumSuppressionTypeFieldUpdateOperationsInput | $Enums.SuppressionType
+    value?: StringFieldUpdateOperationsInput | string
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type StringFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringFilter<$PrismaModel> | string
+  }
+
+  export type StringNullableFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  }
+
+  export type IntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
+
+  export type DateTimeNullableFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  }
+
+  export type EnumLeadStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumLeadStatusFilter<$PrismaModel> | $Enums.LeadStatus
+  }
+
+  export type EnumDeliveryStatusNullableFilter<$PrismaModel = never> = {
+    equals?: $Enums.DeliveryStatus | EnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    in?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    notIn?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    not?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel> | $Enums.DeliveryStatus | null
+  }
+
+  export type DateTimeFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  }
+
+  export type CampaignNullableScalarRelationFilter = {
+    is?: CampaignWhereInput | null
+    isNot?: CampaignWhereInput | null
+  }
+
+  export type ScheduledMessageListRelationFilter = {
+    every?: ScheduledMessageWhereInput
+    some?: ScheduledMessageWhereInput
+    none?: ScheduledMessageWhereInput
+  }
+
+  export type OutboxEventListRelationFilter = {
+    every?: OutboxEventWhereInput
+    some?: OutboxEventWhereInput
+    none?: OutboxEventWhereInput
+  }
+
+  export type SortOrderInput = {
+    sort: SortOrder
+    nulls?: NullsOrder
+  }
+
+  export type ScheduledMessageOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type OutboxEventOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type LeadCountOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    email?: SortOrder
+    phone?: SortOrder
+    notes?: SortOrder
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+    lastSentAt?: SortOrder
+    nextScheduledFor?: SortOrder
+    status?: SortOrder
+    lastProviderMessageId?: SortOrder
+    lastDeliveryStatus?: SortOrder
+    lastDeliveryError?: SortOrder
+    failureReason?: SortOrder
+    unsubscribedAt?: SortOrder
+    pausedAt?: SortOrder
+    cancelledAt?: SortOrder
+    timezone?: SortOrder
+    campaignId?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type LeadAvgOrderByAggregateInput = {
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+  }
+
+  export type LeadMaxOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    email?: SortOrder
+    phone?: SortOrder
+    notes?: SortOrder
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+    lastSentAt?: SortOrder
+    nextScheduledFor?: SortOrder
+    status?: SortOrder
+    lastProviderMessageId?: SortOrder
+    lastDeliveryStatus?: SortOrder
+    lastDeliveryError?: SortOrder
+    failureReason?: SortOrder
+    unsubscribedAt?: SortOrder
+    pausedAt?: SortOrder
+    cancelledAt?: SortOrder
+    timezone?: SortOrder
+    campaignId?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type LeadMinOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    email?: SortOrder
+    phone?: SortOrder
+    notes?: SortOrder
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+    lastSentAt?: SortOrder
+    nextScheduledFor?: SortOrder
+    status?: SortOrder
+    lastProviderMessageId?: SortOrder
+    lastDeliveryStatus?: SortOrder
+    lastDeliveryError?: SortOrder
+    failureReason?: SortOrder
+    unsubscribedAt?: SortOrder
+    pausedAt?: SortOrder
+    cancelledAt?: SortOrder
+    timezone?: SortOrder
+    campaignId?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type LeadSumOrderByAggregateInput = {
+    maxMessages?: SortOrder
+    messageCount?: SortOrder
+  }
+
+  export type StringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    mode?: QueryMode
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
+  }
+
+  export type IntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
+
+  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  }
+
+  export type EnumLeadStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel> | $Enums.LeadStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumLeadStatusFilter<$PrismaModel>
+    _max?: NestedEnumLeadStatusFilter<$PrismaModel>
+  }
+
+  export type EnumDeliveryStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.DeliveryStatus | EnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    in?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    notIn?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    not?: NestedEnumDeliveryStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.DeliveryStatus | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel>
+    _max?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel>
+  }
+
+  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
+  }
+
+  export type EnumChannelFilter<$PrismaModel = never> = {
+    equals?: $Enums.Channel | EnumChannelFieldRefInput<$PrismaModel>
+    in?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    notIn?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    not?: NestedEnumChannelFilter<$PrismaModel> | $Enums.Channel
+  }
+
+  export type CampaignStepListRelationFilter = {
+    every?: CampaignStepWhereInput
+    some?: CampaignStepWhereInput
+    none?: CampaignStepWhereInput
+  }
+
+  export type CampaignStepOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MessageTemplateStepNumberChannelCompoundUniqueInput = {
+    stepNumber: number
+    channel: $Enums.Channel
+  }
+
+  export type MessageTemplateCountOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    stepNumber?: SortOrder
+    channel?: SortOrder
+    subject?: SortOrder
+    body?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type MessageTemplateAvgOrderByAggregateInput = {
+    stepNumber?: SortOrder
+  }
+
+  export type MessageTemplateMaxOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    stepNumber?: SortOrder
+    channel?: SortOrder
+    subject?: SortOrder
+    body?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type MessageTemplateMinOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    stepNumber?: SortOrder
+    channel?: SortOrder
+    subject?: SortOrder
+    body?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type MessageTemplateSumOrderByAggregateInput = {
+    stepNumber?: SortOrder
+  }
+
+  export type EnumChannelWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.Channel | EnumChannelFieldRefInput<$PrismaModel>
+    in?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    notIn?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    not?: NestedEnumChannelWithAggregatesFilter<$PrismaModel> | $Enums.Channel
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumChannelFilter<$PrismaModel>
+    _max?: NestedEnumChannelFilter<$PrismaModel>
+  }
+
+  export type IntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type IntNullableListFilter<$PrismaModel = never> = {
+    equals?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    has?: number | IntFieldRefInput<$PrismaModel> | null
+    hasEvery?: number[] | ListIntFieldRefInput<$PrismaModel>
+    hasSome?: number[] | ListIntFieldRefInput<$PrismaModel>
+    isEmpty?: boolean
+  }
+
+  export type LeadListRelationFilter = {
+    every?: LeadWhereInput
+    some?: LeadWhereInput
+    none?: LeadWhereInput
+  }
+
+  export type LeadOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type CampaignCountOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    dailyCap?: SortOrder
+    sendWindowStart?: SortOrder
+    sendWindowEnd?: SortOrder
+    sendDays?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type CampaignAvgOrderByAggregateInput = {
+    dailyCap?: SortOrder
+    sendDays?: SortOrder
+  }
+
+  export type CampaignMaxOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    dailyCap?: SortOrder
+    sendWindowStart?: SortOrder
+    sendWindowEnd?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type CampaignMinOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    dailyCap?: SortOrder
+    sendWindowStart?: SortOrder
+    sendWindowEnd?: SortOrder
+    createdAt?: SortOrder
   }
-  export type GlobalOmitConfig = {
-    lead?: LeadOmit
+
+  export type CampaignSumOrderByAggregateInput = {
+    dailyCap?: SortOrder
+    sendDays?: SortOrder
   }
 
-  /* Types for Logging */
-  export type LogLevel = 'info' | 'query' | 'warn' | 'error'
-  export type LogDefinition = {
-    level: LogLevel
-    emit: 'stdout' | 'event'
+  export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
   }
 
-  export type CheckIsLogLevel<T> = T extends LogLevel ? T : never;
+  export type CampaignScalarRelationFilter = {
+    is?: CampaignWhereInput
+    isNot?: CampaignWhereInput
+  }
 
-  export type GetLogType<T> = CheckIsLogLevel<
-    T extends LogDefinition ? T['level'] : T
-  >;
+  export type MessageTemplateNullableScalarRelationFilter = {
+    is?: MessageTemplateWhereInput | null
+    isNot?: MessageTemplateWhereInput | null
+  }
 
-  export type GetEvents<T extends any[]> = T extends Array<LogLevel | LogDefinition>
-    ? GetLogType<T[number]>
-    : never;
+  export type CampaignStepCampaignIdStepNumberCompoundUniqueInput = {
+    campaignId: string
+    stepNumber: number
+  }
 
-  export type QueryEvent = {
-    timestamp: Date
-    query: string
-    params: string
-    duration: number
-    target: string
+  export type CampaignStepCountOrderByAggregateInput = {
+    id?: SortOrder
+    campaignId?: SortOrder
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+    channel?: SortOrder
+    templateId?: SortOrder
   }
 
-  export type LogEvent = {
-    timestamp: Date
-    message: string
-    target: string
+  export type CampaignStepAvgOrderByAggregateInput = {
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
   }
-  /* End Types for Logging */
 
+  export type CampaignStepMaxOrderByAggregateInput = {
+    id?: SortOrder
+    campaignId?: SortOrder
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+    channel?: SortOrder
+    templateId?: SortOrder
+  }
 
-  export type PrismaAction =
-    | 'findUnique'
-    | 'findUniqueOrThrow'
-    | 'findMany'
-    | 'findFirst'
-    | 'findFirstOrThrow'
-    | 'create'
-    | 'createMany'
-    | 'createManyAndReturn'
-    | 'update'
-    | 'updateMany'
-    | 'updateManyAndReturn'
-    | 'upsert'
-    | 'delete'
-    | 'deleteMany'
-    | 'executeRaw'
-    | 'queryRaw'
-    | 'aggregate'
-    | 'count'
-    | 'runCommandRaw'
-    | 'findRaw'
-    | 'groupBy'
+  export type CampaignStepMinOrderByAggregateInput = {
+    id?: SortOrder
+    campaignId?: SortOrder
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+    channel?: SortOrder
+    templateId?: SortOrder
+  }
 
-  // tested in getLogLevel.test.ts
-  export function getLogLevel(log: Array<LogLevel | LogDefinition>): LogLevel | undefined;
+  export type CampaignStepSumOrderByAggregateInput = {
+    stepNumber?: SortOrder
+    delayDays?: SortOrder
+  }
 
-  /**
-   * `PrismaClient` proxy available in interactive transactions.
-   */
-  export type TransactionClient = Omit<Prisma.DefaultPrismaClient, runtime.ITXClientDenyList>
+  export type EnumScheduledMessageStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.ScheduledMessageStatus | EnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumScheduledMessageStatusFilter<$PrismaModel> | $Enums.ScheduledMessageStatus
+  }
 
-  export type Datasource = {
-    url?: string
+  export type LeadNullableScalarRelationFilter = {
+    is?: LeadWhereInput | null
+    isNot?: LeadWhereInput | null
   }
 
-  /**
-   * Count Types
-   */
+  export type ScheduledMessageCountOrderByAggregateInput = {
+    id?: SortOrder
+    leadId?: SortOrder
+    messageNumber?: SortOrder
+    queueName?: SortOrder
+    msgId?: SortOrder
+    scheduledFor?: SortOrder
+    status?: SortOrder
+    sentAt?: SortOrder
+    sendStartedAt?: SortOrder
+    providerMessageId?: SortOrder
+    createdAt?: SortOrder
+  }
 
+  export type ScheduledMessageAvgOrderByAggregateInput = {
+    messageNumber?: SortOrder
+  }
 
+  export type ScheduledMessageMaxOrderByAggregateInput = {
+    id?: SortOrder
+    leadId?: SortOrder
+    messageNumber?: SortOrder
+    queueName?: SortOrder
+    msgId?: SortOrder
+    scheduledFor?: SortOrder
+    status?: SortOrder
+    sentAt?: SortOrder
+    sendStartedAt?: SortOrder
+    providerMessageId?: SortOrder
+    createdAt?: SortOrder
+  }
 
-  /**
-   * Models
-   */
+  export type ScheduledMessageMinOrderByAggregateInput = {
+    id?: SortOrder
+    leadId?: SortOrder
+    messageNumber?: SortOrder
+    queueName?: SortOrder
+    msgId?: SortOrder
+    scheduledFor?: SortOrder
+    status?: SortOrder
+    sentAt?: SortOrder
+    sendStartedAt?: SortOrder
+    providerMessageId?: SortOrder
+    createdAt?: SortOrder
+  }
 
-  /**
-   * Model Lead
-   */
+  export type ScheduledMessageSumOrderByAggregateInput = {
+    messageNumber?: SortOrder
+  }
 
-  export type AggregateLead = {
-    _count: LeadCountAggregateOutputType | null
-    _avg: LeadAvgAggregateOutputType | null
-    _sum: LeadSumAggregateOutputType | null
-    _min: LeadMinAggregateOutputType | null
-    _max: LeadMaxAggregateOutputType | null
+  export type EnumScheduledMessageStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.ScheduledMessageStatus | EnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumScheduledMessageStatusWithAggregatesFilter<$PrismaModel> | $Enums.ScheduledMessageStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumScheduledMessageStatusFilter<$PrismaModel>
+    _max?: NestedEnumScheduledMessageStatusFilter<$PrismaModel>
   }
 
-  export type LeadAvgAggregateOutputType = {
-    maxMessages: number | null
-    messageCount: number | null
+  export type EnumOutboxEventTypeFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventType | EnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventTypeFilter<$PrismaModel> | $Enums.OutboxEventType
   }
 
-  export type LeadSumAggregateOutputType = {
-    maxMessages: number | null
-    messageCount: number | null
+  export type EnumOutboxEventStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventStatus | EnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventStatusFilter<$PrismaModel> | $Enums.OutboxEventStatus
+  }
+
+  export type LeadScalarRelationFilter = {
+    is?: LeadWhereInput
+    isNot?: LeadWhereInput
+  }
+
+  export type OutboxEventCountOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    leadId?: SortOrder
+    status?: SortOrder
+    attempts?: SortOrder
+    lastError?: SortOrder
+    availableAt?: SortOrder
+    processedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type OutboxEventAvgOrderByAggregateInput = {
+    attempts?: SortOrder
+  }
+
+  export type OutboxEventMaxOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    leadId?: SortOrder
+    status?: SortOrder
+    attempts?: SortOrder
+    lastError?: SortOrder
+    availableAt?: SortOrder
+    processedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type OutboxEventMinOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    leadId?: SortOrder
+    status?: SortOrder
+    attempts?: SortOrder
+    lastError?: SortOrder
+    availableAt?: SortOrder
+    processedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type OutboxEventSumOrderByAggregateInput = {
+    attempts?: SortOrder
+  }
+
+  export type EnumOutboxEventTypeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventType | EnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventTypeWithAggregatesFilter<$PrismaModel> | $Enums.OutboxEventType
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumOutboxEventTypeFilter<$PrismaModel>
+    _max?: NestedEnumOutboxEventTypeFilter<$PrismaModel>
+  }
+
+  export type EnumOutboxEventStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventStatus | EnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventStatusWithAggregatesFilter<$PrismaModel> | $Enums.OutboxEventStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumOutboxEventStatusFilter<$PrismaModel>
+    _max?: NestedEnumOutboxEventStatusFilter<$PrismaModel>
+  }
+
+  export type WorkerLeaseCountOrderByAggregateInput = {
+    name?: SortOrder
+    holder?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type WorkerLeaseMaxOrderByAggregateInput = {
+    name?: SortOrder
+    holder?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type WorkerLeaseMinOrderByAggregateInput = {
+    name?: SortOrder
+    holder?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type StringNullableListFilter<$PrismaModel = never> = {
+    equals?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    has?: string | StringFieldRefInput<$PrismaModel> | null
+    hasEvery?: string[] | ListStringFieldRefInput<$PrismaModel>
+    hasSome?: string[] | ListStringFieldRefInput<$PrismaModel>
+    isEmpty?: boolean
+  }
+
+  export type ApiKeyCountOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    prefix?: SortOrder
+    keyHash?: SortOrder
+    scopes?: SortOrder
+    lastUsedAt?: SortOrder
+    revokedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type ApiKeyMaxOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    prefix?: SortOrder
+    keyHash?: SortOrder
+    lastUsedAt?: SortOrder
+    revokedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type ApiKeyMinOrderByAggregateInput = {
+    id?: SortOrder
+    name?: SortOrder
+    prefix?: SortOrder
+    keyHash?: SortOrder
+    lastUsedAt?: SortOrder
+    revokedAt?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type RateLimitHitCountOrderByAggregateInput = {
+    id?: SortOrder
+    key?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type RateLimitHitMaxOrderByAggregateInput = {
+    id?: SortOrder
+    key?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type RateLimitHitMinOrderByAggregateInput = {
+    id?: SortOrder
+    key?: SortOrder
+    createdAt?: SortOrder
+  }
+  export type JsonNullableFilter<$PrismaModel = never> =
+    | PatchUndefined<
+        Either<Required<JsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+        Required<JsonNullableFilterBase<$PrismaModel>>
+      >
+    | OptionalFlat<Omit<Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+  export type JsonNullableFilterBase<$PrismaModel = never> = {
+    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
+    path?: string[]
+    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
+    string_contains?: string | StringFieldRefInput<$PrismaModel>
+    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
+    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
+    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
+  }
+
+  export type IdempotencyKeyScopeKeyCompoundUniqueInput = {
+    scope: string
+    key: string
+  }
+
+  export type IdempotencyKeyCountOrderByAggregateInput = {
+    scope?: SortOrder
+    key?: SortOrder
+    requestHash?: SortOrder
+    responseStatus?: SortOrder
+    responseBody?: SortOrder
+    createdAt?: SortOrder
+    expiresAt?: SortOrder
+  }
+
+  export type IdempotencyKeyAvgOrderByAggregateInput = {
+    responseStatus?: SortOrder
+  }
+
+  export type IdempotencyKeyMaxOrderByAggregateInput = {
+    scope?: SortOrder
+    key?: SortOrder
+    requestHash?: SortOrder
+    responseStatus?: SortOrder
+    createdAt?: SortOrder
+    expiresAt?: SortOrder
+  }
+
+  export type IdempotencyKeyMinOrderByAggregateInput = {
+    scope?: SortOrder
+    key?: SortOrder
+    requestHash?: SortOrder
+    responseStatus?: SortOrder
+    createdAt?: SortOrder
+    expiresAt?: SortOrder
+  }
+
+  export type IdempotencyKeySumOrderByAggregateInput = {
+    responseStatus?: SortOrder
+  }
+  export type JsonNullableWithAggregatesFilter<$PrismaModel = never> =
+    | PatchUndefined<
+        Either<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+        Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>
+      >
+    | OptionalFlat<Omit<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+  export type JsonNullableWithAggregatesFilterBase<$PrismaModel = never> = {
+    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
+    path?: string[]
+    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
+    string_contains?: string | StringFieldRefInput<$PrismaModel>
+    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
+    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
+    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedJsonNullableFilter<$PrismaModel>
+    _max?: NestedJsonNullableFilter<$PrismaModel>
+  }
+
+  export type ScheduledSlotDayScopeCompoundUniqueInput = {
+    day: Date | string
+    scope: string
+  }
+
+  export type ScheduledSlotCountOrderByAggregateInput = {
+    day?: SortOrder
+    scope?: SortOrder
+    reserved?: SortOrder
+  }
+
+  export type ScheduledSlotAvgOrderByAggregateInput = {
+    reserved?: SortOrder
+  }
+
+  export type ScheduledSlotMaxOrderByAggregateInput = {
+    day?: SortOrder
+    scope?: SortOrder
+    reserved?: SortOrder
+  }
+
+  export type ScheduledSlotMinOrderByAggregateInput = {
+    day?: SortOrder
+    scope?: SortOrder
+    reserved?: SortOrder
+  }
+
+  export type ScheduledSlotSumOrderByAggregateInput = {
+    reserved?: SortOrder
+  }
+
+  export type EnumSuppressionTypeFilter<$PrismaModel = never> = {
+    equals?: $Enums.SuppressionType | EnumSuppressionTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumSuppressionTypeFilter<$PrismaModel> | $Enums.SuppressionType
+  }
+
+  export type SuppressionTypeValueCompoundUniqueInput = {
+    type: $Enums.SuppressionType
+    value: string
+  }
+
+  export type SuppressionCountOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    value?: SortOrder
+    reason?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type SuppressionMaxOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    value?: SortOrder
+    reason?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type SuppressionMinOrderByAggregateInput = {
+    id?: SortOrder
+    type?: SortOrder
+    value?: SortOrder
+    reason?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type EnumSuppressionTypeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.SuppressionType | EnumSuppressionTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumSuppressionTypeWithAggregatesFilter<$PrismaModel> | $Enums.SuppressionType
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumSuppressionTypeFilter<$PrismaModel>
+    _max?: NestedEnumSuppressionTypeFilter<$PrismaModel>
+  }
+
+  export type CampaignCreateNestedOneWithoutLeadsInput = {
+    create?: XOR<CampaignCreateWithoutLeadsInput, CampaignUncheckedCreateWithoutLeadsInput>
+    connectOrCreate?: CampaignCreateOrConnectWithoutLeadsInput
+    connect?: CampaignWhereUniqueInput
+  }
+
+  export type ScheduledMessageCreateNestedManyWithoutLeadInput = {
+    create?: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput> | ScheduledMessageCreateWithoutLeadInput[] | ScheduledMessageUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: ScheduledMessageCreateOrConnectWithoutLeadInput | ScheduledMessageCreateOrConnectWithoutLeadInput[]
+    createMany?: ScheduledMessageCreateManyLeadInputEnvelope
+    connect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+  }
+
+  export type OutboxEventCreateNestedManyWithoutLeadInput = {
+    create?: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput> | OutboxEventCreateWithoutLeadInput[] | OutboxEventUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: OutboxEventCreateOrConnectWithoutLeadInput | OutboxEventCreateOrConnectWithoutLeadInput[]
+    createMany?: OutboxEventCreateManyLeadInputEnvelope
+    connect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+  }
+
+  export type ScheduledMessageUncheckedCreateNestedManyWithoutLeadInput = {
+    create?: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput> | ScheduledMessageCreateWithoutLeadInput[] | ScheduledMessageUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: ScheduledMessageCreateOrConnectWithoutLeadInput | ScheduledMessageCreateOrConnectWithoutLeadInput[]
+    createMany?: ScheduledMessageCreateManyLeadInputEnvelope
+    connect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+  }
+
+  export type OutboxEventUncheckedCreateNestedManyWithoutLeadInput = {
+    create?: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput> | OutboxEventCreateWithoutLeadInput[] | OutboxEventUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: OutboxEventCreateOrConnectWithoutLeadInput | OutboxEventCreateOrConnectWithoutLeadInput[]
+    createMany?: OutboxEventCreateManyLeadInputEnvelope
+    connect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+  }
+
+  export type StringFieldUpdateOperationsInput = {
+    set?: string
+  }
+
+  export type NullableStringFieldUpdateOperationsInput = {
+    set?: string | null
+  }
+
+  export type IntFieldUpdateOperationsInput = {
+    set?: number
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type NullableDateTimeFieldUpdateOperationsInput = {
+    set?: Date | string | null
   }
 
-  export type LeadMinAggregateOutputType = {
-    id: string | null
-    name: string | null
-    email: string | null
-    phone: string | null
-    notes: string | null
-    maxMessages: number | null
-    messageCount: number | null
-    lastSentAt: Date | null
-    nextScheduledFor: Date | null
-    status: $Enums.LeadStatus | null
-    createdAt: Date | null
+  export type EnumLeadStatusFieldUpdateOperationsInput = {
+    set?: $Enums.LeadStatus
   }
 
-  export type LeadMaxAggregateOutputType = {
-    id: string | null
-    name: string | null
-    email: string | null
-    phone: string | null
-    notes: string | null
-    maxMessages: number | null
-    messageCount: number | null
-    lastSentAt: Date | null
-    nextScheduledFor: Date | null
-    status: $Enums.LeadStatus | null
-    createdAt: Date | null
+  export type NullableEnumDeliveryStatusFieldUpdateOperationsInput = {
+    set?: $Enums.DeliveryStatus | null
   }
 
-  export type LeadCountAggregateOutputType = {
-    id: number
-    name: number
-    email: number
-    phone: number
-    notes: number
-    maxMessages: number
-    messageCount: number
-    lastSentAt: number
-    nextScheduledFor: number
-    status: number
-    createdAt: number
-    _all: number
+  export type DateTimeFieldUpdateOperationsInput = {
+    set?: Date | string
   }
 
-
-  export type LeadAvgAggregateInputType = {
-    maxMessages?: true
-    messageCount?: true
+  export type CampaignUpdateOneWithoutLeadsNestedInput = {
+    create?: XOR<CampaignCreateWithoutLeadsInput, CampaignUncheckedCreateWithoutLeadsInput>
+    connectOrCreate?: CampaignCreateOrConnectWithoutLeadsInput
+    upsert?: CampaignUpsertWithoutLeadsInput
+    disconnect?: CampaignWhereInput | boolean
+    delete?: CampaignWhereInput | boolean
+    connect?: CampaignWhereUniqueInput
+    update?: XOR<XOR<CampaignUpdateToOneWithWhereWithoutLeadsInput, CampaignUpdateWithoutLeadsInput>, CampaignUncheckedUpdateWithoutLeadsInput>
   }
 
-  export type LeadSumAggregateInputType = {
-    maxMessages?: true
-    messageCount?: true
+  export type ScheduledMessageUpdateManyWithoutLeadNestedInput = {
+    create?: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput> | ScheduledMessageCreateWithoutLeadInput[] | ScheduledMessageUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: ScheduledMessageCreateOrConnectWithoutLeadInput | ScheduledMessageCreateOrConnectWithoutLeadInput[]
+    upsert?: ScheduledMessageUpsertWithWhereUniqueWithoutLeadInput | ScheduledMessageUpsertWithWhereUniqueWithoutLeadInput[]
+    createMany?: ScheduledMessageCreateManyLeadInputEnvelope
+    set?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    disconnect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    delete?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    connect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    update?: ScheduledMessageUpdateWithWhereUniqueWithoutLeadInput | ScheduledMessageUpdateWithWhereUniqueWithoutLeadInput[]
+    updateMany?: ScheduledMessageUpdateManyWithWhereWithoutLeadInput | ScheduledMessageUpdateManyWithWhereWithoutLeadInput[]
+    deleteMany?: ScheduledMessageScalarWhereInput | ScheduledMessageScalarWhereInput[]
   }
 
-  export type LeadMinAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    phone?: true
-    notes?: true
-    maxMessages?: true
-    messageCount?: true
-    lastSentAt?: true
-    nextScheduledFor?: true
-    status?: true
-    createdAt?: true
+  export type OutboxEventUpdateManyWithoutLeadNestedInput = {
+    create?: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput> | OutboxEventCreateWithoutLeadInput[] | OutboxEventUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: OutboxEventCreateOrConnectWithoutLeadInput | OutboxEventCreateOrConnectWithoutLeadInput[]
+    upsert?: OutboxEventUpsertWithWhereUniqueWithoutLeadInput | OutboxEventUpsertWithWhereUniqueWithoutLeadInput[]
+    createMany?: OutboxEventCreateManyLeadInputEnvelope
+    set?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    disconnect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    delete?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    connect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    update?: OutboxEventUpdateWithWhereUniqueWithoutLeadInput | OutboxEventUpdateWithWhereUniqueWithoutLeadInput[]
+    updateMany?: OutboxEventUpdateManyWithWhereWithoutLeadInput | OutboxEventUpdateManyWithWhereWithoutLeadInput[]
+    deleteMany?: OutboxEventScalarWhereInput | OutboxEventScalarWhereInput[]
   }
 
-  export type LeadMaxAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    phone?: true
-    notes?: true
-    maxMessages?: true
-    messageCount?: true
-    lastSentAt?: true
-    nextScheduledFor?: true
-    status?: true
-    createdAt?: true
+  export type ScheduledMessageUncheckedUpdateManyWithoutLeadNestedInput = {
+    create?: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput> | ScheduledMessageCreateWithoutLeadInput[] | ScheduledMessageUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: ScheduledMessageCreateOrConnectWithoutLeadInput | ScheduledMessageCreateOrConnectWithoutLeadInput[]
+    upsert?: ScheduledMessageUpsertWithWhereUniqueWithoutLeadInput | ScheduledMessageUpsertWithWhereUniqueWithoutLeadInput[]
+    createMany?: ScheduledMessageCreateManyLeadInputEnvelope
+    set?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    disconnect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    delete?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    connect?: ScheduledMessageWhereUniqueInput | ScheduledMessageWhereUniqueInput[]
+    update?: ScheduledMessageUpdateWithWhereUniqueWithoutLeadInput | ScheduledMessageUpdateWithWhereUniqueWithoutLeadInput[]
+    updateMany?: ScheduledMessageUpdateManyWithWhereWithoutLeadInput | ScheduledMessageUpdateManyWithWhereWithoutLeadInput[]
+    deleteMany?: ScheduledMessageScalarWhereInput | ScheduledMessageScalarWhereInput[]
   }
 
-  export type LeadCountAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    phone?: true
-    notes?: true
-    maxMessages?: true
-    messageCount?: true
-    lastSentAt?: true
-    nextScheduledFor?: true
-    status?: true
-    createdAt?: true
-    _all?: true
+  export type OutboxEventUncheckedUpdateManyWithoutLeadNestedInput = {
+    create?: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput> | OutboxEventCreateWithoutLeadInput[] | OutboxEventUncheckedCreateWithoutLeadInput[]
+    connectOrCreate?: OutboxEventCreateOrConnectWithoutLeadInput | OutboxEventCreateOrConnectWithoutLeadInput[]
+    upsert?: OutboxEventUpsertWithWhereUniqueWithoutLeadInput | OutboxEventUpsertWithWhereUniqueWithoutLeadInput[]
+    createMany?: OutboxEventCreateManyLeadInputEnvelope
+    set?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    disconnect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    delete?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    connect?: OutboxEventWhereUniqueInput | OutboxEventWhereUniqueInput[]
+    update?: OutboxEventUpdateWithWhereUniqueWithoutLeadInput | OutboxEventUpdateWithWhereUniqueWithoutLeadInput[]
+    updateMany?: OutboxEventUpdateManyWithWhereWithoutLeadInput | OutboxEventUpdateManyWithWhereWithoutLeadInput[]
+    deleteMany?: OutboxEventScalarWhereInput | OutboxEventScalarWhereInput[]
   }
 
-  export type LeadAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Lead to aggregate.
-     */
-    where?: LeadWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Leads to fetch.
-     */
-    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: LeadWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Leads from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Leads.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Leads
-    **/
-    _count?: true | LeadCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to average
-    **/
-    _avg?: LeadAvgAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to sum
-    **/
-    _sum?: LeadSumAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: LeadMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: LeadMaxAggregateInputType
+  export type CampaignStepCreateNestedManyWithoutTemplateInput = {
+    create?: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput> | CampaignStepCreateWithoutTemplateInput[] | CampaignStepUncheckedCreateWithoutTemplateInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutTemplateInput | CampaignStepCreateOrConnectWithoutTemplateInput[]
+    createMany?: CampaignStepCreateManyTemplateInputEnvelope
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
   }
 
-  export type GetLeadAggregateType<T extends LeadAggregateArgs> = {
-        [P in keyof T & keyof AggregateLead]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateLead[P]>
-      : GetScalarType<T[P], AggregateLead[P]>
+  export type CampaignStepUncheckedCreateNestedManyWithoutTemplateInput = {
+    create?: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput> | CampaignStepCreateWithoutTemplateInput[] | CampaignStepUncheckedCreateWithoutTemplateInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutTemplateInput | CampaignStepCreateOrConnectWithoutTemplateInput[]
+    createMany?: CampaignStepCreateManyTemplateInputEnvelope
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
   }
 
+  export type EnumChannelFieldUpdateOperationsInput = {
+    set?: $Enums.Channel
+  }
 
+  export type CampaignStepUpdateManyWithoutTemplateNestedInput = {
+    create?: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput> | CampaignStepCreateWithoutTemplateInput[] | CampaignStepUncheckedCreateWithoutTemplateInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutTemplateInput | CampaignStepCreateOrConnectWithoutTemplateInput[]
+    upsert?: CampaignStepUpsertWithWhereUniqueWithoutTemplateInput | CampaignStepUpsertWithWhereUniqueWithoutTemplateInput[]
+    createMany?: CampaignStepCreateManyTemplateInputEnvelope
+    set?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    disconnect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    delete?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    update?: CampaignStepUpdateWithWhereUniqueWithoutTemplateInput | CampaignStepUpdateWithWhereUniqueWithoutTemplateInput[]
+    updateMany?: CampaignStepUpdateManyWithWhereWithoutTemplateInput | CampaignStepUpdateManyWithWhereWithoutTemplateInput[]
+    deleteMany?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+  }
 
+  export type CampaignStepUncheckedUpdateManyWithoutTemplateNestedInput = {
+    create?: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput> | CampaignStepCreateWithoutTemplateInput[] | CampaignStepUncheckedCreateWithoutTemplateInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutTemplateInput | CampaignStepCreateOrConnectWithoutTemplateInput[]
+    upsert?: CampaignStepUpsertWithWhereUniqueWithoutTemplateInput | CampaignStepUpsertWithWhereUniqueWithoutTemplateInput[]
+    createMany?: CampaignStepCreateManyTemplateInputEnvelope
+    set?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    disconnect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    delete?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    update?: CampaignStepUpdateWithWhereUniqueWithoutTemplateInput | CampaignStepUpdateWithWhereUniqueWithoutTemplateInput[]
+    updateMany?: CampaignStepUpdateManyWithWhereWithoutTemplateInput | CampaignStepUpdateManyWithWhereWithoutTemplateInput[]
+    deleteMany?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+  }
 
-  export type LeadGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: LeadWhereInput
-    orderBy?: LeadOrderByWithAggregationInput | LeadOrderByWithAggregationInput[]
-    by: LeadScalarFieldEnum[] | LeadScalarFieldEnum
-    having?: LeadScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: LeadCountAggregateInputType | true
-    _avg?: LeadAvgAggregateInputType
-    _sum?: LeadSumAggregateInputType
-    _min?: LeadMinAggregateInputType
-    _max?: LeadMaxAggregateInputType
+  export type CampaignCreatesendDaysInput = {
+    set: number[]
   }
 
-  export type LeadGroupByOutputType = {
-    id: string
-    name: string
-    email: string
-    phone: string
-    notes: string | null
-    maxMessages: number
-    messageCount: number
-    lastSentAt: Date | null
-    nextScheduledFor: Date | null
-    status: $Enums.LeadStatus
-    createdAt: Date
-    _count: LeadCountAggregateOutputType | null
-    _avg: LeadAvgAggregateOutputType | null
-    _sum: LeadSumAggregateOutputType | null
-    _min: LeadMinAggregateOutputType | null
-    _max: LeadMaxAggregateOutputType | null
+  export type CampaignStepCreateNestedManyWithoutCampaignInput = {
+    create?: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput> | CampaignStepCreateWithoutCampaignInput[] | CampaignStepUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutCampaignInput | CampaignStepCreateOrConnectWithoutCampaignInput[]
+    createMany?: CampaignStepCreateManyCampaignInputEnvelope
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
   }
 
-  type GetLeadGroupByPayload<T extends LeadGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<LeadGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof LeadGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], LeadGroupByOutputType[P]>
-            : GetScalarType<T[P], LeadGroupByOutputType[P]>
-        }
-      >
-    >
+  export type LeadCreateNestedManyWithoutCampaignInput = {
+    create?: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput> | LeadCreateWithoutCampaignInput[] | LeadUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: LeadCreateOrConnectWithoutCampaignInput | LeadCreateOrConnectWithoutCampaignInput[]
+    createMany?: LeadCreateManyCampaignInputEnvelope
+    connect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+  }
 
+  export type CampaignStepUncheckedCreateNestedManyWithoutCampaignInput = {
+    create?: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput> | CampaignStepCreateWithoutCampaignInput[] | CampaignStepUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutCampaignInput | CampaignStepCreateOrConnectWithoutCampaignInput[]
+    createMany?: CampaignStepCreateManyCampaignInputEnvelope
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+  }
 
-  export type LeadSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    phone?: boolean
-    notes?: boolean
-    maxMessages?: boolean
-    messageCount?: boolean
-    lastSentAt?: boolean
-    nextScheduledFor?: boolean
-    status?: boolean
-    createdAt?: boolean
-  }, ExtArgs["result"]["lead"]>
+  export type LeadUncheckedCreateNestedManyWithoutCampaignInput = {
+    create?: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput> | LeadCreateWithoutCampaignInput[] | LeadUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: LeadCreateOrConnectWithoutCampaignInput | LeadCreateOrConnectWithoutCampaignInput[]
+    createMany?: LeadCreateManyCampaignInputEnvelope
+    connect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+  }
 
-  export type LeadSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    phone?: boolean
-    notes?: boolean
-    maxMessages?: boolean
-    messageCount?: boolean
-    lastSentAt?: boolean
-    nextScheduledFor?: boolean
-    status?: boolean
-    createdAt?: boolean
-  }, ExtArgs["result"]["lead"]>
+  export type NullableIntFieldUpdateOperationsInput = {
+    set?: number | null
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
 
-  export type LeadSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    phone?: boolean
-    notes?: boolean
-    maxMessages?: boolean
-    messageCount?: boolean
-    lastSentAt?: boolean
-    nextScheduledFor?: boolean
-    status?: boolean
-    createdAt?: boolean
-  }, ExtArgs["result"]["lead"]>
+  export type CampaignUpdatesendDaysInput = {
+    set?: number[]
+    push?: number | number[]
+  }
 
-  export type LeadSelectScalar = {
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    phone?: boolean
-    notes?: boolean
-    maxMessages?: boolean
-    messageCount?: boolean
-    lastSentAt?: boolean
-    nextScheduledFor?: boolean
-    status?: boolean
-    createdAt?: boolean
+  export type CampaignStepUpdateManyWithoutCampaignNestedInput = {
+    create?: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput> | CampaignStepCreateWithoutCampaignInput[] | CampaignStepUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutCampaignInput | CampaignStepCreateOrConnectWithoutCampaignInput[]
+    upsert?: CampaignStepUpsertWithWhereUniqueWithoutCampaignInput | CampaignStepUpsertWithWhereUniqueWithoutCampaignInput[]
+    createMany?: CampaignStepCreateManyCampaignInputEnvelope
+    set?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    disconnect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    delete?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    update?: CampaignStepUpdateWithWhereUniqueWithoutCampaignInput | CampaignStepUpdateWithWhereUniqueWithoutCampaignInput[]
+    updateMany?: CampaignStepUpdateManyWithWhereWithoutCampaignInput | CampaignStepUpdateManyWithWhereWithoutCampaignInput[]
+    deleteMany?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+  }
+
+  export type LeadUpdateManyWithoutCampaignNestedInput = {
+    create?: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput> | LeadCreateWithoutCampaignInput[] | LeadUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: LeadCreateOrConnectWithoutCampaignInput | LeadCreateOrConnectWithoutCampaignInput[]
+    upsert?: LeadUpsertWithWhereUniqueWithoutCampaignInput | LeadUpsertWithWhereUniqueWithoutCampaignInput[]
+    createMany?: LeadCreateManyCampaignInputEnvelope
+    set?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    disconnect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    delete?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    connect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    update?: LeadUpdateWithWhereUniqueWithoutCampaignInput | LeadUpdateWithWhereUniqueWithoutCampaignInput[]
+    updateMany?: LeadUpdateManyWithWhereWithoutCampaignInput | LeadUpdateManyWithWhereWithoutCampaignInput[]
+    deleteMany?: LeadScalarWhereInput | LeadScalarWhereInput[]
   }
 
-  export type LeadOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "email" | "phone" | "notes" | "maxMessages" | "messageCount" | "lastSentAt" | "nextScheduledFor" | "status" | "createdAt", ExtArgs["result"]["lead"]>
+  export type CampaignStepUncheckedUpdateManyWithoutCampaignNestedInput = {
+    create?: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput> | CampaignStepCreateWithoutCampaignInput[] | CampaignStepUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: CampaignStepCreateOrConnectWithoutCampaignInput | CampaignStepCreateOrConnectWithoutCampaignInput[]
+    upsert?: CampaignStepUpsertWithWhereUniqueWithoutCampaignInput | CampaignStepUpsertWithWhereUniqueWithoutCampaignInput[]
+    createMany?: CampaignStepCreateManyCampaignInputEnvelope
+    set?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    disconnect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    delete?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    connect?: CampaignStepWhereUniqueInput | CampaignStepWhereUniqueInput[]
+    update?: CampaignStepUpdateWithWhereUniqueWithoutCampaignInput | CampaignStepUpdateWithWhereUniqueWithoutCampaignInput[]
+    updateMany?: CampaignStepUpdateManyWithWhereWithoutCampaignInput | CampaignStepUpdateManyWithWhereWithoutCampaignInput[]
+    deleteMany?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+  }
 
-  export type $LeadPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Lead"
-    objects: {}
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      name: string
-      email: string
-      phone: string
-      notes: string | null
-      maxMessages: number
-      messageCount: number
-      lastSentAt: Date | null
-      nextScheduledFor: Date | null
-      status: $Enums.LeadStatus
-      createdAt: Date
-    }, ExtArgs["result"]["lead"]>
-    composites: {}
+  export type LeadUncheckedUpdateManyWithoutCampaignNestedInput = {
+    create?: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput> | LeadCreateWithoutCampaignInput[] | LeadUncheckedCreateWithoutCampaignInput[]
+    connectOrCreate?: LeadCreateOrConnectWithoutCampaignInput | LeadCreateOrConnectWithoutCampaignInput[]
+    upsert?: LeadUpsertWithWhereUniqueWithoutCampaignInput | LeadUpsertWithWhereUniqueWithoutCampaignInput[]
+    createMany?: LeadCreateManyCampaignInputEnvelope
+    set?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    disconnect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    delete?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    connect?: LeadWhereUniqueInput | LeadWhereUniqueInput[]
+    update?: LeadUpdateWithWhereUniqueWithoutCampaignInput | LeadUpdateWithWhereUniqueWithoutCampaignInput[]
+    updateMany?: LeadUpdateManyWithWhereWithoutCampaignInput | LeadUpdateManyWithWhereWithoutCampaignInput[]
+    deleteMany?: LeadScalarWhereInput | LeadScalarWhereInput[]
   }
 
-  type LeadGetPayload<S extends boolean | null | undefined | LeadDefaultArgs> = $Result.GetResult<Prisma.$LeadPayload, S>
+  export type CampaignCreateNestedOneWithoutStepsInput = {
+    create?: XOR<CampaignCreateWithoutStepsInput, CampaignUncheckedCreateWithoutStepsInput>
+    connectOrCreate?: CampaignCreateOrConnectWithoutStepsInput
+    connect?: CampaignWhereUniqueInput
+  }
 
-  type LeadCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<LeadFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: LeadCountAggregateInputType | true
-    }
+  export type MessageTemplateCreateNestedOneWithoutCampaignStepsInput = {
+    create?: XOR<MessageTemplateCreateWithoutCampaignStepsInput, MessageTemplateUncheckedCreateWithoutCampaignStepsInput>
+    connectOrCreate?: MessageTemplateCreateOrConnectWithoutCampaignStepsInput
+    connect?: MessageTemplateWhereUniqueInput
+  }
 
-  export interface LeadDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Lead'], meta: { name: 'Lead' } }
-    /**
-     * Find zero or one Lead that matches the filter.
-     * @param {LeadFindUniqueArgs} args - Arguments to find a Lead
-     * @example
-     * // Get one Lead
-     * const lead = await prisma.lead.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends LeadFindUniqueArgs>(args: SelectSubset<T, LeadFindUniqueArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  export type CampaignUpdateOneRequiredWithoutStepsNestedInput = {
+    create?: XOR<CampaignCreateWithoutStepsInput, CampaignUncheckedCreateWithoutStepsInput>
+    connectOrCreate?: CampaignCreateOrConnectWithoutStepsInput
+    upsert?: CampaignUpsertWithoutStepsInput
+    connect?: CampaignWhereUniqueInput
+    update?: XOR<XOR<CampaignUpdateToOneWithWhereWithoutStepsInput, CampaignUpdateWithoutStepsInput>, CampaignUncheckedUpdateWithoutStepsInput>
+  }
 
-    /**
-     * Find one Lead that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {LeadFindUniqueOrThrowArgs} args - Arguments to find a Lead
-     * @example
-     * // Get one Lead
-     * const lead = await prisma.lead.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends LeadFindUniqueOrThrowArgs>(args: SelectSubset<T, LeadFindUniqueOrThrowArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type MessageTemplateUpdateOneWithoutCampaignStepsNestedInput = {
+    create?: XOR<MessageTemplateCreateWithoutCampaignStepsInput, MessageTemplateUncheckedCreateWithoutCampaignStepsInput>
+    connectOrCreate?: MessageTemplateCreateOrConnectWithoutCampaignStepsInput
+    upsert?: MessageTemplateUpsertWithoutCampaignStepsInput
+    disconnect?: MessageTemplateWhereInput | boolean
+    delete?: MessageTemplateWhereInput | boolean
+    connect?: MessageTemplateWhereUniqueInput
+    update?: XOR<XOR<MessageTemplateUpdateToOneWithWhereWithoutCampaignStepsInput, MessageTemplateUpdateWithoutCampaignStepsInput>, MessageTemplateUncheckedUpdateWithoutCampaignStepsInput>
+  }
 
-    /**
-     * Find the first Lead that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadFindFirstArgs} args - Arguments to find a Lead
-     * @example
-     * // Get one Lead
-     * const lead = await prisma.lead.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends LeadFindFirstArgs>(args?: SelectSubset<T, LeadFindFirstArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  export type LeadCreateNestedOneWithoutScheduledMessagesInput = {
+    create?: XOR<LeadCreateWithoutScheduledMessagesInput, LeadUncheckedCreateWithoutScheduledMessagesInput>
+    connectOrCreate?: LeadCreateOrConnectWithoutScheduledMessagesInput
+    connect?: LeadWhereUniqueInput
+  }
 
-    /**
-     * Find the first Lead that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadFindFirstOrThrowArgs} args - Arguments to find a Lead
-     * @example
-     * // Get one Lead
-     * const lead = await prisma.lead.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends LeadFindFirstOrThrowArgs>(args?: SelectSubset<T, LeadFindFirstOrThrowArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type EnumScheduledMessageStatusFieldUpdateOperationsInput = {
+    set?: $Enums.ScheduledMessageStatus
+  }
 
-    /**
-     * Find zero or more Leads that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Leads
-     * const leads = await prisma.lead.findMany()
-     * 
-     * // Get first 10 Leads
-     * const leads = await prisma.lead.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const leadWithIdOnly = await prisma.lead.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends LeadFindManyArgs>(args?: SelectSubset<T, LeadFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+  export type LeadUpdateOneWithoutScheduledMessagesNestedInput = {
+    create?: XOR<LeadCreateWithoutScheduledMessagesInput, LeadUncheckedCreateWithoutScheduledMessagesInput>
+    connectOrCreate?: LeadCreateOrConnectWithoutScheduledMessagesInput
+    upsert?: LeadUpsertWithoutScheduledMessagesInput
+    disconnect?: LeadWhereInput | boolean
+    delete?: LeadWhereInput | boolean
+    connect?: LeadWhereUniqueInput
+    update?: XOR<XOR<LeadUpdateToOneWithWhereWithoutScheduledMessagesInput, LeadUpdateWithoutScheduledMessagesInput>, LeadUncheckedUpdateWithoutScheduledMessagesInput>
+  }
 
-    /**
-     * Create a Lead.
-     * @param {LeadCreateArgs} args - Arguments to create a Lead.
-     * @example
-     * // Create one Lead
-     * const Lead = await prisma.lead.create({
-     *   data: {
-     *     // ... data to create a Lead
-     *   }
-     * })
-     * 
-     */
-    create<T extends LeadCreateArgs>(args: SelectSubset<T, LeadCreateArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type LeadCreateNestedOneWithoutOutboxEventsInput = {
+    create?: XOR<LeadCreateWithoutOutboxEventsInput, LeadUncheckedCreateWithoutOutboxEventsInput>
+    connectOrCreate?: LeadCreateOrConnectWithoutOutboxEventsInput
+    connect?: LeadWhereUniqueInput
+  }
 
-    /**
-     * Create many Leads.
-     * @param {LeadCreateManyArgs} args - Arguments to create many Leads.
-     * @example
-     * // Create many Leads
-     * const lead = await prisma.lead.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends LeadCreateManyArgs>(args?: SelectSubset<T, LeadCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+  export type EnumOutboxEventTypeFieldUpdateOperationsInput = {
+    set?: $Enums.OutboxEventType
+  }
 
-    /**
-     * Create many Leads and returns the data saved in the database.
-     * @param {LeadCreateManyAndReturnArgs} args - Arguments to create many Leads.
-     * @example
-     * // Create many Leads
-     * const lead = await prisma.lead.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Leads and only return the `id`
-     * const leadWithIdOnly = await prisma.lead.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends LeadCreateManyAndReturnArgs>(args?: SelectSubset<T, LeadCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+  export type EnumOutboxEventStatusFieldUpdateOperationsInput = {
+    set?: $Enums.OutboxEventStatus
+  }
 
-    /**
-     * Delete a Lead.
-     * @param {LeadDeleteArgs} args - Arguments to delete one Lead.
-     * @example
-     * // Delete one Lead
-     * const Lead = await prisma.lead.delete({
-     *   where: {
-     *     // ... filter to delete one Lead
-     *   }
-     * })
-     * 
-     */
-    delete<T extends LeadDeleteArgs>(args: SelectSubset<T, LeadDeleteArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type LeadUpdateOneRequiredWithoutOutboxEventsNestedInput = {
+    create?: XOR<LeadCreateWithoutOutboxEventsInput, LeadUncheckedCreateWithoutOutboxEventsInput>
+    connectOrCreate?: LeadCreateOrConnectWithoutOutboxEventsInput
+    upsert?: LeadUpsertWithoutOutboxEventsInput
+    connect?: LeadWhereUniqueInput
+    update?: XOR<XOR<LeadUpdateToOneWithWhereWithoutOutboxEventsInput, LeadUpdateWithoutOutboxEventsInput>, LeadUncheckedUpdateWithoutOutboxEventsInput>
+  }
 
-    /**
-     * Update one Lead.
-     * @param {LeadUpdateArgs} args - Arguments to update one Lead.
-     * @example
-     * // Update one Lead
-     * const lead = await prisma.lead.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends LeadUpdateArgs>(args: SelectSubset<T, LeadUpdateArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type ApiKeyCreatescopesInput = {
+    set: string[]
+  }
 
-    /**
-     * Delete zero or more Leads.
-     * @param {LeadDeleteManyArgs} args - Arguments to filter Leads to delete.
-     * @example
-     * // Delete a few Leads
-     * const { count } = await prisma.lead.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends LeadDeleteManyArgs>(args?: SelectSubset<T, LeadDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+  export type ApiKeyUpdatescopesInput = {
+    set?: string[]
+    push?: string | string[]
+  }
 
-    /**
-     * Update zero or more Leads.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Leads
-     * const lead = await prisma.lead.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends LeadUpdateManyArgs>(args: SelectSubset<T, LeadUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+  export type EnumSuppressionTypeFieldUpdateOperationsInput = {
+    set?: $Enums.SuppressionType
+  }
 
-    /**
-     * Update zero or more Leads and returns the data updated in the database.
-     * @param {LeadUpdateManyAndReturnArgs} args - Arguments to update many Leads.
-     * @example
-     * // Update many Leads
-     * const lead = await prisma.lead.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Leads and only return the `id`
-     * const leadWithIdOnly = await prisma.lead.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends LeadUpdateManyAndReturnArgs>(args: SelectSubset<T, LeadUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+  export type NestedStringFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringFilter<$PrismaModel> | string
+  }
 
-    /**
-     * Create or update one Lead.
-     * @param {LeadUpsertArgs} args - Arguments to update or create a Lead.
-     * @example
-     * // Update or create a Lead
-     * const lead = await prisma.lead.upsert({
-     *   create: {
-     *     // ... data to create a Lead
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Lead we want to update
-     *   }
-     * })
-     */
-    upsert<T extends LeadUpsertArgs>(args: SelectSubset<T, LeadUpsertArgs<ExtArgs>>): Prisma__LeadClient<$Result.GetResult<Prisma.$LeadPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+  export type NestedStringNullableFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  }
 
+  export type NestedIntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
 
-    /**
-     * Count the number of Leads.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadCountArgs} args - Arguments to filter Leads to count.
-     * @example
-     * // Count the number of Leads
-     * const count = await prisma.lead.count({
-     *   where: {
-     *     // ... the filter for the Leads we want to count
-     *   }
-     * })
-    **/
-    count<T extends LeadCountArgs>(
-      args?: Subset<T, LeadCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], LeadCountAggregateOutputType>
-        : number
-    >
+  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  }
 
-    /**
-     * Allows you to perform aggregations operations on a Lead.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends LeadAggregateArgs>(args: Subset<T, LeadAggregateArgs>): Prisma.PrismaPromise<GetLeadAggregateType<T>>
+  export type NestedEnumLeadStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumLeadStatusFilter<$PrismaModel> | $Enums.LeadStatus
+  }
 
-    /**
-     * Group by Lead.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {LeadGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends LeadGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: LeadGroupByArgs['orderBy'] }
-        : { orderBy?: LeadGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, LeadGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLeadGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Lead model
-   */
-  readonly fields: LeadFieldRefs;
+  export type NestedEnumDeliveryStatusNullableFilter<$PrismaModel = never> = {
+    equals?: $Enums.DeliveryStatus | EnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    in?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    notIn?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    not?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel> | $Enums.DeliveryStatus | null
   }
 
-  /**
-   * The delegate class that acts as a "Promise-like" for Lead.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__LeadClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  export type NestedDateTimeFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  }
+
+  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[] | ListStringFieldRefInput<$PrismaModel>
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
   }
 
+  export type NestedIntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
 
+  export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[] | ListIntFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
 
-
-  /**
-   * Fields of the Lead model
-   */
-  interface LeadFieldRefs {
-    readonly id: FieldRef<"Lead", 'String'>
-    readonly name: FieldRef<"Lead", 'String'>
-    readonly email: FieldRef<"Lead", 'String'>
-    readonly phone: FieldRef<"Lead", 'String'>
-    readonly notes: FieldRef<"Lead", 'String'>
-    readonly maxMessages: FieldRef<"Lead", 'Int'>
-    readonly messageCount: FieldRef<"Lead", 'Int'>
-    readonly lastSentAt: FieldRef<"Lead", 'DateTime'>
-    readonly nextScheduledFor: FieldRef<"Lead", 'DateTime'>
-    readonly status: FieldRef<"Lead", 'LeadStatus'>
-    readonly createdAt: FieldRef<"Lead", 'DateTime'>
+  export type NestedFloatFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel>
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel>
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatFilter<$PrismaModel> | number
   }
-    
 
-  // Custom InputTypes
-  /**
-   * Lead findUnique
-   */
-  export type LeadFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter, which Lead to fetch.
-     */
-    where: LeadWhereUniqueInput
+  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
   }
 
-  /**
-   * Lead findUniqueOrThrow
-   */
-  export type LeadFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter, which Lead to fetch.
-     */
-    where: LeadWhereUniqueInput
+  export type NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel> | $Enums.LeadStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumLeadStatusFilter<$PrismaModel>
+    _max?: NestedEnumLeadStatusFilter<$PrismaModel>
   }
 
-  /**
-   * Lead findFirst
-   */
-  export type LeadFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter, which Lead to fetch.
-     */
-    where?: LeadWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Leads to fetch.
-     */
-    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Leads.
-     */
-    cursor?: LeadWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Leads from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Leads.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Leads.
-     */
-    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  export type NestedEnumDeliveryStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.DeliveryStatus | EnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    in?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    notIn?: $Enums.DeliveryStatus[] | ListEnumDeliveryStatusFieldRefInput<$PrismaModel> | null
+    not?: NestedEnumDeliveryStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.DeliveryStatus | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel>
+    _max?: NestedEnumDeliveryStatusNullableFilter<$PrismaModel>
   }
 
-  /**
-   * Lead findFirstOrThrow
-   */
-  export type LeadFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter, which Lead to fetch.
-     */
-    where?: LeadWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Leads to fetch.
-     */
-    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Leads.
-     */
-    cursor?: LeadWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Leads from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Leads.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Leads.
-     */
-    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
   }
 
-  /**
-   * Lead findMany
-   */
-  export type LeadFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter, which Leads to fetch.
-     */
-    where?: LeadWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Leads to fetch.
-     */
-    orderBy?: LeadOrderByWithRelationInput | LeadOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Leads.
-     */
-    cursor?: LeadWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Leads from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Leads.
-     */
-    skip?: number
-    distinct?: LeadScalarFieldEnum | LeadScalarFieldEnum[]
+  export type NestedEnumChannelFilter<$PrismaModel = never> = {
+    equals?: $Enums.Channel | EnumChannelFieldRefInput<$PrismaModel>
+    in?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    notIn?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    not?: NestedEnumChannelFilter<$PrismaModel> | $Enums.Channel
+  }
+
+  export type NestedEnumChannelWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.Channel | EnumChannelFieldRefInput<$PrismaModel>
+    in?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    notIn?: $Enums.Channel[] | ListEnumChannelFieldRefInput<$PrismaModel>
+    not?: NestedEnumChannelWithAggregatesFilter<$PrismaModel> | $Enums.Channel
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumChannelFilter<$PrismaModel>
+    _max?: NestedEnumChannelFilter<$PrismaModel>
   }
 
-  /**
-   * Lead create
-   */
-  export type LeadCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * The data needed to create a Lead.
-     */
-    data: XOR<LeadCreateInput, LeadUncheckedCreateInput>
+  export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
   }
 
-  /**
-   * Lead createMany
-   */
-  export type LeadCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Leads.
-     */
-    data: LeadCreateManyInput | LeadCreateManyInput[]
-    skipDuplicates?: boolean
+  export type NestedFloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
   }
 
-  /**
-   * Lead createManyAndReturn
-   */
-  export type LeadCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * The data used to create many Leads.
-     */
-    data: LeadCreateManyInput | LeadCreateManyInput[]
-    skipDuplicates?: boolean
+  export type NestedEnumScheduledMessageStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.ScheduledMessageStatus | EnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumScheduledMessageStatusFilter<$PrismaModel> | $Enums.ScheduledMessageStatus
   }
 
-  /**
-   * Lead update
-   */
-  export type LeadUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * The data needed to update a Lead.
-     */
-    data: XOR<LeadUpdateInput, LeadUncheckedUpdateInput>
-    /**
-     * Choose, which Lead to update.
-     */
-    where: LeadWhereUniqueInput
+  export type NestedEnumScheduledMessageStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.ScheduledMessageStatus | EnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.ScheduledMessageStatus[] | ListEnumScheduledMessageStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumScheduledMessageStatusWithAggregatesFilter<$PrismaModel> | $Enums.ScheduledMessageStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumScheduledMessageStatusFilter<$PrismaModel>
+    _max?: NestedEnumScheduledMessageStatusFilter<$PrismaModel>
   }
 
-  /**
-   * Lead updateMany
-   */
-  export type LeadUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Leads.
-     */
-    data: XOR<LeadUpdateManyMutationInput, LeadUncheckedUpdateManyInput>
-    /**
-     * Filter which Leads to update
-     */
-    where?: LeadWhereInput
-    /**
-     * Limit how many Leads to update.
-     */
-    limit?: number
+  export type NestedEnumOutboxEventTypeFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventType | EnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventTypeFilter<$PrismaModel> | $Enums.OutboxEventType
   }
 
-  /**
-   * Lead updateManyAndReturn
-   */
-  export type LeadUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * The data used to update Leads.
-     */
-    data: XOR<LeadUpdateManyMutationInput, LeadUncheckedUpdateManyInput>
-    /**
-     * Filter which Leads to update
-     */
-    where?: LeadWhereInput
-    /**
-     * Limit how many Leads to update.
-     */
-    limit?: number
+  export type NestedEnumOutboxEventStatusFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventStatus | EnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventStatusFilter<$PrismaModel> | $Enums.OutboxEventStatus
   }
 
-  /**
-   * Lead upsert
-   */
-  export type LeadUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * The filter to search for the Lead to update in case it exists.
-     */
-    where: LeadWhereUniqueInput
-    /**
-     * In case the Lead found by the `where` argument doesn't exist, create a new Lead with this data.
-     */
-    create: XOR<LeadCreateInput, LeadUncheckedCreateInput>
-    /**
-     * In case the Lead was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<LeadUpdateInput, LeadUncheckedUpdateInput>
+  export type NestedEnumOutboxEventTypeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventType | EnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventType[] | ListEnumOutboxEventTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventTypeWithAggregatesFilter<$PrismaModel> | $Enums.OutboxEventType
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumOutboxEventTypeFilter<$PrismaModel>
+    _max?: NestedEnumOutboxEventTypeFilter<$PrismaModel>
   }
 
-  /**
-   * Lead delete
-   */
-  export type LeadDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
-    /**
-     * Filter which Lead to delete.
-     */
-    where: LeadWhereUniqueInput
+  export type NestedEnumOutboxEventStatusWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.OutboxEventStatus | EnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    in?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    notIn?: $Enums.OutboxEventStatus[] | ListEnumOutboxEventStatusFieldRefInput<$PrismaModel>
+    not?: NestedEnumOutboxEventStatusWithAggregatesFilter<$PrismaModel> | $Enums.OutboxEventStatus
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumOutboxEventStatusFilter<$PrismaModel>
+    _max?: NestedEnumOutboxEventStatusFilter<$PrismaModel>
+  }
+  export type NestedJsonNullableFilter<$PrismaModel = never> =
+    | PatchUndefined<
+        Either<Required<NestedJsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+        Required<NestedJsonNullableFilterBase<$PrismaModel>>
+      >
+    | OptionalFlat<Omit<Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+  export type NestedJsonNullableFilterBase<$PrismaModel = never> = {
+    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
+    path?: string[]
+    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
+    string_contains?: string | StringFieldRefInput<$PrismaModel>
+    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
+    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
+    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
+    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
+    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
   }
 
-  /**
-   * Lead deleteMany
-   */
-  export type LeadDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Leads to delete
-     */
-    where?: LeadWhereInput
-    /**
-     * Limit how many Leads to delete.
-     */
-    limit?: number
+  export type NestedEnumSuppressionTypeFilter<$PrismaModel = never> = {
+    equals?: $Enums.SuppressionType | EnumSuppressionTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumSuppressionTypeFilter<$PrismaModel> | $Enums.SuppressionType
   }
 
-  /**
-   * Lead without action
-   */
-  export type LeadDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Lead
-     */
-    select?: LeadSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Lead
-     */
-    omit?: LeadOmit<ExtArgs> | null
+  export type NestedEnumSuppressionTypeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: $Enums.SuppressionType | EnumSuppressionTypeFieldRefInput<$PrismaModel>
+    in?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    notIn?: $Enums.SuppressionType[] | ListEnumSuppressionTypeFieldRefInput<$PrismaModel>
+    not?: NestedEnumSuppressionTypeWithAggregatesFilter<$PrismaModel> | $Enums.SuppressionType
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedEnumSuppressionTypeFilter<$PrismaModel>
+    _max?: NestedEnumSuppressionTypeFilter<$PrismaModel>
   }
 
+  export type CampaignCreateWithoutLeadsInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    steps?: CampaignStepCreateNestedManyWithoutCampaignInput
+  }
 
-  /**
-   * Enums
-   */
+  export type CampaignUncheckedCreateWithoutLeadsInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    steps?: CampaignStepUncheckedCreateNestedManyWithoutCampaignInput
+  }
 
-  export const TransactionIsolationLevel: {
-    ReadUncommitted: 'ReadUncommitted',
-    ReadCommitted: 'ReadCommitted',
-    RepeatableRead: 'RepeatableRead',
-    Serializable: 'Serializable'
-  };
+  export type CampaignCreateOrConnectWithoutLeadsInput = {
+    where: CampaignWhereUniqueInput
+    create: XOR<CampaignCreateWithoutLeadsInput, CampaignUncheckedCreateWithoutLeadsInput>
+  }
 
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+  export type ScheduledMessageCreateWithoutLeadInput = {
+    id?: string
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
+  }
 
+  export type ScheduledMessageUncheckedCreateWithoutLeadInput = {
+    id?: string
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
+  }
 
-  export const LeadScalarFieldEnum: {
-    id: 'id',
-    name: 'name',
-    email: 'email',
-    phone: 'phone',
-    notes: 'notes',
-    maxMessages: 'maxMessages',
-    messageCount: 'messageCount',
-    lastSentAt: 'lastSentAt',
-    nextScheduledFor: 'nextScheduledFor',
-    status: 'status',
-    createdAt: 'createdAt'
-  };
+  export type ScheduledMessageCreateOrConnectWithoutLeadInput = {
+    where: ScheduledMessageWhereUniqueInput
+    create: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput>
+  }
 
-  export type LeadScalarFieldEnum = (typeof LeadScalarFieldEnum)[keyof typeof LeadScalarFieldEnum]
+  export type ScheduledMessageCreateManyLeadInputEnvelope = {
+    data: ScheduledMessageCreateManyLeadInput | ScheduledMessageCreateManyLeadInput[]
+    skipDuplicates?: boolean
+  }
 
+  export type OutboxEventCreateWithoutLeadInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
+  }
 
-  export const SortOrder: {
-    asc: 'asc',
-    desc: 'desc'
-  };
+  export type OutboxEventUncheckedCreateWithoutLeadInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
+  }
+
+  export type OutboxEventCreateOrConnectWithoutLeadInput = {
+    where: OutboxEventWhereUniqueInput
+    create: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput>
+  }
+
+  export type OutboxEventCreateManyLeadInputEnvelope = {
+    data: OutboxEventCreateManyLeadInput | OutboxEventCreateManyLeadInput[]
+    skipDuplicates?: boolean
+  }
+
+  export type CampaignUpsertWithoutLeadsInput = {
+    update: XOR<CampaignUpdateWithoutLeadsInput, CampaignUncheckedUpdateWithoutLeadsInput>
+    create: XOR<CampaignCreateWithoutLeadsInput, CampaignUncheckedCreateWithoutLeadsInput>
+    where?: CampaignWhereInput
+  }
+
+  export type CampaignUpdateToOneWithWhereWithoutLeadsInput = {
+    where?: CampaignWhereInput
+    data: XOR<CampaignUpdateWithoutLeadsInput, CampaignUncheckedUpdateWithoutLeadsInput>
+  }
+
+  export type CampaignUpdateWithoutLeadsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    steps?: CampaignStepUpdateManyWithoutCampaignNestedInput
+  }
+
+  export type CampaignUncheckedUpdateWithoutLeadsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    steps?: CampaignStepUncheckedUpdateManyWithoutCampaignNestedInput
+  }
 
-  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+  export type ScheduledMessageUpsertWithWhereUniqueWithoutLeadInput = {
+    where: ScheduledMessageWhereUniqueInput
+    update: XOR<ScheduledMessageUpdateWithoutLeadInput, ScheduledMessageUncheckedUpdateWithoutLeadInput>
+    create: XOR<ScheduledMessageCreateWithoutLeadInput, ScheduledMessageUncheckedCreateWithoutLeadInput>
+  }
 
+  export type ScheduledMessageUpdateWithWhereUniqueWithoutLeadInput = {
+    where: ScheduledMessageWhereUniqueInput
+    data: XOR<ScheduledMessageUpdateWithoutLeadInput, ScheduledMessageUncheckedUpdateWithoutLeadInput>
+  }
 
-  export const QueryMode: {
-    default: 'default',
-    insensitive: 'insensitive'
-  };
+  export type ScheduledMessageUpdateManyWithWhereWithoutLeadInput = {
+    where: ScheduledMessageScalarWhereInput
+    data: XOR<ScheduledMessageUpdateManyMutationInput, ScheduledMessageUncheckedUpdateManyWithoutLeadInput>
+  }
 
-  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
+  export type ScheduledMessageScalarWhereInput = {
+    AND?: ScheduledMessageScalarWhereInput | ScheduledMessageScalarWhereInput[]
+    OR?: ScheduledMessageScalarWhereInput[]
+    NOT?: ScheduledMessageScalarWhereInput | ScheduledMessageScalarWhereInput[]
+    id?: StringFilter<"ScheduledMessage"> | string
+    leadId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    messageNumber?: IntFilter<"ScheduledMessage"> | number
+    queueName?: StringFilter<"ScheduledMessage"> | string
+    msgId?: StringFilter<"ScheduledMessage"> | string
+    scheduledFor?: DateTimeFilter<"ScheduledMessage"> | Date | string
+    status?: EnumScheduledMessageStatusFilter<"ScheduledMessage"> | $Enums.ScheduledMessageStatus
+    sentAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    sendStartedAt?: DateTimeNullableFilter<"ScheduledMessage"> | Date | string | null
+    providerMessageId?: StringNullableFilter<"ScheduledMessage"> | string | null
+    createdAt?: DateTimeFilter<"ScheduledMessage"> | Date | string
+  }
 
+  export type OutboxEventUpsertWithWhereUniqueWithoutLeadInput = {
+    where: OutboxEventWhereUniqueInput
+    update: XOR<OutboxEventUpdateWithoutLeadInput, OutboxEventUncheckedUpdateWithoutLeadInput>
+    create: XOR<OutboxEventCreateWithoutLeadInput, OutboxEventUncheckedCreateWithoutLeadInput>
+  }
 
-  export const NullsOrder: {
-    first: 'first',
-    last: 'last'
-  };
+  export type OutboxEventUpdateWithWhereUniqueWithoutLeadInput = {
+    where: OutboxEventWhereUniqueInput
+    data: XOR<OutboxEventUpdateWithoutLeadInput, OutboxEventUncheckedUpdateWithoutLeadInput>
+  }
 
-  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+  export type OutboxEventUpdateManyWithWhereWithoutLeadInput = {
+    where: OutboxEventScalarWhereInput
+    data: XOR<OutboxEventUpdateManyMutationInput, OutboxEventUncheckedUpdateManyWithoutLeadInput>
+  }
 
+  export type OutboxEventScalarWhereInput = {
+    AND?: OutboxEventScalarWhereInput | OutboxEventScalarWhereInput[]
+    OR?: OutboxEventScalarWhereInput[]
+    NOT?: OutboxEventScalarWhereInput | OutboxEventScalarWhereInput[]
+    id?: StringFilter<"OutboxEvent"> | string
+    type?: EnumOutboxEventTypeFilter<"OutboxEvent"> | $Enums.OutboxEventType
+    leadId?: StringFilter<"OutboxEvent"> | string
+    status?: EnumOutboxEventStatusFilter<"OutboxEvent"> | $Enums.OutboxEventStatus
+    attempts?: IntFilter<"OutboxEvent"> | number
+    lastError?: StringNullableFilter<"OutboxEvent"> | string | null
+    availableAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+    processedAt?: DateTimeNullableFilter<"OutboxEvent"> | Date | string | null
+    createdAt?: DateTimeFilter<"OutboxEvent"> | Date | string
+  }
 
-  /**
-   * Field references
-   */
+  export type CampaignStepCreateWithoutTemplateInput = {
+    id?: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    campaign: CampaignCreateNestedOneWithoutStepsInput
+  }
 
+  export type CampaignStepUncheckedCreateWithoutTemplateInput = {
+    id?: string
+    campaignId: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+  }
 
-  /**
-   * Reference to a field of type 'String'
-   */
-  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
-    
+  export type CampaignStepCreateOrConnectWithoutTemplateInput = {
+    where: CampaignStepWhereUniqueInput
+    create: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput>
+  }
 
+  export type CampaignStepCreateManyTemplateInputEnvelope = {
+    data: CampaignStepCreateManyTemplateInput | CampaignStepCreateManyTemplateInput[]
+    skipDuplicates?: boolean
+  }
 
-  /**
-   * Reference to a field of type 'String[]'
-   */
-  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>
-    
+  export type CampaignStepUpsertWithWhereUniqueWithoutTemplateInput = {
+    where: CampaignStepWhereUniqueInput
+    update: XOR<CampaignStepUpdateWithoutTemplateInput, CampaignStepUncheckedUpdateWithoutTemplateInput>
+    create: XOR<CampaignStepCreateWithoutTemplateInput, CampaignStepUncheckedCreateWithoutTemplateInput>
+  }
 
+  export type CampaignStepUpdateWithWhereUniqueWithoutTemplateInput = {
+    where: CampaignStepWhereUniqueInput
+    data: XOR<CampaignStepUpdateWithoutTemplateInput, CampaignStepUncheckedUpdateWithoutTemplateInput>
+  }
 
-  /**
-   * Reference to a field of type 'Int'
-   */
-  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
-    
+  export type CampaignStepUpdateManyWithWhereWithoutTemplateInput = {
+    where: CampaignStepScalarWhereInput
+    data: XOR<CampaignStepUpdateManyMutationInput, CampaignStepUncheckedUpdateManyWithoutTemplateInput>
+  }
 
+  export type CampaignStepScalarWhereInput = {
+    AND?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+    OR?: CampaignStepScalarWhereInput[]
+    NOT?: CampaignStepScalarWhereInput | CampaignStepScalarWhereInput[]
+    id?: StringFilter<"CampaignStep"> | string
+    campaignId?: StringFilter<"CampaignStep"> | string
+    stepNumber?: IntFilter<"CampaignStep"> | number
+    delayDays?: IntFilter<"CampaignStep"> | number
+    channel?: EnumChannelFilter<"CampaignStep"> | $Enums.Channel
+    templateId?: StringNullableFilter<"CampaignStep"> | string | null
+  }
 
-  /**
-   * Reference to a field of type 'Int[]'
-   */
-  export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
-    
+  export type CampaignStepCreateWithoutCampaignInput = {
+    id?: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    template?: MessageTemplateCreateNestedOneWithoutCampaignStepsInput
+  }
 
+  export type CampaignStepUncheckedCreateWithoutCampaignInput = {
+    id?: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    templateId?: string | null
+  }
 
-  /**
-   * Reference to a field of type 'DateTime'
-   */
-  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
-    
+  export type CampaignStepCreateOrConnectWithoutCampaignInput = {
+    where: CampaignStepWhereUniqueInput
+    create: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput>
+  }
 
+  export type CampaignStepCreateManyCampaignInputEnvelope = {
+    data: CampaignStepCreateManyCampaignInput | CampaignStepCreateManyCampaignInput[]
+    skipDuplicates?: boolean
+  }
 
-  /**
-   * Reference to a field of type 'DateTime[]'
-   */
-  export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
-    
+  export type LeadCreateWithoutCampaignInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
+    scheduledMessages?: ScheduledMessageCreateNestedManyWithoutLeadInput
+    outboxEvents?: OutboxEventCreateNestedManyWithoutLeadInput
+  }
 
+  export type LeadUncheckedCreateWithoutCampaignInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
+    scheduledMessages?: ScheduledMessageUncheckedCreateNestedManyWithoutLeadInput
+    outboxEvents?: OutboxEventUncheckedCreateNestedManyWithoutLeadInput
+  }
 
-  /**
-   * Reference to a field of type 'LeadStatus'
-   */
-  export type EnumLeadStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LeadStatus'>
-    
+  export type LeadCreateOrConnectWithoutCampaignInput = {
+    where: LeadWhereUniqueInput
+    create: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput>
+  }
 
+  export type LeadCreateManyCampaignInputEnvelope = {
+    data: LeadCreateManyCampaignInput | LeadCreateManyCampaignInput[]
+    skipDuplicates?: boolean
+  }
 
-  /**
-   * Reference to a field of type 'LeadStatus[]'
-   */
-  export type ListEnumLeadStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LeadStatus[]'>
-    
+  export type CampaignStepUpsertWithWhereUniqueWithoutCampaignInput = {
+    where: CampaignStepWhereUniqueInput
+    update: XOR<CampaignStepUpdateWithoutCampaignInput, CampaignStepUncheckedUpdateWithoutCampaignInput>
+    create: XOR<CampaignStepCreateWithoutCampaignInput, CampaignStepUncheckedCreateWithoutCampaignInput>
+  }
 
+  export type CampaignStepUpdateWithWhereUniqueWithoutCampaignInput = {
+    where: CampaignStepWhereUniqueInput
+    data: XOR<CampaignStepUpdateWithoutCampaignInput, CampaignStepUncheckedUpdateWithoutCampaignInput>
+  }
 
-  /**
-   * Reference to a field of type 'Float'
-   */
-  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
-    
+  export type CampaignStepUpdateManyWithWhereWithoutCampaignInput = {
+    where: CampaignStepScalarWhereInput
+    data: XOR<CampaignStepUpdateManyMutationInput, CampaignStepUncheckedUpdateManyWithoutCampaignInput>
+  }
 
+  export type LeadUpsertWithWhereUniqueWithoutCampaignInput = {
+    where: LeadWhereUniqueInput
+    update: XOR<LeadUpdateWithoutCampaignInput, LeadUncheckedUpdateWithoutCampaignInput>
+    create: XOR<LeadCreateWithoutCampaignInput, LeadUncheckedCreateWithoutCampaignInput>
+  }
 
-  /**
-   * Reference to a field of type 'Float[]'
-   */
-  export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
-    
-  /**
-   * Deep Input Types
-   */
+  export type LeadUpdateWithWhereUniqueWithoutCampaignInput = {
+    where: LeadWhereUniqueInput
+    data: XOR<LeadUpdateWithoutCampaignInput, LeadUncheckedUpdateWithoutCampaignInput>
+  }
 
+  export type LeadUpdateManyWithWhereWithoutCampaignInput = {
+    where: LeadScalarWhereInput
+    data: XOR<LeadUpdateManyMutationInput, LeadUncheckedUpdateManyWithoutCampaignInput>
+  }
 
-  export type LeadWhereInput = {
-    AND?: LeadWhereInput | LeadWhereInput[]
-    OR?: LeadWhereInput[]
-    NOT?: LeadWhereInput | LeadWhereInput[]
+  export type LeadScalarWhereInput = {
+    AND?: LeadScalarWhereInput | LeadScalarWhereInput[]
+    OR?: LeadScalarWhereInput[]
+    NOT?: LeadScalarWhereInput | LeadScalarWhereInput[]
     id?: StringFilter<"Lead"> | string
     name?: StringFilter<"Lead"> | string
     email?: StringFilter<"Lead"> | string
@@ -2136,133 +19326,163 @@ export namespace Prisma {
     lastSentAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
     nextScheduledFor?: DateTimeNullableFilter<"Lead"> | Date | string | null
     status?: EnumLeadStatusFilter<"Lead"> | $Enums.LeadStatus
+    lastProviderMessageId?: StringNullableFilter<"Lead"> | string | null
+    lastDeliveryStatus?: EnumDeliveryStatusNullableFilter<"Lead"> | $Enums.DeliveryStatus | null
+    lastDeliveryError?: StringNullableFilter<"Lead"> | string | null
+    failureReason?: StringNullableFilter<"Lead"> | string | null
+    unsubscribedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    pausedAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    cancelledAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
+    timezone?: StringNullableFilter<"Lead"> | string | null
+    campaignId?: StringNullableFilter<"Lead"> | string | null
     createdAt?: DateTimeFilter<"Lead"> | Date | string
   }
 
-  export type LeadOrderByWithRelationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    phone?: SortOrder
-    notes?: SortOrderInput | SortOrder
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-    lastSentAt?: SortOrderInput | SortOrder
-    nextScheduledFor?: SortOrderInput | SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
+  export type CampaignCreateWithoutStepsInput = {
+    id?: string
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    leads?: LeadCreateNestedManyWithoutCampaignInput
   }
 
-  export type LeadWhereUniqueInput = Prisma.AtLeast<{
+  export type CampaignUncheckedCreateWithoutStepsInput = {
     id?: string
-    email?: string
-    phone?: string
-    AND?: LeadWhereInput | LeadWhereInput[]
-    OR?: LeadWhereInput[]
-    NOT?: LeadWhereInput | LeadWhereInput[]
-    name?: StringFilter<"Lead"> | string
-    notes?: StringNullableFilter<"Lead"> | string | null
-    maxMessages?: IntFilter<"Lead"> | number
-    messageCount?: IntFilter<"Lead"> | number
-    lastSentAt?: DateTimeNullableFilter<"Lead"> | Date | string | null
-    nextScheduledFor?: DateTimeNullableFilter<"Lead"> | Date | string | null
-    status?: EnumLeadStatusFilter<"Lead"> | $Enums.LeadStatus
-    createdAt?: DateTimeFilter<"Lead"> | Date | string
-  }, "id" | "email" | "phone">
-
-  export type LeadOrderByWithAggregationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    phone?: SortOrder
-    notes?: SortOrderInput | SortOrder
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-    lastSentAt?: SortOrderInput | SortOrder
-    nextScheduledFor?: SortOrderInput | SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-    _count?: LeadCountOrderByAggregateInput
-    _avg?: LeadAvgOrderByAggregateInput
-    _max?: LeadMaxOrderByAggregateInput
-    _min?: LeadMinOrderByAggregateInput
-    _sum?: LeadSumOrderByAggregateInput
+    name: string
+    dailyCap?: number | null
+    sendWindowStart?: string | null
+    sendWindowEnd?: string | null
+    sendDays?: CampaignCreatesendDaysInput | number[]
+    createdAt?: Date | string
+    leads?: LeadUncheckedCreateNestedManyWithoutCampaignInput
   }
 
-  export type LeadScalarWhereWithAggregatesInput = {
-    AND?: LeadScalarWhereWithAggregatesInput | LeadScalarWhereWithAggregatesInput[]
-    OR?: LeadScalarWhereWithAggregatesInput[]
-    NOT?: LeadScalarWhereWithAggregatesInput | LeadScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Lead"> | string
-    name?: StringWithAggregatesFilter<"Lead"> | string
-    email?: StringWithAggregatesFilter<"Lead"> | string
-    phone?: StringWithAggregatesFilter<"Lead"> | string
-    notes?: StringNullableWithAggregatesFilter<"Lead"> | string | null
-    maxMessages?: IntWithAggregatesFilter<"Lead"> | number
-    messageCount?: IntWithAggregatesFilter<"Lead"> | number
-    lastSentAt?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
-    nextScheduledFor?: DateTimeNullableWithAggregatesFilter<"Lead"> | Date | string | null
-    status?: EnumLeadStatusWithAggregatesFilter<"Lead"> | $Enums.LeadStatus
-    createdAt?: DateTimeWithAggregatesFilter<"Lead"> | Date | string
+  export type CampaignCreateOrConnectWithoutStepsInput = {
+    where: CampaignWhereUniqueInput
+    create: XOR<CampaignCreateWithoutStepsInput, CampaignUncheckedCreateWithoutStepsInput>
   }
 
-  export type LeadCreateInput = {
+  export type MessageTemplateCreateWithoutCampaignStepsInput = {
     id?: string
     name: string
-    email: string
-    phone: string
-    notes?: string | null
-    maxMessages?: number
-    messageCount?: number
-    lastSentAt?: Date | string | null
-    nextScheduledFor?: Date | string | null
-    status?: $Enums.LeadStatus
+    stepNumber: number
+    channel?: $Enums.Channel
+    subject?: string | null
+    body: string
     createdAt?: Date | string
+    updatedAt?: Date | string
   }
 
-  export type LeadUncheckedCreateInput = {
+  export type MessageTemplateUncheckedCreateWithoutCampaignStepsInput = {
     id?: string
     name: string
-    email: string
-    phone: string
-    notes?: string | null
-    maxMessages?: number
-    messageCount?: number
-    lastSentAt?: Date | string | null
-    nextScheduledFor?: Date | string | null
-    status?: $Enums.LeadStatus
+    stepNumber: number
+    channel?: $Enums.Channel
+    subject?: string | null
+    body: string
     createdAt?: Date | string
+    updatedAt?: Date | string
   }
 
-  export type LeadUpdateInput = {
+  export type MessageTemplateCreateOrConnectWithoutCampaignStepsInput = {
+    where: MessageTemplateWhereUniqueInput
+    create: XOR<MessageTemplateCreateWithoutCampaignStepsInput, MessageTemplateUncheckedCreateWithoutCampaignStepsInput>
+  }
+
+  export type CampaignUpsertWithoutStepsInput = {
+    update: XOR<CampaignUpdateWithoutStepsInput, CampaignUncheckedUpdateWithoutStepsInput>
+    create: XOR<CampaignCreateWithoutStepsInput, CampaignUncheckedCreateWithoutStepsInput>
+    where?: CampaignWhereInput
+  }
+
+  export type CampaignUpdateToOneWithWhereWithoutStepsInput = {
+    where?: CampaignWhereInput
+    data: XOR<CampaignUpdateWithoutStepsInput, CampaignUncheckedUpdateWithoutStepsInput>
+  }
+
+  export type CampaignUpdateWithoutStepsInput = {
     id?: StringFieldUpdateOperationsInput | string
     name?: StringFieldUpdateOperationsInput | string
-    email?: StringFieldUpdateOperationsInput | string
-    phone?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    maxMessages?: IntFieldUpdateOperationsInput | number
-    messageCount?: IntFieldUpdateOperationsInput | number
-    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    leads?: LeadUpdateManyWithoutCampaignNestedInput
   }
 
-  export type LeadUncheckedUpdateInput = {
+  export type CampaignUncheckedUpdateWithoutStepsInput = {
     id?: StringFieldUpdateOperationsInput | string
     name?: StringFieldUpdateOperationsInput | string
-    email?: StringFieldUpdateOperationsInput | string
-    phone?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    maxMessages?: IntFieldUpdateOperationsInput | number
-    messageCount?: IntFieldUpdateOperationsInput | number
-    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    dailyCap?: NullableIntFieldUpdateOperationsInput | number | null
+    sendWindowStart?: NullableStringFieldUpdateOperationsInput | string | null
+    sendWindowEnd?: NullableStringFieldUpdateOperationsInput | string | null
+    sendDays?: CampaignUpdatesendDaysInput | number[]
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    leads?: LeadUncheckedUpdateManyWithoutCampaignNestedInput
+  }
+
+  export type MessageTemplateUpsertWithoutCampaignStepsInput = {
+    update: XOR<MessageTemplateUpdateWithoutCampaignStepsInput, MessageTemplateUncheckedUpdateWithoutCampaignStepsInput>
+    create: XOR<MessageTemplateCreateWithoutCampaignStepsInput, MessageTemplateUncheckedCreateWithoutCampaignStepsInput>
+    where?: MessageTemplateWhereInput
+  }
+
+  export type MessageTemplateUpdateToOneWithWhereWithoutCampaignStepsInput = {
+    where?: MessageTemplateWhereInput
+    data: XOR<MessageTemplateUpdateWithoutCampaignStepsInput, MessageTemplateUncheckedUpdateWithoutCampaignStepsInput>
+  }
+
+  export type MessageTemplateUpdateWithoutCampaignStepsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MessageTemplateUncheckedUpdateWithoutCampaignStepsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    subject?: NullableStringFieldUpdateOperationsInput | string | null
+    body?: StringFieldUpdateOperationsInput | string
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type LeadCreateWithoutScheduledMessagesInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
+    campaign?: CampaignCreateNestedOneWithoutLeadsInput
+    outboxEvents?: OutboxEventCreateNestedManyWithoutLeadInput
   }
 
-  export type LeadCreateManyInput = {
+  export type LeadUncheckedCreateWithoutScheduledMessagesInput = {
     id?: string
     name: string
     email: string
@@ -2273,10 +19493,36 @@ export namespace Prisma {
     lastSentAt?: Date | string | null
     nextScheduledFor?: Date | string | null
     status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    campaignId?: string | null
     createdAt?: Date | string
+    outboxEvents?: OutboxEventUncheckedCreateNestedManyWithoutLeadInput
   }
 
-  export type LeadUpdateManyMutationInput = {
+  export type LeadCreateOrConnectWithoutScheduledMessagesInput = {
+    where: LeadWhereUniqueInput
+    create: XOR<LeadCreateWithoutScheduledMessagesInput, LeadUncheckedCreateWithoutScheduledMessagesInput>
+  }
+
+  export type LeadUpsertWithoutScheduledMessagesInput = {
+    update: XOR<LeadUpdateWithoutScheduledMessagesInput, LeadUncheckedUpdateWithoutScheduledMessagesInput>
+    create: XOR<LeadCreateWithoutScheduledMessagesInput, LeadUncheckedCreateWithoutScheduledMessagesInput>
+    where?: LeadWhereInput
+  }
+
+  export type LeadUpdateToOneWithWhereWithoutScheduledMessagesInput = {
+    where?: LeadWhereInput
+    data: XOR<LeadUpdateWithoutScheduledMessagesInput, LeadUncheckedUpdateWithoutScheduledMessagesInput>
+  }
+
+  export type LeadUpdateWithoutScheduledMessagesInput = {
     id?: StringFieldUpdateOperationsInput | string
     name?: StringFieldUpdateOperationsInput | string
     email?: StringFieldUpdateOperationsInput | string
@@ -2287,10 +19533,20 @@ export namespace Prisma {
     lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    campaign?: CampaignUpdateOneWithoutLeadsNestedInput
+    outboxEvents?: OutboxEventUpdateManyWithoutLeadNestedInput
   }
 
-  export type LeadUncheckedUpdateManyInput = {
+  export type LeadUncheckedUpdateWithoutScheduledMessagesInput = {
     id?: StringFieldUpdateOperationsInput | string
     name?: StringFieldUpdateOperationsInput | string
     email?: StringFieldUpdateOperationsInput | string
@@ -2301,430 +19557,381 @@ export namespace Prisma {
     lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    campaignId?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    outboxEvents?: OutboxEventUncheckedUpdateManyWithoutLeadNestedInput
   }
 
-  export type StringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringFilter<$PrismaModel> | string
-  }
-
-  export type StringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
-  }
-
-  export type IntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
-  }
-
-  export type DateTimeNullableFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
-  }
-
-  export type EnumLeadStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumLeadStatusFilter<$PrismaModel> | $Enums.LeadStatus
-  }
-
-  export type DateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
-  }
-
-  export type SortOrderInput = {
-    sort: SortOrder
-    nulls?: NullsOrder
-  }
-
-  export type LeadCountOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    phone?: SortOrder
-    notes?: SortOrder
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-    lastSentAt?: SortOrder
-    nextScheduledFor?: SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-  }
-
-  export type LeadAvgOrderByAggregateInput = {
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-  }
-
-  export type LeadMaxOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    phone?: SortOrder
-    notes?: SortOrder
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-    lastSentAt?: SortOrder
-    nextScheduledFor?: SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-  }
-
-  export type LeadMinOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    phone?: SortOrder
-    notes?: SortOrder
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-    lastSentAt?: SortOrder
-    nextScheduledFor?: SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-  }
-
-  export type LeadSumOrderByAggregateInput = {
-    maxMessages?: SortOrder
-    messageCount?: SortOrder
-  }
-
-  export type StringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type LeadCreateWithoutOutboxEventsInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
+    campaign?: CampaignCreateNestedOneWithoutLeadsInput
+    scheduledMessages?: ScheduledMessageCreateNestedManyWithoutLeadInput
   }
 
-  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type LeadUncheckedCreateWithoutOutboxEventsInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    campaignId?: string | null
+    createdAt?: Date | string
+    scheduledMessages?: ScheduledMessageUncheckedCreateNestedManyWithoutLeadInput
   }
 
-  export type IntWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
-    _count?: NestedIntFilter<$PrismaModel>
-    _avg?: NestedFloatFilter<$PrismaModel>
-    _sum?: NestedIntFilter<$PrismaModel>
-    _min?: NestedIntFilter<$PrismaModel>
-    _max?: NestedIntFilter<$PrismaModel>
+  export type LeadCreateOrConnectWithoutOutboxEventsInput = {
+    where: LeadWhereUniqueInput
+    create: XOR<LeadCreateWithoutOutboxEventsInput, LeadUncheckedCreateWithoutOutboxEventsInput>
   }
 
-  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  export type LeadUpsertWithoutOutboxEventsInput = {
+    update: XOR<LeadUpdateWithoutOutboxEventsInput, LeadUncheckedUpdateWithoutOutboxEventsInput>
+    create: XOR<LeadCreateWithoutOutboxEventsInput, LeadUncheckedCreateWithoutOutboxEventsInput>
+    where?: LeadWhereInput
   }
 
-  export type EnumLeadStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel> | $Enums.LeadStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumLeadStatusFilter<$PrismaModel>
-    _max?: NestedEnumLeadStatusFilter<$PrismaModel>
+  export type LeadUpdateToOneWithWhereWithoutOutboxEventsInput = {
+    where?: LeadWhereInput
+    data: XOR<LeadUpdateWithoutOutboxEventsInput, LeadUncheckedUpdateWithoutOutboxEventsInput>
   }
 
-  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type LeadUpdateWithoutOutboxEventsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    campaign?: CampaignUpdateOneWithoutLeadsNestedInput
+    scheduledMessages?: ScheduledMessageUpdateManyWithoutLeadNestedInput
   }
 
-  export type StringFieldUpdateOperationsInput = {
-    set?: string
+  export type LeadUncheckedUpdateWithoutOutboxEventsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    campaignId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    scheduledMessages?: ScheduledMessageUncheckedUpdateManyWithoutLeadNestedInput
   }
 
-  export type NullableStringFieldUpdateOperationsInput = {
-    set?: string | null
+  export type ScheduledMessageCreateManyLeadInput = {
+    id?: string
+    messageNumber: number
+    queueName: string
+    msgId: string
+    scheduledFor: Date | string
+    status?: $Enums.ScheduledMessageStatus
+    sentAt?: Date | string | null
+    sendStartedAt?: Date | string | null
+    providerMessageId?: string | null
+    createdAt?: Date | string
   }
 
-  export type IntFieldUpdateOperationsInput = {
-    set?: number
-    increment?: number
-    decrement?: number
-    multiply?: number
-    divide?: number
+  export type OutboxEventCreateManyLeadInput = {
+    id?: string
+    type: $Enums.OutboxEventType
+    status?: $Enums.OutboxEventStatus
+    attempts?: number
+    lastError?: string | null
+    availableAt?: Date | string
+    processedAt?: Date | string | null
+    createdAt?: Date | string
   }
 
-  export type NullableDateTimeFieldUpdateOperationsInput = {
-    set?: Date | string | null
+  export type ScheduledMessageUpdateWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type EnumLeadStatusFieldUpdateOperationsInput = {
-    set?: $Enums.LeadStatus
+  export type ScheduledMessageUncheckedUpdateWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type DateTimeFieldUpdateOperationsInput = {
-    set?: Date | string
+  export type ScheduledMessageUncheckedUpdateManyWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    messageNumber?: IntFieldUpdateOperationsInput | number
+    queueName?: StringFieldUpdateOperationsInput | string
+    msgId?: StringFieldUpdateOperationsInput | string
+    scheduledFor?: DateTimeFieldUpdateOperationsInput | Date | string
+    status?: EnumScheduledMessageStatusFieldUpdateOperationsInput | $Enums.ScheduledMessageStatus
+    sentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    sendStartedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    providerMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedStringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringFilter<$PrismaModel> | string
+  export type OutboxEventUpdateWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedStringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  export type OutboxEventUncheckedUpdateWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedIntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
+  export type OutboxEventUncheckedUpdateManyWithoutLeadInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: EnumOutboxEventTypeFieldUpdateOperationsInput | $Enums.OutboxEventType
+    status?: EnumOutboxEventStatusFieldUpdateOperationsInput | $Enums.OutboxEventStatus
+    attempts?: IntFieldUpdateOperationsInput | number
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  export type CampaignStepCreateManyTemplateInput = {
+    id?: string
+    campaignId: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
   }
 
-  export type NestedEnumLeadStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumLeadStatusFilter<$PrismaModel> | $Enums.LeadStatus
+  export type CampaignStepUpdateWithoutTemplateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    campaign?: CampaignUpdateOneRequiredWithoutStepsNestedInput
   }
 
-  export type NestedDateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  export type CampaignStepUncheckedUpdateWithoutTemplateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    campaignId?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
   }
 
-  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type CampaignStepUncheckedUpdateManyWithoutTemplateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    campaignId?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
   }
 
-  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type CampaignStepCreateManyCampaignInput = {
+    id?: string
+    stepNumber: number
+    delayDays: number
+    channel?: $Enums.Channel
+    templateId?: string | null
   }
 
-  export type NestedIntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  export type LeadCreateManyCampaignInput = {
+    id?: string
+    name: string
+    email: string
+    phone: string
+    notes?: string | null
+    maxMessages?: number
+    messageCount?: number
+    lastSentAt?: Date | string | null
+    nextScheduledFor?: Date | string | null
+    status?: $Enums.LeadStatus
+    lastProviderMessageId?: string | null
+    lastDeliveryStatus?: $Enums.DeliveryStatus | null
+    lastDeliveryError?: string | null
+    failureReason?: string | null
+    unsubscribedAt?: Date | string | null
+    pausedAt?: Date | string | null
+    cancelledAt?: Date | string | null
+    timezone?: string | null
+    createdAt?: Date | string
   }
 
-  export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
-    _count?: NestedIntFilter<$PrismaModel>
-    _avg?: NestedFloatFilter<$PrismaModel>
-    _sum?: NestedIntFilter<$PrismaModel>
-    _min?: NestedIntFilter<$PrismaModel>
-    _max?: NestedIntFilter<$PrismaModel>
+  export type CampaignStepUpdateWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    template?: MessageTemplateUpdateOneWithoutCampaignStepsNestedInput
   }
 
-  export type NestedFloatFilter<$PrismaModel = never> = {
-    equals?: number | FloatFieldRefInput<$PrismaModel>
-    in?: number[] | ListFloatFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel>
-    lt?: number | FloatFieldRefInput<$PrismaModel>
-    lte?: number | FloatFieldRefInput<$PrismaModel>
-    gt?: number | FloatFieldRefInput<$PrismaModel>
-    gte?: number | FloatFieldRefInput<$PrismaModel>
-    not?: NestedFloatFilter<$PrismaModel> | number
+  export type CampaignStepUncheckedUpdateWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    templateId?: NullableStringFieldUpdateOperationsInput | string | null
   }
 
-  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  export type CampaignStepUncheckedUpdateManyWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    stepNumber?: IntFieldUpdateOperationsInput | number
+    delayDays?: IntFieldUpdateOperationsInput | number
+    channel?: EnumChannelFieldUpdateOperationsInput | $Enums.Channel
+    templateId?: NullableStringFieldUpdateOperationsInput | string | null
   }
 
-  export type NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.LeadStatus | EnumLeadStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.LeadStatus[] | ListEnumLeadStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumLeadStatusWithAggregatesFilter<$PrismaModel> | $Enums.LeadStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumLeadStatusFilter<$PrismaModel>
-    _max?: NestedEnumLeadStatusFilter<$PrismaModel>
+  export type LeadUpdateWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    scheduledMessages?: ScheduledMessageUpdateManyWithoutLeadNestedInput
+    outboxEvents?: OutboxEventUpdateManyWithoutLeadNestedInput
   }
 
-  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type LeadUncheckedUpdateWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    scheduledMessages?: ScheduledMessageUncheckedUpdateManyWithoutLeadNestedInput
+    outboxEvents?: OutboxEventUncheckedUpdateManyWithoutLeadNestedInput
+  }
+
+  export type LeadUncheckedUpdateManyWithoutCampaignInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    phone?: StringFieldUpdateOperationsInput | string
+    notes?: NullableStringFieldUpdateOperationsInput | string | null
+    maxMessages?: IntFieldUpdateOperationsInput | number
+    messageCount?: IntFieldUpdateOperationsInput | number
+    lastSentAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    nextScheduledFor?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    status?: EnumLeadStatusFieldUpdateOperationsInput | $Enums.LeadStatus
+    lastProviderMessageId?: NullableStringFieldUpdateOperationsInput | string | null
+    lastDeliveryStatus?: NullableEnumDeliveryStatusFieldUpdateOperationsInput | $Enums.DeliveryStatus | null
+    lastDeliveryError?: NullableStringFieldUpdateOperationsInput | string | null
+    failureReason?: NullableStringFieldUpdateOperationsInput | string | null
+    unsubscribedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    pausedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    cancelledAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    timezone?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
 
@@ -103,6 +103,119 @@ exports.Prisma.LeadScalarFieldEnum = {
   lastSentAt: 'lastSentAt',
   nextScheduledFor: 'nextScheduledFor',
   status: 'status',
+  lastProviderMessageId: 'lastProviderMessageId',
+  lastDeliveryStatus: 'lastDeliveryStatus',
+  lastDeliveryError: 'lastDeliveryError',
+  failureReason: 'failureReason',
+  unsubscribedAt: 'unsubscribedAt',
+  pausedAt: 'pausedAt',
+  cancelledAt: 'cancelledAt',
+  timezone: 'timezone',
+  campaignId: 'campaignId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MessageTemplateScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  stepNumber: 'stepNumber',
+  channel: 'channel',
+  subject: 'subject',
+  body: 'body',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CampaignScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  dailyCap: 'dailyCap',
+  sendWindowStart: 'sendWindowStart',
+  sendWindowEnd: 'sendWindowEnd',
+  sendDays: 'sendDays',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CampaignStepScalarFieldEnum = {
+  id: 'id',
+  campaignId: 'campaignId',
+  stepNumber: 'stepNumber',
+  delayDays: 'delayDays',
+  channel: 'channel',
+  templateId: 'templateId'
+};
+
+exports.Prisma.ScheduledMessageScalarFieldEnum = {
+  id: 'id',
+  leadId: 'leadId',
+  messageNumber: 'messageNumber',
+  queueName: 'queueName',
+  msgId: 'msgId',
+  scheduledFor: 'scheduledFor',
+  status: 'status',
+  sentAt: 'sentAt',
+  sendStartedAt: 'sendStartedAt',
+  providerMessageId: 'providerMessageId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OutboxEventScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  leadId: 'leadId',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  availableAt: 'availableAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WorkerLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ApiKeyScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  prefix: 'prefix',
+  keyHash: 'keyHash',
+  scopes: 'scopes',
+  lastUsedAt: 'lastUsedAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RateLimitHitScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.IdempotencyKeyScalarFieldEnum = {
+  scope: 'scope',
+  key: 'key',
+  requestHash: 'requestHash',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.ScheduledSlotScalarFieldEnum = {
+  day: 'day',
+  scope: 'scope',
+  reserved: 'reserved'
+};
+
+exports.Prisma.SuppressionScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  value: 'value',
+  reason: 'reason',
   createdAt: 'createdAt'
 };
 
@@ -111,6 +224,11 @@ exports.Prisma.SortOrder = {
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -120,14 +238,66 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.LeadStatus = exports.$Enums.LeadStatus = {
   ACTIVE: 'ACTIVE',
   COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  UNSUBSCRIBED: 'UNSUBSCRIBED',
+  PAUSED: 'PAUSED',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.Channel = exports.$Enums.Channel = {
+  EMAIL: 'EMAIL',
+  SMS: 'SMS'
+};
+
+exports.DeliveryStatus = exports.$Enums.DeliveryStatus = {
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+};
+
+exports.SuppressionType = exports.$Enums.SuppressionType = {
+  EMAIL: 'EMAIL',
+  PHONE: 'PHONE'
+};
+
+exports.ScheduledMessageStatus = exports.$Enums.ScheduledMessageStatus = {
+  SCHEDULED: 'SCHEDULED',
+  SENT: 'SENT',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.OutboxEventType = exports.$Enums.OutboxEventType = {
+  SCHEDULE_LEAD: 'SCHEDULE_LEAD'
+};
+
+exports.OutboxEventStatus = exports.$Enums.OutboxEventStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  DONE: 'DONE',
   FAILED: 'FAILED'
 };
 
 exports.Prisma.ModelName = {
-  Lead: 'Lead'
+  Lead: 'Lead',
+  MessageTemplate: 'MessageTemplate',
+  Campaign: 'Campaign',
+  CampaignStep: 'CampaignStep',
+  ScheduledMessage: 'ScheduledMessage',
+  OutboxEvent: 'OutboxEvent',
+  WorkerLease: 'WorkerLease',
+  ApiKey: 'ApiKey',
+  RateLimitHit: 'RateLimitHit',
+  IdempotencyKey: 'IdempotencyKey',
+  ScheduledSlot: 'ScheduledSlot',
+  Suppression: 'Suppression'
 };
 /**
  * Create the Client
@@ -140,7 +310,7 @@ const config = {
       "value": "prisma-client-js"
     },
     "output": {
-      "value": "/Users/kwasi/work/sendblue/hyperdrip/src/generated/prisma",
+      "value": "/root/tree/src/generated/prisma",
       "fromEnvVar": null
     },
     "config": {
@@ -149,12 +319,12 @@ const config = {
     "binaryTargets": [
       {
         "fromEnvVar": null,
-        "value": "darwin-arm64",
+        "value": "debian-openssl-3.0.x",
         "native": true
       }
     ],
     "previewFeatures": [],
-    "sourceFilePath": "/Users/kwasi/work/sendblue/hyperdrip/prisma/schema.prisma",
+    "sourceFilePath": "/root/tree/prisma/schema.prisma",
     "isCustomOutput": true
   },
   "relativeEnvPaths": {
@@ -168,6 +338,7 @@ const config = {
     "db"
   ],
   "activeProvider": "postgresql",
+  "postinstall": false,
   "inlineDatasources": {
     "db": {
       "url": {
@@ -176,13 +347,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Lead {\n  id               String     @id @default(cuid())\n  name             String\n  email            String     @unique\n  phone            String     @unique\n  notes            String?\n  maxMessages      Int        @default(5)\n  messageCount     Int        @default(0)\n  lastSentAt       DateTime?\n  nextScheduledFor DateTime?\n  status           LeadStatus @default(ACTIVE)\n  createdAt        DateTime   @default(now())\n\n  @@index([nextScheduledFor, status])\n  @@map(\"leads\")\n}\n\nenum LeadStatus {\n  ACTIVE\n  COMPLETED\n  FAILED\n}\n",
-  "inlineSchemaHash": "859909c252201bf5b9387f0552ff91e67be9383eadf018e46bd6fc348a8a1ccd",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Lead {\n  id                    String             @id @default(cuid())\n  name                  String\n  email                 String             @unique\n  phone                 String             @unique\n  notes                 String?\n  maxMessages           Int                @default(5)\n  messageCount          Int                @default(0)\n  lastSentAt            DateTime?\n  nextScheduledFor      DateTime?\n  status                LeadStatus         @default(ACTIVE)\n  lastProviderMessageId String?\n  lastDeliveryStatus    DeliveryStatus?\n  lastDeliveryError     String?\n  failureReason         String?\n  unsubscribedAt        DateTime?\n  pausedAt              DateTime?\n  cancelledAt           DateTime?\n  timezone              String?\n  campaignId            String?\n  campaign              Campaign?          @relation(fields: [campaignId], references: [id], onDelete: SetNull)\n  scheduledMessages     ScheduledMessage[]\n  outboxEvents          OutboxEvent[]\n  createdAt             DateTime           @default(now())\n\n  @@index([nextScheduledFor, status])\n  @@index([campaignId, lastSentAt])\n  @@map(\"leads\")\n}\n\nmodel MessageTemplate {\n  id            String         @id @default(cuid())\n  name          String\n  stepNumber    Int\n  channel       Channel        @default(EMAIL)\n  subject       String?\n  body          String\n  createdAt     DateTime       @default(now())\n  updatedAt     DateTime       @updatedAt\n  campaignSteps CampaignStep[]\n\n  @@unique([stepNumber, channel])\n  @@map(\"message_templates\")\n}\n\nmodel Campaign {\n  id              String         @id @default(cuid())\n  name            String         @unique\n  dailyCap        Int?\n  sendWindowStart String?\n  sendWindowEnd   String?\n  sendDays        Int[]          @default([])\n  createdAt       DateTime       @default(now())\n  steps           CampaignStep[]\n  leads           Lead[]\n\n  @@map(\"campaigns\")\n}\n\nmodel CampaignStep {\n  id         String           @id @default(cuid())\n  campaignId String\n  campaign   Campaign         @relation(fields: [campaignId], references: [id], onDelete: Cascade)\n  stepNumber Int\n  delayDays  Int\n  channel    Channel          @default(EMAIL)\n  templateId String?\n  template   MessageTemplate? @relation(fields: [templateId], references: [id], onDelete: SetNull)\n\n  @@unique([campaignId, stepNumber])\n  @@map(\"campaign_steps\")\n}\n\nmodel ScheduledMessage {\n  id                String                 @id @default(cuid())\n  // Null once the lead is deleted; its SENT rows still count towards the\n  // daily quota\n  leadId            String?\n  lead              Lead?                  @relation(fields: [leadId], references: [id], onDelete: SetNull)\n  messageNumber     Int\n  queueName         String\n  msgId             String\n  scheduledFor      DateTime\n  status            ScheduledMessageStatus @default(SCHEDULED)\n  sentAt            DateTime?\n  // Set just before the message is handed to its delivery channel. A row\n  // with this set but not SENT may or may not have gone out\n  sendStartedAt     DateTime?\n  // Id the delivery provider gave the message once it was sent\n  providerMessageId String?\n  createdAt         DateTime               @default(now())\n\n  @@index([leadId, messageNumber])\n  @@index([queueName, msgId])\n  @@index([status, sentAt])\n  @@map(\"scheduled_messages\")\n}\n\n// Work recorded in the same transaction as the change that caused it and\n// carried out afterwards by the outbox relay, e.g. queueing a new lead's\n// messages. availableAt is when the event may next be picked up.\nmodel OutboxEvent {\n  id          String            @id @default(cuid())\n  type        OutboxEventType\n  leadId      String\n  lead        Lead              @relation(fields: [leadId], references: [id], onDelete: Cascade)\n  status      OutboxEventStatus @default(PENDING)\n  attempts    Int               @default(0)\n  lastError   String?\n  availableAt DateTime          @default(now())\n  processedAt DateTime?\n  createdAt   DateTime          @default(now())\n\n  @@index([status, availableAt])\n  @@map(\"outbox_events\")\n}\n\n// Time-limited claims on work only one worker process may do at a time,\n// e.g. dropping old queues. A lease past expiresAt is free to be taken over.\nmodel WorkerLease {\n  name      String   @id\n  holder    String\n  expiresAt DateTime\n  updatedAt DateTime @updatedAt\n\n  @@map(\"worker_leases\")\n}\n\nmodel ApiKey {\n  id         String    @id @default(cuid())\n  name       String\n  // Start of the key, shown so it can be recognised without the secret\n  prefix     String\n  keyHash    String    @unique\n  scopes     String[]\n  lastUsedAt DateTime?\n  revokedAt  DateTime?\n  createdAt  DateTime  @default(now())\n\n  @@map(\"api_keys\")\n}\n\n// One request counted against a sliding-window rate limit. key names what\n// is limited, e.g. \"lead-submit:ip:203.0.113.7\".\nmodel RateLimitHit {\n  id        String   @id @default(cuid())\n  key       String\n  createdAt DateTime @default(now())\n\n  @@index([key, createdAt])\n  @@map(\"rate_limit_hits\")\n}\n\n// Responses to requests sent with an Idempotency-Key header, replayed when\n// the same request is retried. responseStatus is null while the first\n// request is still being handled. Keys are kept apart per caller (scope).\nmodel IdempotencyKey {\n  scope          String\n  key            String\n  requestHash    String\n  responseStatus Int?\n  responseBody   Json?\n  createdAt      DateTime @default(now())\n  expiresAt      DateTime\n\n  @@id([scope, key])\n  @@index([expiresAt])\n  @@map(\"idempotency_keys\")\n}\n\n// Per-day quota counters. scope is \"global\" or \"campaign:<id>\"; reserved\n// counts every message scheduled for the day, whether sent yet or not.\nmodel ScheduledSlot {\n  day      DateTime @db.Date\n  scope    String\n  reserved Int      @default(0)\n\n  @@id([day, scope])\n  @@map(\"scheduled_slots\")\n}\n\nmodel Suppression {\n  id        String          @id @default(cuid())\n  type      SuppressionType\n  value     String\n  reason    String?\n  createdAt DateTime        @default(now())\n\n  @@unique([type, value])\n  @@map(\"suppressions\")\n}\n\nenum LeadStatus {\n  ACTIVE\n  COMPLETED\n  FAILED\n  UNSUBSCRIBED\n  PAUSED\n  CANCELLED\n}\n\nenum Channel {\n  EMAIL\n  SMS\n}\n\nenum DeliveryStatus {\n  SENT\n  FAILED\n}\n\nenum SuppressionType {\n  EMAIL\n  PHONE\n}\n\nenum ScheduledMessageStatus {\n  SCHEDULED\n  SENT\n  CANCELLED\n}\n\nenum OutboxEventType {\n  SCHEDULE_LEAD\n}\n\nenum OutboxEventStatus {\n  PENDING\n  PROCESSING\n  DONE\n  FAILED\n}\n",
+  "inlineSchemaHash": "871f456d29233d7ee78baf33bb5edb1a0930997017c7665b40cad14517513be6",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Lead\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxMessages\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"messageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nextScheduledFor\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"LeadStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"leads\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Lead\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxMessages\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"messageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nextScheduledFor\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"LeadStatus\"},{\"name\":\"lastProviderMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastDeliveryStatus\",\"kind\":\"enum\",\"type\":\"DeliveryStatus\"},{\"name\":\"lastDeliveryError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"failureReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unsubscribedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pausedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"campaignId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"campaign\",\"kind\":\"object\",\"type\":\"Campaign\",\"relationName\":\"CampaignToLead\"},{\"name\":\"scheduledMessages\",\"kind\":\"object\",\"type\":\"ScheduledMessage\",\"relationName\":\"LeadToScheduledMessage\"},{\"name\":\"outboxEvents\",\"kind\":\"object\",\"type\":\"OutboxEvent\",\"relationName\":\"LeadToOutboxEvent\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"leads\"},\"MessageTemplate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stepNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"Channel\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"campaignSteps\",\"kind\":\"object\",\"type\":\"CampaignStep\",\"relationName\":\"CampaignStepToMessageTemplate\"}],\"dbName\":\"message_templates\"},\"Campaign\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dailyCap\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sendWindowStart\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sendWindowEnd\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sendDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"steps\",\"kind\":\"object\",\"type\":\"CampaignStep\",\"relationName\":\"CampaignToCampaignStep\"},{\"name\":\"leads\",\"kind\":\"object\",\"type\":\"Lead\",\"relationName\":\"CampaignToLead\"}],\"dbName\":\"campaigns\"},\"CampaignStep\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"campaignId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"campaign\",\"kind\":\"object\",\"type\":\"Campaign\",\"relationName\":\"CampaignToCampaignStep\"},{\"name\":\"stepNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"delayDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"Channel\"},{\"name\":\"templateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"template\",\"kind\":\"object\",\"type\":\"MessageTemplate\",\"relationName\":\"CampaignStepToMessageTemplate\"}],\"dbName\":\"campaign_steps\"},\"ScheduledMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"leadId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lead\",\"kind\":\"object\",\"type\":\"Lead\",\"relationName\":\"LeadToScheduledMessage\"},{\"name\":\"messageNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"queueName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"msgId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scheduledFor\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ScheduledMessageStatus\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sendStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"providerMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"scheduled_messages\"},\"OutboxEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"OutboxEventType\"},{\"name\":\"leadId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lead\",\"kind\":\"object\",\"type\":\"Lead\",\"relationName\":\"LeadToOutboxEvent\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OutboxEventStatus\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"availableAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"outbox_events\"},\"WorkerLease\":{\"fields\":[{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holder\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"worker_leases\"},\"ApiKey\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"api_keys\"},\"RateLimitHit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"rate_limit_hits\"},\"IdempotencyKey\":{\"fields\":[{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseStatus\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseBody\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"idempotency_keys\"},\"ScheduledSlot\":{\"fields\":[{\"name\":\"day\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reserved\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":\"scheduled_slots\"},\"Suppression\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"SuppressionType\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"suppressions\"}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: async () => require('./query_engine_bg.js'),
@@ -1,6 +1,13 @@
 export async function register() {
+  // Web processes leave the queues to a standalone worker (npm run worker)
+  if (process.env.DISABLE_EMBEDDED_WORKER === 'true') {
+    console.log('Embedded drip worker disabled');
+    return;
+  }
+
   if (process.env.NEXT_RUNTIME === 'nodejs') {
-    const { startWorker } = await import('./lib/drip-worker');
+    const { startWorker, stopWorkerOnSignals } = await import('./lib/drip-worker');
+    stopWorkerOnSignals();
     await startWorker();
   }
 }
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+
+/**
+ * Shared error responses for API routes.
+ * Every error body has the shape { success: false, message, ...details }.
+ */
+
+export function handleZodError(error: z.ZodError): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Validation failed",
+      errors: error.issues,
+    },
+    { status: 400 }
+  );
+}
+
+export function handleNotFound(message: string): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 404 }
+  );
+}
+
+export function handleUnauthorized(message: string): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
+
+export function handleForbidden(message: string): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 403 }
+  );
+}
+
+export function handleNotImplemented(message: string): Response {
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 501 }
+  );
+}
+
+export function handleServerError(error: unknown): Response {
+  console.error("Unhandled API error:", error);
+
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error",
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * Map database errors (mostly unique email/phone violations) to a 422
+ */
+export function handleDBError(error: Error): Response {
+  let message = "There was an error saving this data";
+
+  if (error.message.includes("email")) {
+    if (error.message.includes("Unique constraint"))
+      message = "The email address is already in use.";
+  } else if (error.message.includes("phone")) {
+    if (error.message.includes("Unique constraint"))
+      message = "The phone number is already in use";
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+    },
+    { status: 422 }
+  );
+}
+
+/**
+ * Check whether an error is a Prisma unique constraint violation
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (("code" in error && error.code === "P2002") ||
+      error.message.includes("Unique constraint"))
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * API keys: secrets callers send with API requests, each limited to a set
+ * of scopes. Only a SHA-256 hash of a key is stored; the key itself is
+ * returned once, when it is created.
+ *
+ * ADMIN_API_KEY, when set, is accepted with the admin scope, so the first
+ * keys can be created before any exist.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { prisma } from './prisma';
+import type { ApiKey } from '../generated/prisma';
+
+export const API_KEY_SCOPES = ['leads:write', 'leads:read', 'admin'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Marks a string as one of our keys, e.g. in logs or secret scanners
+const KEY_PREFIX = 'hd_';
+
+// Characters of a key kept in the prefix column to recognise it by
+const DISPLAYED_KEY_LENGTH = 11;
+
+// lastUsedAt is only written this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Routes anyone can call: the contact form's submissions and opt-out links
+const PUBLIC_PATHS = ['/api/public/', '/api/unsubscribe'];
+
+/**
+ * Who a request was authenticated as
+ */
+export interface ApiKeyIdentity {
+  // Null for ADMIN_API_KEY
+  id: string | null;
+  name: string;
+  scopes: string[];
+}
+
+/**
+ * An API key as returned by the API, without its hash
+ */
+export type ApiKeyInfo = Omit<ApiKey, 'keyHash'>;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Scope a request needs
+ * @returns The scope, or null for public routes
+ */
+export function getRequiredScope(method: string, pathname: string): ApiKeyScope | null {
+  if (PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(path))) {
+    return null;
+  }
+
+  if (pathname === '/api/leads' || pathname.startsWith('/api/leads/')) {
+    return method === 'GET' || method === 'HEAD' ? 'leads:read' : 'leads:write';
+  }
+
+  return 'admin';
+}
+
+/**
+ * Whether a key's scopes cover a scope; admin covers all of them
+ */
+export function hasScope(scopes: string[], scope: ApiKeyScope): boolean {
+  return scopes.includes('admin') || scopes.includes(scope);
+}
+
+/**
+ * The key sent with a request, as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function getRequestApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || null;
+  }
+
+  return headers.get('x-api-key')?.trim() || null;
+}
+
+function isAdminApiKey(key: string): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return false;
+  }
+
+  // Compare hashes so the comparison takes as long whatever the lengths
+  return timingSafeEqual(Buffer.from(hashApiKey(key)), Buffer.from(hashApiKey(adminKey)));
+}
+
+/**
+ * Look up the key a request was sent with
+ * @returns Who the key belongs to, or null for unknown and revoked keys
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyIdentity | null> {
+  if (isAdminApiKey(key)) {
+    return { id: null, name: 'ADMIN_API_KEY', scopes: ['admin'] };
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+}
+
+/**
+ * Create a key
+ * @returns The stored key and the key itself, which can't be recovered later
+ */
+export async function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name,
+      prefix: key.slice(0, DISPLAYED_KEY_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: [...new Set(scopes)],
+    },
+    omit: { keyHash: true },
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * All keys, newest first, revoked ones included
+ */
+export function listApiKeys(): Promise<ApiKeyInfo[]> {
+  return prisma.apiKey.findMany({
+    orderBy: { createdAt: 'desc' },
+    omit: { keyHash: true },
+  });
+}
+
+/**
+ * Stop a key from working. Revoking a revoked key keeps its original revokedAt.
+ * @returns The key, or null if there is no such key
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeyInfo | null> {
+  await prisma.apiKey.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return prisma.apiKey.findUnique({ where: { id }, omit: { keyHash: true } });
+}
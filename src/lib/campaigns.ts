@@ -0,0 +1,140 @@
+/**
+ * Campaign definitions drive how many messages a lead receives, when each
+ * one goes out (delay in days from enrollment) and on which channel.
+ *
+ * Leads without a campaign follow DEFAULT_CAMPAIGN, which matches the
+ * original behaviour: five messages on consecutive days.
+ */
+
+import { prisma } from './prisma';
+import type { SendWindow } from './dates';
+import type { Channel, Lead, Prisma } from '../generated/prisma';
+
+export interface CampaignStepDefinition {
+  stepNumber: number;
+  delayDays: number;
+  channel: Channel;
+  templateId: string | null;
+}
+
+/**
+ * Send window fields are in the lead's local time; empty means any time
+ */
+export interface CampaignDefinition extends SendWindow {
+  id: string | null;
+  name: string;
+  dailyCap: number | null;
+  steps: CampaignStepDefinition[];
+}
+
+export const DEFAULT_CAMPAIGN_NAME = 'default';
+
+/**
+ * Raised when a lead is enrolled into a campaign that doesn't exist
+ */
+export class CampaignNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Campaign "${name}" does not exist`);
+    this.name = 'CampaignNotFoundError';
+  }
+}
+
+/**
+ * Built-in campaign used when a lead isn't enrolled into a named one
+ */
+export function getDefaultCampaign(): CampaignDefinition {
+  const channel = (process.env.DELIVERY_CHANNEL || 'EMAIL') as Channel;
+
+  return {
+    id: null,
+    name: DEFAULT_CAMPAIGN_NAME,
+    dailyCap: null,
+    sendWindowStart: null,
+    sendWindowEnd: null,
+    sendDays: [],
+    steps: Array.from({ length: 5 }, (_, index) => ({
+      stepNumber: index + 1,
+      delayDays: index,
+      channel,
+      templateId: null,
+    })),
+  };
+}
+
+const campaignInclude = {
+  steps: { orderBy: { stepNumber: 'asc' } },
+} satisfies Prisma.CampaignInclude;
+
+type CampaignWithSteps = Prisma.CampaignGetPayload<{ include: typeof campaignInclude }>;
+
+function toCampaignDefinition(campaign: CampaignWithSteps): CampaignDefinition {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    dailyCap: campaign.dailyCap,
+    sendWindowStart: campaign.sendWindowStart,
+    sendWindowEnd: campaign.sendWindowEnd,
+    sendDays: campaign.sendDays,
+    steps: campaign.steps.map((step) => ({
+      stepNumber: step.stepNumber,
+      delayDays: step.delayDays,
+      channel: step.channel,
+      templateId: step.templateId,
+    })),
+  };
+}
+
+/**
+ * Resolve the campaign a new lead should be enrolled into
+ * @param name - Campaign name from the request, or undefined for the default campaign
+ * @throws CampaignNotFoundError when no campaign has that name
+ */
+export async function resolveCampaign(
+  name: string | undefined,
+  client: Prisma.TransactionClient = prisma
+): Promise<CampaignDefinition> {
+  if (!name || name === DEFAULT_CAMPAIGN_NAME) {
+    return getDefaultCampaign();
+  }
+
+  const campaign = await client.campaign.findUnique({
+    where: { name },
+    include: campaignInclude,
+  });
+
+  if (!campaign) {
+    throw new CampaignNotFoundError(name);
+  }
+
+  return toCampaignDefinition(campaign);
+}
+
+/**
+ * Get the campaign a lead is enrolled in
+ */
+export async function getLeadCampaign(
+  lead: Pick<Lead, 'campaignId'>,
+  client: Prisma.TransactionClient = prisma
+): Promise<CampaignDefinition> {
+  if (!lead.campaignId) {
+    return getDefaultCampaign();
+  }
+
+  const campaign = await client.campaign.findUnique({
+    where: { id: lead.campaignId },
+    include: campaignInclude,
+  });
+
+  // A deleted campaign leaves its leads on the default sequence
+  return campaign ? toCampaignDefinition(campaign) : getDefaultCampaign();
+}
+
+/**
+ * Get a step of a campaign by its message number
+ */
+export function getCampaignStep(
+  campaign: CampaignDefinition,
+  stepNumber: number
+): CampaignStepDefinition | undefined {
+  return campaign.steps.find((step) => step.stepNumber === stepNumber);
+}
@@ -0,0 +1,131 @@
+/**
+ * One-off rewrite of contact details stored before they were normalized
+ * (see contact.ts), so the unique checks on leads and the suppression list
+ * match them against new submissions.
+ *
+ * Suppressions that normalize to an entry already on the list are merged
+ * into it. Leads whose email or phone would normalize to one another lead
+ * has, or that an earlier lead took in this run, are left as they are and
+ * reported, since merging two leads means choosing between their histories.
+ * Numbers normalizePhone can't read are also left and reported.
+ */
+
+import { prisma } from './prisma';
+import { normalizeEmail, normalizePhone } from './contact';
+
+export interface ContactCollision {
+  leadId: string;
+  field: 'email' | 'phone';
+  // What the lead's value normalizes to
+  value: string;
+  // Lead that already has it
+  otherLeadId: string;
+}
+
+export interface UnreadablePhone {
+  table: 'leads' | 'suppressions';
+  id: string;
+  value: string;
+}
+
+export interface ContactBackfillReport {
+  leadsUpdated: number;
+  suppressionsUpdated: number;
+  // Suppressions removed because the normalized value was already suppressed
+  suppressionsMerged: number;
+  collisions: ContactCollision[];
+  unreadablePhones: UnreadablePhone[];
+}
+
+async function backfillSuppressions(report: ContactBackfillReport): Promise<void> {
+  const suppressions = await prisma.suppression.findMany({ orderBy: { createdAt: 'asc' } });
+  const taken = new Set(suppressions.map(({ type, value }) => `${type}:${value}`));
+
+  for (const suppression of suppressions) {
+    const value =
+      suppression.type === 'EMAIL' ? normalizeEmail(suppression.value) : normalizePhone(suppression.value);
+
+    if (value === null) {
+      report.unreadablePhones.push({ table: 'suppressions', id: suppression.id, value: suppression.value });
+      continue;
+    }
+    if (value === suppression.value) {
+      continue;
+    }
+
+    const key = `${suppression.type}:${value}`;
+    if (taken.has(key)) {
+      await prisma.suppression.delete({ where: { id: suppression.id } });
+      report.suppressionsMerged++;
+    } else {
+      await prisma.suppression.update({ where: { id: suppression.id }, data: { value } });
+      report.suppressionsUpdated++;
+      taken.add(key);
+    }
+    taken.delete(`${suppression.type}:${suppression.value}`);
+  }
+}
+
+async function backfillLeads(report: ContactBackfillReport): Promise<void> {
+  const leads = await prisma.lead.findMany({
+    select: { id: true, email: true, phone: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const emailOwners = new Map(leads.map((lead) => [lead.email, lead.id]));
+  const phoneOwners = new Map(leads.map((lead) => [lead.phone, lead.id]));
+
+  for (const lead of leads) {
+    const email = normalizeEmail(lead.email);
+    let phone = normalizePhone(lead.phone);
+
+    if (phone === null) {
+      report.unreadablePhones.push({ table: 'leads', id: lead.id, value: lead.phone });
+      phone = lead.phone;
+    }
+    if (email === lead.email && phone === lead.phone) {
+      continue;
+    }
+
+    const collisions: ContactCollision[] = [];
+    const emailOwner = emailOwners.get(email);
+    if (emailOwner && emailOwner !== lead.id) {
+      collisions.push({ leadId: lead.id, field: 'email', value: email, otherLeadId: emailOwner });
+    }
+    const phoneOwner = phoneOwners.get(phone);
+    if (phoneOwner && phoneOwner !== lead.id) {
+      collisions.push({ leadId: lead.id, field: 'phone', value: phone, otherLeadId: phoneOwner });
+    }
+
+    if (collisions.length > 0) {
+      report.collisions.push(...collisions);
+      continue;
+    }
+
+    await prisma.lead.update({ where: { id: lead.id }, data: { email, phone } });
+    report.leadsUpdated++;
+
+    emailOwners.delete(lead.email);
+    phoneOwners.delete(lead.phone);
+    emailOwners.set(email, lead.id);
+    phoneOwners.set(phone, lead.id);
+  }
+}
+
+/**
+ * Normalize the stored emails and phone numbers of suppressions and leads.
+ * Safe to run again: values already in normal form are left alone.
+ */
+export async function backfillContacts(): Promise<ContactBackfillReport> {
+  const report: ContactBackfillReport = {
+    leadsUpdated: 0,
+    suppressionsUpdated: 0,
+    suppressionsMerged: 0,
+    collisions: [],
+    unreadablePhones: [],
+  };
+
+  await backfillSuppressions(report);
+  await backfillLeads(report);
+
+  return report;
+}
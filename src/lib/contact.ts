@@ -0,0 +1,117 @@
+/**
+ * Normal forms for lead contact details, so the same person always gets the
+ * same stored email and phone however they typed them, and the unique checks
+ * on both catch repeat submissions.
+ *
+ * Phone numbers are stored in E.164 form (+ then country code and number).
+ * Numbers written with a leading + or 00 are read as international; anything
+ * else is read as a national number in the default region
+ * (NEXT_PUBLIC_DEFAULT_PHONE_REGION, default US). This runs in the contact
+ * form as well as on the server, hence the NEXT_PUBLIC_ name.
+ */
+
+interface PhoneRegion {
+  callingCode: string;
+  // Dialled before national numbers inside the country, dropped in E.164
+  trunkPrefix?: string;
+  // Valid national numbers, without the trunk prefix
+  nationalNumber: RegExp;
+}
+
+// Country code and number lengths for the regions leads usually come from.
+// Numbers for other country codes are only checked against E.164 itself.
+// North American area codes can't start with 0 or 1; exchanges have the
+// same rule, but it isn't checked, so numbers like 555-123-4567 that people
+// use in forms and tests still go through.
+const PHONE_REGIONS: Record<string, PhoneRegion> = {
+  US: { callingCode: '1', trunkPrefix: '1', nationalNumber: /^[2-9]\d{9}$/ },
+  CA: { callingCode: '1', trunkPrefix: '1', nationalNumber: /^[2-9]\d{9}$/ },
+  GB: { callingCode: '44', trunkPrefix: '0', nationalNumber: /^[1-9]\d{8,9}$/ },
+  IE: { callingCode: '353', trunkPrefix: '0', nationalNumber: /^[1-9]\d{6,8}$/ },
+  FR: { callingCode: '33', trunkPrefix: '0', nationalNumber: /^[1-9]\d{8}$/ },
+  DE: { callingCode: '49', trunkPrefix: '0', nationalNumber: /^[1-9]\d{5,13}$/ },
+  ES: { callingCode: '34', nationalNumber: /^[5-9]\d{8}$/ },
+  // Italian numbers keep their leading 0
+  IT: { callingCode: '39', nationalNumber: /^[03]\d{5,10}$/ },
+  NL: { callingCode: '31', trunkPrefix: '0', nationalNumber: /^[1-9]\d{8}$/ },
+  AU: { callingCode: '61', trunkPrefix: '0', nationalNumber: /^[2-478]\d{8}$/ },
+  NZ: { callingCode: '64', trunkPrefix: '0', nationalNumber: /^[2-9]\d{7,9}$/ },
+  IN: { callingCode: '91', trunkPrefix: '0', nationalNumber: /^[1-9]\d{9}$/ },
+  MX: { callingCode: '52', nationalNumber: /^[1-9]\d{9}$/ },
+  BR: { callingCode: '55', trunkPrefix: '0', nationalNumber: /^[1-9]{2}9?\d{8}$/ },
+};
+
+export const PHONE_REGION_CODES = Object.keys(PHONE_REGIONS);
+
+export const DEFAULT_PHONE_REGION = process.env.NEXT_PUBLIC_DEFAULT_PHONE_REGION || 'US';
+
+// Characters people use to lay out phone numbers
+const FORMATTING = /[\s\-.()/]/g;
+
+// E.164 allows at most 15 digits after the +, country code included
+const E164 = /^\+[1-9]\d{6,14}$/;
+
+function findRegionByCallingCode(digits: string): PhoneRegion | undefined {
+  // Country codes are prefix-free, so at most one of these matches
+  return Object.values(PHONE_REGIONS).find(({ callingCode }) => digits.startsWith(callingCode));
+}
+
+function normalizeNational(digits: string, region: PhoneRegion): string | null {
+  let national = digits;
+  if (region.trunkPrefix && national.startsWith(region.trunkPrefix) && !region.nationalNumber.test(national)) {
+    national = national.slice(region.trunkPrefix.length);
+  }
+
+  return region.nationalNumber.test(national) ? `+${region.callingCode}${national}` : null;
+}
+
+/**
+ * A phone number in E.164 form, or null if it isn't a valid number
+ * @param region - Region for numbers written without a country code
+ */
+export function normalizePhone(input: string, region: string = DEFAULT_PHONE_REGION): string | null {
+  let value = input.replace(FORMATTING, '');
+  if (value.startsWith('00')) {
+    value = `+${value.slice(2)}`;
+  }
+
+  if (value.startsWith('+')) {
+    const digits = value.slice(1);
+    if (!/^\d+$/.test(digits)) {
+      return null;
+    }
+
+    const country = findRegionByCallingCode(digits);
+    if (!country) {
+      return E164.test(value) ? value : null;
+    }
+
+    // Some countries write the trunk prefix after the country code, e.g. +44 (0)20
+    const national = digits.slice(country.callingCode.length);
+    const normalized = normalizeNational(national, country);
+    return normalized && E164.test(normalized) ? normalized : null;
+  }
+
+  const home = PHONE_REGIONS[region.toUpperCase()];
+  if (!home || !/^\d+$/.test(value)) {
+    return null;
+  }
+
+  const normalized = normalizeNational(value, home);
+  return normalized && E164.test(normalized) ? normalized : null;
+}
+
+/**
+ * Check whether a string is a phone number normalizePhone accepts
+ */
+export function isValidPhone(input: string, region: string = DEFAULT_PHONE_REGION): boolean {
+  return normalizePhone(input, region) !== null;
+}
+
+/**
+ * An email address as stored: trimmed and lowercased, so addresses that
+ * differ only in case count as the same lead
+ */
+export function normalizeEmail(input: string): string {
+  return input.trim().toLowerCase();
+}
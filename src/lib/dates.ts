@@ -0,0 +1,201 @@
+/**
+ * Calendar helpers for scheduling.
+ *
+ * A "day" is a YYYY-MM-DD key in the business timezone (BUSINESS_TIMEZONE,
+ * default UTC). Queue names, quota slots and scheduledFor dates are all
+ * derived from day keys, so every part of the system agrees on when a day
+ * starts. Day keys are stored as midnight UTC of that calendar date.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface SendWindow {
+  sendWindowStart: string | null;
+  sendWindowEnd: string | null;
+  sendDays: number[];
+}
+
+/**
+ * Timezone used for day boundaries
+ */
+export function getBusinessTimeZone(): string {
+  return process.env.BUSINESS_TIMEZONE || 'UTC';
+}
+
+/**
+ * Check whether a string is an IANA timezone name this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Day key of an instant in a timezone
+ */
+export function getDayKey(instant: Date = new Date(), timeZone: string = getBusinessTimeZone()): string {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Stored form of a day key (midnight UTC of that calendar date)
+ */
+export function dayKeyToDate(dayKey: string): Date {
+  return new Date(`${dayKey}T00:00:00.000Z`);
+}
+
+/**
+ * Day key of a date stored with dayKeyToDate
+ */
+export function dateToDayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Move a day key forwards or backwards by whole days
+ */
+export function addDays(dayKey: string, days: number): string {
+  const date = dayKeyToDate(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return dateToDayKey(date);
+}
+
+/**
+ * Day of the week for a day key (0 = Sunday)
+ */
+export function getWeekday(dayKey: string): number {
+  return dayKeyToDate(dayKey).getUTCDay();
+}
+
+/**
+ * The instant a wall-clock time occurs on a day in a timezone
+ * @param dayKey - Calendar day
+ * @param minutes - Minutes after local midnight
+ * @param timeZone - IANA timezone
+ */
+export function zonedTimeToInstant(dayKey: string, minutes: number, timeZone: string): Date {
+  const wallClock = dayKeyToDate(dayKey).getTime() + minutes * 60000;
+
+  // Correct twice so the result is right across DST transitions
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+
+  return new Date(instant);
+}
+
+/**
+ * Start of a business day as an instant
+ */
+export function startOfDay(dayKey: string, timeZone: string = getBusinessTimeZone()): Date {
+  return zonedTimeToInstant(dayKey, 0, timeZone);
+}
+
+/**
+ * Parse an "HH:MM" time of day into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day "${value}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check whether a send window allows sending on a day at all
+ */
+export function isSendDay(window: Pick<SendWindow, 'sendDays'>, dayKey: string): boolean {
+  return window.sendDays.length === 0 || window.sendDays.includes(getWeekday(dayKey));
+}
+
+/**
+ * Find when a send window next allows sending
+ * @param window - Window hours and weekdays, in the recipient's local time
+ * @param timeZone - Recipient's timezone
+ * @param now - Current time
+ * @returns now if the window is open, otherwise the instant it next opens
+ */
+export function getNextWindowOpening(
+  window: SendWindow,
+  timeZone: string,
+  now: Date = new Date()
+): Date {
+  const opensAt = window.sendWindowStart ? parseTimeOfDay(window.sendWindowStart) : 0;
+  const closesAt = window.sendWindowEnd ? parseTimeOfDay(window.sendWindowEnd) : MINUTES_PER_DAY;
+  const today = getDayKey(now, timeZone);
+
+  // A week ahead always reaches an allowed weekday
+  for (let i = 0; i <= 7; i++) {
+    const dayKey = addDays(today, i);
+    if (!isSendDay(window, dayKey)) {
+      continue;
+    }
+
+    const open = zonedTimeToInstant(dayKey, opensAt, timeZone);
+    const close = zonedTimeToInstant(dayKey, closesAt, timeZone);
+
+    if (now < open) {
+      return open;
+    }
+    if (now < close) {
+      return now;
+    }
+  }
+
+  return now;
+}
@@ -0,0 +1,209 @@
+/**
+ * Dead-letter queue for messages the worker keeps failing on.
+ *
+ * Once a message has been read WORKER_MAX_READ_COUNT times without being
+ * processed, it is moved to drip-messages-dlq together with the error, and
+ * its lead is marked FAILED so nothing else is sent to it. Requeueing an
+ * entry makes the lead ACTIVE again and reschedules its remaining steps.
+ */
+
+import { prisma } from './prisma';
+import {
+  createQueue,
+  sendMessage,
+  peekMessages,
+  deleteMessage,
+  QueueMessage,
+  QueueNotFoundError,
+  QueueRecord,
+} from './queue';
+import { getQueueName, cancelPendingMessages } from './scheduler';
+import { enqueueLeadScheduling, relayOutboxEvent } from './outbox';
+import type { Lead } from '../generated/prisma';
+
+// Reads after which a failing message is dead-lettered
+export const MAX_READ_COUNT = parseInt(process.env.WORKER_MAX_READ_COUNT || '5');
+
+// Most entries returned by one listing
+export const MAX_DEAD_LETTERS = 100;
+
+export interface DeadLetterMessage extends QueueMessage {
+  sourceQueue: string;
+  sourceMsgId: string;
+  readCount: number;
+  error: string;
+  failedAt: string;
+}
+
+export interface DeadLetter {
+  id: string;
+  enqueuedAt: string;
+  message: DeadLetterMessage;
+}
+
+/**
+ * Raised when a dead letter can't be requeued because of its lead's state
+ */
+export class DeadLetterRequeueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadLetterRequeueError';
+  }
+}
+
+/**
+ * Name of the dead-letter queue
+ * In test mode, prefix with "test-"
+ */
+export function getDeadLetterQueueName(): string {
+  return getQueueName('drip-messages-dlq');
+}
+
+/**
+ * Move a failing message to the dead-letter queue and mark its lead FAILED.
+ * The lead's other queued messages are cancelled.
+ */
+export async function deadLetterMessage(
+  queueName: string,
+  msgId: string,
+  message: QueueMessage,
+  readCount: number,
+  error: unknown
+): Promise<void> {
+  const reason = error instanceof Error ? error.message : String(error);
+  const deadLetterQueue = getDeadLetterQueueName();
+
+  const deadLetter: DeadLetterMessage = {
+    ...message,
+    sourceQueue: queueName,
+    sourceMsgId: String(msgId),
+    readCount,
+    error: reason,
+    failedAt: new Date().toISOString(),
+  };
+
+  await createQueue(deadLetterQueue);
+  await sendMessage(deadLetterQueue, deadLetter);
+  await deleteMessage(queueName, msgId);
+
+  console.log(`Moved message #${message.messageNumber} for ${message.email} to ${deadLetterQueue} after ${readCount} reads`);
+
+  // The lead may have been deleted in the meantime
+  const lead = await prisma.lead.findUnique({ where: { id: message.leadId } });
+  if (!lead) {
+    return;
+  }
+
+  await prisma.lead.update({
+    where: { id: lead.id },
+    data: {
+      status: 'FAILED',
+      failureReason: `Message #${message.messageNumber} failed after ${readCount} attempts: ${reason}`,
+      nextScheduledFor: null,
+    },
+  });
+
+  await cancelPendingMessages(lead);
+}
+
+function toDeadLetter({ msgId, enqueuedAt, message }: QueueRecord<DeadLetterMessage>): DeadLetter {
+  return { id: msgId, enqueuedAt, message };
+}
+
+/**
+ * List dead letters, oldest first. They are peeked at rather than read, so
+ * they stay where they are; nothing else reads the dead-letter queue, so
+ * pgmq-rest, which only peeks at visible messages, sees them all.
+ * @param after - ID of the last entry already seen, to page through the queue
+ */
+export async function listDeadLetters(
+  limit: number = MAX_DEAD_LETTERS,
+  after?: string
+): Promise<DeadLetter[]> {
+  try {
+    const messages = await peekMessages<DeadLetterMessage>(
+      getDeadLetterQueueName(),
+      Math.min(limit, MAX_DEAD_LETTERS),
+      after
+    );
+    return messages.map(toDeadLetter);
+  } catch (error) {
+    // Nothing has been dead-lettered yet
+    if (error instanceof QueueNotFoundError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find a dead letter by its message ID
+ * @returns The entry, or null if it doesn't exist
+ */
+export async function getDeadLetter(id: string): Promise<DeadLetter | null> {
+  // Message IDs are numbers; nothing else can name an entry
+  if (!/^\d+$/.test(id)) {
+    return null;
+  }
+
+  // The first entry after the ID below it is the entry itself, if it still exists
+  const [deadLetter] = await listDeadLetters(1, String(BigInt(id) - BigInt(1)));
+  return deadLetter?.id === id ? deadLetter : null;
+}
+
+/**
+ * Put a dead-lettered lead back on its campaign: the lead becomes ACTIVE
+ * again and every step it hasn't received, including the failed one, is
+ * scheduled again from today. The entry is removed from the dead-letter queue.
+ * @returns The updated lead, or null if the entry doesn't exist
+ */
+export async function requeueDeadLetter(id: string): Promise<Lead | null> {
+  const deadLetter = await getDeadLetter(id);
+  if (!deadLetter) {
+    return null;
+  }
+
+  const { leadId } = deadLetter.message;
+
+  // The outbox event is written with the status change, so the rescheduling
+  // is retried if it fails now
+  const event = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.lead.updateMany({
+      where: { id: leadId, status: 'FAILED' },
+      data: { status: 'ACTIVE', failureReason: null },
+    });
+
+    return count === 1 ? enqueueLeadScheduling(leadId, tx) : null;
+  });
+
+  if (!event) {
+    const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+    throw new DeadLetterRequeueError(
+      lead
+        ? `Only failed leads can be requeued (lead is ${lead.status})`
+        : `Lead ${leadId} no longer exists`
+    );
+  }
+
+  try {
+    await relayOutboxEvent(event.id);
+  } catch (error) {
+    console.error(`Error rescheduling messages for lead ${leadId}:`, error);
+  }
+
+  await deleteMessage(getDeadLetterQueueName(), id);
+
+  return prisma.lead.findUniqueOrThrow({ where: { id: leadId } });
+}
+
+/**
+ * Drop a dead letter without requeueing it
+ * @returns Whether the entry existed
+ */
+export async function discardDeadLetter(id: string): Promise<boolean> {
+  if (!(await getDeadLetter(id))) {
+    return false;
+  }
+
+  return deleteMessage(getDeadLetterQueueName(), id);
+}
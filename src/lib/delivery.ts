@@ -0,0 +1,279 @@
+/**
+ * Delivery channels used by the drip worker to actually send messages.
+ *
+ * Each logical channel (EMAIL, SMS) is backed by a transport selected via
+ * DELIVERY_MODE:
+ * - "live":   SMTP for email, HTTP gateway for SMS
+ * - "file":   append every message as a JSON line to DELIVERY_FILE_PATH
+ * - "memory": keep messages in process (default in test mode)
+ */
+
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { Channel } from '../generated/prisma';
+
+export interface OutgoingMessage {
+  leadId: string;
+  messageNumber: number;
+  to: string;
+  subject: string;
+  body: string;
+  format?: 'text' | 'html';
+  headers?: Record<string, string>;
+  // The same for every attempt at sending one message, so a provider can
+  // drop a repeat of a send whose outcome the worker never learned
+  idempotencyKey?: string;
+}
+
+export interface DeliveryResult {
+  providerMessageId: string;
+  transport: string;
+}
+
+export interface DeliveryChannel {
+  readonly transport: string;
+  send(message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+/**
+ * Raised when a transport fails to hand off a message to its provider
+ */
+export class DeliveryError extends Error {
+  readonly transport: string;
+
+  constructor(transport: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DeliveryError';
+    this.transport = transport;
+  }
+}
+
+function messageIdDomain(from: string): string {
+  const address = from.match(/<([^>]+)>/)?.[1] ?? from;
+  return address.split('@')[1]?.trim() || 'hyperdrip';
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Email over SMTP
+ */
+export class SmtpEmailChannel implements DeliveryChannel {
+  readonly transport = 'smtp';
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? false,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        ...(message.format === 'html' ? { html: message.body } : { text: message.body }),
+        headers: message.headers,
+        // A fixed Message-ID lets mail systems recognise a resent copy
+        messageId: message.idempotencyKey ? `<${message.idempotencyKey}@${messageIdDomain(this.from)}>` : undefined,
+      });
+
+      return { providerMessageId: info.messageId, transport: this.transport };
+    } catch (error) {
+      throw new DeliveryError(this.transport, `SMTP delivery to ${message.to} failed`, { cause: error });
+    }
+  }
+}
+
+export interface SmsGatewayOptions {
+  url: string;
+  token?: string;
+  from: string;
+}
+
+/**
+ * SMS through an HTTP gateway.
+ * The gateway receives { from, to, body } and responds with { id }. The
+ * message's idempotency key goes in an Idempotency-Key header.
+ */
+export class HttpSmsChannel implements DeliveryChannel {
+  readonly transport = 'sms-gateway';
+
+  constructor(private readonly options: SmsGatewayOptions) {}
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    let response: Response;
+    try {
+      response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {}),
+          ...(message.idempotencyKey ? { 'Idempotency-Key': message.idempotencyKey } : {}),
+        },
+        body: JSON.stringify({
+          from: this.options.from,
+          to: message.to,
+          body: message.body,
+        }),
+      });
+    } catch (error) {
+      throw new DeliveryError(this.transport, `SMS gateway unreachable for ${message.to}`, { cause: error });
+    }
+
+    if (!response.ok) {
+      throw new DeliveryError(this.transport, `SMS gateway rejected message to ${message.to}: status ${response.status}`);
+    }
+
+    const result = await response.json();
+    const providerMessageId = result?.id ?? result?.messageId;
+
+    if (!providerMessageId) {
+      throw new DeliveryError(this.transport, 'Invalid response format from SMS gateway');
+    }
+
+    return { providerMessageId: String(providerMessageId), transport: this.transport };
+  }
+}
+
+/**
+ * Appends each message to a newline-delimited JSON file
+ */
+export class FileSinkChannel implements DeliveryChannel {
+  readonly transport = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const providerMessageId = `file-${randomUUID()}`;
+
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(
+        this.filePath,
+        `${JSON.stringify({ id: providerMessageId, sentAt: new Date().toISOString(), ...message })}\n`
+      );
+    } catch (error) {
+      throw new DeliveryError(this.transport, `Could not write message to ${this.filePath}`, { cause: error });
+    }
+
+    return { providerMessageId, transport: this.transport };
+  }
+}
+
+/**
+ * Keeps sent messages in memory so tests can assert on them. Like a provider
+ * that honours idempotency keys, it keeps a repeated key only once.
+ */
+export class MemorySinkChannel implements DeliveryChannel {
+  readonly transport = 'memory';
+  readonly messages: Array<OutgoingMessage & { id: string }> = [];
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const sent = message.idempotencyKey
+      ? this.messages.find(({ idempotencyKey }) => idempotencyKey === message.idempotencyKey)
+      : undefined;
+    if (sent) {
+      return { providerMessageId: sent.id, transport: this.transport };
+    }
+
+    const providerMessageId = `memory-${randomUUID()}`;
+    this.messages.push({ id: providerMessageId, ...message });
+    return { providerMessageId, transport: this.transport };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+const channels = new Map<Channel, DeliveryChannel>();
+
+function getDeliveryMode(): string {
+  if (process.env.DELIVERY_MODE) {
+    return process.env.DELIVERY_MODE;
+  }
+
+  return process.env.NODE_ENV === 'test' ? 'memory' : 'live';
+}
+
+function createDeliveryChannel(channel: Channel): DeliveryChannel {
+  const mode = getDeliveryMode();
+
+  if (mode === 'memory') {
+    return new MemorySinkChannel();
+  }
+
+  if (mode === 'file') {
+    return new FileSinkChannel(process.env.DELIVERY_FILE_PATH || './tmp/deliveries.ndjson');
+  }
+
+  if (channel === 'SMS') {
+    return new HttpSmsChannel({
+      url: process.env.SMS_GATEWAY_URL || 'http://localhost:8090/messages',
+      token: process.env.SMS_GATEWAY_TOKEN,
+      from: process.env.SMS_FROM || 'hyperdrip',
+    });
+  }
+
+  return new SmtpEmailChannel({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '1025'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || 'hyperdrip@localhost',
+  });
+}
+
+/**
+ * Get the configured delivery channel for a logical channel
+ * @param channel - Logical channel (EMAIL or SMS)
+ * @returns DeliveryChannel
+ */
+export function getDeliveryChannel(channel: Channel): DeliveryChannel {
+  let deliveryChannel = channels.get(channel);
+
+  if (!deliveryChannel) {
+    deliveryChannel = createDeliveryChannel(channel);
+    channels.set(channel, deliveryChannel);
+  }
+
+  return deliveryChannel;
+}
+
+/**
+ * Override the delivery channel for a logical channel (tests, custom providers)
+ * @param channel - Logical channel (EMAIL or SMS)
+ * @param deliveryChannel - Implementation to use, or null to fall back to config
+ */
+export function setDeliveryChannel(channel: Channel, deliveryChannel: DeliveryChannel | null): void {
+  if (deliveryChannel) {
+    channels.set(channel, deliveryChannel);
+  } else {
+    channels.delete(channel);
+  }
+}
+
+/**
+ * Pick the address a lead should be contacted at for a channel
+ */
+export function recipientFor(channel: Channel, lead: { email: string; phone: string }): string {
+  return channel === 'SMS' ? lead.phone : lead.email;
+}
@@ -1,24 +1,70 @@
 import { prisma } from './prisma';
-import { readMessagesWithPoll, archiveMessage, dropQueue, createQueue, QueueMessage } from './queue';
+import {
+  readMessagesWithPoll,
+  archiveMessage,
+  dropQueue,
+  createQueue,
+  setVisibilityTimeout,
+  getQueueLength,
+  QueueMessage,
+  QueueNotFoundError,
+  PgmqUnavailableError,
+  type QueueRecord,
+} from './queue';
+import { getDeliveryChannel, recipientFor, DeliveryError, DeliveryResult } from './delivery';
+import { renderLeadMessage } from './templates';
+import { getLeadCampaign, getCampaignStep, CampaignDefinition, CampaignStepDefinition } from './campaigns';
+import { getQueueNameForDay, getTodayMessageCount, moveScheduledMessage } from './scheduler';
+import { DAILY_MAX } from './quota';
+import { addDays, dayKeyToDate, getBusinessTimeZone, getDayKey, getNextWindowOpening } from './dates';
+import { isSuppressed, getUnsubscribeUrl } from './unsubscribe';
+import { deadLetterMessage, MAX_READ_COUNT } from './dead-letter';
+import { relayOutbox } from './outbox';
+import { acquireLease, releaseLease } from './leases';
+import { pruneRateLimitHits } from './rate-limit';
+import { pruneIdempotencyKeys } from './idempotency';
+import { LEAD_RATE_LIMIT_WINDOW_MS } from './submission-guard';
+import type { Lead } from '../generated/prisma';
+
+// Messages handled at the same time; a lead's messages still go one by one
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.WORKER_CONCURRENCY || '1'));
+
+// Held by the one worker process that cleans up old queues
+const LEADER_LEASE = 'drip-worker-leader';
+const LEADER_LEASE_MS = 60 * 1000;
+
+// How long a paused lead's message stays hidden before it is looked at again
+const PAUSED_RECHECK_SECONDS = 60 * 60;
 
 let isRunning = false;
-let workerInterval: NodeJS.Timeout | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+// The cycle in progress, so stopping can wait for it to finish
+let currentCycle: Promise<void> | null = null;
+// Bumped on every start, so a cycle still running from before a restart
+// doesn't carry on polling alongside the new one
+let workerGeneration = 0;
+// Day this process last cleaned up old queues as the leader
+let lastCleanupDay: string | null = null;
+
+// A message about to be sent, with what it needs to be sent and recorded
+interface PendingDelivery {
+  lead: Lead;
+  campaign: CampaignDefinition;
+  step: CampaignStepDefinition;
+  // The same for every attempt at sending this message
+  idempotencyKey: string;
+}
+
+function getPollInterval(): number {
+  return parseInt(process.env.WORKER_POLL_INTERVAL || '5000');
+}
 
 /**
  * Get today's queue name in format: drip-messages-YYYY-MM-DD
  * In test mode, prefix with "test-"
  */
 function getTodayQueueName(): string {
-  const today = new Date();
-  const dateStr = today.toISOString().split('T')[0]; // YYYY-MM-DD format
-  const queueName = `drip-messages-${dateStr}`;
-
-  // Prefix with "test-" when in test mode
-  if (process.env.NODE_ENV === 'test' || process.env.NEXT_PHASE === 'test') {
-    return `test-${queueName}`;
-  }
-
-  return queueName;
+  return getQueueNameForDay(getDayKey());
 }
 
 /**
@@ -38,18 +84,50 @@ async function ensureTodayQueueExists(): Promise<void> {
 }
 
 /**
- * Clean up old queues from previous days
+ * Drop a queue from an earlier day, but only once every message on it has
+ * been processed and archived
+ * @returns Whether the queue was dropped
+ */
+async function dropQueueIfDrained(queueName: string): Promise<boolean> {
+  let exists = true;
+  try {
+    const length = await getQueueLength(queueName);
+    if (length > 0) {
+      console.log(`Queue ${queueName} still has ${length} messages, keeping it for catch-up`);
+      return false;
+    }
+  } catch (error) {
+    if (!(error instanceof QueueNotFoundError)) {
+      throw error;
+    }
+    exists = false;
+  }
+
+  if (exists) {
+    await dropQueue(queueName);
+    console.log(`Dropped old queue: ${queueName}`);
+  }
+
+  // Anything still booked on the queue was archived without being sent
+  await prisma.scheduledMessage.updateMany({
+    where: { queueName, status: 'SCHEDULED' },
+    data: { status: 'CANCELLED' },
+  });
+
+  return exists;
+}
+
+/**
+ * Clean up drained queues from previous days
  */
 async function cleanupOldQueues(): Promise<void> {
   try {
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
+    const today = getDayKey();
 
     // Clean up queues from the last 7 days (except today)
     const queueNames = [];
     for (let i = 1; i < 7; i++) {
-      const date = new Date(today.getTime() - (i * 86400000)); // i days ago
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = addDays(today, -i);
 
       // Add both test and production queue names
       queueNames.push(`drip-messages-${dateStr}`);
@@ -58,11 +136,10 @@ async function cleanupOldQueues(): Promise<void> {
 
     console.log('Cleaning up old queues...');
 
-    // Drop each queue (best effort - don't fail if queue doesn't exist)
+    // Drop each drained queue (best effort - don't fail if queue doesn't exist)
     const dropPromises = queueNames.map(async (queueName) => {
       try {
-        await dropQueue(queueName);
-        console.log(`Dropped old queue: ${queueName}`);
+        await dropQueueIfDrained(queueName);
       } catch (error) {
         // Queue might not exist, that's okay
         console.log(`Queue ${queueName} not found or already dropped`);
@@ -83,110 +160,465 @@ async function cleanupOldQueues(): Promise<void> {
 }
 
 /**
- * Process a single message with duplicate prevention
+ * Queues of earlier days that still have messages booked on them, oldest first
  */
-async function processMessage(
+async function getOverdueQueueNames(): Promise<string[]> {
+  const overdue = await prisma.scheduledMessage.findMany({
+    where: {
+      status: 'SCHEDULED',
+      scheduledFor: { lt: dayKeyToDate(getDayKey()) },
+    },
+    distinct: ['queueName'],
+    orderBy: { scheduledFor: 'asc' },
+    select: { queueName: true },
+  });
+
+  return overdue.map((scheduled) => scheduled.queueName);
+}
+
+/**
+ * Send a campaign step to a lead through the step's delivery channel
+ */
+async function deliverLeadMessage({ lead, step, idempotencyKey }: PendingDelivery): Promise<DeliveryResult> {
+  const deliveryChannel = getDeliveryChannel(step.channel);
+  const rendered = await renderLeadMessage(lead, step);
+
+  return deliveryChannel.send({
+    leadId: lead.id,
+    messageNumber: step.stepNumber,
+    to: recipientFor(step.channel, lead),
+    ...rendered,
+    // One-click unsubscribe (RFC 8058) for mail clients that support it
+    headers: step.channel === 'EMAIL'
+      ? {
+          'List-Unsubscribe': `<${getUnsubscribeUrl(lead.id)}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }
+      : undefined,
+    idempotencyKey,
+  });
+}
+
+/**
+ * Record a failed delivery attempt on the lead
+ */
+async function recordDeliveryFailure(leadId: string, error: DeliveryError): Promise<void> {
+  try {
+    await prisma.lead.update({
+      where: { id: leadId },
+      data: {
+        lastDeliveryStatus: 'FAILED',
+        lastDeliveryError: error.message,
+      },
+    });
+  } catch (updateError) {
+    console.error(`Error recording delivery failure for lead ${leadId}:`, updateError);
+  }
+}
+
+/**
+ * Hold a message until the campaign's send window opens for the lead.
+ * Within today the message is just hidden until then; otherwise it moves
+ * to the queue of the day the window opens.
+ */
+async function holdUntilWindowOpens(
   queueName: string,
   msgId: string,
-  message: QueueMessage
+  lead: Lead,
+  campaign: CampaignDefinition,
+  messageNumber: number,
+  opensAt: Date
 ): Promise<void> {
-  const { leadId, email, messageNumber, scheduledDate } = message;
+  const openDay = getDayKey(opensAt);
 
-  try {
-    // Use Prisma transaction for atomic updates
-    await prisma.$transaction(async (tx) => {
-      const lead = await tx.lead.findUnique({
-        where: { id: leadId }
-      });
+  if (getQueueNameForDay(openDay) === queueName) {
+    const seconds = Math.ceil((opensAt.getTime() - Date.now()) / 1000);
+    await setVisibilityTimeout(queueName, msgId, seconds);
+    console.log(`Send window closed for ${lead.email}, holding message #${messageNumber} until ${opensAt.toISOString()}`);
+    return;
+  }
 
-      if (!lead) {
-        console.log(`Lead ${leadId} not found, archiving message`);
-        await archiveMessage(queueName, msgId);
-        return;
-      }
+  const movedTo = await moveScheduledMessage(lead, campaign, messageNumber, queueName, msgId, openDay);
+  await archiveMessage(queueName, msgId);
+  console.log(`Send window closed for ${lead.email}, moved message #${messageNumber} to ${movedTo}`);
+}
 
-      // Duplicate check: messageCount should be messageNumber - 1
-      if (lead.messageCount === messageNumber - 1) {
-        // Send message
-        console.log(`Sending message #${messageNumber} to ${email} (scheduled for ${scheduledDate})`);
+/**
+ * Decide what to do with a message. Messages that aren't to be sent are
+ * archived or held here; for one that is, the intent to send it is
+ * committed to the ledger before anything goes out.
+ * @returns The delivery to make, or null if there is nothing to send
+ */
+async function prepareDelivery(
+  queueName: string,
+  msgId: string,
+  message: QueueMessage
+): Promise<PendingDelivery | null> {
+  const { leadId, email, messageNumber } = message;
+
+  return prisma.$transaction(async (tx) => {
+    const lead = await tx.lead.findUnique({
+      where: { id: leadId }
+    });
+
+    if (!lead) {
+      console.log(`Lead ${leadId} not found, archiving message`);
+      await archiveMessage(queueName, msgId);
+      return null;
+    }
 
-        // Update lead
-        const newMessageCount = lead.messageCount + 1;
-        const isCompleted = newMessageCount >= lead.maxMessages;
+    // Never send to opted-out contacts, even if the opt-out came from another lead record
+    if (lead.status === 'UNSUBSCRIBED' || await isSuppressed(lead, tx)) {
+      console.log(`Lead ${email} is unsubscribed, archiving message #${messageNumber}`);
 
+      if (lead.status !== 'UNSUBSCRIBED') {
         await tx.lead.update({
           where: { id: leadId },
           data: {
-            messageCount: newMessageCount,
-            lastSentAt: new Date(),
-            nextScheduledFor: isCompleted
-              ? null
-              : new Date(Date.now() + 86400000), // tomorrow
-            status: isCompleted ? 'COMPLETED' : 'ACTIVE'
+            status: 'UNSUBSCRIBED',
+            unsubscribedAt: new Date(),
+            nextScheduledFor: null
           }
         });
+      }
 
-        if (isCompleted) {
-          console.log(`Lead ${email} completed drip campaign (${newMessageCount}/${lead.maxMessages} messages)`);
-        }
+      await archiveMessage(queueName, msgId);
+      return null;
+    }
+
+    // Cancelled, or given up on; nothing more goes out to it
+    if (lead.status === 'CANCELLED' || lead.status === 'FAILED') {
+      console.log(`Lead ${email} is ${lead.status.toLowerCase()}, archiving message #${messageNumber}`);
+      await archiveMessage(queueName, msgId);
+      return null;
+    }
+
+    // Leave the message in the queue, out of sight for a while so it doesn't
+    // come back on every poll; resuming reschedules the remaining steps
+    if (lead.status === 'PAUSED') {
+      console.log(`Lead ${email} is paused, skipping message #${messageNumber}`);
+      await setVisibilityTimeout(queueName, msgId, PAUSED_RECHECK_SECONDS);
+      return null;
+    }
+
+    const campaign = await getLeadCampaign(lead, tx);
+    const step = getCampaignStep(campaign, messageNumber);
+
+    if (!step) {
+      console.log(`Campaign ${campaign.name} has no step #${messageNumber} for ${email}, archiving`);
+      await archiveMessage(queueName, msgId);
+      return null;
+    }
+
+    // Duplicate check: messageCount should be messageNumber - 1
+    if (lead.messageCount !== messageNumber - 1) {
+      // Already processed by another worker, just archive
+      console.log(`Message ${messageNumber} for ${email} already processed (current count: ${lead.messageCount}), archiving`);
+      await archiveMessage(queueName, msgId);
+      return null;
+    }
+
+    // Respect the campaign's send window in the lead's local time
+    const opensAt = getNextWindowOpening(campaign, lead.timezone ?? getBusinessTimeZone());
+    if (opensAt.getTime() > Date.now()) {
+      await holdUntilWindowOpens(queueName, msgId, lead, campaign, messageNumber, opensAt);
+      return null;
+    }
+
+    const scheduled = await tx.scheduledMessage.findFirst({
+      where: { queueName, msgId: String(msgId) }
+    });
+
+    if (scheduled?.sendStartedAt) {
+      console.log(`An earlier attempt at message #${messageNumber} for ${email} stopped part way, sending again with the same idempotency key`);
+    } else if (scheduled) {
+      await tx.scheduledMessage.update({
+        where: { id: scheduled.id },
+        data: { sendStartedAt: new Date() }
+      });
+    }
+
+    return {
+      lead,
+      campaign,
+      step,
+      idempotencyKey: scheduled?.id ?? `${queueName}:${msgId}`,
+    };
+  });
+}
 
-        // Archive message only after successful DB update
-        await archiveMessage(queueName, msgId);
-      } else {
-        // Already processed by another worker, just archive
-        console.log(`Message ${messageNumber} for ${email} already processed (current count: ${lead.messageCount}), archiving`);
-        await archiveMessage(queueName, msgId);
+/**
+ * Record a delivered message on the lead and in the ledger, then archive it
+ */
+async function recordDelivery(
+  queueName: string,
+  msgId: string,
+  { lead, campaign, step }: PendingDelivery,
+  delivery: DeliveryResult
+): Promise<void> {
+  const newMessageCount = step.stepNumber;
+  const nextStep = getCampaignStep(campaign, newMessageCount + 1);
+  const isCompleted = !nextStep;
+
+  await prisma.$transaction(async (tx) => {
+    // Only counts the step once, whatever else happened while it was sent
+    const { count } = await tx.lead.updateMany({
+      where: { id: lead.id, messageCount: newMessageCount - 1 },
+      data: {
+        messageCount: newMessageCount,
+        lastSentAt: new Date(),
+        nextScheduledFor: nextStep
+          ? new Date(Date.now() + (nextStep.delayDays - step.delayDays) * 86400000)
+          : null,
+        lastProviderMessageId: delivery.providerMessageId,
+        lastDeliveryStatus: 'SENT',
+        lastDeliveryError: null
       }
     });
+
+    if (count === 0) {
+      console.log(`Message ${newMessageCount} for ${lead.email} was already recorded, archiving`);
+      return;
+    }
+
+    // Paused or unsubscribed while the message was being sent; leave that be
+    if (isCompleted) {
+      await tx.lead.updateMany({
+        where: { id: lead.id, status: 'ACTIVE' },
+        data: { status: 'COMPLETED' }
+      });
+      console.log(`Lead ${lead.email} completed drip campaign ${campaign.name} (${newMessageCount}/${campaign.steps.length} messages)`);
+    }
+
+    // Record the send in the ledger
+    await tx.scheduledMessage.updateMany({
+      where: { queueName, msgId: String(msgId) },
+      data: { status: 'SENT', sentAt: new Date(), providerMessageId: delivery.providerMessageId }
+    });
+  });
+
+  // Archive message only after successful DB update
+  await archiveMessage(queueName, msgId);
+}
+
+/**
+ * Process a single message with duplicate prevention. Sending happens
+ * between two transactions, never inside one: if recording the result
+ * fails, the retry sends again with the same idempotency key, which the
+ * channel uses to keep the provider from delivering it twice.
+ */
+async function processMessage(
+  queueName: string,
+  msgId: string,
+  message: QueueMessage
+): Promise<void> {
+  const { leadId, email, messageNumber, scheduledDate } = message;
+
+  try {
+    const pending = await prepareDelivery(queueName, msgId, message);
+    if (!pending) {
+      return;
+    }
+
+    console.log(`Sending message #${messageNumber} to ${email} (scheduled for ${scheduledDate})`);
+    const delivery = await deliverLeadMessage(pending);
+    console.log(`Delivered message #${messageNumber} to ${email} via ${delivery.transport} (${delivery.providerMessageId})`);
+
+    await recordDelivery(queueName, msgId, pending, delivery);
   } catch (error) {
     console.error(`Error processing message ${messageNumber} for ${email}:`, error);
+
+    if (error instanceof DeliveryError) {
+      await recordDeliveryFailure(leadId, error);
+    }
+
     // DO NOT archive message on error - let visibility timeout expire for retry
     throw error;
   }
 }
 
 /**
- * Process messages from today's queue
+ * Process a message, dead-lettering it once it has failed too often
  */
-async function processTodayMessages(): Promise<void> {
-  const queueName = getTodayQueueName();
+async function handleQueueRecord(queueName: string, { msgId, readCount, message }: QueueRecord): Promise<void> {
+  try {
+    await processMessage(queueName, msgId, message);
 
+    // Add delay between message sends for spacing, unless shutting down
+    if (isRunning) {
+      const delay = parseInt(process.env.WORKER_MESSAGE_DELAY || '2000');
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+  } catch (error) {
+    console.error(`Failed to process message ${msgId}:`, error);
+
+    if (readCount >= MAX_READ_COUNT) {
+      // Give up on poison messages instead of retrying them forever
+      try {
+        await deadLetterMessage(queueName, msgId, message, readCount, error);
+      } catch (deadLetterError) {
+        console.error(`Error dead-lettering message ${msgId}:`, deadLetterError);
+      }
+    }
+    // Otherwise the message will remain in queue due to visibility timeout
+  }
+}
+
+/**
+ * Process a batch of up to WORKER_CONCURRENCY messages from a queue at once.
+ * Messages for the same lead are processed in order, one after the other,
+ * since each step expects the previous one to have been sent.
+ * @param limit - Most messages to read, e.g. what's left of today's quota
+ * @returns Number of messages read
+ */
+async function processQueueMessages(queueName: string, limit: number = WORKER_CONCURRENCY): Promise<number> {
   try {
     // Use readMessagesWithPoll for efficient polling
-    const messages = await readMessagesWithPoll(queueName, 30, 1);
+    const messages = await readMessagesWithPoll(queueName, 30, Math.min(WORKER_CONCURRENCY, limit));
 
     if (messages.length === 0) {
-      return; // No messages, will poll again
+      return 0; // No messages, will poll again
     }
 
-    for (const [msgId, readCt, enqueuedAt, vt, message, extra] of messages) {
-      try {
-        await processMessage(queueName, msgId, message);
+    const byLead = new Map<string, QueueRecord[]>();
+    for (const record of messages) {
+      byLead.set(record.message.leadId, [...(byLead.get(record.message.leadId) ?? []), record]);
+    }
 
-        // Add delay between message sends for spacing
-        const delay = parseInt(process.env.WORKER_MESSAGE_DELAY || '2000');
-        await new Promise(resolve => setTimeout(resolve, delay));
+    await Promise.all(
+      [...byLead.values()].map(async (records) => {
+        records.sort((a, b) => a.message.messageNumber - b.message.messageNumber);
+        for (const record of records) {
+          await handleQueueRecord(queueName, record);
+        }
+      })
+    );
 
-      } catch (error) {
-        console.error(`Failed to process message ${msgId}:`, error);
-        // Message will remain in queue due to visibility timeout
-      }
-    }
+    return messages.length;
   } catch (error) {
     // Handle specific error cases gracefully
-    if (error instanceof Error) {
-      if (error.message.includes('HTTP error! status: 500')) {
-        // Queue doesn't exist yet or PGMQ service is starting up
-        console.log(`Queue ${queueName} not ready yet, will retry...`);
-        return;
-      } else if (error.message.includes('HTTP error! status: 404')) {
-        // Queue doesn't exist - this is normal when no leads have been created yet
-        console.log(`Queue ${queueName} doesn't exist yet, will retry...`);
+    if (error instanceof QueueNotFoundError) {
+      // Queue doesn't exist - this is normal when no leads have been created yet
+      console.log(`Queue ${queueName} doesn't exist yet, will retry...`);
+      return 0;
+    }
+    if (error instanceof PgmqUnavailableError) {
+      // PGMQ service is starting up or unreachable
+      console.log(`Queue ${queueName} not ready yet (${error.message}), will retry...`);
+      return 0;
+    }
+
+    console.error(`Error reading from queue ${queueName}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Process due messages: queues from earlier days are drained first, oldest
+ * first, then today's queue. Nothing is sent once DAILY_MAX messages have
+ * gone out today; whatever is left is picked up tomorrow.
+ */
+async function processDueMessages(): Promise<void> {
+  let remaining = WORKER_CONCURRENCY;
+
+  try {
+    remaining = DAILY_MAX - await getTodayMessageCount();
+    if (remaining <= 0) {
+      console.log(`Daily limit of ${DAILY_MAX} messages reached, waiting until tomorrow`);
+      return;
+    }
+
+    for (const queueName of await getOverdueQueueNames()) {
+      if (await processQueueMessages(queueName, remaining) > 0) {
         return;
       }
+
+      // Nothing readable left; drop the queue once its last messages are archived
+      try {
+        await dropQueueIfDrained(queueName);
+      } catch (error) {
+        console.error(`Error dropping drained queue ${queueName}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error processing overdue queues:', error);
+  }
+
+  await processQueueMessages(getTodayQueueName(), remaining);
+}
+
+/**
+ * Queue the messages of leads whose scheduling hasn't gone through yet
+ */
+async function relayPendingOutbox(): Promise<void> {
+  try {
+    const relayed = await relayOutbox();
+    if (relayed > 0) {
+      console.log(`Scheduled messages for ${relayed} lead(s) from the outbox`);
     }
+  } catch (error) {
+    console.error('Error relaying outbox events:', error);
+  }
+}
 
-    console.error(`Error reading from queue ${queueName}:`, error);
+/**
+ * Work only one worker process should do. Whichever holds the leader lease
+ * drops drained queues from earlier days and prunes expired rate limit
+ * hits and idempotency keys, on start and once a day after that; the
+ * others leave it to the leader.
+ */
+async function runLeaderTasks(): Promise<void> {
+  try {
+    const leaseMs = Math.max(LEADER_LEASE_MS, 3 * getPollInterval());
+    if (!(await acquireLease(LEADER_LEASE, leaseMs))) {
+      return;
+    }
+
+    const today = getDayKey();
+    if (lastCleanupDay !== today) {
+      await cleanupOldQueues();
+      await pruneRateLimitHits(LEAD_RATE_LIMIT_WINDOW_MS);
+      await pruneIdempotencyKeys();
+      lastCleanupDay = today;
+    }
+  } catch (error) {
+    console.error('Error running leader tasks:', error);
+  }
+}
+
+/**
+ * One poll: catch up on outbox events, send what's due, then renew the
+ * leader lease if this process holds it. A worker that is stopping skips
+ * whatever steps it hasn't started yet.
+ */
+async function runWorkerCycle(): Promise<void> {
+  await relayPendingOutbox();
+  if (isRunning) {
+    await processDueMessages();
+  }
+  if (isRunning) {
+    await runLeaderTasks();
+  }
+}
+
+/**
+ * Run a cycle, and once it's done schedule the next one. A slow cycle
+ * delays the next poll instead of overlapping it.
+ */
+async function pollLoop(generation: number): Promise<void> {
+  const cycle = runWorkerCycle().catch((error) => {
+    console.error('Error in worker cycle:', error);
+  });
+
+  currentCycle = cycle;
+  await cycle;
+  if (currentCycle === cycle) {
+    currentCycle = null;
+  }
+
+  if (isRunning && generation === workerGeneration) {
+    pollTimer = setTimeout(() => pollLoop(generation), getPollInterval());
   }
 }
 
@@ -201,8 +633,8 @@ export async function startWorker(): Promise<void> {
 
   console.log('Starting drip worker...');
 
-  // Clean up old queues first
-  await cleanupOldQueues();
+  // Clean up old queues first, if no other worker is doing it
+  await runLeaderTasks();
 
   // Create today's queue
   await ensureTodayQueueExists();
@@ -210,30 +642,16 @@ export async function startWorker(): Promise<void> {
   isRunning = true;
 
   // Process messages immediately, then continue polling
-  processTodayMessages().catch((error) => {
-    // Handle initial errors gracefully - worker will continue polling
-    if (error instanceof Error && error.message.includes('HTTP error! status: 500')) {
-      console.log('Queue not ready yet, worker will continue polling...');
-    } else {
-      console.error('Error in initial message processing:', error);
-    }
-  });
+  pollLoop(++workerGeneration);
 
-  // Set up continuous polling
-  const pollInterval = parseInt(process.env.WORKER_POLL_INTERVAL || '5000');
-  workerInterval = setInterval(async () => {
-    if (isRunning) {
-      await processTodayMessages();
-    }
-  }, pollInterval);
-
-  console.log(`Drip worker started - polling every ${pollInterval}ms`);
+  console.log(`Drip worker started - polling every ${getPollInterval()}ms, ${WORKER_CONCURRENCY} message(s) at a time`);
 }
 
 /**
- * Stop the drip worker gracefully
+ * Stop the drip worker gracefully: no new poll is started, and the returned
+ * promise resolves once the messages being processed have been dealt with
  */
-export function stopWorker(): void {
+export async function stopWorker(): Promise<void> {
   if (!isRunning) {
     console.log('Drip worker is not running');
     return;
@@ -242,9 +660,22 @@ export function stopWorker(): void {
   console.log('Stopping drip worker...');
   isRunning = false;
 
-  if (workerInterval) {
-    clearInterval(workerInterval);
-    workerInterval = null;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  if (currentCycle) {
+    console.log('Waiting for messages in progress...');
+    await currentCycle;
+  }
+
+  // Let another worker take over cleanup without waiting for the lease to run out
+  lastCleanupDay = null;
+  try {
+    await releaseLease(LEADER_LEASE);
+  } catch (error) {
+    console.error('Error releasing the leader lease:', error);
   }
 
   console.log('Drip worker stopped');
@@ -257,15 +688,18 @@ export function isWorkerRunning(): boolean {
   return isRunning;
 }
 
-// Handle graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('Received SIGTERM, stopping drip worker...');
-  stopWorker();
-  process.exit(0);
-});
-
-process.on('SIGINT', () => {
-  console.log('Received SIGINT, stopping drip worker...');
-  stopWorker();
-  process.exit(0);
-});
+/**
+ * Stop the worker on SIGTERM or SIGINT, then call onStopped once the
+ * messages in progress have been dealt with. Exiting is left to the caller:
+ * inside the Next.js server, Next shuts itself down.
+ */
+export function stopWorkerOnSignals(onStopped?: () => void): void {
+  const shutdown = async (signal: NodeJS.Signals) => {
+    console.log(`Received ${signal}, stopping drip worker...`);
+    await stopWorker();
+    onStopped?.();
+  };
+
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
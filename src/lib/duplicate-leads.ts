@@ -0,0 +1,142 @@
+/**
+ * Duplicate submissions: what happens when a lead is submitted with the
+ * email or phone of a lead that already exists.
+ *
+ * With DUPLICATE_LEADS=reject (the default) the submission is refused, as
+ * the unique email and phone would. With DUPLICATE_LEADS=merge the existing
+ * lead is updated instead: the new notes are added to its notes history
+ * and, for callers with an API key, name, contact details and timezone are
+ * replaced. Anyone can send the public form with someone else's email, so
+ * those submissions don't get to change them. A COMPLETED lead is
+ * also enrolled into a fresh sequence when REENROLL_COMPLETED_LEADS=true,
+ * on its own campaign unless the submission names another.
+ */
+
+import { prisma } from './prisma';
+import { enqueueLeadScheduling } from './outbox';
+import { getDayKey } from './dates';
+import { getLeadCampaign, type CampaignDefinition } from './campaigns';
+import type { Lead, OutboxEvent } from '../generated/prisma';
+
+export type DuplicateLeadMode = 'reject' | 'merge';
+
+/**
+ * Raised when the email and the phone of a submission belong to two different leads
+ */
+export class ConflictingLeadsError extends Error {
+  constructor() {
+    super('The email address and phone number belong to different leads');
+    this.name = 'ConflictingLeadsError';
+  }
+}
+
+export interface DuplicateLeadInput {
+  name: string;
+  email: string;
+  phone: string;
+  notes?: string;
+  timezone?: string;
+}
+
+export interface MergeResult {
+  lead: Lead;
+  reenrolled: boolean;
+  // Schedules the fresh sequence of a re-enrolled lead
+  event: OutboxEvent | null;
+}
+
+export function getDuplicateLeadMode(): DuplicateLeadMode {
+  return process.env.DUPLICATE_LEADS === 'merge' ? 'merge' : 'reject';
+}
+
+export function shouldReenrollCompletedLeads(): boolean {
+  return process.env.REENROLL_COMPLETED_LEADS === 'true';
+}
+
+/**
+ * The lead a submission duplicates, if any
+ * @throws ConflictingLeadsError when its email and phone match different leads
+ */
+export async function findDuplicateLead({ email, phone }: Pick<DuplicateLeadInput, 'email' | 'phone'>): Promise<Lead | null> {
+  const matches = await prisma.lead.findMany({
+    where: { OR: [{ email }, { phone }] },
+  });
+
+  if (matches.length > 1) {
+    throw new ConflictingLeadsError();
+  }
+
+  return matches[0] ?? null;
+}
+
+/**
+ * Add notes from a new submission to a lead's notes, dated so the history
+ * stays readable
+ */
+export function appendNotes(existing: string | null, incoming: string | undefined, now: Date = new Date()): string | null {
+  const added = incoming?.trim();
+  if (!added) {
+    return existing;
+  }
+
+  const entry = `[${getDayKey(now)}] ${added}`;
+  return existing ? `${existing}\n\n${entry}` : entry;
+}
+
+/**
+ * Update an existing lead from a duplicate submission, and re-enroll it
+ * if it has completed its sequence and re-enrollment is on
+ * @param campaign - Campaign the submission names, if it names one. A
+ * re-enrolled lead otherwise stays on the campaign it was on.
+ * @param updateDetails - Whether to replace name, contact details and
+ * timezone; only for authenticated callers
+ */
+export async function mergeDuplicateLead(
+  existing: Lead,
+  data: DuplicateLeadInput,
+  campaign: CampaignDefinition | null,
+  updateDetails: boolean
+): Promise<MergeResult> {
+  return prisma.$transaction(async (tx) => {
+    const notes = appendNotes(existing.notes, data.notes);
+    let lead = await tx.lead.update({
+      where: { id: existing.id },
+      data: updateDetails
+        ? {
+            name: data.name,
+            email: data.email,
+            phone: data.phone,
+            notes,
+            timezone: data.timezone ?? existing.timezone,
+          }
+        : { notes },
+    });
+
+    if (!shouldReenrollCompletedLeads()) {
+      return { lead, reenrolled: false, event: null };
+    }
+
+    const enrollIn = campaign ?? (await getLeadCampaign(existing, tx));
+
+    // Conditional, so a lead that isn't COMPLETED any more is left alone
+    const { count } = await tx.lead.updateMany({
+      where: { id: existing.id, status: 'COMPLETED' },
+      data: {
+        status: 'ACTIVE',
+        campaignId: enrollIn.id,
+        maxMessages: enrollIn.steps.length,
+        messageCount: 0,
+        nextScheduledFor: null,
+        lastDeliveryStatus: null,
+        lastDeliveryError: null,
+        failureReason: null,
+      },
+    });
+    if (count === 0) {
+      return { lead, reenrolled: false, event: null };
+    }
+
+    lead = await tx.lead.findUniqueOrThrow({ where: { id: existing.id } });
+    return { lead, reenrolled: true, event: await enqueueLeadScheduling(lead.id, tx) };
+  });
+}
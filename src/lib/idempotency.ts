@@ -0,0 +1,184 @@
+/**
+ * Idempotency keys: a client that may retry a request sends the same
+ * Idempotency-Key header each time. The first request is handled and its
+ * successful response stored; retries within IDEMPOTENCY_KEY_TTL get that
+ * response back instead of being handled again.
+ *
+ * A key is tied to the request it was first sent with, so reusing it for a
+ * different body is refused. Failed requests don't keep their key, so they
+ * can be retried once whatever failed is fixed. Keys are kept per caller:
+ * the same key from two API keys, or from an API key and the public contact
+ * form, names two unrelated requests.
+ */
+
+import { createHash } from 'node:crypto';
+import { prisma } from './prisma';
+import { getRequestApiKey, hashApiKey } from './api-keys';
+import { PUBLIC_SUBMISSION_HEADER } from './submission-guard';
+import { Prisma } from '../generated/prisma';
+
+export const IDEMPOTENCY_KEY_TTL_MS = parseInt(process.env.IDEMPOTENCY_KEY_TTL || '86400000');
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// A claim this old without a response belongs to a request that died
+// part way, e.g. with its process, and may be taken over
+const ABANDONED_CLAIM_MS = 60 * 1000;
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; responseStatus: number; responseBody: unknown }
+  | { status: 'mismatch' }
+  | { status: 'in-progress' };
+
+export function hashRequest(method: string, path: string, body: string): string {
+  return createHash('sha256').update(`${method} ${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Who a request is from, as far as its keys go: the public contact form, or
+ * the API key it was sent with (by hash, so the key itself isn't stored)
+ */
+export function getIdempotencyScope(headers: Headers): string {
+  if (headers.has(PUBLIC_SUBMISSION_HEADER)) {
+    return 'public';
+  }
+
+  const apiKey = getRequestApiKey(headers);
+  return apiKey ? `api-key:${hashApiKey(apiKey)}` : 'anonymous';
+}
+
+/**
+ * Claim a caller's key for a request, or find what an earlier request with
+ * it got
+ */
+export async function claimIdempotencyKey(
+  scope: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const now = Date.now();
+
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      scope,
+      key,
+      OR: [
+        { expiresAt: { lte: new Date(now) } },
+        { responseStatus: null, createdAt: { lte: new Date(now - ABANDONED_CLAIM_MS) } },
+      ],
+    },
+  });
+
+  try {
+    await prisma.idempotencyKey.create({
+      data: { scope, key, requestHash, createdAt: new Date(now), expiresAt: new Date(now + IDEMPOTENCY_KEY_TTL_MS) },
+    });
+    return { status: 'claimed' };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+  if (existing && existing.requestHash !== requestHash) {
+    return { status: 'mismatch' };
+  }
+  if (!existing || existing.responseStatus === null) {
+    // Still being handled, or it failed just now and the key is free again
+    return { status: 'in-progress' };
+  }
+
+  return { status: 'replay', responseStatus: existing.responseStatus, responseBody: existing.responseBody };
+}
+
+/**
+ * Store the response to replay for a claimed key
+ */
+export async function completeIdempotencyKey(
+  scope: string,
+  key: string,
+  responseStatus: number,
+  responseBody: Prisma.InputJsonValue
+): Promise<void> {
+  await prisma.idempotencyKey.update({ where: { scope_key: { scope, key } }, data: { responseStatus, responseBody } });
+}
+
+/**
+ * Give up a claim, so the key can be sent again
+ */
+export async function releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({ where: { scope, key, responseStatus: null } });
+}
+
+/**
+ * Delete keys whose TTL has run out
+ * @returns Number of keys deleted
+ */
+export async function pruneIdempotencyKeys(): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+  return count;
+}
+
+function conflict(message: string): Response {
+  return Response.json({ success: false, message }, { status: 409 });
+}
+
+/**
+ * Handle a request, honouring its Idempotency-Key header if it has one
+ * @param handler - Handles the request, given its body
+ */
+export async function withIdempotency(
+  request: Request,
+  handler: (body: string) => Promise<Response>
+): Promise<Response> {
+  const body = await request.text();
+  const key = request.headers.get('idempotency-key')?.trim();
+  if (!key) {
+    return handler(body);
+  }
+
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return Response.json(
+      { success: false, message: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const scope = getIdempotencyScope(request.headers);
+  const claim = await claimIdempotencyKey(scope, key, hashRequest(request.method, new URL(request.url).pathname, body));
+  switch (claim.status) {
+    case 'mismatch':
+      return conflict('This Idempotency-Key was already used with a different request');
+    case 'in-progress':
+      return conflict('A request with this Idempotency-Key is still being processed');
+    case 'replay':
+      return Response.json(claim.responseBody, {
+        status: claim.responseStatus,
+        headers: { 'Idempotent-Replayed': 'true' },
+      });
+  }
+
+  let response: Response;
+  try {
+    response = await handler(body);
+  } catch (error) {
+    await releaseIdempotencyKey(scope, key);
+    throw error;
+  }
+
+  try {
+    if (response.ok) {
+      await completeIdempotencyKey(scope, key, response.status, await response.clone().json());
+    } else {
+      await releaseIdempotencyKey(scope, key);
+    }
+  } catch (error) {
+    // The request itself was handled. Retries get a 409 instead of the
+    // replay until the claim counts as abandoned
+    console.error(`Could not record the response for Idempotency-Key ${key}:`, error);
+  }
+
+  return response;
+}
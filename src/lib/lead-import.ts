@@ -0,0 +1,143 @@
+/**
+ * Parsing for bulk lead imports (CSV with a header row, or NDJSON).
+ *
+ * Parsing only splits the upload into records; each record is validated
+ * with leadSchema by the import route so the rules match POST /api/leads.
+ */
+
+export const MAX_IMPORT_ROWS = parseInt(process.env.MAX_IMPORT_ROWS || '1000');
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export interface ImportRecord {
+  // Line of the record in the upload (the CSV header is line 1)
+  line: number;
+  data: Record<string, unknown> | null;
+  // Set when the line couldn't be parsed at all
+  parseError?: string;
+}
+
+// Required columns keep empty values so validation reports them as missing
+const REQUIRED_COLUMNS = ['name', 'email', 'phone'];
+
+/**
+ * Work out the upload format from its Content-Type
+ * @returns The format, or null if it isn't supported
+ */
+export function getImportFormat(contentType: string | null): ImportFormat | null {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+
+  switch (mediaType) {
+    case 'text/csv':
+      return 'csv';
+    case 'application/x-ndjson':
+    case 'application/ndjson':
+    case 'application/jsonl':
+      return 'ndjson';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and doubled quotes)
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function compact(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(
+      ([key, value]) => REQUIRED_COLUMNS.includes(key) || (value !== '' && value !== null)
+    )
+  );
+}
+
+function parseCsv(text: string): ImportRecord[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  return rows
+    .map((fields, index) => ({ fields, line: index + 2 }))
+    .filter(({ fields }) => fields.some((field) => field.trim() !== ''))
+    .map(({ fields, line }) => ({
+      line,
+      data: compact(
+        Object.fromEntries(columns.map((column, i) => [column, fields[i]?.trim() ?? '']))
+      ),
+    }));
+}
+
+function parseNdjson(text: string): ImportRecord[] {
+  return text
+    .split(/\r?\n/)
+    .map((content, index) => ({ content: content.trim(), line: index + 1 }))
+    .filter(({ content }) => content !== '')
+    .map(({ content, line }) => {
+      try {
+        const value = JSON.parse(content);
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return { line, data: null, parseError: 'Each line must be a JSON object' };
+        }
+        return { line, data: compact(value) };
+      } catch {
+        return { line, data: null, parseError: 'Invalid JSON' };
+      }
+    });
+}
+
+/**
+ * Split an upload into records
+ */
+export function parseLeadImport(text: string, format: ImportFormat): ImportRecord[] {
+  return format === 'csv' ? parseCsv(text) : parseNdjson(text);
+}
@@ -0,0 +1,68 @@
+/**
+ * Worker leases: a named, time-limited claim stored in worker_leases, so
+ * that when several worker processes run against the same database only
+ * one of them does a given job, like dropping old queues.
+ *
+ * The holder renews its lease while it keeps doing the job. If it stops
+ * renewing, e.g. because its process died, the lease runs out and the next
+ * worker to ask takes it over.
+ */
+
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { prisma } from './prisma';
+import { Prisma } from '../generated/prisma';
+
+/**
+ * Identifies this process as a lease holder
+ */
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Take or renew a lease
+ * @param name - Name of the lease
+ * @param ttlMs - How long the lease lasts unless renewed
+ * @param holder - Who is asking (default: this process)
+ * @returns Whether the caller holds the lease now
+ */
+export async function acquireLease(
+  name: string,
+  ttlMs: number,
+  holder: string = WORKER_ID
+): Promise<boolean> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+
+  // Renew our own lease or take over one that has run out; only one
+  // worker's update can match a given row
+  const { count } = await prisma.workerLease.updateMany({
+    where: {
+      name,
+      OR: [{ holder }, { expiresAt: { lte: now } }],
+    },
+    data: { holder, expiresAt },
+  });
+  if (count === 1) {
+    return true;
+  }
+
+  try {
+    await prisma.workerLease.create({ data: { name, holder, expiresAt } });
+    return true;
+  } catch (error) {
+    // Someone else holds it, or took it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give up a lease so another worker can take it straight away
+ * @returns Whether the caller held the lease
+ */
+export async function releaseLease(name: string, holder: string = WORKER_ID): Promise<boolean> {
+  const { count } = await prisma.workerLease.deleteMany({ where: { name, holder } });
+  return count === 1;
+}
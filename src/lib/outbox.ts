@@ -0,0 +1,263 @@
+/**
+ * Transactional outbox: work that has to happen after a database change,
+ * like queueing the messages of a new or resumed lead, is written as an
+ * outbox_events row in the same transaction as the change. The relay then
+ * carries it out and marks it done, retrying with backoff until it succeeds
+ * or runs out of attempts, so a queue outage can delay scheduling but never
+ * lose it.
+ *
+ * The route that wrote an event relays it straight away; the drip worker
+ * relays whatever is left on every poll.
+ */
+
+import { prisma } from './prisma';
+import { getLeadCampaign, type CampaignDefinition } from './campaigns';
+import {
+  cancelPendingMessages,
+  rescheduleRemainingMessages,
+  scheduleLeadBatch,
+  scheduleLeadMessages,
+} from './scheduler';
+import type { OutboxEvent, Prisma } from '../generated/prisma';
+
+// Attempts before an event is given up on and its lead marked FAILED
+export const OUTBOX_MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10');
+
+// Events handled per relay run
+const OUTBOX_BATCH_SIZE = 20;
+
+// How long a claimed event stays claimed; a relay that dies mid-event
+// leaves it to be picked up again once this runs out
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// Delay before the first retry, doubled for each retry after that
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Record that a lead's messages need to be scheduled. Call this inside the
+ * transaction that creates the lead or makes it ACTIVE again.
+ */
+export function enqueueLeadScheduling(
+  leadId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<OutboxEvent> {
+  return client.outboxEvent.create({
+    // Stamped with the app's clock, which is what the relay compares against
+    data: { type: 'SCHEDULE_LEAD', leadId, availableAt: new Date() },
+  });
+}
+
+/**
+ * Record that the messages of a batch of new leads need to be scheduled,
+ * one event per lead. Call this inside the transaction that creates them.
+ */
+export function enqueueLeadBatchScheduling(
+  leadIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<OutboxEvent[]> {
+  const availableAt = new Date();
+  return client.outboxEvent.createManyAndReturn({
+    data: leadIds.map((leadId) => ({ type: 'SCHEDULE_LEAD' as const, leadId, availableAt })),
+  });
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Claim an event for this relay. Only one relay can claim a given version
+ * of the row, so concurrent relays never handle the same event twice.
+ */
+async function claimEvent(event: OutboxEvent): Promise<OutboxEvent | null> {
+  const now = new Date();
+  const { count } = await prisma.outboxEvent.updateMany({
+    where: {
+      id: event.id,
+      status: event.status,
+      attempts: event.attempts,
+      availableAt: { lte: now },
+    },
+    data: {
+      status: 'PROCESSING',
+      attempts: { increment: 1 },
+      availableAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+    },
+  });
+
+  return count === 1 ? { ...event, status: 'PROCESSING', attempts: event.attempts + 1 } : null;
+}
+
+/**
+ * Queue the steps a lead hasn't received: all of them for a lead that has
+ * had no messages yet, otherwise the rest, starting today. Whatever an
+ * earlier, interrupted attempt queued is cancelled first, so retries don't
+ * send a step twice.
+ */
+async function scheduleLead(leadId: string): Promise<void> {
+  const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+
+  // Paused, unsubscribed or failed in the meantime; nothing to schedule
+  if (!lead || lead.status !== 'ACTIVE') {
+    return;
+  }
+
+  const campaign = await getLeadCampaign(lead);
+  if (lead.messageCount > 0) {
+    await rescheduleRemainingMessages(lead, campaign);
+    return;
+  }
+
+  await cancelPendingMessages(lead);
+  await scheduleLeadMessages(lead, campaign);
+}
+
+async function handleEvent(event: OutboxEvent): Promise<void> {
+  switch (event.type) {
+    case 'SCHEDULE_LEAD':
+      await scheduleLead(event.leadId);
+      break;
+  }
+}
+
+async function recordFailure(event: OutboxEvent, error: unknown): Promise<void> {
+  const reason = error instanceof Error ? error.message : String(error);
+
+  if (event.attempts < OUTBOX_MAX_ATTEMPTS) {
+    const delay = getRetryDelay(event.attempts);
+    console.error(`Outbox event ${event.id} failed (attempt ${event.attempts}), retrying in ${delay}ms:`, error);
+
+    await prisma.outboxEvent.update({
+      where: { id: event.id },
+      data: {
+        status: 'PENDING',
+        lastError: reason,
+        availableAt: new Date(Date.now() + delay),
+      },
+    });
+    return;
+  }
+
+  console.error(`Outbox event ${event.id} failed ${event.attempts} times, giving up:`, error);
+
+  await prisma.$transaction([
+    prisma.outboxEvent.update({
+      where: { id: event.id },
+      data: { status: 'FAILED', lastError: reason },
+    }),
+    prisma.lead.updateMany({
+      where: { id: event.leadId, status: 'ACTIVE' },
+      data: {
+        status: 'FAILED',
+        failureReason: `Messages could not be scheduled after ${event.attempts} attempts: ${reason}`,
+        nextScheduledFor: null,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Claim and carry out an event
+ * @returns Whether the event was done; false if another relay had it, or it failed
+ */
+async function relayEvent(event: OutboxEvent): Promise<boolean> {
+  const claimed = await claimEvent(event);
+  if (!claimed) {
+    return false;
+  }
+
+  try {
+    await handleEvent(claimed);
+  } catch (error) {
+    await recordFailure(claimed, error);
+    return false;
+  }
+
+  await prisma.outboxEvent.update({
+    where: { id: claimed.id },
+    data: { status: 'DONE', lastError: null, processedAt: new Date() },
+  });
+  return true;
+}
+
+/**
+ * Carry out a single event now, e.g. right after the transaction that wrote it
+ * @returns Whether the event was done
+ */
+export async function relayOutboxEvent(id: string): Promise<boolean> {
+  const event = await prisma.outboxEvent.findUnique({ where: { id } });
+  if (!event || event.status === 'DONE' || event.status === 'FAILED') {
+    return false;
+  }
+
+  return relayEvent(event);
+}
+
+/**
+ * Carry out the events of a batch of new leads enrolled in the same campaign
+ * together, queueing each day's messages in one call. Events another relay
+ * has claimed are left to it. If the batch fails, every event in it is
+ * retried on its own.
+ * @returns Number of events done
+ */
+export async function relayLeadBatchEvents(
+  events: OutboxEvent[],
+  campaign: CampaignDefinition
+): Promise<number> {
+  const claimed: OutboxEvent[] = [];
+  for (const event of events) {
+    const claimedEvent = await claimEvent(event);
+    if (claimedEvent) {
+      claimed.push(claimedEvent);
+    }
+  }
+
+  if (claimed.length === 0) {
+    return 0;
+  }
+
+  try {
+    // Leads paused or unsubscribed in the meantime are left out
+    const leads = await prisma.lead.findMany({
+      where: { id: { in: claimed.map((event) => event.leadId) }, status: 'ACTIVE' },
+    });
+    await scheduleLeadBatch(leads, campaign);
+  } catch (error) {
+    for (const event of claimed) {
+      await recordFailure(event, error);
+    }
+    return 0;
+  }
+
+  await prisma.outboxEvent.updateMany({
+    where: { id: { in: claimed.map((event) => event.id) } },
+    data: { status: 'DONE', lastError: null, processedAt: new Date() },
+  });
+  return claimed.length;
+}
+
+/**
+ * Carry out events that are due, oldest first, including ones whose claim
+ * has expired
+ * @returns Number of events done
+ */
+export async function relayOutbox(limit: number = OUTBOX_BATCH_SIZE): Promise<number> {
+  const events = await prisma.outboxEvent.findMany({
+    where: {
+      status: { in: ['PENDING', 'PROCESSING'] },
+      availableAt: { lte: new Date() },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  let done = 0;
+  for (const event of events) {
+    if (await relayEvent(event)) {
+      done++;
+    }
+  }
+
+  return done;
+}
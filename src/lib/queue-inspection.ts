@@ -0,0 +1,121 @@
+/**
+ * Queue inspection: what the date queues hold and how much of each day's
+ * capacity is booked, for the queues API and the admin calendar. Nothing
+ * here reads messages in a way the worker would notice.
+ */
+
+import { prisma } from './prisma';
+import { getQueueBackend, type QueueMetrics } from './queue';
+import { DAILY_MAX, GLOBAL_SCOPE } from './quota';
+import { getQueueName } from './scheduler';
+import { addDays, dateToDayKey, dayKeyToDate, getDayKey } from './dates';
+
+// Most messages returned by one peek
+export const MAX_PEEK_MESSAGES = 1000;
+
+// Furthest ahead the calendar looks
+export const MAX_CALENDAR_DAYS = 90;
+
+export interface QueueSummary {
+  name: string;
+  day: string;
+  // Messages in the queue, including ones hidden by a visibility timeout
+  depth: number;
+  oldestMessageAgeSec: number | null;
+  // Messages ever put on the queue
+  totalMessages: number;
+  // Messages from the queue that were delivered
+  sent: number;
+}
+
+export interface CalendarDay {
+  day: string;
+  // Slots reserved against DAILY_MAX, sent messages included
+  booked: number;
+  dailyMax: number;
+  available: number;
+}
+
+/**
+ * Day a date queue is for
+ * @returns Day key, or null when the name isn't a date queue's
+ */
+export function getQueueDay(queueName: string): string | null {
+  const prefix = getQueueName('drip-messages-');
+  if (!queueName.startsWith(prefix)) {
+    return null;
+  }
+
+  const day = queueName.slice(prefix.length);
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : null;
+}
+
+/**
+ * Metrics rows of the date queues that currently exist, by name
+ */
+async function getDateQueueMetrics(): Promise<QueueMetrics[]> {
+  const rows = await getQueueBackend().getMetrics();
+
+  return rows
+    .filter((row) => typeof row.queue_name === 'string' && getQueueDay(row.queue_name) !== null)
+    .sort((a, b) => a.queue_name.localeCompare(b.queue_name));
+}
+
+/**
+ * Names of the date queues that currently exist
+ */
+export async function listDateQueues(): Promise<string[]> {
+  return (await getDateQueueMetrics()).map((row) => row.queue_name);
+}
+
+/**
+ * Depth, age and throughput of every date queue, oldest day first
+ */
+export async function listQueueSummaries(): Promise<QueueSummary[]> {
+  const rows = await getDateQueueMetrics();
+
+  const sentCounts = await prisma.scheduledMessage.groupBy({
+    by: ['queueName'],
+    where: { status: 'SENT', queueName: { in: rows.map((row) => row.queue_name) } },
+    _count: { _all: true },
+  });
+  const sent = new Map(sentCounts.map((row) => [row.queueName, row._count._all]));
+
+  return rows.map((row) => ({
+    name: row.queue_name,
+    day: getQueueDay(row.queue_name) as string,
+    depth: Number(row.queue_length ?? 0),
+    oldestMessageAgeSec: row.oldest_msg_age_sec ?? null,
+    totalMessages: Number(row.total_messages ?? 0),
+    sent: sent.get(row.queue_name) ?? 0,
+  }));
+}
+
+/**
+ * Booked capacity per day against DAILY_MAX, starting today
+ * @param days - Number of days to cover
+ */
+export async function getCapacityCalendar(days: number = 30): Promise<CalendarDay[]> {
+  const today = getDayKey();
+  const lastDay = addDays(today, days - 1);
+
+  const slots = await prisma.scheduledSlot.findMany({
+    where: {
+      scope: GLOBAL_SCOPE,
+      day: { gte: dayKeyToDate(today), lte: dayKeyToDate(lastDay) },
+    },
+  });
+  const booked = new Map(slots.map((slot) => [dateToDayKey(slot.day), slot.reserved]));
+
+  return Array.from({ length: days }, (_, offset) => {
+    const day = addDays(today, offset);
+    const reserved = booked.get(day) ?? 0;
+
+    return {
+      day,
+      booked: reserved,
+      dailyMax: DAILY_MAX,
+      available: Math.max(0, DAILY_MAX - reserved),
+    };
+  });
+}
@@ -0,0 +1,233 @@
+/**
+ * In-process queue backend with the same semantics as pgmq: messages stay
+ * hidden for their visibility timeout after a read, read counts go up on
+ * every read, and archived messages are kept apart from the live queue.
+ *
+ * Nothing is persisted, so this is only for tests and local development.
+ * It's the default backend when NODE_ENV is "test"; anywhere else set
+ * QUEUE_BACKEND=memory or inject one with setQueueBackend.
+ */
+
+import { QueueNotFoundError, type QueueBackend, type QueueMessage, type QueueMetrics, type QueueRecord } from './queue';
+
+export interface MemoryQueueOptions {
+  // How long readWithPoll waits for a message before returning nothing
+  maxPollMs?: number;
+  // How often readWithPoll checks for a visible message while waiting
+  pollIntervalMs?: number;
+}
+
+interface StoredMessage {
+  msgId: number;
+  readCount: number;
+  enqueuedAt: number;
+  // Epoch milliseconds at which the message becomes visible again
+  vt: number;
+  message: unknown;
+}
+
+interface MemoryQueue {
+  nextMsgId: number;
+  messages: Map<number, StoredMessage>;
+  archive: Map<number, StoredMessage>;
+  totalMessages: number;
+}
+
+// Round-trip through JSON like pgmq's jsonb column, so callers can't share references
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function toQueueRecord<T>(stored: StoredMessage): QueueRecord<T> {
+  return {
+    msgId: String(stored.msgId),
+    readCount: stored.readCount,
+    enqueuedAt: new Date(stored.enqueuedAt).toISOString(),
+    vt: new Date(stored.vt).toISOString(),
+    message: copy(stored.message) as T,
+    headers: null,
+  };
+}
+
+/**
+ * pgmq backend that keeps queues in memory
+ */
+export class MemoryQueueBackend implements QueueBackend {
+  readonly peeksHiddenMessages = true;
+  private readonly queues = new Map<string, MemoryQueue>();
+  private readonly maxPollMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(options: MemoryQueueOptions = {}) {
+    this.maxPollMs = options.maxPollMs ?? 5000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 100;
+  }
+
+  private getQueue(queueName: string): MemoryQueue {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new QueueNotFoundError(queueName);
+    }
+    return queue;
+  }
+
+  private enqueue(queue: MemoryQueue, message: QueueMessage): number {
+    const now = Date.now();
+    const msgId = queue.nextMsgId++;
+
+    queue.messages.set(msgId, { msgId, readCount: 0, enqueuedAt: now, vt: now, message: copy(message) });
+    queue.totalMessages++;
+    return msgId;
+  }
+
+  async createQueue(queueName: string): Promise<boolean> {
+    if (!this.queues.has(queueName)) {
+      this.queues.set(queueName, { nextMsgId: 1, messages: new Map(), archive: new Map(), totalMessages: 0 });
+    }
+    return true;
+  }
+
+  async send(queueName: string, message: QueueMessage): Promise<number> {
+    return this.enqueue(this.getQueue(queueName), message);
+  }
+
+  async sendBatch(queueName: string, messages: QueueMessage[]): Promise<number[]> {
+    const queue = this.getQueue(queueName);
+    return messages.map((message) => this.enqueue(queue, message));
+  }
+
+  async read<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout: number = 30,
+    quantity: number = 1
+  ): Promise<QueueRecord<T>[]> {
+    const queue = this.getQueue(queueName);
+    const now = Date.now();
+    const records: QueueRecord<T>[] = [];
+
+    // Map iteration follows insertion order, which is msg_id order
+    for (const stored of queue.messages.values()) {
+      if (records.length >= quantity) {
+        break;
+      }
+      if (stored.vt > now) {
+        continue;
+      }
+
+      stored.readCount++;
+      stored.vt = now + visibilityTimeout * 1000;
+      records.push(toQueueRecord<T>(stored));
+    }
+
+    return records;
+  }
+
+  async readWithPoll<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout: number = 30,
+    quantity: number = 1
+  ): Promise<QueueRecord<T>[]> {
+    const deadline = Date.now() + this.maxPollMs;
+
+    for (;;) {
+      const records = await this.read<T>(queueName, visibilityTimeout, quantity);
+      if (records.length > 0 || Date.now() >= deadline) {
+        return records;
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  async peek<T = QueueMessage>(queueName: string, limit: number = 100, afterMsgId?: string): Promise<QueueRecord<T>[]> {
+    const after = afterMsgId === undefined ? 0 : Number(afterMsgId);
+
+    return [...this.getQueue(queueName).messages.values()]
+      .filter((stored) => stored.msgId > after)
+      .slice(0, limit)
+      .map((stored) => toQueueRecord<T>(stored));
+  }
+
+  async archive(queueName: string, messageId: string): Promise<boolean> {
+    const queue = this.getQueue(queueName);
+    const stored = queue.messages.get(Number(messageId));
+    if (!stored) {
+      return false;
+    }
+
+    queue.messages.delete(stored.msgId);
+    queue.archive.set(stored.msgId, stored);
+    return true;
+  }
+
+  async delete(queueName: string, messageId: string): Promise<boolean> {
+    return this.getQueue(queueName).messages.delete(Number(messageId));
+  }
+
+  async setVisibilityTimeout(queueName: string, messageId: string, vt: number): Promise<boolean> {
+    const stored = this.getQueue(queueName).messages.get(Number(messageId));
+    if (!stored) {
+      return false;
+    }
+
+    stored.vt = Date.now() + vt * 1000;
+    return true;
+  }
+
+  private metricsFor(queueName: string, queue: MemoryQueue): QueueMetrics {
+    const now = Date.now();
+    const enqueuedAt = [...queue.messages.values()].map((stored) => stored.enqueuedAt);
+    const ageOf = (time: number) => Math.floor((now - time) / 1000);
+
+    return {
+      queue_name: queueName,
+      queue_length: queue.messages.size,
+      newest_msg_age_sec: enqueuedAt.length > 0 ? ageOf(Math.max(...enqueuedAt)) : null,
+      oldest_msg_age_sec: enqueuedAt.length > 0 ? ageOf(Math.min(...enqueuedAt)) : null,
+      total_messages: queue.totalMessages,
+      scrape_time: new Date(now).toISOString(),
+    };
+  }
+
+  getMetrics(queueName: string): Promise<QueueMetrics>;
+  getMetrics(): Promise<QueueMetrics[]>;
+  async getMetrics(queueName?: string): Promise<QueueMetrics | QueueMetrics[]> {
+    if (queueName) {
+      return this.metricsFor(queueName, this.getQueue(queueName));
+    }
+    return [...this.queues.entries()].map(([queueName, queue]) => this.metricsFor(queueName, queue));
+  }
+
+  async getQueueLength(queueName: string): Promise<number> {
+    return this.getQueue(queueName).messages.size;
+  }
+
+  async purgeQueue(queueName: string): Promise<boolean> {
+    this.getQueue(queueName).messages.clear();
+    return true;
+  }
+
+  async dropQueue(queueName: string): Promise<boolean> {
+    return this.queues.delete(queueName);
+  }
+
+  /**
+   * Names of the queues that currently exist
+   */
+  listQueues(): string[] {
+    return [...this.queues.keys()];
+  }
+
+  /**
+   * Archived messages in a queue, oldest first
+   */
+  getArchived<T = QueueMessage>(queueName: string): QueueRecord<T>[] {
+    return [...this.getQueue(queueName).archive.values()].map((stored) => toQueueRecord<T>(stored));
+  }
+
+  /**
+   * Drop every queue
+   */
+  clear(): void {
+    this.queues.clear();
+  }
+}
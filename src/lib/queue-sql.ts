@@ -0,0 +1,246 @@
+/**
+ * Queue backend that calls the pgmq extension directly through Prisma raw
+ * queries instead of going through pgmq-rest.
+ *
+ * Passing a transaction client lets messages be enqueued in the same
+ * transaction as the rows they belong to:
+ *
+ *   await prisma.$transaction(async (tx) => {
+ *     const lead = await tx.lead.create({ data });
+ *     await new SqlQueueBackend(tx).send(queueName, createQueueMessage(lead.id, ...));
+ *   });
+ */
+
+import { Prisma } from '../generated/prisma';
+import {
+  PgmqError,
+  PgmqUnavailableError,
+  QueueNotFoundError,
+  type QueueBackend,
+  type QueueMessage,
+  type QueueMetrics,
+  type QueueRecord,
+} from './queue';
+
+// How long read_with_poll waits for a message before returning nothing
+const POLL_SECONDS = 5;
+const POLL_INTERVAL_MS = 100;
+
+interface MessageRow {
+  msg_id: bigint;
+  read_ct: number;
+  enqueued_at: Date;
+  vt: Date;
+  message: unknown;
+  headers?: Record<string, unknown> | null;
+}
+
+// Quote an identifier for SQL, doubling any quotes inside it
+function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+function toQueueRecord<T>(row: MessageRow): QueueRecord<T> {
+  return {
+    msgId: String(row.msg_id),
+    readCount: row.read_ct,
+    enqueuedAt: row.enqueued_at.toISOString(),
+    vt: row.vt.toISOString(),
+    message: row.message as T,
+    headers: row.headers ?? null,
+  };
+}
+
+// pgmq counts are bigints, which JSON can't serialise, and its scrape
+// time comes back as a Date
+function toMetrics(row: Record<string, unknown>): QueueMetrics {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      typeof value === 'bigint' ? Number(value) : value instanceof Date ? value.toISOString() : value,
+    ])
+  ) as unknown as QueueMetrics;
+}
+
+/**
+ * Turn a Prisma error into the matching queue error
+ */
+function toQueueError(error: unknown, queueName?: string): Error {
+  const message = error instanceof Error ? error.message : String(error);
+
+  // pgmq keeps each queue in its own table, e.g. pgmq.q_drip_messages
+  if (queueName && /does not exist/i.test(message)) {
+    return new QueueNotFoundError(queueName);
+  }
+  if (
+    error instanceof Prisma.PrismaClientInitializationError ||
+    (error instanceof Prisma.PrismaClientKnownRequestError && error.code.startsWith('P1'))
+  ) {
+    return new PgmqUnavailableError(`Could not reach pgmq: ${message}`, undefined, { cause: error });
+  }
+
+  return new PgmqError(`pgmq query failed: ${message}`, undefined, { cause: error });
+}
+
+/**
+ * pgmq backend using the application's database connection
+ */
+export class SqlQueueBackend implements QueueBackend {
+  readonly peeksHiddenMessages = true;
+
+  constructor(private readonly client?: Prisma.TransactionClient) {}
+
+  private async query<T>(
+    queueName: string | undefined,
+    run: (client: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    // The shared client is loaded on first use, so importing the queue module
+    // doesn't open a database client when another backend is configured
+    const client = this.client ?? (await import('./prisma')).prisma;
+
+    try {
+      return await run(client);
+    } catch (error) {
+      throw toQueueError(error, queueName);
+    }
+  }
+
+  async createQueue(queueName: string): Promise<boolean> {
+    // pgmq.create returns void, which $queryRaw can't deserialise
+    await this.query(undefined, (client) => client.$executeRaw`SELECT pgmq.create(${queueName}::text)`);
+    return true;
+  }
+
+  async send(queueName: string, message: QueueMessage): Promise<number> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ msg_id: bigint }[]>`
+        SELECT * FROM pgmq.send(${queueName}::text, ${JSON.stringify(message)}::jsonb) AS t(msg_id)
+      `
+    );
+    return Number(rows[0].msg_id);
+  }
+
+  async sendBatch(queueName: string, messages: QueueMessage[]): Promise<number[]> {
+    const payloads = messages.map((message) => JSON.stringify(message));
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ msg_id: bigint }[]>`
+        SELECT * FROM pgmq.send_batch(${queueName}::text, ${payloads}::jsonb[]) AS t(msg_id)
+      `
+    );
+    return rows.map((row) => Number(row.msg_id));
+  }
+
+  async read<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout: number = 30,
+    quantity: number = 1
+  ): Promise<QueueRecord<T>[]> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<MessageRow[]>`
+        SELECT * FROM pgmq.read(${queueName}::text, ${visibilityTimeout}::integer, ${quantity}::integer)
+      `
+    );
+    return rows.map((row) => toQueueRecord<T>(row));
+  }
+
+  async readWithPoll<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout: number = 30,
+    quantity: number = 1
+  ): Promise<QueueRecord<T>[]> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<MessageRow[]>`
+        SELECT * FROM pgmq.read_with_poll(
+          ${queueName}::text,
+          ${visibilityTimeout}::integer,
+          ${quantity}::integer,
+          ${POLL_SECONDS}::integer,
+          ${POLL_INTERVAL_MS}::integer
+        )
+      `
+    );
+    return rows.map((row) => toQueueRecord<T>(row));
+  }
+
+  async peek<T = QueueMessage>(queueName: string, limit: number = 100, afterMsgId?: string): Promise<QueueRecord<T>[]> {
+    // pgmq has no function for this, so read the queue's table; it can't be
+    // a query parameter, hence the unsafe variant with a quoted identifier
+    const table = `pgmq.${quoteIdentifier(`q_${queueName}`)}`;
+    const rows = await this.query(queueName, (client) =>
+      afterMsgId === undefined
+        ? client.$queryRawUnsafe<MessageRow[]>(`SELECT * FROM ${table} ORDER BY msg_id LIMIT $1`, limit)
+        : client.$queryRawUnsafe<MessageRow[]>(
+            `SELECT * FROM ${table} WHERE msg_id > $2::bigint ORDER BY msg_id LIMIT $1`,
+            limit,
+            afterMsgId
+          )
+    );
+    return rows.map((row) => toQueueRecord<T>(row));
+  }
+
+  async archive(queueName: string, messageId: string): Promise<boolean> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ archived: boolean }[]>`
+        SELECT pgmq.archive(${queueName}::text, ${messageId}::bigint) AS archived
+      `
+    );
+    return rows[0]?.archived === true;
+  }
+
+  async delete(queueName: string, messageId: string): Promise<boolean> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ deleted: boolean }[]>`
+        SELECT pgmq.delete(${queueName}::text, ${messageId}::bigint) AS deleted
+      `
+    );
+    return rows[0]?.deleted === true;
+  }
+
+  async setVisibilityTimeout(queueName: string, messageId: string, vt: number): Promise<boolean> {
+    await this.query(queueName, (client) =>
+      client.$queryRaw`
+        SELECT msg_id FROM pgmq.set_vt(${queueName}::text, ${messageId}::bigint, ${vt}::integer)
+      `
+    );
+    return true;
+  }
+
+  getMetrics(queueName: string): Promise<QueueMetrics>;
+  getMetrics(): Promise<QueueMetrics[]>;
+  async getMetrics(queueName?: string): Promise<QueueMetrics | QueueMetrics[]> {
+    if (queueName) {
+      const rows = await this.query(queueName, (client) =>
+        client.$queryRaw<Record<string, unknown>[]>`SELECT * FROM pgmq.metrics(${queueName}::text)`
+      );
+      return toMetrics(rows[0]);
+    }
+
+    const rows = await this.query(undefined, (client) =>
+      client.$queryRaw<Record<string, unknown>[]>`SELECT * FROM pgmq.metrics_all()`
+    );
+    return rows.map(toMetrics);
+  }
+
+  async getQueueLength(queueName: string): Promise<number> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ queue_length: bigint }[]>`
+        SELECT queue_length FROM pgmq.metrics(${queueName}::text)
+      `
+    );
+    return Number(rows[0].queue_length);
+  }
+
+  async purgeQueue(queueName: string): Promise<boolean> {
+    await this.query(queueName, (client) =>
+      client.$queryRaw`SELECT pgmq.purge_queue(${queueName}::text) AS purged`
+    );
+    return true;
+  }
+
+  async dropQueue(queueName: string): Promise<boolean> {
+    const rows = await this.query(queueName, (client) =>
+      client.$queryRaw<{ dropped: boolean }[]>`SELECT pgmq.drop_queue(${queueName}::text) AS dropped`
+    );
+    return rows[0]?.dropped === true;
+  }
+}
@@ -1,9 +1,19 @@
 /**
- * Queue utility for interacting with pgmq-rest API
+ * Queue utility for interacting with pgmq
  * Documentation: https://github.com/eichenroth/pgmq-rest
+ *
+ * The functions below call a shared QueueBackend selected via QUEUE_BACKEND:
+ * - "rest": PgmqClient talks to pgmq-rest over HTTP (default). Every request
+ *           has a timeout, transient failures are retried with exponential
+ *           backoff, and failures are raised as typed errors. Configured by
+ *           PGMQ_URL, PGMQ_TIMEOUT and PGMQ_RETRIES.
+ * - "sql":  SqlQueueBackend calls the pgmq extension through Prisma, in the
+ *           database named by DATABASE_URL
+ * - "memory": MemoryQueueBackend keeps queues in process (default in test mode)
  */
 
-const PGMQ_BASE_URL = process.env.PGMQ_URL || 'http://localhost:8080/api/v1';
+import { MemoryQueueBackend } from './queue-memory';
+import { SqlQueueBackend } from './queue-sql';
 
 export interface QueueMessage {
   leadId: string;
@@ -19,57 +29,255 @@ export interface PGMQResponse {
 }
 
 /**
- * Create a queue
- * @param queueName - Name of the queue to create
- * @returns Promise<boolean> - Success status
+ * A message read from a queue
  */
-export async function createQueue(queueName: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/create`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-      }),
-    });
+export interface QueueRecord<T = QueueMessage> {
+  msgId: string;
+  // Times the message has been read, including this read
+  readCount: number;
+  enqueuedAt: string;
+  // When the message becomes visible to readers again
+  vt: string;
+  message: T;
+  headers: Record<string, unknown> | null;
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+/**
+ * What pgmq reports about a queue
+ */
+export interface QueueMetrics {
+  queue_name: string;
+  // Messages in the queue, including ones hidden by a visibility timeout
+  queue_length: number;
+  newest_msg_age_sec: number | null;
+  oldest_msg_age_sec: number | null;
+  // Messages ever put on the queue
+  total_messages: number;
+  scrape_time: string;
+}
 
-    // Queue creation returns no body, just check if request was successful
-    return response.ok;
-  } catch (error) {
-    console.error('Error creating queue:', error);
-    throw error;
+/**
+ * Raised when pgmq rejects a request
+ */
+export class PgmqError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PgmqError';
+    this.status = status;
   }
 }
 
 /**
- * Send a single message to the queue
- * @param queueName - Name of the queue
- * @param message - Message payload
- * @returns Promise<number> - Message ID
+ * Raised when a request names a queue that doesn't exist
+ */
+export class QueueNotFoundError extends PgmqError {
+  readonly queueName: string;
+
+  constructor(queueName: string, status?: number) {
+    super(`Queue ${queueName} does not exist`, status);
+    this.name = 'QueueNotFoundError';
+    this.queueName = queueName;
+  }
+}
+
+/**
+ * Raised when pgmq can't be reached, times out or fails on its side
+ */
+export class PgmqUnavailableError extends PgmqError {
+  constructor(message: string, status?: number, options?: { cause?: unknown }) {
+    super(message, status, options);
+    this.name = 'PgmqUnavailableError';
+  }
+}
+
+/**
+ * Operations a queue implementation provides
  */
-export async function sendMessage(queueName: string, message: QueueMessage): Promise<number> {
+export interface QueueBackend {
+  createQueue(queueName: string): Promise<boolean>;
+  send(queueName: string, message: QueueMessage): Promise<number>;
+  sendBatch(queueName: string, messages: QueueMessage[]): Promise<number[]>;
+  read<T = QueueMessage>(queueName: string, visibilityTimeout?: number, quantity?: number): Promise<QueueRecord<T>[]>;
+  readWithPoll<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout?: number,
+    quantity?: number
+  ): Promise<QueueRecord<T>[]>;
+  // List messages without reading them: read counts and visibility are left alone.
+  // Only messages with an ID above afterMsgId are listed, if it is given
+  peek<T = QueueMessage>(queueName: string, limit?: number, afterMsgId?: string): Promise<QueueRecord<T>[]>;
+  // Whether peek also lists messages hidden by a visibility timeout
+  readonly peeksHiddenMessages: boolean;
+  archive(queueName: string, messageId: string): Promise<boolean>;
+  delete(queueName: string, messageId: string): Promise<boolean>;
+  setVisibilityTimeout(queueName: string, messageId: string, vt: number): Promise<boolean>;
+  // Metrics for one queue, or for every queue when no name is given
+  getMetrics(queueName: string): Promise<QueueMetrics>;
+  getMetrics(): Promise<QueueMetrics[]>;
+  getQueueLength(queueName: string): Promise<number>;
+  purgeQueue(queueName: string): Promise<boolean>;
+  dropQueue(queueName: string): Promise<boolean>;
+}
+
+/**
+ * Raised when the configured backend can't do an operation
+ */
+export class UnsupportedQueueOperationError extends PgmqError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedQueueOperationError';
+  }
+}
+
+export interface PgmqClientOptions {
+  baseUrl?: string;
+  // Per-request timeout in milliseconds
+  timeoutMs?: number;
+  // Retries after a transient failure
+  retries?: number;
+  // Delay before the first retry in milliseconds, doubled for each retry after that
+  retryDelayMs?: number;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  body?: Record<string, unknown>;
+  // Queue the request is about, for QueueNotFoundError
+  queueName?: string;
+  // Sends aren't retried: a send that timed out may still have been queued
+  retry?: boolean;
+}
+
+// Messages read at a time when peeking through pgmq-rest
+const PEEK_BATCH_SIZE = 100;
+// How long a peek keeps the messages it read hidden, should it fail to
+// make them visible again
+const PEEK_VISIBILITY_TIMEOUT = 30;
+
+type ReadRow = [number | string, number, string, string, unknown, Record<string, unknown> | null];
+
+function toQueueRecord<T>([msgId, readCount, enqueuedAt, vt, message, headers]: ReadRow): QueueRecord<T> {
+  return {
+    msgId: String(msgId),
+    readCount,
+    enqueuedAt,
+    vt,
+    message: message as T,
+    headers: headers ?? null,
+  };
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
   try {
-    const response = await fetch(`${PGMQ_BASE_URL}/send`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-        msg: message,
-      }),
-    });
+    return await response.text();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * HTTP client for pgmq-rest
+ */
+export class PgmqClient implements QueueBackend {
+  readonly baseUrl: string;
+  readonly peeksHiddenMessages = false;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: PgmqClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? (process.env.PGMQ_URL || 'http://localhost:8080/api/v1');
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.PGMQ_TIMEOUT || '10000');
+    this.retries = options.retries ?? parseInt(process.env.PGMQ_RETRIES || '3');
+    this.retryDelayMs = options.retryDelayMs ?? 200;
+  }
+
+  /**
+   * Make a request, retrying transient failures
+   */
+  private async request(path: string, options: RequestOptions = {}): Promise<Response> {
+    const { retry = true } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(path, options);
+      } catch (error) {
+        if (!retry || !(error instanceof PgmqUnavailableError) || attempt >= this.retries) {
+          throw error;
+        }
+
+        const delay = this.retryDelayMs * 2 ** attempt;
+        console.warn(`pgmq ${path} failed (${error.message}), retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Make a single request, turning failures into typed errors
+   */
+  private async attempt(path: string, { method = 'POST', body, queueName }: RequestOptions): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `pgmq ${path} timed out after ${this.timeoutMs}ms`
+        : `Could not reach pgmq: ${error instanceof Error ? error.message : String(error)}`;
+      throw new PgmqUnavailableError(message, undefined, { cause: error });
+    } finally {
+      clearTimeout(timeout);
+    }
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      const detail = await readErrorDetail(response);
+
+      // pgmq-rest reports missing queue tables as server errors
+      if (queueName && (response.status === 404 || /does not exist/i.test(detail))) {
+        throw new QueueNotFoundError(queueName, response.status);
+      }
+      if (response.status >= 500) {
+        throw new PgmqUnavailableError(`pgmq ${path} failed with status ${response.status}`, response.status);
+      }
+      throw new PgmqError(`pgmq ${path} failed with status ${response.status}`, response.status);
     }
 
+    return response;
+  }
+
+  /**
+   * Create a queue
+   * @param queueName - Name of the queue to create
+   * @returns Promise<boolean> - Success status
+   */
+  async createQueue(queueName: string): Promise<boolean> {
+    // Queue creation returns no body, just check if request was successful
+    const response = await this.request('create', { body: { queue_name: queueName } });
+    return response.ok;
+  }
+
+  /**
+   * Send a single message to the queue
+   * @param queueName - Name of the queue
+   * @param message - Message payload
+   * @returns Promise<number> - Message ID
+   */
+  async send(queueName: string, message: QueueMessage): Promise<number> {
+    const response = await this.request('send', {
+      body: { queue_name: queueName, msg: message },
+      queueName,
+      retry: false,
+    });
     const result = await response.json();
 
     // pgmq-rest returns an array with the message ID
@@ -77,48 +285,297 @@ export async function sendMessage(queueName: string, message: QueueMessage): Pro
       return result[0];
     }
 
-    throw new Error('Invalid response format from pgmq');
-  } catch (error) {
-    console.error('Error sending message to queue:', error);
-    throw error;
+    throw new PgmqError('Invalid response format from pgmq');
   }
-}
 
-/**
- * Send multiple messages to the queue in a batch
- * @param queueName - Name of the queue
- * @param messages - Array of message payloads
- * @returns Promise<number[]> - Array of message IDs
- */
-export async function sendBatchMessages(queueName: string, messages: QueueMessage[]): Promise<number[]> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/send_batch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-        msgs: messages,
-      }),
+  /**
+   * Send multiple messages to the queue in a batch
+   * @param queueName - Name of the queue
+   * @param messages - Array of message payloads
+   * @returns Promise<number[]> - Array of message IDs
+   */
+  async sendBatch(queueName: string, messages: QueueMessage[]): Promise<number[]> {
+    const response = await this.request('send_batch', {
+      body: { queue_name: queueName, msgs: messages },
+      queueName,
+      retry: false,
     });
+    const result = await response.json();
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    // pgmq-rest returns an array with message IDs
+    if (Array.isArray(result)) {
+      return result;
     }
 
+    throw new PgmqError('Invalid response format from pgmq');
+  }
+
+  private async readRecords<T>(
+    path: string,
+    queueName: string,
+    visibilityTimeout: number,
+    quantity: number
+  ): Promise<QueueRecord<T>[]> {
+    const response = await this.request(path, {
+      body: { queue_name: queueName, vt: visibilityTimeout, qty: quantity },
+      queueName,
+    });
     const result = await response.json();
 
-    // pgmq-rest returns an array with message IDs
+    // pgmq-rest returns an array of messages
+    // Format: [msg_id, read_ct, enqueued_at, vt, message, headers]
     if (Array.isArray(result)) {
-      return result;
+      return result.map((row: ReadRow) => toQueueRecord<T>(row));
     }
 
-    throw new Error('Invalid response format from pgmq');
-  } catch (error) {
-    console.error('Error sending batch messages to queue:', error);
-    throw error;
+    throw new PgmqError('Invalid response format from pgmq');
+  }
+
+  /**
+   * Read messages from the queue
+   * @param queueName - Name of the queue
+   * @param visibilityTimeout - Visibility timeout in seconds (default: 30)
+   * @param quantity - Number of messages to read (default: 1)
+   * @returns Promise<QueueRecord[]> - Messages read
+   */
+  read<T = QueueMessage>(queueName: string, visibilityTimeout: number = 30, quantity: number = 1): Promise<QueueRecord<T>[]> {
+    return this.readRecords<T>('read', queueName, visibilityTimeout, quantity);
+  }
+
+  /**
+   * Read messages with polling (waits for messages if queue is empty)
+   * @param queueName - Name of the queue
+   * @param visibilityTimeout - Visibility timeout in seconds (default: 30)
+   * @param quantity - Number of messages to read (default: 1)
+   * @returns Promise<QueueRecord[]> - Messages read
+   */
+  readWithPoll<T = QueueMessage>(
+    queueName: string,
+    visibilityTimeout: number = 30,
+    quantity: number = 1
+  ): Promise<QueueRecord<T>[]> {
+    return this.readRecords<T>('read_with_poll', queueName, visibilityTimeout, quantity);
+  }
+
+  /**
+   * List messages without leaving a trace. pgmq-rest only exposes reads, so
+   * the visible messages are read, oldest first, and made visible again
+   * straight after. Messages hidden by a visibility timeout aren't listed,
+   * and pgmq still counts the read; the read counts returned leave it out.
+   * @param queueName - Name of the queue
+   * @param limit - Most messages to return (default: 100)
+   * @param afterMsgId - Only list messages with a higher ID
+   * @returns Promise<QueueRecord[]> - Visible messages in the queue
+   */
+  async peek<T = QueueMessage>(queueName: string, limit: number = 100, afterMsgId?: string): Promise<QueueRecord<T>[]> {
+    const isListed = (record: QueueRecord<T>) => afterMsgId === undefined || BigInt(record.msgId) > BigInt(afterMsgId);
+    const records: QueueRecord<T>[] = [];
+
+    try {
+      // Reads go through the queue in ID order; earlier reads stay hidden
+      // until the end, so each read picks up where the last one stopped
+      for (;;) {
+        const batch = await this.read<T>(queueName, PEEK_VISIBILITY_TIMEOUT, PEEK_BATCH_SIZE);
+        records.push(...batch);
+
+        if (batch.length < PEEK_BATCH_SIZE || records.filter(isListed).length >= limit) {
+          break;
+        }
+      }
+    } finally {
+      const results = await Promise.allSettled(
+        records.map((record) => this.setVisibilityTimeout(queueName, record.msgId, 0))
+      );
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          // Becomes visible again once the peek's visibility timeout runs out
+          console.error(`Could not make message ${records[index].msgId} in ${queueName} visible again:`, result.reason);
+        }
+      });
+    }
+
+    const visibleAt = new Date().toISOString();
+    return records
+      .filter(isListed)
+      .slice(0, limit)
+      .map((record) => ({ ...record, readCount: record.readCount - 1, vt: visibleAt }));
+  }
+
+  /**
+   * Archive a message (remove it from the queue after processing)
+   * @param queueName - Name of the queue
+   * @param messageId - ID of the message to archive
+   * @returns Promise<boolean> - Success status
+   */
+  async archive(queueName: string, messageId: string): Promise<boolean> {
+    const response = await this.request('archive', {
+      body: { queue_name: queueName, msg_id: messageId },
+      queueName,
+    });
+    const result = await response.json();
+    return result === true || result === 'true';
+  }
+
+  /**
+   * Delete a message from the queue without archiving it
+   * @param queueName - Name of the queue
+   * @param messageId - ID of the message to delete
+   * @returns Promise<boolean> - Whether a message was deleted
+   */
+  async delete(queueName: string, messageId: string): Promise<boolean> {
+    const response = await this.request('delete', {
+      body: { queue_name: queueName, msg_id: messageId },
+      queueName,
+    });
+    const result = await response.json();
+    return result === true || result === 'true';
+  }
+
+  /**
+   * Hide a message from readers for a number of seconds from now
+   * @param queueName - Name of the queue
+   * @param messageId - ID of the message
+   * @param vt - Visibility timeout in seconds
+   * @returns Promise<boolean> - Success status
+   */
+  async setVisibilityTimeout(queueName: string, messageId: string, vt: number): Promise<boolean> {
+    await this.request('set_vt', {
+      body: { queue_name: queueName, msg_id: messageId, vt },
+      queueName,
+    });
+    return true;
+  }
+
+  /**
+   * Get metrics for a queue, or for all queues
+   * @param queueName - Name of the queue (default: all queues)
+   * @returns Promise<QueueMetrics | QueueMetrics[]> - Queue metrics, a row per queue for all queues
+   */
+  getMetrics(queueName: string): Promise<QueueMetrics>;
+  getMetrics(): Promise<QueueMetrics[]>;
+  async getMetrics(queueName?: string): Promise<QueueMetrics | QueueMetrics[]> {
+    if (!queueName) {
+      const response = await this.request('metrics', { method: 'GET' });
+      return response.json();
+    }
+
+    const response = await this.request('metrics', {
+      body: { queue_name: queueName },
+      queueName,
+    });
+    const result = await response.json();
+
+    // pgmq-rest returns the metrics row, possibly wrapped in an array
+    return Array.isArray(result) ? result[0] : result;
+  }
+
+  /**
+   * Get the number of messages in a queue, including ones hidden by a visibility timeout
+   * @param queueName - Name of the queue
+   * @returns Promise<number> - Queue length
+   */
+  async getQueueLength(queueName: string): Promise<number> {
+    const metrics = await this.getMetrics(queueName);
+    if (metrics && typeof metrics.queue_length === 'number') {
+      return metrics.queue_length;
+    }
+
+    throw new PgmqError('Invalid response format from pgmq');
+  }
+
+  /**
+   * Purge all messages from a queue
+   */
+  async purgeQueue(queueName: string): Promise<boolean> {
+    const response = await this.request('purge_queue', {
+      body: { queue_name: queueName },
+      queueName,
+    });
+    return response.ok;
+  }
+
+  /**
+   * Drop a queue completely
+   */
+  async dropQueue(queueName: string): Promise<boolean> {
+    const response = await this.request('drop_queue', {
+      body: { queue_name: queueName },
+      queueName,
+    });
+    return response.ok;
+  }
+}
+
+let backend: QueueBackend | null = null;
+
+function getQueueBackendKind(): string {
+  if (process.env.QUEUE_BACKEND) {
+    return process.env.QUEUE_BACKEND;
   }
+
+  return process.env.NODE_ENV === 'test' ? 'memory' : 'rest';
+}
+
+function createQueueBackend(): QueueBackend {
+  const kind = getQueueBackendKind();
+
+  if (kind === 'memory') {
+    return new MemoryQueueBackend();
+  }
+  if (kind === 'sql') {
+    return new SqlQueueBackend();
+  }
+  if (kind === 'rest') {
+    return new PgmqClient();
+  }
+
+  throw new Error(`Unknown QUEUE_BACKEND "${kind}" (expected rest, sql or memory)`);
+}
+
+/**
+ * Get the backend used by the queue functions, created from config on first use
+ * @returns QueueBackend
+ */
+export function getQueueBackend(): QueueBackend {
+  backend ??= createQueueBackend();
+  return backend;
+}
+
+/**
+ * Override the backend used by the queue functions (tests, custom setups)
+ * @param queueBackend - Implementation to use, or null to fall back to config
+ */
+export function setQueueBackend(queueBackend: QueueBackend | null): void {
+  backend = queueBackend;
+}
+
+/**
+ * Create a queue
+ * @param queueName - Name of the queue to create
+ * @returns Promise<boolean> - Success status
+ */
+export function createQueue(queueName: string): Promise<boolean> {
+  return getQueueBackend().createQueue(queueName);
+}
+
+/**
+ * Send a single message to the queue
+ * @param queueName - Name of the queue
+ * @param message - Message payload
+ * @returns Promise<number> - Message ID
+ */
+export function sendMessage(queueName: string, message: QueueMessage): Promise<number> {
+  return getQueueBackend().send(queueName, message);
+}
+
+/**
+ * Send multiple messages to the queue in a batch
+ * @param queueName - Name of the queue
+ * @param messages - Array of message payloads
+ * @returns Promise<number[]> - Array of message IDs
+ */
+export function sendBatchMessages(queueName: string, messages: QueueMessage[]): Promise<number[]> {
+  return getQueueBackend().sendBatch(queueName, messages);
 }
 
 /**
@@ -126,43 +583,14 @@ export async function sendBatchMessages(queueName: string, messages: QueueMessag
  * @param queueName - Name of the queue
  * @param visibilityTimeout - Visibility timeout in seconds (default: 30)
  * @param quantity - Number of messages to read (default: 1)
- * @returns Promise<Array> - Array of message data
+ * @returns Promise<QueueRecord[]> - Messages read
  */
-export async function readMessages(
+export function readMessages<T = QueueMessage>(
   queueName: string,
   visibilityTimeout: number = 30,
   quantity: number = 1
-): Promise<Array<[string, number, string, string, QueueMessage, any]>> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/read`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-        vt: visibilityTimeout,
-        qty: quantity,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-
-    // pgmq-rest returns an array of messages
-    // Format: [msg_id, read_ct, enqueued_at, vt, message, headers]
-    if (Array.isArray(result)) {
-      return result;
-    }
-
-    throw new Error('Invalid response format from pgmq');
-  } catch (error) {
-    console.error('Error reading messages from queue:', error);
-    throw error;
-  }
+): Promise<QueueRecord<T>[]> {
+  return getQueueBackend().read<T>(queueName, visibilityTimeout, quantity);
 }
 
 /**
@@ -170,43 +598,30 @@ export async function readMessages(
  * @param queueName - Name of the queue
  * @param visibilityTimeout - Visibility timeout in seconds (default: 30)
  * @param quantity - Number of messages to read (default: 1)
- * @returns Promise<Array> - Array of message data
+ * @returns Promise<QueueRecord[]> - Messages read
  */
-export async function readMessagesWithPoll(
+export function readMessagesWithPoll<T = QueueMessage>(
   queueName: string,
   visibilityTimeout: number = 30,
   quantity: number = 1
-): Promise<Array<[string, number, string, string, QueueMessage, any]>> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/read_with_poll`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-        vt: visibilityTimeout,
-        qty: quantity,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-
-    // pgmq-rest returns an array of messages
-    // Format: [msg_id, read_ct, enqueued_at, vt, message, headers]
-    if (Array.isArray(result)) {
-      return result;
-    }
+): Promise<QueueRecord<T>[]> {
+  return getQueueBackend().readWithPoll<T>(queueName, visibilityTimeout, quantity);
+}
 
-    throw new Error('Invalid response format from pgmq');
-  } catch (error) {
-    console.error('Error reading messages with poll from queue:', error);
-    throw error;
-  }
+/**
+ * List messages in a queue without reading them, oldest first
+ * @param queueName - Name of the queue
+ * @param limit - Most messages to return (default: 100)
+ * @param afterMsgId - Only list messages after this one, to page through the queue
+ * @returns Promise<QueueRecord[]> - Messages in the queue, visible or not;
+ *   only the visible ones with the pgmq-rest backend (see PgmqClient.peek)
+ */
+export function peekMessages<T = QueueMessage>(
+  queueName: string,
+  limit: number = 100,
+  afterMsgId?: string
+): Promise<QueueRecord<T>[]> {
+  return getQueueBackend().peek<T>(queueName, limit, afterMsgId);
 }
 
 /**
@@ -215,51 +630,47 @@ export async function readMessagesWithPoll(
  * @param messageId - ID of the message to archive
  * @returns Promise<boolean> - Success status
  */
-export async function archiveMessage(queueName: string, messageId: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/archive`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-        msg_id: messageId,
-      }),
-    });
+export function archiveMessage(queueName: string, messageId: string): Promise<boolean> {
+  return getQueueBackend().archive(queueName, messageId);
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+/**
+ * Delete a message from the queue without archiving it
+ * @param queueName - Name of the queue
+ * @param messageId - ID of the message to delete
+ * @returns Promise<boolean> - Whether a message was deleted
+ */
+export function deleteMessage(queueName: string, messageId: string): Promise<boolean> {
+  return getQueueBackend().delete(queueName, messageId);
+}
 
-    const result = await response.json();
-    return result === true || result === 'true';
-  } catch (error) {
-    console.error('Error archiving message from queue:', error);
-    throw error;
-  }
+/**
+ * Hide a message from readers for a number of seconds from now
+ * @param queueName - Name of the queue
+ * @param messageId - ID of the message
+ * @param vt - Visibility timeout in seconds
+ * @returns Promise<boolean> - Success status
+ */
+export function setVisibilityTimeout(queueName: string, messageId: string, vt: number): Promise<boolean> {
+  return getQueueBackend().setVisibilityTimeout(queueName, messageId, vt);
 }
 
 /**
  * Get queue metrics
  * @param queueName - Name of the queue
- * @returns Promise<object> - Queue metrics
+ * @returns Promise<QueueMetrics> - Queue metrics
  */
-export async function getQueueMetrics(queueName: string): Promise<any> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/metrics`, {
-      method: 'GET',
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+export function getQueueMetrics(queueName: string): Promise<QueueMetrics> {
+  return getQueueBackend().getMetrics(queueName);
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error('Error getting queue metrics:', error);
-    throw error;
-  }
+/**
+ * Get the number of messages in a queue, including ones hidden by a visibility timeout
+ * @param queueName - Name of the queue
+ * @returns Promise<number> - Queue length
+ */
+export function getQueueLength(queueName: string): Promise<number> {
+  return getQueueBackend().getQueueLength(queueName);
 }
 
 /**
@@ -287,51 +698,13 @@ export function createQueueMessage(
 /**
  * Purge all messages from a queue
  */
-export async function purgeQueue(queueName: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/purge_queue`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return response.ok;
-  } catch (error) {
-    console.error('Error purging queue:', error);
-    throw error;
-  }
+export function purgeQueue(queueName: string): Promise<boolean> {
+  return getQueueBackend().purgeQueue(queueName);
 }
 
 /**
  * Drop a queue completely
  */
-export async function dropQueue(queueName: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${PGMQ_BASE_URL}/drop_queue`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queue_name: queueName,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return response.ok;
-  } catch (error) {
-    console.error('Error dropping queue:', error);
-    throw error;
-  }
+export function dropQueue(queueName: string): Promise<boolean> {
+  return getQueueBackend().dropQueue(queueName);
 }
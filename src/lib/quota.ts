@@ -0,0 +1,123 @@
+/**
+ * Daily send quota, tracked as per-day counters in scheduled_slots.
+ *
+ * A slot is reserved when a message is scheduled for a day and released if
+ * the message is cancelled. Reservations are a single conditional upsert, so
+ * concurrent enrollments can't push a day past its limit.
+ */
+
+import { prisma } from './prisma';
+import { dayKeyToDate } from './dates';
+import type { Prisma } from '../generated/prisma';
+
+// Get daily max from environment variable
+export const DAILY_MAX = parseInt(process.env.DAILY_MAX || '100');
+
+export const GLOBAL_SCOPE = 'global';
+
+/**
+ * Quota scope for a campaign's own daily cap
+ */
+export function campaignScope(campaignId: string): string {
+  return `campaign:${campaignId}`;
+}
+
+/**
+ * Increment a slot counter, optionally only while it is below a limit
+ * @returns Whether the slot was reserved
+ */
+async function incrementSlot(
+  client: Prisma.TransactionClient,
+  day: string,
+  scope: string,
+  limit: number | null
+): Promise<boolean> {
+  if (limit === null) {
+    await client.$executeRaw`
+      INSERT INTO "scheduled_slots" ("day", "scope", "reserved")
+      VALUES (${day}::date, ${scope}, 1)
+      ON CONFLICT ("day", "scope") DO UPDATE
+        SET "reserved" = "scheduled_slots"."reserved" + 1`;
+    return true;
+  }
+
+  if (limit <= 0) {
+    return false;
+  }
+
+  // The row stays locked until the transaction ends, so the check and the increment are atomic
+  const rows = await client.$queryRaw<{ reserved: number }[]>`
+    INSERT INTO "scheduled_slots" ("day", "scope", "reserved")
+    VALUES (${day}::date, ${scope}, 1)
+    ON CONFLICT ("day", "scope") DO UPDATE
+      SET "reserved" = "scheduled_slots"."reserved" + 1
+      WHERE "scheduled_slots"."reserved" < ${limit}
+    RETURNING "reserved"`;
+
+  return rows.length > 0;
+}
+
+class SlotUnavailable extends Error {}
+
+/**
+ * Reserve one message slot on a day, against DAILY_MAX and the campaign's daily cap
+ * @param day - Day key to reserve on
+ * @param campaign - Campaign the message belongs to (the default campaign has no cap)
+ * @param enforceLimits - Set to false to book the day even if it is full
+ * @returns Whether the slot was reserved
+ */
+export async function reserveSlot(
+  day: string,
+  campaign: { id: string | null; dailyCap: number | null },
+  enforceLimits = true
+): Promise<boolean> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      if (!(await incrementSlot(tx, day, GLOBAL_SCOPE, enforceLimits ? DAILY_MAX : null))) {
+        throw new SlotUnavailable();
+      }
+
+      if (campaign.id) {
+        const limit = enforceLimits ? campaign.dailyCap : null;
+        if (!(await incrementSlot(tx, day, campaignScope(campaign.id), limit))) {
+          // Roll back the global reservation too
+          throw new SlotUnavailable();
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof SlotUnavailable) {
+      return false;
+    }
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Give back a slot reserved with reserveSlot
+ */
+export async function releaseSlot(
+  day: string,
+  campaignId: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const scopes = campaignId ? [GLOBAL_SCOPE, campaignScope(campaignId)] : [GLOBAL_SCOPE];
+
+  await client.scheduledSlot.updateMany({
+    where: { day: dayKeyToDate(day), scope: { in: scopes }, reserved: { gt: 0 } },
+    data: { reserved: { decrement: 1 } },
+  });
+}
+
+/**
+ * Number of slots reserved on a day for a scope
+ */
+export async function getReservedCount(day: string, scope: string = GLOBAL_SCOPE): Promise<number> {
+  const slot = await prisma.scheduledSlot.findUnique({
+    where: { day_scope: { day: dayKeyToDate(day), scope } },
+  });
+
+  return slot?.reserved ?? 0;
+}
@@ -0,0 +1,79 @@
+/**
+ * Sliding-window rate limits, kept in rate_limit_hits so every app instance
+ * sees the same counts. Each allowed request is recorded; a request is
+ * refused while the window behind it already holds the limit.
+ *
+ * Checking and recording happen under a transaction-scoped advisory lock
+ * on the key, so concurrent requests can't both take the last place.
+ */
+
+import { prisma } from './prisma';
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until another request would be allowed; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+/**
+ * Raised when a caller is over a rate limit
+ */
+export class RateLimitedError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Count a request against a limit, unless the limit is already reached
+ * @param key - What is being limited
+ */
+export async function consumeRateLimit(key: string, { limit, windowMs }: RateLimit): Promise<RateLimitResult> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+
+    const now = Date.now();
+    const windowStart = new Date(now - windowMs);
+
+    // Hits that have left the window are no longer needed
+    await tx.rateLimitHit.deleteMany({ where: { key, createdAt: { lte: windowStart } } });
+
+    const hits = await tx.rateLimitHit.findMany({
+      where: { key },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { createdAt: true },
+    });
+
+    if (hits.length >= limit) {
+      // A place frees up when the oldest hit leaves the window
+      const freedAt = (hits[0]?.createdAt.getTime() ?? now) + windowMs;
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((freedAt - now) / 1000)) };
+    }
+
+    await tx.rateLimitHit.create({ data: { key, createdAt: new Date(now) } });
+    return { allowed: true, retryAfterSeconds: 0 };
+  });
+}
+
+/**
+ * Delete hits older than any window still in use, for keys that
+ * consumeRateLimit hasn't seen again to clean up after
+ * @returns Number of hits deleted
+ */
+export async function pruneRateLimitHits(olderThanMs: number): Promise<number> {
+  const { count } = await prisma.rateLimitHit.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - olderThanMs) } },
+  });
+  return count;
+}
@@ -0,0 +1,283 @@
+/**
+ * Reconciliation: compares what the database says is queued with what the
+ * date queues actually hold, and optionally repairs the difference.
+ *
+ * Two things can drift apart. A lead can be ACTIVE with steps left to send
+ * but nothing queued for them, e.g. when a queue was dropped or scheduling
+ * failed; and a queue can hold messages nobody is waiting for, e.g. for a
+ * lead that was deleted. Repairing reschedules the lead's remaining steps
+ * and archives the orphaned messages.
+ *
+ * Comparing contents needs a backend that can list every message in a
+ * queue without reading it, hidden ones included: the sql or memory queue
+ * backend. pgmq-rest only gets at the visible ones, and a message in
+ * progress would look missing, so with it only the existence of queues is
+ * checked and orphans aren't looked for.
+ */
+
+import { prisma } from './prisma';
+import {
+  archiveMessage,
+  getQueueBackend,
+  peekMessages,
+  UnsupportedQueueOperationError,
+  type QueueRecord,
+} from './queue';
+import { getLeadCampaign } from './campaigns';
+import { rescheduleRemainingMessages } from './scheduler';
+import { listDateQueues } from './queue-inspection';
+import type { Lead } from '../generated/prisma';
+
+// Messages fetched per peek; queues are read a page at a time until the end
+export const PEEK_PAGE_SIZE = 1000;
+
+// Scheduling writes the queue message and then its ledger row, so anything
+// newer than this may just be mid-way through and is left alone
+const GRACE_PERIOD_MS = 5 * 60 * 1000;
+
+export interface ReconcileOptions {
+  // Reschedule the remaining steps of leads with missing messages
+  requeueMissing?: boolean;
+  // Archive queued messages that no lead is waiting for
+  archiveOrphans?: boolean;
+}
+
+export interface MissingMessagesLead {
+  leadId: string;
+  email: string;
+  messageCount: number;
+  // Steps that should be queued but aren't
+  missingSteps: number[];
+  requeued: boolean;
+}
+
+export interface OrphanedMessage {
+  queueName: string;
+  msgId: string;
+  leadId: string;
+  messageNumber: number;
+  reason: 'LEAD_DELETED' | 'NOT_SCHEDULED';
+  archived: boolean;
+}
+
+export interface ReconciliationReport {
+  checkedAt: string;
+  queues: string[];
+  // Whether queue contents were compared, or only which queues exist
+  contentsChecked: boolean;
+  missing: MissingMessagesLead[];
+  orphaned: OrphanedMessage[];
+}
+
+interface QueueContents {
+  queues: string[];
+  // Messages by queue; null when the backend can't list them
+  messages: Map<string, QueueRecord[]> | null;
+}
+
+/**
+ * Every message in a queue, however many there are. A partial view would
+ * report the messages past its end as missing and get them queued twice.
+ */
+async function peekAllMessages(queueName: string): Promise<QueueRecord[]> {
+  const records: QueueRecord[] = [];
+
+  for (;;) {
+    const page = await peekMessages(queueName, PEEK_PAGE_SIZE, records.at(-1)?.msgId);
+    records.push(...page);
+
+    if (page.length < PEEK_PAGE_SIZE) {
+      return records;
+    }
+  }
+}
+
+async function getQueueContents(): Promise<QueueContents> {
+  const queues = await listDateQueues();
+  if (!getQueueBackend().peeksHiddenMessages) {
+    return { queues, messages: null };
+  }
+
+  const messages = new Map<string, QueueRecord[]>();
+
+  for (const queueName of queues) {
+    try {
+      messages.set(queueName, await peekAllMessages(queueName));
+    } catch (error) {
+      if (error instanceof UnsupportedQueueOperationError) {
+        return { queues, messages: null };
+      }
+      throw error;
+    }
+  }
+
+  return { queues, messages };
+}
+
+/**
+ * Active leads whose remaining steps aren't all backed by a queued message
+ */
+async function findLeadsWithMissingMessages(
+  contents: QueueContents,
+  cutoff: Date
+): Promise<{ lead: Lead; missingSteps: number[] }[]> {
+  const queued = new Set<string>();
+  for (const [queueName, records] of contents.messages ?? []) {
+    for (const record of records) {
+      queued.add(`${queueName}:${record.msgId}`);
+    }
+  }
+
+  const isQueued = (queueName: string, msgId: string) =>
+    contents.messages ? queued.has(`${queueName}:${msgId}`) : contents.queues.includes(queueName);
+
+  const leads = await prisma.lead.findMany({
+    where: {
+      status: 'ACTIVE',
+      createdAt: { lt: cutoff },
+      // Leads the outbox hasn't finished scheduling are left to the relay
+      outboxEvents: { none: { status: { in: ['PENDING', 'PROCESSING'] } } },
+    },
+    include: {
+      scheduledMessages: { where: { status: 'SCHEDULED' } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const results: { lead: Lead; missingSteps: number[] }[] = [];
+
+  for (const { scheduledMessages, ...lead } of leads) {
+    if (lead.messageCount >= lead.maxMessages) {
+      continue;
+    }
+
+    // Moved or rescheduled just now; the worker may not be done with it
+    if (scheduledMessages.some((scheduled) => scheduled.createdAt >= cutoff)) {
+      continue;
+    }
+
+    const campaign = await getLeadCampaign(lead);
+    const missingSteps = campaign.steps
+      .filter((step) => step.stepNumber > lead.messageCount)
+      .filter(
+        (step) =>
+          !scheduledMessages.some(
+            (scheduled) =>
+              scheduled.messageNumber === step.stepNumber && isQueued(scheduled.queueName, scheduled.msgId)
+          )
+      )
+      .map((step) => step.stepNumber);
+
+    if (missingSteps.length > 0) {
+      results.push({ lead, missingSteps });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Queued messages whose lead is gone, or that the lead's ledger no longer
+ * books, e.g. because cancelling them failed
+ */
+async function findOrphanedMessages(
+  messages: Map<string, QueueRecord[]>,
+  cutoff: Date
+): Promise<Omit<OrphanedMessage, 'archived'>[]> {
+  const candidates = [...messages].flatMap(([queueName, records]) =>
+    records
+      .filter((record) => new Date(record.enqueuedAt) < cutoff)
+      .map((record) => ({ queueName, record }))
+  );
+
+  const leadIds = [...new Set(candidates.map(({ record }) => record.message.leadId))];
+  const [leads, scheduled] = await Promise.all([
+    prisma.lead.findMany({ where: { id: { in: leadIds } }, select: { id: true } }),
+    prisma.scheduledMessage.findMany({
+      where: { leadId: { in: leadIds }, status: 'SCHEDULED' },
+      select: { queueName: true, msgId: true },
+    }),
+  ]);
+
+  const existingLeads = new Set(leads.map((lead) => lead.id));
+  const booked = new Set(scheduled.map((row) => `${row.queueName}:${row.msgId}`));
+
+  const orphans: Omit<OrphanedMessage, 'archived'>[] = [];
+  for (const { queueName, record } of candidates) {
+    const { leadId, messageNumber } = record.message;
+
+    if (!existingLeads.has(leadId)) {
+      orphans.push({ queueName, msgId: record.msgId, leadId, messageNumber, reason: 'LEAD_DELETED' });
+    } else if (!booked.has(`${queueName}:${record.msgId}`)) {
+      orphans.push({ queueName, msgId: record.msgId, leadId, messageNumber, reason: 'NOT_SCHEDULED' });
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Compare leads with the date queues and report, and optionally repair,
+ * where they disagree
+ */
+export async function reconcile(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+  const checkedAt = Date.now();
+  const cutoff = new Date(checkedAt - GRACE_PERIOD_MS);
+
+  // Queues are looked at before the ledger, so a message sent in between
+  // shows up as booked-but-not-queued rather than the other way round, and
+  // the grace period covers it
+  const contents = await getQueueContents();
+  const leads = await findLeadsWithMissingMessages(contents, cutoff);
+  const orphans = contents.messages ? await findOrphanedMessages(contents.messages, cutoff) : [];
+
+  // Orphans first, while the queues still hold what was checked
+  const orphaned: OrphanedMessage[] = [];
+  for (const orphan of orphans) {
+    let archived = false;
+
+    if (options.archiveOrphans) {
+      try {
+        archived = await archiveMessage(orphan.queueName, orphan.msgId);
+      } catch (error) {
+        console.error(`Could not archive orphaned message ${orphan.msgId} in ${orphan.queueName}:`, error);
+      }
+    }
+
+    orphaned.push({ ...orphan, archived });
+  }
+
+  const missing: MissingMessagesLead[] = [];
+  for (const { lead, missingSteps } of leads) {
+    let requeued = false;
+
+    if (options.requeueMissing) {
+      try {
+        await rescheduleRemainingMessages(lead, await getLeadCampaign(lead));
+        requeued = true;
+      } catch (error) {
+        console.error(`Could not requeue messages for lead ${lead.id}:`, error);
+      }
+    }
+
+    missing.push({
+      leadId: lead.id,
+      email: lead.email,
+      messageCount: lead.messageCount,
+      missingSteps,
+      requeued,
+    });
+  }
+
+  console.log(
+    `Reconciliation found ${missing.length} leads with missing messages and ${orphaned.length} orphaned messages`
+  );
+
+  return {
+    checkedAt: new Date(checkedAt).toISOString(),
+    queues: contents.queues,
+    contentsChecked: contents.messages !== null,
+    missing,
+    orphaned,
+  };
+}
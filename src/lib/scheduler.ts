@@ -0,0 +1,401 @@
+/**
+ * Drip scheduling: decides which day (and therefore which date-tagged queue)
+ * each campaign step goes to, and keeps track of queued messages so they can
+ * be cancelled later.
+ */
+
+import { prisma } from './prisma';
+import {
+  createQueue,
+  sendMessage,
+  sendBatchMessages,
+  createQueueMessage,
+  deleteMessage,
+} from './queue';
+import {
+  DAILY_MAX,
+  campaignScope,
+  getReservedCount,
+  releaseSlot,
+  reserveSlot,
+} from './quota';
+import {
+  addDays,
+  dateToDayKey,
+  dayKeyToDate,
+  getDayKey,
+  isSendDay,
+  startOfDay,
+} from './dates';
+import type { CampaignDefinition } from './campaigns';
+import type { Lead } from '../generated/prisma';
+
+/**
+ * Get the number of messages already sent today across all leads
+ */
+export async function getTodayMessageCount(): Promise<number> {
+  const today = getDayKey();
+
+  const count = await prisma.scheduledMessage.count({
+    where: {
+      status: 'SENT',
+      sentAt: {
+        gte: startOfDay(today),
+        lt: startOfDay(addDays(today, 1)),
+      },
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Find the next day with capacity for a message, honoring DAILY_MAX,
+ * the campaign's own daily cap and its send days. Nothing is reserved;
+ * scheduling goes through reserveNextAvailableDay.
+ * @returns Day key
+ */
+export async function findNextAvailableDay(
+  startDay: string = getDayKey(),
+  campaign?: CampaignDefinition
+): Promise<string> {
+  let currentDay = startDay;
+
+  // Check up to 30 days in the future
+  for (let i = 0; i < 30; i++) {
+    if (!campaign || isSendDay(campaign, currentDay)) {
+      const messageCount = await getReservedCount(currentDay);
+      const campaignHasCapacity =
+        !campaign?.id ||
+        campaign.dailyCap === null ||
+        (await getReservedCount(currentDay, campaignScope(campaign.id))) <
+          campaign.dailyCap;
+
+      if (messageCount < DAILY_MAX && campaignHasCapacity) {
+        return currentDay;
+      }
+    }
+
+    // Move to next day
+    currentDay = addDays(currentDay, 1);
+  }
+
+  // If no capacity found in 30 days, return the 30th day
+  return currentDay;
+}
+
+/**
+ * Find the next day with capacity and reserve a slot on it
+ * @returns Day key
+ */
+export async function reserveNextAvailableDay(
+  startDay: string,
+  campaign: CampaignDefinition
+): Promise<string> {
+  let currentDay = startDay;
+
+  // Check up to 30 days in the future
+  for (let i = 0; i < 30; i++) {
+    if (isSendDay(campaign, currentDay) && (await reserveSlot(currentDay, campaign))) {
+      return currentDay;
+    }
+
+    // Move to next day
+    currentDay = addDays(currentDay, 1);
+  }
+
+  // If no capacity found in 30 days, overbook the next send day
+  while (!isSendDay(campaign, currentDay)) {
+    currentDay = addDays(currentDay, 1);
+  }
+  console.warn(`No capacity in the next 30 days, overbooking ${currentDay}`);
+  await reserveSlot(currentDay, campaign, false);
+  return currentDay;
+}
+
+/**
+ * Get the name to use for a queue
+ * In test mode, prefix with "test-"
+ */
+export function getQueueName(baseName: string): string {
+  // Prefix with "test-" when in test mode
+  if (process.env.NODE_ENV === 'test' || process.env.NEXT_PHASE === 'test') {
+    return `test-${baseName}`;
+  }
+
+  return baseName;
+}
+
+/**
+ * Get queue name for a day
+ */
+export function getQueueNameForDay(dayKey: string): string {
+  return getQueueName(`drip-messages-${dayKey}`);
+}
+
+/**
+ * Put a message for a campaign step on a day's queue and record it.
+ * The day's quota slot must already be reserved; it is released if queueing fails.
+ */
+async function enqueueStep(
+  lead: Pick<Lead, 'id' | 'email'>,
+  campaignId: string | null,
+  stepNumber: number,
+  dayKey: string
+): Promise<void> {
+  const queueName = getQueueNameForDay(dayKey);
+
+  try {
+    // Ensure queue exists
+    await createQueue(queueName);
+
+    // Create message
+    const message = createQueueMessage(lead.id, lead.email, stepNumber, dayKey);
+
+    // Send message to queue and remember where it went so it can be cancelled
+    const msgId = await sendMessage(queueName, message);
+    await prisma.scheduledMessage.create({
+      data: {
+        leadId: lead.id,
+        messageNumber: stepNumber,
+        queueName,
+        msgId: String(msgId),
+        scheduledFor: dayKeyToDate(dayKey),
+      },
+    });
+  } catch (error) {
+    await releaseSlot(dayKey, campaignId);
+    throw error;
+  }
+}
+
+/**
+ * Day a step should go out on at the earliest: its delay from today, but
+ * never on or before the day of the previous step
+ */
+function getStepStartDay(today: string, delayDays: number, previousDay: string | null): string {
+  const scheduledDay = addDays(today, delayDays);
+
+  if (previousDay && scheduledDay <= previousDay) {
+    return addDays(previousDay, 1);
+  }
+
+  return scheduledDay;
+}
+
+/**
+ * Schedule lead messages according to the campaign's step delays
+ */
+export async function scheduleLeadMessages(
+  lead: Lead,
+  campaign: CampaignDefinition
+): Promise<void> {
+  const today = getDayKey();
+  let firstScheduledDay: string | null = null;
+  let previousDay: string | null = null;
+
+  for (const step of campaign.steps) {
+    const scheduledDay = getStepStartDay(today, step.delayDays, previousDay);
+
+    // Reserve a slot on the next day with capacity
+    const availableDay = await reserveNextAvailableDay(scheduledDay, campaign);
+    await enqueueStep(lead, campaign.id, step.stepNumber, availableDay);
+
+    console.log(
+      `Scheduled message ${step.stepNumber} (${step.channel}) for ${lead.email} on ${availableDay}`
+    );
+
+    firstScheduledDay ??= availableDay;
+    previousDay = availableDay;
+  }
+
+  // Update lead with next scheduled date
+  await prisma.lead.update({
+    where: { id: lead.id },
+    data: {
+      status: 'ACTIVE',
+      nextScheduledFor: dayKeyToDate(firstScheduledDay ?? today),
+    },
+  });
+}
+
+/**
+ * Schedule a batch of leads enrolled in the same campaign, e.g. from an
+ * import. Slots are reserved per lead and step as in scheduleLeadMessages,
+ * then each day's messages go to its queue in one sendBatchMessages call.
+ * If a day can't be queued, its slots and those of the days not yet queued
+ * are released.
+ */
+export async function scheduleLeadBatch(
+  leads: Lead[],
+  campaign: CampaignDefinition
+): Promise<void> {
+  const today = getDayKey();
+  const messagesByDay = new Map<string, { lead: Lead; stepNumber: number }[]>();
+  const firstScheduledDays = new Map<string, string>();
+
+  for (const lead of leads) {
+    let previousDay: string | null = null;
+
+    for (const step of campaign.steps) {
+      const scheduledDay = getStepStartDay(today, step.delayDays, previousDay);
+      const availableDay = await reserveNextAvailableDay(scheduledDay, campaign);
+
+      const messages = messagesByDay.get(availableDay) ?? [];
+      messages.push({ lead, stepNumber: step.stepNumber });
+      messagesByDay.set(availableDay, messages);
+
+      if (!firstScheduledDays.has(lead.id)) {
+        firstScheduledDays.set(lead.id, availableDay);
+      }
+      previousDay = availableDay;
+    }
+  }
+
+  const batches = [...messagesByDay.entries()];
+
+  for (const [index, [dayKey, messages]] of batches.entries()) {
+    const queueName = getQueueNameForDay(dayKey);
+
+    try {
+      // Ensure queue exists
+      await createQueue(queueName);
+
+      const msgIds = await sendBatchMessages(
+        queueName,
+        messages.map(({ lead, stepNumber }) =>
+          createQueueMessage(lead.id, lead.email, stepNumber, dayKey)
+        )
+      );
+
+      await prisma.scheduledMessage.createMany({
+        data: messages.map(({ lead, stepNumber }, i) => ({
+          leadId: lead.id,
+          messageNumber: stepNumber,
+          queueName,
+          msgId: String(msgIds[i]),
+          scheduledFor: dayKeyToDate(dayKey),
+        })),
+      });
+
+      console.log(`Scheduled ${messages.length} messages on ${dayKey}`);
+    } catch (error) {
+      for (const [unsentDay, unsent] of batches.slice(index)) {
+        for (let i = 0; i < unsent.length; i++) {
+          await releaseSlot(unsentDay, campaign.id);
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Update leads with their next scheduled date
+  await prisma.$transaction(
+    leads.map((lead) =>
+      prisma.lead.update({
+        where: { id: lead.id },
+        data: {
+          status: 'ACTIVE',
+          nextScheduledFor: dayKeyToDate(firstScheduledDays.get(lead.id) ?? today),
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Move a queued message to a later day, e.g. when the campaign's send
+ * window doesn't open again today. The message keeps its step number; its
+ * quota slot moves with it.
+ * @returns Day key the message was moved to
+ */
+export async function moveScheduledMessage(
+  lead: Pick<Lead, 'id' | 'email' | 'campaignId'>,
+  campaign: CampaignDefinition,
+  messageNumber: number,
+  fromQueue: string,
+  fromMsgId: string,
+  earliestDay: string
+): Promise<string> {
+  const targetDay = await reserveNextAvailableDay(earliestDay, campaign);
+  await enqueueStep(lead, campaign.id, messageNumber, targetDay);
+
+  const previous = await prisma.scheduledMessage.findFirst({
+    where: { queueName: fromQueue, msgId: fromMsgId, status: 'SCHEDULED' },
+  });
+  if (previous) {
+    await prisma.scheduledMessage.update({
+      where: { id: previous.id },
+      data: { status: 'CANCELLED' },
+    });
+    await releaseSlot(dateToDayKey(previous.scheduledFor), lead.campaignId);
+  }
+
+  return targetDay;
+}
+
+/**
+ * Reschedule the steps a lead hasn't received yet, e.g. after a pause.
+ * Queued messages are cancelled and the remaining steps are scheduled again
+ * starting today, keeping their spacing relative to each other.
+ */
+export async function rescheduleRemainingMessages(
+  lead: Lead,
+  campaign: CampaignDefinition
+): Promise<void> {
+  await cancelPendingMessages(lead);
+
+  const remaining = campaign.steps.filter(
+    (step) => step.stepNumber > lead.messageCount
+  );
+  const offset = remaining[0]?.delayDays ?? 0;
+
+  await scheduleLeadMessages(lead, {
+    ...campaign,
+    steps: remaining.map((step) => ({
+      ...step,
+      delayDays: step.delayDays - offset,
+    })),
+  });
+}
+
+/**
+ * Remove a lead's not-yet-sent messages from their queues and give their
+ * quota slots back
+ * @returns Number of messages removed
+ */
+export async function cancelPendingMessages(
+  lead: Pick<Lead, 'id' | 'messageCount' | 'campaignId'>
+): Promise<number> {
+  const pending = await prisma.scheduledMessage.findMany({
+    where: {
+      leadId: lead.id,
+      messageNumber: { gt: lead.messageCount },
+      status: 'SCHEDULED',
+    },
+  });
+
+  const results = await Promise.allSettled(
+    pending.map((scheduled) => deleteMessage(scheduled.queueName, scheduled.msgId))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      // The worker archives messages whose lead is gone, so this is not fatal
+      console.error(`Could not cancel message ${pending[index].msgId} in ${pending[index].queueName}:`, result.reason);
+    }
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.scheduledMessage.updateMany({
+      where: { id: { in: pending.map((scheduled) => scheduled.id) } },
+      data: { status: 'CANCELLED' },
+    });
+
+    for (const scheduled of pending) {
+      await releaseSlot(dateToDayKey(scheduled.scheduledFor), lead.campaignId, tx);
+    }
+  });
+
+  return results.filter((result) => result.status === 'fulfilled').length;
+}
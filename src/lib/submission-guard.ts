@@ -0,0 +1,98 @@
+/**
+ * Protection for the public contact form: per-IP and per-email rate limits,
+ * and two checks that catch simple bots. The form has a honeypot field
+ * people never see or fill in, and records when it was opened, so
+ * submissions made faster than anyone could type are refused.
+ */
+
+import { consumeRateLimit, RateLimitedError } from './rate-limit';
+
+export const LEAD_RATE_LIMIT_WINDOW_MS = parseInt(process.env.LEAD_RATE_LIMIT_WINDOW || '3600000');
+export const LEAD_RATE_LIMIT_PER_IP = parseInt(process.env.LEAD_RATE_LIMIT_PER_IP || '5');
+export const LEAD_RATE_LIMIT_PER_EMAIL = parseInt(process.env.LEAD_RATE_LIMIT_PER_EMAIL || '3');
+export const FORM_MIN_FILL_MS = parseInt(process.env.FORM_MIN_FILL_TIME || '3000');
+
+// Proxies in front of the app that append to X-Forwarded-For. Entries left
+// of the ones they added were sent by the client and can say anything
+export const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUSTED_PROXY_HOPS || '1');
+
+// Form fields that are checked here and not part of the lead
+export const HONEYPOT_FIELD = 'website';
+export const STARTED_AT_FIELD = 'formStartedAt';
+
+// Set on submissions the public route hands on to POST /api/leads, which
+// then treats them as coming from someone without an API key
+export const PUBLIC_SUBMISSION_HEADER = 'x-public-submission';
+
+/**
+ * Raised for submissions that look automated
+ */
+export class BotSubmissionError extends Error {
+  constructor(message: string = 'Submission rejected') {
+    super(message);
+    this.name = 'BotSubmissionError';
+  }
+}
+
+/**
+ * Address a request came from: the X-Forwarded-For entry added by the
+ * outermost trusted proxy, counting trustedHops entries from the right
+ */
+export function getClientIp(headers: Headers, trustedHops: number = TRUSTED_PROXY_HOPS): string {
+  const forwarded =
+    trustedHops > 0
+      ? (headers.get('x-forwarded-for') ?? '')
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : [];
+
+  // Fewer entries than hops means every entry came from a trusted proxy
+  const ip = forwarded[Math.max(forwarded.length - trustedHops, 0)];
+  return ip || headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Refuse submissions with the honeypot filled in, or sent sooner than
+ * FORM_MIN_FILL_MS after the form was opened
+ * @param body - The submitted form, honeypot and timing fields included
+ */
+export function checkForBot(body: Record<string, unknown>, now: number = Date.now()): void {
+  const honeypot = body[HONEYPOT_FIELD];
+  if (typeof honeypot === 'string' ? honeypot.trim() !== '' : honeypot != null) {
+    throw new BotSubmissionError();
+  }
+
+  const startedAt = Number(body[STARTED_AT_FIELD]);
+  if (!Number.isFinite(startedAt) || now - startedAt < FORM_MIN_FILL_MS) {
+    throw new BotSubmissionError();
+  }
+}
+
+/**
+ * Count a submission against the per-IP limit
+ */
+export async function enforceIpLimit(ip: string): Promise<void> {
+  const { allowed, retryAfterSeconds } = await consumeRateLimit(`lead-submit:ip:${ip}`, {
+    limit: LEAD_RATE_LIMIT_PER_IP,
+    windowMs: LEAD_RATE_LIMIT_WINDOW_MS,
+  });
+
+  if (!allowed) {
+    throw new RateLimitedError('Too many submissions. Please try again later.', retryAfterSeconds);
+  }
+}
+
+/**
+ * Count a submission against the per-email limit
+ */
+export async function enforceEmailLimit(email: string): Promise<void> {
+  const { allowed, retryAfterSeconds } = await consumeRateLimit(
+    `lead-submit:email:${email.trim().toLowerCase()}`,
+    { limit: LEAD_RATE_LIMIT_PER_EMAIL, windowMs: LEAD_RATE_LIMIT_WINDOW_MS }
+  );
+
+  if (!allowed) {
+    throw new RateLimitedError('Too many submissions for this email. Please try again later.', retryAfterSeconds);
+  }
+}
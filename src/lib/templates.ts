@@ -0,0 +1,185 @@
+/**
+ * Message templates for drip sequences.
+ *
+ * Templates use `{{ variable }}` placeholders which are filled from the lead.
+ * Email bodies are HTML, so interpolated values are HTML-escaped; every value
+ * has control characters stripped so nothing can inject extra header lines.
+ */
+
+import { prisma } from './prisma';
+import { getUnsubscribeUrl } from './unsubscribe';
+import type { Channel, Lead, MessageTemplate, Prisma } from '../generated/prisma';
+
+export const TEMPLATE_VARIABLES = [
+  'name',
+  'email',
+  'phone',
+  'notes',
+  'messageNumber',
+  'maxMessages',
+  'unsubscribeUrl',
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateContext = Partial<Record<TemplateVariable, string | number | null | undefined>>;
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+  format: 'text' | 'html';
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape a value for safe inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Remove control characters (including CR/LF) from an interpolated value
+ */
+function stripControlCharacters(value: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+  return value.replace(/[\u0000-\u001f\u007f]+/g, ' ');
+}
+
+/**
+ * List the placeholder names used in a template string
+ */
+export function findTemplateVariables(source: string): string[] {
+  const names = new Set<string>();
+  for (const match of source.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Find placeholders that don't correspond to a known lead field
+ */
+export function findUnknownVariables(source: string): string[] {
+  return findTemplateVariables(source).filter(
+    (name) => !(TEMPLATE_VARIABLES as readonly string[]).includes(name)
+  );
+}
+
+/**
+ * Interpolate placeholders in a template string
+ * @param source - Template string
+ * @param context - Values for placeholders; unknown or missing values render as empty
+ * @param escapeValues - Apply HTML escaping to interpolated values
+ */
+export function renderTemplateString(
+  source: string,
+  context: TemplateContext,
+  escapeValues: boolean
+): string {
+  return source.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = context[name as TemplateVariable];
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    const text = stripControlCharacters(String(value));
+    return escapeValues ? escapeHtml(text) : text;
+  });
+}
+
+/**
+ * Build the template context for a lead
+ */
+export function createTemplateContext(
+  lead: Pick<Lead, 'id' | 'name' | 'email' | 'phone' | 'notes' | 'maxMessages'>,
+  messageNumber: number
+): TemplateContext {
+  return {
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    notes: lead.notes,
+    messageNumber,
+    maxMessages: lead.maxMessages,
+    unsubscribeUrl: getUnsubscribeUrl(lead.id),
+  };
+}
+
+/**
+ * Render a template for a given context
+ */
+export function renderTemplate(
+  template: Pick<MessageTemplate, 'subject' | 'body' | 'channel'>,
+  context: TemplateContext
+): RenderedMessage {
+  const isEmail = template.channel === 'EMAIL';
+
+  return {
+    subject: renderTemplateString(template.subject ?? '', context, false),
+    body: renderTemplateString(template.body, context, isEmail),
+    format: isEmail ? 'html' : 'text',
+  };
+}
+
+/**
+ * Fallback content used when no template exists for a step
+ */
+export function renderDefaultMessage(context: TemplateContext): RenderedMessage {
+  return {
+    subject: renderTemplateString('Following up ({{messageNumber}}/{{maxMessages}})', context, false),
+    body: renderTemplateString(
+      'Hi {{name}}, this is message #{{messageNumber}} of {{maxMessages}}.\n\nUnsubscribe: {{unsubscribeUrl}}',
+      context,
+      false
+    ),
+    format: 'text',
+  };
+}
+
+/**
+ * Look up the template for a step of the drip sequence
+ * @param stepNumber - Message number in sequence
+ * @param channel - Logical channel the message is sent on
+ * @param client - Prisma client or transaction to query with
+ */
+export async function findTemplateForStep(
+  stepNumber: number,
+  channel: Channel,
+  client: Prisma.TransactionClient = prisma
+): Promise<MessageTemplate | null> {
+  return client.messageTemplate.findUnique({
+    where: { stepNumber_channel: { stepNumber, channel } },
+  });
+}
+
+/**
+ * Render the message a lead should receive for a campaign step, falling back to the default content.
+ * A template linked to the step wins over the generic template for that step number and channel.
+ */
+export async function renderLeadMessage(
+  lead: Lead,
+  step: { stepNumber: number; channel: Channel; templateId: string | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<RenderedMessage> {
+  const context = createTemplateContext(lead, step.stepNumber);
+  const template = step.templateId
+    ? await client.messageTemplate.findUnique({ where: { id: step.templateId } })
+    : await findTemplateForStep(step.stepNumber, step.channel, client);
+
+  if (!template) {
+    return renderDefaultMessage(context);
+  }
+
+  // Render with the step's channel so escaping matches how it is sent
+  return renderTemplate({ ...template, channel: step.channel }, context);
+}
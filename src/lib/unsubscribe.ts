@@ -0,0 +1,157 @@
+/**
+ * Opt-out handling: signed unsubscribe links and the global suppression list.
+ *
+ * Tokens are `<leadId>.<signature>` where the signature is an HMAC-SHA256 of
+ * the lead ID keyed with UNSUBSCRIBE_SECRET, so links can't be forged for
+ * other leads. Suppressions are keyed by email and phone and outlive the
+ * lead, so a deleted and re-submitted contact stays opted out.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { prisma } from './prisma';
+import { cancelPendingMessages } from './scheduler';
+import type { Lead, Prisma } from '../generated/prisma';
+
+/**
+ * Raised when a suppressed contact is submitted as a new lead
+ */
+export class SuppressedContactError extends Error {
+  constructor() {
+    super('This contact has unsubscribed and cannot be enrolled');
+    this.name = 'SuppressedContactError';
+  }
+}
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('UNSUBSCRIBE_SECRET must be set in production');
+    }
+    return 'hyperdrip-development-unsubscribe-secret';
+  }
+
+  return secret;
+}
+
+function sign(leadId: string): string {
+  return createHmac('sha256', getUnsubscribeSecret()).update(leadId).digest('base64url');
+}
+
+/**
+ * Create the signed unsubscribe token for a lead
+ */
+export function createUnsubscribeToken(leadId: string): string {
+  return `${leadId}.${sign(leadId)}`;
+}
+
+/**
+ * Verify an unsubscribe token
+ * @returns The lead ID, or null when the token is malformed or forged
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const leadId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(leadId));
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return leadId;
+}
+
+/**
+ * Public unsubscribe link for a lead
+ */
+export function getUnsubscribeUrl(leadId: string): string {
+  const baseUrl = process.env.APP_URL || 'http://localhost:3000';
+  return `${baseUrl}/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(leadId))}`;
+}
+
+/**
+ * Check whether an email or phone number is on the suppression list
+ */
+export async function isSuppressed(
+  contact: { email: string; phone: string },
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const suppression = await client.suppression.findFirst({
+    where: {
+      OR: [
+        { type: 'EMAIL', value: contact.email.toLowerCase() },
+        { type: 'PHONE', value: contact.phone },
+      ],
+    },
+  });
+
+  return suppression !== null;
+}
+
+/**
+ * Add a lead's email and phone to the suppression list
+ */
+export async function suppressContact(
+  contact: { email: string; phone: string },
+  reason: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const entries = [
+    { type: 'EMAIL' as const, value: contact.email.toLowerCase() },
+    { type: 'PHONE' as const, value: contact.phone },
+  ];
+
+  for (const entry of entries) {
+    await client.suppression.upsert({
+      where: { type_value: entry },
+      create: { ...entry, reason },
+      update: {},
+    });
+  }
+}
+
+/**
+ * Opt a lead out: suppress its contact details, stop the drip and
+ * cancel whatever is still queued
+ * @returns The updated lead, or null if it doesn't exist
+ */
+export async function unsubscribeLead(leadId: string, reason: string): Promise<Lead | null> {
+  const lead = await prisma.$transaction(async (tx) => {
+    const existing = await tx.lead.findUnique({ where: { id: leadId } });
+    if (!existing) {
+      return null;
+    }
+
+    await suppressContact(existing, reason, tx);
+
+    if (existing.status === 'UNSUBSCRIBED') {
+      return existing;
+    }
+
+    return tx.lead.update({
+      where: { id: leadId },
+      data: {
+        status: 'UNSUBSCRIBED',
+        unsubscribedAt: new Date(),
+        nextScheduledFor: null,
+      },
+    });
+  });
+
+  if (lead) {
+    try {
+      await cancelPendingMessages(lead);
+    } catch (error) {
+      // The worker skips unsubscribed leads, so leftover messages are harmless
+      console.error(`Error cancelling messages for unsubscribed lead ${leadId}:`, error);
+    }
+  }
+
+  return lead;
+}
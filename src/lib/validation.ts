@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { normalizeEmail, normalizePhone } from "./contact";
+import { isValidTimeZone } from "./dates";
+
+/**
+ * Request validation shared by the lead API routes and the contact form
+ */
+
+// Trimmed and lowercased before it is checked, as it is stored
+export const emailSchema = z
+  .string()
+  .transform(normalizeEmail)
+  .pipe(z.email("Invalid email format"));
+
+// Any common way of writing a number, stored in E.164 form
+export const phoneSchema = z.string().transform((value, ctx) => {
+  const phone = normalizePhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: "custom", message: "Invalid phone number" });
+    return z.NEVER;
+  }
+  return phone;
+});
+
+/**
+ * Fields of the public contact form
+ */
+export const leadFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  email: emailSchema,
+  phone: phoneSchema,
+  notes: z.string().optional(),
+});
+
+export const leadSchema = leadFormSchema.extend({
+  campaign: z.string().min(1, "Campaign name cannot be empty").optional(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+});
+
+export const leadUpdateSchema = leadSchema
+  .omit({ campaign: true })
+  .extend({
+    notes: z.string().nullable().optional(),
+    timezone: z
+      .string()
+      .refine(isValidTimeZone, "Unknown timezone")
+      .nullable()
+      .optional(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const LEAD_STATUSES = [
+  "ACTIVE",
+  "COMPLETED",
+  "FAILED",
+  "UNSUBSCRIBED",
+  "PAUSED",
+  "CANCELLED",
+] as const;
+
+export const leadListQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(LEAD_STATUSES).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  email: z.string().min(1).optional(),
+});
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { handleForbidden, handleUnauthorized } from "@/lib/api-errors";
+import {
+  authenticateApiKey,
+  getRequestApiKey,
+  getRequiredScope,
+  hasScope,
+} from "@/lib/api-keys";
+
+/**
+ * Require an API key with the right scope on every API route except the
+ * public ones (see getRequiredScope)
+ */
+export async function middleware(request: NextRequest): Promise<Response> {
+  const scope = getRequiredScope(request.method, request.nextUrl.pathname);
+  if (scope === null) {
+    return NextResponse.next();
+  }
+
+  const key = getRequestApiKey(request.headers);
+  const identity = key ? await authenticateApiKey(key) : null;
+  if (!identity) {
+    return handleUnauthorized("Missing or invalid API key");
+  }
+
+  if (!hasScope(identity.scopes, scope)) {
+    return handleForbidden(`This API key needs the ${scope} scope`);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/:path*",
+  // Keys are looked up with Prisma, which needs Node.js
+  runtime: "nodejs",
+};
@@ -0,0 +1,16 @@
+/**
+ * Standalone drip worker, for running the worker as its own process or
+ * container instead of inside the Next.js server: `npm run worker`.
+ * Set DISABLE_EMBEDDED_WORKER=true on the web processes so they leave the
+ * queues to it.
+ */
+
+import 'dotenv/config';
+import { startWorker, stopWorkerOnSignals } from './lib/drip-worker';
+
+stopWorkerOnSignals(() => process.exit(0));
+
+startWorker().catch((error) => {
+  console.error('Drip worker failed to start:', error);
+  process.exit(1);
+});